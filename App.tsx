@@ -36,6 +36,10 @@ const CustomerDetail = lazy(() => import('./pages/CustomerDetail'));
 const CustomerLoyalty = lazy(() => import('./pages/CustomerLoyalty'));
 const Inventory = lazy(() => import('./pages/Inventory'));
 const InventoryDetail = lazy(() => import('./pages/InventoryDetail'));
+const Purchasing = lazy(() => import('./pages/Inventory/Purchasing'));
+const Recipes = lazy(() => import('./pages/Inventory/Recipes'));
+const Valuation = lazy(() => import('./pages/Inventory/Valuation'));
+const StockCounts = lazy(() => import('./pages/Inventory/StockCounts'));
 const Marketing = lazy(() => import('./pages/Marketing'));
 const CreateCampaign = lazy(() => import('./pages/CreateCampaign'));
 const Ticketing = lazy(() => import('./pages/Ticketing'));
@@ -45,6 +49,7 @@ const Documents = lazy(() => import('./pages/Documents'));
 const FileManager = lazy(() => import('./pages/FileManager'));
 const Projects = lazy(() => import('./pages/Projects'));
 const Settings = lazy(() => import('./pages/Settings'));
+const Trash = lazy(() => import('./pages/Trash'));
 const AITools = lazy(() => import('./pages/AITools'));
 const StaffManagement = lazy(() => import('./pages/StaffManagement'));
 
@@ -218,6 +223,22 @@ const App: React.FC = () => {
                     path="inventory" 
                     element={<LazyRoute component={Inventory} componentName="Inventory" fallbackType="table" />} 
                   />
+                  <Route 
+                    path="inventory/purchasing" 
+                    element={<LazyRoute component={Purchasing} componentName="Purchasing" fallbackType="table" />} 
+                  />
+                  <Route 
+                    path="inventory/recipes" 
+                    element={<LazyRoute component={Recipes} componentName="Recipes" fallbackType="table" />} 
+                  />
+                  <Route 
+                    path="inventory/valuation" 
+                    element={<LazyRoute component={Valuation} componentName="Valuation" fallbackType="table" />} 
+                  />
+                  <Route 
+                    path="inventory/stock-counts" 
+                    element={<LazyRoute component={StockCounts} componentName="StockCounts" fallbackType="table" />} 
+                  />
                   <Route 
                     path="inventory/:id" 
                     element={<LazyRoute component={InventoryDetail} componentName="InventoryDetail" fallbackType="card" />} 
@@ -277,6 +298,12 @@ const App: React.FC = () => {
                     element={<LazyRoute component={Settings} componentName="Settings" fallbackType="card" />} 
                   />
 
+                  {/* Trash */}
+                  <Route 
+                    path="trash" 
+                    element={<LazyRoute component={Trash} componentName="Trash" fallbackType="table" />} 
+                  />
+
                   {/* AI Tools */}
                   <Route 
                     path="ai-tools" 
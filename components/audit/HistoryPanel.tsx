@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { History } from 'lucide-react';
+import { format } from 'date-fns';
+import { useRecordHistory } from '../../hooks/useAudit';
+import { formatAuditField, formatAuditValue, type AuditEntityType, type AuditEntry } from '../../lib/api/schemas/auditSchemas';
+
+interface HistoryPanelProps {
+  entityType: AuditEntityType;
+  entityId: string;
+  // The record's updatedAt, so the history reloads after a save
+  version?: string;
+}
+
+const operationLabels: Record<AuditEntry['operation'], string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted'
+};
+
+// Entries shown before "Show all"
+const COLLAPSED_ENTRIES = 5;
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ entityType, entityId, version }) => {
+  const { entries, isLoading, isError } = useRecordHistory(entityType, entityId, version);
+  const [showAll, setShowAll] = useState(false);
+
+  const visibleEntries = showAll ? entries : entries.slice(0, COLLAPSED_ENTRIES);
+
+  return (
+    <div className="rounded-xl bg-zinc-900 p-6 shadow-lg">
+      <div className="mb-4 flex items-center">
+        <History size={20} className="mr-2 text-amber-500" />
+        <h2 className="text-xl font-semibold text-white">History</h2>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <div className="h-5 w-5 animate-spin rounded-full border-2 border-amber-500 border-t-transparent"></div>
+        </div>
+      ) : isError ? (
+        <p className="text-sm text-gray-400">History could not be loaded.</p>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-gray-400">No recorded changes yet.</p>
+      ) : (
+        <ol className="space-y-4">
+          {visibleEntries.map(entry => (
+            <li key={entry.id} className="border-l-2 border-zinc-700 pl-3">
+              <p className="text-sm text-white">
+                {operationLabels[entry.operation]}
+                <span className="text-gray-400"> by {entry.actorEmail || 'unknown user'}</span>
+              </p>
+              <p className="text-xs text-gray-500">{format(new Date(entry.createdAt), 'MMM d, yyyy HH:mm')}</p>
+              {entry.operation === 'update' && (
+                <ul className="mt-1 space-y-1">
+                  {entry.changes.map(change => (
+                    <li key={change.field} className="text-xs text-gray-300">
+                      <span className="text-gray-400">{formatAuditField(change.field)}:</span>{' '}
+                      <span className="line-through decoration-gray-500">{formatAuditValue(change.before)}</span>
+                      {' → '}
+                      {formatAuditValue(change.after)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {entries.length > COLLAPSED_ENTRIES && (
+        <button
+          onClick={() => setShowAll(!showAll)}
+          className="mt-4 text-sm text-amber-500 hover:text-amber-400"
+        >
+          {showAll ? 'Show less' : `Show all ${entries.length} changes`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -27,6 +27,22 @@ import {
   Globe
 } from 'lucide-react';
 import { toast } from 'react-hot-toast';
+import { useAuditTrail } from '../../hooks/useAudit';
+import {
+  formatAuditField,
+  formatAuditValue,
+  type AuditEntityType,
+  type AuditOperation,
+  type AuditQuery
+} from '../../lib/api/schemas/auditSchemas';
+
+const auditEntityLabels: Record<AuditEntityType, string> = {
+  events: 'Event',
+  customers: 'Customer',
+  inventory_items: 'Inventory item',
+  financial_transactions: 'Transaction',
+  staff: 'Staff member'
+};
 
 interface SecurityDashboardProps {
   onClose?: () => void;
@@ -56,6 +72,15 @@ export const SecurityDashboard: React.FC<SecurityDashboardProps> = ({ onClose })
   const [auditFilter, setAuditFilter] = useState<'all' | 'login' | 'security' | 'changes'>('all');
   const [alertFilter, setAlertFilter] = useState<'all' | 'unresolved' | 'critical'>('all');
   const [isLoading, setIsLoading] = useState(false);
+  const [auditView, setAuditView] = useState<'account' | 'records'>('account');
+  const [recordFilters, setRecordFilters] = useState({ entityType: '', operation: '', search: '', dateFrom: '', dateTo: '' });
+  const [recordQuery, setRecordQuery] = useState<AuditQuery>({});
+  const {
+    entries: recordChanges,
+    isLoading: isLoadingRecordChanges,
+    isError: isRecordChangesError,
+    refetch: refetchRecordChanges
+  } = useAuditTrail(recordQuery, activeTab === 'audit' && auditView === 'records');
 
   useEffect(() => {
     loadSecurityData();
@@ -112,6 +137,17 @@ export const SecurityDashboard: React.FC<SecurityDashboardProps> = ({ onClose })
     return true;
   });
 
+  const searchRecordChanges = (e: React.FormEvent) => {
+    e.preventDefault();
+    setRecordQuery({
+      entityType: (recordFilters.entityType || undefined) as AuditEntityType | undefined,
+      operation: (recordFilters.operation || undefined) as AuditOperation | undefined,
+      search: recordFilters.search.trim() || undefined,
+      dateFrom: recordFilters.dateFrom ? new Date(`${recordFilters.dateFrom}T00:00:00`).toISOString() : undefined,
+      dateTo: recordFilters.dateTo ? new Date(`${recordFilters.dateTo}T23:59:59.999`).toISOString() : undefined
+    });
+  };
+
   const filteredAlerts = securityAlerts.filter(alert => {
     if (alertFilter === 'all') return true;
     if (alertFilter === 'unresolved') return !alert.resolved;
@@ -515,6 +551,142 @@ export const SecurityDashboard: React.FC<SecurityDashboardProps> = ({ onClose })
 
   // Audit Log Tab
   const renderAuditLog = () => (
+    <div className="space-y-6">
+      <div className="flex gap-2">
+        {([['account', 'Account Activity'], ['records', 'Record Changes']] as const).map(([view, label]) => (
+          <button
+            key={view}
+            onClick={() => setAuditView(view)}
+            className={`px-3 py-2 rounded-lg text-sm transition-colors ${
+              auditView === view ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {auditView === 'records' ? renderRecordChanges() : renderAccountActivity()}
+    </div>
+  );
+
+  // Field-level changes to business records
+  const renderRecordChanges = () => (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-xl font-bold text-white">Record Changes</h3>
+          <p className="text-gray-400">Who changed which field on events, customers, inventory, finances and staff</p>
+        </div>
+        <button
+          onClick={() => refetchRecordChanges()}
+          className="flex items-center gap-2 px-3 py-2 bg-gray-700 text-gray-300 rounded-lg hover:bg-gray-600 transition-colors"
+        >
+          <RefreshCw className="h-4 w-4" />
+          Refresh
+        </button>
+      </div>
+
+      <form onSubmit={searchRecordChanges} className="flex flex-wrap gap-3">
+        <select
+          value={recordFilters.entityType}
+          onChange={(e) => setRecordFilters(prev => ({ ...prev, entityType: e.target.value }))}
+          className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">All Records</option>
+          {Object.entries(auditEntityLabels).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <select
+          value={recordFilters.operation}
+          onChange={(e) => setRecordFilters(prev => ({ ...prev, operation: e.target.value }))}
+          className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">All Operations</option>
+          <option value="create">Created</option>
+          <option value="update">Updated</option>
+          <option value="delete">Deleted</option>
+        </select>
+        <input
+          type="text"
+          placeholder="User, field or value"
+          value={recordFilters.search}
+          onChange={(e) => setRecordFilters(prev => ({ ...prev, search: e.target.value }))}
+          className="flex-1 min-w-[12rem] px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <input
+          type="date"
+          value={recordFilters.dateFrom}
+          onChange={(e) => setRecordFilters(prev => ({ ...prev, dateFrom: e.target.value }))}
+          className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <input
+          type="date"
+          value={recordFilters.dateTo}
+          onChange={(e) => setRecordFilters(prev => ({ ...prev, dateTo: e.target.value }))}
+          className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          className="flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <Filter className="h-4 w-4" />
+          Search
+        </button>
+      </form>
+
+      <div className="space-y-3">
+        {isLoadingRecordChanges ? (
+          <div className="flex items-center justify-center py-8">
+            <RefreshCw className="h-6 w-6 animate-spin text-blue-400" />
+          </div>
+        ) : recordChanges.map((entry) => (
+          <div key={entry.id} className="bg-gray-800/50 rounded-lg p-4">
+            <div className="flex items-start justify-between">
+              <div>
+                <div className="text-white font-medium">
+                  {auditEntityLabels[entry.entityType as AuditEntityType] || entry.entityType} {entry.operation}d
+                </div>
+                <div className="flex items-center gap-4 mt-1 text-xs text-gray-400">
+                  <span className="flex items-center gap-1">
+                    <Clock className="h-3 w-3" />
+                    {new Date(entry.createdAt).toLocaleString()}
+                  </span>
+                  <span>{entry.actorEmail || entry.actorId || 'Unknown user'}</span>
+                  <span className="font-mono">{entry.entityId}</span>
+                </div>
+              </div>
+            </div>
+            <ul className="mt-3 space-y-1">
+              {entry.changes.map(change => (
+                <li key={change.field} className="text-sm text-gray-300">
+                  <span className="text-gray-400">{formatAuditField(change.field)}:</span>{' '}
+                  {entry.operation !== 'create' && (
+                    <>
+                      <span className="line-through text-gray-500">{formatAuditValue(change.before)}</span>
+                      {entry.operation === 'update' && ' → '}
+                    </>
+                  )}
+                  {entry.operation !== 'delete' && formatAuditValue(change.after)}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+
+        {!isLoadingRecordChanges && recordChanges.length === 0 && (
+          <div className="text-center py-8 text-gray-400">
+            <Eye className="h-12 w-12 mx-auto mb-3 opacity-50" />
+            <p>{isRecordChangesError ? 'Record changes could not be loaded' : 'No record changes found'}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  // Sign-ins and account security events
+  const renderAccountActivity = () => (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
@@ -0,0 +1,201 @@
+import React, { memo, useState } from 'react';
+import {
+  AlertTriangle,
+  BellOff,
+  Check,
+  ChevronRight,
+  History,
+  MapPin,
+  RefreshCw,
+  UserPlus
+} from 'lucide-react';
+import { format, formatDistanceToNow, startOfTomorrow, addHours } from 'date-fns';
+import { useNavigate } from 'react-router-dom';
+import { useStockAlerts } from '../../hooks/useInventory';
+import type { StockAlert } from '../../lib/api/schemas/inventorySchemas';
+
+const severityStyles: Record<StockAlert['severity'], string> = {
+  critical: 'border-red-500/40 bg-red-900/20 text-red-300',
+  warning: 'border-amber-500/40 bg-amber-900/20 text-amber-300',
+  info: 'border-zinc-600/50 bg-zinc-800/50 text-gray-300'
+};
+
+const actionLabels: Record<string, string> = {
+  raised: 'Raised',
+  acknowledged: 'Acknowledged',
+  snoozed: 'Snoozed',
+  assigned: 'Assigned',
+  resolved: 'Resolved'
+};
+
+interface AlertRowProps {
+  alert: StockAlert;
+  onAcknowledge: (id: string) => void;
+  onSnooze: (id: string, until: Date) => void;
+  onAssign: (alert: StockAlert) => void;
+}
+
+// Active alert with its actions
+const AlertRow: React.FC<AlertRowProps> = memo(({ alert, onAcknowledge, onSnooze, onAssign }) => {
+  const isSnoozed = !!alert.snoozedUntil && new Date(alert.snoozedUntil) > new Date();
+
+  return (
+    <div className={`rounded-lg border p-3 ${severityStyles[alert.severity]} ${isSnoozed ? 'opacity-60' : ''}`}>
+      <p className="text-sm text-white">{alert.message}</p>
+      <div className="mt-1 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs">
+        {alert.location && (
+          <span className="flex items-center"><MapPin size={12} className="mr-1" />{alert.location}</span>
+        )}
+        <span>Raised {formatDistanceToNow(new Date(alert.createdAt), { addSuffix: true })}</span>
+        {alert.acknowledged && <span>Acknowledged{alert.acknowledgedBy ? ` by ${alert.acknowledgedBy}` : ''}</span>}
+        {alert.assignedTo && <span>Assigned to {alert.assignedTo}</span>}
+        {isSnoozed && <span>Snoozed until {format(new Date(alert.snoozedUntil as string), 'MMM d, HH:mm')}</span>}
+      </div>
+      <div className="mt-2 flex flex-wrap gap-2">
+        {!alert.acknowledged && (
+          <button
+            onClick={() => onAcknowledge(alert.id)}
+            className="flex items-center rounded-md bg-black/20 px-2 py-1 text-xs text-white hover:bg-black/40"
+          >
+            <Check size={12} className="mr-1" /> Acknowledge
+          </button>
+        )}
+        {!isSnoozed && (
+          <>
+            <button
+              onClick={() => onSnooze(alert.id, addHours(new Date(), 1))}
+              className="flex items-center rounded-md bg-black/20 px-2 py-1 text-xs text-white hover:bg-black/40"
+            >
+              <BellOff size={12} className="mr-1" /> 1h
+            </button>
+            <button
+              onClick={() => onSnooze(alert.id, startOfTomorrow())}
+              className="rounded-md bg-black/20 px-2 py-1 text-xs text-white hover:bg-black/40"
+            >
+              Tomorrow
+            </button>
+          </>
+        )}
+        <button
+          onClick={() => onAssign(alert)}
+          className="flex items-center rounded-md bg-black/20 px-2 py-1 text-xs text-white hover:bg-black/40"
+        >
+          <UserPlus size={12} className="mr-1" /> {alert.assignedTo ? 'Reassign' : 'Assign'}
+        </button>
+      </div>
+    </div>
+  );
+});
+
+AlertRow.displayName = 'AlertRow';
+
+// Resolved alert with how it got there
+const ResolvedAlertRow: React.FC<{ alert: StockAlert }> = memo(({ alert }) => (
+  <div className="rounded-lg border border-zinc-700/50 bg-zinc-800/50 p-3">
+    <p className="text-sm text-gray-300">{alert.message}</p>
+    <ul className="mt-2 space-y-1">
+      {(alert.history || []).map((event, index) => (
+        <li key={index} className="text-xs text-gray-400">
+          <span className="text-gray-300">{actionLabels[event.action] || event.action}</span>
+          {' '}{format(new Date(event.at), 'MMM d, HH:mm')}
+          {event.by ? ` by ${event.by}` : ''}
+          {event.value !== undefined ? ` (stock ${event.value})` : ''}
+          {event.note ? ` - ${event.note}` : ''}
+        </li>
+      ))}
+    </ul>
+  </div>
+));
+
+ResolvedAlertRow.displayName = 'ResolvedAlertRow';
+
+const StockAlertsPanel: React.FC = () => {
+  const navigate = useNavigate();
+  const [view, setView] = useState<'active' | 'resolved'>('active');
+  const {
+    alerts,
+    isLoading,
+    acknowledgeAlert,
+    snoozeAlert,
+    assignAlert,
+    refreshAlerts,
+    isRefreshing
+  } = useStockAlerts({ status: view });
+
+  const handleAssign = (alert: StockAlert) => {
+    const assignedTo = window.prompt('Assign this alert to (leave empty to unassign):', alert.assignedTo || '');
+    if (assignedTo === null) return;
+    assignAlert({ id: alert.id, assignment: { assignedTo: assignedTo.trim() || null } });
+  };
+
+  const openAlerts = alerts.filter(alert => !alert.acknowledged);
+
+  return (
+    <div className="rounded-xl bg-red-900/20 border border-red-500/30 p-6 shadow-xl">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <div className="rounded-full bg-red-500/20 p-2 mr-3">
+            <AlertTriangle className="h-5 w-5 text-red-400" />
+          </div>
+          <h2 className="text-lg font-semibold text-white">Stock Alerts</h2>
+        </div>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={() => setView(view === 'active' ? 'resolved' : 'active')}
+            title={view === 'active' ? 'Resolution history' : 'Active alerts'}
+            className={`rounded-lg p-2 transition-colors hover:bg-red-600/20 ${view === 'resolved' ? 'text-red-200' : 'text-red-400'}`}
+          >
+            <History size={16} />
+          </button>
+          <button
+            onClick={() => refreshAlerts()}
+            disabled={isRefreshing}
+            title="Re-check stock levels"
+            className="rounded-lg p-2 text-red-400 transition-colors hover:bg-red-600/20 disabled:opacity-50"
+          >
+            <RefreshCw size={16} className={isRefreshing ? 'animate-spin' : ''} />
+          </button>
+        </div>
+      </div>
+
+      {view === 'active' ? (
+        <p className="text-sm text-red-300 mb-3">
+          {alerts.length === 0
+            ? 'All stock levels are healthy'
+            : `${alerts.length} alert${alerts.length > 1 ? 's' : ''}, ${openAlerts.length} not yet acknowledged`}
+        </p>
+      ) : (
+        <p className="text-sm text-red-300 mb-3">Recently resolved alerts</p>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <div className="h-5 w-5 animate-spin rounded-full border-2 border-red-400 border-t-transparent"></div>
+        </div>
+      ) : (
+        <div className="max-h-80 space-y-2 overflow-y-auto">
+          {view === 'active'
+            ? alerts.map(alert => (
+              <AlertRow
+                key={alert.id}
+                alert={alert}
+                onAcknowledge={(id) => acknowledgeAlert({ id })}
+                onSnooze={(id, until) => snoozeAlert({ id, snooze: { until: until.toISOString() } })}
+                onAssign={handleAssign}
+              />
+            ))
+            : alerts.slice(0, 20).map(alert => <ResolvedAlertRow key={alert.id} alert={alert} />)}
+        </div>
+      )}
+
+      <button
+        onClick={() => navigate('/inventory')}
+        className="mt-4 flex w-full items-center justify-center bg-red-600/20 hover:bg-red-600/30 border border-red-500/50 text-red-300 hover:text-red-200 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+      >
+        View Inventory <ChevronRight size={16} className="ml-1" />
+      </button>
+    </div>
+  );
+};
+
+export default StockAlertsPanel;
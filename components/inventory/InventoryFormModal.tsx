@@ -426,6 +426,7 @@ const InventoryFormModal: React.FC<InventoryFormModalProps> = ({
                   name="currentStock"
                   value={formData.currentStock}
                   onChange={handleInputChange}
+                  disabled={!!initialItem}
                   min="0"
                   step="1"
                   required
@@ -433,6 +434,9 @@ const InventoryFormModal: React.FC<InventoryFormModalProps> = ({
                   placeholder="0"
                 />
               </div>
+              {initialItem && (
+                <p className="mt-1 text-xs text-gray-500">Change stock with a stock transaction so the movement is recorded</p>
+              )}
             </div>
 
             <div>
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { ArrowRight, MapPin, Plus, Save } from 'lucide-react';
+import { useStockLocations } from '../../hooks/useInventory';
+import { getLocationStock, type InventoryItem } from '../../lib/api/schemas/inventorySchemas';
+
+interface LocationStockPanelProps {
+  item: InventoryItem;
+}
+
+const inputClassName = 'w-full rounded-lg border border-zinc-700 bg-zinc-800 px-3 py-2 text-sm text-white placeholder-gray-500 focus:border-amber-500 focus:outline-none';
+
+const LocationStockPanel: React.FC<LocationStockPanelProps> = ({ item }) => {
+  const { transferStock, updateLocationLevels, isTransferring, isSavingLevels } = useStockLocations(item.id);
+  const levels = getLocationStock(item);
+
+  const [reorderPoints, setReorderPoints] = useState<Record<string, string>>({});
+  const [newLocation, setNewLocation] = useState('');
+  const [transfer, setTransfer] = useState({ fromLocation: '', toLocation: '', quantity: '' });
+
+  const editedLocations = Object.keys(reorderPoints);
+  const fromLocation = transfer.fromLocation || levels[0]?.location || '';
+
+  const handleSaveLevels = () => {
+    const locations = editedLocations.map(location => ({
+      location,
+      reorderPoint: reorderPoints[location] === '' ? undefined : Number(reorderPoints[location])
+    }));
+    if (newLocation.trim()) {
+      locations.push({ location: newLocation.trim(), reorderPoint: undefined });
+    }
+    updateLocationLevels({ locations }, {
+      onSuccess: () => {
+        setReorderPoints({});
+        setNewLocation('');
+      }
+    });
+  };
+
+  const handleTransfer = (e: React.FormEvent) => {
+    e.preventDefault();
+    transferStock({
+      fromLocation,
+      toLocation: transfer.toLocation.trim(),
+      quantity: Number(transfer.quantity)
+    }, {
+      onSuccess: () => setTransfer({ fromLocation: '', toLocation: '', quantity: '' })
+    });
+  };
+
+  return (
+    <div className="rounded-xl bg-zinc-900 p-6 shadow-lg">
+      <h2 className="mb-4 text-xl font-semibold text-white">Stock by Location</h2>
+
+      <div className="space-y-2">
+        {levels.map(level => {
+          const reorderPoint = reorderPoints[level.location] ?? (level.reorderPoint?.toString() || '');
+          const isLow = level.reorderPoint !== undefined && level.quantity <= level.reorderPoint;
+          return (
+            <div key={level.location} className="flex items-center justify-between rounded-lg bg-zinc-800 p-3">
+              <div className="flex items-center">
+                <MapPin size={16} className="mr-2 text-gray-400" />
+                <div>
+                  <p className="text-sm text-white">{level.location}</p>
+                  <p className={`text-xs ${isLow ? 'text-amber-500' : 'text-gray-400'}`}>
+                    {level.quantity} in stock{isLow ? ' - restock' : ''}
+                  </p>
+                </div>
+              </div>
+              <label className="flex items-center space-x-2 text-xs text-gray-400">
+                <span>Reorder at</span>
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={reorderPoint}
+                  onChange={(e) => setReorderPoints(prev => ({ ...prev, [level.location]: e.target.value }))}
+                  className="w-20 rounded-lg border border-zinc-700 bg-zinc-900 px-2 py-1 text-sm text-white focus:border-amber-500 focus:outline-none"
+                />
+              </label>
+            </div>
+          );
+        })}
+
+        <div className="flex items-center space-x-2">
+          <input
+            placeholder="Add a location, e.g. Patio bar"
+            value={newLocation}
+            onChange={(e) => setNewLocation(e.target.value)}
+            className={inputClassName}
+          />
+          <button
+            onClick={handleSaveLevels}
+            disabled={(editedLocations.length === 0 && !newLocation.trim()) || isSavingLevels}
+            className="flex items-center rounded-lg bg-amber-600 px-3 py-2 text-sm text-white transition-all hover:bg-amber-700 disabled:opacity-50"
+          >
+            {newLocation.trim() ? <Plus size={16} className="mr-1" /> : <Save size={16} className="mr-1" />}
+            Save
+          </button>
+        </div>
+      </div>
+
+      {/* Transfer */}
+      <form onSubmit={handleTransfer} className="mt-6 space-y-2">
+        <h3 className="text-sm font-medium text-gray-400">Transfer Stock</h3>
+        <div className="flex items-center space-x-2">
+          <select
+            value={fromLocation}
+            onChange={(e) => setTransfer(prev => ({ ...prev, fromLocation: e.target.value }))}
+            className={inputClassName}
+          >
+            {levels.map(level => (
+              <option key={level.location} value={level.location}>{level.location}</option>
+            ))}
+          </select>
+          <ArrowRight size={16} className="flex-shrink-0 text-gray-400" />
+          <input
+            required
+            list={`locations-${item.id}`}
+            placeholder="To"
+            value={transfer.toLocation}
+            onChange={(e) => setTransfer(prev => ({ ...prev, toLocation: e.target.value }))}
+            className={inputClassName}
+          />
+          <datalist id={`locations-${item.id}`}>
+            {levels.filter(level => level.location !== fromLocation).map(level => (
+              <option key={level.location} value={level.location} />
+            ))}
+          </datalist>
+        </div>
+        <div className="flex items-center space-x-2">
+          <input
+            required
+            type="number"
+            min={0}
+            step="any"
+            placeholder="Quantity"
+            value={transfer.quantity}
+            onChange={(e) => setTransfer(prev => ({ ...prev, quantity: e.target.value }))}
+            className={inputClassName}
+          />
+          <button
+            type="submit"
+            disabled={isTransferring || !transfer.toLocation.trim() || transfer.toLocation.trim() === fromLocation || !(Number(transfer.quantity) > 0)}
+            className="rounded-lg bg-zinc-800 px-4 py-2 text-sm text-white transition-all hover:bg-zinc-700 disabled:opacity-50"
+          >
+            {isTransferring ? 'Moving...' : 'Move'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default LocationStockPanel;
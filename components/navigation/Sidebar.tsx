@@ -19,7 +19,8 @@ import {
   Monitor,
   Leaf,
   Menu,
-  FolderOpen
+  FolderOpen,
+  Trash2
 } from 'lucide-react';
 
 interface SidebarProps {
@@ -228,6 +229,12 @@ const Sidebar: React.FC<SidebarProps> = ({ open, onToggle, isMobile: propIsMobil
               label="Settings" 
               onClick={handleNavClick}
             />
+            <NavItem 
+              to="/trash" 
+              icon={<Trash2 size={18} />} 
+              label="Trash" 
+              onClick={handleNavClick}
+            />
           </div>
         </div>
         
@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Users } from 'lucide-react';
+import { format } from 'date-fns';
+import { useEventStaffing } from '../../hooks/useScheduling';
+
+interface EventStaffingPlannerProps {
+  eventId: string;
+  eventTitle: string;
+  onDone: () => void;
+}
+
+const departmentLabel = (department: string) => department.replace(/_/g, ' ');
+
+const EventStaffingPlanner: React.FC<EventStaffingPlannerProps> = ({ eventId, eventTitle, onDone }) => {
+  const { plan, isLoading, isError, createShifts, isCreating } = useEventStaffing(eventId);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  // Everyone proposed starts out selected
+  useEffect(() => {
+    if (plan) {
+      setSelected(new Set(plan.requirements.flatMap(requirement => requirement.proposed.map(candidate => candidate.staffId))));
+    }
+  }, [plan]);
+
+  const toggle = (staffId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(staffId)) {
+        next.delete(staffId);
+      } else {
+        next.add(staffId);
+      }
+      return next;
+    });
+  };
+
+  const handleCreate = async () => {
+    if (!plan) return;
+
+    const assignments = plan.requirements.flatMap(requirement => requirement.proposed
+      .filter(candidate => selected.has(candidate.staffId))
+      .map(candidate => ({ staffId: candidate.staffId, role: requirement.role })));
+
+    try {
+      await createShifts({ eventId, assignments, skipConflicts: false });
+      onDone();
+    } catch {
+      // Reported by the hook
+    }
+  };
+
+  return (
+    <div className="bg-zinc-800/50 rounded-xl p-6 border border-zinc-700/50">
+      <h2 className="text-xl font-semibold text-white mb-1 flex items-center">
+        <Users className="h-5 w-5 mr-2 text-amber-400" />
+        Staff {eventTitle}
+      </h2>
+
+      {isLoading ? (
+        <p className="text-gray-400 text-sm mt-4">Working out who is needed...</p>
+      ) : isError || !plan ? (
+        <p className="text-gray-400 text-sm mt-4">The staffing plan could not be worked out. You can schedule staff from Staff Management.</p>
+      ) : (
+        <>
+          <p className="text-gray-400 text-sm mb-6">
+            Planned for {plan.expectedAttendance} guests • shifts {format(new Date(plan.startTime), 'EEE d MMM, HH:mm')}–{format(new Date(plan.endTime), 'HH:mm')}
+          </p>
+
+          <div className="space-y-4">
+            {plan.requirements.map(requirement => (
+              <div key={`${requirement.department}-${requirement.role}`} className="p-4 bg-zinc-700/30 rounded-lg">
+                <div className="flex justify-between items-center mb-3">
+                  <div>
+                    <p className="text-white font-medium capitalize">{requirement.role}</p>
+                    <p className="text-xs text-gray-400 capitalize">{departmentLabel(requirement.department)}</p>
+                  </div>
+                  <span className="text-sm text-gray-300">
+                    {requirement.proposed.filter(candidate => selected.has(candidate.staffId)).length} / {requirement.headcount}
+                  </span>
+                </div>
+
+                <div className="space-y-2">
+                  {requirement.proposed.map(candidate => (
+                    <label key={candidate.staffId} className="flex items-center justify-between gap-3 text-sm cursor-pointer">
+                      <span className="flex items-center gap-2 text-gray-200">
+                        <input
+                          type="checkbox"
+                          checked={selected.has(candidate.staffId)}
+                          onChange={() => toggle(candidate.staffId)}
+                        />
+                        {candidate.name}
+                        <span className="text-gray-500">{candidate.position}</span>
+                      </span>
+                      <span className="flex items-center gap-2 text-xs text-gray-400">
+                        {candidate.expiringCertifications.length > 0 && (
+                          <span className="text-amber-400" title={`Expiring soon: ${candidate.expiringCertifications.join(', ')}`}>
+                            <AlertTriangle className="h-3.5 w-3.5" />
+                          </span>
+                        )}
+                        {candidate.weeklyHours}h this week
+                      </span>
+                    </label>
+                  ))}
+                  {requirement.shortfall > 0 && (
+                    <p className="text-xs text-amber-400">
+                      {requirement.shortfall} {requirement.shortfall === 1 ? 'place' : 'places'} still open
+                    </p>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {plan.unavailable.length > 0 && (
+            <details className="mt-4 text-sm">
+              <summary className="text-gray-400 cursor-pointer">{plan.unavailable.length} not available</summary>
+              <ul className="mt-2 space-y-1">
+                {plan.unavailable.map(person => (
+                  <li key={person.staffId} className="text-gray-400">
+                    <span className="text-gray-300">{person.name}</span> — {person.reason}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+        </>
+      )}
+
+      <div className="flex justify-end space-x-4 mt-6">
+        <button
+          type="button"
+          onClick={onDone}
+          className="px-6 py-3 bg-zinc-700 hover:bg-zinc-600 text-white rounded-lg font-medium transition-colors"
+        >
+          Skip
+        </button>
+        <button
+          type="button"
+          onClick={handleCreate}
+          disabled={!plan || selected.size === 0 || isCreating}
+          className="px-6 py-3 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors"
+        >
+          {isCreating ? 'Creating shifts...' : `Create ${selected.size} ${selected.size === 1 ? 'shift' : 'shifts'}`}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default EventStaffingPlanner;
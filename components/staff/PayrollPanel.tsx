@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { AlertTriangle, CreditCard, Download, X } from 'lucide-react';
+import { format, subDays } from 'date-fns';
+import { usePayroll } from '../../hooks/useScheduling';
+import type { PayrollAdjustment, PayrollPeriodRequest } from '../../lib/api/schemas/staffSchemas';
+
+interface PayrollPanelProps {
+  staff: Array<{ id: string; name: string }>;
+}
+
+const inputClassName = 'rounded-lg bg-zinc-800 border border-zinc-700 px-2 py-1.5 text-sm text-white focus:outline-none focus:ring-2 focus:ring-green-500/40';
+
+const money = (value: number) => `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const PayrollPanel: React.FC<PayrollPanelProps> = ({ staff }) => {
+  const [from, setFrom] = useState(format(subDays(new Date(), 14), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(format(subDays(new Date(), 1), 'yyyy-MM-dd'));
+  const [dailyOvertimeAfter, setDailyOvertimeAfter] = useState('8');
+  const [weeklyOvertimeAfter, setWeeklyOvertimeAfter] = useState('40');
+  const [eventShiftBonus, setEventShiftBonus] = useState('0');
+  const [adjustments, setAdjustments] = useState<PayrollAdjustment[]>([]);
+  const [accountId, setAccountId] = useState('');
+  const [categoryId, setCategoryId] = useState('');
+  const [period, setPeriod] = useState<PayrollPeriodRequest | null>(null);
+  const { payroll, postedRuns, isLoading, exportPayroll, postPayroll, isExporting, isPosting } = usePayroll(period);
+
+  const updateAdjustment = (index: number, changes: Partial<PayrollAdjustment>) => {
+    setAdjustments(prev => prev.map((adjustment, i) => i === index ? { ...adjustment, ...changes } : adjustment));
+  };
+
+  const handleCalculate = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // The period runs to the end of the last day
+    const end = new Date(`${to}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+
+    setPeriod({
+      periodStart: new Date(`${from}T00:00:00`).toISOString(),
+      periodEnd: end.toISOString(),
+      dailyOvertimeAfter: dailyOvertimeAfter ? Number(dailyOvertimeAfter) : null,
+      weeklyOvertimeAfter: Number(weeklyOvertimeAfter),
+      eventShiftBonus: Number(eventShiftBonus) || 0,
+      adjustments: adjustments.filter(adjustment => adjustment.staffId && adjustment.amount > 0)
+    });
+  };
+
+  const handlePost = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await postPayroll({ accountId: accountId.trim(), categoryId: categoryId.trim() });
+      setPeriod(null);
+    } catch {
+      // Reported by the hook
+    }
+  };
+
+  return (
+    <div className="relative overflow-hidden rounded-2xl bg-gradient-to-br from-zinc-900 via-zinc-800 to-zinc-900 p-6 backdrop-blur-sm border border-zinc-700/50">
+      <div className="absolute inset-0 bg-gradient-to-br from-green-500/5 to-transparent"></div>
+      <div className="relative">
+        <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
+          <CreditCard className="mr-2 h-5 w-5 text-green-400" />
+          Payroll
+        </h3>
+
+        <form onSubmit={handleCalculate} className="space-y-2 mb-4">
+          <div className="flex gap-2">
+            <input type="date" required value={from} onChange={(e) => setFrom(e.target.value)} className={`${inputClassName} flex-1`} title="First day" />
+            <input type="date" required min={from} value={to} onChange={(e) => setTo(e.target.value)} className={`${inputClassName} flex-1`} title="Last day" />
+          </div>
+          <div className="grid grid-cols-3 gap-2 text-xs text-gray-400">
+            <label>
+              Daily OT after
+              <input type="number" min={0} step="0.5" placeholder="Off" value={dailyOvertimeAfter} onChange={(e) => setDailyOvertimeAfter(e.target.value)} className={`${inputClassName} w-full`} />
+            </label>
+            <label>
+              Weekly OT after
+              <input type="number" required min={0} step="0.5" value={weeklyOvertimeAfter} onChange={(e) => setWeeklyOvertimeAfter(e.target.value)} className={`${inputClassName} w-full`} />
+            </label>
+            <label>
+              Event bonus
+              <input type="number" min={0} step="0.01" value={eventShiftBonus} onChange={(e) => setEventShiftBonus(e.target.value)} className={`${inputClassName} w-full`} />
+            </label>
+          </div>
+
+          {adjustments.map((adjustment, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <select value={adjustment.staffId} onChange={(e) => updateAdjustment(index, { staffId: e.target.value })} className={`${inputClassName} flex-1`}>
+                <option value="">Staff member</option>
+                {staff.map(member => <option key={member.id} value={member.id}>{member.name}</option>)}
+              </select>
+              <select value={adjustment.type} onChange={(e) => updateAdjustment(index, { type: e.target.value as PayrollAdjustment['type'] })} className={inputClassName}>
+                <option value="tips">Tips</option>
+                <option value="bonus">Bonus</option>
+              </select>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={adjustment.amount || ''}
+                onChange={(e) => updateAdjustment(index, { amount: Number(e.target.value) })}
+                className={`${inputClassName} w-20`}
+              />
+              <button type="button" onClick={() => setAdjustments(prev => prev.filter((_, i) => i !== index))} className="text-gray-400 hover:text-red-400">
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+
+          <div className="flex justify-between">
+            <button
+              type="button"
+              onClick={() => setAdjustments(prev => [...prev, { staffId: '', type: 'tips', amount: 0 }])}
+              className="text-sm text-green-400 hover:text-green-300"
+            >
+              + Add tips or bonus
+            </button>
+            <button type="submit" className="px-3 py-1.5 rounded-lg bg-green-600 hover:bg-green-700 text-sm font-medium text-white">
+              Calculate
+            </button>
+          </div>
+        </form>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-400">Working out pay...</p>
+        ) : payroll ? (
+          <div className="space-y-3">
+            <div className="p-4 rounded-xl bg-zinc-800/50 border border-zinc-700/50">
+              <div className="flex justify-between items-center">
+                <span className="text-gray-300">Gross pay</span>
+                <span className="text-2xl font-bold text-green-400">{money(payroll.totals.grossPay)}</span>
+              </div>
+              <p className="text-xs text-gray-400 mt-1">
+                {payroll.totals.regularHours}h regular • {payroll.totals.overtimeHours}h overtime
+              </p>
+            </div>
+
+            {payroll.warnings.map(warning => (
+              <p key={warning} className="flex items-center gap-2 text-xs text-amber-400">
+                <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+                {warning}
+              </p>
+            ))}
+
+            {payroll.lines.length === 0 ? (
+              <p className="text-sm text-gray-400">No approved time entries in this period.</p>
+            ) : payroll.lines.map(line => (
+              <div key={line.staffId} className="flex justify-between items-center p-3 rounded-lg bg-zinc-800/30">
+                <div>
+                  <p className="text-white font-medium">{line.name}</p>
+                  <p className="text-xs text-gray-400">
+                    {line.regularHours}h + {line.overtimeHours}h OT at {money(line.hourlyRate)}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="text-white font-semibold">{money(line.grossPay)}</p>
+                  {(line.tips > 0 || line.bonuses > 0) && (
+                    <p className="text-xs text-gray-400">Tips: {money(line.tips)} | Bonus: {money(line.bonuses)}</p>
+                  )}
+                </div>
+              </div>
+            ))}
+
+            <button
+              type="button"
+              onClick={() => exportPayroll()}
+              disabled={isExporting || payroll.lines.length === 0}
+              className="w-full flex items-center justify-center gap-2 px-3 py-1.5 rounded-lg bg-zinc-800/50 border border-zinc-700/50 text-sm text-gray-300 hover:text-white disabled:opacity-50"
+            >
+              <Download className="h-4 w-4" />
+              Download CSV
+            </button>
+
+            <form onSubmit={handlePost} className="space-y-2">
+              <input required placeholder="Wage expense account ID" value={accountId} onChange={(e) => setAccountId(e.target.value)} className={`${inputClassName} w-full`} />
+              <input required placeholder="Wage expense category ID" value={categoryId} onChange={(e) => setCategoryId(e.target.value)} className={`${inputClassName} w-full`} />
+              <button
+                type="submit"
+                disabled={isPosting || payroll.totals.grossPay <= 0}
+                className="w-full px-3 py-1.5 rounded-lg bg-green-600 hover:bg-green-700 text-sm font-medium text-white disabled:opacity-50"
+              >
+                {isPosting ? 'Posting...' : 'Post to finances'}
+              </button>
+            </form>
+          </div>
+        ) : null}
+
+        {postedRuns.length > 0 && (
+          <div className="mt-5 space-y-1">
+            <p className="text-sm font-medium text-gray-300">Posted</p>
+            {postedRuns.slice(0, 5).map(run => (
+              <div key={run.id} className="flex justify-between text-xs text-gray-400">
+                <span>
+                  {format(new Date(run.periodStart), 'd MMM')}–{format(new Date(new Date(run.periodEnd).getTime() - 1), 'd MMM yyyy')}
+                </span>
+                <span className="text-gray-200">{money(run.grossPay)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PayrollPanel;
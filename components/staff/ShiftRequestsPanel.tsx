@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { Check, Inbox, Plus, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { useShiftRequests } from '../../hooks/useScheduling';
+import type { CreateOpenShiftRequest } from '../../lib/api/schemas/staffSchemas';
+
+const inputClassName = 'rounded-lg bg-zinc-800 border border-zinc-700 px-2 py-1.5 text-sm text-white focus:outline-none focus:ring-2 focus:ring-amber-500/40';
+
+const formatShift = (startTime: string, endTime: string) =>
+  `${format(new Date(startTime), 'EEE d MMM, HH:mm')}–${format(new Date(endTime), 'HH:mm')}`;
+
+const ReviewButtons: React.FC<{ onReview: (decision: 'approved' | 'declined') => void; disabled: boolean }> = ({ onReview, disabled }) => (
+  <div className="flex items-center gap-1">
+    <button
+      onClick={() => onReview('approved')}
+      disabled={disabled}
+      className="p-1 rounded text-green-400 hover:bg-green-500/10 disabled:opacity-50"
+      title="Approve"
+    >
+      <Check className="h-4 w-4" />
+    </button>
+    <button
+      onClick={() => onReview('declined')}
+      disabled={disabled}
+      className="p-1 rounded text-red-400 hover:bg-red-500/10 disabled:opacity-50"
+      title="Decline"
+    >
+      <X className="h-4 w-4" />
+    </button>
+  </div>
+);
+
+const OpenShiftForm: React.FC<{ onSave: (shift: CreateOpenShiftRequest) => Promise<void>; onCancel: () => void; isSaving: boolean }> = ({
+  onSave,
+  onCancel,
+  isSaving
+}) => {
+  const [title, setTitle] = useState('');
+  const [role, setRole] = useState('');
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [startTime, setStartTime] = useState('18:00');
+  const [endTime, setEndTime] = useState('23:00');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const start = new Date(`${date}T${startTime}:00`);
+    const end = new Date(`${date}T${endTime}:00`);
+    if (end <= start) {
+      end.setDate(end.getDate() + 1);
+    }
+
+    await onSave({
+      title: title.trim(),
+      role: role.trim() || undefined,
+      shiftType: 'regular',
+      startTime: start.toISOString(),
+      endTime: end.toISOString()
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mb-4 space-y-2 rounded-xl bg-zinc-800/50 border border-zinc-700/50 p-4">
+      <div className="flex gap-2">
+        <input required placeholder="Title" value={title} onChange={(e) => setTitle(e.target.value)} className={`${inputClassName} flex-1`} />
+        <input placeholder="Role" value={role} onChange={(e) => setRole(e.target.value)} className={`${inputClassName} w-20`} />
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <input type="date" required value={date} onChange={(e) => setDate(e.target.value)} className={inputClassName} />
+        <input type="time" required value={startTime} onChange={(e) => setStartTime(e.target.value)} className={inputClassName} />
+        <input type="time" required value={endTime} onChange={(e) => setEndTime(e.target.value)} className={inputClassName} />
+      </div>
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-3 py-1.5 rounded-lg text-sm text-gray-300 hover:bg-zinc-700/50">
+          Cancel
+        </button>
+        <button type="submit" disabled={isSaving} className="px-3 py-1.5 rounded-lg bg-amber-500 hover:bg-amber-600 text-sm font-medium text-white disabled:opacity-50">
+          {isSaving ? 'Posting...' : 'Post shift'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const ShiftRequestsPanel: React.FC = () => {
+  const { claims, timeOffRequests, isLoading, reviewClaim, reviewTimeOff, createOpenShift, isReviewing, isCreatingOpenShift } = useShiftRequests();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const handleSave = async (shift: CreateOpenShiftRequest) => {
+    try {
+      await createOpenShift(shift);
+      setIsFormOpen(false);
+    } catch {
+      // Reported by the hook
+    }
+  };
+
+  return (
+    <div className="relative overflow-hidden rounded-2xl bg-gradient-to-br from-zinc-900 via-zinc-800 to-zinc-900 p-6 backdrop-blur-sm border border-zinc-700/50">
+      <div className="absolute inset-0 bg-gradient-to-br from-amber-500/5 to-transparent"></div>
+      <div className="relative">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-white flex items-center">
+            <Inbox className="mr-2 h-5 w-5 text-amber-400" />
+            Shift Requests
+          </h3>
+          {!isFormOpen && (
+            <button onClick={() => setIsFormOpen(true)} className="p-1.5 rounded-lg bg-zinc-800/50 border border-zinc-700/50 text-gray-300 hover:text-white" title="Post open shift">
+              <Plus className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+
+        {isFormOpen && <OpenShiftForm onSave={handleSave} onCancel={() => setIsFormOpen(false)} isSaving={isCreatingOpenShift} />}
+
+        {isLoading ? (
+          <p className="text-sm text-gray-400">Loading requests...</p>
+        ) : claims.length === 0 && timeOffRequests.length === 0 ? (
+          <p className="text-sm text-gray-400">No swaps, claims or time off waiting for approval.</p>
+        ) : (
+          <div className="space-y-3">
+            {claims.map(claim => (
+              <div key={claim.id} className="flex items-start justify-between gap-2 p-3 rounded-lg bg-zinc-800/30">
+                <div>
+                  <p className="text-white font-medium">{claim.staffName} wants {claim.schedule?.title || 'a shift'}</p>
+                  {claim.schedule && (
+                    <p className="text-xs text-gray-400">
+                      {formatShift(claim.schedule.startTime, claim.schedule.endTime)} • {claim.schedule.status === 'open' ? 'open shift' : 'swap'}
+                    </p>
+                  )}
+                  {claim.note && <p className="text-xs text-gray-500 mt-1">{claim.note}</p>}
+                </div>
+                <ReviewButtons onReview={(decision) => reviewClaim({ id: claim.id, review: { decision } })} disabled={isReviewing} />
+              </div>
+            ))}
+            {timeOffRequests.map(request => (
+              <div key={request.id} className="flex items-start justify-between gap-2 p-3 rounded-lg bg-zinc-800/30">
+                <div>
+                  <p className="text-white font-medium">{request.staffName} asks for time off</p>
+                  <p className="text-xs text-gray-400">
+                    {format(new Date(request.startDate), 'd MMM')}–{format(new Date(new Date(request.endDate).getTime() - 1), 'd MMM yyyy')}
+                  </p>
+                  {request.reason && <p className="text-xs text-gray-500 mt-1">{request.reason}</p>}
+                </div>
+                <ReviewButtons onReview={(decision) => reviewTimeOff({ id: request.id, review: { decision } })} disabled={isReviewing} />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ShiftRequestsPanel;
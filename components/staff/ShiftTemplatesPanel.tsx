@@ -0,0 +1,274 @@
+import React, { useState } from 'react';
+import { CalendarRange, Plus, Trash2, X } from 'lucide-react';
+import { addDays, format, startOfWeek } from 'date-fns';
+import { useShiftTemplates } from '../../hooks/useScheduling';
+import type { ShiftTemplate, ShiftTemplateSlot } from '../../lib/api/schemas/staffSchemas';
+
+interface ShiftTemplatesPanelProps {
+  staff: Array<{ id: string; name: string }>;
+}
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const inputClassName = 'rounded-lg bg-zinc-800 border border-zinc-700 px-2 py-1.5 text-sm text-white focus:outline-none focus:ring-2 focus:ring-amber-500/40';
+
+const emptySlot = (): ShiftTemplateSlot => ({
+  dayOfWeek: 5,
+  startTime: '18:00',
+  endTime: '02:00',
+  role: '',
+  headcount: 1,
+  shiftType: 'regular'
+});
+
+// "2 bar, 1 door, 1 sound"
+const describeSlots = (slots: ShiftTemplateSlot[]) => Object.entries(
+  slots.reduce<Record<string, number>>((roles, slot) => ({ ...roles, [slot.role]: (roles[slot.role] || 0) + slot.headcount }), {})
+).map(([role, count]) => `${count} ${role}`).join(', ');
+
+const TemplateForm: React.FC<{ onSave: (name: string, slots: ShiftTemplateSlot[]) => Promise<void>; onCancel: () => void; isSaving: boolean }> = ({
+  onSave,
+  onCancel,
+  isSaving
+}) => {
+  const [name, setName] = useState('');
+  const [slots, setSlots] = useState<ShiftTemplateSlot[]>([emptySlot()]);
+
+  const updateSlot = (index: number, changes: Partial<ShiftTemplateSlot>) => {
+    setSlots(prev => prev.map((slot, i) => i === index ? { ...slot, ...changes } : slot));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await onSave(name.trim(), slots);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mb-4 space-y-3 rounded-xl bg-zinc-800/50 border border-zinc-700/50 p-4">
+      <input
+        required
+        placeholder="Template name, e.g. Friday show night"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        className={`${inputClassName} w-full`}
+      />
+      {slots.map((slot, index) => (
+        <div key={index} className="flex flex-wrap items-center gap-2">
+          <select
+            value={slot.dayOfWeek}
+            onChange={(e) => updateSlot(index, { dayOfWeek: Number(e.target.value) })}
+            className={inputClassName}
+          >
+            {DAY_NAMES.map((day, value) => <option key={day} value={value}>{day}</option>)}
+          </select>
+          <input type="time" required value={slot.startTime} onChange={(e) => updateSlot(index, { startTime: e.target.value })} className={inputClassName} />
+          <input type="time" required value={slot.endTime} onChange={(e) => updateSlot(index, { endTime: e.target.value })} className={inputClassName} />
+          <input
+            required
+            placeholder="Role"
+            value={slot.role}
+            onChange={(e) => updateSlot(index, { role: e.target.value })}
+            className={`${inputClassName} w-20`}
+          />
+          <input
+            type="number"
+            min={1}
+            max={50}
+            value={slot.headcount}
+            onChange={(e) => updateSlot(index, { headcount: Number(e.target.value) })}
+            className={`${inputClassName} w-14`}
+            title="Headcount"
+          />
+          {slots.length > 1 && (
+            <button type="button" onClick={() => setSlots(prev => prev.filter((_, i) => i !== index))} className="text-gray-400 hover:text-red-400">
+              <X className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+      ))}
+      <div className="flex justify-between">
+        <button type="button" onClick={() => setSlots(prev => [...prev, emptySlot()])} className="text-sm text-amber-400 hover:text-amber-300">
+          + Add slot
+        </button>
+        <div className="flex gap-2">
+          <button type="button" onClick={onCancel} className="px-3 py-1.5 rounded-lg text-sm text-gray-300 hover:bg-zinc-700/50">
+            Cancel
+          </button>
+          <button type="submit" disabled={isSaving} className="px-3 py-1.5 rounded-lg bg-amber-500 hover:bg-amber-600 text-sm font-medium text-white disabled:opacity-50">
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+const ApplyTemplateForm: React.FC<{
+  template: ShiftTemplate;
+  staff: ShiftTemplatesPanelProps['staff'];
+  onApply: (weekStart: string, assignments: string[][], skipConflicts: boolean) => Promise<void>;
+  onCancel: () => void;
+  isApplying: boolean;
+}> = ({ template, staff, onApply, onCancel, isApplying }) => {
+  const [weekStart, setWeekStart] = useState(format(startOfWeek(addDays(new Date(), 7), { weekStartsOn: 1 }), 'yyyy-MM-dd'));
+  const [skipConflicts, setSkipConflicts] = useState(false);
+  // One staff pick per head in each slot, starting from the slot's regulars
+  const [assignments, setAssignments] = useState<string[][]>(() =>
+    template.slots.map(slot => Array.from({ length: slot.headcount }, (_, i) => slot.staffIds?.[i] || ''))
+  );
+
+  const assign = (slotIndex: number, position: number, staffId: string) => {
+    setAssignments(prev => prev.map((picks, i) => i === slotIndex ? picks.map((pick, p) => p === position ? staffId : pick) : picks));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await onApply(weekStart, assignments.map(picks => picks.filter(Boolean)), skipConflicts);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-3 space-y-3 border-t border-zinc-700/50 pt-3">
+      <label className="flex items-center justify-between text-sm text-gray-300">
+        Week of
+        <input
+          type="date"
+          required
+          value={weekStart}
+          onChange={(e) => setWeekStart(format(startOfWeek(new Date(`${e.target.value}T00:00:00`), { weekStartsOn: 1 }), 'yyyy-MM-dd'))}
+          className={inputClassName}
+        />
+      </label>
+      {template.slots.map((slot, slotIndex) => (
+        <div key={slotIndex} className="space-y-1">
+          <p className="text-xs text-gray-400">
+            {DAY_NAMES[slot.dayOfWeek]} {slot.startTime}–{slot.endTime} • {slot.role}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {assignments[slotIndex].map((staffId, position) => (
+              <select
+                key={position}
+                value={staffId}
+                onChange={(e) => assign(slotIndex, position, e.target.value)}
+                className={`${inputClassName} flex-1 min-w-[8rem]`}
+              >
+                <option value="">Unassigned</option>
+                {staff.map(member => <option key={member.id} value={member.id}>{member.name}</option>)}
+              </select>
+            ))}
+          </div>
+        </div>
+      ))}
+      <label className="flex items-center gap-2 text-xs text-gray-400">
+        <input type="checkbox" checked={skipConflicts} onChange={(e) => setSkipConflicts(e.target.checked)} />
+        Skip shifts that clash with existing shifts
+      </label>
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-3 py-1.5 rounded-lg text-sm text-gray-300 hover:bg-zinc-700/50">
+          Cancel
+        </button>
+        <button type="submit" disabled={isApplying} className="px-3 py-1.5 rounded-lg bg-amber-500 hover:bg-amber-600 text-sm font-medium text-white disabled:opacity-50">
+          {isApplying ? 'Creating shifts...' : 'Create shifts'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const ShiftTemplatesPanel: React.FC<ShiftTemplatesPanelProps> = ({ staff }) => {
+  const { templates, isLoading, createTemplate, deleteTemplate, applyTemplate, isCreating, isApplying } = useShiftTemplates();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [applyingId, setApplyingId] = useState<string | null>(null);
+
+  const handleSave = async (name: string, slots: ShiftTemplateSlot[]) => {
+    try {
+      await createTemplate({ name, slots });
+      setIsFormOpen(false);
+    } catch {
+      // Reported by the hook
+    }
+  };
+
+  const handleApply = (template: ShiftTemplate) => async (weekStart: string, assignments: string[][], skipConflicts: boolean) => {
+    try {
+      await applyTemplate({
+        templateId: template.id,
+        weekStart,
+        assignments: assignments.map((staffIds, slotIndex) => ({ slotIndex, staffIds })),
+        skipConflicts
+      });
+      setApplyingId(null);
+    } catch {
+      // Reported by the hook
+    }
+  };
+
+  const handleDelete = (template: ShiftTemplate) => {
+    if (window.confirm(`Delete the "${template.name}" template? Shifts already created from it are kept.`)) {
+      deleteTemplate(template.id);
+    }
+  };
+
+  return (
+    <div className="relative overflow-hidden rounded-2xl bg-gradient-to-br from-zinc-900 via-zinc-800 to-zinc-900 p-6 backdrop-blur-sm border border-zinc-700/50">
+      <div className="absolute inset-0 bg-gradient-to-br from-amber-500/5 to-transparent"></div>
+      <div className="relative">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-white flex items-center">
+            <CalendarRange className="mr-2 h-5 w-5 text-amber-400" />
+            Rota Templates
+          </h3>
+          {!isFormOpen && (
+            <button onClick={() => setIsFormOpen(true)} className="p-1.5 rounded-lg bg-zinc-800/50 border border-zinc-700/50 text-gray-300 hover:text-white" title="New template">
+              <Plus className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+
+        {isFormOpen && <TemplateForm onSave={handleSave} onCancel={() => setIsFormOpen(false)} isSaving={isCreating} />}
+
+        {isLoading ? (
+          <p className="text-sm text-gray-400">Loading templates...</p>
+        ) : templates.length === 0 ? (
+          <p className="text-sm text-gray-400">Save a typical week, e.g. a show night, and stamp it onto any week.</p>
+        ) : (
+          <div className="space-y-3">
+            {templates.map(template => (
+              <div key={template.id} className="p-3 rounded-lg bg-zinc-800/30">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <p className="text-white font-medium">{template.name}</p>
+                    <p className="text-xs text-gray-400">
+                      {[...new Set(template.slots.map(slot => DAY_NAMES[slot.dayOfWeek]))].join(', ')} • {describeSlots(template.slots)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => setApplyingId(applyingId === template.id ? null : template.id)}
+                      className="text-xs text-amber-400 hover:text-amber-300"
+                    >
+                      Apply
+                    </button>
+                    <button onClick={() => handleDelete(template)} className="text-gray-500 hover:text-red-400" title="Delete template">
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+                {applyingId === template.id && (
+                  <ApplyTemplateForm
+                    template={template}
+                    staff={staff}
+                    onApply={handleApply(template)}
+                    onCancel={() => setApplyingId(null)}
+                    isApplying={isApplying}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ShiftTemplatesPanel;
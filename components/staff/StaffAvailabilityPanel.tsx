@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from 'react';
+import { CalendarClock, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { useStaffAvailability } from '../../hooks/useScheduling';
+import type { AvailabilityEntry } from '../../lib/api/schemas/staffSchemas';
+
+interface StaffAvailabilityPanelProps {
+  staff: Array<{ id: string; name: string }>;
+}
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const inputClassName = 'rounded-lg bg-zinc-800 border border-zinc-700 px-2 py-1.5 text-sm text-white focus:outline-none focus:ring-2 focus:ring-amber-500/40';
+
+const formatShift = (startTime: string, endTime: string) =>
+  `${format(new Date(startTime), 'EEE d MMM, HH:mm')}–${format(new Date(endTime), 'HH:mm')}`;
+
+const TimeOffForm: React.FC<{ onSubmit: (startDate: string, endDate: string, reason: string) => Promise<void>; isSaving: boolean }> = ({
+  onSubmit,
+  isSaving
+}) => {
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [reason, setReason] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await onSubmit(startDate, endDate, reason);
+    setStartDate('');
+    setEndDate('');
+    setReason('');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="flex gap-2">
+        <input type="date" required value={startDate} onChange={(e) => setStartDate(e.target.value)} className={`${inputClassName} flex-1`} title="First day off" />
+        <input type="date" required min={startDate} value={endDate} onChange={(e) => setEndDate(e.target.value)} className={`${inputClassName} flex-1`} title="Last day off" />
+      </div>
+      <div className="flex gap-2">
+        <input placeholder="Reason (optional)" value={reason} onChange={(e) => setReason(e.target.value)} className={`${inputClassName} flex-1`} />
+        <button type="submit" disabled={isSaving} className="px-3 py-1.5 rounded-lg bg-amber-500 hover:bg-amber-600 text-sm font-medium text-white disabled:opacity-50">
+          Request
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const StaffAvailabilityPanel: React.FC<StaffAvailabilityPanelProps> = ({ staff }) => {
+  const [staffId, setStaffId] = useState<string | null>(null);
+  const {
+    availability,
+    shifts,
+    openShifts,
+    isLoading,
+    setAvailability,
+    requestTimeOff,
+    setSwap,
+    claimShift,
+    isSaving,
+    isRequestingTimeOff
+  } = useStaffAvailability(staffId);
+  const [entries, setEntries] = useState<AvailabilityEntry[]>([]);
+
+  useEffect(() => {
+    setEntries(availability.map(({ dayOfWeek, startTime, endTime, preference }) => ({ dayOfWeek, startTime, endTime, preference })));
+  }, [availability]);
+
+  const updateEntry = (index: number, changes: Partial<AvailabilityEntry>) => {
+    setEntries(prev => prev.map((entry, i) => i === index ? { ...entry, ...changes } : entry));
+  };
+
+  const handleTimeOff = async (startDate: string, endDate: string, reason: string) => {
+    const end = new Date(`${endDate}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+
+    try {
+      await requestTimeOff({
+        startDate: new Date(`${startDate}T00:00:00`).toISOString(),
+        endDate: end.toISOString(),
+        reason: reason.trim() || undefined
+      });
+    } catch {
+      // Reported by the hook
+    }
+  };
+
+  const claimable = openShifts.filter(shift => shift.staffId !== staffId);
+
+  return (
+    <div className="relative overflow-hidden rounded-2xl bg-gradient-to-br from-zinc-900 via-zinc-800 to-zinc-900 p-6 backdrop-blur-sm border border-zinc-700/50">
+      <div className="absolute inset-0 bg-gradient-to-br from-amber-500/5 to-transparent"></div>
+      <div className="relative">
+        <h3 className="text-lg font-semibold text-white flex items-center mb-4">
+          <CalendarClock className="mr-2 h-5 w-5 text-amber-400" />
+          Availability &amp; Swaps
+        </h3>
+
+        <select value={staffId || ''} onChange={(e) => setStaffId(e.target.value || null)} className={`${inputClassName} w-full mb-4`}>
+          <option value="">Choose a staff member</option>
+          {staff.map(member => <option key={member.id} value={member.id}>{member.name}</option>)}
+        </select>
+
+        {!staffId ? (
+          <p className="text-sm text-gray-400">Set when someone can work, request time off, offer shifts for swap and claim open shifts.</p>
+        ) : isLoading ? (
+          <p className="text-sm text-gray-400">Loading availability...</p>
+        ) : (
+          <div className="space-y-5">
+            <section className="space-y-2">
+              <p className="text-sm font-medium text-gray-300">Weekly availability</p>
+              {entries.map((entry, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2">
+                  <select value={entry.dayOfWeek} onChange={(e) => updateEntry(index, { dayOfWeek: Number(e.target.value) })} className={inputClassName}>
+                    {DAY_NAMES.map((day, value) => <option key={day} value={value}>{day}</option>)}
+                  </select>
+                  <input type="time" required value={entry.startTime} onChange={(e) => updateEntry(index, { startTime: e.target.value })} className={inputClassName} />
+                  <input type="time" required value={entry.endTime} onChange={(e) => updateEntry(index, { endTime: e.target.value })} className={inputClassName} />
+                  <select
+                    value={entry.preference}
+                    onChange={(e) => updateEntry(index, { preference: e.target.value as AvailabilityEntry['preference'] })}
+                    className={inputClassName}
+                  >
+                    <option value="unavailable">Unavailable</option>
+                    <option value="preferred">Preferred</option>
+                  </select>
+                  <button type="button" onClick={() => setEntries(prev => prev.filter((_, i) => i !== index))} className="text-gray-400 hover:text-red-400">
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+              <div className="flex justify-between">
+                <button
+                  type="button"
+                  onClick={() => setEntries(prev => [...prev, { dayOfWeek: 5, startTime: '18:00', endTime: '23:00', preference: 'unavailable' }])}
+                  className="text-sm text-amber-400 hover:text-amber-300"
+                >
+                  + Add window
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setAvailability(entries).catch(() => undefined)}
+                  disabled={isSaving}
+                  className="px-3 py-1.5 rounded-lg bg-amber-500 hover:bg-amber-600 text-sm font-medium text-white disabled:opacity-50"
+                >
+                  {isSaving ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </section>
+
+            <section className="space-y-2">
+              <p className="text-sm font-medium text-gray-300">Time off</p>
+              <TimeOffForm onSubmit={handleTimeOff} isSaving={isRequestingTimeOff} />
+            </section>
+
+            <section className="space-y-2">
+              <p className="text-sm font-medium text-gray-300">Upcoming shifts</p>
+              {shifts.length === 0 ? (
+                <p className="text-xs text-gray-500">No upcoming shifts.</p>
+              ) : shifts.filter(shift => shift.status !== 'cancelled').map(shift => (
+                <div key={shift.id} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="text-gray-200">
+                    {shift.title} <span className="text-xs text-gray-400">{formatShift(shift.startTime, shift.endTime)}</span>
+                  </span>
+                  {shift.status === 'swap_requested' ? (
+                    <button onClick={() => setSwap({ scheduleId: shift.id, offer: false })} className="text-xs text-gray-400 hover:text-white">
+                      Withdraw offer
+                    </button>
+                  ) : (shift.status === 'scheduled' || shift.status === 'confirmed') && (
+                    <button onClick={() => setSwap({ scheduleId: shift.id, offer: true })} className="text-xs text-amber-400 hover:text-amber-300">
+                      Offer for swap
+                    </button>
+                  )}
+                </div>
+              ))}
+            </section>
+
+            <section className="space-y-2">
+              <p className="text-sm font-medium text-gray-300">Shifts up for grabs</p>
+              {claimable.length === 0 ? (
+                <p className="text-xs text-gray-500">No open or offered shifts.</p>
+              ) : claimable.map(shift => (
+                <div key={shift.id} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="text-gray-200">
+                    {shift.title} <span className="text-xs text-gray-400">{formatShift(shift.startTime, shift.endTime)}</span>
+                  </span>
+                  <button onClick={() => claimShift(shift.id)} className="text-xs text-amber-400 hover:text-amber-300">
+                    Claim
+                  </button>
+                </div>
+              ))}
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StaffAvailabilityPanel;
@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Coins, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { useTipPools } from '../../hooks/useScheduling';
+import type { TipPoolRequest, TipPoolRules } from '../../lib/api/schemas/staffSchemas';
+
+interface TipPoolPanelProps {
+  staff: Array<{ id: string; name: string }>;
+}
+
+const inputClassName = 'rounded-lg bg-zinc-800 border border-zinc-700 px-2 py-1.5 text-sm text-white focus:outline-none focus:ring-2 focus:ring-green-500/40';
+
+const money = (value: number) => `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const METHOD_LABELS: Record<TipPoolRules['method'], string> = {
+  hours: 'By hours worked',
+  role_weight: 'By role weights',
+  points: 'By points'
+};
+
+const TipPoolPanel: React.FC<TipPoolPanelProps> = ({ staff }) => {
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [startTime, setStartTime] = useState('17:00');
+  const [endTime, setEndTime] = useState('03:00');
+  const [roles, setRoles] = useState('');
+  const [cashTips, setCashTips] = useState('');
+  const [cardTips, setCardTips] = useState('');
+  const [method, setMethod] = useState<TipPoolRules['method']>('hours');
+  const [roleWeights, setRoleWeights] = useState<Array<{ role: string; weight: number }>>([]);
+  const [points, setPoints] = useState<TipPoolRules['points']>([]);
+  const { pools, preview, previewTips, createTipPool, clearPreview, isPreviewing, isCreating } = useTipPools();
+
+  const buildPool = (): TipPoolRequest => {
+    const start = new Date(`${date}T${startTime}:00`);
+    const end = new Date(`${date}T${endTime}:00`);
+    if (end <= start) {
+      end.setDate(end.getDate() + 1);
+    }
+
+    return {
+      shiftStart: start.toISOString(),
+      shiftEnd: end.toISOString(),
+      roles: roles.split(',').map(role => role.trim()).filter(Boolean),
+      cashTips: Number(cashTips) || 0,
+      cardTips: Number(cardTips) || 0,
+      method,
+      roleWeights: Object.fromEntries(roleWeights.filter(({ role }) => role.trim()).map(({ role, weight }) => [role.trim(), weight])),
+      points: points.filter(share => share.staffId)
+    };
+  };
+
+  const handlePreview = (e: React.FormEvent) => {
+    e.preventDefault();
+    previewTips(buildPool());
+  };
+
+  const handleShare = async () => {
+    try {
+      await createTipPool(buildPool());
+      setCashTips('');
+      setCardTips('');
+    } catch {
+      // Reported by the hook
+    }
+  };
+
+  return (
+    <div className="relative overflow-hidden rounded-2xl bg-gradient-to-br from-zinc-900 via-zinc-800 to-zinc-900 p-6 backdrop-blur-sm border border-zinc-700/50">
+      <div className="absolute inset-0 bg-gradient-to-br from-green-500/5 to-transparent"></div>
+      <div className="relative">
+        <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
+          <Coins className="mr-2 h-5 w-5 text-green-400" />
+          Tip Pool
+        </h3>
+
+        <form onSubmit={handlePreview} onChange={() => clearPreview()} className="space-y-2 mb-4">
+          <div className="flex flex-wrap gap-2">
+            <input type="date" required value={date} onChange={(e) => setDate(e.target.value)} className={`${inputClassName} flex-1`} />
+            <input type="time" required value={startTime} onChange={(e) => setStartTime(e.target.value)} className={inputClassName} />
+            <input type="time" required value={endTime} onChange={(e) => setEndTime(e.target.value)} className={inputClassName} />
+          </div>
+          <div className="flex gap-2">
+            <input type="number" min={0} step="0.01" placeholder="Cash tips" value={cashTips} onChange={(e) => setCashTips(e.target.value)} className={`${inputClassName} w-1/2`} />
+            <input type="number" min={0} step="0.01" placeholder="Card tips" value={cardTips} onChange={(e) => setCardTips(e.target.value)} className={`${inputClassName} w-1/2`} />
+          </div>
+          <input placeholder="Roles, e.g. bar, barback (blank for everyone)" value={roles} onChange={(e) => setRoles(e.target.value)} className={`${inputClassName} w-full`} />
+          <select value={method} onChange={(e) => setMethod(e.target.value as TipPoolRules['method'])} className={`${inputClassName} w-full`}>
+            {Object.entries(METHOD_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+          </select>
+
+          {method === 'role_weight' && (
+            <>
+              {roleWeights.map((entry, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    placeholder="Role"
+                    value={entry.role}
+                    onChange={(e) => setRoleWeights(prev => prev.map((item, i) => i === index ? { ...item, role: e.target.value } : item))}
+                    className={`${inputClassName} flex-1`}
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    max={10}
+                    step="0.1"
+                    value={entry.weight}
+                    onChange={(e) => setRoleWeights(prev => prev.map((item, i) => i === index ? { ...item, weight: Number(e.target.value) } : item))}
+                    className={`${inputClassName} w-20`}
+                  />
+                  <button type="button" onClick={() => setRoleWeights(prev => prev.filter((_, i) => i !== index))} className="text-gray-400 hover:text-red-400">
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+              <button type="button" onClick={() => setRoleWeights(prev => [...prev, { role: '', weight: 1 }])} className="text-sm text-green-400 hover:text-green-300">
+                + Add role weight
+              </button>
+            </>
+          )}
+
+          {method === 'points' && (
+            <>
+              {points.map((share, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <select
+                    value={share.staffId}
+                    onChange={(e) => setPoints(prev => prev.map((item, i) => i === index ? { ...item, staffId: e.target.value } : item))}
+                    className={`${inputClassName} flex-1`}
+                  >
+                    <option value="">Staff member</option>
+                    {staff.map(member => <option key={member.id} value={member.id}>{member.name}</option>)}
+                  </select>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step="0.5"
+                    value={share.points}
+                    onChange={(e) => setPoints(prev => prev.map((item, i) => i === index ? { ...item, points: Number(e.target.value) } : item))}
+                    className={`${inputClassName} w-20`}
+                  />
+                  <button type="button" onClick={() => setPoints(prev => prev.filter((_, i) => i !== index))} className="text-gray-400 hover:text-red-400">
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+              <button type="button" onClick={() => setPoints(prev => [...prev, { staffId: '', points: 1 }])} className="text-sm text-green-400 hover:text-green-300">
+                + Add points
+              </button>
+            </>
+          )}
+
+          <div className="flex justify-end">
+            <button type="submit" disabled={isPreviewing} className="px-3 py-1.5 rounded-lg bg-zinc-700 hover:bg-zinc-600 text-sm font-medium text-white disabled:opacity-50">
+              {isPreviewing ? 'Working out...' : 'Preview split'}
+            </button>
+          </div>
+        </form>
+
+        {preview ? (
+          <div className="space-y-2">
+            <div className="flex justify-between items-center text-sm">
+              <span className="text-gray-300">{money(preview.totalTips)} to share</span>
+              <span className="text-xs text-gray-400">{money(preview.cashTips)} cash • {money(preview.cardTips)} card</span>
+            </div>
+
+            {preview.warnings.map(warning => (
+              <p key={warning} className="flex items-center gap-2 text-xs text-amber-400">
+                <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+                {warning}
+              </p>
+            ))}
+
+            {preview.payouts.length === 0 ? (
+              <p className="text-sm text-gray-400">Nobody was clocked in on this shift.</p>
+            ) : preview.payouts.map(payout => (
+              <div key={payout.staffId} className="flex justify-between items-center p-2 rounded-lg bg-zinc-800/30 text-sm">
+                <span className="text-gray-200">
+                  {payout.name} <span className="text-xs text-gray-400">{payout.role ? `${payout.role} • ` : ''}{payout.hours}h</span>
+                </span>
+                <span className="text-white font-semibold">{money(payout.amount)}</span>
+              </div>
+            ))}
+
+            <button
+              type="button"
+              onClick={handleShare}
+              disabled={isCreating || !preview.payouts.some(payout => payout.amount > 0)}
+              className="w-full px-3 py-1.5 rounded-lg bg-green-600 hover:bg-green-700 text-sm font-medium text-white disabled:opacity-50"
+            >
+              {isCreating ? 'Sharing...' : 'Share tips'}
+            </button>
+          </div>
+        ) : null}
+
+        {pools.length > 0 && (
+          <div className="mt-5 space-y-1">
+            <p className="text-sm font-medium text-gray-300">Recent pools</p>
+            {pools.slice(0, 5).map(pool => (
+              <div key={pool.id} className="flex justify-between text-xs text-gray-400">
+                <span>
+                  {format(new Date(pool.shiftStart), 'EEE d MMM')} • {pool.payouts.length} staff
+                </span>
+                <span className="text-gray-200">{money(pool.totalTips)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TipPoolPanel;
@@ -0,0 +1,93 @@
+import React from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { X, Printer, Mail } from 'lucide-react';
+import { format } from 'date-fns';
+
+export interface PrintableTicketData {
+  id: string;
+  code?: string;
+  purchaser_name?: string;
+  purchaser_email?: string;
+  type?: string;
+  price?: number;
+}
+
+interface PrintableTicketProps {
+  isOpen: boolean;
+  onClose: () => void;
+  ticket: PrintableTicketData;
+  event: {
+    title: string;
+    date: string;
+    start_time?: string;
+  };
+}
+
+const PrintableTicket: React.FC<PrintableTicketProps> = ({ isOpen, onClose, ticket, event }) => {
+  if (!isOpen) return null;
+
+  const eventDate = format(new Date(event.date), 'EEEE, MMMM d, yyyy');
+  const emailLink = `mailto:${ticket.purchaser_email || ''}?subject=${encodeURIComponent(`Your ticket for ${event.title}`)}&body=${encodeURIComponent(
+    `${event.title}\n${eventDate}${event.start_time ? ` at ${event.start_time.slice(0, 5)}` : ''}\n\nTicket code: ${ticket.code || ''}\n\nShow this code at the door.`
+  )}`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4 print:static print:bg-white">
+      <div className="w-full max-w-sm rounded-xl bg-white p-6 text-black shadow-xl">
+        <div className="mb-4 flex items-start justify-between print:hidden">
+          <h2 className="text-lg font-semibold">Ticket</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="text-center">
+          <h3 className="font-playfair text-2xl font-bold">{event.title}</h3>
+          <p className="mt-1 text-sm text-gray-600">
+            {eventDate}
+            {event.start_time && ` · ${event.start_time.slice(0, 5)}`}
+          </p>
+
+          <div className="my-6 flex justify-center">
+            {ticket.code ? (
+              <QRCodeSVG value={ticket.code} size={200} level="M" includeMargin />
+            ) : (
+              <div className="flex h-[200px] w-[200px] items-center justify-center rounded-lg bg-gray-100 p-4 text-sm text-gray-500">
+                Ticket code has not been issued yet
+              </div>
+            )}
+          </div>
+
+          <p className="font-medium">{ticket.purchaser_name || 'Guest'}</p>
+          <p className="text-sm text-gray-600">
+            {ticket.type === 'vip' ? 'VIP' : ticket.type === 'earlyBird' ? 'Early Bird' : 'General Admission'}
+            {ticket.price !== undefined && ` · $${ticket.price}`}
+          </p>
+          <p className="mt-2 font-mono text-xs text-gray-400">{ticket.id.slice(0, 8)}</p>
+        </div>
+
+        <div className="mt-6 flex space-x-2 print:hidden">
+          <button
+            onClick={() => window.print()}
+            disabled={!ticket.code}
+            className="flex flex-1 items-center justify-center rounded-lg bg-amber-600 px-3 py-2 text-sm font-medium text-white hover:bg-amber-700 disabled:opacity-50"
+          >
+            <Printer size={16} className="mr-2" />
+            Print
+          </button>
+          <a
+            href={emailLink}
+            className={`flex flex-1 items-center justify-center rounded-lg bg-zinc-800 px-3 py-2 text-sm font-medium text-white hover:bg-zinc-700 ${
+              !ticket.code || !ticket.purchaser_email ? 'pointer-events-none opacity-50' : ''
+            }`}
+          >
+            <Mail size={16} className="mr-2" />
+            Email
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PrintableTicket;
@@ -0,0 +1,170 @@
+import React, { useState, useEffect } from 'react';
+import { Clock, CheckCircle, XCircle, Lock } from 'lucide-react';
+import { useTicketHolds } from '../../hooks/useTicketing';
+import type { TicketTierType } from '../../lib/api/schemas/eventSchemas';
+
+interface TicketHoldsPanelProps {
+  eventId: string;
+}
+
+const TIER_LABELS: Record<TicketTierType, string> = {
+  general: 'General',
+  vip: 'VIP',
+  earlyBird: 'Early Bird',
+};
+
+const formatRemaining = (expiresAt: string, now: number) => {
+  const seconds = Math.max(Math.floor((new Date(expiresAt).getTime() - now) / 1000), 0);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const TicketHoldsPanel: React.FC<TicketHoldsPanelProps> = ({ eventId }) => {
+  const {
+    holds,
+    isLoading,
+    createHold,
+    convertHold,
+    releaseHold,
+    isCreating,
+    isConverting,
+    isReleasing
+  } = useTicketHolds(eventId);
+
+  const [formData, setFormData] = useState({
+    quantity: 1,
+    tierType: 'general' as TicketTierType,
+    customerName: '',
+    customerEmail: ''
+  });
+  const [now, setNow] = useState(Date.now());
+
+  // Tick the countdowns every second
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const handleInputChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({
+      ...prev,
+      [name]: name === 'quantity' ? parseInt(value) || 1 : value
+    }));
+  };
+
+  const handleHold = (e: React.FormEvent) => {
+    e.preventDefault();
+    createHold({
+      eventId,
+      quantity: formData.quantity,
+      tierType: formData.tierType,
+      customerName: formData.customerName || undefined,
+      customerEmail: formData.customerEmail || undefined
+    });
+    setFormData((prev) => ({ ...prev, quantity: 1, customerName: '', customerEmail: '' }));
+  };
+
+  const heldCount = holds.reduce((sum, hold) => sum + hold.quantity, 0);
+
+  return (
+    <div className="mb-6 rounded-lg bg-zinc-800 p-4">
+      <div className="mb-3 flex items-center justify-between">
+        <h3 className="flex items-center text-lg font-semibold text-white">
+          <Lock size={16} className="mr-2 text-amber-500" />
+          Held Seats
+        </h3>
+        <span className="text-sm text-gray-400">{heldCount} held</span>
+      </div>
+
+      <form onSubmit={handleHold} className="mb-4 grid grid-cols-1 gap-3 sm:grid-cols-5">
+        <input
+          type="number"
+          name="quantity"
+          min={1}
+          max={50}
+          value={formData.quantity}
+          onChange={handleInputChange}
+          className="rounded-md border border-zinc-700 bg-zinc-900 px-3 py-2 text-white focus:border-amber-500 focus:outline-none"
+        />
+        <select
+          name="tierType"
+          value={formData.tierType}
+          onChange={handleInputChange}
+          className="rounded-md border border-zinc-700 bg-zinc-900 px-3 py-2 text-white focus:border-amber-500 focus:outline-none"
+        >
+          <option value="general">General</option>
+          <option value="vip">VIP</option>
+          <option value="earlyBird">Early Bird</option>
+        </select>
+        <input
+          type="text"
+          name="customerName"
+          placeholder="Customer name"
+          value={formData.customerName}
+          onChange={handleInputChange}
+          className="rounded-md border border-zinc-700 bg-zinc-900 px-3 py-2 text-white placeholder-gray-500 focus:border-amber-500 focus:outline-none"
+        />
+        <input
+          type="email"
+          name="customerEmail"
+          placeholder="Customer email"
+          value={formData.customerEmail}
+          onChange={handleInputChange}
+          className="rounded-md border border-zinc-700 bg-zinc-900 px-3 py-2 text-white placeholder-gray-500 focus:border-amber-500 focus:outline-none"
+        />
+        <button
+          type="submit"
+          disabled={isCreating}
+          className="rounded-lg bg-amber-600 px-3 py-2 text-sm font-medium text-white hover:bg-amber-700 disabled:opacity-50"
+        >
+          {isCreating ? 'Holding...' : 'Hold Seats'}
+        </button>
+      </form>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-400">Loading holds...</p>
+      ) : holds.length > 0 ? (
+        <ul className="divide-y divide-zinc-700">
+          {holds.map((hold) => (
+            <li key={hold.id} className="flex items-center justify-between py-2">
+              <div>
+                <p className="text-sm font-medium text-white">
+                  {hold.quantity} × {TIER_LABELS[hold.tierType]}
+                  {hold.customerName && <span className="ml-2 text-gray-400">for {hold.customerName}</span>}
+                </p>
+                <p className="flex items-center text-xs text-gray-400">
+                  <Clock size={12} className="mr-1" />
+                  Expires in {formatRemaining(hold.expiresAt, now)}
+                </p>
+              </div>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => convertHold({ id: hold.id })}
+                  disabled={isConverting}
+                  className="flex items-center rounded-lg bg-green-600 px-2 py-1 text-xs font-medium text-white hover:bg-green-700 disabled:opacity-50"
+                >
+                  <CheckCircle size={12} className="mr-1" />
+                  Paid
+                </button>
+                <button
+                  onClick={() => releaseHold(hold.id)}
+                  disabled={isReleasing}
+                  className="flex items-center rounded-lg bg-zinc-700 px-2 py-1 text-xs font-medium text-white hover:bg-zinc-600 disabled:opacity-50"
+                >
+                  <XCircle size={12} className="mr-1" />
+                  Release
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-400">No seats are currently held.</p>
+      )}
+    </div>
+  );
+};
+
+export default TicketHoldsPanel;
@@ -0,0 +1,182 @@
+import { useMemo, useState } from 'react';
+import { AlertTriangle, RefreshCw, X } from 'lucide-react';
+
+// A field of the edits that can conflict, keyed like the edits and the record
+export interface ConflictField<TUpdates extends object> {
+  key: keyof TUpdates & string;
+  label: string;
+}
+
+interface ConflictPromptProps<TRecord extends object, TUpdates extends object> {
+  isOpen: boolean;
+  entityName: string;
+  fields: ConflictField<TUpdates>[];
+  // The record as it was when editing started, the edits that were refused
+  // and the record as it is now
+  base: TRecord;
+  mine: TUpdates;
+  latest?: TRecord | null;
+  isSubmitting?: boolean;
+  onMerge: (merged: TUpdates) => void;
+  onReload: () => void;
+  onCancel: () => void;
+}
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Records and edits share the conflicting field names but not their types
+const valueOf = (record: object | null | undefined, key: string): unknown =>
+  (record as Record<string, unknown> | null | undefined)?.[key];
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  if (Array.isArray(value)) return value.join(', ') || '(empty)';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * Shown when a save is refused because someone else changed the record.
+ * Fields only one side changed are merged automatically; fields both sides
+ * changed are listed so the user can pick which value to keep.
+ */
+const ConflictPrompt = <TRecord extends object, TUpdates extends object>({
+  isOpen,
+  entityName,
+  fields,
+  base,
+  mine,
+  latest,
+  isSubmitting = false,
+  onMerge,
+  onReload,
+  onCancel
+}: ConflictPromptProps<TRecord, TUpdates>) => {
+  const [choices, setChoices] = useState<Record<string, 'mine' | 'theirs'>>({});
+
+  const { conflicts, theirChanges } = useMemo(() => {
+    const changedByThem = fields.filter(field => latest && !isSame(valueOf(latest, field.key), valueOf(base, field.key)));
+    return {
+      conflicts: changedByThem.filter(field =>
+        field.key in mine
+          && !isSame(mine[field.key], valueOf(base, field.key))
+          && !isSame(mine[field.key], valueOf(latest, field.key))
+      ),
+      theirChanges: changedByThem.filter(field => !(field.key in mine) || isSame(mine[field.key], valueOf(base, field.key)))
+    };
+  }, [fields, base, mine, latest]);
+
+  if (!isOpen) return null;
+
+  const handleMerge = () => {
+    const merged = { ...mine } as Record<string, unknown>;
+    theirChanges.forEach(field => {
+      if (field.key in merged) merged[field.key] = valueOf(latest, field.key);
+    });
+    conflicts.forEach(field => {
+      if (choices[field.key] === 'theirs') merged[field.key] = valueOf(latest, field.key);
+    });
+    // Only fields that are in the edits are replaced, with the record's value for them
+    onMerge(merged as TUpdates);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="relative max-h-[90vh] w-full max-w-2xl overflow-y-auto rounded-lg bg-zinc-900 shadow-xl">
+        <div className="flex items-center justify-between border-b border-zinc-700 px-6 py-4">
+          <div className="flex items-center">
+            <AlertTriangle size={20} className="mr-2 text-amber-500" />
+            <h2 className="text-lg font-semibold text-white">This {entityName} was changed</h2>
+          </div>
+          <button
+            onClick={onCancel}
+            className="rounded-full p-2 text-gray-400 hover:bg-zinc-800 hover:text-white"
+            aria-label="Close"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="space-y-4 p-6">
+          <p className="text-sm text-gray-300">
+            Someone else saved changes to this {entityName} while you were editing it, so your changes were not saved.
+            Merge them with the latest version or reload and start again.
+          </p>
+
+          {!latest ? (
+            <div className="flex items-center text-sm text-gray-400">
+              <div className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-amber-500 border-t-transparent"></div>
+              Loading the latest version...
+            </div>
+          ) : (
+            <>
+              {conflicts.length > 0 && (
+                <div>
+                  <h3 className="mb-2 text-sm font-medium text-white">Changed by both of you</h3>
+                  <div className="space-y-2">
+                    {conflicts.map(field => (
+                      <div key={field.key} className="rounded-lg bg-zinc-800 p-3">
+                        <p className="mb-2 text-xs font-medium uppercase text-gray-400">{field.label}</p>
+                        {(['mine', 'theirs'] as const).map(side => (
+                          <label key={side} className="flex items-start space-x-2 py-1 text-sm text-gray-300">
+                            <input
+                              type="radio"
+                              name={`conflict-${field.key}`}
+                              checked={(choices[field.key] || 'mine') === side}
+                              onChange={() => setChoices(prev => ({ ...prev, [field.key]: side }))}
+                              className="mt-1 text-amber-500 focus:ring-amber-500"
+                            />
+                            <span>
+                              <span className="text-gray-400">{side === 'mine' ? 'Yours: ' : 'Theirs: '}</span>
+                              {formatValue(side === 'mine' ? mine[field.key] : valueOf(latest, field.key))}
+                            </span>
+                          </label>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {theirChanges.length > 0 && (
+                <div>
+                  <h3 className="mb-2 text-sm font-medium text-white">Their changes, kept when merging</h3>
+                  <ul className="space-y-1 text-sm text-gray-300">
+                    {theirChanges.map(field => (
+                      <li key={field.key}>
+                        <span className="text-gray-400">{field.label}:</span> {formatValue(valueOf(base, field.key))} → {formatValue(valueOf(latest, field.key))}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {conflicts.length === 0 && theirChanges.length === 0 && (
+                <p className="text-sm text-gray-400">None of the fields you edited were changed, so your changes can be saved as they are.</p>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 border-t border-zinc-700 px-6 py-4">
+          <button
+            onClick={onReload}
+            className="flex items-center rounded-lg border border-zinc-700 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800"
+          >
+            <RefreshCw size={16} className="mr-2" />
+            Discard mine and reload
+          </button>
+          <button
+            onClick={handleMerge}
+            disabled={!latest || isSubmitting}
+            className="rounded-lg bg-amber-600 px-4 py-2 text-sm font-medium text-white hover:bg-amber-700 disabled:opacity-50"
+          >
+            {isSubmitting ? 'Saving...' : 'Merge and save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConflictPrompt;
@@ -18,6 +18,10 @@ interface VirtualizedListProps<T> {
   errorComponent?: React.ComponentType<{ error: Error; retry: () => void }>;
   onEndReached?: () => void;
   endReachedThreshold?: number;
+  // Infinite scroll: onEndReached only fires while more pages exist and none is loading
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  loadingMoreComponent?: React.ComponentType;
 }
 
 interface VirtualizedGridProps<T> {
@@ -81,7 +85,10 @@ export const VirtualizedList = <T,>({
   emptyComponent: EmptyComponent,
   errorComponent: ErrorComponent,
   onEndReached,
-  endReachedThreshold = 0.8
+  endReachedThreshold = 0.8,
+  hasMore = true,
+  loadingMore = false,
+  loadingMoreComponent: LoadingMoreComponent
 }: VirtualizedListProps<T>) => {
   const { measureRenderTime } = usePerformance();
   const [scrollTop, setScrollTop] = useState(0);
@@ -89,6 +96,8 @@ export const VirtualizedList = <T,>({
   const containerRef = useRef<HTMLDivElement>(null);
   const isScrollingRef = useRef(false);
   const scrollTimeoutRef = useRef<NodeJS.Timeout>();
+  // Item count when onEndReached last fired, so each page is requested once
+  const endReachedCountRef = useRef<number | null>(null);
 
   // Calculate visible range with memoization
   const { startIndex, endIndex, visibleRange } = useMemo(() => {
@@ -134,6 +143,26 @@ export const VirtualizedList = <T,>({
     }
   }, [items, startIndex, endIndex, itemHeight, getItemKey, measureRenderTime]);
 
+  const requestMore = useCallback(() => {
+    if (!onEndReached || !hasMore || loadingMore || endReachedCountRef.current === items.length) return;
+    endReachedCountRef.current = items.length;
+    onEndReached();
+  }, [onEndReached, hasMore, loadingMore, items.length]);
+
+  // A reset list (e.g. new filters) may fire again for the same count
+  useEffect(() => {
+    if (items.length === 0) {
+      endReachedCountRef.current = null;
+    }
+  }, [items.length]);
+
+  // Keep loading while the loaded items don't fill the container yet
+  useEffect(() => {
+    if (items.length > 0 && items.length * itemHeight < containerHeight) {
+      requestMore();
+    }
+  }, [items.length, itemHeight, containerHeight, requestMore]);
+
   // Optimized scroll handler with throttling
   const handleScroll = useCallback((event: React.UIEvent<HTMLDivElement>) => {
     const target = event.currentTarget;
@@ -159,10 +188,10 @@ export const VirtualizedList = <T,>({
       const threshold = scrollHeight * endReachedThreshold;
       
       if (newScrollTop + clientHeight >= threshold) {
-        onEndReached();
+        requestMore();
       }
     }
-  }, [onScroll, onEndReached, endReachedThreshold]);
+  }, [onScroll, onEndReached, endReachedThreshold, requestMore]);
 
   // Cleanup timeouts
   useEffect(() => {
@@ -193,7 +222,8 @@ export const VirtualizedList = <T,>({
     return <EmptyComponent />;
   }
 
-  const totalHeight = items.length * itemHeight;
+  const showLoadingMore = loadingMore && items.length > 0;
+  const totalHeight = (items.length + (showLoadingMore ? 1 : 0)) * itemHeight;
 
   return (
     <div
@@ -210,6 +240,20 @@ export const VirtualizedList = <T,>({
             {renderItem(item, index)}
           </ListItem>
         ))}
+
+        {/* Next page row */}
+        {showLoadingMore && (
+          <ListItem
+            style={{ position: 'absolute', top: items.length * itemHeight, height: itemHeight, width: '100%', left: 0 }}
+            className="flex items-center justify-center"
+          >
+            {LoadingMoreComponent ? (
+              <LoadingMoreComponent />
+            ) : (
+              <div className="h-5 w-5 animate-spin rounded-full border-2 border-blue-500 border-t-transparent"></div>
+            )}
+          </ListItem>
+        )}
       </div>
     </div>
   );
@@ -82,8 +82,8 @@ export function useArtists(query?: Partial<ArtistQueryRequest>) {
   });
 
   const updateArtistMutation = useMutation({
-    mutationFn: async ({ id, updates }: { id: string, updates: Omit<UpdateArtistRequest, 'id'> }) => {
-      const response = await ArtistService.updateArtist({ id, ...updates });
+    mutationFn: async ({ id, updates, expectedUpdatedAt }: { id: string, updates: Omit<UpdateArtistRequest, 'id'>, expectedUpdatedAt: string }) => {
+      const response = await ArtistService.updateArtist({ id, ...updates }, expectedUpdatedAt);
       return handleServiceResponse(response);
     },
     onSuccess: (updatedArtist) => {
@@ -135,9 +135,9 @@ export function useArtists(query?: Partial<ArtistQueryRequest>) {
     }
   }, [createArtistMutation]);
 
-  const updateArtist = useCallback(async (id: string, updates: Omit<UpdateArtistRequest, 'id'>): Promise<{ success: boolean; artist?: Artist; error?: ArtistsError }> => {
+  const updateArtist = useCallback(async (id: string, updates: Omit<UpdateArtistRequest, 'id'>, expectedUpdatedAt: string): Promise<{ success: boolean; artist?: Artist; error?: ArtistsError }> => {
     try {
-      const artist = await updateArtistMutation.mutateAsync({ id, updates });
+      const artist = await updateArtistMutation.mutateAsync({ id, updates, expectedUpdatedAt });
       return { success: true, artist };
     } catch (error) {
       return { success: false, error: error as ArtistsError };
@@ -336,7 +336,7 @@ export const useArtistsEnhanced = () => {
       }
 
       // Update artist using our ArtistService
-      const response = await ArtistService.updateArtist(validation.data, requestId);
+      const response = await ArtistService.updateArtist(validation.data, existingArtist.updatedAt, requestId);
       
       if ('type' in response.data && response.data.type) {
         // Handle error response
@@ -0,0 +1,54 @@
+import { useQuery } from '@tanstack/react-query';
+import { auditService } from '../lib/api/services/auditService';
+import type { AuditEntityType, AuditEntry, AuditQuery } from '../lib/api/schemas/auditSchemas';
+import {
+  handleServiceResponse,
+  AppError,
+  CACHE_TIMES,
+  STALE_TIMES
+} from './useErrorHandling';
+
+// Change history of a single record. Pass the record's updatedAt as the
+// version so the history reloads after every save.
+export function useRecordHistory(entityType: AuditEntityType, entityId?: string, version?: string) {
+  const historyQuery = useQuery<AuditEntry[], AppError>({
+    queryKey: ['audit_entries', entityType, entityId, version],
+    queryFn: async () => {
+      const response = await auditService.getRecordHistory(entityType, entityId as string);
+      return handleServiceResponse(response, 'record history');
+    },
+    enabled: !!entityId,
+    staleTime: STALE_TIMES.SHORT,
+    gcTime: CACHE_TIMES.SHORT,
+  });
+
+  return {
+    entries: historyQuery.data || [],
+    isLoading: historyQuery.isLoading,
+    isError: historyQuery.isError,
+    error: historyQuery.error as AppError,
+    refetch: historyQuery.refetch
+  };
+}
+
+// Audit search across all records
+export function useAuditTrail(query: AuditQuery, enabled = true) {
+  const trailQuery = useQuery<AuditEntry[], AppError>({
+    queryKey: ['audit_entries', 'search', query],
+    queryFn: async () => {
+      const response = await auditService.getAuditTrail(query);
+      return handleServiceResponse(response, 'audit trail');
+    },
+    enabled,
+    staleTime: STALE_TIMES.SHORT,
+    gcTime: CACHE_TIMES.SHORT,
+  });
+
+  return {
+    entries: trailQuery.data || [],
+    isLoading: trailQuery.isLoading,
+    isError: trailQuery.isError,
+    error: trailQuery.error as AppError,
+    refetch: trailQuery.refetch
+  };
+}
@@ -1,7 +1,10 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { crmApi } from '../lib/supabase';
+import { customerService } from '../lib/api/services/customerService';
+import type { UpdateCustomerRequest } from '../lib/api/schemas/customerSchemas';
 import { toast } from 'react-hot-toast';
 import type { Customer, CustomerInteraction } from '../types';
+import { handleServiceResponse, type AppError } from './useErrorHandling';
 import { useState, useCallback } from 'react';
 
 export function useCustomers() {
@@ -23,14 +26,20 @@ export function useCustomers() {
     }
   });
 
+  // Updates go through the customer service so a stale edit is refused
+  // (409) rather than overwriting someone else's changes
   const updateCustomerMutation = useMutation({
-    mutationFn: ({ id, updates }: { id: string, updates: Partial<Customer> }) => 
-      crmApi.updateCustomer(id, updates),
+    mutationFn: async ({ id, updates, expectedUpdatedAt }: { id: string, updates: Omit<UpdateCustomerRequest, 'id'>, expectedUpdatedAt: string }) => {
+      const response = await customerService.updateCustomer(id, updates, expectedUpdatedAt);
+      return handleServiceResponse(response, 'customer');
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['customers'] });
       toast.success('Customer updated successfully!');
     },
-    onError: (error) => {
+    onError: (error: AppError) => {
+      // Conflicts are resolved in the form, which offers to merge or reload
+      if (error.type === 'conflict') return;
       toast.error(`Error updating customer: ${error.message}`);
     }
   });
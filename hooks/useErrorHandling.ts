@@ -2,7 +2,7 @@ import type { ServiceResponse } from '../lib/api/serviceResponse';
 
 // Generic error interface that all hooks will use
 export interface AppError {
-  type: 'validation' | 'authentication' | 'authorization' | 'not_found' | 'server' | 'network' | 'unknown';
+  type: 'validation' | 'authentication' | 'authorization' | 'not_found' | 'conflict' | 'server' | 'network' | 'unknown';
   message: string;
   details?: any;
   fieldErrors?: Record<string, string>;
@@ -15,7 +15,8 @@ export const handleServiceResponse = <T>(response: ServiceResponse<T>, entityNam
       type: response.error?.status === 422 ? 'validation' : 
              response.error?.status === 401 ? 'authentication' :
              response.error?.status === 403 ? 'authorization' :
-             response.error?.status === 404 ? 'not_found' : 'server',
+             response.error?.status === 404 ? 'not_found' :
+             response.error?.status === 409 ? 'conflict' : 'server',
       message: response.error?.detail || `Failed to process ${entityName}`,
       details: response.error,
       fieldErrors: response.error?.errors?.reduce((acc: Record<string, string>, err: any) => ({
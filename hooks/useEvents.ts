@@ -1,13 +1,13 @@
 import { useEffect, useState, useCallback } from 'react';
 import { eventsService, EventsService } from '../lib/api/services/eventsService';
 import { supabase } from '../lib/supabase';
-import type { Event, CreateEventRequest, UpdateEventRequest, EventQueryRequest } from '../lib/api/schemas/eventSchemas';
+import type { Event, CreateEventRequest, UpdateEventRequest, EventQueryRequest, TicketTierType, TicketPosting } from '../lib/api/schemas/eventSchemas';
 import type { ApiResponse } from '../lib/api/types';
 import { ApiErrorBase, ValidationErrorClass } from '../lib/api/errors';
 
 // Enhanced error handling interface
 interface EventsError {
-  type: 'validation' | 'authentication' | 'authorization' | 'not_found' | 'server' | 'network';
+  type: 'validation' | 'authentication' | 'authorization' | 'not_found' | 'conflict' | 'server' | 'network';
   message: string;
   details?: any;
   fieldErrors?: Record<string, string>;
@@ -186,12 +186,16 @@ export const useEvents = (query?: Partial<EventQueryRequest>) => {
   }, []);
 
   // Update event with validation feedback
-  const updateEvent = useCallback(async (id: string, updates: Omit<UpdateEventRequest, 'id'>): Promise<{ success: boolean; event?: Event; error?: EventsError }> => {
+  const updateEvent = useCallback(async (
+    id: string,
+    updates: Omit<UpdateEventRequest, 'id'>,
+    expectedUpdatedAt: string
+  ): Promise<{ success: boolean; event?: Event; error?: EventsError }> => {
     setLoading(prev => ({ ...prev, isUpdating: true }));
     setError(null);
 
     try {
-      const response = await eventsService.updateEvent(id, updates);
+      const response = await eventsService.updateEvent(id, updates, expectedUpdatedAt);
       
       if (response.success) {
         // Update local state optimistically
@@ -201,7 +205,8 @@ export const useEvents = (query?: Partial<EventQueryRequest>) => {
         return { success: true, event: response.data };
       } else {
         const error: EventsError = {
-          type: response.error?.status === 422 ? 'validation' : 'server',
+          type: response.error?.status === 422 ? 'validation' :
+                response.error?.status === 409 ? 'conflict' : 'server',
           message: response.error?.detail || 'Failed to update event',
           details: response.error,
           fieldErrors: response.error?.errors?.reduce((acc, err) => ({
@@ -262,12 +267,12 @@ export const useEvents = (query?: Partial<EventQueryRequest>) => {
   }, []);
 
   // Cancel event (soft delete)
-  const cancelEvent = useCallback(async (id: string, reason?: string): Promise<{ success: boolean; event?: Event; error?: EventsError }> => {
+  const cancelEvent = useCallback(async (id: string, reason?: string, refund?: TicketPosting): Promise<{ success: boolean; event?: Event; error?: EventsError }> => {
     setLoading(prev => ({ ...prev, isUpdating: true }));
     setError(null);
 
     try {
-      const response = await eventsService.cancelEvent(id, reason);
+      const response = await eventsService.cancelEvent(id, reason, refund);
       
       if (response.success) {
         // Update local state
@@ -299,12 +304,12 @@ export const useEvents = (query?: Partial<EventQueryRequest>) => {
   }, []);
 
   // Sell tickets for an event
-  const sellTickets = useCallback(async (eventId: string, quantity: number): Promise<{ success: boolean; event?: Event; error?: EventsError }> => {
+  const sellTickets = useCallback(async (eventId: string, quantity: number, tierType?: TicketTierType): Promise<{ success: boolean; event?: Event; error?: EventsError }> => {
     setLoading(prev => ({ ...prev, isUpdating: true }));
     setError(null);
 
     try {
-      const response = await eventsService.sellTickets(eventId, quantity);
+      const response = await eventsService.sellTickets(eventId, quantity, tierType);
       
       if (response.success) {
         // Update local state
@@ -9,6 +9,7 @@ import {
   type CreateEventRequest,
   type UpdateEventRequest,
   type Event,
+  type TicketTierType,
 } from '../lib/api/schemas/eventSchemas';
 import { 
   ValidationError, 
@@ -285,7 +286,8 @@ export const useEventsEnhanced = () => {
    */
   const sellTickets = useCallback(async (
     eventId: string, 
-    quantity: number
+    quantity: number,
+    tierType: TicketTierType = 'general'
   ): Promise<ApiResponse<EnhancedEvent>> => {
     const requestId = crypto.randomUUID();
 
@@ -304,15 +306,21 @@ export const useEventsEnhanced = () => {
       }
 
       // Check business rules
-      const canSellResult = validateEventBusinessRules.canSellTickets(existingEvent, quantity);
+      const canSellResult = validateEventBusinessRules.canSellTickets(existingEvent, quantity, tierType);
       if (!canSellResult.valid) {
         const businessRuleError = new ValidationError(canSellResult.reason || 'Cannot sell tickets');
         return buildErrorResponse(businessRuleError, requestId);
       }
 
-      // Update tickets sold
+      // Update tickets sold (overall and per tier)
       const newTicketsSold = existingEvent.ticketsSold + quantity;
-      return updateEvent(eventId, { ticketsSold: newTicketsSold });
+      const ticketTiers = existingEvent.ticketTiers?.map(tier =>
+        tier.type === tierType ? { ...tier, sold: tier.sold + quantity } : tier
+      );
+      return updateEvent(eventId, {
+        ticketsSold: newTicketsSold,
+        ...(ticketTiers && ticketTiers.length > 0 ? { ticketTiers } : {})
+      });
 
     } catch (error) {
       const errorMessage = handleApiError(error, 'sell tickets');
@@ -6,10 +6,12 @@ import type {
   CreateFinancialTransactionRequest, 
   UpdateFinancialTransactionRequest, 
   FinancialTransactionQueryRequest,
+  TransactionQueryRequest,
   FinancialReport 
 } from '../lib/api/schemas/financeSchemas';
 import type { ApiResponse } from '../lib/api/types';
 import { toast } from 'react-hot-toast';
+import { useCursorListState } from './useOptimizedState';
 
 // Enhanced error handling interface
 interface FinancesError {
@@ -63,7 +65,13 @@ export function useFinances(query?: Partial<FinancialTransactionQueryRequest>) {
       queryClient.setQueryData(['financial_transactions', 'all'], (old: FinancialTransaction[] | undefined) => 
         old ? [newTransaction, ...old] : [newTransaction]
       );
-      toast.success('Transaction created successfully!');
+      if (newTransaction.requiresApproval) {
+        toast(`Transaction held for approval: ${newTransaction.budgetWarning}`, { icon: '⚠️' });
+      } else if (newTransaction.budgetWarning) {
+        toast(`Transaction created. ${newTransaction.budgetWarning}`, { icon: '⚠️' });
+      } else {
+        toast.success('Transaction created successfully!');
+      }
     },
     onError: (error: FinancesError) => {
       const errorMessage = error.fieldErrors ? 
@@ -74,8 +82,8 @@ export function useFinances(query?: Partial<FinancialTransactionQueryRequest>) {
   });
 
   const updateTransactionMutation = useMutation({
-    mutationFn: async ({ id, updates }: { id: string, updates: Omit<UpdateFinancialTransactionRequest, 'id'> }) => {
-      const response = await financeService.updateTransaction(id, updates);
+    mutationFn: async ({ id, updates, expectedUpdatedAt }: { id: string, updates: Omit<UpdateFinancialTransactionRequest, 'id'>, expectedUpdatedAt: string }) => {
+      const response = await financeService.updateTransaction(id, updates, expectedUpdatedAt);
       return handleServiceResponse(response);
     },
     onSuccess: (updatedTransaction) => {
@@ -126,9 +134,9 @@ export function useFinances(query?: Partial<FinancialTransactionQueryRequest>) {
     }
   }, [createTransactionMutation]);
 
-  const updateTransaction = useCallback(async (id: string, updates: Omit<UpdateFinancialTransactionRequest, 'id'>): Promise<{ success: boolean; transaction?: FinancialTransaction; error?: FinancesError }> => {
+  const updateTransaction = useCallback(async (id: string, updates: Omit<UpdateFinancialTransactionRequest, 'id'>, expectedUpdatedAt: string): Promise<{ success: boolean; transaction?: FinancialTransaction; error?: FinancesError }> => {
     try {
-      const transaction = await updateTransactionMutation.mutateAsync({ id, updates });
+      const transaction = await updateTransactionMutation.mutateAsync({ id, updates, expectedUpdatedAt });
       return { success: true, transaction };
     } catch (error) {
       return { success: false, error: error as FinancesError };
@@ -166,6 +174,17 @@ export function useFinances(query?: Partial<FinancialTransactionQueryRequest>) {
   };
 }
 
+// Transactions one cursor page at a time for infinite scroll; totalCount covers
+// every matching transaction, not just the loaded pages
+export function useTransactionFeed(query: Partial<TransactionQueryRequest> = {}, pageSize = 50) {
+  const fetchPage = useCallback(
+    (cursor: string | null) => financeService.getTransactions({ ...query, limit: pageSize, cursor: cursor ?? undefined }),
+    [query, pageSize]
+  );
+
+  return useCursorListState<FinancialTransaction>(fetchPage, JSON.stringify({ query, pageSize }));
+}
+
 export function useTransaction(id: string) {
   const transactionQuery = useQuery({
     queryKey: ['financial_transactions', id],
@@ -10,7 +10,15 @@ import type {
   InventoryQueryRequest,
   CreateInventoryCategoryRequest,
   UpdateInventoryCategoryRequest,
-  CreateInventoryTransactionRequest
+  CreateInventoryTransactionRequest,
+  InventoryValuationQuery,
+  CostOfGoodsSoldQuery,
+  TransferStockRequest,
+  UpdateLocationLevelsRequest,
+  StockAlertQuery,
+  AcknowledgeAlertRequest,
+  SnoozeAlertRequest,
+  AssignAlertRequest
 } from '../lib/api/schemas/inventorySchemas';
 import { toast } from 'react-hot-toast';
 import { 
@@ -168,8 +176,8 @@ export function useInventoryItems(query?: Partial<InventoryQueryRequest>) {
   });
 
   const updateItemMutation = useMutation({
-    mutationFn: async ({ id, updates }: { id: string, updates: Omit<UpdateInventoryItemRequest, 'id'> }) => {
-      const response = await inventoryService.updateItem(id, updates);
+    mutationFn: async ({ id, updates, expectedUpdatedAt }: { id: string, updates: Omit<UpdateInventoryItemRequest, 'id'>, expectedUpdatedAt: string }) => {
+      const response = await inventoryService.updateInventoryItem(id, updates, expectedUpdatedAt);
       return handleServiceResponse(response, 'inventory item');
     },
     onSuccess: (updatedItem) => {
@@ -179,6 +187,8 @@ export function useInventoryItems(query?: Partial<InventoryQueryRequest>) {
       toast.success('Item updated successfully!');
     },
     onError: (error: AppError) => {
+      // Conflicts are resolved in the form, which offers to merge or reload
+      if (error.type === 'conflict') return;
       const errorMessage = formatErrorMessage(error);
       toast.error(`Error updating item: ${errorMessage}`);
     }
@@ -209,9 +219,13 @@ export function useInventoryItems(query?: Partial<InventoryQueryRequest>) {
     }
   }, [createItemMutation]);
 
-  const updateItem = useCallback(async (id: string, updates: Omit<UpdateInventoryItemRequest, 'id'>): Promise<MutationResult<InventoryItem>> => {
+  const updateItem = useCallback(async (
+    id: string,
+    updates: Omit<UpdateInventoryItemRequest, 'id'>,
+    expectedUpdatedAt: string
+  ): Promise<MutationResult<InventoryItem>> => {
     try {
-      const item = await updateItemMutation.mutateAsync({ id, updates });
+      const item = await updateItemMutation.mutateAsync({ id, updates, expectedUpdatedAt });
       return { success: true, data: item };
     } catch (error) {
       return { success: false, error: error as AppError };
@@ -340,6 +354,175 @@ export function useLowStockItems(threshold?: number) {
   });
 }
 
+// Stock valuation hook
+export function useInventoryValuation(query: InventoryValuationQuery = {}) {
+  const valuationQuery = useQuery({
+    queryKey: ['inventory_valuation', query],
+    queryFn: async () => {
+      const response = await inventoryService.getValuationReport(query);
+      return handleServiceResponse(response, 'inventory valuation');
+    },
+    staleTime: STALE_TIMES.SHORT,
+    cacheTime: CACHE_TIMES.SHORT,
+  });
+
+  return {
+    valuation: valuationQuery.data,
+    isLoading: valuationQuery.isLoading,
+    isError: valuationQuery.isError,
+    error: valuationQuery.error as AppError,
+    refetch: valuationQuery.refetch
+  };
+}
+
+// Cost of goods sold hook
+export function useCostOfGoodsSold(query: CostOfGoodsSoldQuery) {
+  const cogsQuery = useQuery({
+    queryKey: ['inventory_cogs', query],
+    queryFn: async () => {
+      const response = await inventoryService.getCostOfGoodsSold(query);
+      return handleServiceResponse(response, 'cost of goods sold');
+    },
+    enabled: !!query.dateFrom && !!query.dateTo,
+    staleTime: STALE_TIMES.SHORT,
+    cacheTime: CACHE_TIMES.SHORT,
+  });
+
+  return {
+    costOfGoodsSold: cogsQuery.data,
+    isLoading: cogsQuery.isLoading,
+    isError: cogsQuery.isError,
+    error: cogsQuery.error as AppError,
+    refetch: cogsQuery.refetch
+  };
+}
+
+// Stock per location hook: transfers and per-location reorder points
+export function useStockLocations(itemId: string) {
+  const queryClient = useQueryClient();
+
+  const invalidateStock = () => {
+    queryClient.invalidateQueries({ queryKey: ['inventory_items'] });
+    queryClient.invalidateQueries({ queryKey: ['inventory_transactions'] });
+    queryClient.invalidateQueries({ queryKey: ['inventory_alerts'] });
+  };
+
+  const transferMutation = useMutation({
+    mutationFn: async (transferData: Omit<TransferStockRequest, 'inventoryId'>) => {
+      const response = await inventoryService.transferStock({ ...transferData, inventoryId: itemId });
+      return handleServiceResponse(response, 'stock transfer');
+    },
+    onSuccess: (_transaction, transferData) => {
+      invalidateStock();
+      toast.success(`Moved ${transferData.quantity} to ${transferData.toLocation}`);
+    },
+    onError: (error: AppError) => {
+      toast.error(`Error transferring stock: ${formatErrorMessage(error)}`);
+    }
+  });
+
+  const levelsMutation = useMutation({
+    mutationFn: async (levelsData: UpdateLocationLevelsRequest) => {
+      const response = await inventoryService.updateLocationLevels(itemId, levelsData);
+      return handleServiceResponse(response, 'location levels');
+    },
+    onSuccess: () => {
+      invalidateStock();
+      toast.success('Location reorder points saved');
+    },
+    onError: (error: AppError) => {
+      toast.error(`Error saving reorder points: ${formatErrorMessage(error)}`);
+    }
+  });
+
+  return {
+    transferStock: transferMutation.mutate,
+    updateLocationLevels: levelsMutation.mutate,
+    isTransferring: transferMutation.isPending,
+    isSavingLevels: levelsMutation.isPending
+  };
+}
+
+// Stock alerts hook, optionally for one location
+export function useStockAlerts(query: Partial<StockAlertQuery> = {}) {
+  const queryClient = useQueryClient();
+
+  const alertsQuery = useQuery({
+    queryKey: ['inventory_alerts', query],
+    queryFn: async () => {
+      const response = await inventoryService.getAlerts(query);
+      return handleServiceResponse(response, 'stock alerts');
+    },
+    staleTime: STALE_TIMES.SHORT,
+    cacheTime: CACHE_TIMES.SHORT,
+  });
+
+  const onAlertError = (action: string) => (error: AppError) => {
+    queryClient.invalidateQueries({ queryKey: ['inventory_alerts'] });
+    toast.error(`Error ${action} alert: ${formatErrorMessage(error)}`);
+  };
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: async ({ id, acknowledgement = {} }: { id: string, acknowledgement?: AcknowledgeAlertRequest }) => {
+      const response = await inventoryService.acknowledgeAlert(id, acknowledgement);
+      return handleServiceResponse(response, 'stock alert');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['inventory_alerts'] });
+      toast.success('Alert acknowledged');
+    },
+    onError: onAlertError('acknowledging')
+  });
+
+  const snoozeMutation = useMutation({
+    mutationFn: async ({ id, snooze }: { id: string, snooze: SnoozeAlertRequest }) => {
+      const response = await inventoryService.snoozeAlert(id, snooze);
+      return handleServiceResponse(response, 'stock alert');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['inventory_alerts'] });
+      toast.success('Alert snoozed');
+    },
+    onError: onAlertError('snoozing')
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: async ({ id, assignment }: { id: string, assignment: AssignAlertRequest }) => {
+      const response = await inventoryService.assignAlert(id, assignment);
+      return handleServiceResponse(response, 'stock alert');
+    },
+    onSuccess: (alert) => {
+      queryClient.invalidateQueries({ queryKey: ['inventory_alerts'] });
+      toast.success(alert.assignedTo ? `Alert assigned to ${alert.assignedTo}` : 'Alert unassigned');
+    },
+    onError: onAlertError('assigning')
+  });
+
+  const refreshMutation = useMutation({
+    mutationFn: async () => {
+      const response = await inventoryService.refreshAlerts();
+      return handleServiceResponse(response, 'stock alerts');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['inventory_alerts'] });
+    },
+    onError: onAlertError('refreshing')
+  });
+
+  return {
+    alerts: alertsQuery.data || [],
+    isLoading: alertsQuery.isLoading,
+    isError: alertsQuery.isError,
+    error: alertsQuery.error as AppError,
+    acknowledgeAlert: acknowledgeMutation.mutate,
+    snoozeAlert: snoozeMutation.mutate,
+    assignAlert: assignMutation.mutate,
+    refreshAlerts: refreshMutation.mutate,
+    isRefreshing: refreshMutation.isPending,
+    refetch: alertsQuery.refetch
+  };
+}
+
 // Validation hook for inventory forms
 export const useInventoryValidation = () => {
   const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
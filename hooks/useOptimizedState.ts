@@ -1,5 +1,6 @@
 import { useState, useCallback, useMemo, useRef, useEffect } from 'react';
 import { debounce, throttle, memoizeWithTTL, batchStateUpdates } from '../utils/performance';
+import type { ApiResponse, CursorPaginationMeta } from '../lib/api/types';
 
 // Enhanced state hook with built-in performance optimizations
 export const useOptimizedState = <T>(
@@ -390,6 +391,89 @@ export const useVirtualizedListState = <T>(
   };
 };
 
+// Infinite scroll over a cursor-paged list endpoint. Pages are appended as
+// loadMore is called; changing resetKey (e.g. the serialized filters) starts over
+export const useCursorListState = <T>(
+  fetchPage: (cursor: string | null) => Promise<ApiResponse<T[]>>,
+  resetKey = ''
+) => {
+  const [state, setState] = useState<{
+    items: T[];
+    pageInfo: CursorPaginationMeta | null;
+    loading: boolean;
+    loadingMore: boolean;
+    error: Error | null;
+  }>({
+    items: [],
+    pageInfo: null,
+    loading: true,
+    loadingMore: false,
+    error: null
+  });
+
+  const fetchPageRef = useRef(fetchPage);
+  fetchPageRef.current = fetchPage;
+  // Responses for an earlier resetKey arrive late and are dropped
+  const generationRef = useRef(0);
+  const inFlightRef = useRef(false);
+
+  const load = useCallback(async (cursor: string | null) => {
+    const generation = generationRef.current;
+    inFlightRef.current = true;
+    setState(prev => ({ ...prev, loading: cursor === null, loadingMore: cursor !== null, error: null }));
+
+    try {
+      const response = await fetchPageRef.current(cursor);
+      if (!Array.isArray(response?.data)) {
+        const failure = response as unknown as { error?: { detail?: string }; meta?: { message?: string } };
+        throw new Error(failure?.error?.detail || failure?.meta?.message || 'The list could not be loaded');
+      }
+      if (generation !== generationRef.current) return;
+
+      setState(prev => ({
+        items: cursor === null ? response.data : [...prev.items, ...response.data],
+        pageInfo: response.meta?.page_info ?? null,
+        loading: false,
+        loadingMore: false,
+        error: null
+      }));
+    } catch (error) {
+      if (generation !== generationRef.current) return;
+      setState(prev => ({ ...prev, loading: false, loadingMore: false, error: error as Error }));
+    } finally {
+      if (generation === generationRef.current) {
+        inFlightRef.current = false;
+      }
+    }
+  }, []);
+
+  const refresh = useCallback(() => {
+    generationRef.current += 1;
+    return load(null);
+  }, [load]);
+
+  useEffect(() => {
+    refresh();
+  }, [resetKey, refresh]);
+
+  const loadMore = useCallback(() => {
+    if (inFlightRef.current || !state.pageInfo?.has_more) return;
+    load(state.pageInfo.next_cursor);
+  }, [load, state.pageInfo]);
+
+  return {
+    items: state.items,
+    totalCount: state.pageInfo?.total_count ?? null,
+    totalIsEstimate: state.pageInfo?.total_is_estimate ?? false,
+    hasMore: state.pageInfo?.has_more ?? false,
+    isLoading: state.loading,
+    isLoadingMore: state.loadingMore,
+    error: state.error,
+    loadMore,
+    refresh
+  };
+};
+
 // Memory optimization hook
 export const useMemoryOptimization = (options?: {
   maxCacheSize?: number;
@@ -0,0 +1,215 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { purchasingService } from '../lib/api/services/purchasingService';
+import type {
+  CreateSupplierRequest,
+  UpdateSupplierRequest,
+  CreatePurchaseOrderRequest,
+  ReceivePurchaseOrderRequest,
+  PurchaseOrderQueryRequest
+} from '../lib/api/schemas/purchasingSchemas';
+import { toast } from 'react-hot-toast';
+import {
+  handleServiceResponse,
+  AppError,
+  formatErrorMessage,
+  updateCacheList,
+  CACHE_TIMES,
+  STALE_TIMES
+} from './useErrorHandling';
+
+// Suppliers hook
+export function useSuppliers() {
+  const queryClient = useQueryClient();
+
+  const suppliersQuery = useQuery({
+    queryKey: ['suppliers'],
+    queryFn: async () => {
+      const response = await purchasingService.getSuppliers();
+      return handleServiceResponse(response, 'suppliers');
+    },
+    staleTime: STALE_TIMES.MEDIUM,
+    cacheTime: CACHE_TIMES.MEDIUM,
+  });
+
+  const createSupplierMutation = useMutation({
+    mutationFn: async (supplierData: CreateSupplierRequest) => {
+      const response = await purchasingService.createSupplier(supplierData);
+      return handleServiceResponse(response, 'supplier');
+    },
+    onSuccess: (newSupplier) => {
+      queryClient.invalidateQueries({ queryKey: ['suppliers'] });
+      updateCacheList(queryClient, ['suppliers'], newSupplier, 'add');
+      toast.success('Supplier added successfully!');
+    },
+    onError: (error: AppError) => {
+      toast.error(`Error adding supplier: ${formatErrorMessage(error)}`);
+    }
+  });
+
+  const updateSupplierMutation = useMutation({
+    mutationFn: async ({ id, updates, expectedUpdatedAt }: { id: string, updates: Omit<UpdateSupplierRequest, 'id'>, expectedUpdatedAt: string }) => {
+      const response = await purchasingService.updateSupplier(id, updates, expectedUpdatedAt);
+      return handleServiceResponse(response, 'supplier');
+    },
+    onSuccess: (updatedSupplier) => {
+      queryClient.invalidateQueries({ queryKey: ['suppliers'] });
+      updateCacheList(queryClient, ['suppliers'], updatedSupplier, 'update');
+      toast.success('Supplier updated successfully!');
+    },
+    onError: (error: AppError) => {
+      toast.error(`Error updating supplier: ${formatErrorMessage(error)}`);
+    }
+  });
+
+  return {
+    suppliers: suppliersQuery.data || [],
+    isLoading: suppliersQuery.isLoading,
+    isError: suppliersQuery.isError,
+    error: suppliersQuery.error as AppError,
+    createSupplier: createSupplierMutation.mutate,
+    updateSupplier: updateSupplierMutation.mutate,
+    isCreating: createSupplierMutation.isPending,
+    isUpdating: updateSupplierMutation.isPending,
+    refetch: suppliersQuery.refetch
+  };
+}
+
+// Purchase orders hook
+export function usePurchaseOrders(query?: Partial<PurchaseOrderQueryRequest>) {
+  const queryClient = useQueryClient();
+
+  // Anything that moves stock or money invalidates the views that show it
+  const invalidatePurchasing = () => {
+    queryClient.invalidateQueries({ queryKey: ['purchase_orders'] });
+    queryClient.invalidateQueries({ queryKey: ['stock_positions'] });
+  };
+
+  const ordersQuery = useQuery({
+    queryKey: ['purchase_orders', query],
+    queryFn: async () => {
+      const response = await purchasingService.getPurchaseOrders(query);
+      return handleServiceResponse(response, 'purchase orders');
+    },
+    staleTime: STALE_TIMES.SHORT,
+    cacheTime: CACHE_TIMES.SHORT,
+  });
+
+  const createOrderMutation = useMutation({
+    mutationFn: async (orderData: CreatePurchaseOrderRequest) => {
+      const response = await purchasingService.createPurchaseOrder(orderData);
+      return handleServiceResponse(response, 'purchase order');
+    },
+    onSuccess: (order) => {
+      invalidatePurchasing();
+      toast.success(`Purchase order ${order.orderNumber} drafted`);
+    },
+    onError: (error: AppError) => {
+      toast.error(`Error creating purchase order: ${formatErrorMessage(error)}`);
+    }
+  });
+
+  const draftFromAlertsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await purchasingService.draftPurchaseOrdersFromAlerts();
+      return handleServiceResponse(response, 'purchase order drafts');
+    },
+    onSuccess: ({ orders, unassignedItemIds }) => {
+      invalidatePurchasing();
+      if (orders.length === 0 && unassignedItemIds.length === 0) {
+        toast.success('Nothing needs reordering');
+        return;
+      }
+      toast.success(`${orders.length} purchase order(s) drafted`);
+      if (unassignedItemIds.length > 0) {
+        toast.error(`${unassignedItemIds.length} item(s) need reordering but have no supplier`);
+      }
+    },
+    onError: (error: AppError) => {
+      toast.error(`Error drafting purchase orders: ${formatErrorMessage(error)}`);
+    }
+  });
+
+  const submitOrderMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await purchasingService.submitPurchaseOrder(id);
+      return handleServiceResponse(response, 'purchase order');
+    },
+    onSuccess: (order) => {
+      invalidatePurchasing();
+      toast.success(`Purchase order ${order.orderNumber} sent`);
+    },
+    onError: (error: AppError) => {
+      toast.error(`Error sending purchase order: ${formatErrorMessage(error)}`);
+    }
+  });
+
+  const cancelOrderMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await purchasingService.cancelPurchaseOrder(id);
+      return handleServiceResponse(response, 'purchase order');
+    },
+    onSuccess: (order) => {
+      invalidatePurchasing();
+      toast.success(`Purchase order ${order.orderNumber} cancelled`);
+    },
+    onError: (error: AppError) => {
+      toast.error(`Error cancelling purchase order: ${formatErrorMessage(error)}`);
+    }
+  });
+
+  const receiveOrderMutation = useMutation({
+    mutationFn: async ({ id, receipt }: { id: string, receipt: ReceivePurchaseOrderRequest }) => {
+      const response = await purchasingService.receivePurchaseOrder(id, receipt);
+      return handleServiceResponse(response, 'delivery');
+    },
+    onSuccess: ({ purchaseOrder, stockTransactions }) => {
+      invalidatePurchasing();
+      queryClient.invalidateQueries({ queryKey: ['inventory_items'] });
+      queryClient.invalidateQueries({ queryKey: ['inventory_transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['financial_transactions'] });
+      toast.success(`${stockTransactions.length} line(s) received against ${purchaseOrder.orderNumber}`);
+    },
+    onError: (error: AppError) => {
+      toast.error(`Error receiving delivery: ${formatErrorMessage(error)}`);
+    }
+  });
+
+  return {
+    orders: ordersQuery.data || [],
+    isLoading: ordersQuery.isLoading,
+    isError: ordersQuery.isError,
+    error: ordersQuery.error as AppError,
+    createOrder: createOrderMutation.mutate,
+    draftFromAlerts: draftFromAlertsMutation.mutate,
+    submitOrder: submitOrderMutation.mutate,
+    cancelOrder: cancelOrderMutation.mutate,
+    receiveOrder: receiveOrderMutation.mutate,
+    isCreating: createOrderMutation.isPending,
+    isDrafting: draftFromAlertsMutation.isPending,
+    isSubmitting: submitOrderMutation.isPending,
+    isCancelling: cancelOrderMutation.isPending,
+    isReceiving: receiveOrderMutation.isPending,
+    refetch: ordersQuery.refetch
+  };
+}
+
+// On-hand vs. on-order hook
+export function useStockPositions() {
+  const positionsQuery = useQuery({
+    queryKey: ['stock_positions'],
+    queryFn: async () => {
+      const response = await purchasingService.getStockPositions();
+      return handleServiceResponse(response, 'stock positions');
+    },
+    staleTime: STALE_TIMES.SHORT,
+    cacheTime: CACHE_TIMES.SHORT,
+  });
+
+  return {
+    positions: positionsQuery.data || [],
+    isLoading: positionsQuery.isLoading,
+    isError: positionsQuery.isError,
+    error: positionsQuery.error as AppError,
+    refetch: positionsQuery.refetch
+  };
+}
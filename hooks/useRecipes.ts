@@ -0,0 +1,126 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { recipeService } from '../lib/api/services/recipeService';
+import type {
+  CreateRecipeRequest,
+  UpdateRecipeRequest,
+  RecordSaleRequest,
+  ImportSquareSalesRequest,
+  SaleDepletion
+} from '../lib/api/schemas/recipeSchemas';
+import { toast } from 'react-hot-toast';
+import {
+  handleServiceResponse,
+  AppError,
+  formatErrorMessage,
+  updateCacheList,
+  CACHE_TIMES,
+  STALE_TIMES
+} from './useErrorHandling';
+
+// Components that could not be taken out of stock need a manual adjustment
+const warnAboutFailures = (depletions: SaleDepletion[]) => {
+  const failures = depletions.reduce((count, depletion) => count + depletion.failures.length, 0);
+  if (failures > 0) {
+    toast.error(`${failures} component(s) could not be taken out of stock, adjust them manually`);
+  }
+};
+
+export function useRecipes() {
+  const queryClient = useQueryClient();
+
+  // Sales move stock, so every view of it is stale afterwards
+  const invalidateStock = () => {
+    queryClient.invalidateQueries({ queryKey: ['inventory_items'] });
+    queryClient.invalidateQueries({ queryKey: ['inventory_transactions'] });
+    queryClient.invalidateQueries({ queryKey: ['stock_positions'] });
+  };
+
+  const recipesQuery = useQuery({
+    queryKey: ['recipes'],
+    queryFn: async () => {
+      const response = await recipeService.getRecipes();
+      return handleServiceResponse(response, 'recipes');
+    },
+    staleTime: STALE_TIMES.MEDIUM,
+    cacheTime: CACHE_TIMES.MEDIUM,
+  });
+
+  const createRecipeMutation = useMutation({
+    mutationFn: async (recipeData: CreateRecipeRequest) => {
+      const response = await recipeService.createRecipe(recipeData);
+      return handleServiceResponse(response, 'recipe');
+    },
+    onSuccess: (newRecipe) => {
+      queryClient.invalidateQueries({ queryKey: ['recipes'] });
+      updateCacheList(queryClient, ['recipes'], newRecipe, 'add');
+      toast.success('Recipe added successfully!');
+    },
+    onError: (error: AppError) => {
+      toast.error(`Error adding recipe: ${formatErrorMessage(error)}`);
+    }
+  });
+
+  const updateRecipeMutation = useMutation({
+    mutationFn: async ({ id, updates, expectedUpdatedAt }: { id: string, updates: Omit<UpdateRecipeRequest, 'id'>, expectedUpdatedAt: string }) => {
+      const response = await recipeService.updateRecipe(id, updates, expectedUpdatedAt);
+      return handleServiceResponse(response, 'recipe');
+    },
+    onSuccess: (updatedRecipe) => {
+      queryClient.invalidateQueries({ queryKey: ['recipes'] });
+      updateCacheList(queryClient, ['recipes'], updatedRecipe, 'update');
+      toast.success('Recipe updated successfully!');
+    },
+    onError: (error: AppError) => {
+      toast.error(`Error updating recipe: ${formatErrorMessage(error)}`);
+    }
+  });
+
+  const recordSaleMutation = useMutation({
+    mutationFn: async (saleData: RecordSaleRequest) => {
+      const response = await recipeService.recordSale(saleData);
+      return handleServiceResponse(response, 'sale');
+    },
+    onSuccess: (depletion) => {
+      invalidateStock();
+      toast.success(`Sale recorded, ${depletion.transactions.length} component(s) taken out of stock`);
+      warnAboutFailures([depletion]);
+    },
+    onError: (error: AppError) => {
+      toast.error(`Error recording sale: ${formatErrorMessage(error)}`);
+    }
+  });
+
+  const importSquareSalesMutation = useMutation({
+    mutationFn: async (importData: ImportSquareSalesRequest) => {
+      const response = await recipeService.importSquareSales(importData);
+      return handleServiceResponse(response, 'Square sales');
+    },
+    onSuccess: ({ sales, duplicates, unmatched }) => {
+      invalidateStock();
+      toast.success(`${sales.length} Square sale(s) imported${duplicates.length > 0 ? `, ${duplicates.length} already imported` : ''}`);
+      if (unmatched.length > 0) {
+        toast.error(`No recipe for: ${[...new Set(unmatched)].join(', ')}`);
+      }
+      warnAboutFailures(sales);
+    },
+    onError: (error: AppError) => {
+      toast.error(`Error importing Square sales: ${formatErrorMessage(error)}`);
+    }
+  });
+
+  return {
+    recipes: recipesQuery.data || [],
+    isLoading: recipesQuery.isLoading,
+    isError: recipesQuery.isError,
+    error: recipesQuery.error as AppError,
+    createRecipe: createRecipeMutation.mutate,
+    updateRecipe: updateRecipeMutation.mutate,
+    recordSale: recordSaleMutation.mutate,
+    importSquareSales: importSquareSalesMutation.mutate,
+    isCreating: createRecipeMutation.isPending,
+    isUpdating: updateRecipeMutation.isPending,
+    isRecordingSale: recordSaleMutation.isPending,
+    isImporting: importSquareSalesMutation.isPending,
+    refetch: recipesQuery.refetch
+  };
+}
@@ -0,0 +1,479 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { staffService } from '../lib/api/services/staffService';
+import type {
+  CreateShiftTemplateRequest,
+  ApplyShiftTemplateRequest,
+  CreateEventShiftsRequest,
+  AvailabilityEntry,
+  CreateTimeOffRequest,
+  CreateOpenShiftRequest,
+  ReviewRequest,
+  PayrollPeriodRequest,
+  PostPayrollRequest,
+  TipPoolRequest,
+  ShiftTemplate,
+  EventStaffingPlan,
+  ShiftClaim,
+  TimeOffRequest,
+  StaffAvailability,
+  Schedule,
+  PayrollRun,
+  PostedPayroll,
+  TipPool
+} from '../lib/api/schemas/staffSchemas';
+import { toast } from 'react-hot-toast';
+import {
+  handleServiceResponse,
+  AppError,
+  formatErrorMessage,
+  CACHE_TIMES,
+  STALE_TIMES
+} from './useErrorHandling';
+
+// Lists that show shifts
+const SHIFT_QUERY_KEYS = [['shifts'], ['staff_schedules'], ['open_shifts']];
+
+// Weekly rota templates hook
+export function useShiftTemplates() {
+  const queryClient = useQueryClient();
+
+  const invalidateShifts = () => {
+    SHIFT_QUERY_KEYS.forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
+  };
+
+  const templatesQuery = useQuery<ShiftTemplate[], AppError>({
+    queryKey: ['shift_templates'],
+    queryFn: async () => {
+      const response = await staffService.getShiftTemplates();
+      return handleServiceResponse(response, 'rota templates');
+    },
+    staleTime: STALE_TIMES.LONG,
+    gcTime: CACHE_TIMES.LONG,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (template: CreateShiftTemplateRequest) => {
+      const response = await staffService.createShiftTemplate(template);
+      return handleServiceResponse(response, 'rota template');
+    },
+    onSuccess: (template) => {
+      queryClient.invalidateQueries({ queryKey: ['shift_templates'] });
+      toast.success(`Template "${template.name}" saved`);
+    },
+    onError: (error: AppError) => {
+      toast.error(`Error saving template: ${formatErrorMessage(error)}`);
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await staffService.deleteShiftTemplate(id);
+      return handleServiceResponse(response, 'rota template');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shift_templates'] });
+      toast.success('Template deleted');
+    },
+    onError: (error: AppError) => {
+      toast.error(`Error deleting template: ${formatErrorMessage(error)}`);
+    }
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async (request: ApplyShiftTemplateRequest) => {
+      const response = await staffService.applyShiftTemplate(request);
+      return handleServiceResponse(response, 'rota template');
+    },
+    onSuccess: ({ created, skipped, unfilled }) => {
+      invalidateShifts();
+      const open = unfilled.reduce((sum, slot) => sum + slot.missing, 0);
+      toast.success(`${created.length} shift(s) created${open > 0 ? `, ${open} still to fill` : ''}`);
+      if (skipped.length > 0) {
+        toast.error(`${skipped.length} shift(s) skipped because they clash with existing shifts or time off`);
+      }
+    },
+    onError: (error: AppError) => {
+      toast.error(`Error applying template: ${formatErrorMessage(error)}`);
+    }
+  });
+
+  return {
+    templates: templatesQuery.data || [],
+    isLoading: templatesQuery.isLoading,
+    isError: templatesQuery.isError,
+    error: templatesQuery.error as AppError,
+    createTemplate: createMutation.mutateAsync,
+    deleteTemplate: deleteMutation.mutate,
+    applyTemplate: applyMutation.mutateAsync,
+    isCreating: createMutation.isPending,
+    isApplying: applyMutation.isPending,
+    refetch: templatesQuery.refetch
+  };
+}
+
+// Staffing plan for an event, and creating its shifts
+export function useEventStaffing(eventId: string | null) {
+  const queryClient = useQueryClient();
+
+  const planQuery = useQuery<EventStaffingPlan, AppError>({
+    queryKey: ['event_staffing_plan', eventId],
+    queryFn: async () => {
+      const response = await staffService.planEventStaffing(eventId as string);
+      return handleServiceResponse(response, 'staffing plan');
+    },
+    enabled: !!eventId,
+    staleTime: STALE_TIMES.SHORT,
+    gcTime: CACHE_TIMES.SHORT,
+  });
+
+  const createShiftsMutation = useMutation({
+    mutationFn: async (request: CreateEventShiftsRequest) => {
+      const response = await staffService.createEventShifts(request);
+      return handleServiceResponse(response, 'event shifts');
+    },
+    onSuccess: ({ created, skipped }) => {
+      SHIFT_QUERY_KEYS.forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
+      queryClient.invalidateQueries({ queryKey: ['event_staffing_plan', eventId] });
+      toast.success(`${created.length} event shift(s) created`);
+      if (skipped.length > 0) {
+        toast.error(`${skipped.length} shift(s) skipped because they clash with existing shifts or time off`);
+      }
+    },
+    onError: (error: AppError) => {
+      toast.error(`Error creating event shifts: ${formatErrorMessage(error)}`);
+    }
+  });
+
+  return {
+    plan: planQuery.data,
+    isLoading: planQuery.isLoading,
+    isError: planQuery.isError,
+    error: planQuery.error as AppError,
+    createShifts: createShiftsMutation.mutateAsync,
+    isCreating: createShiftsMutation.isPending,
+    refetch: planQuery.refetch
+  };
+}
+
+// Manager approvals: shift claims, time off and open shifts
+export function useShiftRequests() {
+  const queryClient = useQueryClient();
+
+  const claimsQuery = useQuery<ShiftClaim[], AppError>({
+    queryKey: ['shift_claims', 'pending'],
+    queryFn: async () => {
+      const response = await staffService.getShiftClaims({ status: 'pending' });
+      return handleServiceResponse(response, 'shift claims');
+    },
+    staleTime: STALE_TIMES.SHORT,
+    gcTime: CACHE_TIMES.SHORT,
+  });
+
+  const timeOffQuery = useQuery<TimeOffRequest[], AppError>({
+    queryKey: ['time_off_requests', 'pending'],
+    queryFn: async () => {
+      const response = await staffService.getTimeOffRequests({ status: 'pending' });
+      return handleServiceResponse(response, 'time off requests');
+    },
+    staleTime: STALE_TIMES.SHORT,
+    gcTime: CACHE_TIMES.SHORT,
+  });
+
+  const reviewClaimMutation = useMutation({
+    mutationFn: async ({ id, review }: { id: string; review: ReviewRequest }) => {
+      const response = await staffService.reviewShiftClaim(id, review);
+      return handleServiceResponse(response, 'shift claim');
+    },
+    onSuccess: (claim) => {
+      queryClient.invalidateQueries({ queryKey: ['shift_claims'] });
+      SHIFT_QUERY_KEYS.forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
+      toast.success(claim.status === 'approved' ? 'Shift reassigned' : 'Claim declined');
+    },
+    onError: (error: AppError) => {
+      toast.error(`Error reviewing claim: ${formatErrorMessage(error)}`);
+    }
+  });
+
+  const reviewTimeOffMutation = useMutation({
+    mutationFn: async ({ id, review }: { id: string; review: ReviewRequest }) => {
+      const response = await staffService.reviewTimeOff(id, review);
+      return handleServiceResponse(response, 'time off request');
+    },
+    onSuccess: (request) => {
+      queryClient.invalidateQueries({ queryKey: ['time_off_requests'] });
+      toast.success(`Time off ${request.status}`);
+    },
+    onError: (error: AppError) => {
+      toast.error(`Error reviewing time off: ${formatErrorMessage(error)}`);
+    }
+  });
+
+  const createOpenShiftMutation = useMutation({
+    mutationFn: async (shift: CreateOpenShiftRequest) => {
+      const response = await staffService.createOpenShift(shift);
+      return handleServiceResponse(response, 'open shift');
+    },
+    onSuccess: () => {
+      SHIFT_QUERY_KEYS.forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
+      toast.success('Open shift posted');
+    },
+    onError: (error: AppError) => {
+      toast.error(`Error posting open shift: ${formatErrorMessage(error)}`);
+    }
+  });
+
+  return {
+    claims: claimsQuery.data || [],
+    timeOffRequests: timeOffQuery.data || [],
+    isLoading: claimsQuery.isLoading || timeOffQuery.isLoading,
+    isError: claimsQuery.isError || timeOffQuery.isError,
+    error: (claimsQuery.error || timeOffQuery.error) as AppError,
+    reviewClaim: reviewClaimMutation.mutate,
+    reviewTimeOff: reviewTimeOffMutation.mutate,
+    createOpenShift: createOpenShiftMutation.mutateAsync,
+    isReviewing: reviewClaimMutation.isPending || reviewTimeOffMutation.isPending,
+    isCreatingOpenShift: createOpenShiftMutation.isPending,
+    refetch: () => Promise.all([claimsQuery.refetch(), timeOffQuery.refetch()])
+  };
+}
+
+// A staff member's availability, time off, swaps and claims
+export function useStaffAvailability(staffId: string | null) {
+  const queryClient = useQueryClient();
+
+  const availabilityQuery = useQuery<StaffAvailability[], AppError>({
+    queryKey: ['staff_availability', staffId],
+    queryFn: async () => {
+      const response = await staffService.getAvailability(staffId as string);
+      return handleServiceResponse(response, 'availability');
+    },
+    enabled: !!staffId,
+    staleTime: STALE_TIMES.LONG,
+    gcTime: CACHE_TIMES.LONG,
+  });
+
+  const shiftsQuery = useQuery<Schedule[], AppError>({
+    queryKey: ['staff_schedules', staffId, 'upcoming'],
+    queryFn: async () => {
+      const response = await staffService.getStaffSchedules(staffId as string, new Date().toISOString());
+      return handleServiceResponse(response, 'shifts');
+    },
+    enabled: !!staffId,
+    staleTime: STALE_TIMES.SHORT,
+    gcTime: CACHE_TIMES.SHORT,
+  });
+
+  const openShiftsQuery = useQuery<Schedule[], AppError>({
+    queryKey: ['open_shifts'],
+    queryFn: async () => {
+      const response = await staffService.getOpenShifts();
+      return handleServiceResponse(response, 'open shifts');
+    },
+    staleTime: STALE_TIMES.SHORT,
+    gcTime: CACHE_TIMES.SHORT,
+  });
+
+  const setAvailabilityMutation = useMutation({
+    mutationFn: async (entries: AvailabilityEntry[]) => {
+      const response = await staffService.setAvailability({ staffId: staffId as string, entries });
+      return handleServiceResponse(response, 'availability');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['staff_availability', staffId] });
+      toast.success('Availability saved');
+    },
+    onError: (error: AppError) => {
+      toast.error(`Error saving availability: ${formatErrorMessage(error)}`);
+    }
+  });
+
+  const timeOffMutation = useMutation({
+    mutationFn: async (request: Omit<CreateTimeOffRequest, 'staffId'>) => {
+      const response = await staffService.requestTimeOff({ ...request, staffId: staffId as string });
+      return handleServiceResponse(response, 'time off request');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['time_off_requests'] });
+      toast.success('Time off requested');
+    },
+    onError: (error: AppError) => {
+      toast.error(`Error requesting time off: ${formatErrorMessage(error)}`);
+    }
+  });
+
+  const swapMutation = useMutation({
+    mutationFn: async ({ scheduleId, offer }: { scheduleId: string; offer: boolean }) => {
+      const request = { scheduleId };
+      const response = offer ? await staffService.postShiftForSwap(request) : await staffService.withdrawShiftSwap(request);
+      return handleServiceResponse(response, 'shift swap');
+    },
+    onSuccess: (schedule) => {
+      SHIFT_QUERY_KEYS.forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
+      toast.success(schedule.status === 'swap_requested' ? 'Shift offered for swap' : 'Swap offer withdrawn');
+    },
+    onError: (error: AppError) => {
+      toast.error(`Error updating swap: ${formatErrorMessage(error)}`);
+    }
+  });
+
+  const claimMutation = useMutation({
+    mutationFn: async (scheduleId: string) => {
+      const response = await staffService.claimShift({ scheduleId });
+      return handleServiceResponse(response, 'shift claim');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shift_claims'] });
+      toast.success('Claim sent for approval');
+    },
+    onError: (error: AppError) => {
+      toast.error(`Error claiming shift: ${formatErrorMessage(error)}`);
+    }
+  });
+
+  return {
+    availability: availabilityQuery.data || [],
+    shifts: shiftsQuery.data || [],
+    openShifts: openShiftsQuery.data || [],
+    isLoading: availabilityQuery.isLoading || shiftsQuery.isLoading,
+    isError: availabilityQuery.isError || shiftsQuery.isError || openShiftsQuery.isError,
+    error: (availabilityQuery.error || shiftsQuery.error || openShiftsQuery.error) as AppError,
+    setAvailability: setAvailabilityMutation.mutateAsync,
+    requestTimeOff: timeOffMutation.mutateAsync,
+    setSwap: swapMutation.mutate,
+    claimShift: claimMutation.mutate,
+    isSaving: setAvailabilityMutation.isPending,
+    isRequestingTimeOff: timeOffMutation.isPending,
+    refetch: () => Promise.all([availabilityQuery.refetch(), shiftsQuery.refetch(), openShiftsQuery.refetch()])
+  };
+}
+
+// Pay-period payroll preview, export and posting
+export function usePayroll(period: PayrollPeriodRequest | null) {
+  const queryClient = useQueryClient();
+
+  const payrollQuery = useQuery<PayrollRun, AppError>({
+    queryKey: ['payroll', period],
+    queryFn: async () => {
+      const response = await staffService.getPayroll(period as PayrollPeriodRequest);
+      return handleServiceResponse(response, 'payroll');
+    },
+    enabled: !!period,
+    staleTime: STALE_TIMES.SHORT,
+    gcTime: CACHE_TIMES.SHORT,
+  });
+
+  const runsQuery = useQuery<PostedPayroll[], AppError>({
+    queryKey: ['payroll_runs'],
+    queryFn: async () => {
+      const response = await staffService.getPostedPayrolls();
+      return handleServiceResponse(response, 'payroll runs');
+    },
+    staleTime: STALE_TIMES.LONG,
+    gcTime: CACHE_TIMES.LONG,
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const response = await staffService.exportPayroll(period as PayrollPeriodRequest);
+      return handleServiceResponse(response, 'payroll export');
+    },
+    onSuccess: ({ filename, contentType, content }) => {
+      const blob = new Blob([content], { type: contentType });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    },
+    onError: (error: AppError) => {
+      toast.error(`Error exporting payroll: ${formatErrorMessage(error)}`);
+    }
+  });
+
+  const postMutation = useMutation({
+    mutationFn: async (ledger: Pick<PostPayrollRequest, 'accountId' | 'categoryId'>) => {
+      const response = await staffService.postPayroll({ ...(period as PayrollPeriodRequest), ...ledger });
+      return handleServiceResponse(response, 'payroll');
+    },
+    onSuccess: (run) => {
+      queryClient.invalidateQueries({ queryKey: ['payroll_runs'] });
+      queryClient.invalidateQueries({ queryKey: ['financial_transactions'] });
+      toast.success(`Payroll of $${run.grossPay.toLocaleString()} posted`);
+    },
+    onError: (error: AppError) => {
+      toast.error(`Error posting payroll: ${formatErrorMessage(error)}`);
+    }
+  });
+
+  return {
+    payroll: payrollQuery.data,
+    postedRuns: runsQuery.data || [],
+    isLoading: payrollQuery.isLoading && !!period,
+    isError: payrollQuery.isError || runsQuery.isError,
+    error: (payrollQuery.error || runsQuery.error) as AppError,
+    exportPayroll: exportMutation.mutate,
+    postPayroll: postMutation.mutateAsync,
+    isExporting: exportMutation.isPending,
+    isPosting: postMutation.isPending,
+    refetch: () => Promise.all([payrollQuery.refetch(), runsQuery.refetch()])
+  };
+}
+
+// Tip pools: preview a shift's split, then record the payouts
+export function useTipPools() {
+  const queryClient = useQueryClient();
+
+  const poolsQuery = useQuery<TipPool[], AppError>({
+    queryKey: ['tip_pools'],
+    queryFn: async () => {
+      const response = await staffService.getTipPools();
+      return handleServiceResponse(response, 'tip pools');
+    },
+    staleTime: STALE_TIMES.MEDIUM,
+    gcTime: CACHE_TIMES.MEDIUM,
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async (pool: TipPoolRequest) => {
+      const response = await staffService.previewTipPool(pool);
+      return handleServiceResponse(response, 'tip split');
+    },
+    onError: (error: AppError) => {
+      toast.error(`Error working out tips: ${formatErrorMessage(error)}`);
+    }
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (pool: TipPoolRequest) => {
+      const response = await staffService.createTipPool(pool);
+      return handleServiceResponse(response, 'tip pool');
+    },
+    onSuccess: (pool) => {
+      queryClient.invalidateQueries({ queryKey: ['tip_pools'] });
+      queryClient.invalidateQueries({ queryKey: ['payroll'] });
+      queryClient.invalidateQueries({ queryKey: ['staff'] });
+      previewMutation.reset();
+      toast.success(`$${pool.totalTips.toLocaleString()} in tips shared between ${pool.payouts.length} staff`);
+    },
+    onError: (error: AppError) => {
+      toast.error(`Error sharing tips: ${formatErrorMessage(error)}`);
+    }
+  });
+
+  return {
+    pools: poolsQuery.data || [],
+    preview: previewMutation.data,
+    isLoading: poolsQuery.isLoading,
+    isError: poolsQuery.isError,
+    error: poolsQuery.error as AppError,
+    previewTips: previewMutation.mutate,
+    createTipPool: createMutation.mutateAsync,
+    clearPreview: previewMutation.reset,
+    isPreviewing: previewMutation.isPending,
+    isCreating: createMutation.isPending,
+    refetch: poolsQuery.refetch
+  };
+}
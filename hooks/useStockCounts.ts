@@ -0,0 +1,132 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { stockCountService } from '../lib/api/services/stockCountService';
+import type {
+  StartStockCountRequest,
+  RecordCountsRequest,
+  CommitStockCountRequest,
+  StockCountQueryRequest,
+  ShrinkageQuery
+} from '../lib/api/schemas/stockCountSchemas';
+import { toast } from 'react-hot-toast';
+import {
+  handleServiceResponse,
+  AppError,
+  formatErrorMessage,
+  CACHE_TIMES,
+  STALE_TIMES
+} from './useErrorHandling';
+
+// Stock counts hook
+export function useStockCounts(query?: Partial<StockCountQueryRequest>) {
+  const queryClient = useQueryClient();
+
+  const countsQuery = useQuery({
+    queryKey: ['stock_counts', query],
+    queryFn: async () => {
+      const response = await stockCountService.getStockCounts(query);
+      return handleServiceResponse(response, 'stock counts');
+    },
+    staleTime: STALE_TIMES.SHORT,
+    cacheTime: CACHE_TIMES.SHORT,
+  });
+
+  const startCountMutation = useMutation({
+    mutationFn: async (countData: StartStockCountRequest) => {
+      const response = await stockCountService.startStockCount(countData);
+      return handleServiceResponse(response, 'stock count');
+    },
+    onSuccess: (stockCount) => {
+      queryClient.invalidateQueries({ queryKey: ['stock_counts'] });
+      toast.success(`${stockCount.name} started with ${stockCount.lines.length} item(s) to count`);
+    },
+    onError: (error: AppError) => {
+      toast.error(`Error starting stock count: ${formatErrorMessage(error)}`);
+    }
+  });
+
+  const recordCountsMutation = useMutation({
+    mutationFn: async ({ id, counts }: { id: string, counts: RecordCountsRequest }) => {
+      const response = await stockCountService.recordCounts(id, counts);
+      return handleServiceResponse(response, 'stock count');
+    },
+    onSuccess: (stockCount) => {
+      queryClient.invalidateQueries({ queryKey: ['stock_counts'] });
+      toast.success(`Counts saved: ${stockCount.countedItems} of ${stockCount.lines.length} item(s) counted`);
+    },
+    onError: (error: AppError) => {
+      toast.error(`Error saving counts: ${formatErrorMessage(error)}`);
+    }
+  });
+
+  const commitCountMutation = useMutation({
+    mutationFn: async ({ id, commit }: { id: string, commit?: CommitStockCountRequest }) => {
+      const response = await stockCountService.commitStockCount(id, commit);
+      return handleServiceResponse(response, 'stock count');
+    },
+    onSuccess: ({ stockCount, transactions, failures }) => {
+      queryClient.invalidateQueries({ queryKey: ['stock_counts'] });
+      queryClient.invalidateQueries({ queryKey: ['inventory_items'] });
+      queryClient.invalidateQueries({ queryKey: ['inventory_transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['shrinkage_report'] });
+      toast.success(`${stockCount.name} committed: ${transactions.length} item(s) adjusted`);
+      if (failures.length > 0) {
+        toast.error(`${failures.length} item(s) could not be adjusted`);
+      }
+    },
+    onError: (error: AppError) => {
+      toast.error(`Error committing stock count: ${formatErrorMessage(error)}`);
+    }
+  });
+
+  const cancelCountMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await stockCountService.cancelStockCount(id);
+      return handleServiceResponse(response, 'stock count');
+    },
+    onSuccess: (stockCount) => {
+      queryClient.invalidateQueries({ queryKey: ['stock_counts'] });
+      toast.success(`${stockCount.name} cancelled`);
+    },
+    onError: (error: AppError) => {
+      toast.error(`Error cancelling stock count: ${formatErrorMessage(error)}`);
+    }
+  });
+
+  return {
+    stockCounts: countsQuery.data || [],
+    isLoading: countsQuery.isLoading,
+    isError: countsQuery.isError,
+    error: countsQuery.error as AppError,
+    startCount: startCountMutation.mutate,
+    recordCounts: recordCountsMutation.mutate,
+    commitCount: commitCountMutation.mutate,
+    cancelCount: cancelCountMutation.mutate,
+    isStarting: startCountMutation.isPending,
+    isRecording: recordCountsMutation.isPending,
+    isCommitting: commitCountMutation.isPending,
+    isCancelling: cancelCountMutation.isPending,
+    refetch: countsQuery.refetch
+  };
+}
+
+// Shrinkage and waste hook
+export function useShrinkageReport(query: ShrinkageQuery) {
+  const reportQuery = useQuery({
+    queryKey: ['shrinkage_report', query],
+    queryFn: async () => {
+      const response = await stockCountService.getShrinkageReport(query);
+      return handleServiceResponse(response, 'shrinkage report');
+    },
+    enabled: !!query.dateFrom && !!query.dateTo,
+    staleTime: STALE_TIMES.SHORT,
+    cacheTime: CACHE_TIMES.SHORT,
+  });
+
+  return {
+    report: reportQuery.data,
+    isLoading: reportQuery.isLoading,
+    isError: reportQuery.isError,
+    error: reportQuery.error as AppError,
+    refetch: reportQuery.refetch
+  };
+}
@@ -0,0 +1,160 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'react-hot-toast';
+import { eventsService } from '../lib/api/services/eventsService';
+import type { GuestListEntry, TicketScanRequest, TicketScanResult } from '../lib/api/schemas/eventSchemas';
+
+const guestListKey = (eventId: string) => `ticket-scanner:guest-list:${eventId}`;
+const pendingScansKey = (eventId: string) => `ticket-scanner:pending-scans:${eventId}`;
+const DEVICE_ID_KEY = 'ticket-scanner:device-id';
+
+const readStorage = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) as T : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const getDeviceId = () => {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+};
+
+/**
+ * Door scanner that keeps working offline. Codes are checked against a cached
+ * guest list; scans are queued locally and replayed to the server when the
+ * connection returns.
+ */
+export function useTicketScanner(eventId: string) {
+  const [guestList, setGuestList] = useState<GuestListEntry[]>(() => readStorage(guestListKey(eventId), []));
+  const [pendingScans, setPendingScans] = useState<TicketScanRequest[]>(() => readStorage(pendingScansKey(eventId), []));
+  const [recentScans, setRecentScans] = useState<TicketScanResult[]>([]);
+  const [isOnline, setIsOnline] = useState(typeof navigator !== 'undefined' ? navigator.onLine : true);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  // Persist the cache so a reload while offline keeps the guest list and queue
+  useEffect(() => {
+    localStorage.setItem(guestListKey(eventId), JSON.stringify(guestList));
+  }, [eventId, guestList]);
+
+  useEffect(() => {
+    localStorage.setItem(pendingScansKey(eventId), JSON.stringify(pendingScans));
+  }, [eventId, pendingScans]);
+
+  useEffect(() => {
+    const handleOnlineStatusChange = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', handleOnlineStatusChange);
+    window.addEventListener('offline', handleOnlineStatusChange);
+    return () => {
+      window.removeEventListener('online', handleOnlineStatusChange);
+      window.removeEventListener('offline', handleOnlineStatusChange);
+    };
+  }, []);
+
+  const downloadGuestList = useCallback(async () => {
+    setIsDownloading(true);
+    try {
+      const response = await eventsService.getGuestList(eventId);
+      if (response.success) {
+        setGuestList(response.data);
+        toast.success(`Guest list cached (${response.data.length} tickets)`);
+      } else {
+        toast.error(`Error downloading guest list: ${response.error?.detail || 'Unknown error'}`);
+      }
+    } finally {
+      setIsDownloading(false);
+    }
+  }, [eventId]);
+
+  const syncScans = useCallback(async () => {
+    if (pendingScans.length === 0 || isSyncing) return;
+
+    setIsSyncing(true);
+    try {
+      // Scans queued before codes were checked against the event carry no eventId
+      const response = await eventsService.syncTicketScans(pendingScans.map(scan => ({ ...scan, eventId })));
+      if (!response.success) {
+        toast.error(`Error syncing scans: ${response.error?.detail || 'Unknown error'}`);
+        return;
+      }
+
+      // The server decides which offline scan of a ticket was first
+      const conflicts = response.data.filter(result => result.result !== 'admitted');
+      const synced = new Set(pendingScans.map(scan => `${scan.code}|${scan.scannedAt}`));
+      setPendingScans(prev => prev.filter(scan => !synced.has(`${scan.code}|${scan.scannedAt}`)));
+      if (conflicts.length > 0) {
+        toast.error(`${conflicts.length} offline scan(s) were duplicates or invalid`);
+      } else {
+        toast.success(`${response.data.length} scan(s) synced`);
+      }
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [eventId, pendingScans, isSyncing]);
+
+  // Replay the queue as soon as the connection comes back
+  useEffect(() => {
+    if (isOnline && pendingScans.length > 0) {
+      syncScans();
+    }
+  }, [isOnline, pendingScans.length, syncScans]);
+
+  const scan = useCallback((rawCode: string): TicketScanResult => {
+    const code = rawCode.trim();
+    const scannedAt = new Date().toISOString();
+    const guest = guestList.find(entry => entry.code === code);
+
+    let result: TicketScanResult;
+    if (!guest) {
+      result = { code, result: 'invalid', reason: 'Not on the guest list', scannedAt };
+    } else if (guest.status === 'refunded' || guest.status === 'cancelled') {
+      result = { code, ticketId: guest.ticketId, result: 'invalid', reason: `Ticket has been ${guest.status}`, scannedAt };
+    } else if (guest.status === 'used') {
+      result = {
+        code,
+        ticketId: guest.ticketId,
+        result: 'duplicate',
+        reason: 'Ticket has already been scanned',
+        scannedAt,
+        firstScannedAt: guest.scannedAt,
+        purchaserName: guest.purchaserName,
+        type: guest.type
+      };
+    } else {
+      result = {
+        code,
+        ticketId: guest.ticketId,
+        result: 'admitted',
+        scannedAt,
+        purchaserName: guest.purchaserName,
+        type: guest.type
+      };
+      setGuestList(prev => prev.map(entry =>
+        entry.ticketId === guest.ticketId ? { ...entry, status: 'used', scannedAt } : entry
+      ));
+      setPendingScans(prev => [...prev, { code, eventId, scannedAt, deviceId: getDeviceId() }]);
+    }
+
+    setRecentScans(prev => [result, ...prev].slice(0, 20));
+    return result;
+  }, [eventId, guestList]);
+
+  return {
+    guestList,
+    recentScans,
+    pendingCount: pendingScans.length,
+    admittedCount: guestList.filter(entry => entry.status === 'used').length,
+    isOnline,
+    isDownloading,
+    isSyncing,
+    downloadGuestList,
+    syncScans,
+    scan
+  };
+}
@@ -1,7 +1,23 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { ticketingApi } from '../lib/supabase';
+import { eventsService } from '../lib/api/services/eventsService';
 import { toast } from 'react-hot-toast';
 import type { Ticket } from '../types';
+import type {
+  CreateTicketHoldRequest,
+  ConvertTicketHoldRequest,
+  RefundTicketsRequest,
+  ExchangeTicketRequest
+} from '../lib/api/schemas/eventSchemas';
+import type { ApiResponse } from '../lib/api/types';
+
+// Unwrap a service response for React Query, throwing the problem detail on failure
+const handleServiceResponse = <T>(response: ApiResponse<T>) => {
+  if (!response.success) {
+    throw new Error(response.error?.detail || 'Operation failed');
+  }
+  return response.data;
+};
 
 export function useTickets(eventId?: string) {
   const queryClient = useQueryClient();
@@ -60,6 +76,42 @@ export function useTickets(eventId?: string) {
     }
   });
 
+  const refundTicketsMutation = useMutation({
+    mutationFn: async ({ eventId, refund }: { eventId: string, refund: RefundTicketsRequest }) => {
+      const response = await eventsService.refundTickets(eventId, refund);
+      return handleServiceResponse(response);
+    },
+    onSuccess: ({ tickets, refundedAmount }) => {
+      queryClient.invalidateQueries({ queryKey: ['tickets'] });
+      queryClient.invalidateQueries({ queryKey: ['events'] });
+      queryClient.invalidateQueries({ queryKey: ['financial_transactions'] });
+      toast.success(`${tickets.length} ticket(s) refunded ($${refundedAmount.toFixed(2)})`);
+    },
+    onError: (error: Error) => {
+      toast.error(`Error refunding tickets: ${error.message}`);
+    }
+  });
+
+  const exchangeTicketMutation = useMutation({
+    mutationFn: async ({ id, exchange }: { id: string, exchange: ExchangeTicketRequest }) => {
+      const response = await eventsService.exchangeTicket(id, exchange);
+      return handleServiceResponse(response);
+    },
+    onSuccess: ({ priceDifference }) => {
+      queryClient.invalidateQueries({ queryKey: ['tickets'] });
+      queryClient.invalidateQueries({ queryKey: ['events'] });
+      queryClient.invalidateQueries({ queryKey: ['financial_transactions'] });
+      toast.success(
+        priceDifference > 0 ? `Ticket exchanged, $${priceDifference.toFixed(2)} to collect` :
+        priceDifference < 0 ? `Ticket exchanged, $${Math.abs(priceDifference).toFixed(2)} refunded` :
+        'Ticket exchanged'
+      );
+    },
+    onError: (error: Error) => {
+      toast.error(`Error exchanging ticket: ${error.message}`);
+    }
+  });
+
   return {
     tickets: ticketsQuery.data || [],
     isLoading: ticketsQuery.isLoading,
@@ -69,10 +121,14 @@ export function useTickets(eventId?: string) {
     updateTicket: updateTicketMutation.mutate,
     scanTicket: scanTicketMutation.mutate,
     deleteTicket: deleteTicketMutation.mutate,
+    refundTickets: refundTicketsMutation.mutate,
+    exchangeTicket: exchangeTicketMutation.mutate,
     isCreating: createTicketMutation.isPending,
     isUpdating: updateTicketMutation.isPending,
     isScanning: scanTicketMutation.isPending,
-    isDeleting: deleteTicketMutation.isPending
+    isDeleting: deleteTicketMutation.isPending,
+    isRefunding: refundTicketsMutation.isPending,
+    isExchanging: exchangeTicketMutation.isPending
   };
 }
 
@@ -82,4 +138,81 @@ export function useTicket(id: string) {
     queryFn: () => ticketingApi.getTicketById(id),
     enabled: !!id
   });
-}
\ No newline at end of file
+}
+
+export function useTicketHolds(eventId?: string) {
+  const queryClient = useQueryClient();
+
+  const holdsQuery = useQuery({
+    queryKey: ['ticket_holds', eventId],
+    queryFn: async () => {
+      if (!eventId) throw new Error('Event ID is required');
+      const response = await eventsService.getTicketHolds(eventId);
+      return handleServiceResponse(response);
+    },
+    enabled: !!eventId,
+    // Poll so lapsed holds drop off and their seats show as available again
+    refetchInterval: 30 * 1000
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['ticket_holds'] });
+    queryClient.invalidateQueries({ queryKey: ['tickets'] });
+    queryClient.invalidateQueries({ queryKey: ['events'] });
+  };
+
+  const createHoldMutation = useMutation({
+    mutationFn: async (hold: CreateTicketHoldRequest) => {
+      const response = await eventsService.createTicketHold(hold);
+      return handleServiceResponse(response);
+    },
+    onSuccess: (hold) => {
+      invalidate();
+      toast.success(`${hold.quantity} ticket(s) held until ${new Date(hold.expiresAt).toLocaleTimeString()}`);
+    },
+    onError: (error: Error) => {
+      toast.error(`Error holding tickets: ${error.message}`);
+    }
+  });
+
+  const convertHoldMutation = useMutation({
+    mutationFn: async ({ id, purchase }: { id: string, purchase?: ConvertTicketHoldRequest }) => {
+      const response = await eventsService.convertTicketHold(id, purchase);
+      return handleServiceResponse(response);
+    },
+    onSuccess: ({ tickets }) => {
+      invalidate();
+      toast.success(`${tickets.length} ticket(s) issued`);
+    },
+    onError: (error: Error) => {
+      toast.error(`Error completing sale: ${error.message}`);
+    }
+  });
+
+  const releaseHoldMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await eventsService.releaseTicketHold(id);
+      return handleServiceResponse(response);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Hold released');
+    },
+    onError: (error: Error) => {
+      toast.error(`Error releasing hold: ${error.message}`);
+    }
+  });
+
+  return {
+    holds: holdsQuery.data || [],
+    isLoading: holdsQuery.isLoading,
+    isError: holdsQuery.isError,
+    error: holdsQuery.error,
+    createHold: createHoldMutation.mutate,
+    convertHold: convertHoldMutation.mutate,
+    releaseHold: releaseHoldMutation.mutate,
+    isCreating: createHoldMutation.isPending,
+    isConverting: convertHoldMutation.isPending,
+    isReleasing: releaseHoldMutation.isPending
+  };
+}
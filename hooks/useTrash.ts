@@ -0,0 +1,110 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { trashService } from '../lib/api/services/trashService';
+import type {
+  TrashQueryRequest,
+  TrashEntityType,
+  RetentionPolicyRequest
+} from '../lib/api/schemas/trashSchemas';
+import { toast } from 'react-hot-toast';
+import {
+  handleServiceResponse,
+  AppError,
+  formatErrorMessage,
+  CACHE_TIMES,
+  STALE_TIMES
+} from './useErrorHandling';
+
+// Query keys of the lists a restored record shows up in again
+const ENTITY_QUERY_KEYS: Record<TrashEntityType, string[][]> = {
+  customers: [['customers'], ['customer_interactions']],
+  inventory_items: [['inventory_items'], ['inventory_transactions']],
+  staff: [['staff'], ['shifts']],
+  financial_transactions: [['financial_transactions']]
+};
+
+// Trash bin hook
+export function useTrash(query?: Partial<TrashQueryRequest>) {
+  const queryClient = useQueryClient();
+
+  const trashQuery = useQuery({
+    queryKey: ['trash_entries', query],
+    queryFn: async () => {
+      const response = await trashService.getTrash(query);
+      return handleServiceResponse(response, 'trash');
+    },
+    staleTime: STALE_TIMES.SHORT,
+    cacheTime: CACHE_TIMES.SHORT,
+  });
+
+  const policyQuery = useQuery({
+    queryKey: ['trash_settings'],
+    queryFn: async () => {
+      const response = await trashService.getRetentionPolicy();
+      return handleServiceResponse(response, 'retention policy');
+    },
+    staleTime: STALE_TIMES.LONG,
+    cacheTime: CACHE_TIMES.LONG,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await trashService.restoreFromTrash(id);
+      return handleServiceResponse(response, 'trash entry');
+    },
+    onSuccess: (entry) => {
+      queryClient.invalidateQueries({ queryKey: ['trash_entries'] });
+      ENTITY_QUERY_KEYS[entry.entityType].forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
+      toast.success(`${entry.label} restored`);
+    },
+    onError: (error: AppError) => {
+      toast.error(`Error restoring record: ${formatErrorMessage(error)}`);
+    }
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await trashService.purgeExpired();
+      return handleServiceResponse(response, 'trash');
+    },
+    onSuccess: ({ purged, skipped, failures }) => {
+      queryClient.invalidateQueries({ queryKey: ['trash_entries'] });
+      toast.success(`${purged} record(s) permanently deleted${skipped > 0 ? `, ${skipped} already back in use` : ''}`);
+      if (failures.length > 0) {
+        toast.error(`${failures.length} record(s) could not be purged`);
+      }
+    },
+    onError: (error: AppError) => {
+      toast.error(`Error emptying trash: ${formatErrorMessage(error)}`);
+    }
+  });
+
+  const updatePolicyMutation = useMutation({
+    mutationFn: async (policy: RetentionPolicyRequest) => {
+      const response = await trashService.updateRetentionPolicy(policy);
+      return handleServiceResponse(response, 'retention policy');
+    },
+    onSuccess: (policy) => {
+      queryClient.invalidateQueries({ queryKey: ['trash_settings'] });
+      queryClient.invalidateQueries({ queryKey: ['trash_entries'] });
+      toast.success(`Deleted records are now kept for ${policy.retentionDays} day(s)`);
+    },
+    onError: (error: AppError) => {
+      toast.error(`Error saving retention policy: ${formatErrorMessage(error)}`);
+    }
+  });
+
+  return {
+    entries: trashQuery.data || [],
+    retentionPolicy: policyQuery.data,
+    isLoading: trashQuery.isLoading,
+    isError: trashQuery.isError,
+    error: trashQuery.error as AppError,
+    restoreEntry: restoreMutation.mutate,
+    purgeExpired: purgeMutation.mutate,
+    updateRetentionPolicy: updatePolicyMutation.mutate,
+    restoringId: restoreMutation.isPending ? restoreMutation.variables : undefined,
+    isPurging: purgeMutation.isPending,
+    isSavingPolicy: updatePolicyMutation.isPending,
+    refetch: trashQuery.refetch
+  };
+}
@@ -1,15 +1,17 @@
 import { supabase } from '../../supabase';
 import { AuthService, UserRole } from '../auth';
 import { RateLimiter, rateLimitConfigs, keyGenerators } from '../rateLimit';
-import { buildSuccessResponse } from '../types';
+import { buildSuccessResponse, buildCursorPaginationMeta } from '../types';
 import { buildErrorResponse } from '../errors';
 import type { ApiResponse } from '../types';
+import { diffRecords, AuditEntityTypeSchema } from '../schemas/auditSchemas';
 import { 
   ValidationErrorClass, 
   DatabaseError, 
   NotFoundError, 
   AuthenticationError,
-  AuthorizationError 
+  AuthorizationError,
+  ConflictError
 } from '../errors';
 
 export interface SupabaseAdapterConfig {
@@ -17,6 +19,12 @@ export interface SupabaseAdapterConfig {
   requiredRole?: UserRole;
   rateLimitKey?: string;
   enableLogging?: boolean;
+  // updated_at the caller last read; a write that matches no row at that
+  // version fails with a 409 instead of silently doing nothing
+  expectedVersion?: string;
+  // The options a list query was built with; the response then carries
+  // meta.page_info with the next cursor and the total count
+  pagination?: QueryOptions;
 }
 
 export interface QueryOptions {
@@ -25,6 +33,32 @@ export interface QueryOptions {
   orderBy?: { column: string; ascending?: boolean };
   limit?: number;
   offset?: number;
+  // next_cursor of the previous page, or null for the first page. Setting it
+  // switches to keyset pagination on orderBy.column then id
+  cursor?: string | null;
+  count?: 'exact' | 'estimated';
+}
+
+// A query that can still be narrowed to a row range
+export interface RangeableQuery {
+  range: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: unknown | null }>;
+}
+
+// Rows per request when reading a whole table; the API's per-read cap
+const READ_ALL_PAGE_SIZE = 1000;
+
+// Builder methods that write rows, and the filters that narrow which rows a
+// write touches; the filters are replayed to read those rows before the write
+const WRITE_METHODS = ['insert', 'update', 'upsert', 'delete'];
+const ROW_FILTERS = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in', 'is', 'like', 'ilike', 'or', 'not', 'match', 'filter'];
+
+type AuditRow = Record<string, unknown>;
+
+// The rows a write on an audited table touched, as they were before and after
+interface AuditCapture {
+  tableName: string;
+  before: AuditRow[];
+  after: AuditRow[];
 }
 
 export class SupabaseAdapter {
@@ -47,7 +81,7 @@ export class SupabaseAdapter {
    */
   async executeQuery<T>(
     config: SupabaseAdapterConfig,
-    operation: () => Promise<{ data: T | null; error: unknown | null }>,
+    operation: () => Promise<{ data: T | null; error: unknown | null; count?: number | null }>,
     operationType: 'read' | 'write' = 'read'
   ): Promise<ApiResponse<T>> {
     const startTime = Date.now();
@@ -137,14 +171,40 @@ export class SupabaseAdapter {
       }
 
       // 4. Execute Operation
-      const { data, error } = await operation();
+      const result = await operation();
+      const { data, error, count } = result;
 
       // 5. Handle Supabase Errors
       if (error) {
         return this.handleSupabaseError(error, requestId);
       }
 
-      // 6. Handle Not Found
+      // 6. Handle Version Conflicts
+      if (config.expectedVersion && operationType === 'write' && (!data || (Array.isArray(data) && data.length === 0))) {
+        const errorResponse = buildErrorResponse(
+          new ConflictError(config.tableName.replace(/_/g, ' ').replace(/s$/, '')),
+          requestId
+        );
+        return {
+          data: null as unknown as T,
+          meta: {
+            request_id: requestId,
+            timestamp: new Date().toISOString(),
+            version: '1.0.0',
+            status: 'error',
+            message: errorResponse.detail
+          },
+          error: errorResponse
+        } as ApiResponse<T>;
+      }
+
+      // 7. Record Audit Entry for the rows the write touched
+      const audit = (result as { audit?: AuditCapture }).audit;
+      if (audit && operationType === 'write') {
+        await this.recordAudit(audit, session.user, requestId);
+      }
+
+      // 8. Handle Not Found
       if (!data) {
         const errorResponse = buildErrorResponse(
           new NotFoundError('Resource'),
@@ -163,7 +223,7 @@ export class SupabaseAdapter {
         } as ApiResponse<T>;
       }
 
-      // 7. Success Response
+      // 9. Success Response
       const duration = Date.now() - startTime;
       
       if (config.enableLogging) {
@@ -175,6 +235,10 @@ export class SupabaseAdapter {
         });
       }
 
+      if (config.pagination && Array.isArray(data)) {
+        return this.buildPage(data, count ?? null, config.pagination, requestId, operationType);
+      }
+
       return buildSuccessResponse(data, requestId, {
         message: `${operationType} operation completed successfully`
       });
@@ -209,18 +273,37 @@ export class SupabaseAdapter {
     }
   }
 
+  /**
+   * Read every row a query matches. A single read is capped at 1000 rows, so
+   * the query is fetched page by page; it must have a stable order.
+   */
+  async readAll<T = unknown>(
+    config: SupabaseAdapterConfig,
+    buildQuery: () => RangeableQuery
+  ): Promise<ApiResponse<T[]>> {
+    return this.executeQuery<T[]>(config, async () => {
+      const rows: T[] = [];
+      for (let from = 0; ; from += READ_ALL_PAGE_SIZE) {
+        const { data, error } = await buildQuery().range(from, from + READ_ALL_PAGE_SIZE - 1);
+        if (error) {
+          return { data: null, error };
+        }
+        rows.push(...((data || []) as T[]));
+        if (!data || data.length < READ_ALL_PAGE_SIZE) {
+          return { data: rows, error: null };
+        }
+      }
+    }, 'read');
+  }
+
   /**
    * Build a Supabase query with standard options
    */
   buildQuery(tableName: string, options: QueryOptions = {}) {
-    let query = supabase.from(tableName);
+    let query = this.trackWrites(tableName, supabase.from(tableName));
 
     // Select fields
-    if (options.select) {
-      query = query.select(options.select);
-    } else {
-      query = query.select('*');
-    }
+    query = query.select(options.select || '*', options.count ? { count: options.count } : undefined);
 
     // Apply filters
     if (options.filters) {
@@ -231,24 +314,124 @@ export class SupabaseAdapter {
       });
     }
 
+    // Cursor: continue after the last row of the previous page
+    const isCursorPage = options.cursor !== undefined;
+    if (options.cursor) {
+      query = query.or(this.cursorFilter(options.cursor, options.orderBy));
+    }
+
     // Order by
     if (options.orderBy) {
       query = query.order(options.orderBy.column, { 
         ascending: options.orderBy.ascending !== false 
       });
     }
+    if (isCursorPage && options.orderBy?.column !== 'id') {
+      // Ties on the sort column keep a stable order between pages
+      query = query.order('id', { ascending: options.orderBy?.ascending !== false });
+    }
 
-    // Pagination
-    if (options.limit) {
-      query = query.limit(options.limit);
+    // Pagination; a cursor page reads one extra row to know whether more follow
+    const pageSize = options.limit && isCursorPage ? options.limit + 1 : options.limit;
+    if (pageSize) {
+      query = query.limit(pageSize);
     }
     if (options.offset) {
-      query = query.range(options.offset, options.offset + (options.limit || 50) - 1);
+      query = query.range(options.offset, options.offset + (pageSize || 50) - 1);
     }
 
     return query;
   }
 
+  /**
+   * Encode the position of a row in a list sorted by the given column
+   */
+  encodeCursor(row: Record<string, unknown>, column = 'id'): string {
+    return btoa(JSON.stringify([row[column] ?? null, row.id]));
+  }
+
+  /**
+   * Only match the row while it is still at the version the caller read.
+   * Pass the same version as expectedVersion so a miss is reported as a conflict.
+   */
+  matchVersion<Q extends { eq: (column: string, value: unknown) => Q }>(query: Q, expectedVersion?: string): Q {
+    return expectedVersion ? query.eq('updated_at', expectedVersion) : query;
+  }
+
+  /**
+   * The signed-in user, for records that keep who did something
+   */
+  async getCurrentUser(): Promise<{ id: string; email?: string } | null> {
+    const { data: { session } } = await supabase.auth.getSession();
+    return session ? { id: session.user.id, email: session.user.email } : null;
+  }
+
+  /**
+   * Trim the extra row of a cursor page and describe the page in meta.page_info
+   */
+  private buildPage<T>(
+    rows: unknown[],
+    totalCount: number | null,
+    options: QueryOptions,
+    requestId: string,
+    operationType: 'read' | 'write'
+  ): ApiResponse<T> {
+    const limit = options.limit || rows.length;
+    const hasMore = rows.length > limit;
+    const page = rows.slice(0, limit);
+    const lastRow = page[page.length - 1] as Record<string, unknown> | undefined;
+
+    return buildSuccessResponse(page as T, requestId, {
+      message: `${operationType} operation completed successfully`,
+      pageInfo: buildCursorPaginationMeta(
+        limit,
+        hasMore && lastRow ? this.encodeCursor(lastRow, options.orderBy?.column) : null,
+        totalCount,
+        options.count === 'estimated'
+      )
+    });
+  }
+
+  /**
+   * PostgREST filter for the rows after the cursor in the list order
+   */
+  private cursorFilter(cursor: string, orderBy: QueryOptions['orderBy'] = { column: 'id' }): string {
+    let position: unknown;
+    try {
+      position = JSON.parse(atob(cursor));
+    } catch {
+      position = null;
+    }
+    if (!Array.isArray(position) || position.length !== 2 || position[1] === null || position[1] === undefined) {
+      throw new ValidationErrorClass([{
+        field: 'cursor',
+        code: 'INVALID_CURSOR',
+        message: 'Invalid or expired cursor',
+        value: cursor
+      }]);
+    }
+
+    const [value, id] = position;
+    const { column } = orderBy;
+    const ascending = orderBy.ascending !== false;
+    const operator = ascending ? 'gt' : 'lt';
+    const quote = (v: unknown) => `"${String(v).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+    if (column === 'id') {
+      return `id.${operator}.${quote(id)}`;
+    }
+
+    // Postgres sorts nulls last ascending and first descending, so rows
+    // without a value come after every valued row or before all of them
+    const sameValueAfter = `id.${operator}.${quote(id)}`;
+    if (value === null) {
+      return ascending
+        ? `and(${column}.is.null,${sameValueAfter})`
+        : `and(${column}.is.null,${sameValueAfter}),${column}.not.is.null`;
+    }
+    const valuedAfter = `${column}.${operator}.${quote(value)},and(${column}.eq.${quote(value)},${sameValueAfter})`;
+    return ascending ? `${valuedAfter},${column}.is.null` : valuedAfter;
+  }
+
   /**
    * Convert snake_case to camelCase for frontend consumption
    */
@@ -304,6 +487,16 @@ export class SupabaseAdapter {
             requestId
           );
           break;
+        case '23P01':
+          errorResponse = buildErrorResponse(
+            new ValidationErrorClass([{
+              field: 'exclusion_constraint',
+              code: 'CONFLICTING_ENTRY',
+              message: 'Conflicting entry. This overlaps an existing resource.'
+            }]),
+            requestId
+          );
+          break;
         case '23503':
           errorResponse = buildErrorResponse(
             new ValidationErrorClass([{
@@ -347,6 +540,169 @@ export class SupabaseAdapter {
     } as ApiResponse<T>;
   }
 
+  /**
+   * Writes on audited tables are captured where the query is built, so every
+   * write run through executeQuery is audited without the caller asking for it
+   */
+  private trackWrites<Q extends object>(tableName: string, query: Q): Q {
+    if (!(AuditEntityTypeSchema.options as string[]).includes(tableName)) {
+      return query;
+    }
+
+    return new Proxy(query, {
+      get: (target, property) => {
+        const value = Reflect.get(target, property);
+        if (typeof value !== 'function') {
+          return value;
+        }
+        return (...args: unknown[]) => {
+          const next = value.apply(target, args);
+          if (typeof property === 'string' && WRITE_METHODS.includes(property)) {
+            return this.captureWrite(tableName, property, args[0], next, []);
+          }
+          return next && typeof next === 'object' ? this.trackWrites(tableName, next) : next;
+        };
+      }
+    });
+  }
+
+  /**
+   * Follow a write's filters until it runs, then read the rows it touches
+   * before and after so executeQuery can record what changed
+   */
+  private captureWrite<Q extends object>(
+    tableName: string,
+    method: string,
+    values: unknown,
+    write: Q,
+    filters: Array<[string, unknown[]]>
+  ): Q {
+    return new Proxy(write, {
+      get: (target, property) => {
+        const value = Reflect.get(target, property);
+        if (property === 'then' && typeof value === 'function') {
+          return (resolve: (result: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+            this.runCapturedWrite(tableName, method, values, target as PromiseLike<unknown>, filters)
+              .then(resolve, reject);
+        }
+        if (typeof value !== 'function') {
+          return value;
+        }
+        return (...args: unknown[]) => {
+          const next = value.apply(target, args);
+          const narrowed = typeof property === 'string' && ROW_FILTERS.includes(property)
+            ? [...filters, [property, args] as [string, unknown[]]]
+            : filters;
+          return next && typeof next === 'object'
+            ? this.captureWrite(tableName, method, values, next, narrowed)
+            : next;
+        };
+      }
+    });
+  }
+
+  private async runCapturedWrite(
+    tableName: string,
+    method: string,
+    values: unknown,
+    write: PromiseLike<unknown>,
+    filters: Array<[string, unknown[]]>
+  ): Promise<unknown> {
+    const payload = (Array.isArray(values) ? values : [values]) as AuditRow[];
+    const payloadIds = payload.map(row => row?.id).filter((id): id is string => typeof id === 'string');
+
+    // Inserts touch no existing row; upserts touch the rows they name
+    const before = method === 'insert'
+      ? []
+      : method === 'upsert'
+        ? await this.readAuditRows(tableName, payloadIds.length > 0 ? [['in', ['id', payloadIds]]] : null)
+        : await this.readAuditRows(tableName, filters);
+
+    const result = await write;
+    const { data, error } = (result || {}) as { data?: unknown; error?: unknown };
+    if (error) {
+      return result;
+    }
+
+    const written = (Array.isArray(data) ? data : data ? [data] : []) as AuditRow[];
+    const ids = Array.from(new Set([
+      ...before.map(row => row.id),
+      ...written.map(row => row.id),
+      ...payloadIds
+    ].filter((id): id is string => typeof id === 'string')));
+    // A write may return only some columns, so the new state is read back
+    const after = method === 'delete' || ids.length === 0
+      ? []
+      : await this.readAuditRows(tableName, [['in', ['id', ids]]]);
+
+    return { ...(result as object), audit: { tableName, before, after } };
+  }
+
+  /**
+   * Read the rows matching a write's filters; an unfiltered write or a failed
+   * read yields no rows, so auditing never blocks the write itself
+   */
+  private async readAuditRows(tableName: string, filters: Array<[string, unknown[]]> | null): Promise<AuditRow[]> {
+    if (!filters || filters.length === 0) {
+      return [];
+    }
+
+    try {
+      let query = supabase.from(tableName).select('*') as unknown as Record<string, (...args: unknown[]) => unknown>;
+      for (const [method, args] of filters) {
+        query = query[method](...args) as typeof query;
+      }
+      const { data } = await (query as unknown as PromiseLike<{ data: unknown }>);
+
+      return Array.isArray(data) ? (data as AuditRow[]) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Record one entry per touched row: created when it did not exist before,
+   * deleted when it is gone after, updated otherwise
+   */
+  private async recordAudit(
+    audit: AuditCapture,
+    actor: { id: string; email?: string },
+    requestId: string
+  ): Promise<void> {
+    const beforeById = new Map(audit.before.map(row => [row.id, row]));
+    const afterById = new Map(audit.after.map(row => [row.id, row]));
+    const ids = Array.from(new Set([...beforeById.keys(), ...afterById.keys()]));
+
+    const timestamp = new Date().toISOString();
+    const records = ids
+      .map(id => {
+        const before = beforeById.get(id) || null;
+        const after = afterById.get(id) || null;
+        return {
+          entity_type: audit.tableName,
+          entity_id: id,
+          operation: !before ? 'create' : !after ? 'delete' : 'update',
+          actor_id: actor.id,
+          actor_email: actor.email || null,
+          changes: diffRecords(before, after),
+          request_id: requestId,
+          created_at: timestamp
+        };
+      })
+      .filter(record => record.entity_id && record.changes.length > 0);
+    if (records.length === 0) return;
+
+    try {
+      const { error } = await supabase.from('audit_entries').insert(records);
+      if (error) throw error;
+    } catch (auditError) {
+      console.warn(`[SupabaseAdapter] Could not record audit entry for ${audit.tableName}`, {
+        requestId,
+        error: auditError instanceof Error ? auditError.message : auditError
+      });
+    }
+  }
+
   /**
    * Get user role from the database
    */
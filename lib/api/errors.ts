@@ -92,6 +92,13 @@ export const errorDefinitions: Record<string, ErrorDefinition> = {
     category: ErrorCategory.AUTHORIZATION,
     message_template: 'User lacks required permissions',
   },
+  RECORD_CHANGED: {
+    code: 'RECORD_CHANGED',
+    title: 'Record Changed',
+    status: 409,
+    category: ErrorCategory.CONFLICT,
+    message_template: 'The record was changed by someone else. Reload it and try again',
+  },
   RATE_LIMIT_EXCEEDED: {
     code: 'RATE_LIMIT_EXCEEDED',
     title: 'Rate Limit Exceeded',
@@ -162,6 +169,12 @@ export class AuthorizationError extends ApiErrorBase {
   }
 }
 
+export class ConflictError extends ApiErrorBase {
+  constructor(resource: string = 'record') {
+    super('RECORD_CHANGED', `The ${resource} was changed by someone else. Reload it and try again`);
+  }
+}
+
 export class DatabaseError extends ApiErrorBase {
   constructor(message?: string) {
     super('INTERNAL_SERVER_ERROR', message || 'Database operation failed');
@@ -224,6 +224,11 @@ export { customerService } from './services/customerService';
 export { inventoryService } from './services/inventoryService';
 export { financeService } from './services/financeService';
 export { staffService } from './services/staffService';
+export { purchasingService } from './services/purchasingService';
+export { recipeService } from './services/recipeService';
+export { stockCountService } from './services/stockCountService';
+export { auditService } from './services/auditService';
+export { trashService } from './services/trashService';
 
 // Adapters
 export { SupabaseAdapter } from './adapters/supabaseAdapter';
@@ -308,6 +313,11 @@ export * from './services/customerService';
 export * from './services/inventoryService';
 export * from './services/financeService';
 export * from './services/staffService';
+export * from './services/purchasingService';
+export * from './services/recipeService';
+export * from './services/stockCountService';
+export * from './services/auditService';
+export * from './services/trashService';
 
 // Export all schemas
 export * from './schemas/eventSchemas';
@@ -315,4 +325,9 @@ export * from './schemas/artistSchemas';
 export * from './schemas/customerSchemas';
 export * from './schemas/inventorySchemas';
 export * from './schemas/financeSchemas';
-export * from './schemas/staffSchemas'; 
\ No newline at end of file
+export * from './schemas/staffSchemas';
+export * from './schemas/purchasingSchemas';
+export * from './schemas/recipeSchemas';
+export * from './schemas/stockCountSchemas';
+export * from './schemas/auditSchemas';
+export * from './schemas/trashSchemas'; 
\ No newline at end of file
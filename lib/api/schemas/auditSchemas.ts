@@ -0,0 +1,109 @@
+/**
+ * Audit Schemas - Train Station Dashboard API Standards
+ * Validation schemas for the field-level audit trail: every audited write
+ * records who changed which record and the before/after value of each field
+ */
+
+import { z } from 'zod';
+
+// Base validation schemas
+export const AuditOperationSchema = z.enum(['create', 'update', 'delete']);
+
+// Tables whose changes are audited, as the entity type stored on each entry
+export const AuditEntityTypeSchema = z.enum([
+  'events',
+  'customers',
+  'inventory_items',
+  'financial_transactions',
+  'staff'
+]);
+
+// Query schemas
+export const AuditQuerySchema = z.object({
+  entityType: AuditEntityTypeSchema.optional(),
+  entityId: z.string().uuid('Invalid entity ID').optional(),
+  actorId: z.string().uuid('Invalid actor ID').optional(),
+  operation: AuditOperationSchema.optional(),
+  field: z.string().max(100, 'Field name must be less than 100 characters').optional(),
+  search: z.string()
+    .max(100, 'Search must be less than 100 characters')
+    .optional()
+    .describe('Matches the actor email, field names and changed values'),
+  dateFrom: z.string().datetime().optional(),
+  dateTo: z.string().datetime().optional(),
+  limit: z.number().int().min(1).max(200).default(50)
+}).refine(
+  (data) => !data.dateFrom || !data.dateTo || new Date(data.dateFrom) <= new Date(data.dateTo),
+  {
+    message: 'Start date must be before end date',
+    path: ['dateTo']
+  }
+);
+
+export const RecordHistorySchema = z.object({
+  entityType: AuditEntityTypeSchema,
+  entityId: z.string().uuid('Invalid entity ID')
+});
+
+// Export TypeScript types
+export type AuditOperation = z.infer<typeof AuditOperationSchema>;
+export type AuditEntityType = z.infer<typeof AuditEntityTypeSchema>;
+export type AuditQuery = z.input<typeof AuditQuerySchema>;
+export type RecordHistoryRequest = z.infer<typeof RecordHistorySchema>;
+
+export interface AuditFieldChange {
+  field: string; // Database column, e.g. ticket_price
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditEntry {
+  id: string;
+  entityType: string;
+  entityId: string;
+  operation: AuditOperation;
+  actorId?: string;
+  actorEmail?: string;
+  changes: AuditFieldChange[];
+  requestId?: string;
+  createdAt: string;
+}
+
+// Bookkeeping columns that change on every write and are left out of diffs
+const UNAUDITED_FIELDS = ['updated_at', 'created_at'];
+
+const isSameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Field-by-field difference between two versions of a row. A missing before
+ * is a create (every set field is listed), a missing after is a delete.
+ */
+export const diffRecords = (
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined
+): AuditFieldChange[] => {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  return [...fields]
+    .filter(field => !UNAUDITED_FIELDS.includes(field))
+    .filter(field => !isSameValue(before?.[field], after?.[field]))
+    .sort()
+    .map(field => ({ field, before: before?.[field] ?? undefined, after: after?.[field] ?? undefined }));
+};
+
+/**
+ * Turn a column name into a label, e.g. ticket_price -> Ticket price
+ */
+export const formatAuditField = (field: string): string => {
+  const words = field.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/_/g, ' ').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/**
+ * Display a recorded before/after value
+ */
+export const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  if (Array.isArray(value)) return value.map(formatAuditValue).join(', ') || '(empty)';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
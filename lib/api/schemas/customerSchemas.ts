@@ -111,6 +111,7 @@ export const CustomerQuerySchema = z.object({
   page: z.number().min(1).default(1),
   limit: z.number().min(1).max(100).default(20),
   offset: z.number().min(0).default(0),
+  cursor: z.string().optional(), // next_cursor of the previous page
   // Sorting
   sortBy: z.enum(['firstName', 'lastName', 'email', 'customerSince', 'lastVisit']).default('lastName'),
   sortOrder: z.enum(['asc', 'desc']).default('asc')
@@ -166,6 +167,7 @@ export const InteractionQuerySchema = z.object({
   page: z.number().min(1).default(1),
   limit: z.number().min(1).max(100).default(20),
   offset: z.number().min(0).default(0),
+  cursor: z.string().optional(), // next_cursor of the previous page
   // Sorting
   sortBy: z.enum(['date', 'type', 'staffMember']).default('date'),
   sortOrder: z.enum(['asc', 'desc']).default('desc')
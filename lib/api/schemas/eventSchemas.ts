@@ -1,4 +1,52 @@
 import { z } from 'zod';
+import type { FinancialTransaction } from './financeSchemas';
+
+// Ticket tier allocation schema (general admission, VIP, early bird)
+export const TicketTierSchema = z.object({
+  type: z.enum(['general', 'vip', 'earlyBird']),
+
+  capacity: z.number()
+    .int('Tier capacity must be a whole number')
+    .min(0, 'Tier capacity cannot be negative'),
+
+  price: z.number()
+    .min(0, 'Tier price cannot be negative')
+    .max(10000, 'Tier price cannot exceed $10,000')
+    .multipleOf(0.01, 'Price must be in cents (e.g., 19.99)'),
+
+  salesStart: z.string()
+    .refine((date) => !isNaN(Date.parse(date)), 'Invalid sales start date')
+    .optional(),
+
+  salesEnd: z.string()
+    .refine((date) => !isNaN(Date.parse(date)), 'Invalid sales end date')
+    .optional(),
+
+  sold: z.number()
+    .int('Tier tickets sold must be a whole number')
+    .min(0, 'Tier tickets sold cannot be negative')
+    .optional()
+    .default(0),
+})
+.refine((tier) => tier.sold <= tier.capacity, {
+  message: 'Tier tickets sold cannot exceed tier capacity',
+  path: ['sold']
+})
+.refine((tier) => {
+  if (tier.salesStart && tier.salesEnd) {
+    return new Date(tier.salesEnd) > new Date(tier.salesStart);
+  }
+  return true;
+}, {
+  message: 'Tier sales end must be after sales start',
+  path: ['salesEnd']
+});
+
+const TicketTiersSchema = z.array(TicketTierSchema)
+  .max(3, 'An event can have at most 3 ticket tiers')
+  .refine((tiers) => new Set(tiers.map(tier => tier.type)).size === tiers.length, {
+    message: 'Each ticket tier type can only be defined once'
+  });
 
 // Base Event object schema (without refinements)
 const EventBaseObject = z.object({
@@ -35,6 +83,9 @@ const EventBaseObject = z.object({
     .max(10000, 'Ticket price cannot exceed $10,000')
     .multipleOf(0.01, 'Price must be in cents (e.g., 19.99)'),
   
+  ticketTiers: TicketTiersSchema
+    .optional(),
+  
   artistIds: z.array(z.string().uuid('Invalid artist ID format'))
     .optional()
     .default([]),
@@ -125,6 +176,15 @@ export const CreateEventSchema = EventBaseObject.extend({
 }, {
   message: 'Tickets sold cannot exceed total capacity',
   path: ['ticketsSold']
+})
+.refine((data) => {
+  // Business rule: Tier allocations must fit within the venue capacity
+  if (!data.ticketTiers) return true;
+  const allocated = data.ticketTiers.reduce((sum, tier) => sum + tier.capacity, 0);
+  return allocated <= data.totalCapacity;
+}, {
+  message: 'Ticket tier capacities cannot exceed total capacity',
+  path: ['ticketTiers']
 });
 
 // Update Event Schema - use partial of base object
@@ -145,6 +205,17 @@ export const UpdateEventSchema = EventBaseObject.partial().extend({
   message: 'Tickets sold cannot exceed total capacity',
   path: ['ticketsSold']
 })
+.refine((data) => {
+  // Only validate tier allocations against capacity if both are provided
+  if (data.ticketTiers && data.totalCapacity !== undefined) {
+    const allocated = data.ticketTiers.reduce((sum, tier) => sum + tier.capacity, 0);
+    return allocated <= data.totalCapacity;
+  }
+  return true;
+}, {
+  message: 'Ticket tier capacities cannot exceed total capacity',
+  path: ['ticketTiers']
+})
 .refine((data) => {
   // Only validate time logic if both times are provided
   if (data.startTime && data.endTime) {
@@ -176,6 +247,10 @@ export const EventQuerySchema = z.object({
     .min(0, 'Offset cannot be negative')
     .optional()
     .default(0),
+
+  // next_cursor of the previous page
+  cursor: z.string()
+    .optional(),
   
   status: z.enum(['upcoming', 'completed', 'cancelled'])
     .optional(),
@@ -216,11 +291,213 @@ export const EventIdSchema = z.object({
   id: z.string().uuid('Invalid event ID format'),
 });
 
+// Ticket Hold Schemas (seats reserved while the customer pays)
+export const CreateTicketHoldSchema = z.object({
+  eventId: z.string().uuid('Invalid event ID format'),
+
+  quantity: z.number()
+    .int('Hold quantity must be a whole number')
+    .min(1, 'Hold quantity must be at least 1')
+    .max(50, 'Cannot hold more than 50 tickets at once'),
+
+  tierType: z.enum(['general', 'vip', 'earlyBird'])
+    .optional()
+    .default('general'),
+
+  ttlMinutes: z.number()
+    .int('Hold duration must be a whole number of minutes')
+    .min(1, 'Hold duration must be at least 1 minute')
+    .max(60, 'Hold duration cannot exceed 60 minutes')
+    .optional()
+    .default(15),
+
+  customerName: z.string()
+    .max(200, 'Customer name must not exceed 200 characters')
+    .optional(),
+
+  customerEmail: z.string()
+    .email('Invalid email format')
+    .optional(),
+});
+
+export const ConvertTicketHoldSchema = z.object({
+  purchaserName: z.string()
+    .min(1, 'Purchaser name is required')
+    .max(200, 'Purchaser name must not exceed 200 characters')
+    .optional(),
+
+  purchaserEmail: z.string()
+    .email('Invalid email format')
+    .optional(),
+
+  paymentReference: z.string()
+    .max(100, 'Payment reference must not exceed 100 characters')
+    .optional(),
+
+  // Books the sale to the finance ledger so a later refund can reverse it
+  accountId: z.string().uuid('Invalid account ID').optional(),
+  categoryId: z.string().uuid('Invalid category ID').optional(),
+})
+.refine((data) => (data.accountId === undefined) === (data.categoryId === undefined), {
+  message: 'Account and category must be given together',
+  path: ['categoryId']
+});
+
+export const TicketHoldIdSchema = z.object({
+  id: z.string().uuid('Invalid hold ID format'),
+});
+
+// Ticket Scan Schemas (door scanning, including scans captured offline)
+export const TicketScanSchema = z.object({
+  code: z.string()
+    .min(1, 'Ticket code is required')
+    .max(200, 'Ticket code must not exceed 200 characters')
+    .trim(),
+
+  // The event being admitted; codes issued for any other event are refused
+  eventId: z.string().uuid('Invalid event ID'),
+
+  scannedAt: z.string()
+    .refine((date) => !isNaN(Date.parse(date)), 'Invalid scan time')
+    .optional(),
+
+  deviceId: z.string()
+    .max(100, 'Device ID must not exceed 100 characters')
+    .optional(),
+});
+
+export const SyncTicketScansSchema = z.object({
+  scans: z.array(TicketScanSchema)
+    .min(1, 'At least one scan is required')
+    .max(500, 'Cannot sync more than 500 scans at once'),
+});
+
+// Ticket Refund / Exchange Schemas (money moves through the finance ledger)
+export const TicketPostingSchema = z.object({
+  accountId: z.string().uuid('Invalid account ID'),
+  categoryId: z.string().uuid('Invalid category ID'),
+});
+
+export const RefundTicketsSchema = TicketPostingSchema.extend({
+  // Omit to refund every valid ticket for the event
+  ticketIds: z.array(z.string().uuid('Invalid ticket ID format'))
+    .min(1, 'At least one ticket is required')
+    .max(500, 'Cannot refund more than 500 tickets at once')
+    .optional(),
+
+  reason: z.string()
+    .max(500, 'Refund reason must not exceed 500 characters')
+    .optional(),
+});
+
+export const ExchangeTicketSchema = TicketPostingSchema.extend({
+  toEventId: z.string().uuid('Invalid event ID format'),
+
+  tierType: z.enum(['general', 'vip', 'earlyBird'])
+    .optional()
+    .default('general'),
+
+  paymentReference: z.string()
+    .max(100, 'Payment reference must not exceed 100 characters')
+    .optional(),
+});
+
+export const TicketIdSchema = z.object({
+  id: z.string().uuid('Invalid ticket ID format'),
+});
+
 // TypeScript types derived from schemas
 export type CreateEventRequest = z.infer<typeof CreateEventSchema>;
 export type UpdateEventRequest = z.infer<typeof UpdateEventSchema>;
 export type EventQueryRequest = z.infer<typeof EventQuerySchema>;
 export type EventIdRequest = z.infer<typeof EventIdSchema>;
+export type TicketTierType = z.infer<typeof TicketTierSchema>['type'];
+export type CreateTicketHoldRequest = z.input<typeof CreateTicketHoldSchema>;
+export type ConvertTicketHoldRequest = z.input<typeof ConvertTicketHoldSchema>;
+export type TicketScanRequest = z.infer<typeof TicketScanSchema>;
+export type TicketPosting = z.infer<typeof TicketPostingSchema>;
+export type RefundTicketsRequest = z.infer<typeof RefundTicketsSchema>;
+export type ExchangeTicketRequest = z.input<typeof ExchangeTicketSchema>;
+
+// Ticket tier allocation (what we return from API)
+export interface TicketTier {
+  type: TicketTierType;
+  capacity: number;
+  price: number;
+  salesStart?: string;
+  salesEnd?: string;
+  sold: number;
+  held?: number;
+}
+
+// Ticket hold (what we return from API)
+export interface TicketHold {
+  id: string;
+  eventId: string;
+  quantity: number;
+  tierType: TicketTierType;
+  status: 'active' | 'converted' | 'released' | 'expired';
+  expiresAt: string;
+  customerName?: string;
+  customerEmail?: string;
+  paymentReference?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Issued ticket (what we return from API)
+export interface Ticket {
+  id: string;
+  eventId: string;
+  holdId?: string;
+  purchaseDate: string;
+  purchaserName: string;
+  purchaserEmail: string;
+  price: number;
+  type: TicketTierType;
+  status: 'valid' | 'used' | 'refunded' | 'cancelled';
+  code?: string;
+  scannedAt?: string;
+  saleTransactionId?: string; // Ledger income the ticket was sold under; unset when the sale was not booked
+  taxAmount?: number; // Sales tax included in the price, reversed with the ticket
+}
+
+// Guest list entry cached by door scanners for offline validation
+export interface GuestListEntry {
+  ticketId: string;
+  code: string;
+  purchaserName: string;
+  type: TicketTierType;
+  status: Ticket['status'];
+  scannedAt?: string;
+}
+
+// Outcome of a single door scan
+export interface TicketScanResult {
+  code: string;
+  ticketId?: string;
+  result: 'admitted' | 'duplicate' | 'invalid';
+  reason?: string;
+  scannedAt: string;
+  firstScannedAt?: string;
+  purchaserName?: string;
+  type?: TicketTierType;
+}
+
+// Outcome of refunding tickets
+export interface TicketRefundResult {
+  tickets: Ticket[];
+  refundedAmount: number;
+  transaction?: FinancialTransaction;
+}
+
+// Outcome of exchanging a ticket to another event
+export interface TicketExchangeResult {
+  ticket: Ticket; // The original ticket, now cancelled
+  newTicket: Ticket;
+  priceDifference: number; // Positive when the customer paid more, negative when refunded
+  transaction?: FinancialTransaction;
+}
 
 // Enhanced Event type (what we return from API)
 export interface Event {
@@ -232,8 +509,11 @@ export interface Event {
   endTime: string;
   artistIds: string[];
   ticketsSold: number;
+  ticketsHeld?: number;
+  ticketVersion: number; // Bumped by every change to the sold/held counters
   totalCapacity: number;
   ticketPrice: number;
+  ticketTiers?: TicketTier[];
   status: 'upcoming' | 'completed' | 'cancelled';
   image?: string;
   genre?: string;
@@ -284,9 +564,30 @@ export const validateEventBusinessRules = {
   },
 
   /**
-   * Check if tickets can be sold for an event
+   * Number of tickets still available for a tier (or the whole event when it
+   * has no tier allocations), bounded by the overall capacity. Seats under an
+   * active hold are not available.
+   */
+  getAvailableTickets: (event: Event, tierType: TicketTierType = 'general'): number => {
+    const availableTickets = event.totalCapacity - event.ticketsSold - (event.ticketsHeld || 0);
+    const tier = event.ticketTiers?.find(t => t.type === tierType);
+    if (!event.ticketTiers || event.ticketTiers.length === 0 || !tier) {
+      return Math.max(availableTickets, 0);
+    }
+    return Math.max(Math.min(availableTickets, tier.capacity - tier.sold - (tier.held || 0)), 0);
+  },
+
+  /**
+   * Check if tickets can be sold for an event.
+   * Events with tier allocations are checked against the requested tier's
+   * capacity and sale window as well as the overall capacity.
    */
-  canSellTickets: (event: Event, quantity: number): { valid: boolean; reason?: string } => {
+  canSellTickets: (
+    event: Event,
+    quantity: number,
+    tierType: TicketTierType = 'general',
+    now: Date = new Date()
+  ): { valid: boolean; reason?: string } => {
     if (event.status === 'cancelled') {
       return { valid: false, reason: 'Cannot sell tickets for a cancelled event' };
     }
@@ -295,7 +596,11 @@ export const validateEventBusinessRules = {
       return { valid: false, reason: 'Cannot sell tickets for a completed event' };
     }
     
-    const availableTickets = event.totalCapacity - event.ticketsSold;
+    const availableTickets = event.totalCapacity - event.ticketsSold - (event.ticketsHeld || 0);
+    if (availableTickets <= 0) {
+      return { valid: false, reason: 'Event is sold out' };
+    }
+    
     if (quantity > availableTickets) {
       return { 
         valid: false, 
@@ -303,6 +608,83 @@ export const validateEventBusinessRules = {
       };
     }
     
+    if (event.ticketTiers && event.ticketTiers.length > 0) {
+      const tier = event.ticketTiers.find(t => t.type === tierType);
+      if (!tier) {
+        return { valid: false, reason: `No ${tierType} tickets are offered for this event` };
+      }
+      
+      if (tier.salesStart && now < new Date(tier.salesStart)) {
+        return { valid: false, reason: `${tierType} ticket sales have not started yet` };
+      }
+      
+      if (tier.salesEnd && now > new Date(tier.salesEnd)) {
+        return { valid: false, reason: `${tierType} ticket sales have ended` };
+      }
+      
+      const availableInTier = tier.capacity - tier.sold - (tier.held || 0);
+      if (availableInTier <= 0) {
+        return { valid: false, reason: `${tierType} tickets are sold out` };
+      }
+      
+      if (quantity > availableInTier) {
+        return {
+          valid: false,
+          reason: `Only ${availableInTier} ${tierType} tickets available`
+        };
+      }
+    }
+    
+    return { valid: true };
+  },
+
+  /**
+   * Check if a ticket hold can still be converted into tickets
+   */
+  canConvertHold: (hold: TicketHold, now: Date = new Date()): { valid: boolean; reason?: string } => {
+    if (hold.status !== 'active') {
+      return { valid: false, reason: `Hold has already been ${hold.status}` };
+    }
+    
+    if (new Date(hold.expiresAt) <= now) {
+      return { valid: false, reason: 'Hold has expired and the seats have been released' };
+    }
+    
+    return { valid: true };
+  },
+
+  /**
+   * Check if a ticket can still be refunded
+   */
+  canRefundTicket: (ticket: Ticket): { valid: boolean; reason?: string } => {
+    if (ticket.status === 'used') {
+      return { valid: false, reason: 'Ticket has already been used' };
+    }
+    
+    if (ticket.status !== 'valid') {
+      return { valid: false, reason: `Ticket has already been ${ticket.status}` };
+    }
+    
+    return { valid: true };
+  },
+
+  /**
+   * Check if a ticket can be exchanged into another event
+   */
+  canExchangeTicket: (ticket: Ticket, toEvent: Event): { valid: boolean; reason?: string } => {
+    const refundCheck = validateEventBusinessRules.canRefundTicket(ticket);
+    if (!refundCheck.valid) {
+      return refundCheck;
+    }
+    
+    if (ticket.eventId === toEvent.id) {
+      return { valid: false, reason: 'Ticket is already for this event' };
+    }
+    
+    if (toEvent.status === 'cancelled' || toEvent.status === 'completed') {
+      return { valid: false, reason: `Cannot exchange into a ${toEvent.status} event` };
+    }
+    
     return { valid: true };
   },
 
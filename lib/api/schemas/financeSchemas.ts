@@ -5,6 +5,7 @@
  */
 
 import { z } from 'zod';
+import { CostingMethodSchema, type CostingMethod } from './inventorySchemas';
 
 // Base validation schemas
 const CurrencySchema = z.number().min(0, 'Amount must be positive');
@@ -87,6 +88,8 @@ const TransactionBaseFields = z.object({
   receiptUrl: z.string().url('Invalid receipt URL').optional(),
   taxAmount: CurrencySchema.optional(),
   taxRate: TaxRateSchema.optional(),
+  taxInclusive: z.boolean().optional()
+    .describe('Amount already includes taxAmount; defaults to the tax rate setting, or true'),
   isRecurring: z.boolean().default(false),
   recurringPattern: z.object({
     frequency: z.enum(['daily', 'weekly', 'monthly', 'quarterly', 'yearly']),
@@ -174,6 +177,38 @@ export const UpdateTransactionSchema = z.object({
   }
 );
 
+// Recurring transaction schemas
+export const RecurringOccurrenceSchema = z.object({
+  seriesId: z.string().uuid('Invalid transaction ID'),
+  occurrenceDate: z.string().datetime()
+});
+
+export const RecurringPreviewSchema = z.object({
+  seriesId: z.string().uuid('Invalid transaction ID'),
+  count: z.number().min(1).max(100).default(5),
+  from: z.string().datetime().optional()
+});
+
+export const UpdateRecurringTransactionSchema = z.object({
+  seriesId: z.string().uuid('Invalid transaction ID'),
+  scope: z.enum(['occurrence', 'series'])
+    .describe('Edit a single occurrence or every future occurrence of the series'),
+  occurrenceDate: z.string().datetime().optional(),
+  updates: TransactionBaseFields.omit({ isRecurring: true, isApproved: true, approvedBy: true, approvedAt: true }).partial()
+}).refine(
+  (data) => data.scope === 'series' || !!data.occurrenceDate,
+  {
+    message: 'Occurrence date is required when editing a single occurrence',
+    path: ['occurrenceDate']
+  }
+).refine(
+  (data) => data.scope === 'series' || !data.updates.recurringPattern,
+  {
+    message: 'Recurring pattern can only be changed for the whole series',
+    path: ['updates', 'recurringPattern']
+  }
+);
+
 // Query schemas
 export const TransactionQuerySchema = z.object({
   search: z.string().optional(),
@@ -195,10 +230,12 @@ export const TransactionQuerySchema = z.object({
   staffMember: z.string().optional(),
   relatedEntityType: z.enum(['event', 'artist', 'customer', 'vendor', 'equipment']).optional(),
   hasReceipt: z.boolean().optional(),
+  reconciliationStatus: z.enum(['reconciled', 'unreconciled']).optional(),
   // Pagination
   page: z.number().min(1).default(1),
   limit: z.number().min(1).max(100).default(20),
   offset: z.number().min(0).default(0),
+  cursor: z.string().optional(), // next_cursor of the previous page
   // Sorting
   sortBy: z.enum(['date', 'amount', 'description', 'category', 'type']).default('date'),
   sortOrder: z.enum(['asc', 'desc']).default('desc')
@@ -208,13 +245,15 @@ export const TransactionQuerySchema = z.object({
 export const FinancialReportSchema = z.object({
   reportType: z.enum(['profit_loss', 'balance_sheet', 'cash_flow', 'expense_report', 'revenue_report']),
   dateRange: z.object({
-    start: z.string().datetime(),
-    end: z.string().datetime()
+    start: z.string().datetime().or(z.string().date()),
+    // A date-only end includes the whole of that day
+    end: z.string().datetime().or(z.string().date())
   }),
   includeSubcategories: z.boolean().default(true),
   currency: z.string().length(3).default('USD'),
   compareToLastPeriod: z.boolean().default(false),
-  groupBy: z.enum(['category', 'account', 'month', 'quarter']).optional()
+  groupBy: z.enum(['category', 'account', 'month', 'quarter']).optional(),
+  costingMethod: CostingMethodSchema.default('fifo').describe('How stock sold is costed on the profit and loss')
 });
 
 // Budget schemas
@@ -224,12 +263,16 @@ export const BudgetBaseFields = z.object({
     .max(100, 'Budget name must be less than 100 characters')
     .trim(),
   categoryId: z.string().uuid('Invalid category ID'),
+  accountId: z.string().uuid('Invalid account ID').optional()
+    .describe('Only count spending from this account'),
   amount: CurrencySchema.describe('Budget amount'),
   period: z.enum(['monthly', 'quarterly', 'yearly']),
   startDate: z.string().datetime(),
   endDate: z.string().datetime(),
   alertThreshold: z.number().min(0).max(1).default(0.8)
     .describe('Alert when spending reaches this percentage of budget'),
+  limitType: z.enum(['soft', 'hard']).default('soft')
+    .describe('Soft limits warn on overspend, hard limits hold the transaction for approval'),
   isActive: z.boolean().default(true)
 });
 
@@ -245,6 +288,75 @@ export const UpdateBudgetSchema = z.object({
   id: z.string().uuid('Invalid budget ID')
 }).merge(BudgetBaseFields.partial());
 
+export const BudgetVarianceReportSchema = z.object({
+  dateRange: z.object({
+    start: z.string().datetime(),
+    end: z.string().datetime()
+  }),
+  budgetId: z.string().uuid('Invalid budget ID').optional()
+});
+
+// Sales tax / VAT schemas
+const TaxRateBaseFields = z.object({
+  name: z.string()
+    .min(1, 'Tax rate name is required')
+    .max(100, 'Tax rate name must be less than 100 characters')
+    .trim(),
+  categoryId: z.string().uuid('Invalid category ID'),
+  rate: TaxRateSchema,
+  isInclusive: z.boolean().default(true)
+    .describe('Income amounts in this category already include the tax'),
+  effectiveFrom: z.string().datetime().default(() => new Date().toISOString()),
+  effectiveTo: z.string().datetime().optional(),
+  isActive: z.boolean().default(true)
+});
+
+export const CreateTaxRateSchema = TaxRateBaseFields.refine(
+  (data) => !data.effectiveTo || new Date(data.effectiveTo) > new Date(data.effectiveFrom),
+  {
+    message: 'Effective end date must be after start date',
+    path: ['effectiveTo']
+  }
+);
+
+export const UpdateTaxRateSchema = z.object({
+  id: z.string().uuid('Invalid tax rate ID')
+}).merge(TaxRateBaseFields.partial());
+
+export const TaxLiabilityReportSchema = z.object({
+  dateRange: z.object({
+    start: z.string().datetime(),
+    end: z.string().datetime()
+  }),
+  period: z.enum(['monthly', 'quarterly', 'yearly']).default('quarterly')
+});
+
+// Bank statement import schemas
+export const StatementImportSchema = z.object({
+  accountId: z.string().uuid('Invalid account ID'),
+  format: z.enum(['csv', 'ofx', 'qfx']),
+  content: z.string()
+    .min(1, 'Statement file is empty')
+    .max(5_000_000, 'Statement file must be less than 5MB'),
+  expenseCategoryId: z.string().uuid('Invalid category ID')
+    .describe('Category for imported money-out lines'),
+  incomeCategoryId: z.string().uuid('Invalid category ID')
+    .describe('Category for imported money-in lines'),
+  dateFormat: z.enum(['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY']).default('YYYY-MM-DD')
+    .describe('Date format of CSV statements; OFX dates are always YYYYMMDD'),
+  columns: z.object({
+    date: z.string().optional(),
+    amount: z.string().optional(),
+    debit: z.string().optional(),
+    credit: z.string().optional(),
+    description: z.string().optional(),
+    reference: z.string().optional()
+  }).optional().describe('CSV header names, detected automatically when omitted'),
+  matchWindowDays: z.number().min(0).max(14).default(3)
+    .describe('How far apart statement and ledger dates can be for an automatic match'),
+  dryRun: z.boolean().default(false)
+});
+
 // Bulk operations
 export const BulkTransactionUpdateSchema = z.object({
   transactionIds: z.array(z.string().uuid()).min(1).max(100),
@@ -290,10 +402,18 @@ export type CreateTransactionCategoryRequest = z.infer<typeof CreateTransactionC
 export type UpdateTransactionCategoryRequest = z.infer<typeof UpdateTransactionCategorySchema>;
 export type CreateBudgetRequest = z.infer<typeof CreateBudgetSchema>;
 export type UpdateBudgetRequest = z.infer<typeof UpdateBudgetSchema>;
+export type BudgetVarianceReportRequest = z.infer<typeof BudgetVarianceReportSchema>;
+export type StatementImportRequest = z.infer<typeof StatementImportSchema>;
+export type CreateTaxRateRequest = z.infer<typeof CreateTaxRateSchema>;
+export type UpdateTaxRateRequest = z.infer<typeof UpdateTaxRateSchema>;
+export type TaxLiabilityReportRequest = z.infer<typeof TaxLiabilityReportSchema>;
 export type TransactionQueryRequest = z.infer<typeof TransactionQuerySchema>;
 export type FinancialReportRequest = z.infer<typeof FinancialReportSchema>;
 export type BulkTransactionUpdateRequest = z.infer<typeof BulkTransactionUpdateSchema>;
 export type BulkTransactionApprovalRequest = z.infer<typeof BulkTransactionApprovalSchema>;
+export type RecurringOccurrenceRequest = z.infer<typeof RecurringOccurrenceSchema>;
+export type RecurringPreviewRequest = z.infer<typeof RecurringPreviewSchema>;
+export type UpdateRecurringTransactionRequest = z.infer<typeof UpdateRecurringTransactionSchema>;
 
 // Enhanced interfaces
 export interface Account {
@@ -304,6 +424,7 @@ export interface Account {
   description?: string;
   accountNumber?: string;
   balance: number;
+  currency?: string;
   isActive: boolean;
   parentAccountId?: string;
   parentAccount?: Account;
@@ -354,12 +475,17 @@ export interface FinancialTransaction {
   receiptUrl?: string;
   taxAmount?: number;
   taxRate?: number;
+  taxInclusive?: boolean;
   isRecurring: boolean;
   recurringPattern?: {
     frequency: 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly';
     interval: number;
     endDate?: string;
   };
+  recurringSeriesId?: string; // Set on occurrences generated from a recurring transaction
+  occurrenceIndex?: number; // Position in the series, 0 for the first occurrence
+  occurrenceDate?: string;
+  isModified?: boolean; // Occurrence was edited independently of its series
   tags: string[];
   relatedEntityId?: string;
   relatedEntityType?: 'event' | 'artist' | 'customer' | 'vendor' | 'equipment';
@@ -368,6 +494,15 @@ export interface FinancialTransaction {
   isApproved: boolean;
   approvedBy?: string;
   approvedAt?: string;
+  status?: 'pending' | 'awaiting_approval' | 'approved' | 'cancelled' | 'processing' | 'completed' | 'skipped';
+  budgetId?: string; // Budget the transaction was checked against
+  requiresApproval?: boolean; // Exceeded a hard budget limit
+  budgetWarning?: string;
+  isReconciled?: boolean;
+  reconciledAt?: string;
+  statementReference?: string; // Bank's identifier for the statement line (OFX FITID or CSV reference)
+  toAccountReconciled?: boolean; // Receiving side of a transfer, reconciled on the other account's statement
+  toAccountStatementReference?: string;
   createdAt: string;
   updatedAt: string;
   // Enhanced fields
@@ -380,11 +515,13 @@ export interface Budget {
   name: string;
   categoryId: string;
   category?: TransactionCategory;
+  accountId?: string;
   amount: number;
   period: 'monthly' | 'quarterly' | 'yearly';
   startDate: string;
   endDate: string;
   alertThreshold: number;
+  limitType: 'soft' | 'hard';
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
@@ -428,10 +565,193 @@ export interface FinancialReport {
         net: number;
       }>;
     };
+    groups?: FinancialReportGroup[];
+    balanceSheet?: BalanceSheetSummary;
+    cashFlow?: CashFlowSummary;
+    costOfGoodsSold?: CostOfGoodsSummary;
+    grossProfit?: number; // totalIncome - costOfGoodsSold.total
+  };
+  comparison?: {
+    dateRange: {
+      start: string;
+      end: string;
+    };
+    totalIncome: number;
+    totalExpenses: number;
+    netIncome: number;
+    change: {
+      totalIncome: number;
+      totalExpenses: number;
+      netIncome: number;
+    };
+    percentChange: {
+      totalIncome: number | null;
+      totalExpenses: number | null;
+      netIncome: number | null;
+    };
   };
   generatedAt: string;
 }
 
+export interface TaxRate {
+  id: string;
+  name: string;
+  categoryId: string;
+  rate: number;
+  isInclusive: boolean;
+  effectiveFrom: string;
+  effectiveTo?: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TaxLiabilitySummary {
+  grossSales: number; // Taxable income, as recorded
+  collected: number; // Output tax on sales, net of refunds
+  grossPurchases: number;
+  paid: number; // Input tax on purchases
+  remitted: number; // Payments to the tax authority
+  netLiability: number; // collected - paid
+  outstanding: number; // netLiability - remitted
+}
+
+export interface TaxLiabilityReport {
+  dateRange: {
+    start: string;
+    end: string;
+  };
+  period: 'monthly' | 'quarterly' | 'yearly';
+  periods: Array<TaxLiabilitySummary & { key: string }>;
+  categories: Array<TaxLiabilitySummary & { categoryId: string; rate?: number }>;
+  totals: TaxLiabilitySummary;
+  generatedAt: string;
+}
+
+export interface StatementLine {
+  lineNumber: number;
+  date: string;
+  amount: number; // Signed from the account's point of view, negative is money out
+  description: string;
+  reference?: string;
+  statementReference?: string;
+}
+
+export interface StatementImportLineResult {
+  line: StatementLine;
+  status: 'imported' | 'matched' | 'duplicate' | 'invalid';
+  transactionId?: string;
+  transaction?: CreateTransactionRequest;
+  reason?: string;
+}
+
+export interface StatementImportResult {
+  accountId: string;
+  format: 'csv' | 'ofx' | 'qfx';
+  dryRun: boolean;
+  summary: {
+    totalLines: number;
+    imported: number;
+    matched: number;
+    duplicates: number;
+    invalid: number;
+  };
+  lines: StatementImportLineResult[];
+}
+
+export interface BudgetVarianceLine {
+  budgetId: string;
+  budgetName: string;
+  categoryId: string;
+  accountId?: string;
+  limitType: 'soft' | 'hard';
+  periodStart: string;
+  periodEnd: string;
+  budgeted: number;
+  actual: number;
+  variance: number; // Positive when under budget
+  percentageUsed: number;
+  status: 'under_budget' | 'near_limit' | 'over_budget';
+}
+
+export interface BudgetVarianceReport {
+  dateRange: {
+    start: string;
+    end: string;
+  };
+  lines: BudgetVarianceLine[];
+  totals: {
+    budgeted: number;
+    actual: number;
+    variance: number;
+  };
+  generatedAt: string;
+}
+
+export interface FinancialReportGroup {
+  key: string;
+  label: string;
+  income: number;
+  expenses: number;
+  net: number;
+  transactionCount: number;
+}
+
+export interface BalanceSheetSummary {
+  asOf: string;
+  assets: Array<{ accountId: string; accountName: string; balance: number }>;
+  liabilities: Array<{ accountId: string; accountName: string; balance: number }>;
+  equity: Array<{ accountId: string; accountName: string; balance: number }>;
+  retainedEarnings: number;
+  totalAssets: number;
+  totalLiabilities: number;
+  totalEquity: number;
+  isBalanced: boolean;
+  difference: number;
+}
+
+export interface CashFlowSummary {
+  openingCash: number;
+  closingCash: number;
+  operating: number;
+  investing: number;
+  financing: number;
+  netChange: number;
+}
+
+// On the profit & loss, stock purchases (expensed when a delivery is received)
+// are replaced in totalExpenses by the cost of the stock sold and written off
+export interface CostOfGoodsSummary {
+  method: CostingMethod;
+  total: number;
+  shrinkage: number;
+  stockPurchases: number; // Delivery expenses in the period, taken out of totalExpenses
+  openingInventory: number;
+  closingInventory: number;
+  inventoryChange: number;
+}
+
+export interface RecurringOccurrence {
+  seriesId: string;
+  occurrenceIndex: number;
+  occurrenceDate: string;
+  amount: number;
+  description: string;
+  status: 'scheduled' | 'posted' | 'modified' | 'skipped';
+  transactionId?: string;
+}
+
+// Double-entry posting derived from a financial transaction
+export interface LedgerEntry {
+  transactionId: string;
+  date: string;
+  accountId: string;
+  accountType: 'asset' | 'liability' | 'equity' | 'revenue' | 'expense';
+  categoryId?: string;
+  debit: number;
+  credit: number;
+}
+
 // Business rule validation utilities
 export const validateFinanceBusinessRules = {
   canDeleteTransaction: (transaction: FinancialTransaction): { valid: boolean; reason?: string } => {
@@ -470,6 +790,26 @@ export const validateFinanceBusinessRules = {
     return { valid: true };
   },
 
+  validateApprovalWorkflow: (
+    transaction: Pick<FinancialTransaction, 'isApproved' | 'approvedBy' | 'staffMember'>
+  ): { valid: boolean; reason?: string } => {
+    if (transaction.isApproved && !transaction.approvedBy) {
+      return {
+        valid: false,
+        reason: 'Approved transactions must record who approved them'
+      };
+    }
+
+    if (transaction.isApproved && transaction.approvedBy === transaction.staffMember) {
+      return {
+        valid: false,
+        reason: 'Cannot approve your own transactions'
+      };
+    }
+
+    return { valid: true };
+  },
+
   canEditTransaction: (transaction: FinancialTransaction): { valid: boolean; reason?: string } => {
     if (transaction.isApproved) {
       return {
@@ -492,7 +832,10 @@ export const validateFinanceBusinessRules = {
     return { valid: true };
   },
 
-  checkBudgetCompliance: (transaction: FinancialTransaction, budget?: Budget): { valid: boolean; reason?: string; warning?: string } => {
+  checkBudgetCompliance: (
+    transaction: Pick<FinancialTransaction, 'type' | 'amount'>,
+    budget?: Budget
+  ): { valid: boolean; reason?: string; warning?: string; requiresApproval?: boolean } => {
     if (!budget || transaction.type !== 'expense') {
       return { valid: true };
     }
@@ -501,9 +844,18 @@ export const validateFinanceBusinessRules = {
     const budgetUsage = projectedSpend / budget.amount;
     
     if (budgetUsage > 1) {
+      const overspend = `$${(projectedSpend - budget.amount).toFixed(2)}`;
+      if (budget.limitType === 'hard') {
+        return {
+          valid: true,
+          requiresApproval: true,
+          reason: `Transaction would exceed budget "${budget.name}" by ${overspend} and requires approval`
+        };
+      }
+
       return {
-        valid: false,
-        reason: `Transaction would exceed budget by $${(projectedSpend - budget.amount).toFixed(2)}`
+        valid: true,
+        warning: `Transaction exceeds budget "${budget.name}" by ${overspend}`
       };
     }
     
@@ -542,10 +894,37 @@ export const validateFinanceBusinessRules = {
     };
   },
 
+  getOccurrenceDate: (
+    startDate: string,
+    pattern: { frequency: 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly'; interval: number },
+    index: number
+  ): string => {
+    // Always step from the start date so month-end dates don't drift (Jan 31 -> Feb 28 -> Mar 31)
+    const start = new Date(startDate);
+    const steps = index * pattern.interval;
+
+    if (pattern.frequency === 'daily' || pattern.frequency === 'weekly') {
+      const days = pattern.frequency === 'weekly' ? steps * 7 : steps;
+      return new Date(start.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+    }
+
+    const monthsPerStep = pattern.frequency === 'monthly' ? 1 : pattern.frequency === 'quarterly' ? 3 : 12;
+    const target = new Date(start);
+    target.setUTCDate(1);
+    target.setUTCMonth(start.getUTCMonth() + steps * monthsPerStep);
+    const lastDayOfMonth = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+    target.setUTCDate(Math.min(start.getUTCDate(), lastDayOfMonth));
+    return target.toISOString();
+  },
+
   calculateTaxAmount: (amount: number, taxRate: number): number => {
     return Math.round(amount * taxRate * 100) / 100;
   },
 
+  calculateInclusiveTaxAmount: (grossAmount: number, taxRate: number): number => {
+    return Math.round((grossAmount * taxRate / (1 + taxRate)) * 100) / 100;
+  },
+
   calculateNetAmount: (amount: number, taxAmount?: number): number => {
     return amount - (taxAmount || 0);
   }
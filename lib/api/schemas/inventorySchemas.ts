@@ -9,6 +9,12 @@ import { z } from 'zod';
 // Base validation schemas
 const PositiveNumberSchema = z.number().min(0, 'Value must be positive');
 const CurrencySchema = z.number().min(0, 'Price must be positive');
+const LocationNameSchema = z.string()
+  .min(1, 'Location is required')
+  .max(100, 'Location must be less than 100 characters')
+  .trim();
+
+export const InventoryUnitSchema = z.enum(['piece', 'box', 'case', 'bottle', 'kg', 'lb', 'liter', 'gallon', 'meter', 'yard']);
 
 // Inventory Category schemas
 const CategoryBaseFields = z.object({
@@ -46,8 +52,10 @@ const InventoryBaseFields = z.object({
     .trim()
     .regex(/^[A-Za-z0-9-_]+$/, 'SKU can only contain letters, numbers, hyphens, and underscores'),
   categoryId: z.string().uuid('Invalid category ID'),
-  unit: z.enum(['piece', 'box', 'case', 'bottle', 'kg', 'lb', 'liter', 'gallon', 'meter', 'yard'])
-    .describe('Unit of measurement for inventory'),
+  unit: InventoryUnitSchema.describe('Unit of measurement for inventory'),
+  // What one unit holds, e.g. a bottle holds 0.7 liter or a case holds 24 pieces
+  packSize: z.number().positive('Pack size must be greater than zero').optional(),
+  packUnit: InventoryUnitSchema.optional(),
   currentStock: PositiveNumberSchema.describe('Current stock quantity'),
   minStockLevel: PositiveNumberSchema.describe('Minimum stock level before reorder alert'),
   maxStockLevel: PositiveNumberSchema.describe('Maximum stock level for optimal inventory'),
@@ -58,6 +66,8 @@ const InventoryBaseFields = z.object({
   supplier: z.string()
     .max(200, 'Supplier name must be less than 200 characters')
     .optional(),
+  supplierId: z.string().uuid('Invalid supplier ID').optional()
+    .describe('Supplier that purchase orders for this item are raised with'),
   location: z.string()
     .max(100, 'Location must be less than 100 characters')
     .optional(),
@@ -98,6 +108,12 @@ export const CreateInventorySchema = InventoryBaseFields.refine(
     message: 'Selling price should be greater than cost price',
     path: ['sellPrice']
   }
+).refine(
+  (data) => (data.packSize === undefined) === (data.packUnit === undefined),
+  {
+    message: 'Pack size and pack unit must be set together',
+    path: ['packUnit']
+  }
 );
 
 // Inventory update schema
@@ -119,10 +135,10 @@ export const UpdateInventorySchema = z.object({
 // Stock transaction schemas
 const TransactionBaseFields = z.object({
   inventoryId: z.string().uuid('Invalid inventory ID'),
-  type: z.enum(['in', 'out', 'adjustment', 'transfer', 'damaged', 'expired'])
+  type: z.enum(['in', 'out', 'adjustment', 'adjustment_positive', 'adjustment_negative', 'transfer', 'damaged', 'expired'])
     .describe('Type of stock transaction'),
   quantity: z.number()
-    .min(0.01, 'Quantity must be greater than zero')
+    .positive('Quantity must be greater than zero')
     .describe('Transaction quantity'),
   reason: z.string()
     .min(1, 'Reason is required')
@@ -139,7 +155,11 @@ const TransactionBaseFields = z.object({
   relatedEntityType: z.enum(['sale', 'purchase', 'event', 'maintenance']).optional(),
   notes: z.string()
     .max(1000, 'Notes must be less than 1000 characters')
-    .optional()
+    .optional(),
+  location: LocationNameSchema.optional()
+    .describe('Location the stock comes into or goes out of; the item\'s home location by default'),
+  toLocation: LocationNameSchema.optional()
+    .describe('Where a transfer moves the stock to')
 });
 
 export const CreateTransactionSchema = TransactionBaseFields.refine(
@@ -166,8 +186,88 @@ export const CreateTransactionSchema = TransactionBaseFields.refine(
     message: 'Related entity type is required when related entity ID is provided',
     path: ['relatedEntityType']
   }
+).refine(
+  (data) => data.type !== 'transfer' || (!!data.location && !!data.toLocation && data.location !== data.toLocation),
+  {
+    message: 'Transfers need two different locations',
+    path: ['toLocation']
+  }
+).refine(
+  (data) => data.type === 'transfer' || !data.toLocation,
+  {
+    message: 'Only transfers have a destination location',
+    path: ['toLocation']
+  }
 );
 
+// Multi-location schemas
+export const TransferStockSchema = z.object({
+  inventoryId: z.string().uuid('Invalid inventory ID'),
+  fromLocation: LocationNameSchema,
+  toLocation: LocationNameSchema,
+  quantity: z.number().positive('Quantity must be greater than zero'),
+  reason: z.string()
+    .max(500, 'Reason must be less than 500 characters')
+    .optional(),
+  staffMember: z.string()
+    .max(100, 'Staff member name must be less than 100 characters')
+    .optional(),
+  notes: z.string()
+    .max(1000, 'Notes must be less than 1000 characters')
+    .optional()
+}).refine(
+  (data) => data.fromLocation !== data.toLocation,
+  {
+    message: 'Stock must be transferred to a different location',
+    path: ['toLocation']
+  }
+);
+
+export const UpdateLocationLevelsSchema = z.object({
+  locations: z.array(z.object({
+    location: LocationNameSchema,
+    reorderPoint: PositiveNumberSchema.optional()
+      .describe('Stock level at this location that triggers an alert; omit to clear it')
+  })).min(1, 'At least one location is required').max(20, 'Maximum 20 locations per item')
+});
+
+// Stock alert schemas
+export const StockAlertQuerySchema = z.object({
+  location: z.string().optional(),
+  inventoryId: z.string().uuid('Invalid inventory ID').optional(),
+  status: z.enum(['active', 'resolved', 'all']).default('active'),
+  includeSnoozed: z.boolean().default(true)
+});
+
+const AlertActionFields = z.object({
+  staffMember: z.string()
+    .max(100, 'Staff member name must be less than 100 characters')
+    .optional(),
+  note: z.string()
+    .max(500, 'Note must be less than 500 characters')
+    .optional()
+});
+
+export const AcknowledgeAlertSchema = AlertActionFields;
+
+export const SnoozeAlertSchema = AlertActionFields.extend({
+  until: z.string().datetime()
+}).refine(
+  (data) => new Date(data.until) > new Date(),
+  {
+    message: 'Snooze must end in the future',
+    path: ['until']
+  }
+);
+
+export const AssignAlertSchema = AlertActionFields.extend({
+  assignedTo: z.string()
+    .min(1, 'Assignee is required')
+    .max(100, 'Assignee name must be less than 100 characters')
+    .nullable()
+    .describe('Who is dealing with the alert; null to unassign')
+});
+
 // Query schemas
 export const InventoryQuerySchema = z.object({
   search: z.string().optional(),
@@ -190,6 +290,7 @@ export const InventoryQuerySchema = z.object({
   page: z.number().min(1).default(1),
   limit: z.number().min(1).max(100).default(20),
   offset: z.number().min(0).default(0),
+  cursor: z.string().optional(), // next_cursor of the previous page
   // Sorting
   sortBy: z.enum(['name', 'sku', 'currentStock', 'costPrice', 'sellPrice', 'lastUpdated']).default('name'),
   sortOrder: z.enum(['asc', 'desc']).default('asc')
@@ -197,7 +298,7 @@ export const InventoryQuerySchema = z.object({
 
 export const TransactionQuerySchema = z.object({
   inventoryId: z.string().uuid().optional(),
-  type: z.enum(['in', 'out', 'adjustment', 'transfer', 'damaged', 'expired']).optional(),
+  type: z.enum(['in', 'out', 'adjustment', 'adjustment_positive', 'adjustment_negative', 'transfer', 'damaged', 'expired']).optional(),
   staffMember: z.string().optional(),
   dateRange: z.object({
     start: z.string().datetime().optional(),
@@ -209,6 +310,7 @@ export const TransactionQuerySchema = z.object({
   page: z.number().min(1).default(1),
   limit: z.number().min(1).max(100).default(20),
   offset: z.number().min(0).default(0),
+  cursor: z.string().optional(), // next_cursor of the previous page
   // Sorting
   sortBy: z.enum(['date', 'type', 'quantity', 'staffMember']).default('date'),
   sortOrder: z.enum(['asc', 'desc']).default('desc')
@@ -218,9 +320,12 @@ export const TransactionQuerySchema = z.object({
 export const BulkStockAdjustmentSchema = z.object({
   adjustments: z.array(z.object({
     inventoryId: z.string().uuid(),
-    newQuantity: PositiveNumberSchema,
+    // Below zero only for items that allow negative stock
+    newQuantity: z.number(),
+    location: LocationNameSchema.optional().describe('Set the stock at this location rather than the item total'),
     reason: z.string().min(1).max(500)
   })).min(1).max(50, 'Maximum 50 adjustments per batch'),
+  reference: z.string().max(100).optional().describe('Shared reference, e.g. the stock count number'),
   staffMember: z.string().max(100).optional()
 });
 
@@ -244,6 +349,31 @@ export const TransactionIdSchema = z.object({
   id: z.string().uuid('Invalid transaction ID')
 });
 
+export const StockAlertIdSchema = z.object({
+  id: z.string().uuid('Invalid alert ID')
+});
+
+// Costing schemas
+export const CostingMethodSchema = z.enum(['fifo', 'weighted_average']);
+
+export const InventoryValuationQuerySchema = z.object({
+  asOf: z.string().datetime().optional().describe('Value stock as it stood at this moment; defaults to now'),
+  method: CostingMethodSchema.default('fifo')
+});
+
+export const CostOfGoodsSoldQuerySchema = z.object({
+  dateFrom: z.string().datetime(),
+  dateTo: z.string().datetime(),
+  method: CostingMethodSchema.default('fifo'),
+  eventId: z.string().uuid('Invalid event ID').optional()
+}).refine(
+  (data) => new Date(data.dateFrom) <= new Date(data.dateTo),
+  {
+    message: 'Start date must be before end date',
+    path: ['dateTo']
+  }
+);
+
 // Export TypeScript types
 export type CreateInventoryRequest = z.infer<typeof CreateInventorySchema>;
 export type UpdateInventoryRequest = z.infer<typeof UpdateInventorySchema>;
@@ -254,6 +384,16 @@ export type InventoryQueryRequest = z.infer<typeof InventoryQuerySchema>;
 export type TransactionQueryRequest = z.infer<typeof TransactionQuerySchema>;
 export type BulkStockAdjustmentRequest = z.infer<typeof BulkStockAdjustmentSchema>;
 export type StockAlertRequest = z.infer<typeof StockAlertSchema>;
+export type InventoryUnit = z.infer<typeof InventoryUnitSchema>;
+export type CostingMethod = z.infer<typeof CostingMethodSchema>;
+export type InventoryValuationQuery = z.input<typeof InventoryValuationQuerySchema>;
+export type CostOfGoodsSoldQuery = z.input<typeof CostOfGoodsSoldQuerySchema>;
+export type TransferStockRequest = z.infer<typeof TransferStockSchema>;
+export type UpdateLocationLevelsRequest = z.infer<typeof UpdateLocationLevelsSchema>;
+export type StockAlertQuery = z.input<typeof StockAlertQuerySchema>;
+export type AcknowledgeAlertRequest = z.infer<typeof AcknowledgeAlertSchema>;
+export type SnoozeAlertRequest = z.infer<typeof SnoozeAlertSchema>;
+export type AssignAlertRequest = z.infer<typeof AssignAlertSchema>;
 
 // Enhanced interfaces - Updated to match Supabase database schema
 export interface InventoryCategory {
@@ -297,11 +437,19 @@ export interface InventoryItem {
   };
   transactions?: InventoryTransaction[];
   alerts?: StockAlert[];
+  supplierId?: string;
+  location?: string; // Home location: where stock arrives and is taken from by default
+  locationStock?: LocationStockLevel[];
+  stockVersion?: number; // Bumped by stock movements, which leave updatedAt alone
   // Legacy compatibility fields
+  currentStock?: number;
   trackStock?: boolean;
   allowNegativeStock?: boolean;
   minStockLevel?: number;
   maxStockLevel?: number;
+  maxStock?: number;
+  reorderPoint?: number;
+  updatedAt?: string;
 }
 
 export interface InventoryTransaction {
@@ -316,6 +464,8 @@ export interface InventoryTransaction {
   related_entity_type?: string | null;
   created_at: string | null;
   updated_at: string | null;
+  location?: string; // Where the stock moved in or out; the source of a transfer
+  toLocation?: string; // Destination of a transfer
 }
 
 // Alias for compatibility with existing code
@@ -325,6 +475,7 @@ export interface StockAlert {
   id: string;
   inventoryId: string;
   alertType: 'low_stock' | 'out_of_stock' | 'overstock' | 'reorder_point';
+  location?: string; // Set when one location is low rather than the whole venue
   threshold?: number;
   currentValue: number;
   message: string;
@@ -333,7 +484,118 @@ export interface StockAlert {
   acknowledged: boolean;
   acknowledgedBy?: string;
   acknowledgedAt?: string;
-  createdAt: string;
+  createdAt: string; // When the alert was raised
+  // Persisted alert lifecycle
+  status?: 'active' | 'resolved';
+  snoozedUntil?: string;
+  assignedTo?: string;
+  resolvedAt?: string;
+  updatedAt?: string;
+  history?: StockAlertEvent[];
+}
+
+export interface StockAlertEvent {
+  action: 'raised' | 'acknowledged' | 'snoozed' | 'assigned' | 'resolved';
+  at: string;
+  by?: string;
+  note?: string;
+  value?: number; // Stock level when the event happened
+}
+
+// One open alert per item, alert type and location
+export const getStockAlertKey = (alert: Pick<StockAlert, 'inventoryId' | 'alertType' | 'location'>): string =>
+  [alert.inventoryId, alert.alertType, alert.location || ''].join(':');
+
+// Stock held at one location
+export interface LocationStockLevel {
+  location: string;
+  quantity: number;
+  reorderPoint?: number;
+}
+
+// Outcome of a bulk adjustment: one transaction per item whose stock changed
+export interface BulkStockAdjustmentResult {
+  transactions: StockTransaction[];
+  failures: Array<{ itemId: string; reason: string }>;
+}
+
+// A stock movement as far as costing is concerned
+export interface StockMovement {
+  type: string;
+  quantity: number;
+  unitCost?: number;
+  date: string;
+  relatedEntityId?: string;
+  relatedEntityType?: string;
+}
+
+// Units still on hand from one receipt, at what they cost
+export interface CostLayer {
+  quantity: number;
+  unitCost: number;
+  receivedAt: string;
+}
+
+// Units taken out of stock and the cost they carried out with them
+export interface CostedConsumption extends StockMovement {
+  cost: number;
+}
+
+export interface CostFlow {
+  method: CostingMethod;
+  layers: CostLayer[]; // Oldest first; a single averaged layer for weighted average
+  quantityOnHand: number;
+  valueOnHand: number;
+  consumptions: CostedConsumption[];
+}
+
+export interface InventoryValuationLine {
+  itemId: string;
+  name: string;
+  sku?: string;
+  quantityOnHand: number;
+  unitCost: number; // Value on hand / quantity on hand
+  value: number;
+  layers: CostLayer[];
+}
+
+export interface InventoryValuation {
+  asOf: string;
+  method: CostingMethod;
+  items: InventoryValuationLine[];
+  totalValue: number;
+}
+
+export interface CostOfGoodsSold {
+  dateRange: {
+    start: string;
+    end: string;
+  };
+  method: CostingMethod;
+  eventId?: string;
+  total: number; // Cost of stock sold or used
+  shrinkage: number; // Cost of stock written off as damaged or expired
+  openingValue: number;
+  closingValue: number;
+  items: Array<{
+    itemId: string;
+    name: string;
+    quantity: number;
+    cost: number;
+    shrinkageQuantity: number;
+    shrinkageCost: number;
+  }>;
+  events: Array<{ eventId: string; cost: number }>;
+}
+
+export interface InventoryItemMetrics {
+  method: CostingMethod;
+  turnoverRate: number; // Cost of goods sold over the last year / current value on hand
+  averageCost: number;
+  profitMargin: number | null; // Percent of the sell price, when the item has one
+  daysOfSupply: number | null; // At the last 30 days' usage; null when nothing was used
+  lastRestockDate: string | null;
+  totalValueOnHand: number;
 }
 
 // Business rule validation utilities
@@ -373,7 +635,7 @@ export const validateInventoryBusinessRules = {
   canProcessTransaction: (item: InventoryItem, transaction: { type: string; quantity: number }): { valid: boolean; reason?: string } => {
     const trackStock = item.trackStock ?? true;
     const allowNegativeStock = item.allowNegativeStock ?? false;
-    const currentStock = item.current_stock ?? 0;
+    const currentStock = item.current_stock ?? item.currentStock ?? 0;
     
     if (!trackStock && transaction.type !== 'adjustment') {
       return {
@@ -459,6 +721,188 @@ export const validateInventoryBusinessRules = {
   }
 };
 
+// Outbound movements that lose stock rather than sell it
+export const SHRINKAGE_TRANSACTION_TYPES = ['damaged', 'expired', 'adjustment_negative'];
+
+const INBOUND_TYPES = ['in', 'adjustment_positive'];
+// Transfers without a destination predate multi-location stock and took stock out of the venue
+const OUTBOUND_TYPES = ['out', 'adjustment_negative', 'damaged', 'expired', 'transfer'];
+
+const QUANTITY_EPSILON = 1e-9; // Ignore float residue from fractional depletions
+
+// Where an item's stock is kept when it has no home location
+export const DEFAULT_STOCK_LOCATION = 'Unassigned';
+
+const roundQuantity = (value: number): number => Math.round(value * 10000) / 10000;
+
+/**
+ * Stock per location for an item. Items that were never split across locations
+ * hold all their stock at their home location, and stock changed without a
+ * location (e.g. an edit of the venue-wide total) is reconciled there too.
+ */
+export const getLocationStock = (item: {
+  currentStock?: number;
+  location?: string;
+  reorderPoint?: number;
+  locationStock?: LocationStockLevel[];
+}): LocationStockLevel[] => {
+  const homeLocation = item.location || DEFAULT_STOCK_LOCATION;
+  const currentStock = item.currentStock ?? 0;
+  const levels = (item.locationStock || []).map(level => ({ ...level }));
+
+  if (levels.length === 0) {
+    return [{ location: homeLocation, quantity: currentStock, reorderPoint: item.reorderPoint }];
+  }
+
+  const difference = roundQuantity(currentStock - levels.reduce((sum, level) => sum + level.quantity, 0));
+  if (difference !== 0) {
+    const home = levels.find(level => level.location === homeLocation);
+    if (home) {
+      home.quantity = roundQuantity(home.quantity + difference);
+    } else {
+      levels.push({ location: homeLocation, quantity: difference });
+    }
+  }
+  return levels;
+};
+
+/**
+ * Apply a stock movement to per-location levels. Stock comes into the given
+ * location or the home location. Stock going out without a location is taken
+ * from the home location first, then from the locations holding the most.
+ * A transfer takes from one location and adds to the other.
+ */
+export const moveLocationStock = (
+  levels: LocationStockLevel[],
+  homeLocation: string,
+  movement: { type: string; quantity: number; location?: string; toLocation?: string },
+  allowNegativeStock = false
+): { valid: boolean; reason?: string; levels: LocationStockLevel[] } => {
+  const next = levels.map(level => ({ ...level }));
+  const levelAt = (location: string): LocationStockLevel => {
+    let level = next.find(candidate => candidate.location === location);
+    if (!level) {
+      level = { location, quantity: 0 };
+      next.push(level);
+    }
+    return level;
+  };
+  const takeFrom = (location: string): { valid: boolean; reason?: string; levels: LocationStockLevel[] } => {
+    const level = levelAt(location);
+    if (level.quantity < movement.quantity - QUANTITY_EPSILON && !allowNegativeStock) {
+      return { valid: false, reason: `Only ${level.quantity} in stock at ${location}`, levels };
+    }
+    level.quantity = roundQuantity(level.quantity - movement.quantity);
+    return { valid: true, levels: next };
+  };
+
+  if (movement.type === 'transfer' && movement.toLocation) {
+    const taken = takeFrom(movement.location || homeLocation);
+    if (taken.valid) {
+      const destination = levelAt(movement.toLocation);
+      destination.quantity = roundQuantity(destination.quantity + movement.quantity);
+    }
+    return taken;
+  }
+
+  if (INBOUND_TYPES.includes(movement.type)) {
+    const level = levelAt(movement.location || homeLocation);
+    level.quantity = roundQuantity(level.quantity + movement.quantity);
+    return { valid: true, levels: next };
+  }
+
+  if (!OUTBOUND_TYPES.includes(movement.type)) {
+    return { valid: true, levels: next };
+  }
+
+  if (movement.location) {
+    return takeFrom(movement.location);
+  }
+
+  // No location given: drain the home location first, then the fullest ones;
+  // anything left over is booked against the home location
+  let remaining = movement.quantity;
+  const home = levelAt(homeLocation);
+  const sources = [home, ...next.filter(level => level !== home).sort((a, b) => b.quantity - a.quantity)];
+  for (const level of sources) {
+    const taken = Math.min(Math.max(level.quantity, 0), remaining);
+    level.quantity = roundQuantity(level.quantity - taken);
+    remaining -= taken;
+  }
+  if (remaining > QUANTITY_EPSILON) {
+    home.quantity = roundQuantity(home.quantity - remaining);
+  }
+  return { valid: true, levels: next };
+};
+
+const roundUnitCost = (value: number): number => Math.round(value * 10000) / 10000;
+
+/**
+ * Run stock movements through FIFO layers or a moving weighted average and
+ * return what is left on hand and what each outbound movement cost. Movements
+ * must be in date order. Receipts without a cost, and stock that was on hand
+ * before the first movement, are costed at the fallback unit cost. Taking out
+ * more than is on hand costs the shortfall at the most recent unit cost.
+ */
+export const calculateCostFlow = (
+  movements: StockMovement[],
+  method: CostingMethod,
+  opening: { quantity: number; unitCost: number; date: string }
+): CostFlow => {
+  let layers: CostLayer[] = opening.quantity > 0
+    ? [{ quantity: opening.quantity, unitCost: opening.unitCost, receivedAt: opening.date }]
+    : [];
+  let lastUnitCost = opening.unitCost;
+  const consumptions: CostedConsumption[] = [];
+
+  for (const movement of movements) {
+    if (INBOUND_TYPES.includes(movement.type)) {
+      const unitCost = movement.unitCost ?? opening.unitCost;
+      lastUnitCost = unitCost;
+      if (method === 'fifo' || layers.length === 0) {
+        layers.push({ quantity: movement.quantity, unitCost, receivedAt: movement.date });
+      } else {
+        const [current] = layers;
+        const quantity = current.quantity + movement.quantity;
+        layers = [{
+          quantity,
+          unitCost: roundUnitCost((current.quantity * current.unitCost + movement.quantity * unitCost) / quantity),
+          receivedAt: movement.date
+        }];
+      }
+    } else if (OUTBOUND_TYPES.includes(movement.type)) {
+      let remaining = movement.quantity;
+      let cost = 0;
+      while (remaining > QUANTITY_EPSILON && layers.length > 0) {
+        const layer = layers[0];
+        const taken = Math.min(layer.quantity, remaining);
+        cost += taken * layer.unitCost;
+        lastUnitCost = layer.unitCost;
+        remaining -= taken;
+        layer.quantity -= taken;
+        if (layer.quantity <= QUANTITY_EPSILON) {
+          layers.shift();
+        }
+      }
+      if (remaining > QUANTITY_EPSILON) {
+        cost += remaining * lastUnitCost;
+      }
+      consumptions.push({ ...movement, cost: Math.round(cost * 100) / 100 });
+    }
+  }
+
+  const quantityOnHand = layers.reduce((sum, layer) => sum + layer.quantity, 0);
+  const valueOnHand = layers.reduce((sum, layer) => sum + layer.quantity * layer.unitCost, 0);
+
+  return {
+    method,
+    layers,
+    quantityOnHand: roundUnitCost(quantityOnHand),
+    valueOnHand: Math.round(valueOnHand * 100) / 100,
+    consumptions
+  };
+};
+
 // Legacy compatibility type aliases
 export type CreateInventoryItemRequest = CreateInventoryRequest;
 export type UpdateInventoryItemRequest = UpdateInventoryRequest;
@@ -0,0 +1,236 @@
+/**
+ * Purchasing Schemas - Train Station Dashboard API Standards
+ * Validation schemas for Suppliers and Purchase Orders, including partial
+ * receiving against an order
+ */
+
+import { z } from 'zod';
+import type { StockTransaction } from './inventorySchemas';
+import type { FinancialTransaction } from './financeSchemas';
+
+// Base validation schemas
+const QuantitySchema = z.number().positive('Quantity must be greater than zero');
+const CurrencySchema = z.number().min(0, 'Cost must be positive');
+
+// Supplier schemas
+const SupplierBaseFields = z.object({
+  name: z.string()
+    .min(1, 'Supplier name is required')
+    .max(200, 'Supplier name must be less than 200 characters')
+    .trim(),
+  contactName: z.string()
+    .max(100, 'Contact name must be less than 100 characters')
+    .optional(),
+  email: z.string().email('Invalid email format').optional(),
+  phone: z.string()
+    .max(30, 'Phone number must be less than 30 characters')
+    .optional(),
+  address: z.string()
+    .max(500, 'Address must be less than 500 characters')
+    .optional(),
+  leadTimeDays: z.number()
+    .int('Lead time must be a whole number of days')
+    .min(0, 'Lead time cannot be negative')
+    .max(365, 'Lead time cannot exceed 365 days')
+    .default(7)
+    .describe('Days between ordering and delivery'),
+  // Where receipts from this supplier are booked in the finance ledger
+  expenseAccountId: z.string().uuid('Invalid account ID').optional(),
+  expenseCategoryId: z.string().uuid('Invalid category ID').optional(),
+  notes: z.string()
+    .max(1000, 'Notes must be less than 1000 characters')
+    .optional(),
+  isActive: z.boolean().default(true)
+});
+
+export const CreateSupplierSchema = SupplierBaseFields;
+
+export const UpdateSupplierSchema = z.object({
+  id: z.string().uuid('Invalid supplier ID')
+}).merge(SupplierBaseFields.partial());
+
+// Purchase order schemas
+const PurchaseOrderLineFields = z.object({
+  itemId: z.string().uuid('Invalid inventory ID'),
+  quantity: QuantitySchema.describe('Quantity ordered'),
+  unitCost: CurrencySchema.describe('Agreed cost per unit')
+});
+
+export const CreatePurchaseOrderSchema = z.object({
+  supplierId: z.string().uuid('Invalid supplier ID'),
+  lines: z.array(PurchaseOrderLineFields)
+    .min(1, 'A purchase order needs at least one line')
+    .max(100, 'Maximum 100 lines per purchase order'),
+  expectedDate: z.string().datetime().optional(),
+  notes: z.string()
+    .max(1000, 'Notes must be less than 1000 characters')
+    .optional()
+}).refine(
+  (data) => new Set(data.lines.map(line => line.itemId)).size === data.lines.length,
+  {
+    message: 'Each item can only appear once per purchase order',
+    path: ['lines']
+  }
+);
+
+export const ReceivePurchaseOrderSchema = z.object({
+  lines: z.array(z.object({
+    lineId: z.string().uuid('Invalid purchase order line ID'),
+    quantity: QuantitySchema.describe('Quantity received in this delivery'),
+    unitCost: CurrencySchema.optional().describe('Invoiced cost per unit, if it differs from the order')
+  })).min(1, 'Receive at least one line').max(100, 'Maximum 100 lines per delivery'),
+  reference: z.string()
+    .max(100, 'Reference must be less than 100 characters')
+    .optional()
+    .describe('Delivery note or invoice number'),
+  // Override the supplier's finance defaults for this delivery
+  accountId: z.string().uuid('Invalid account ID').optional(),
+  categoryId: z.string().uuid('Invalid category ID').optional(),
+  staffMember: z.string()
+    .max(100, 'Staff member name must be less than 100 characters')
+    .optional(),
+  receivedAt: z.string().datetime().optional()
+});
+
+export const PurchaseOrderQuerySchema = z.object({
+  supplierId: z.string().uuid().optional(),
+  status: z.enum(['draft', 'ordered', 'partially_received', 'received', 'cancelled']).optional()
+});
+
+// ID validation schemas
+export const SupplierIdSchema = z.object({
+  id: z.string().uuid('Invalid supplier ID')
+});
+
+export const PurchaseOrderIdSchema = z.object({
+  id: z.string().uuid('Invalid purchase order ID')
+});
+
+// Export TypeScript types
+export type CreateSupplierRequest = z.input<typeof CreateSupplierSchema>;
+export type UpdateSupplierRequest = z.infer<typeof UpdateSupplierSchema>;
+export type CreatePurchaseOrderRequest = z.infer<typeof CreatePurchaseOrderSchema>;
+export type ReceivePurchaseOrderRequest = z.infer<typeof ReceivePurchaseOrderSchema>;
+export type PurchaseOrderQueryRequest = z.infer<typeof PurchaseOrderQuerySchema>;
+
+export type PurchaseOrderStatus = 'draft' | 'ordered' | 'partially_received' | 'received' | 'cancelled';
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  leadTimeDays: number;
+  expenseAccountId?: string;
+  expenseCategoryId?: string;
+  notes?: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PurchaseOrderLine {
+  id: string;
+  itemId: string;
+  itemName?: string;
+  quantityOrdered: number;
+  quantityReceived: number;
+  unitCost: number;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  orderNumber: string;
+  supplierId: string;
+  supplier?: Supplier;
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  total: number;
+  expectedDate?: string;
+  orderedAt?: string;
+  receivedAt?: string;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Outcome of receiving a delivery against a purchase order
+export interface PurchaseOrderReceipt {
+  purchaseOrder: PurchaseOrder;
+  stockTransactions: StockTransaction[];
+  expense?: FinancialTransaction;
+}
+
+// Outcome of drafting purchase orders from reorder alerts
+export interface PurchaseOrderDrafts {
+  orders: PurchaseOrder[];
+  unassignedItemIds: string[]; // Items at their reorder point with no supplier to order from
+}
+
+// What the bar sees: stock on the shelf vs. stock on its way
+export interface StockPosition {
+  itemId: string;
+  name: string;
+  sku?: string;
+  unit?: string;
+  supplierId?: string;
+  onHand: number;
+  onOrder: number;
+  reorderPoint: number;
+  needsReorder: boolean; // On hand plus on order is still at or below the reorder point
+}
+
+// Business rule validation utilities
+export const validatePurchasingBusinessRules = {
+  canSubmit: (order: PurchaseOrder): { valid: boolean; reason?: string } => {
+    if (order.status !== 'draft') {
+      return { valid: false, reason: `Purchase order has already been ${order.status.replace('_', ' ')}` };
+    }
+    return { valid: true };
+  },
+
+  canCancel: (order: PurchaseOrder): { valid: boolean; reason?: string } => {
+    if (order.status !== 'draft' && order.status !== 'ordered') {
+      return { valid: false, reason: 'Only purchase orders with nothing received can be cancelled' };
+    }
+    return { valid: true };
+  },
+
+  canReceive: (
+    order: PurchaseOrder,
+    receipt: Array<{ lineId: string; quantity: number }>
+  ): { valid: boolean; reason?: string } => {
+    if (order.status !== 'ordered' && order.status !== 'partially_received') {
+      return { valid: false, reason: `Cannot receive against a ${order.status.replace('_', ' ')} purchase order` };
+    }
+
+    for (const received of receipt) {
+      const line = order.lines.find(l => l.id === received.lineId);
+      if (!line) {
+        return { valid: false, reason: `Line ${received.lineId} is not on this purchase order` };
+      }
+
+      const outstanding = line.quantityOrdered - line.quantityReceived;
+      if (received.quantity > outstanding) {
+        return {
+          valid: false,
+          reason: `Only ${outstanding} of ${line.itemName || 'this item'} is still outstanding`
+        };
+      }
+    }
+
+    return { valid: true };
+  },
+
+  getStatusAfterReceipt: (lines: PurchaseOrderLine[]): PurchaseOrderStatus => {
+    const fullyReceived = lines.every(line => line.quantityReceived >= line.quantityOrdered);
+    return fullyReceived ? 'received' : 'partially_received';
+  },
+
+  calculateOrderTotal: (lines: Array<Pick<PurchaseOrderLine, 'quantityOrdered' | 'unitCost'>>): number => {
+    const total = lines.reduce((sum, line) => sum + line.quantityOrdered * line.unitCost, 0);
+    return Math.round(total * 100) / 100;
+  }
+};
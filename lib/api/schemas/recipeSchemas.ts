@@ -0,0 +1,225 @@
+/**
+ * Recipe Schemas - Train Station Dashboard API Standards
+ * Validation schemas for Recipes (bills of materials for products sold at the bar),
+ * product sales and Square sales imports, plus unit conversion between inventory units
+ */
+
+import { z } from 'zod';
+import { InventoryUnitSchema, type InventoryUnit, type StockTransaction } from './inventorySchemas';
+
+// Recipe schemas
+const RecipeComponentFields = z.object({
+  itemId: z.string().uuid('Invalid inventory ID'),
+  quantity: z.number().positive('Quantity must be greater than zero')
+    .describe('Amount of the item used per product sold'),
+  unit: InventoryUnitSchema.describe('Unit the quantity is measured in')
+});
+
+const RecipeBaseFields = z.object({
+  name: z.string()
+    .min(1, 'Recipe name is required')
+    .max(150, 'Recipe name must be less than 150 characters')
+    .trim(),
+  squareCatalogObjectId: z.string()
+    .max(100, 'Square catalog ID must be less than 100 characters')
+    .optional()
+    .describe('Square item variation sold as this product'),
+  sellPrice: z.number().min(0, 'Price must be positive').optional(),
+  components: z.array(RecipeComponentFields)
+    .min(1, 'A recipe needs at least one component')
+    .max(30, 'Maximum 30 components per recipe'),
+  notes: z.string()
+    .max(1000, 'Notes must be less than 1000 characters')
+    .optional(),
+  isActive: z.boolean().default(true)
+});
+
+const hasUniqueComponents = (data: { components?: Array<{ itemId: string }> }) =>
+  !data.components || new Set(data.components.map(component => component.itemId)).size === data.components.length;
+
+export const CreateRecipeSchema = RecipeBaseFields.refine(hasUniqueComponents, {
+  message: 'Each item can only appear once per recipe',
+  path: ['components']
+});
+
+export const UpdateRecipeSchema = z.object({
+  id: z.string().uuid('Invalid recipe ID')
+}).merge(RecipeBaseFields.partial()).refine(hasUniqueComponents, {
+  message: 'Each item can only appear once per recipe',
+  path: ['components']
+});
+
+// Sale schemas
+export const RecordSaleSchema = z.object({
+  recipeId: z.string().uuid('Invalid recipe ID'),
+  quantity: z.number()
+    .int('Quantity must be a whole number')
+    .positive('Quantity must be greater than zero')
+    .max(1000, 'Quantity cannot exceed 1000'),
+  soldAt: z.string().datetime().optional(),
+  eventId: z.string().uuid('Invalid event ID').optional()
+    .describe('Event the sale was made at, for cost of goods sold per event'),
+  reference: z.string()
+    .max(100, 'Reference must be less than 100 characters')
+    .optional(),
+  staffMember: z.string()
+    .max(100, 'Staff member name must be less than 100 characters')
+    .optional()
+});
+
+// Orders as returned by the Square Orders API; only the fields we need are validated
+const SquareLineItemSchema = z.object({
+  uid: z.string().optional(),
+  catalog_object_id: z.string().optional(),
+  name: z.string().optional(),
+  quantity: z.string().regex(/^\d+(\.\d+)?$/, 'Invalid Square quantity')
+}).passthrough();
+
+const SquareOrderSchema = z.object({
+  id: z.string().min(1, 'Square order ID is required'),
+  state: z.string().optional(),
+  created_at: z.string().optional(),
+  line_items: z.array(SquareLineItemSchema).default([])
+}).passthrough();
+
+export const ImportSquareSalesSchema = z.object({
+  orders: z.array(SquareOrderSchema)
+    .min(1, 'At least one order is required')
+    .max(200, 'Maximum 200 orders per import'),
+  eventId: z.string().uuid('Invalid event ID').optional()
+    .describe('Event the orders were taken at'),
+  staffMember: z.string()
+    .max(100, 'Staff member name must be less than 100 characters')
+    .optional()
+});
+
+// ID validation schemas
+export const RecipeIdSchema = z.object({
+  id: z.string().uuid('Invalid recipe ID')
+});
+
+// Export TypeScript types
+export type RecipeComponent = z.infer<typeof RecipeComponentFields>;
+export type CreateRecipeRequest = z.input<typeof CreateRecipeSchema>;
+export type UpdateRecipeRequest = z.infer<typeof UpdateRecipeSchema>;
+export type RecordSaleRequest = z.infer<typeof RecordSaleSchema>;
+export type SquareOrder = z.input<typeof SquareOrderSchema>;
+export type ImportSquareSalesRequest = z.input<typeof ImportSquareSalesSchema>;
+
+export interface Recipe {
+  id: string;
+  name: string;
+  squareCatalogObjectId?: string;
+  sellPrice?: number;
+  components: RecipeComponent[];
+  notes?: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProductSale {
+  id: string;
+  recipeId: string;
+  quantity: number;
+  source: 'manual' | 'square';
+  externalId?: string; // Square order and line item, so imports are never counted twice
+  eventId?: string;
+  reference?: string;
+  soldAt: string;
+  depletedAt?: string; // Set once the components are taken out of stock
+  createdAt: string;
+}
+
+// Outcome of recording a sale: one stock transaction per component
+export interface SaleDepletion {
+  sale: ProductSale;
+  transactions: StockTransaction[];
+  failures: Array<{ itemId: string; reason: string }>; // Components that could not be depleted
+}
+
+export interface SquareSalesImport {
+  sales: SaleDepletion[];
+  duplicates: string[]; // Square line items imported before
+  unmatched: string[]; // Square line items with no recipe
+}
+
+// An inventory item as far as unit conversion is concerned
+export interface UnitConvertible {
+  unit: InventoryUnit;
+  packSize?: number;
+  packUnit?: InventoryUnit;
+}
+
+// Units with a fixed relationship, expressed in a base unit per dimension
+const FIXED_UNITS: Partial<Record<InventoryUnit, { dimension: string; factor: number }>> = {
+  piece: { dimension: 'count', factor: 1 },
+  liter: { dimension: 'volume', factor: 1 },
+  gallon: { dimension: 'volume', factor: 3.785411784 },
+  kg: { dimension: 'mass', factor: 1 },
+  lb: { dimension: 'mass', factor: 0.45359237 },
+  meter: { dimension: 'length', factor: 1 },
+  yard: { dimension: 'length', factor: 0.9144 }
+};
+
+const convertFixed = (quantity: number, from: InventoryUnit, to: InventoryUnit): number | null => {
+  if (from === to) {
+    return quantity;
+  }
+  const fromUnit = FIXED_UNITS[from];
+  const toUnit = FIXED_UNITS[to];
+  if (!fromUnit || !toUnit || fromUnit.dimension !== toUnit.dimension) {
+    return null;
+  }
+  return quantity * fromUnit.factor / toUnit.factor;
+};
+
+/**
+ * Convert a quantity into the unit an item is stocked in. Containers (bottle,
+ * case, box) convert through the item's pack size in either direction, e.g.
+ * 0.05 liter of an item stocked by the 0.7 liter bottle is 0.0714 bottle, and
+ * one bottle of an item stocked by the liter is 0.7 liter. Returns null when
+ * the units don't relate.
+ */
+export const convertToItemUnit = (quantity: number, from: InventoryUnit, item: UnitConvertible): number | null => {
+  const direct = convertFixed(quantity, from, item.unit);
+  if (direct !== null) {
+    return direct;
+  }
+
+  if (item.packSize && item.packUnit) {
+    // Into the container the item is stocked in
+    const inPackUnits = convertFixed(quantity, from, item.packUnit);
+    if (inPackUnits !== null) {
+      return inPackUnits / item.packSize;
+    }
+
+    // Out of the container the item comes in
+    if (!FIXED_UNITS[from]) {
+      return convertFixed(quantity * item.packSize, item.packUnit, item.unit);
+    }
+  }
+
+  return null;
+};
+
+// Business rule validation utilities
+export const validateRecipeBusinessRules = {
+  canRecordSale: (recipe: Recipe): { valid: boolean; reason?: string } => {
+    if (!recipe.isActive) {
+      return { valid: false, reason: `${recipe.name} is no longer on sale` };
+    }
+    return { valid: true };
+  },
+
+  canUseComponent: (component: RecipeComponent, item: UnitConvertible & { name?: string }): { valid: boolean; reason?: string } => {
+    if (convertToItemUnit(component.quantity, component.unit, item) === null) {
+      const packHint = item.packUnit ? '' : ' Set a pack size on the item to convert to and from its containers.';
+      return {
+        valid: false,
+        reason: `${item.name || 'Item'} is stocked by the ${item.unit} and cannot be measured in ${component.unit}.${packHint}`
+      };
+    }
+    return { valid: true };
+  }
+};
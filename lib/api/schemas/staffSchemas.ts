@@ -171,6 +171,10 @@ const ScheduleBaseFields = z.object({
   location: z.string()
     .max(200, 'Location must be less than 200 characters')
     .optional(),
+  role: z.string()
+    .max(50, 'Role must be less than 50 characters')
+    .optional()
+    .describe('Position worked on this shift, e.g. bar, door or sound'),
   isRecurring: z.boolean().default(false),
   recurringPattern: z.object({
     frequency: z.enum(['daily', 'weekly', 'monthly']),
@@ -185,7 +189,11 @@ const ScheduleBaseFields = z.object({
     .optional()
 });
 
-export const CreateScheduleSchema = ScheduleBaseFields.refine(
+export const CreateScheduleSchema = ScheduleBaseFields.extend({
+  // Recurring schedules: create the repeats that fit and report the ones that
+  // clash, instead of refusing the whole series
+  skipConflicts: z.boolean().default(false)
+}).refine(
   (data) => new Date(data.endTime) > new Date(data.startTime),
   {
     message: 'End time must be after start time',
@@ -220,6 +228,170 @@ export const UpdateScheduleSchema = z.object({
   id: z.string().uuid('Invalid schedule ID')
 }).merge(ScheduleBaseFields.partial());
 
+// Shift template schemas
+const TimeOfDaySchema = z.string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:mm format');
+
+const ShiftTemplateSlotSchema = z.object({
+  dayOfWeek: z.number().int().min(0).max(6), // 0=Sunday, 6=Saturday
+  startTime: TimeOfDaySchema,
+  endTime: TimeOfDaySchema, // Before startTime for shifts that end after midnight
+  role: z.string()
+    .min(1, 'Role is required')
+    .max(50, 'Role must be less than 50 characters'),
+  headcount: z.number().int().min(1, 'At least one person per slot').max(50),
+  shiftType: z.enum(['regular', 'overtime', 'event', 'training', 'meeting', 'other']).default('regular'),
+  title: z.string().max(200, 'Title must be less than 200 characters').optional(),
+  location: z.string().max(200, 'Location must be less than 200 characters').optional(),
+  // Regulars who usually work this slot, used when the template is applied
+  staffIds: z.array(z.string().uuid('Invalid staff ID')).optional()
+}).refine(
+  (data) => data.startTime !== data.endTime,
+  {
+    message: 'End time must differ from start time',
+    path: ['endTime']
+  }
+);
+
+export const CreateShiftTemplateSchema = z.object({
+  name: z.string()
+    .min(1, 'Template name is required')
+    .max(100, 'Template name must be less than 100 characters')
+    .trim(),
+  description: z.string()
+    .max(500, 'Description must be less than 500 characters')
+    .optional(),
+  slots: z.array(ShiftTemplateSlotSchema)
+    .min(1, 'A template needs at least one slot')
+    .max(50, 'A template can have at most 50 slots')
+});
+
+export const UpdateShiftTemplateSchema = z.object({
+  id: z.string().uuid('Invalid template ID')
+}).merge(CreateShiftTemplateSchema.partial());
+
+export const ApplyShiftTemplateSchema = z.object({
+  templateId: z.string().uuid('Invalid template ID'),
+  weekStart: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Week start must be a date (YYYY-MM-DD)')
+    .refine(date => new Date(`${date}T00:00:00`).getDay() === 1, 'Week start must be a Monday'),
+  // Staff for particular slots this week, replacing the slot's regulars
+  assignments: z.array(z.object({
+    slotIndex: z.number().int().min(0),
+    staffIds: z.array(z.string().uuid('Invalid staff ID'))
+  })).optional(),
+  skipConflicts: z.boolean().default(false)
+});
+
+// Event staffing schemas
+export const StaffingRatioSchema = z.object({
+  department: z.enum([
+    'management', 'events', 'finance', 'marketing', 'operations',
+    'security', 'maintenance', 'customer_service', 'technical'
+  ]),
+  role: z.string().min(1, 'Role is required').max(50, 'Role must be less than 50 characters'),
+  guestsPerStaff: z.number().int().min(1).max(10000)
+    .describe('Expected guests each member of staff can look after'),
+  minimum: z.number().int().min(0).max(50).default(0),
+  requiredCertification: z.string().max(100).optional()
+    .describe('Certification staff need to be proposed for this role, e.g. door supervisor licence')
+});
+
+export const StaffingSettingsSchema = z.object({
+  // Share of capacity to staff for while ticket sales are still low
+  expectedFill: z.number().min(0.1).max(1).default(0.85),
+  weeklyHourLimit: z.number().min(1).max(80).default(40),
+  callMinutes: z.number().int().min(0).max(240).default(60)
+    .describe('How long before the event starts staff are called in'),
+  wrapMinutes: z.number().int().min(0).max(240).default(30)
+    .describe('How long after the event ends staff stay on'),
+  ratios: z.array(StaffingRatioSchema).min(1).max(30)
+});
+
+export const EventStaffingPlanSchema = z.object({
+  eventId: z.string().uuid('Invalid event ID')
+});
+
+export const CreateEventShiftsSchema = z.object({
+  eventId: z.string().uuid('Invalid event ID'),
+  assignments: z.array(z.object({
+    staffId: z.string().uuid('Invalid staff ID'),
+    role: z.string().min(1).max(50)
+  })).min(1, 'Choose at least one member of staff').max(200),
+  skipConflicts: z.boolean().default(false)
+});
+
+// Availability, time off and shift request schemas
+const AvailabilityEntrySchema = z.object({
+  dayOfWeek: z.number().int().min(0).max(6), // 0=Sunday, 6=Saturday
+  startTime: TimeOfDaySchema,
+  endTime: TimeOfDaySchema, // Before startTime for windows that end after midnight
+  preference: z.enum(['unavailable', 'preferred']).default('unavailable')
+}).refine(
+  (data) => data.startTime !== data.endTime,
+  {
+    message: 'End time must differ from start time',
+    path: ['endTime']
+  }
+);
+
+export const SetAvailabilitySchema = z.object({
+  staffId: z.string().uuid('Invalid staff ID'),
+  entries: z.array(AvailabilityEntrySchema).max(50, 'Maximum 50 availability entries')
+});
+
+export const CreateTimeOffSchema = z.object({
+  staffId: z.string().uuid('Invalid staff ID'),
+  startDate: z.string().datetime(),
+  endDate: z.string().datetime(),
+  reason: z.string().max(500, 'Reason must be less than 500 characters').optional()
+}).refine(
+  (data) => new Date(data.endDate) > new Date(data.startDate),
+  {
+    message: 'End date must be after start date',
+    path: ['endDate']
+  }
+);
+
+export const TimeOffQuerySchema = z.object({
+  staffId: z.string().uuid().optional(),
+  status: z.enum(['pending', 'approved', 'declined']).optional()
+});
+
+export const ReviewRequestSchema = z.object({
+  decision: z.enum(['approved', 'declined']),
+  note: z.string().max(500, 'Note must be less than 500 characters').optional()
+});
+
+// A shift nobody holds yet, which staff can claim
+export const CreateOpenShiftSchema = ScheduleBaseFields.omit({
+  staffId: true,
+  status: true,
+  isRecurring: true,
+  recurringPattern: true
+}).refine(
+  (data) => new Date(data.endTime) > new Date(data.startTime),
+  {
+    message: 'End time must be after start time',
+    path: ['endTime']
+  }
+);
+
+// The holder offering their shift for swap, or taking the offer back. The
+// holder or claimant is always the signed-in member of staff
+export const ShiftOfferSchema = z.object({
+  scheduleId: z.string().uuid('Invalid schedule ID')
+});
+
+export const ShiftClaimSchema = ShiftOfferSchema.extend({
+  note: z.string().max(500, 'Note must be less than 500 characters').optional()
+});
+
+export const ShiftClaimQuerySchema = z.object({
+  staffId: z.string().uuid().optional(),
+  status: z.enum(['pending', 'approved', 'declined', 'withdrawn']).default('pending')
+});
+
 // Time tracking schemas
 const TimeEntryBaseFields = z.object({
   staffId: z.string().uuid('Invalid staff ID'),
@@ -252,6 +424,101 @@ export const UpdateTimeEntrySchema = z.object({
   }
 );
 
+// Payroll schemas
+const PayrollAdjustmentSchema = z.object({
+  staffId: z.string().uuid('Invalid staff ID'),
+  type: z.enum(['tips', 'bonus']),
+  amount: z.number().min(0, 'Amount must be positive').max(100000),
+  description: z.string().max(200, 'Description must be less than 200 characters').optional()
+});
+
+const PayrollPeriodFields = z.object({
+  periodStart: z.string().datetime(),
+  periodEnd: z.string().datetime(),
+  dailyOvertimeAfter: z.number().min(0).max(24).nullable().default(8)
+    .describe('Hours per day before overtime; null turns the daily rule off'),
+  weeklyOvertimeAfter: z.number().min(0).max(168).default(40),
+  overtimeMultiplier: z.number().min(1).max(3).default(1.5),
+  eventShiftBonus: z.number().min(0).max(10000).default(0)
+    .describe('Flat bonus for each approved time entry on an event shift'),
+  adjustments: z.array(PayrollAdjustmentSchema).max(500, 'Maximum 500 adjustments').default([])
+});
+
+export const PayrollPeriodSchema = PayrollPeriodFields.refine(
+  (data) => new Date(data.periodEnd) > new Date(data.periodStart),
+  {
+    message: 'Period end must be after period start',
+    path: ['periodEnd']
+  }
+);
+
+// Posting a payroll run also books its wage expense
+export const PostPayrollSchema = PayrollPeriodFields.extend({
+  accountId: z.string().uuid('Invalid account ID'),
+  categoryId: z.string().uuid('Invalid category ID')
+}).refine(
+  (data) => new Date(data.periodEnd) > new Date(data.periodStart),
+  {
+    message: 'Period end must be after period start',
+    path: ['periodEnd']
+  }
+);
+
+// Tip pool schemas
+// Orders as returned by the Square Orders API; card tips are in total_tip_money, in cents
+const SquareTipOrderSchema = z.object({
+  id: z.string().min(1, 'Square order ID is required'),
+  state: z.string().optional(),
+  total_tip_money: z.object({
+    amount: z.number().int().min(0),
+    currency: z.string().optional()
+  }).optional()
+}).passthrough();
+
+const TipPointsSchema = z.object({
+  staffId: z.string().uuid('Invalid staff ID'),
+  points: z.number().min(0).max(100)
+});
+
+export const TipPoolSchema = z.object({
+  shiftStart: z.string().datetime(),
+  shiftEnd: z.string().datetime(),
+  eventId: z.string().uuid('Invalid event ID').optional()
+    .describe('Only share with staff clocked in on this event\'s shifts'),
+  roles: z.array(z.string().trim().min(1).max(50)).max(20).default([])
+    .describe('Only share with staff working these roles; empty means everyone'),
+  cashTips: z.number().min(0, 'Tips must be positive').max(100000).default(0),
+  cardTips: z.number().min(0, 'Tips must be positive').max(100000).default(0),
+  squareOrders: z.array(SquareTipOrderSchema).max(2000, 'Maximum 2000 Square orders').default([])
+    .describe('Square orders whose tips are added to the card tips'),
+  method: z.enum(['hours', 'role_weight', 'points']).default('hours'),
+  roleWeights: z.record(z.string(), z.number().min(0).max(10)).default({})
+    .describe('Weight of an hour in each role; roles not listed weigh 1'),
+  points: z.array(TipPointsSchema).max(200, 'Maximum 200 people').default([]),
+  notes: z.string()
+    .max(500, 'Notes must be less than 500 characters')
+    .optional()
+}).refine(
+  (data) => new Date(data.shiftEnd) > new Date(data.shiftStart),
+  {
+    message: 'Shift end must be after shift start',
+    path: ['shiftEnd']
+  }
+).refine(
+  (data) => data.method !== 'points' || data.points.length > 0,
+  {
+    message: 'Give points to the people sharing the tips',
+    path: ['points']
+  }
+);
+
+export const TipPoolQuerySchema = z.object({
+  staffId: z.string().uuid('Invalid staff ID').optional(),
+  eventId: z.string().uuid('Invalid event ID').optional(),
+  dateFrom: z.string().datetime().optional(),
+  dateTo: z.string().datetime().optional()
+});
+
 // Query schemas
 export const StaffQuerySchema = z.object({
   search: z.string().optional(),
@@ -269,6 +536,7 @@ export const StaffQuerySchema = z.object({
   page: z.number().min(1).default(1),
   limit: z.number().min(1).max(100).default(20),
   offset: z.number().min(0).default(0),
+  cursor: z.string().optional(), // next_cursor of the previous page
   // Sorting
   sortBy: z.enum(['firstName', 'lastName', 'email', 'department', 'hireDate']).default('lastName'),
   sortOrder: z.enum(['asc', 'desc']).default('asc')
@@ -278,7 +546,7 @@ export const ScheduleQuerySchema = z.object({
   staffId: z.string().uuid().optional(),
   eventId: z.string().uuid().optional(),
   shiftType: z.enum(['regular', 'overtime', 'event', 'training', 'meeting', 'other']).optional(),
-  status: z.enum(['scheduled', 'confirmed', 'completed', 'cancelled', 'no_show']).optional(),
+  status: z.enum(['scheduled', 'confirmed', 'completed', 'cancelled', 'no_show', 'open', 'swap_requested']).optional(),
   dateRange: z.object({
     start: z.string().datetime().optional(),
     end: z.string().datetime().optional()
@@ -288,6 +556,7 @@ export const ScheduleQuerySchema = z.object({
   page: z.number().min(1).default(1),
   limit: z.number().min(1).max(100).default(20),
   offset: z.number().min(0).default(0),
+  cursor: z.string().optional(), // next_cursor of the previous page
   // Sorting
   sortBy: z.enum(['startTime', 'endTime', 'title', 'staffId']).default('startTime'),
   sortOrder: z.enum(['asc', 'desc']).default('asc')
@@ -306,6 +575,7 @@ export const TimeEntryQuerySchema = z.object({
   page: z.number().min(1).default(1),
   limit: z.number().min(1).max(100).default(20),
   offset: z.number().min(0).default(0),
+  cursor: z.string().optional(), // next_cursor of the previous page
   // Sorting
   sortBy: z.enum(['clockInTime', 'clockOutTime', 'staffId']).default('clockInTime'),
   sortOrder: z.enum(['asc', 'desc']).default('desc')
@@ -345,6 +615,18 @@ export const TimeEntryIdSchema = z.object({
   id: z.string().uuid('Invalid time entry ID')
 });
 
+export const ShiftTemplateIdSchema = z.object({
+  id: z.string().uuid('Invalid template ID')
+});
+
+export const TimeOffIdSchema = z.object({
+  id: z.string().uuid('Invalid time off request ID')
+});
+
+export const ShiftClaimIdSchema = z.object({
+  id: z.string().uuid('Invalid shift claim ID')
+});
+
 // Export TypeScript types
 export type CreateStaffRequest = z.infer<typeof CreateStaffSchema>;
 export type UpdateStaffRequest = z.infer<typeof UpdateStaffSchema>;
@@ -360,6 +642,29 @@ export type ScheduleQueryRequest = z.infer<typeof ScheduleQuerySchema>;
 export type TimeEntryQueryRequest = z.infer<typeof TimeEntryQuerySchema>;
 export type BulkScheduleUpdateRequest = z.infer<typeof BulkScheduleUpdateSchema>;
 export type BulkStaffActivationRequest = z.infer<typeof BulkStaffActivationSchema>;
+export type ShiftTemplateSlot = z.infer<typeof ShiftTemplateSlotSchema>;
+export type CreateShiftTemplateRequest = z.infer<typeof CreateShiftTemplateSchema>;
+export type UpdateShiftTemplateRequest = z.infer<typeof UpdateShiftTemplateSchema>;
+export type ApplyShiftTemplateRequest = z.infer<typeof ApplyShiftTemplateSchema>;
+export type StaffingRatio = z.infer<typeof StaffingRatioSchema>;
+export type StaffingSettingsRequest = z.infer<typeof StaffingSettingsSchema>;
+export type CreateEventShiftsRequest = z.infer<typeof CreateEventShiftsSchema>;
+export type AvailabilityEntry = z.infer<typeof AvailabilityEntrySchema>;
+export type SetAvailabilityRequest = z.infer<typeof SetAvailabilitySchema>;
+export type CreateTimeOffRequest = z.infer<typeof CreateTimeOffSchema>;
+export type TimeOffQueryRequest = z.infer<typeof TimeOffQuerySchema>;
+export type ReviewRequest = z.infer<typeof ReviewRequestSchema>;
+export type CreateOpenShiftRequest = z.infer<typeof CreateOpenShiftSchema>;
+export type ShiftOfferRequest = z.infer<typeof ShiftOfferSchema>;
+export type ShiftClaimRequest = z.infer<typeof ShiftClaimSchema>;
+export type ShiftClaimQueryRequest = z.infer<typeof ShiftClaimQuerySchema>;
+export type PayrollAdjustment = z.infer<typeof PayrollAdjustmentSchema>;
+export type PayrollPeriod = z.infer<typeof PayrollPeriodSchema>;
+export type PayrollPeriodRequest = z.input<typeof PayrollPeriodSchema>;
+export type PostPayrollRequest = z.input<typeof PostPayrollSchema>;
+export type TipPoolRules = z.infer<typeof TipPoolSchema>;
+export type TipPoolRequest = z.input<typeof TipPoolSchema>;
+export type TipPoolQueryRequest = z.infer<typeof TipPoolQuerySchema>;
 
 // Enhanced interfaces
 export interface Permission {
@@ -420,6 +725,7 @@ export interface Staff {
     totalHours: number;
     overtimeHours: number;
     totalEarnings: number;
+    tipsEarned: number; // Paid out from tip pools
     shiftsCompleted: number;
     averageHoursPerWeek: number;
     attendanceRate: number;
@@ -431,7 +737,7 @@ export interface Staff {
 
 export interface Schedule {
   id: string;
-  staffId: string;
+  staffId: string | null; // null while the shift is open
   staff?: Staff;
   eventId?: string;
   shiftType: 'regular' | 'overtime' | 'event' | 'training' | 'meeting' | 'other';
@@ -440,6 +746,7 @@ export interface Schedule {
   title: string;
   description?: string;
   location?: string;
+  role?: string;
   isRecurring: boolean;
   recurringPattern?: {
     frequency: 'daily' | 'weekly' | 'monthly';
@@ -447,7 +754,10 @@ export interface Schedule {
     daysOfWeek?: number[];
     endDate?: string;
   };
-  status: 'scheduled' | 'confirmed' | 'completed' | 'cancelled' | 'no_show';
+  seriesId?: string; // Shared by the shifts generated from one recurring schedule
+  templateId?: string; // Rota template the shift was stamped from
+  // open: nobody holds the shift yet; swap_requested: its holder has offered it to others
+  status: 'scheduled' | 'confirmed' | 'completed' | 'cancelled' | 'no_show' | 'open' | 'swap_requested';
   notes?: string;
   createdAt: string;
   updatedAt: string;
@@ -457,6 +767,117 @@ export interface Schedule {
   conflicts?: Schedule[];
 }
 
+export interface ShiftTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  slots: ShiftTemplateSlot[];
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ShiftTime {
+  startTime: string;
+  endTime: string;
+}
+
+// A generated shift that was not created because it clashes with another
+export interface SkippedShift extends ShiftTime {
+  staffId: string;
+  conflicts: Schedule[];
+  reason?: string; // Set when the person cannot work it for another reason than a clashing shift
+}
+
+export interface ScheduleSeriesResult {
+  seriesId: string;
+  created: Schedule[];
+  skipped: SkippedShift[];
+}
+
+export interface AppliedTemplateResult {
+  templateId: string;
+  weekStart: string;
+  created: Schedule[];
+  skipped: SkippedShift[];
+  // Slots with fewer people assigned than their headcount
+  unfilled: Array<ShiftTime & { slotIndex: number; role: string; missing: number }>;
+}
+
+export interface StaffingSettings {
+  expectedFill: number;
+  weeklyHourLimit: number;
+  callMinutes: number;
+  wrapMinutes: number;
+  ratios: StaffingRatio[];
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
+export interface StaffingCandidate {
+  staffId: string;
+  name: string;
+  position: string;
+  weeklyHours: number; // Already scheduled in the event's week
+  expiringCertifications: string[];
+}
+
+export interface StaffingRequirement {
+  department: StaffingRatio['department'];
+  role: string;
+  headcount: number;
+  proposed: StaffingCandidate[];
+  shortfall: number;
+}
+
+export interface EventStaffingPlan extends ShiftTime {
+  eventId: string;
+  expectedAttendance: number;
+  requirements: StaffingRequirement[];
+  // Staff in the planned departments who were passed over, and why
+  unavailable: Array<{ staffId: string; name: string; department: string; reason: string }>;
+}
+
+export interface EventShiftsResult {
+  eventId: string;
+  created: Schedule[];
+  skipped: SkippedShift[];
+}
+
+export interface StaffAvailability extends AvailabilityEntry {
+  id: string;
+  staffId: string;
+}
+
+export interface TimeOffRequest {
+  id: string;
+  staffId: string;
+  staffName?: string;
+  startDate: string;
+  endDate: string;
+  reason?: string;
+  status: 'pending' | 'approved' | 'declined';
+  reviewedBy?: string;
+  reviewNote?: string;
+  reviewedAt?: string;
+  createdAt: string;
+}
+
+// A request to take over an open shift or one offered for swap
+export interface ShiftClaim {
+  id: string;
+  scheduleId: string;
+  schedule?: Schedule;
+  staffId: string;
+  staffName?: string;
+  note?: string;
+  status: 'pending' | 'approved' | 'declined' | 'withdrawn';
+  reviewedBy?: string;
+  reviewNote?: string;
+  reviewedAt?: string;
+  createdAt: string;
+}
+
 export interface TimeEntry {
   id: string;
   staffId: string;
@@ -478,6 +899,70 @@ export interface TimeEntry {
   earnings?: number;
 }
 
+export interface PayrollLine {
+  staffId: string;
+  name: string;
+  employeeId?: string;
+  department?: string;
+  hourlyRate: number;
+  entries: number; // Approved time entries in the period
+  regularHours: number;
+  overtimeHours: number;
+  regularPay: number;
+  overtimePay: number;
+  tips: number;
+  bonuses: number;
+  grossPay: number;
+}
+
+export interface PayrollRun {
+  periodStart: string;
+  periodEnd: string;
+  lines: PayrollLine[];
+  totals: Pick<PayrollLine, 'regularHours' | 'overtimeHours' | 'regularPay' | 'overtimePay' | 'tips' | 'bonuses' | 'grossPay'>;
+  warnings: string[];
+}
+
+export interface PostedPayroll {
+  id: string;
+  periodStart: string;
+  periodEnd: string;
+  grossPay: number;
+  transactionId: string; // Wage expense in the finance ledger
+  postedBy?: string;
+  postedAt: string;
+  run: PayrollRun;
+}
+
+export interface TipPayout {
+  staffId: string;
+  name: string;
+  role?: string;
+  hours: number;
+  weight: number; // Hours, weighted hours or points, depending on the method
+  amount: number;
+}
+
+export interface TipDistribution {
+  shiftStart: string;
+  shiftEnd: string;
+  eventId?: string;
+  method: TipPoolRules['method'];
+  cashTips: number;
+  cardTips: number; // Including tips from Square orders
+  totalTips: number;
+  payouts: TipPayout[];
+  warnings: string[];
+}
+
+export interface TipPool extends Omit<TipDistribution, 'warnings'> {
+  id: string;
+  roles: string[];
+  notes?: string;
+  createdBy?: string;
+  createdAt: string;
+}
+
 // Business rule validation utilities
 export const validateStaffBusinessRules = {
   canDelete: (staff: Staff): { valid: boolean; reason?: string } => {
@@ -622,5 +1107,456 @@ export const validateStaffBusinessRules = {
       expired,
       expiringSoon
     };
+  },
+
+  validateAvailability: (
+    shift: { startTime: string; endTime: string },
+    availability: Array<{ dayOfWeek: number; startTime: string; endTime: string; preference: 'unavailable' | 'preferred' }>,
+    timeOff: Array<{ startDate: string; endDate: string; status: string }>
+  ): { valid: boolean; reason?: string; preferred: boolean } => {
+    const start = new Date(shift.startTime);
+    const end = new Date(shift.endTime);
+
+    const away = timeOff.find(request =>
+      request.status === 'approved' && new Date(request.startDate) < end && new Date(request.endDate) > start
+    );
+    if (away) {
+      return { valid: false, reason: `On time off until ${new Date(away.endDate).toLocaleDateString('en-US')}`, preferred: false };
+    }
+
+    // The weekly window on each day the shift touches, starting the day before
+    // for windows that run past midnight
+    const windows = (entry: typeof availability[number]) => {
+      const [fromHour, fromMinute] = entry.startTime.split(':').map(Number);
+      const [toHour, toMinute] = entry.endTime.split(':').map(Number);
+      const result: Array<{ from: Date; to: Date }> = [];
+
+      const day = new Date(start);
+      day.setHours(0, 0, 0, 0);
+      day.setDate(day.getDate() - 1);
+      for (; day < end; day.setDate(day.getDate() + 1)) {
+        if (day.getDay() !== entry.dayOfWeek) continue;
+        const from = new Date(day);
+        from.setHours(fromHour, fromMinute, 0, 0);
+        const to = new Date(day);
+        to.setHours(toHour, toMinute, 0, 0);
+        if (to <= from) {
+          to.setDate(to.getDate() + 1);
+        }
+        result.push({ from, to });
+      }
+      return result;
+    };
+
+    const blocked = availability.find(entry =>
+      entry.preference === 'unavailable' && windows(entry).some(window => window.from < end && window.to > start)
+    );
+    if (blocked) {
+      const day = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'][blocked.dayOfWeek];
+      return { valid: false, reason: `Unavailable ${day} ${blocked.startTime}–${blocked.endTime}`, preferred: false };
+    }
+
+    return {
+      valid: true,
+      preferred: availability.some(entry =>
+        entry.preference === 'preferred' && windows(entry).some(window => window.from <= start && window.to >= end)
+      )
+    };
   }
-}; 
\ No newline at end of file
+}; 
+
+export const DEFAULT_RECURRENCE_WEEKS = 12; // How far ahead an open-ended series is generated
+export const MAX_RECURRING_SHIFTS = 366;
+// Matches the venue default; shifts are planned in the venue's local time
+export const DEFAULT_VENUE_TIME_ZONE = 'America/New_York';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// A calendar date and time of day as read on a clock in the venue
+export interface WallClock {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  dayOfWeek: number; // 0 = Sunday
+}
+
+/**
+ * The wall-clock time in a time zone at a point in time
+ */
+export const toWallClock = (date: Date, timeZone: string): WallClock => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      weekday: 'short',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    }).formatToParts(date).map(part => [part.type, part.value])
+  );
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    dayOfWeek: WEEKDAYS.indexOf(parts.weekday)
+  };
+};
+
+/**
+ * The point in time a wall-clock time in a time zone refers to. Days past
+ * the end of the month roll over, so a date can be moved by adding days.
+ */
+export const fromWallClock = (
+  clock: Pick<WallClock, 'year' | 'month' | 'day'> & Partial<Pick<WallClock, 'hour' | 'minute' | 'second'>>,
+  timeZone: string
+): Date => {
+  const asUtc = Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour ?? 0, clock.minute ?? 0, clock.second ?? 0);
+  const offsetAt = (time: number) => {
+    const local = toWallClock(new Date(time), timeZone);
+    return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second) - time;
+  };
+
+  // The offset is read twice so times next to a daylight saving change land right
+  const guess = asUtc - offsetAt(asUtc);
+  return new Date(asUtc - offsetAt(guess));
+};
+
+type CalendarDay = Pick<WallClock, 'year' | 'month' | 'day'>;
+
+// Calendar-day arithmetic on a wall-clock date, free of daylight saving
+const addCalendarDays = (date: CalendarDay, days: number): CalendarDay => {
+  const moved = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: moved.getUTCFullYear(), month: moved.getUTCMonth() + 1, day: moved.getUTCDate() };
+};
+
+/**
+ * The concrete shifts of a recurring schedule, starting with the first one.
+ * Days are counted in the venue's time zone, so every shift starts at the
+ * same wall-clock time there across daylight saving changes.
+ */
+export const expandRecurringSchedule = (
+  schedule: ShiftTime & { recurringPattern?: Schedule['recurringPattern'] },
+  timeZone: string = DEFAULT_VENUE_TIME_ZONE
+): ShiftTime[] => {
+  const start = new Date(schedule.startTime);
+  const duration = new Date(schedule.endTime).getTime() - start.getTime();
+  const pattern = schedule.recurringPattern;
+  if (!pattern) {
+    return [{ startTime: schedule.startTime, endTime: schedule.endTime }];
+  }
+
+  const until = pattern.endDate
+    ? new Date(pattern.endDate)
+    : new Date(start.getTime() + DEFAULT_RECURRENCE_WEEKS * 7 * DAY_MS);
+  const first = toWallClock(start, timeZone);
+  const starts: Date[] = [];
+  // The start time of the first shift on another day
+  const at = (day: CalendarDay) => fromWallClock({ ...day, hour: first.hour, minute: first.minute, second: first.second }, timeZone);
+
+  if (pattern.frequency === 'daily') {
+    for (let day: CalendarDay = first; at(day) <= until && starts.length < MAX_RECURRING_SHIFTS; day = addCalendarDays(day, pattern.interval)) {
+      starts.push(at(day));
+    }
+  } else if (pattern.frequency === 'weekly') {
+    const days = [...new Set(pattern.daysOfWeek?.length ? pattern.daysOfWeek : [first.dayOfWeek])].sort((a, b) => a - b);
+    const weekOf = addCalendarDays(first, -first.dayOfWeek);
+    for (let week = weekOf; at(week) <= until && starts.length < MAX_RECURRING_SHIFTS; week = addCalendarDays(week, 7 * pattern.interval)) {
+      days.forEach(day => {
+        const date = at(addCalendarDays(week, day));
+        if (date >= start && date <= until && starts.length < MAX_RECURRING_SHIFTS) {
+          starts.push(date);
+        }
+      });
+    }
+  } else {
+    for (let month = 0; starts.length < MAX_RECURRING_SHIFTS; month += pattern.interval) {
+      const monthIndex = first.month - 1 + month;
+      const day = { year: first.year + Math.floor(monthIndex / 12), month: monthIndex % 12 + 1, day: first.day };
+      const date = at(day);
+      if (date > until) break;
+      // Months without this day (e.g. the 31st) are skipped
+      if (addCalendarDays(day, 0).day === first.day) {
+        starts.push(date);
+      }
+    }
+  }
+
+  return starts.map(date => ({
+    startTime: date.toISOString(),
+    endTime: new Date(date.getTime() + duration).toISOString()
+  }));
+};
+
+/**
+ * When a template slot falls in the week starting on the given Monday
+ * (YYYY-MM-DD), reading the slot's times in the venue's time zone
+ */
+export const resolveTemplateSlot = (
+  slot: Pick<ShiftTemplateSlot, 'dayOfWeek' | 'startTime' | 'endTime'>,
+  weekStart: string,
+  timeZone: string = DEFAULT_VENUE_TIME_ZONE
+): ShiftTime => {
+  const [startHour, startMinute] = slot.startTime.split(':').map(Number);
+  const [endHour, endMinute] = slot.endTime.split(':').map(Number);
+  const [year, month, day] = weekStart.split('-').map(Number);
+
+  const startDay = addCalendarDays({ year, month, day }, (slot.dayOfWeek + 6) % 7);
+  // A finish at or before the start is after midnight
+  const endDay = endHour * 60 + endMinute <= startHour * 60 + startMinute ? addCalendarDays(startDay, 1) : startDay;
+
+  return {
+    startTime: fromWallClock({ ...startDay, hour: startHour, minute: startMinute }, timeZone).toISOString(),
+    endTime: fromWallClock({ ...endDay, hour: endHour, minute: endMinute }, timeZone).toISOString()
+  };
+};
+
+/**
+ * Monday to Monday in the venue's time zone around a point in time
+ */
+export const venueWeekOf = (dateTime: string, timeZone: string = DEFAULT_VENUE_TIME_ZONE): ShiftTime => {
+  const clock = toWallClock(new Date(dateTime), timeZone);
+  const monday = addCalendarDays(clock, -((clock.dayOfWeek + 6) % 7));
+
+  return {
+    startTime: fromWallClock(monday, timeZone).toISOString(),
+    endTime: fromWallClock(addCalendarDays(monday, 7), timeZone).toISOString()
+  };
+};
+
+export const DEFAULT_STAFFING_SETTINGS: StaffingSettings = {
+  expectedFill: 0.85,
+  weeklyHourLimit: 40,
+  callMinutes: 60,
+  wrapMinutes: 30,
+  ratios: [
+    { department: 'customer_service', role: 'bar', guestsPerStaff: 75, minimum: 1 },
+    { department: 'security', role: 'door', guestsPerStaff: 100, minimum: 1 },
+    { department: 'technical', role: 'sound', guestsPerStaff: 500, minimum: 1 },
+    { department: 'operations', role: 'floor', guestsPerStaff: 200, minimum: 0 }
+  ]
+};
+
+/**
+ * Headcount per role for an event. Until tickets sell, the event is staffed
+ * for the expected share of its capacity.
+ */
+export const calculateStaffingRequirements = (
+  event: { totalCapacity: number; ticketsSold: number },
+  settings: Pick<StaffingSettings, 'expectedFill' | 'ratios'>
+): { expectedAttendance: number; requirements: Array<StaffingRatio & { headcount: number }> } => {
+  const expectedAttendance = Math.min(
+    event.totalCapacity,
+    Math.max(event.ticketsSold, Math.ceil(event.totalCapacity * settings.expectedFill))
+  );
+
+  return {
+    expectedAttendance,
+    requirements: settings.ratios
+      .map(ratio => ({
+        ...ratio,
+        headcount: Math.max(ratio.minimum, Math.ceil(expectedAttendance / ratio.guestsPerStaff))
+      }))
+      .filter(requirement => requirement.headcount > 0)
+  };
+};
+
+/**
+ * The shift staff work for an event: from call time until wrap-up
+ */
+export const eventShiftTime = (
+  event: { date: string; startTime: string; endTime: string },
+  settings: Pick<StaffingSettings, 'callMinutes' | 'wrapMinutes'>
+): ShiftTime => {
+  const day = event.date.slice(0, 10);
+  const start = new Date(`${day}T${event.startTime}`);
+  const end = new Date(`${day}T${event.endTime}`);
+  if (end <= start) {
+    end.setDate(end.getDate() + 1);
+  }
+
+  start.setMinutes(start.getMinutes() - settings.callMinutes);
+  end.setMinutes(end.getMinutes() + settings.wrapMinutes);
+  return { startTime: start.toISOString(), endTime: end.toISOString() };
+};
+
+/**
+ * Pay for each person over a set of approved time entries. Hours past the
+ * daily limit on the venue day a shift starts are overtime, and so are regular
+ * hours past the weekly limit in each Monday-to-Sunday venue week. Entries
+ * that started before paidFrom are not paid, but still fill their week.
+ */
+export const calculatePayroll = (
+  entries: Array<{ staffId: string; clockInTime: string; clockOutTime: string; breakDuration: number; isEventShift: boolean }>,
+  staff: Array<{ id: string; name: string; employeeId?: string; department?: string; hourlyRate?: number }>,
+  rules: Pick<PayrollPeriod, 'dailyOvertimeAfter' | 'weeklyOvertimeAfter' | 'overtimeMultiplier' | 'eventShiftBonus' | 'adjustments'>,
+  timeZone: string = DEFAULT_VENUE_TIME_ZONE,
+  paidFrom?: string
+): Pick<PayrollRun, 'lines' | 'totals' | 'warnings'> => {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const warnings: string[] = [];
+  const isPaid = (entry: { clockInTime: string }) => !paidFrom || new Date(entry.clockInTime) >= new Date(paidFrom);
+
+  const lines = staff.map(member => {
+    const counted = entries
+      .filter(entry => entry.staffId === member.id)
+      .sort((a, b) => a.clockInTime.localeCompare(b.clockInTime));
+    const worked = counted.filter(isPaid);
+    const hoursByDay = new Map<string, number>();
+    const regularByWeek = new Map<string, number>();
+    let regularHours = 0;
+    let overtimeHours = 0;
+
+    counted.forEach(entry => {
+      const clockIn = new Date(entry.clockInTime);
+      const hours = Math.max(0, (new Date(entry.clockOutTime).getTime() - clockIn.getTime()) / 3600000 - entry.breakDuration / 60);
+
+      const { year, month, day } = toWallClock(clockIn, timeZone);
+      const dayKey = `${year}-${month}-${day}`;
+      const week = venueWeekOf(entry.clockInTime, timeZone).startTime;
+
+      const workedThatDay = hoursByDay.get(dayKey) || 0;
+      hoursByDay.set(dayKey, workedThatDay + hours);
+      const dailyRegular = rules.dailyOvertimeAfter === null
+        ? hours
+        : Math.min(hours, Math.max(0, rules.dailyOvertimeAfter - workedThatDay));
+
+      const regularThatWeek = regularByWeek.get(week) || 0;
+      const { overtimeHours: weeklyOvertime } = validateStaffBusinessRules.calculateOvertimeEligibility(
+        regularThatWeek + dailyRegular,
+        rules.weeklyOvertimeAfter
+      );
+      const regular = dailyRegular - Math.min(dailyRegular, weeklyOvertime);
+      regularByWeek.set(week, regularThatWeek + regular);
+      if (!isPaid(entry)) return;
+
+      regularHours += regular;
+      overtimeHours += hours - regular;
+    });
+
+    const hourlyRate = member.hourlyRate || 0;
+    if (worked.length > 0 && !member.hourlyRate) {
+      warnings.push(`${member.name} has no hourly rate, so their hours are unpaid`);
+    }
+
+    const adjustments = rules.adjustments.filter(adjustment => adjustment.staffId === member.id);
+    const total = (type: PayrollAdjustment['type']) => adjustments
+      .filter(adjustment => adjustment.type === type)
+      .reduce((sum, adjustment) => sum + adjustment.amount, 0);
+    const eventShifts = worked.filter(entry => entry.isEventShift).length;
+
+    const regularPay = round(regularHours * hourlyRate);
+    const overtimePay = round(overtimeHours * hourlyRate * rules.overtimeMultiplier);
+    const tips = round(total('tips'));
+    const bonuses = round(total('bonus') + eventShifts * rules.eventShiftBonus);
+
+    return {
+      staffId: member.id,
+      name: member.name,
+      employeeId: member.employeeId,
+      department: member.department,
+      hourlyRate,
+      entries: worked.length,
+      regularHours: round(regularHours),
+      overtimeHours: round(overtimeHours),
+      regularPay,
+      overtimePay,
+      tips,
+      bonuses,
+      grossPay: round(regularPay + overtimePay + tips + bonuses)
+    };
+  }).filter(line => line.grossPay > 0 || line.entries > 0);
+
+  rules.adjustments
+    .filter(adjustment => !staff.some(member => member.id === adjustment.staffId))
+    .forEach(adjustment => warnings.push(`Skipped ${adjustment.type} of ${adjustment.amount} for unknown staff member ${adjustment.staffId}`));
+
+  const sum = (key: keyof PayrollRun['totals']) => round(lines.reduce((total, line) => total + line[key], 0));
+  return {
+    lines,
+    totals: {
+      regularHours: sum('regularHours'),
+      overtimeHours: sum('overtimeHours'),
+      regularPay: sum('regularPay'),
+      overtimePay: sum('overtimePay'),
+      tips: sum('tips'),
+      bonuses: sum('bonuses'),
+      grossPay: sum('grossPay')
+    },
+    warnings
+  };
+};
+
+/**
+ * Share a shift's tips between the people who worked it, to the cent. By
+ * `hours` everyone gets the same per hour; by `role_weight` each hour counts
+ * as its role's weight; by `points` each person's fixed points are their share.
+ * Cents left over from rounding go to the largest remainders.
+ */
+export const distributeTips = (
+  worked: Array<{ staffId: string; name: string; role?: string; hours: number }>,
+  totalTips: number,
+  rules: Pick<TipPoolRules, 'method' | 'roleWeights' | 'points'>
+): Pick<TipDistribution, 'payouts' | 'warnings'> => {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const warnings: string[] = [];
+
+  const byStaff = new Map<string, TipPayout>();
+  worked.forEach(entry => {
+    const payout = byStaff.get(entry.staffId) || { staffId: entry.staffId, name: entry.name, role: entry.role, hours: 0, weight: 0, amount: 0 };
+    const hourWeight = rules.method === 'role_weight' ? rules.roleWeights[entry.role || ''] ?? 1 : 1;
+    payout.hours += entry.hours;
+    payout.weight += entry.hours * hourWeight;
+    byStaff.set(entry.staffId, payout);
+  });
+  const payouts = [...byStaff.values()];
+
+  if (rules.method === 'points') {
+    payouts.forEach(payout => {
+      const share = rules.points.find(points => points.staffId === payout.staffId);
+      if (!share) {
+        warnings.push(`${payout.name} worked but has no points, so gets no tips`);
+      }
+      payout.weight = share?.points || 0;
+    });
+    rules.points
+      .filter(points => !byStaff.has(points.staffId))
+      .forEach(points => warnings.push(`Skipped points for staff member ${points.staffId}, who has no time entry on this shift`));
+  }
+
+  const cents = Math.round(totalTips * 100);
+  const totalWeight = payouts.reduce((sum, payout) => sum + payout.weight, 0);
+  const exact = payouts.map(payout => totalWeight > 0 ? cents * payout.weight / totalWeight : 0);
+  const shares = exact.map(share => Math.floor(share));
+  let leftover = totalWeight > 0 ? cents - shares.reduce((sum, share) => sum + share, 0) : 0;
+  exact
+    .map((share, index) => ({ index, remainder: share - shares[index] }))
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach(({ index }) => {
+      if (leftover > 0) {
+        shares[index] += 1;
+        leftover -= 1;
+      }
+    });
+
+  if (cents > 0 && totalWeight <= 0) {
+    warnings.push('Nobody on this shift has a share of the tips');
+  }
+
+  return {
+    payouts: payouts
+      .map((payout, index) => ({ ...payout, hours: round(payout.hours), weight: round(payout.weight), amount: shares[index] / 100 }))
+      .sort((a, b) => b.amount - a.amount || a.name.localeCompare(b.name)),
+    warnings
+  };
+};
\ No newline at end of file
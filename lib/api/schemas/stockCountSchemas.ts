@@ -0,0 +1,237 @@
+/**
+ * Stock Count Schemas - Train Station Dashboard API Standards
+ * Validation schemas for stock-take sessions (cycle counts): expected quantities
+ * are frozen when the count starts, counted quantities are entered per location
+ * and the variances are committed as one batch of stock adjustments
+ */
+
+import { z } from 'zod';
+import { CostingMethodSchema, DEFAULT_STOCK_LOCATION, type StockTransaction } from './inventorySchemas';
+
+// Base validation schemas
+const CountedQuantitySchema = z.number().min(0, 'Counted quantity cannot be negative');
+
+const StaffMemberSchema = z.string()
+  .max(100, 'Staff member name must be less than 100 characters')
+  .optional();
+
+// Stock count schemas
+export const StartStockCountSchema = z.object({
+  name: z.string()
+    .min(1, 'Count name is required')
+    .max(150, 'Count name must be less than 150 characters')
+    .trim()
+    .describe('e.g. "Sunday close" or "Weekly spirits count"'),
+  // Narrow the count to part of the stock; everything active is counted otherwise
+  location: z.string().max(100, 'Location must be less than 100 characters').optional(),
+  categoryId: z.string().uuid('Invalid category ID').optional(),
+  itemIds: z.array(z.string().uuid('Invalid inventory ID'))
+    .max(500, 'Maximum 500 items per count')
+    .optional(),
+  staffMember: StaffMemberSchema
+});
+
+export const RecordCountsSchema = z.object({
+  counts: z.array(z.object({
+    itemId: z.string().uuid('Invalid inventory ID'),
+    location: z.string()
+      .max(100, 'Location must be less than 100 characters')
+      .optional()
+      .describe('Where this part of the stock was counted; replaces an earlier count at the same location'),
+    quantity: CountedQuantitySchema
+  })).min(1, 'Enter at least one count').max(200, 'Maximum 200 counts per request'),
+  staffMember: StaffMemberSchema
+});
+
+export const CommitStockCountSchema = z.object({
+  reason: z.string()
+    .max(500, 'Reason must be less than 500 characters')
+    .optional(),
+  staffMember: StaffMemberSchema
+});
+
+export const StockCountQuerySchema = z.object({
+  status: z.enum(['in_progress', 'committed', 'cancelled']).optional()
+});
+
+export const ShrinkageQuerySchema = z.object({
+  dateFrom: z.string().datetime(),
+  dateTo: z.string().datetime(),
+  method: CostingMethodSchema.default('fifo')
+}).refine(
+  (data) => new Date(data.dateFrom) <= new Date(data.dateTo),
+  {
+    message: 'Start date must be before end date',
+    path: ['dateTo']
+  }
+);
+
+// ID validation schemas
+export const StockCountIdSchema = z.object({
+  id: z.string().uuid('Invalid stock count ID')
+});
+
+// Export TypeScript types
+export type StartStockCountRequest = z.infer<typeof StartStockCountSchema>;
+export type RecordCountsRequest = z.infer<typeof RecordCountsSchema>;
+export type CommitStockCountRequest = z.infer<typeof CommitStockCountSchema>;
+export type StockCountQueryRequest = z.infer<typeof StockCountQuerySchema>;
+export type ShrinkageQuery = z.input<typeof ShrinkageQuerySchema>;
+
+export type StockCountStatus = 'in_progress' | 'committed' | 'cancelled';
+
+export interface StockCountEntry {
+  location?: string;
+  quantity: number;
+  countedBy?: string;
+  countedAt: string;
+}
+
+export interface StockCountLine {
+  itemId: string;
+  name: string;
+  sku?: string;
+  categoryId?: string;
+  location?: string; // Where the item is normally kept
+  expectedQuantity: number; // Stock on hand when the count started
+  expectedLocations?: Array<{ location: string; quantity: number }>; // The same, per location
+  unitCost: number;
+  counts: StockCountEntry[];
+  // Derived once the item has been counted
+  countedQuantity?: number;
+  variance?: number; // counted - expected
+  varianceValue?: number;
+}
+
+export interface StockCount {
+  id: string;
+  countNumber: string;
+  name: string;
+  status: StockCountStatus;
+  location?: string;
+  categoryId?: string;
+  lines: StockCountLine[];
+  startedBy?: string;
+  startedAt: string;
+  committedBy?: string;
+  committedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+  // Review summary
+  countedItems: number;
+  uncountedItems: number;
+  totalVarianceValue: number;
+}
+
+// Outcome of committing a count
+export interface StockCountCommit {
+  stockCount: StockCount;
+  transactions: StockTransaction[];
+  failures: Array<{ itemId: string; reason: string }>;
+}
+
+export interface ShrinkageBreakdown {
+  quantity: number;
+  cost: number;
+}
+
+export interface ShrinkageReport {
+  dateRange: {
+    start: string;
+    end: string;
+  };
+  method: z.infer<typeof CostingMethodSchema>;
+  total: number;
+  byType: Array<ShrinkageBreakdown & { type: string }>;
+  byCategory: Array<ShrinkageBreakdown & { categoryId?: string; categoryName: string }>;
+  byStaffMember: Array<ShrinkageBreakdown & { staffMember: string }>;
+}
+
+// Business rule validation utilities
+export const validateStockCountBusinessRules = {
+  canRecordCounts: (stockCount: StockCount, itemIds: string[]): { valid: boolean; reason?: string } => {
+    if (stockCount.status !== 'in_progress') {
+      return { valid: false, reason: `Stock count has already been ${stockCount.status.replace('_', ' ')}` };
+    }
+    const unknownItem = itemIds.find(itemId => !stockCount.lines.some(line => line.itemId === itemId));
+    if (unknownItem) {
+      return { valid: false, reason: `Item ${unknownItem} is not part of this count` };
+    }
+    return { valid: true };
+  },
+
+  canCommit: (stockCount: StockCount): { valid: boolean; reason?: string } => {
+    if (stockCount.status !== 'in_progress') {
+      return { valid: false, reason: `Stock count has already been ${stockCount.status.replace('_', ' ')}` };
+    }
+    if (stockCount.countedItems === 0) {
+      return { valid: false, reason: 'Nothing has been counted yet' };
+    }
+    return { valid: true };
+  },
+
+  canCancel: (stockCount: StockCount): { valid: boolean; reason?: string } => {
+    if (stockCount.status !== 'in_progress') {
+      return { valid: false, reason: `Stock count has already been ${stockCount.status.replace('_', ' ')}` };
+    }
+    return { valid: true };
+  },
+
+  /**
+   * Merge new counts into a line; a count at a location replaces the earlier
+   * count there, so a shelf can be recounted without double counting it
+   */
+  applyCounts: (line: StockCountLine, entries: StockCountEntry[]): StockCountLine => {
+    const counts = [...line.counts];
+    entries.forEach(entry => {
+      const index = counts.findIndex(count => (count.location || '') === (entry.location || ''));
+      if (index >= 0) {
+        counts[index] = entry;
+      } else {
+        counts.push(entry);
+      }
+    });
+    return { ...line, counts };
+  },
+
+  /**
+   * Split a counted line's variance by location. Counts without a location
+   * correct the item's total; counts at a location correct the stock there,
+   * and a location that held stock but was not counted is counted as empty.
+   */
+  locationVariances: (line: StockCountLine): Array<{ location?: string; variance: number }> => {
+    if (line.variance === undefined) {
+      return [];
+    }
+    if (!line.counts.some(count => count.location)) {
+      return line.variance === 0 ? [] : [{ variance: line.variance }];
+    }
+
+    const homeLocation = line.location || DEFAULT_STOCK_LOCATION;
+    const variances = new Map<string, number>();
+    (line.expectedLocations || [{ location: homeLocation, quantity: line.expectedQuantity }])
+      .forEach(level => variances.set(level.location, -level.quantity));
+    line.counts.forEach(count => {
+      const location = count.location || homeLocation;
+      variances.set(location, (variances.get(location) ?? 0) + count.quantity);
+    });
+
+    return Array.from(variances.entries())
+      .map(([location, variance]) => ({ location, variance: Math.round(variance * 10000) / 10000 }))
+      .filter(({ variance }) => variance !== 0);
+  },
+
+  calculateVariance: (line: StockCountLine): StockCountLine => {
+    if (line.counts.length === 0) {
+      return { ...line, countedQuantity: undefined, variance: undefined, varianceValue: undefined };
+    }
+    const countedQuantity = Math.round(line.counts.reduce((sum, count) => sum + count.quantity, 0) * 10000) / 10000;
+    const variance = Math.round((countedQuantity - line.expectedQuantity) * 10000) / 10000;
+    return {
+      ...line,
+      countedQuantity,
+      variance,
+      varianceValue: Math.round(variance * line.unitCost * 100) / 100
+    };
+  }
+};
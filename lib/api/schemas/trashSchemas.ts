@@ -0,0 +1,117 @@
+/**
+ * Trash Schemas - Train Station Dashboard API Standards
+ * Validation schemas for the trash bin: soft-deleted records of every type,
+ * their restore and the retention policy that purges them
+ */
+
+import { z } from 'zod';
+
+// Base validation schemas
+export const TrashEntityTypeSchema = z.enum([
+  'customers',
+  'inventory_items',
+  'staff',
+  'financial_transactions'
+]);
+
+export const TrashEntryIdSchema = z.object({
+  id: z.string().uuid('Invalid trash entry ID')
+});
+
+// Query schemas
+export const TrashQuerySchema = z.object({
+  entityType: TrashEntityTypeSchema.optional(),
+  search: z.string().max(100, 'Search must be less than 100 characters').optional()
+});
+
+// Settings schemas
+export const RetentionPolicySchema = z.object({
+  retentionDays: z.number()
+    .int('Retention must be a whole number of days')
+    .min(1, 'Keep deleted records for at least 1 day')
+    .max(3650, 'Retention cannot exceed 10 years')
+});
+
+// Export TypeScript types
+export type TrashEntityType = z.infer<typeof TrashEntityTypeSchema>;
+export type TrashQueryRequest = z.infer<typeof TrashQuerySchema>;
+export type RetentionPolicyRequest = z.infer<typeof RetentionPolicySchema>;
+
+// Rows in another table that are hidden together with the deleted record
+export interface TrashRelation {
+  table: string;
+  foreignKey: string;
+  // Only rows from now on are hidden, e.g. upcoming shifts of a staff member
+  fromColumn?: string;
+  // Rows kept as history when the record is purged; the record's label is
+  // written to this column and the foreign key is cleared by the database
+  archiveColumn?: string;
+}
+
+export interface TrashedRelatedRows {
+  table: string;
+  ids: string[];
+}
+
+export interface MoveToTrashRequest {
+  entityType: TrashEntityType;
+  entityId: string;
+  label: string;
+  // Database values before and after the soft delete, e.g. { status: 'active' }
+  // and { status: 'inactive' }
+  restoreValues: Record<string, unknown>;
+  deletedValues: Record<string, unknown>;
+}
+
+export interface TrashEntry {
+  id: string;
+  entityType: TrashEntityType;
+  entityId: string;
+  label: string;
+  restoreValues: Record<string, unknown>;
+  deletedValues: Record<string, unknown>;
+  related: TrashedRelatedRows[];
+  deletedBy?: string;
+  deletedByEmail?: string;
+  deletedAt: string;
+  purgeAt: string; // deletedAt plus the retention period
+}
+
+export interface RetentionPolicy {
+  retentionDays: number;
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
+export interface PurgeResult {
+  purged: number;
+  // Entries whose record had been reactivated outside the trash bin, so only
+  // the entry was removed
+  skipped: number;
+  failures: { entryId: string; reason: string }[];
+}
+
+export const DEFAULT_RETENTION_DAYS = 30;
+
+export const TRASH_RELATIONS: Record<TrashEntityType, TrashRelation[]> = {
+  customers: [{ table: 'customer_interactions', foreignKey: 'customer_id' }],
+  inventory_items: [{ table: 'inventory_transactions', foreignKey: 'item_id', archiveColumn: 'archived_item_name' }],
+  staff: [{ table: 'staff_schedules', foreignKey: 'staff_id', fromColumn: 'start_time' }],
+  financial_transactions: []
+};
+
+export const TRASH_ENTITY_LABELS: Record<TrashEntityType, string> = {
+  customers: 'Customer',
+  inventory_items: 'Inventory item',
+  staff: 'Staff member',
+  financial_transactions: 'Transaction'
+};
+
+/**
+ * When a record deleted at the given time is purged
+ */
+export const calculatePurgeDate = (deletedAt: string, retentionDays: number): string => {
+  const purgeAt = new Date(deletedAt);
+  purgeAt.setDate(purgeAt.getDate() + retentionDays);
+  return purgeAt.toISOString();
+};
@@ -288,7 +288,7 @@ describe('ArtistService', () => {
           error: null,
         });
 
-      const result = await ArtistService.updateArtist(updateData, 'test-request-id', 'test-user');
+      const result = await ArtistService.updateArtist(updateData, mockExistingArtist.updatedAt, 'test-request-id', 'test-user');
 
       if ('id' in result.data) {
         expect(result.data.name).toBe('Updated Artist');
@@ -301,6 +301,7 @@ describe('ArtistService', () => {
     it('should validate artist ID for update', async () => {
       const result = await ArtistService.updateArtist(
         { id: 'invalid-uuid', name: 'Updated' },
+        '2024-01-01T00:00:00Z',
         'test-request-id',
         'test-user'
       );
@@ -319,6 +320,7 @@ describe('ArtistService', () => {
 
       const result = await ArtistService.updateArtist(
         { id: 'f47ac10b-58cc-4372-a567-0e02b2c3d479', name: 'Updated' },
+        '2024-01-01T00:00:00Z',
         'test-request-id',
         'test-user'
       );
@@ -335,6 +337,7 @@ describe('ArtistService', () => {
           id: 'f47ac10b-58cc-4372-a567-0e02b2c3d479',
           email: 'invalid-email',
         },
+        '2024-01-01T00:00:00Z',
         'test-request-id',
         'test-user'
       );
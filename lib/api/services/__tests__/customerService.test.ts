@@ -242,7 +242,7 @@ describe('CustomerService', () => {
 
       mockFrom.select.mockResolvedValue({ data: [mockUpdatedCustomer], error: null });
 
-      const result = await customerService.updateCustomer('1', updates);
+      const result = await customerService.updateCustomer('1', updates, '2024-01-01T00:00:00Z');
 
       expect(result.meta.status).toBe('success');
       expect(result.data.firstName).toBe('John Updated');
@@ -253,7 +253,7 @@ describe('CustomerService', () => {
     it('should handle customer not found for update', async () => {
       mockFrom.select.mockResolvedValue({ data: [], error: null });
 
-      const result = await customerService.updateCustomer('999', { firstName: 'Test' });
+      const result = await customerService.updateCustomer('999', { firstName: 'Test' }, '2024-01-01T00:00:00Z');
 
       expect(result.meta.status).toBe('error');
       expect(result.error?.status).toBe(404);
@@ -1,6 +1,9 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { EventsService } from '../eventsService';
+import { financeService } from '../financeService';
+import { signTicketCode, verifyTicketCode } from '../../ticketCodes';
 import { supabase } from '../../../supabase';
+import type { SupabaseAdapter } from '../../adapters/supabaseAdapter';
 
 // Mock Supabase
 vi.mock('../../../supabase', () => ({
@@ -35,7 +38,7 @@ describe('EventsService', () => {
       maybeSingle: vi.fn()
     };
     
-    (supabase.from as any).mockReturnValue(mockFrom);
+    vi.mocked(supabase.from).mockReturnValue(mockFrom);
   });
 
   afterEach(() => {
@@ -238,7 +241,7 @@ describe('EventsService', () => {
 
       mockFrom.select.mockResolvedValue({ data: [mockUpdatedEvent], error: null });
 
-      const result = await eventsService.updateEvent('1', updates);
+      const result = await eventsService.updateEvent('1', updates, '2024-01-01T00:00:00Z');
 
       expect(result.meta.status).toBe('success');
       expect(result.data.title).toBe('Updated Jazz Night');
@@ -259,7 +262,7 @@ describe('EventsService', () => {
       
       mockFrom.single.mockResolvedValue({ data: pastEvent, error: null });
 
-      const result = await eventsService.updateEvent('1', updates);
+      const result = await eventsService.updateEvent('1', updates, '2024-01-01T00:00:00Z');
 
       expect(result.meta.status).toBe('error');
     });
@@ -300,5 +303,793 @@ describe('EventsService', () => {
     });
   });
 
+  describe('sellTickets', () => {
+    const eventId = '6f1c2a4e-8b3d-4c5e-9f7a-1b2c3d4e5f60';
+    const version = '2026-01-01T00:00:00.000Z';
+    type SaleResult = { success?: boolean; error?: { title: string } };
+
+    // In-memory events table that honours the conditional update filters
+    const mockEventsTable = (row: Record<string, unknown>) => {
+      const table = { row: { ...row }, updates: 0 };
+      const from = (tableName: string) => {
+        const filters: Array<[string, unknown]> = [];
+        let updates: Record<string, unknown> | undefined;
+        let single = false;
+        const builder: Record<string, unknown> = {
+          select: () => builder,
+          update: (values: Record<string, unknown>) => { updates = values; return builder; },
+          eq: (column: string, value: unknown) => { filters.push([column, value]); return builder; },
+          single: () => { single = true; return builder; },
+          then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+            Promise.resolve().then(() => {
+              if (tableName !== 'events') return { data: [], error: null };
+              const matches = filters.every(([column, value]) => table.row[column] === value);
+              if (updates) {
+                table.updates++;
+                if (!matches) return { data: [], error: null };
+                table.row = { ...table.row, ...updates };
+                return { data: [{ ...table.row }], error: null };
+              }
+              return { data: single ? { ...table.row } : [{ ...table.row }], error: null };
+            }).then(resolve, reject)
+        };
+        return builder;
+      };
+      return { table, from };
+    };
+
+    beforeEach(() => {
+      vi.spyOn((eventsService as unknown as { adapter: SupabaseAdapter }).adapter, 'executeQuery').mockImplementation(
+        (async (_config: unknown, operation: () => Promise<{ data: unknown; error: unknown }>) => {
+          const { data, error } = await operation();
+          return error
+            ? { success: false, error, meta: { status: 'error' } }
+            : { success: true, data, meta: { status: 'success' } };
+        }) as never
+      );
+    });
+
+    it('should only let one of two parallel purchases take the last seats', async () => {
+      const { table, from } = mockEventsTable({
+        id: eventId,
+        title: 'Jazz Night',
+        status: 'upcoming',
+        total_capacity: 100,
+        tickets_sold: 98,
+        tickets_held: 0,
+        ticket_version: 0,
+        ticket_price: 25
+      });
+      vi.mocked(supabase.from).mockImplementation(from);
+
+      const results = await Promise.all([
+        eventsService.sellTickets(eventId, 2),
+        eventsService.sellTickets(eventId, 2)
+      ]) as SaleResult[];
+
+      const succeeded = results.filter(result => result.success);
+      const failed = results.filter(result => !result.success);
+
+      expect(succeeded).toHaveLength(1);
+      expect(failed).toHaveLength(1);
+      expect(failed[0].error?.title).toBe('Sold Out');
+      expect(table.row.tickets_sold).toBe(100);
+      expect(table.updates).toBe(2); // The losing write was rejected by the conditional update
+    });
+
+    it('should never oversell under many parallel purchases', async () => {
+      const { table, from } = mockEventsTable({
+        id: eventId,
+        title: 'Jazz Night',
+        status: 'upcoming',
+        total_capacity: 100,
+        tickets_sold: 97,
+        tickets_held: 0,
+        ticket_version: 0,
+        ticket_price: 25
+      });
+      vi.mocked(supabase.from).mockImplementation(from);
+
+      const results = await Promise.all(
+        Array.from({ length: 6 }, () => eventsService.sellTickets(eventId, 1))
+      ) as SaleResult[];
+
+      expect(results.filter(result => result.success)).toHaveLength(3);
+      expect(table.row.tickets_sold).toBe(100);
+    });
+
+    it('should reject overselling a ticket tier', async () => {
+      const { table, from } = mockEventsTable({
+        id: eventId,
+        title: 'Jazz Night',
+        status: 'upcoming',
+        total_capacity: 100,
+        tickets_sold: 10,
+        tickets_held: 0,
+        ticket_version: 0,
+        ticket_price: 25,
+        ticket_tiers: [
+          { type: 'general', capacity: 90, price: 25, sold: 0 },
+          { type: 'vip', capacity: 10, price: 60, sold: 10 }
+        ]
+      });
+      vi.mocked(supabase.from).mockImplementation(from);
+
+      const result = await eventsService.sellTickets(eventId, 1, 'vip') as SaleResult;
+
+      expect(result.success).toBe(false);
+      expect(result.error?.title).toBe('Sold Out');
+      expect(table.row.tickets_sold).toBe(10);
+    });
+    it('should version the counters without touching updated_at', async () => {
+      const { table, from } = mockEventsTable({
+        id: eventId,
+        title: 'Jazz Night',
+        status: 'upcoming',
+        total_capacity: 100,
+        tickets_sold: 10,
+        tickets_held: 0,
+        ticket_version: 4,
+        ticket_price: 25,
+        updated_at: '2026-01-01T00:00:00.000Z'
+      });
+      vi.mocked(supabase.from).mockImplementation(from);
+
+      await Promise.all([eventsService.sellTickets(eventId, 1), eventsService.sellTickets(eventId, 1)]);
+
+      expect(table.row.tickets_sold).toBe(12);
+      expect(table.row.ticket_version).toBe(6);
+      expect(table.row.updated_at).toBe('2026-01-01T00:00:00.000Z');
+    });
+
+    it('should keep tier counts when the tiers are edited', async () => {
+      const { table, from } = mockEventsTable({
+        id: eventId,
+        title: 'Jazz Night',
+        date: '2099-06-01',
+        status: 'upcoming',
+        total_capacity: 100,
+        tickets_sold: 14,
+        tickets_held: 2,
+        ticket_version: 3,
+        ticket_price: 25,
+        updated_at: version,
+        ticket_tiers: [
+          { type: 'general', capacity: 90, price: 25, sold: 10, held: 2 },
+          { type: 'vip', capacity: 10, price: 60, sold: 4, held: 0 }
+        ]
+      });
+      vi.mocked(supabase.from).mockImplementation(from);
+
+      const result = await eventsService.updateEvent(eventId, {
+        ticketTiers: [
+          { type: 'general', capacity: 85, price: 30, sold: 0 },
+          { type: 'vip', capacity: 15, price: 60, sold: 0 }
+        ]
+      }, version) as SaleResult;
+      expect(result.success).toBe(true);
+      expect(table.row.ticket_tiers).toEqual([
+        { type: 'general', capacity: 85, price: 30, sold: 10, held: 2 },
+        { type: 'vip', capacity: 15, price: 60, sold: 4, held: 0 }
+      ]);
+      expect(table.row.ticket_version).toBe(4);
+    });
+
+    const tieredEvent = {
+      id: eventId,
+      title: 'Jazz Night',
+      date: '2099-06-01',
+      status: 'upcoming',
+      total_capacity: 100,
+      tickets_sold: 0,
+      tickets_held: 0,
+      ticket_version: 0,
+      ticket_price: 25,
+      updated_at: version,
+      ticket_tiers: [
+        { type: 'general', capacity: 80, price: 25, sold: 0, held: 0 },
+        { type: 'vip', capacity: 20, price: 60, sold: 0, held: 0 }
+      ]
+    };
+
+    it('should refuse tiers that outgrow the stored capacity', async () => {
+      const { table, from } = mockEventsTable(tieredEvent);
+      vi.mocked(supabase.from).mockImplementation(from);
+
+      const result = await eventsService.updateEvent(eventId, {
+        ticketTiers: [
+          { type: 'general', capacity: 90, price: 25, sold: 0 },
+          { type: 'vip', capacity: 20, price: 60, sold: 0 }
+        ]
+      }, version) as SaleResult;
+
+      expect(result.success).toBe(false);
+      expect(table.updates).toBe(0);
+    });
+
+    it('should refuse lowering the capacity below the stored tiers', async () => {
+      const { table, from } = mockEventsTable(tieredEvent);
+      vi.mocked(supabase.from).mockImplementation(from);
+
+      const lowered = await eventsService.updateEvent(eventId, { totalCapacity: 90 }, version) as SaleResult;
+      expect(lowered.success).toBe(false);
+      expect(table.row.total_capacity).toBe(100);
+
+      const raised = await eventsService.updateEvent(eventId, { totalCapacity: 120 }, version) as SaleResult;
+      expect(raised.success).toBe(true);
+      expect(table.row.total_capacity).toBe(120);
+    });
+
+    it('should reject negative tier prices and prices in fractions of a cent', async () => {
+      const { table, from } = mockEventsTable(tieredEvent);
+      vi.mocked(supabase.from).mockImplementation(from);
+
+      for (const price of [-5, 25.005]) {
+        const result = await eventsService.updateEvent(eventId, {
+          ticketTiers: [{ type: 'general', capacity: 80, price, sold: 0 }]
+        }, version) as { title?: string };
+        expect(result.title).toBe('Validation Error');
+      }
+      expect(table.updates).toBe(0);
+    });
+
+    it('should reject a sale window that ends before it starts', async () => {
+      const { from } = mockEventsTable(tieredEvent);
+      vi.mocked(supabase.from).mockImplementation(from);
+
+      const result = await eventsService.updateEvent(eventId, {
+        ticketTiers: [{
+          type: 'general',
+          capacity: 80,
+          price: 25,
+          sold: 0,
+          salesStart: '2099-05-01T00:00:00.000Z',
+          salesEnd: '2099-04-01T00:00:00.000Z'
+        }]
+      }, version) as { title?: string };
+
+      expect(result.title).toBe('Validation Error');
+    });
+
+    it('should only sell a tier inside its sale window', async () => {
+      const { table, from } = mockEventsTable({
+        ...tieredEvent,
+        ticket_tiers: [
+          { type: 'general', capacity: 60, price: 25, sold: 0, held: 0, salesEnd: '2020-01-01T00:00:00.000Z' },
+          { type: 'earlyBird', capacity: 20, price: 15, sold: 0, held: 0, salesStart: '2099-01-01T00:00:00.000Z' },
+          { type: 'vip', capacity: 20, price: 60, sold: 0, held: 0 }
+        ]
+      });
+      vi.mocked(supabase.from).mockImplementation(from);
+
+      const ended = await eventsService.sellTickets(eventId, 1, 'general') as SaleResult;
+      const notStarted = await eventsService.sellTickets(eventId, 1, 'earlyBird') as SaleResult;
+      const open = await eventsService.sellTickets(eventId, 1, 'vip') as SaleResult;
+
+      expect(ended.success).toBe(false);
+      expect(notStarted.success).toBe(false);
+      expect(open.success).toBe(true);
+      expect(table.row.tickets_sold).toBe(1);
+    });
+  });
+
+  describe('refundTickets', () => {
+    const eventId = '6f1c2a4e-8b3d-4c5e-9f7a-1b2c3d4e5f60';
+    const posting = {
+      accountId: '4f2d8c1e-7a6b-4c3d-8e9f-0a1b2c3d4e5f',
+      categoryId: '9a3e5b7d-1c2d-4e3f-a4b5-c6d7e8f9a0b1'
+    };
+    const ticketIds = [
+      '0b7c9e2a-1d3f-4a5b-8c6d-7e8f9a0b1c2d',
+      '1c8d0f3b-2e4a-4b6c-9d7e-8f9a0b1c2d3e',
+      '2d9e1a4c-3f5b-4c7d-ae8f-9a0b1c2d3e4f'
+    ];
+    type RefundResult = { success?: boolean; data?: { tickets: unknown[]; refundedAmount: number } };
+
+    // In-memory tables that honour the conditional update filters
+    const mockTables = (tables: Record<string, Record<string, unknown>[]>) => (tableName: string) => {
+      const filters: Array<(row: Record<string, unknown>) => boolean> = [];
+      let updates: Record<string, unknown> | undefined;
+      let single = false;
+      const builder: Record<string, unknown> = {
+        select: () => builder,
+        order: () => builder,
+        update: (values: Record<string, unknown>) => { updates = values; return builder; },
+        eq: (column: string, value: unknown) => { filters.push(row => row[column] === value); return builder; },
+        in: (column: string, values: unknown[]) => { filters.push(row => values.includes(row[column])); return builder; },
+        single: () => { single = true; return builder; },
+        then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+          Promise.resolve().then(() => {
+            const matches = (tables[tableName] || []).filter(row => filters.every(filter => filter(row)));
+            if (updates) {
+              matches.forEach(row => Object.assign(row, updates));
+            }
+            const data = matches.map(row => ({ ...row }));
+            return { data: single ? data[0] : data, error: null };
+          }).then(resolve, reject)
+      };
+      return builder;
+    };
+
+    const seedTables = () => {
+      const tables: Record<string, Record<string, unknown>[]> = {
+        events: [{
+          id: eventId,
+          title: 'Jazz Night',
+          status: 'cancelled',
+          total_capacity: 100,
+          tickets_sold: 3,
+          tickets_held: 0,
+          ticket_version: 0,
+          ticket_price: 25,
+          ticket_tiers: [
+            { type: 'general', capacity: 90, price: 25, sold: 2 },
+            { type: 'vip', capacity: 10, price: 60, sold: 1 }
+          ]
+        }],
+        tickets: [
+          { id: ticketIds[0], event_id: eventId, price: 25, type: 'general', status: 'valid', sale_transaction_id: 'txn-sale', tax_amount: 2.27 },
+          { id: ticketIds[1], event_id: eventId, price: 25, type: 'general', status: 'used', sale_transaction_id: 'txn-sale', tax_amount: 2.27 },
+          { id: ticketIds[2], event_id: eventId, price: 60, type: 'vip', status: 'valid', sale_transaction_id: 'txn-sale', tax_amount: 5.45 }
+        ]
+      };
+      vi.mocked(supabase.from).mockImplementation(mockTables(tables));
+      return tables;
+    };
+
+    beforeEach(() => {
+      vi.spyOn((eventsService as unknown as { adapter: SupabaseAdapter }).adapter, 'executeQuery').mockImplementation(
+        (async (_config: unknown, operation: () => Promise<{ data: unknown; error: unknown }>) => {
+          const { data, error } = await operation();
+          return error
+            ? { success: false, error, meta: { status: 'error' } }
+            : { success: true, data, meta: { status: 'success' } };
+        }) as never
+      );
+      vi.spyOn(financeService, 'createTransaction').mockImplementation(
+        async (transaction) => ({ success: true, data: { id: 'txn-1', ...transaction } }) as Awaited<ReturnType<typeof financeService.createTransaction>>
+      );
+    });
+
+    it('should refund every valid ticket, return the seats and post the refund', async () => {
+      const tables = seedTables();
+
+      const result = await eventsService.refundTickets(eventId, posting) as RefundResult;
+
+      expect(result.success).toBe(true);
+      expect(result.data?.tickets).toHaveLength(2);
+      expect(result.data?.refundedAmount).toBe(85);
+      expect(tables.tickets.map(ticket => ticket.status)).toEqual(['refunded', 'used', 'refunded']);
+      expect(tables.events[0].tickets_sold).toBe(1);
+      expect(tables.events[0].ticket_tiers).toMatchObject([
+        { type: 'general', sold: 1 },
+        { type: 'vip', sold: 0 }
+      ]);
+      expect(financeService.createTransaction).toHaveBeenCalledTimes(1);
+      expect(financeService.createTransaction).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'refund',
+        amount: 85,
+        taxAmount: 7.72,
+        relatedEntityId: eventId
+      }));
+    });
+
+    it('should not reverse revenue for tickets whose sale was never booked', async () => {
+      const tables = seedTables();
+      tables.tickets[0].sale_transaction_id = null;
+      tables.tickets[0].tax_amount = null;
+
+      const result = await eventsService.refundTickets(eventId, posting) as RefundResult;
+
+      expect(result.data?.refundedAmount).toBe(85);
+      expect(financeService.createTransaction).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'refund',
+        amount: 60,
+        taxAmount: 5.45
+      }));
+    });
+
+    it('should only refund a ticket once when two refunds race', async () => {
+      const tables = seedTables();
+
+      const results = await Promise.all([
+        eventsService.refundTickets(eventId, { ...posting, ticketIds: [ticketIds[0]] }),
+        eventsService.refundTickets(eventId, { ...posting, ticketIds: [ticketIds[0]] })
+      ]) as RefundResult[];
+
+      expect(results.map(result => result.data?.tickets.length).sort()).toEqual([0, 1]);
+      expect(tables.events[0].tickets_sold).toBe(2);
+      expect(financeService.createTransaction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject refunding a used ticket', async () => {
+      seedTables();
+
+      const result = await eventsService.refundTickets(eventId, { ...posting, ticketIds: [ticketIds[1]] });
+
+      expect(result.success).toBe(false);
+      expect(financeService.createTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to cancel an event with seats sold without a ticket', async () => {
+      const tables = seedTables();
+      Object.assign(tables.events[0], { status: 'upcoming', date: '2099-06-01', tickets_sold: 5 });
+
+      const result = await eventsService.cancelEvent(eventId, 'Storm damage', posting) as { success?: boolean; error?: { status: number } };
+
+      expect(result.success).toBe(false);
+      expect(result.error?.status).toBe(409);
+      expect(tables.events[0].status).toBe('upcoming');
+      expect(tables.tickets.map(ticket => ticket.status)).toEqual(['valid', 'used', 'valid']);
+    });
+
+    it('should put a cancelled event back on sale when its refund fails', async () => {
+      const tables = seedTables();
+      Object.assign(tables.events[0], { status: 'upcoming', date: '2099-06-01' });
+      vi.mocked(financeService.createTransaction).mockResolvedValue(
+        { success: false, error: { status: 503 } } as unknown as Awaited<ReturnType<typeof financeService.createTransaction>>
+      );
+
+      const result = await eventsService.cancelEvent(eventId, 'Storm damage', posting) as { success?: boolean };
+
+      expect(result.success).toBe(false);
+      expect(tables.events[0].status).toBe('upcoming');
+    });
+  });
+
+  describe('ticket holds', () => {
+    const eventId = '6f1c2a4e-8b3d-4c5e-9f7a-1b2c3d4e5f60';
+    const holdId = '3e0f2b5d-4a6c-4d8e-bf9a-0b1c2d3e4f5a';
+    const toEventId = '7a2d3b5f-9c4e-4d6f-a08b-2c3d4e5f6a71';
+    const ticketId = '4f1a3c6e-5b7d-4e9f-8a0b-1c2d3e4f5a6b';
+    const accountId = '4f2d8c1e-7a6b-4c3d-8e9f-0a1b2c3d4e5f';
+    const categoryId = '9a3e5b7d-1c2d-4e3f-a4b5-c6d7e8f9a0b1';
+    type HoldResult = { success?: boolean; data: { status?: string; tickets?: unknown[] }; error?: { status: number } };
+
+    // In-memory tables that honour conditional updates; writes to failing tables return an error
+    const mockTables = (tables: Record<string, Record<string, unknown>[]>, failing: Set<string>) => (tableName: string) => {
+      const filters: Array<(row: Record<string, unknown>) => boolean> = [];
+      let updates: Record<string, unknown> | undefined;
+      let inserts: Record<string, unknown>[] | undefined;
+      let deleting = false;
+      let single = false;
+      const builder: Record<string, unknown> = {
+        select: () => builder,
+        order: () => builder,
+        insert: (rows: Record<string, unknown>[]) => { inserts = rows; return builder; },
+        delete: () => { deleting = true; return builder; },
+        update: (values: Record<string, unknown>) => { updates = values; return builder; },
+        eq: (column: string, value: unknown) => { filters.push(row => row[column] === value); return builder; },
+        in: (column: string, values: unknown[]) => { filters.push(row => values.includes(row[column])); return builder; },
+        single: () => { single = true; return builder; },
+        then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+          Promise.resolve().then(() => {
+            if ((updates || inserts || deleting) && failing.has(tableName)) {
+              return { data: null, error: { message: `${tableName} write failed` } };
+            }
+            tables[tableName] = tables[tableName] || [];
+            if (inserts) {
+              const rows = inserts.map(row => ({ id: crypto.randomUUID(), ...row }));
+              tables[tableName].push(...rows);
+              return { data: rows.map(row => ({ ...row })), error: null };
+            }
+            const matches = tables[tableName].filter(row => filters.every(filter => filter(row)));
+            if (deleting) {
+              tables[tableName] = tables[tableName].filter(row => !matches.includes(row));
+            }
+            if (updates) {
+              matches.forEach(row => Object.assign(row, updates));
+            }
+            const data = matches.map(row => ({ ...row }));
+            return { data: single ? data[0] : data, error: null };
+          }).then(resolve, reject)
+      };
+      return builder;
+    };
+
+    const seedTables = (hold?: Record<string, unknown>, failing: string[] = []) => {
+      const tables: Record<string, Record<string, unknown>[]> = {
+        events: [{
+          id: eventId,
+          title: 'Jazz Night',
+          status: 'upcoming',
+          total_capacity: 100,
+          tickets_sold: 10,
+          tickets_held: hold ? 2 : 0,
+          ticket_version: 0,
+          ticket_price: 25,
+          ticket_tiers: [
+            { type: 'general', capacity: 90, price: 25, sold: 10, held: hold ? 2 : 0 },
+            { type: 'vip', capacity: 10, price: 60, sold: 0, held: 0 }
+          ]
+        }],
+        ticket_holds: hold ? [{
+          id: holdId,
+          event_id: eventId,
+          quantity: 2,
+          tier_type: 'general',
+          status: 'active',
+          expires_at: new Date(Date.now() + 10 * 60 * 1000).toISOString(),
+          customer_name: 'Sam Rivera',
+          ...hold
+        }] : [],
+        tickets: []
+      };
+      vi.mocked(supabase.from).mockImplementation(mockTables(tables, new Set(failing)));
+      return tables;
+    };
+
+    beforeEach(() => {
+      vi.spyOn((eventsService as unknown as { adapter: SupabaseAdapter }).adapter, 'executeQuery').mockImplementation(
+        (async (_config: unknown, operation: () => Promise<{ data: unknown; error: unknown }>) => {
+          const { data, error } = await operation();
+          return error
+            ? { success: false, error, meta: { status: 'error' } }
+            : { success: true, data, meta: { status: 'success' } };
+        }) as never
+      );
+    });
+
+    it('should hold seats against capacity', async () => {
+      const tables = seedTables();
+
+      const result = await eventsService.createTicketHold({ eventId, quantity: 3, tierType: 'vip' }) as HoldResult;
+
+      expect(result.success).toBe(true);
+      expect(result.data.status).toBe('active');
+      expect(tables.ticket_holds).toHaveLength(1);
+      expect(tables.events[0].tickets_held).toBe(3);
+      expect(tables.events[0].ticket_tiers).toMatchObject([{ type: 'general', held: 0 }, { type: 'vip', held: 3 }]);
+    });
+
+    it('should expire lapsed holds and return their seats', async () => {
+      const tables = seedTables({ expires_at: new Date(Date.now() - 60 * 1000).toISOString() });
+
+      const result = await eventsService.releaseExpiredHolds(eventId) as HoldResult;
+
+      expect(result.data).toEqual({ released: 1 });
+      expect(tables.ticket_holds[0].status).toBe('expired');
+      expect(tables.events[0].tickets_held).toBe(0);
+      expect(tables.events[0].ticket_tiers).toMatchObject([{ type: 'general', held: 0 }, { type: 'vip', held: 0 }]);
+    });
+
+    it('should convert a hold into sold tickets', async () => {
+      const tables = seedTables({});
+
+      const result = await eventsService.convertTicketHold(holdId, { paymentReference: 'PAY-42' }) as HoldResult;
+
+      expect(result.success).toBe(true);
+      expect(result.data.tickets).toHaveLength(2);
+      expect(tables.tickets).toHaveLength(2);
+      expect(tables.ticket_holds[0]).toMatchObject({ status: 'converted', payment_reference: 'PAY-42' });
+      expect(tables.events[0]).toMatchObject({ tickets_sold: 12, tickets_held: 0 });
+      expect(tables.events[0].ticket_tiers).toMatchObject([{ type: 'general', sold: 12, held: 0 }, { type: 'vip', sold: 0 }]);
+    });
+
+    it('should book the sale and split its tax across the tickets', async () => {
+      const tables = seedTables({});
+      vi.spyOn(financeService, 'createTransaction').mockResolvedValue(
+        { success: true, data: { id: 'txn-sale', taxAmount: 4.55 } } as Awaited<ReturnType<typeof financeService.createTransaction>>
+      );
+
+      const result = await eventsService.convertTicketHold(holdId, { accountId, categoryId }) as HoldResult;
+
+      expect(result.success).toBe(true);
+      expect(financeService.createTransaction).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'income',
+        amount: 50,
+        taxInclusive: true
+      }));
+      expect(tables.tickets.map(ticket => [ticket.sale_transaction_id, ticket.tax_amount])).toEqual([
+        ['txn-sale', 2.27],
+        ['txn-sale', 2.28]
+      ]);
+    });
+
+    it('should remove the booked sale without trashing it when the tickets cannot be issued', async () => {
+      const tables = seedTables({}, ['tickets']);
+      tables.financial_transactions = [{ id: 'txn-sale', type: 'income', status: 'completed' }];
+      vi.spyOn(financeService, 'createTransaction').mockResolvedValue(
+        { success: true, data: { id: 'txn-sale', taxAmount: 4.55 } } as Awaited<ReturnType<typeof financeService.createTransaction>>
+      );
+      vi.spyOn(financeService, 'deleteTransaction');
+
+      const result = await eventsService.convertTicketHold(holdId, { accountId, categoryId }) as HoldResult;
+
+      expect(result.success).toBe(false);
+      expect(financeService.deleteTransaction).not.toHaveBeenCalled();
+      expect(tables.financial_transactions).toEqual([]);
+      expect(tables.trash_entries ?? []).toEqual([]);
+      expect(tables.ticket_holds[0].status).toBe('active');
+      expect(tables.events[0]).toMatchObject({ tickets_sold: 10, tickets_held: 2 });
+    });
+
+    it('should issue the new ticket before cancelling an exchanged one', async () => {
+      const tables = seedTables();
+      tables.events.push({ ...tables.events[0], id: toEventId, title: 'Blues Night', tickets_sold: 0, ticket_tiers: [
+        { type: 'general', capacity: 90, price: 25, sold: 0, held: 0 },
+        { type: 'vip', capacity: 10, price: 60, sold: 0, held: 0 }
+      ] });
+      tables.tickets.push({ id: ticketId, event_id: eventId, price: 60, type: 'vip', status: 'valid', sale_transaction_id: 'txn-sale', tax_amount: 10 });
+      (tables.events[0].ticket_tiers as Record<string, unknown>[])[1].sold = 1;
+      vi.spyOn(financeService, 'createTransaction').mockImplementation(
+        async (transaction) => ({ success: true, data: { id: 'txn-1', ...transaction } }) as Awaited<ReturnType<typeof financeService.createTransaction>>
+      );
+
+      const result = await eventsService.exchangeTicket(ticketId, { accountId, categoryId, toEventId, tierType: 'general' }) as HoldResult;
+
+      expect(result.success).toBe(true);
+      expect(tables.tickets.map(ticket => ticket.status)).toEqual(['cancelled', 'valid']);
+      expect(tables.tickets[1]).toMatchObject({ event_id: toEventId, sale_transaction_id: 'txn-sale', tax_amount: 4.17 });
+      expect(tables.events.map(event => event.tickets_sold)).toEqual([9, 1]);
+      expect(financeService.createTransaction).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'refund',
+        amount: 35,
+        taxAmount: 5.83
+      }));
+    });
+
+    it('should give the new ticket back when the exchanged one was closed meanwhile', async () => {
+      const tables = seedTables();
+      tables.events.push({ ...tables.events[0], id: toEventId, title: 'Blues Night', tickets_sold: 0 });
+      tables.tickets.push({ id: ticketId, event_id: eventId, price: 25, type: 'general', status: 'valid' });
+      // The ticket is refunded while the new one is being issued
+      type Builder = Record<string, (rows: Record<string, unknown>[]) => unknown>;
+      const from = vi.mocked(supabase.from).getMockImplementation() as unknown as (tableName: string) => Builder;
+      vi.mocked(supabase.from).mockImplementation(((tableName: string) => {
+        const builder = from(tableName);
+        const insert = builder.insert;
+        builder.insert = (rows: Record<string, unknown>[]) => {
+          tables.tickets[0].status = 'refunded';
+          return insert(rows);
+        };
+        return builder;
+      }) as never);
+
+      const result = await eventsService.exchangeTicket(ticketId, { accountId, categoryId, toEventId }) as HoldResult;
+
+      expect(result.error?.status).toBe(409);
+      expect(tables.tickets.map(ticket => ticket.status)).toEqual(['refunded', 'cancelled']);
+      expect(tables.events[1].tickets_sold).toBe(0);
+    });
+
+    it('should release a hold once and return its seats', async () => {
+      const tables = seedTables({});
+
+      const results = await Promise.all([
+        eventsService.releaseTicketHold(holdId),
+        eventsService.releaseTicketHold(holdId)
+      ]) as HoldResult[];
+
+      expect(results.filter(result => result.success)).toHaveLength(1);
+      expect(tables.ticket_holds[0].status).toBe('released');
+      expect(tables.events[0].tickets_held).toBe(0);
+    });
+
+    it('should leave the hold open when the seats cannot be moved', async () => {
+      const tables = seedTables({}, ['events']);
+
+      const result = await eventsService.convertTicketHold(holdId) as HoldResult;
+
+      expect(result.success).toBe(false);
+      expect(tables.ticket_holds[0].status).toBe('active');
+      expect(tables.events[0]).toMatchObject({ tickets_sold: 10, tickets_held: 2 });
+      expect(tables.tickets).toHaveLength(0);
+    });
+
+    it('should put the seats back on hold when the tickets cannot be issued', async () => {
+      const tables = seedTables({}, ['tickets']);
+
+      const result = await eventsService.convertTicketHold(holdId) as HoldResult;
+
+      expect(result.success).toBe(false);
+      expect(tables.ticket_holds[0].status).toBe('active');
+      expect(tables.events[0]).toMatchObject({ tickets_sold: 10, tickets_held: 2 });
+      expect(tables.events[0].ticket_tiers).toMatchObject([{ type: 'general', sold: 10, held: 2 }, { type: 'vip', sold: 0 }]);
+    });
+  });
+
+  describe('scanTicket', () => {
+    const secret = 'door-test-secret';
+    const eventId = '6f1c2a4e-8b3d-4c5e-9f7a-1b2c3d4e5f60';
+    const otherEventId = '7a2d3b5f-9c4e-4d6f-8a8b-2c3d4e5f6a71';
+    const ticketId = '0b7c9e2a-1d3f-4a5b-8c6d-7e8f9a0b1c2d';
+    type ScanResult = { success?: boolean; data?: { result: string; reason?: string; firstScannedAt?: string } };
+
+    // In-memory tables that honour the conditional admit update
+    const mockTables = (tables: Record<string, Record<string, unknown>[]>) => (tableName: string) => {
+      const filters: Array<(row: Record<string, unknown>) => boolean> = [];
+      let updates: Record<string, unknown> | undefined;
+      let inserts: Record<string, unknown>[] | undefined;
+      const builder: Record<string, unknown> = {
+        select: () => builder,
+        insert: (rows: Record<string, unknown>[]) => { inserts = rows; return builder; },
+        update: (values: Record<string, unknown>) => { updates = values; return builder; },
+        eq: (column: string, value: unknown) => { filters.push(row => row[column] === value); return builder; },
+        then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+          Promise.resolve().then(() => {
+            tables[tableName] = tables[tableName] || [];
+            if (inserts) {
+              tables[tableName].push(...inserts);
+              return { data: inserts, error: null };
+            }
+            const matches = tables[tableName].filter(row => filters.every(filter => filter(row)));
+            if (updates) {
+              matches.forEach(row => Object.assign(row, updates));
+            }
+            return { data: matches.map(row => ({ ...row })), error: null };
+          }).then(resolve, reject)
+      };
+      return builder;
+    };
+
+    const seedTables = async (ticket: Record<string, unknown> = {}) => {
+      const code = await signTicketCode(ticketId, eventId, secret);
+      const tables: Record<string, Record<string, unknown>[]> = {
+        tickets: [{ id: ticketId, event_id: eventId, code, type: 'general', status: 'valid', purchaser_name: 'Sam Rivera', ...ticket }],
+        ticket_scans: []
+      };
+      vi.mocked(supabase.from).mockImplementation(mockTables(tables));
+      return { tables, code };
+    };
+
+    beforeEach(() => {
+      eventsService = new EventsService({ ticketSigningSecret: secret });
+      vi.spyOn((eventsService as unknown as { adapter: SupabaseAdapter }).adapter, 'executeQuery').mockImplementation(
+        (async (_config: unknown, operation: () => Promise<{ data: unknown; error: unknown }>) => {
+          const { data, error } = await operation();
+          return error
+            ? { success: false, error, meta: { status: 'error' } }
+            : { success: true, data, meta: { status: 'success' } };
+        }) as never
+      );
+    });
+
+    it('should sign codes that verify only with the same secret', async () => {
+      const code = await signTicketCode(ticketId, eventId, secret);
+
+      expect(code.startsWith(`TS1.${ticketId}.${eventId}.`)).toBe(true);
+      expect(await verifyTicketCode(code, secret)).toMatchObject({ ticketId, eventId });
+      expect(await verifyTicketCode(code, 'another-secret')).toBeNull();
+    });
+
+    it('should admit a valid code once', async () => {
+      const { tables, code } = await seedTables();
+
+      const result = await eventsService.scanTicket({ code, eventId }) as ScanResult;
+
+      expect(result.data?.result).toBe('admitted');
+      expect(tables.tickets[0].status).toBe('used');
+      expect(tables.ticket_scans).toHaveLength(1);
+    });
+
+    it('should reject a tampered code', async () => {
+      const { tables, code } = await seedTables();
+      const tampered = code.replace(ticketId, '1c8d0f3b-2e4a-4b6c-9d7e-8f9a0b1c2d3e');
+
+      const result = await eventsService.scanTicket({ code: tampered, eventId }) as ScanResult;
+
+      expect(result.data).toMatchObject({ result: 'invalid', reason: 'Code is not a valid ticket code' });
+      expect(tables.tickets[0].status).toBe('valid');
+    });
+
+    it('should report an already used code as a duplicate', async () => {
+      const { code } = await seedTables({ status: 'used', scanned_at: '2026-06-01T19:42:10.000Z' });
+
+      const result = await eventsService.scanTicket({ code, eventId }) as ScanResult;
+
+      expect(result.data).toMatchObject({ result: 'duplicate', firstScannedAt: '2026-06-01T19:42:10.000Z' });
+    });
+
+    it('should refuse a code issued for another event', async () => {
+      const { tables, code } = await seedTables();
+
+      const result = await eventsService.scanTicket({ code, eventId: otherEventId }) as ScanResult;
+
+      expect(result.data).toMatchObject({ result: 'invalid', reason: 'Ticket is for a different event' });
+      expect(tables.tickets[0].status).toBe('valid');
+    });
+  });
+
   // Note: Analytics, publishing, and duplication features to be implemented in future versions
 }); 
\ No newline at end of file
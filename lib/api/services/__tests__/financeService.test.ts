@@ -0,0 +1,469 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { FinanceService } from '../financeService';
+import { inventoryService } from '../inventoryService';
+import { supabase } from '../../../supabase';
+import type { SupabaseAdapter } from '../../adapters/supabaseAdapter';
+import type { FinancialReport, FinancialTransaction, StatementImportResult, TaxRate } from '../../schemas/financeSchemas';
+
+// Mock Supabase
+vi.mock('../../../supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    auth: {
+      getUser: vi.fn()
+    }
+  }
+}));
+
+// Service responses as these tests read them
+type TestResponse<T> = { success: boolean; data: T; error: { status: number; detail?: string } };
+const read = <T>(response: unknown) => response as TestResponse<T>;
+
+describe('FinanceService', () => {
+  let financeService: FinanceService;
+
+  const bankId = '1c2d3e4f-5a6b-4c7d-8e9f-0a1b2c3d4e5f';
+  const barSalesId = '2d3e4f5a-6b7c-4d8e-9f0a-1b2c3d4e5f6a';
+  const suppliesId = '3e4f5a6b-7c8d-4e9f-8a1b-2c3d4e5f6a7b';
+
+  const transaction = (overrides: Record<string, unknown>) => ({
+    id: crypto.randomUUID(),
+    type: 'income',
+    category_id: barSalesId,
+    amount: 100,
+    description: 'Bar takings',
+    date: '2026-01-15',
+    account_id: bankId,
+    status: 'completed',
+    ...overrides
+  });
+
+  // Records every filter a query was built with and serves rows a page at a time
+  const mockTable = (rows: Record<string, unknown>[]) => {
+    const calls: Array<[string, unknown[]]> = [];
+    const builder: object = new Proxy({}, {
+      get: (_target, method: string) => {
+        if (method === 'then') {
+          return (resolve: (value: unknown) => unknown) => resolve({ data: rows, error: null });
+        }
+        if (method === 'range') {
+          return (from: number, to: number) => {
+            calls.push(['range', [from, to]]);
+            return Promise.resolve({ data: rows.slice(from, to + 1), error: null });
+          };
+        }
+        return (...args: unknown[]) => {
+          calls.push([method, args]);
+          return builder;
+        };
+      }
+    });
+    vi.mocked(supabase.from).mockImplementation(() => builder as never);
+    return calls;
+  };
+
+  beforeEach(() => {
+    financeService = new FinanceService();
+    vi.spyOn((financeService as unknown as { adapter: SupabaseAdapter }).adapter, 'executeQuery').mockImplementation(
+      (async (_config: unknown, operation: () => Promise<{ data: unknown; error: unknown }>) => {
+        const { data, error } = await operation();
+        return error
+          ? { success: false, error, meta: { status: 'error' } }
+          : { success: true, data, meta: { status: 'success' } };
+      }) as never
+    );
+    vi.spyOn(financeService, 'getAccounts').mockResolvedValue({
+      success: true,
+      data: [{ id: bankId, name: 'Bank', type: 'asset', balance: 0, isActive: true }]
+    } as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('generateReport', () => {
+    it('should read every ledger page past the 1000-row cap', async () => {
+      const rows = Array.from({ length: 1001 }, () => transaction({ amount: 10 }));
+      const calls = mockTable(rows);
+
+      const result = read<FinancialReport>(await financeService.generateReport({
+        reportType: 'revenue_report',
+        dateRange: { start: '2026-01-01', end: '2026-01-31' }
+      }));
+
+      expect(result.success).toBe(true);
+      expect(result.data.data.totalIncome).toBe(10010);
+      expect(calls.filter(([method]) => method === 'range').map(([, args]) => args)).toEqual([[0, 999], [1000, 1999]]);
+    });
+
+    it('should include the whole day of a date-only end date', async () => {
+      const calls = mockTable([transaction({ date: '2026-01-31T21:30:00.000Z' })]);
+      vi.spyOn(inventoryService, 'getCostOfGoodsSold').mockResolvedValue({
+        success: true,
+        data: { method: 'fifo', total: 0, shrinkage: 0, openingValue: 0, closingValue: 0 }
+      } as never);
+
+      const result = read<FinancialReport>(await financeService.generateReport({
+        reportType: 'profit_loss',
+        dateRange: { start: '2026-01-01', end: '2026-01-31' }
+      }));
+
+      expect(calls).toContainEqual(['lt', ['date', '2026-02-01T00:00:00.000Z']]);
+      expect(result.data.dateRange.end).toBe('2026-01-31T23:59:59.999Z');
+      expect(result.data.data.totalIncome).toBe(100);
+    });
+
+    it('should replace stock purchases with the cost of goods used on the profit & loss', async () => {
+      mockTable([
+        transaction({ amount: 1000 }),
+        transaction({ type: 'expense', category_id: suppliesId, amount: 400, tags: ['purchasing'] }),
+        transaction({ type: 'expense', category_id: suppliesId, amount: 100 })
+      ]);
+      vi.spyOn(inventoryService, 'getCostOfGoodsSold').mockResolvedValue({
+        success: true,
+        data: { method: 'fifo', total: 300, shrinkage: 20, openingValue: 0, closingValue: 80 }
+      } as never);
+
+      const result = read<FinancialReport>(await financeService.generateReport({
+        reportType: 'profit_loss',
+        dateRange: { start: '2026-01-01', end: '2026-01-31' }
+      }));
+
+      expect(result.data.data.grossProfit).toBe(700);
+      expect(result.data.data.costOfGoodsSold?.stockPurchases).toBe(400);
+      expect(result.data.data.totalExpenses).toBe(420);
+      expect(result.data.data.netIncome).toBe(580);
+    });
+
+    it('should compare the profit & loss to a previous period costed the same way', async () => {
+      mockTable([
+        transaction({ amount: 800, date: '2025-12-15' }),
+        transaction({ type: 'expense', category_id: suppliesId, amount: 300, date: '2025-12-16', tags: ['purchasing'] }),
+        transaction({ amount: 1000 }),
+        transaction({ type: 'expense', category_id: suppliesId, amount: 400, tags: ['purchasing'] })
+      ]);
+      vi.spyOn(inventoryService, 'getCostOfGoodsSold').mockImplementation(async ({ dateFrom }) => ({
+        success: true,
+        data: dateFrom?.startsWith('2025-12')
+          ? { method: 'fifo', total: 200, shrinkage: 0, openingValue: 0, closingValue: 100 }
+          : { method: 'fifo', total: 300, shrinkage: 20, openingValue: 100, closingValue: 180 }
+      }) as never);
+
+      const result = read<FinancialReport>(await financeService.generateReport({
+        reportType: 'profit_loss',
+        dateRange: { start: '2026-01-01', end: '2026-01-31' },
+        compareToLastPeriod: true
+      }));
+
+      expect(result.data.data.totalExpenses).toBe(320);
+      expect(result.data.comparison).toMatchObject({
+        totalIncome: 800,
+        totalExpenses: 200,
+        netIncome: 600,
+        change: { totalIncome: 200, totalExpenses: 120, netIncome: 80 }
+      });
+    });
+
+    it('should not compare to the previous period unless asked', async () => {
+      mockTable([transaction({})]);
+
+      const result = read<FinancialReport>(await financeService.generateReport({
+        reportType: 'revenue_report',
+        dateRange: { start: '2026-01-01', end: '2026-01-31' }
+      }));
+
+      expect(result.success).toBe(true);
+      expect(result.data.comparison).toBeUndefined();
+    });
+
+    it('should post negative amounts as reversals instead of dropping them', async () => {
+      mockTable([
+        transaction({ amount: 250 }),
+        transaction({ amount: -40, description: 'Till correction' }),
+        transaction({ type: 'expense', category_id: suppliesId, amount: 60 })
+      ]);
+
+      const result = read<FinancialReport>(await financeService.generateReport({
+        reportType: 'balance_sheet',
+        dateRange: { start: '2026-01-01', end: '2026-01-31' }
+      }));
+
+      expect(result.data.data.totalIncome).toBe(210);
+      expect(result.data.data.totalExpenses).toBe(60);
+      expect(result.data.data.netIncome).toBe(150);
+      expect(result.data.data.balanceSheet?.isBalanced).toBe(true);
+    });
+
+    it('should book sales tax as a liability instead of revenue', async () => {
+      mockTable([
+        transaction({ amount: 120, tax_amount: 20, tax_rate: 0.2 }),
+        transaction({ amount: 50, tax_amount: 5, tax_rate: 0.1, tax_inclusive: false })
+      ]);
+
+      const result = read<FinancialReport>(await financeService.generateReport({
+        reportType: 'balance_sheet',
+        dateRange: { start: '2026-01-01', end: '2026-01-31' }
+      }));
+
+      const { balanceSheet } = result.data.data;
+      expect(result.data.data.totalIncome).toBe(150);
+      expect(balanceSheet?.totalAssets).toBe(175);
+      expect(balanceSheet?.liabilities).toEqual([
+        { accountId: 'liability:sales-tax', accountName: 'Sales Tax Payable', balance: 25 }
+      ]);
+      expect(balanceSheet?.isBalanced).toBe(true);
+    });
+  });
+
+  describe('generateRecurringTransactions', () => {
+    const seriesId = '4f5a6b7c-8d9e-4f0a-9b1c-2d3e4f5a6b7c';
+
+    it('should not generate posted occurrences again after the series start moves', async () => {
+      vi.spyOn(financeService, 'getTransactionById').mockResolvedValue({
+        success: true,
+        data: {
+          id: seriesId,
+          type: 'expense',
+          categoryId: suppliesId,
+          amount: 900,
+          description: 'Rent',
+          date: '2026-01-10T00:00:00.000Z',
+          accountId: bankId,
+          isRecurring: true,
+          recurringPattern: { frequency: 'monthly', interval: 1 },
+          tags: []
+        }
+      } as never);
+      const calls = mockTable([
+        transaction({ recurring_series_id: seriesId, occurrence_index: 0, occurrence_date: '2026-01-05T00:00:00.000Z' }),
+        transaction({ recurring_series_id: seriesId, occurrence_index: 1, occurrence_date: '2026-02-05T00:00:00.000Z' })
+      ]);
+
+      await financeService.generateRecurringTransactions('2026-03-15T00:00:00.000Z', seriesId);
+
+      const inserted = calls.find(([method]) => method === 'insert')?.[1][0] as Record<string, unknown>[];
+      expect(inserted).toEqual([
+        expect.objectContaining({ occurrence_index: 2, occurrence_date: '2026-03-10T00:00:00.000Z' })
+      ]);
+    });
+  });
+
+  describe('budget limits', () => {
+    const budgetId = '5a6b7c8d-9e0f-4a1b-8c2d-3e4f5a6b7c8d';
+    const expenseId = '6b7c8d9e-0f1a-4b2c-9d3e-4f5a6b7c8d9e';
+
+    beforeEach(() => {
+      vi.spyOn(financeService, 'getBudgets').mockResolvedValue({
+        success: true,
+        data: [{
+          id: budgetId,
+          name: 'Bar supplies',
+          categoryId: suppliesId,
+          amount: 500,
+          period: 'monthly',
+          startDate: '2026-01-01T00:00:00.000Z',
+          endDate: '2026-12-31T23:59:59.999Z',
+          alertThreshold: 0.8,
+          limitType: 'hard',
+          isActive: true
+        }]
+      } as never);
+      vi.spyOn(financeService, 'getTransactionById').mockResolvedValue({
+        success: true,
+        data: {
+          id: expenseId,
+          type: 'expense',
+          categoryId: suppliesId,
+          amount: 100,
+          description: 'Limes',
+          date: '2026-01-12T00:00:00.000Z',
+          accountId: bankId,
+          status: 'pending',
+          isApproved: false,
+          tags: []
+        }
+      } as never);
+    });
+
+    it('should hold an edited expense that now breaches a hard limit', async () => {
+      const calls = mockTable([
+        transaction({ id: expenseId, type: 'expense', category_id: suppliesId, amount: 100, date: '2026-01-12T00:00:00.000Z' }),
+        transaction({ type: 'expense', category_id: suppliesId, amount: 350, date: '2026-01-05T00:00:00.000Z' })
+      ]);
+
+      const result = read<FinancialTransaction & { budgetWarning?: string }>(await financeService.updateTransaction(expenseId, { amount: 200 }, '2026-01-12T00:00:00.000Z'));
+
+      expect(result.success).toBe(true);
+      expect(result.data.budgetWarning).toMatch(/exceed budget "Bar supplies" by \$50\.00/);
+      expect(calls).toContainEqual(['update', [expect.objectContaining({ amount: 200, status: 'awaiting_approval', requires_approval: true })]]);
+    });
+
+    it('should claim the budget of a new expense and count it as spend in its category', async () => {
+      // Stored as createTransaction writes it, with the category in the category column
+      const calls = mockTable([
+        transaction({ type: 'expense', category_id: undefined, category: suppliesId, amount: 450, date: '2026-01-05T00:00:00.000Z' })
+      ]);
+
+      const result = read<FinancialTransaction & { budgetWarning?: string }>(await financeService.createTransaction({
+        type: 'expense',
+        amount: 100,
+        description: 'Limes',
+        categoryId: suppliesId,
+        accountId: bankId,
+        date: '2026-01-12T00:00:00.000Z'
+      } as never));
+
+      expect(result.success).toBe(true);
+      expect(result.data.budgetWarning).toMatch(/exceed budget "Bar supplies" by \$50\.00/);
+      expect(calls).toContainEqual(['update', [expect.objectContaining({ spend_claim: expect.any(String) })]]);
+      expect(calls).toContainEqual(['insert', [[expect.objectContaining({
+        category: suppliesId,
+        amount: 100,
+        status: 'awaiting_approval',
+        budget_id: budgetId
+      })]]]);
+    });
+
+    it('should tell the caller when the budget claim could not be released', async () => {
+      mockTable([transaction({ type: 'expense', category_id: suppliesId, amount: 10, date: '2026-01-05T00:00:00.000Z' })]);
+      const adapter = (financeService as unknown as { adapter: SupabaseAdapter }).adapter;
+      const passThrough = vi.mocked(adapter.executeQuery).getMockImplementation();
+      let claimWrites = 0;
+      vi.mocked(adapter.executeQuery).mockImplementation((async (config: { rateLimitKey?: string }, operation: never, mode: never) => {
+        if (config.rateLimitKey === 'finance:budgets:claim' && ++claimWrites === 2) {
+          return { success: false, error: { status: 503, title: 'Service Unavailable', detail: 'Connection lost' } };
+        }
+        return passThrough?.(config as never, operation, mode);
+      }) as never);
+
+      const result = read<FinancialTransaction & { budgetWarning?: string }>(await financeService.createTransaction({
+        type: 'expense',
+        amount: 20,
+        description: 'Limes',
+        categoryId: suppliesId,
+        accountId: bankId,
+        date: '2026-01-12T00:00:00.000Z'
+      } as never));
+
+      expect(result.success).toBe(true);
+      expect(result.data.budgetWarning).toBe('Budgets stay reserved for 30 seconds: Connection lost');
+    });
+
+    it('should refuse an expense edit while another expense holds the budget', async () => {
+      mockTable([]);
+
+      const result = read<FinancialTransaction>(await financeService.updateTransaction(expenseId, { amount: 180 }, '2026-01-12T00:00:00.000Z'));
+
+      expect(result.success).toBe(false);
+      expect(result.error.status).toBe(409);
+    });
+  });
+
+  describe('createTransaction', () => {
+    it('should post a transfer to both of its accounts', async () => {
+      const savingsId = '0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d';
+      const calls = mockTable([transaction({})]);
+
+      await financeService.createTransaction({
+        type: 'transfer',
+        amount: 300,
+        description: 'To savings',
+        categoryId: suppliesId,
+        accountId: bankId,
+        toAccountId: savingsId,
+        date: '2026-01-20T00:00:00.000Z'
+      } as never);
+
+      const [inserted] = calls.find(([method]) => method === 'insert')?.[1][0] as Record<string, unknown>[];
+      expect(inserted).toMatchObject({ transfer_to_account_id: savingsId });
+
+      mockTable([{ id: 'transfer-1', ...inserted }]);
+      const result = read<FinancialReport>(await financeService.generateReport({
+        reportType: 'balance_sheet',
+        dateRange: { start: '2026-01-01', end: '2026-01-31' }
+      }));
+
+      expect(result.data.data.balanceSheet?.assets).toEqual(expect.arrayContaining([
+        expect.objectContaining({ accountId: bankId, balance: -300 }),
+        expect.objectContaining({ accountId: savingsId, balance: 300 })
+      ]));
+    });
+  });
+
+  describe('updateTaxRate', () => {
+    const taxRateId = '9e0f1a2b-3c4d-4e5f-8a6b-7c8d9e0f1a2b';
+    const version = '2026-01-01T00:00:00.000Z';
+
+    it('should deactivate a tax rate', async () => {
+      const calls = mockTable([{ id: taxRateId, name: 'Bar VAT', category_id: barSalesId, rate: 0.2, is_active: false }]);
+
+      const result = read<TaxRate>(await financeService.updateTaxRate({ id: taxRateId, isActive: false }, version));
+
+      expect(result.success).toBe(true);
+      expect(result.data.isActive).toBe(false);
+      expect(calls).toContainEqual(['update', [expect.objectContaining({ is_active: false })]]);
+      expect(calls).toContainEqual(['eq', ['id', taxRateId]]);
+      expect(calls).toContainEqual(['eq', ['updated_at', version]]);
+    });
+
+    it('should report a missing tax rate', async () => {
+      mockTable([]);
+
+      const result = read<TaxRate>(await financeService.updateTaxRate({ id: taxRateId, rate: 0.1 }, version));
+
+      expect(result.success).toBe(false);
+      expect(result.error.status).toBe(404);
+    });
+  });
+
+  describe('importBankStatement', () => {
+    const savingsId = '7c8d9e0f-1a2b-4c3d-8e4f-5a6b7c8d9e0f';
+    const transferId = '8d9e0f1a-2b3c-4d4e-9f5a-6b7c8d9e0f1a';
+    const ofx = [
+      '<OFX><CURDEF>EUR<BANKTRANLIST>',
+      '<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20260114<TRNAMT>200.00<FITID>F-1<NAME>From savings</STMTTRN>',
+      '<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260115<TRNAMT>-45.00<FITID>F-2<NAME>Ice delivery</STMTTRN>',
+      '</BANKTRANLIST></OFX>'
+    ].join('\n');
+
+    it('should match incoming transfers and book new lines straight into the ledger', async () => {
+      const transfer = transaction({
+        id: transferId,
+        type: 'transfer',
+        amount: 200,
+        account_id: savingsId,
+        transfer_to_account_id: bankId,
+        date: '2026-01-14T00:00:00.000Z'
+      });
+      const calls = mockTable([transfer]);
+      vi.spyOn(financeService, 'getTransactionById').mockResolvedValue({
+        success: true,
+        data: (financeService as unknown as { transformTransactionFromDb: (row: Record<string, unknown>) => FinancialTransaction }).transformTransactionFromDb(transfer)
+      } as never);
+      const createTransaction = vi.spyOn(financeService, 'createTransaction');
+
+      const result = read<StatementImportResult>(await financeService.importBankStatement({
+        accountId: bankId,
+        format: 'ofx',
+        content: ofx,
+        expenseCategoryId: suppliesId,
+        incomeCategoryId: barSalesId
+      } as never));
+
+      expect(result.success).toBe(true);
+      expect(result.data.lines.map((line: { status: string }) => line.status)).toEqual(['matched', 'imported']);
+      expect(createTransaction).not.toHaveBeenCalled();
+      expect(calls).toContainEqual(['or', [`account_id.eq.${bankId},transfer_to_account_id.eq.${bankId}`]]);
+      expect(calls).toContainEqual(['insert', [[expect.objectContaining({
+        type: 'expense',
+        amount: 45,
+        currency: 'EUR',
+        status: 'completed',
+        is_reconciled: true,
+        statement_reference: 'F-2'
+      })]]]);
+      expect(calls).toContainEqual(['update', [expect.objectContaining({ to_account_reconciled: true, to_account_statement_reference: 'F-1' })]]);
+    });
+  });
+});
@@ -0,0 +1,359 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { InventoryService } from '../inventoryService';
+import { supabase } from '../../../supabase';
+import type { SupabaseAdapter } from '../../adapters/supabaseAdapter';
+import { moveLocationStock, type CostOfGoodsSold, type InventoryValuation, type StockAlert } from '../../schemas/inventorySchemas';
+
+// Mock Supabase
+vi.mock('../../../supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    auth: {
+      getUser: vi.fn()
+    }
+  }
+}));
+
+describe('InventoryService', () => {
+  let inventoryService: InventoryService;
+
+  const itemId = '5e7f9a1b-3c4d-4e6f-8a0b-1c2d3e4f5a6b';
+  const saleId = '6f8a0b2c-4d5e-4f7a-9b1c-2d3e4f5a6b7c';
+  const eventId = '7a9b1c3d-5e6f-4a8b-8c2d-3e4f5a6b7c8d';
+  type CostResult<T> = {
+    success?: boolean;
+    data?: T;
+  };
+
+  // In-memory tables, read whole or a page at a time
+  const mockTables = (tables: Record<string, Record<string, unknown>[]>) => (tableName: string) => {
+    const filters: Array<(row: Record<string, unknown>) => boolean> = [];
+    let changes: Record<string, unknown> | undefined;
+    let removing = false;
+    let singleRow = false;
+    const builder: Record<string, unknown> = {
+      select: () => builder,
+      single: () => { singleRow = true; return builder; },
+      order: () => builder,
+      eq: (column: string, value: unknown) => { filters.push(row => row[column] === value); return builder; },
+      lte: (column: string, value: string) => { filters.push(row => String(row[column]) <= value); return builder; },
+      // Only the 'column.is.null' and 'column.lte.value' conditions are needed here
+      or: (conditions: string) => {
+        const checks = conditions.split(',').map(condition => {
+          const [column, operator, ...value] = condition.split('.');
+          return (row: Record<string, unknown>) => operator === 'is'
+            ? row[column] === null || row[column] === undefined
+            : String(row[column]) <= value.join('.');
+        });
+        filters.push(row => checks.some(check => check(row)));
+        return builder;
+      },
+      range: (from: number, to: number) => Promise.resolve({
+        data: (tables[tableName] || []).filter(row => filters.every(filter => filter(row))).slice(from, to + 1),
+        error: null
+      }),
+      insert: (rows: Record<string, unknown>[]) => {
+        tables[tableName] = [...(tables[tableName] || []), ...rows.map(row => ({ id: crypto.randomUUID(), ...row }))];
+        return builder;
+      },
+      update: (values: Record<string, unknown>) => { changes = values; return builder; },
+      delete: () => { removing = true; return builder; },
+      then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) => {
+        const rows = (tables[tableName] || []).filter(row => filters.every(filter => filter(row)));
+        if (removing) {
+          tables[tableName] = (tables[tableName] || []).filter(row => !rows.includes(row));
+        }
+        if (changes) {
+          rows.forEach(row => Object.assign(row, changes));
+        }
+        return Promise.resolve({ data: singleRow ? rows[0] ?? null : rows, error: null }).then(resolve, reject);
+      }
+    };
+    return builder;
+  };
+
+  beforeEach(() => {
+    inventoryService = new InventoryService();
+    vi.spyOn((inventoryService as unknown as { adapter: SupabaseAdapter }).adapter, 'executeQuery').mockImplementation(
+      (async (_config: unknown, operation: () => Promise<{ data: unknown; error: unknown }>) => {
+        const { data, error } = await operation();
+        return error
+          ? { success: false, error, meta: { status: 'error' } }
+          : { success: true, data, meta: { status: 'success' } };
+      }) as never
+    );
+
+    // Two deliveries at different costs, a sale of 15 at an event, a move to the
+    // patio bar (which costs nothing), then one written off
+    vi.mocked(supabase.from).mockImplementation(mockTables({
+      inventory_items: [
+        { id: itemId, name: 'Pale Ale Keg', current_stock: 4, cost_price: 2, created_at: '2026-01-01T00:00:00.000Z' }
+      ],
+      inventory_transactions: [
+        { item_id: itemId, type: 'in', quantity: 10, unit_cost: 2, created_at: '2026-01-02T00:00:00.000Z' },
+        { item_id: itemId, type: 'in', quantity: 10, unit_cost: 4, created_at: '2026-01-03T00:00:00.000Z' },
+        { item_id: itemId, type: 'out', quantity: 15, related_entity_type: 'sale', related_entity_id: saleId, created_at: '2026-01-05T00:00:00.000Z' },
+        { item_id: itemId, type: 'transfer', quantity: 2, location: 'Cellar', to_location: 'Patio bar', created_at: '2026-01-05T12:00:00.000Z' },
+        { item_id: itemId, type: 'damaged', quantity: 1, created_at: '2026-01-06T00:00:00.000Z' }
+      ],
+      product_sales: [
+        { id: saleId, event_id: eventId }
+      ]
+    }));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('getCostOfGoodsSold', () => {
+    const period = { dateFrom: '2026-01-04T00:00:00.000Z', dateTo: '2026-01-31T00:00:00.000Z' };
+
+    it('should cost sales from the oldest layers first under FIFO', async () => {
+      const result = await inventoryService.getCostOfGoodsSold({ ...period, method: 'fifo' }) as CostResult<CostOfGoodsSold>;
+
+      expect(result.success).toBe(true);
+      // 10 × $2 + 5 × $4, then one $4 unit written off
+      expect(result.data?.total).toBe(40);
+      expect(result.data?.shrinkage).toBe(4);
+      expect(result.data?.openingValue).toBe(60);
+      expect(result.data?.closingValue).toBe(16);
+      expect(result.data?.events).toEqual([{ eventId, cost: 40 }]);
+    });
+
+    it('should cost sales at the running average under weighted average', async () => {
+      const result = await inventoryService.getCostOfGoodsSold({ ...period, method: 'weighted_average' }) as CostResult<CostOfGoodsSold>;
+
+      expect(result.data?.total).toBe(45);
+      expect(result.data?.shrinkage).toBe(3);
+      expect(result.data?.closingValue).toBe(12);
+    });
+  });
+
+  describe('refreshAlerts', () => {
+    let tables: Record<string, Record<string, unknown>[]>;
+
+    beforeEach(() => {
+      // Venue-wide stock is fine, but the patio bar is below its own reorder point
+      tables = {
+        stock_alerts: [],
+        inventory_items: [{
+          id: itemId,
+          name: 'Pale Ale Keg',
+          location: 'Cellar',
+          current_stock: 20,
+          reorder_point: 5,
+          location_stock: [
+            { location: 'Cellar', quantity: 18 },
+            { location: 'Patio bar', quantity: 2, reorderPoint: 4 }
+          ]
+        }]
+      };
+      vi.mocked(supabase.from).mockImplementation(mockTables(tables) as never);
+    });
+
+    it('should flag the location that is low rather than the whole venue', async () => {
+      const result = await inventoryService.refreshAlerts() as CostResult<StockAlert[]>;
+
+      expect(result.data).toHaveLength(1);
+      expect(result.data?.[0]).toMatchObject({ alertType: 'reorder_point', location: 'Patio bar', currentValue: 2, threshold: 4, status: 'active' });
+    });
+
+    it('should keep one alert per condition across refreshes', async () => {
+      const first = await inventoryService.refreshAlerts() as CostResult<StockAlert[]>;
+      tables.inventory_items[0].location_stock = [
+        { location: 'Cellar', quantity: 19 },
+        { location: 'Patio bar', quantity: 1, reorderPoint: 4 }
+      ];
+      const second = await inventoryService.refreshAlerts() as CostResult<StockAlert[]>;
+
+      expect(tables.stock_alerts).toHaveLength(1);
+      expect(second.data?.[0].id).toBe(first.data?.[0].id);
+      expect(second.data?.[0].currentValue).toBe(1);
+    });
+
+    it('should resolve the alert with its history once stock recovers', async () => {
+      await inventoryService.refreshAlerts();
+      tables.inventory_items[0].location_stock = [
+        { location: 'Cellar', quantity: 14 },
+        { location: 'Patio bar', quantity: 6, reorderPoint: 4 }
+      ];
+      const result = await inventoryService.refreshAlerts() as CostResult<StockAlert[]>;
+      const history = await inventoryService.getAlerts({ status: 'resolved' }) as CostResult<StockAlert[]>;
+
+      expect(result.data).toEqual([]);
+      expect(history.data?.[0].history?.map(event => event.action)).toEqual(['raised', 'resolved']);
+      expect(history.data?.[0].history?.[1].value).toBe(6);
+    });
+
+    it('should not raise an alert again when a concurrent movement raised it first', async () => {
+      const from = mockTables(tables);
+      vi.mocked(supabase.from).mockImplementation(((tableName: string) => {
+        const builder = from(tableName);
+        if (tableName === 'stock_alerts') {
+          builder.insert = () => ({
+            select: () => Promise.resolve({ data: null, error: { errors: [{ field: 'unique_constraint', code: 'DUPLICATE_ENTRY' }] } })
+          });
+        }
+        return builder;
+      }) as never);
+
+      const result = await inventoryService.refreshAlerts() as CostResult<StockAlert[]>;
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should resolve the latest version of an alert someone changed meanwhile', async () => {
+      await inventoryService.refreshAlerts();
+      tables.inventory_items[0].location_stock = [
+        { location: 'Cellar', quantity: 14 },
+        { location: 'Patio bar', quantity: 6, reorderPoint: 4 }
+      ];
+      // The alert is acknowledged between the refresh reading it and resolving it
+      const from = mockTables(tables);
+      let acknowledged = false;
+      vi.mocked(supabase.from).mockImplementation(((tableName: string) => {
+        const builder = from(tableName);
+        const update = builder.update as (values: Record<string, unknown>) => unknown;
+        builder.update = (values: Record<string, unknown>) => {
+          if (tableName === 'stock_alerts' && values.status === 'resolved' && !acknowledged) {
+            acknowledged = true;
+            const alert = tables.stock_alerts[0];
+            alert.history = [...(alert.history as unknown[]), { action: 'acknowledged', at: '2026-01-07T00:00:00.000Z' }];
+            alert.updated_at = '2026-01-07T00:00:00.000Z';
+          }
+          return update(values);
+        };
+        return builder;
+      }) as never);
+
+      await inventoryService.refreshAlerts();
+
+      expect(tables.stock_alerts[0].status).toBe('resolved');
+      expect((tables.stock_alerts[0].history as Array<{ action: string }>).map(event => event.action))
+        .toEqual(['raised', 'acknowledged', 'resolved']);
+    });
+
+    it('should only return alerts for the requested location', async () => {
+      await inventoryService.refreshAlerts();
+      const result = await inventoryService.getAlerts({ location: 'Cellar' }) as CostResult<StockAlert[]>;
+
+      expect(result.data).toEqual([]);
+    });
+
+    it('should leave out snoozed alerts when asked to', async () => {
+      await inventoryService.refreshAlerts();
+      tables.stock_alerts[0].snoozed_until = '2099-01-01T00:00:00.000Z';
+
+      const awake = await inventoryService.getAlerts({ includeSnoozed: false }) as CostResult<StockAlert[]>;
+      const all = await inventoryService.getAlerts() as CostResult<StockAlert[]>;
+
+      expect(awake.data).toEqual([]);
+      expect(all.data).toHaveLength(1);
+    });
+  });
+
+  describe('createTransaction', () => {
+    it('should record the transaction before moving the stock and take it back if the stock cannot move', async () => {
+      const tables: Record<string, Record<string, unknown>[]> = { inventory_transactions: [] };
+      vi.mocked(supabase.from).mockImplementation(mockTables(tables) as never);
+      vi.spyOn(inventoryService, 'getInventoryItemById').mockResolvedValue({
+        success: true,
+        data: { id: itemId, name: 'Pale Ale Keg', currentStock: 4, location: 'Cellar', updatedAt: '2026-01-06T00:00:00.000Z' }
+      } as never);
+      let recordedFirst = false;
+      vi.spyOn(inventoryService as unknown as { updateStockLevels: () => Promise<unknown> }, 'updateStockLevels').mockImplementation(async () => {
+        recordedFirst = tables.inventory_transactions.length === 1;
+        return { success: false, error: { status: 500, detail: 'Database unavailable' } };
+      });
+
+      const result = await inventoryService.createTransaction({ inventoryId: itemId, type: 'out', quantity: 1, reason: 'Sale' });
+
+      expect(result.success).toBe(false);
+      expect(recordedFirst).toBe(true);
+      expect(tables.inventory_transactions).toEqual([]);
+    });
+  });
+
+  describe('updateStockLevels', () => {
+    it('should move stock under its own version and leave updatedAt alone', async () => {
+      const updatedAt = '2026-01-06T00:00:00.000Z';
+      const tables: Record<string, Record<string, unknown>[]> = {
+        inventory_items: [{ id: itemId, name: 'Pale Ale Keg', current_stock: 4, stock_version: 2, updated_at: updatedAt }],
+        inventory_transactions: [],
+        stock_alerts: []
+      };
+      vi.mocked(supabase.from).mockImplementation(mockTables(tables) as never);
+      vi.spyOn(inventoryService, 'getInventoryItemById').mockResolvedValue({
+        success: true,
+        data: { id: itemId, name: 'Pale Ale Keg', currentStock: 4, stockVersion: 2, updatedAt }
+      } as never);
+
+      const result = await inventoryService.createTransaction({ inventoryId: itemId, type: 'out', quantity: 1, reason: 'Sale' });
+
+      expect(result.success).toBe(true);
+      expect(tables.inventory_items[0]).toMatchObject({ current_stock: 3, stock_version: 3, updated_at: updatedAt });
+    });
+  });
+
+  describe('moveLocationStock', () => {
+    const levels = [
+      { location: 'Cellar', quantity: 10 },
+      { location: 'Main bar', quantity: 4 },
+      { location: 'Patio bar', quantity: 6 }
+    ];
+
+    it('should move stock between locations in one step', () => {
+      const result = moveLocationStock(levels, 'Cellar', { type: 'transfer', quantity: 4, location: 'Cellar', toLocation: 'Patio bar' });
+
+      expect(result.valid).toBe(true);
+      expect(result.levels).toEqual([
+        { location: 'Cellar', quantity: 6 },
+        { location: 'Main bar', quantity: 4 },
+        { location: 'Patio bar', quantity: 10 }
+      ]);
+    });
+
+    it('should refuse to move more than the source location holds', () => {
+      const result = moveLocationStock(levels, 'Cellar', { type: 'transfer', quantity: 5, location: 'Main bar', toLocation: 'Cellar' });
+
+      expect(result.valid).toBe(false);
+      expect(result.levels).toBe(levels);
+    });
+
+    it('should take stock without a location from home first, then the fullest location', () => {
+      const result = moveLocationStock(levels, 'Cellar', { type: 'out', quantity: 13 });
+
+      expect(result.levels.map(level => level.quantity)).toEqual([0, 4, 3]);
+    });
+  });
+
+  describe('getValuationReport', () => {
+    it('should value stock as it stood on the date', async () => {
+      const result = await inventoryService.getValuationReport({ asOf: '2026-01-04T00:00:00.000Z' }) as CostResult<InventoryValuation>;
+
+      expect(result.data?.totalValue).toBe(60);
+      expect(result.data?.items[0].layers).toEqual([
+        { quantity: 10, unitCost: 2, receivedAt: '2026-01-02T00:00:00.000Z' },
+        { quantity: 10, unitCost: 4, receivedAt: '2026-01-03T00:00:00.000Z' }
+      ]);
+    });
+
+    it('should value stock from its recorded movements, not the stock counter', async () => {
+      // The counter has drifted from the movements; costing follows the movements
+      vi.mocked(supabase.from).mockImplementation(mockTables({
+        inventory_items: [
+          { id: itemId, name: 'Pale Ale Keg', current_stock: 50, cost_price: 2, created_at: '2026-01-01T00:00:00.000Z' }
+        ],
+        inventory_transactions: [
+          { item_id: itemId, type: 'in', quantity: 10, unit_cost: 3, created_at: '2026-01-02T00:00:00.000Z' }
+        ]
+      }));
+
+      const result = await inventoryService.getValuationReport({ asOf: '2026-01-31T00:00:00.000Z' }) as CostResult<InventoryValuation>;
+
+      expect(result.data?.items[0].quantityOnHand).toBe(10);
+      expect(result.data?.totalValue).toBe(30);
+    });
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { PurchasingService } from '../purchasingService';
+import { inventoryService } from '../inventoryService';
+import { financeService } from '../financeService';
+import { supabase } from '../../../supabase';
+import type { SupabaseAdapter } from '../../adapters/supabaseAdapter';
+
+// Mock Supabase
+vi.mock('../../../supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    auth: {
+      getUser: vi.fn()
+    }
+  }
+}));
+
+describe('PurchasingService', () => {
+  let purchasingService: PurchasingService;
+
+  const orderId = '3e0f2b5d-4a6c-4d8e-bf90-1a2b3c4d5e6f';
+  const supplierId = '5a1b3c4d-6e7f-4a8b-9c0d-1e2f3a4b5c6d';
+  const lineIds = ['7c3d5e6f-8a9b-4c0d-a1e2-3f4a5b6c7d8e', '8d4e6f7a-9b0c-4d1e-b2f3-4a5b6c7d8e9f'];
+  const itemIds = ['9e5f7a8b-0c1d-4e2f-83a4-5b6c7d8e9f0a', 'af6a8b9c-1d2e-4f3a-94b5-6c7d8e9f0a1b'];
+  type ReceiptResult = {
+    success?: boolean;
+    data?: { purchaseOrder: { status: string; lines: Array<{ quantityReceived: number }> } };
+    error?: { status: number; title: string };
+  };
+
+  // In-memory tables that honour the conditional update filters
+  const mockTables = (tables: Record<string, Record<string, unknown>[]>) => (tableName: string) => {
+    const filters: Array<(row: Record<string, unknown>) => boolean> = [];
+    let updates: Record<string, unknown> | undefined;
+    let single = false;
+    const builder: Record<string, unknown> = {
+      select: () => builder,
+      order: () => builder,
+      update: (values: Record<string, unknown>) => { updates = values; return builder; },
+      eq: (column: string, value: unknown) => { filters.push(row => row[column] === value); return builder; },
+      in: (column: string, values: unknown[]) => { filters.push(row => values.includes(row[column])); return builder; },
+      single: () => { single = true; return builder; },
+      then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+        Promise.resolve().then(() => {
+          const matches = (tables[tableName] || []).filter(row => filters.every(filter => filter(row)));
+          if (updates) {
+            matches.forEach(row => Object.assign(row, updates));
+          }
+          const data = matches.map(row => ({ ...row }));
+          return { data: single ? data[0] : data, error: null };
+        }).then(resolve, reject)
+    };
+    return builder;
+  };
+
+  const seedTables = () => {
+    const tables: Record<string, Record<string, unknown>[]> = {
+      purchase_orders: [{
+        id: orderId,
+        order_number: 'PO-20240601-AB12',
+        supplier_id: supplierId,
+        suppliers: {
+          id: supplierId,
+          name: 'Riverside Drinks Co.',
+          lead_time_days: 3,
+          expense_account_id: '4f2d8c1e-7a6b-4c3d-8e9f-0a1b2c3d4e5f',
+          expense_category_id: '9a3e5b7d-1c2d-4e3f-a4b5-c6d7e8f9a0b1'
+        },
+        status: 'ordered',
+        lines: [
+          { id: lineIds[0], itemId: itemIds[0], itemName: 'Lager keg', quantityOrdered: 10, quantityReceived: 0, unitCost: 80 },
+          { id: lineIds[1], itemId: itemIds[1], itemName: 'Tonic water', quantityOrdered: 48, quantityReceived: 0, unitCost: 0.75 }
+        ],
+        total: 836,
+        updated_at: '2024-06-01T10:00:00.000Z'
+      }]
+    };
+    vi.mocked(supabase.from).mockImplementation(mockTables(tables));
+    return tables;
+  };
+
+  beforeEach(() => {
+    purchasingService = new PurchasingService();
+    vi.spyOn((purchasingService as unknown as { adapter: SupabaseAdapter }).adapter, 'executeQuery').mockImplementation(
+      (async (_config: unknown, operation: () => Promise<{ data: unknown; error: unknown }>) => {
+        const { data, error } = await operation();
+        return error
+          ? { success: false, error, meta: { status: 'error' } }
+          : { success: true, data, meta: { status: 'success' } };
+      }) as never
+    );
+    vi.spyOn(inventoryService, 'createTransaction').mockImplementation(
+      async (transaction) => ({ success: true, data: { id: crypto.randomUUID(), ...transaction } }) as unknown as Awaited<ReturnType<typeof inventoryService.createTransaction>>
+    );
+    vi.spyOn(financeService, 'createTransaction').mockImplementation(
+      async (transaction) => ({ success: true, data: { id: 'txn-1', ...transaction } }) as Awaited<ReturnType<typeof financeService.createTransaction>>
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('receivePurchaseOrder', () => {
+    it('should receive part of an order, stock it in and book the expense', async () => {
+      seedTables();
+
+      const result = await purchasingService.receivePurchaseOrder(orderId, {
+        lines: [{ lineId: lineIds[0], quantity: 4 }],
+        reference: 'DN-881'
+      }) as ReceiptResult;
+
+      expect(result.success).toBe(true);
+      expect(result.data?.purchaseOrder.status).toBe('partially_received');
+      expect(result.data?.purchaseOrder.lines.map(line => line.quantityReceived)).toEqual([4, 0]);
+      expect(inventoryService.createTransaction).toHaveBeenCalledTimes(1);
+      expect(inventoryService.createTransaction).toHaveBeenCalledWith(expect.objectContaining({
+        inventoryId: itemIds[0],
+        type: 'in',
+        quantity: 4,
+        cost: 80,
+        relatedEntityId: orderId,
+        relatedEntityType: 'purchase'
+      }));
+      expect(financeService.createTransaction).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'expense',
+        amount: 320,
+        reference: 'DN-881',
+        relatedEntityId: supplierId
+      }));
+    });
+
+    it('should mark the order received once every line is in', async () => {
+      const tables = seedTables();
+      (tables.purchase_orders[0].lines as Array<Record<string, unknown>>)[0].quantityReceived = 6;
+      tables.purchase_orders[0].status = 'partially_received';
+
+      const result = await purchasingService.receivePurchaseOrder(orderId, {
+        lines: [
+          { lineId: lineIds[0], quantity: 4 },
+          { lineId: lineIds[1], quantity: 48, unitCost: 0.8 }
+        ]
+      }) as ReceiptResult;
+
+      expect(result.success).toBe(true);
+      expect(result.data?.purchaseOrder.status).toBe('received');
+      expect(financeService.createTransaction).toHaveBeenCalledWith(expect.objectContaining({ amount: 358.4 }));
+    });
+
+    it('should reject receiving more than is outstanding', async () => {
+      seedTables();
+
+      const result = await purchasingService.receivePurchaseOrder(orderId, {
+        lines: [{ lineId: lineIds[0], quantity: 11 }]
+      }) as ReceiptResult;
+
+      expect(result.success).toBe(false);
+      expect(result.error?.title).toBe('Cannot Receive Delivery');
+      expect(inventoryService.createTransaction).not.toHaveBeenCalled();
+      expect(financeService.createTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should not count a delivery twice when the order changed underneath', async () => {
+      const tables = seedTables();
+      vi.spyOn(financeService, 'deleteTransaction').mockResolvedValue(
+        { success: true, data: { deleted: true } } as Awaited<ReturnType<typeof financeService.deleteTransaction>>
+      );
+      // Someone else books in a delivery between our read and our update
+      const getOrder = purchasingService.getPurchaseOrderById.bind(purchasingService);
+      vi.spyOn(purchasingService, 'getPurchaseOrderById').mockImplementation(async (id) => {
+        const response = await getOrder(id);
+        tables.purchase_orders[0].updated_at = '2024-06-01T10:05:00.000Z';
+        return response;
+      });
+
+      const result = await purchasingService.receivePurchaseOrder(orderId, {
+        lines: [{ lineId: lineIds[0], quantity: 4 }]
+      }) as ReceiptResult;
+
+      expect(result.success).toBe(false);
+      expect(result.error?.status).toBe(409);
+      expect(inventoryService.createTransaction).toHaveBeenLastCalledWith(expect.objectContaining({
+        inventoryId: itemIds[0],
+        type: 'out',
+        quantity: 4
+      }));
+      expect(financeService.deleteTransaction).toHaveBeenCalledWith('txn-1');
+    });
+
+    it('should leave the order open and take stock back out when a line cannot be stocked', async () => {
+      const tables = seedTables();
+      vi.mocked(inventoryService.createTransaction)
+        .mockResolvedValueOnce({ success: true, data: { id: 'stock-1' } } as unknown as Awaited<ReturnType<typeof inventoryService.createTransaction>>)
+        .mockResolvedValueOnce({ success: false, error: { status: 500 } } as unknown as Awaited<ReturnType<typeof inventoryService.createTransaction>>);
+
+      const result = await purchasingService.receivePurchaseOrder(orderId, {
+        lines: [
+          { lineId: lineIds[0], quantity: 4 },
+          { lineId: lineIds[1], quantity: 48 }
+        ]
+      }) as ReceiptResult;
+
+      expect(result.success).toBe(false);
+      expect(tables.purchase_orders[0].status).toBe('ordered');
+      expect((tables.purchase_orders[0].lines as Array<Record<string, unknown>>).map(line => line.quantityReceived)).toEqual([0, 0]);
+      expect(inventoryService.createTransaction).toHaveBeenLastCalledWith(expect.objectContaining({
+        inventoryId: itemIds[0],
+        type: 'out',
+        quantity: 4
+      }));
+      expect(financeService.createTransaction).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { RecipeService } from '../recipeService';
+import { inventoryService } from '../inventoryService';
+import { supabase } from '../../../supabase';
+import type { SupabaseAdapter } from '../../adapters/supabaseAdapter';
+
+// Mock Supabase
+vi.mock('../../../supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    auth: {
+      getUser: vi.fn()
+    }
+  }
+}));
+
+describe('RecipeService', () => {
+  let recipeService: RecipeService;
+
+  const recipeId = '2b4c6d8e-0f1a-4b3c-9d5e-7f8a9b0c1d2e';
+  const ginId = '3c5d7e9f-1a2b-4c4d-8e6f-8a9b0c1d2e3f';
+  const limeId = '4d6e8f0a-2b3c-4d5e-9f7a-9b0c1d2e3f4a';
+  type DepletionResult = {
+    success?: boolean;
+    data?: { transactions: unknown[]; failures: unknown[]; sales?: unknown[]; duplicates?: string[]; unmatched?: string[] };
+  };
+
+  // In-memory tables; inserts get an ID and are kept
+  const mockTables = (tables: Record<string, Record<string, unknown>[]>) => (tableName: string) => {
+    const filters: Array<(row: Record<string, unknown>) => boolean> = [];
+    let inserted: Record<string, unknown>[] | undefined;
+    let updates: Record<string, unknown> | undefined;
+    let single = false;
+    const builder: Record<string, unknown> = {
+      select: () => builder,
+      order: () => builder,
+      insert: (rows: Record<string, unknown>[]) => {
+        inserted = rows.map(row => ({ id: crypto.randomUUID(), ...row }));
+        return builder;
+      },
+      update: (values: Record<string, unknown>) => { updates = values; return builder; },
+      eq: (column: string, value: unknown) => { filters.push(row => row[column] === value); return builder; },
+      in: (column: string, values: unknown[]) => { filters.push(row => values.includes(row[column])); return builder; },
+      single: () => { single = true; return builder; },
+      then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+        Promise.resolve().then(() => {
+          if (inserted) {
+            tables[tableName] = [...(tables[tableName] || []), ...inserted];
+            return { data: inserted, error: null };
+          }
+          const data = (tables[tableName] || []).filter(row => filters.every(filter => filter(row)));
+          if (updates) {
+            data.forEach(row => Object.assign(row, updates));
+          }
+          return { data: single ? data[0] : data, error: null };
+        }).then(resolve, reject)
+    };
+    return builder;
+  };
+
+  const seedTables = () => {
+    const tables: Record<string, Record<string, unknown>[]> = {
+      recipes: [{
+        id: recipeId,
+        name: 'Gimlet',
+        square_catalog_object_id: 'SQ-GIMLET',
+        is_active: true,
+        components: [
+          { itemId: ginId, quantity: 0.05, unit: 'liter' },
+          { itemId: limeId, quantity: 0.5, unit: 'piece' }
+        ]
+      }],
+      inventory_items: [
+        { id: ginId, name: 'London Dry Gin', unit_of_measurement: 'bottle', pack_size: 0.7, pack_unit: 'liter' },
+        { id: limeId, name: 'Limes', unit_of_measurement: 'case', pack_size: 40, pack_unit: 'piece' }
+      ],
+      product_sales: []
+    };
+    vi.mocked(supabase.from).mockImplementation(mockTables(tables));
+    return tables;
+  };
+
+  beforeEach(() => {
+    recipeService = new RecipeService();
+    vi.spyOn((recipeService as unknown as { adapter: SupabaseAdapter }).adapter, 'executeQuery').mockImplementation(
+      (async (_config: unknown, operation: () => Promise<{ data: unknown; error: unknown }>) => {
+        const { data, error } = await operation();
+        return error
+          ? { success: false, error, meta: { status: 'error' } }
+          : { success: true, data, meta: { status: 'success' } };
+      }) as never
+    );
+    vi.spyOn(inventoryService, 'createTransaction').mockImplementation(
+      async (transaction) => ({ success: true, data: { id: crypto.randomUUID(), ...transaction } }) as unknown as Awaited<ReturnType<typeof inventoryService.createTransaction>>
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('recordSale', () => {
+    it('should deplete each component converted to its stock unit', async () => {
+      seedTables();
+
+      const result = await recipeService.recordSale({ recipeId, quantity: 4 }) as DepletionResult;
+
+      expect(result.success).toBe(true);
+      expect(result.data?.transactions).toHaveLength(2);
+      // 4 × 50ml of a 700ml bottle, and 4 × half a lime from a case of 40
+      expect(inventoryService.createTransaction).toHaveBeenCalledWith(expect.objectContaining({
+        inventoryId: ginId,
+        type: 'out',
+        quantity: 0.2857,
+        relatedEntityType: 'sale'
+      }));
+      expect(inventoryService.createTransaction).toHaveBeenCalledWith(expect.objectContaining({
+        inventoryId: limeId,
+        quantity: 0.05
+      }));
+    });
+
+    it('should convert a container into the unit an item is stocked in', async () => {
+      const tables = seedTables();
+      tables.recipes[0].components = [{ itemId: ginId, quantity: 1, unit: 'bottle' }];
+      tables.inventory_items[0] = { id: ginId, name: 'London Dry Gin', unit_of_measurement: 'liter', pack_size: 0.7, pack_unit: 'liter' };
+
+      await recipeService.recordSale({ recipeId, quantity: 2 });
+
+      expect(inventoryService.createTransaction).toHaveBeenCalledWith(expect.objectContaining({
+        inventoryId: ginId,
+        quantity: 1.4
+      }));
+      expect(tables.product_sales[0].depleted_at).toBeDefined();
+    });
+  });
+
+  describe('importSquareSales', () => {
+    it('should import each Square line item once', async () => {
+      const tables = seedTables();
+      const orders = [{
+        id: 'SQ-ORDER-1',
+        state: 'COMPLETED',
+        line_items: [
+          { uid: 'line-1', catalog_object_id: 'SQ-GIMLET', name: 'Gimlet', quantity: '2' },
+          { uid: 'line-2', name: 'House Lager', quantity: '1' }
+        ]
+      }];
+
+      const first = await recipeService.importSquareSales({ orders }) as DepletionResult;
+      const second = await recipeService.importSquareSales({ orders }) as DepletionResult;
+
+      expect(first.data?.sales).toHaveLength(1);
+      expect(first.data?.unmatched).toEqual(['House Lager']);
+      expect(second.data?.sales).toHaveLength(0);
+      expect(second.data?.duplicates).toEqual(['SQ-ORDER-1:line-1']);
+      expect(tables.product_sales).toHaveLength(1);
+      expect(inventoryService.createTransaction).toHaveBeenCalledTimes(2);
+    });
+
+    it('should deplete a sale whose earlier import failed before depleting it', async () => {
+      const tables = seedTables();
+      const orders = [{
+        id: 'SQ-ORDER-1',
+        state: 'COMPLETED',
+        line_items: [{ uid: 'line-1', catalog_object_id: 'SQ-GIMLET', name: 'Gimlet', quantity: '2' }]
+      }];
+      vi.spyOn(recipeService as unknown as { getStockedItems: () => Promise<unknown> }, 'getStockedItems').mockResolvedValueOnce({ success: false, error: { status: 500 } });
+
+      const first = await recipeService.importSquareSales({ orders }) as DepletionResult;
+      const second = await recipeService.importSquareSales({ orders }) as DepletionResult;
+
+      expect(first.success).toBe(false);
+      expect(second.data?.sales).toHaveLength(1);
+      expect(second.data?.duplicates).toEqual([]);
+      expect(tables.product_sales).toHaveLength(1);
+      expect(tables.product_sales[0].depleted_at).toBeDefined();
+      expect(inventoryService.createTransaction).toHaveBeenCalledTimes(2);
+    });
+
+    it('should only count a failed insert as a duplicate when it broke the unique key', async () => {
+      seedTables();
+      const orders = [{
+        id: 'SQ-ORDER-1',
+        state: 'COMPLETED',
+        line_items: [{ uid: 'line-1', catalog_object_id: 'SQ-GIMLET', name: 'Gimlet', quantity: '2' }]
+      }];
+      vi.spyOn(recipeService as unknown as { insertSale: () => Promise<unknown> }, 'insertSale').mockResolvedValueOnce({ success: false, error: { status: 500, errors: [] } });
+
+      const result = await recipeService.importSquareSales({ orders }) as DepletionResult;
+
+      expect(result.success).toBe(false);
+      expect(inventoryService.createTransaction).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,724 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { StaffService } from '../staffService';
+import { eventsService } from '../eventsService';
+import type { SupabaseAdapter, SupabaseAdapterConfig } from '../../adapters/supabaseAdapter';
+import {
+  expandRecurringSchedule,
+  resolveTemplateSlot,
+  venueWeekOf,
+  calculateStaffingRequirements,
+  calculatePayroll,
+  distributeTips,
+  validateStaffBusinessRules
+} from '../../schemas/staffSchemas';
+
+// Mock Supabase
+vi.mock('../../../supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    auth: {
+      getSession: vi.fn()
+    }
+  }
+}));
+
+describe('StaffService', () => {
+  let staffService: StaffService;
+  let adapter: SupabaseAdapter;
+
+  const staffId = '5e7f9a1b-3c4d-4e6f-8a9b-0c1d2e3f4a5b';
+
+  // Local wall-clock time as an ISO string
+  const at = (year: number, month: number, day: number, hour: number, minute = 0) =>
+    new Date(year, month - 1, day, hour, minute).toISOString();
+
+  beforeEach(() => {
+    staffService = new StaffService();
+    adapter = (staffService as unknown as { adapter: SupabaseAdapter }).adapter;
+    vi.spyOn(staffService, 'getStaffById').mockResolvedValue({ success: true, data: { id: staffId } } as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('expandRecurringSchedule', () => {
+    const timeZone = 'America/New_York';
+
+    it('should repeat a weekly shift on each listed day of the venue until the end date', () => {
+      // Monday 20:00 at the venue is already Tuesday in UTC
+      const shifts = expandRecurringSchedule({
+        startTime: '2026-01-06T01:00:00.000Z',
+        endTime: '2026-01-06T04:00:00.000Z',
+        recurringPattern: { frequency: 'weekly', interval: 1, daysOfWeek: [5, 1], endDate: '2026-01-17T04:59:00.000Z' }
+      }, timeZone);
+
+      expect(shifts).toEqual([
+        { startTime: '2026-01-06T01:00:00.000Z', endTime: '2026-01-06T04:00:00.000Z' },
+        { startTime: '2026-01-10T01:00:00.000Z', endTime: '2026-01-10T04:00:00.000Z' },
+        { startTime: '2026-01-13T01:00:00.000Z', endTime: '2026-01-13T04:00:00.000Z' },
+        { startTime: '2026-01-17T01:00:00.000Z', endTime: '2026-01-17T04:00:00.000Z' }
+      ]);
+    });
+
+    it('should keep the venue wall-clock time across a daylight saving change', () => {
+      const shifts = expandRecurringSchedule({
+        startTime: '2026-03-02T23:00:00.000Z', // Monday 18:00 EST
+        endTime: '2026-03-03T04:00:00.000Z',
+        recurringPattern: { frequency: 'weekly', interval: 1, endDate: '2026-03-10T00:00:00.000Z' }
+      }, timeZone);
+
+      expect(shifts.map(shift => shift.startTime)).toEqual([
+        '2026-03-02T23:00:00.000Z',
+        '2026-03-09T22:00:00.000Z' // Monday 18:00 EDT
+      ]);
+    });
+
+    it('should skip months without the starting day', () => {
+      const shifts = expandRecurringSchedule({
+        startTime: '2026-01-31T14:00:00.000Z', // 09:00 EST
+        endTime: '2026-01-31T22:00:00.000Z',
+        recurringPattern: { frequency: 'monthly', interval: 1, endDate: '2026-04-30T04:00:00.000Z' }
+      }, timeZone);
+
+      expect(shifts.map(shift => shift.startTime)).toEqual(['2026-01-31T14:00:00.000Z', '2026-03-31T13:00:00.000Z']);
+    });
+  });
+
+  describe('resolveTemplateSlot', () => {
+    it('should place the slot in the given week at venue time and roll late finishes into the next day', () => {
+      expect(resolveTemplateSlot({ dayOfWeek: 5, startTime: '18:00', endTime: '02:00' }, '2026-01-05', 'America/New_York')).toEqual({
+        startTime: '2026-01-09T23:00:00.000Z',
+        endTime: '2026-01-10T07:00:00.000Z'
+      });
+      expect(resolveTemplateSlot({ dayOfWeek: 0, startTime: '12:00', endTime: '16:00' }, '2026-01-05', 'America/New_York').startTime)
+        .toBe('2026-01-11T17:00:00.000Z');
+    });
+  });
+
+  describe('venueWeekOf', () => {
+    it('should count a late Sunday shift at the venue in the week it started', () => {
+      expect(venueWeekOf('2026-01-12T04:00:00.000Z', 'America/New_York')).toEqual({
+        startTime: '2026-01-05T05:00:00.000Z',
+        endTime: '2026-01-12T05:00:00.000Z'
+      });
+    });
+  });
+
+  describe('createScheduleSeries', () => {
+    const series = {
+      staffId,
+      shiftType: 'regular' as const,
+      title: 'Bar',
+      startTime: at(2026, 1, 5, 18),
+      endTime: at(2026, 1, 5, 23),
+      isRecurring: true,
+      recurringPattern: { frequency: 'weekly' as const, interval: 1, endDate: at(2026, 1, 19, 23, 59) },
+      status: 'scheduled' as const,
+      skipConflicts: false
+    };
+
+    // The second Monday is already booked
+    const stubQueries = () => {
+      const writes: string[] = [];
+      vi.spyOn(adapter, 'executeQuery').mockImplementation((async (config: SupabaseAdapterConfig, _operation: unknown, operationType: string) => {
+        if (operationType === 'read') {
+          return {
+            success: true,
+            data: [{ id: 'existing', staff_id: staffId, start_time: at(2026, 1, 12, 20), end_time: at(2026, 1, 13, 1), status: 'scheduled' }]
+          };
+        }
+        writes.push(config.tableName);
+        return { success: true, data: [{ id: 'created', staff_id: staffId, start_time: series.startTime, end_time: series.endTime }] };
+      }) as never);
+      return writes;
+    };
+
+    it('should refuse the series when one of its shifts overlaps an existing shift', async () => {
+      const writes = stubQueries();
+
+      const result = await staffService.createScheduleSeries(series);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.type).toContain('schedule-conflict');
+      expect(result.error?.detail).toContain('1 of 3 shifts');
+      expect(writes).toEqual([]);
+    });
+
+    it('should create the remaining shifts and report the clash when conflicts may be skipped', async () => {
+      const writes = stubQueries();
+
+      const result = await staffService.createScheduleSeries({ ...series, skipConflicts: true });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.skipped).toHaveLength(1);
+      expect(result.data?.skipped[0].startTime).toBe(at(2026, 1, 12, 18));
+      expect(result.data?.skipped[0].conflicts[0].id).toBe('existing');
+      expect(writes).toEqual(['staff_schedules']);
+    });
+  });
+
+  describe('calculateStaffingRequirements', () => {
+    it('should staff for the expected share of capacity until tickets sell', () => {
+      const ratios = [
+        { department: 'customer_service' as const, role: 'bar', guestsPerStaff: 75, minimum: 1 },
+        { department: 'operations' as const, role: 'cloakroom', guestsPerStaff: 400, minimum: 0 }
+      ];
+
+      const early = calculateStaffingRequirements({ totalCapacity: 200, ticketsSold: 20 }, { expectedFill: 0.5, ratios });
+      expect(early.expectedAttendance).toBe(100);
+      expect(early.requirements.map(requirement => [requirement.role, requirement.headcount])).toEqual([['bar', 2], ['cloakroom', 1]]);
+
+      const soldOut = calculateStaffingRequirements({ totalCapacity: 200, ticketsSold: 200 }, { expectedFill: 0.5, ratios });
+      expect(soldOut.requirements[0].headcount).toBe(3);
+    });
+  });
+
+  describe('planEventStaffing', () => {
+    const eventId = '6f8a0b2c-4d5e-4f7a-9b0c-1d2e3f4a5b6c';
+
+    // Staff are known by name; idOf turns a name into the stored ID
+    let idOf: (name: string) => string;
+
+    beforeEach(() => {
+      idOf = name => name;
+    });
+
+    const staffRow = (name: string, department: string, certifications: Record<string, unknown>[] = []) => ({
+      id: idOf(name),
+      first_name: name,
+      last_name: 'Test',
+      department,
+      position: department,
+      is_active: true,
+      staff_certifications: certifications
+    });
+
+    // Event on Friday 6 March 2026, 19:00-23:00, so shifts run 18:00-23:30
+    const stubQueries = () => {
+      vi.spyOn(eventsService, 'getEventById').mockResolvedValue({
+        success: true,
+        data: { id: eventId, title: 'Show night', date: '2026-03-06', startTime: '19:00', endTime: '23:00', totalCapacity: 200, ticketsSold: 0 }
+      } as never);
+
+      vi.spyOn(adapter, 'executeQuery').mockImplementation((async (config: SupabaseAdapterConfig) => {
+        if (config.tableName === 'staffing_settings') {
+          return {
+            success: true,
+            data: [{
+              id: 'default',
+              expected_fill: 0.85,
+              weekly_hour_limit: 40,
+              call_minutes: 60,
+              wrap_minutes: 30,
+              ratios: [
+                { department: 'customer_service', role: 'bar', guestsPerStaff: 75, minimum: 1 },
+                { department: 'security', role: 'door', guestsPerStaff: 100, minimum: 1, requiredCertification: 'Door Supervisor Licence' }
+              ]
+            }]
+          };
+        }
+        if (config.tableName === 'staff') {
+          return {
+            success: true,
+            data: [
+              staffRow('bar-free', 'customer_service'),
+              staffRow('bar-busy', 'customer_service'),
+              staffRow('bar-tired', 'customer_service'),
+              staffRow('door-licensed', 'security', [{ name: 'Door Supervisor Licence', expiry_date: '2030-01-01' }]),
+              staffRow('door-expired', 'security', [{ name: 'Door Supervisor Licence', expiry_date: '2020-01-01' }])
+            ]
+          };
+        }
+        return {
+          success: true,
+          data: [
+            { id: 'hire', staff_id: idOf('bar-busy'), title: 'Private hire', start_time: at(2026, 3, 6, 17), end_time: at(2026, 3, 6, 22), status: 'scheduled' },
+            ...[2, 3, 4, 5].map(day => ({
+              id: `day-${day}`, staff_id: idOf('bar-tired'), title: 'Day shift', start_time: at(2026, 3, day, 8), end_time: at(2026, 3, day, 17), status: 'scheduled'
+            }))
+          ]
+        };
+      }) as never);
+    };
+
+    it('should propose free, certified staff within their weekly hours', async () => {
+      stubQueries();
+
+      const result = await staffService.planEventStaffing(eventId);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.startTime).toBe(at(2026, 3, 6, 18));
+      expect(result.data?.endTime).toBe(at(2026, 3, 6, 23, 30));
+      expect(result.data?.expectedAttendance).toBe(170);
+      expect(result.data?.requirements.map(requirement => ({
+        role: requirement.role,
+        headcount: requirement.headcount,
+        proposed: requirement.proposed.map(candidate => candidate.staffId),
+        shortfall: requirement.shortfall
+      }))).toEqual([
+        { role: 'bar', headcount: 3, proposed: ['bar-free'], shortfall: 2 },
+        { role: 'door', headcount: 2, proposed: ['door-licensed'], shortfall: 1 }
+      ]);
+      expect(result.data?.unavailable.map(person => [person.staffId, person.reason])).toEqual([
+        ['bar-busy', 'Already on "Private hire"'],
+        ['bar-tired', 'Would work 1.5h over the 40h weekly limit'],
+        ['door-expired', 'Door Supervisor Licence has expired']
+      ]);
+    });
+
+    it('should hold event shifts to the same certification and weekly hour checks', async () => {
+      const names = ['bar-free', 'bar-tired', 'door-expired'];
+      idOf = name => `7a9b1c3d-5e6f-4a8b-9c0d-${String(names.indexOf(name) + 1).padStart(12, '0')}`;
+      stubQueries();
+      const insertSchedules = vi.spyOn(staffService as never as { insertSchedules: () => unknown }, 'insertSchedules')
+        .mockResolvedValue({ success: true, data: [] } as never);
+
+      const result = await staffService.createEventShifts({
+        eventId,
+        assignments: [
+          { staffId: idOf('bar-free'), role: 'bar' },
+          { staffId: idOf('bar-tired'), role: 'bar' },
+          { staffId: idOf('door-expired'), role: 'door' }
+        ],
+        skipConflicts: true
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.skipped.map(shift => [shift.staffId, shift.reason])).toEqual([
+        [idOf('bar-tired'), 'Would work 1.5h over the 40h weekly limit'],
+        [idOf('door-expired'), 'Door Supervisor Licence has expired']
+      ]);
+      expect(insertSchedules).toHaveBeenCalledWith([expect.objectContaining({ staff_id: idOf('bar-free') })], 'staff:schedules:create');
+    });
+  });
+
+  describe('validateAvailability', () => {
+    const lateFriday = { dayOfWeek: 5, startTime: '22:00', endTime: '02:00', preference: 'unavailable' as const };
+
+    it('should block shifts in a window that runs past midnight', () => {
+      // Saturday 7 March 2026, 00:30-04:00
+      const result = validateStaffBusinessRules.validateAvailability(
+        { startTime: at(2026, 3, 7, 0, 30), endTime: at(2026, 3, 7, 4) },
+        [lateFriday],
+        []
+      );
+
+      expect(result).toEqual({ valid: false, reason: 'Unavailable Fri 22:00–02:00', preferred: false });
+    });
+
+    it('should block approved time off only and flag preferred windows', () => {
+      const shift = { startTime: at(2026, 3, 9, 9), endTime: at(2026, 3, 9, 17) }; // Monday
+      const mornings = { dayOfWeek: 1, startTime: '08:00', endTime: '18:00', preference: 'preferred' as const };
+      const timeOff = (status: string) => ({ startDate: at(2026, 3, 9, 0), endDate: at(2026, 3, 11, 0), status });
+
+      expect(validateStaffBusinessRules.validateAvailability(shift, [lateFriday, mornings], [timeOff('pending')]))
+        .toEqual({ valid: true, preferred: true });
+      expect(validateStaffBusinessRules.validateAvailability(shift, [mornings], [timeOff('approved')]).valid).toBe(false);
+    });
+  });
+
+  describe('reviewShiftClaim', () => {
+    const claimId = '7a9b1c3d-5e6f-4a8b-9c0d-2e3f4a5b6c7d';
+    const scheduleId = '8b0c2d4e-6f7a-4b9c-8d1e-3f4a5b6c7d8e';
+
+    // A claim on an open door shift, Saturday 14 March 2026 20:00-02:00
+    const stubQueries = (timeOff: Record<string, unknown>[] = [], lostRace?: string) => {
+      const writes: string[] = [];
+      vi.spyOn(adapter, 'getCurrentUser').mockResolvedValue(null as never);
+      vi.spyOn(staffService, 'getStaffById').mockResolvedValue({
+        success: true,
+        data: { id: staffId, isActive: true, certifications: [{ name: 'Door Supervisor Licence', expiryDate: '2030-01-01', isActive: true }] }
+      } as never);
+
+      vi.spyOn(adapter, 'executeQuery').mockImplementation((async (config: SupabaseAdapterConfig, _operation: unknown, operationType: string) => {
+        if (operationType === 'write') {
+          writes.push(config.tableName);
+          if (config.tableName === lostRace && writes.filter(table => table === lostRace).length === 1) {
+            return { success: true, data: [] };
+          }
+          return { success: true, data: [{ id: config.tableName === 'shift_claims' ? claimId : scheduleId, schedule_id: scheduleId, staff_id: staffId, status: 'approved' }] };
+        }
+        switch (config.tableName) {
+          case 'shift_claims':
+            return {
+              success: true,
+              data: {
+                id: claimId,
+                schedule_id: scheduleId,
+                staff_id: staffId,
+                status: 'pending',
+                staff_schedules: {
+                  id: scheduleId, staff_id: null, title: 'Door', role: 'door', status: 'open',
+                  start_time: at(2026, 3, 14, 20), end_time: at(2026, 3, 15, 2)
+                }
+              }
+            };
+          case 'time_off_requests':
+            return { success: true, data: timeOff };
+          case 'staffing_settings':
+            return {
+              success: true,
+              data: [{
+                id: 'default',
+                ratios: [{ department: 'security', role: 'door', guestsPerStaff: 100, minimum: 1, requiredCertification: 'Door Supervisor Licence' }]
+              }]
+            };
+          default:
+            return { success: true, data: [] };
+        }
+      }) as never);
+      return writes;
+    };
+
+    it('should hand the shift to the claimant and close the other claims', async () => {
+      const writes = stubQueries();
+
+      const result = await staffService.reviewShiftClaim(claimId, { decision: 'approved' });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.status).toBe('approved');
+      expect(writes).toEqual(['shift_claims', 'staff_schedules', 'shift_claims']);
+    });
+
+    it('should leave the shift alone when another review recorded a decision first', async () => {
+      const writes = stubQueries([], 'shift_claims');
+
+      const result = await staffService.reviewShiftClaim(claimId, { decision: 'approved' });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.title).toBe('Claim Already Reviewed');
+      expect(writes).toEqual(['shift_claims']);
+    });
+
+    it('should decline the claim when the shift went to another claim first', async () => {
+      const writes = stubQueries([], 'staff_schedules');
+
+      const result = await staffService.reviewShiftClaim(claimId, { decision: 'approved' });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.title).toBe('Shift Already Filled');
+      expect(writes).toEqual(['shift_claims', 'staff_schedules', 'shift_claims']);
+    });
+
+    it('should refuse the approval when the claimant has since booked time off', async () => {
+      const writes = stubQueries([
+        { id: 'leave', staff_id: staffId, start_date: at(2026, 3, 13, 0), end_date: at(2026, 3, 16, 0), status: 'approved' }
+      ]);
+
+      const result = await staffService.reviewShiftClaim(claimId, { decision: 'approved' });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.detail).toContain('On time off');
+      expect(writes).toEqual([]);
+    });
+  });
+
+  describe('postShiftForSwap', () => {
+    it('should refuse when the signed-in user is not a member of staff', async () => {
+      const writes: string[] = [];
+      vi.spyOn(adapter, 'getCurrentUser').mockResolvedValue({ id: 'user', email: 'guest@example.com' } as never);
+      vi.spyOn(adapter, 'executeQuery').mockImplementation((async (config: SupabaseAdapterConfig, _operation: unknown, operationType: string) => {
+        if (operationType === 'write') writes.push(config.tableName);
+        return { success: true, data: [] };
+      }) as never);
+
+      const result = await staffService.postShiftForSwap({ scheduleId: '8b0c2d4e-6f7a-4b9c-8d1e-3f4a5b6c7d8e' });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.status).toBe(404);
+      expect(writes).toEqual([]);
+    });
+  });
+
+  describe('calculatePayroll', () => {
+    const rules = { dailyOvertimeAfter: 8, weeklyOvertimeAfter: 40, overtimeMultiplier: 1.5, eventShiftBonus: 25, adjustments: [] };
+    const entry = (day: number, from: number, to: number, breakDuration = 0, isEventShift = false) => ({
+      staffId, clockInTime: at(2026, 3, day, from), clockOutTime: at(2026, 3, day, to), breakDuration, isEventShift
+    });
+
+    it('should pay daily and weekly overtime at the overtime rate and add tips and event bonuses', () => {
+      // Monday 9 March 2026 runs two hours past the daily limit; Saturday is past the weekly limit
+      const entries = [
+        entry(9, 8, 19, 60),
+        ...[10, 11, 12].map(day => entry(day, 10, 18)),
+        entry(13, 10, 18, 0, true),
+        entry(14, 12, 18)
+      ];
+
+      const { lines, totals, warnings } = calculatePayroll(
+        entries,
+        [{ id: staffId, name: 'Sam Test', hourlyRate: 20 }],
+        { ...rules, adjustments: [{ staffId, type: 'tips', amount: 50 }] }
+      );
+
+      expect(lines).toHaveLength(1);
+      expect(lines[0]).toMatchObject({
+        entries: 6,
+        regularHours: 40,
+        overtimeHours: 8,
+        regularPay: 800,
+        overtimePay: 240,
+        tips: 50,
+        bonuses: 25,
+        grossPay: 1115
+      });
+      expect(totals.grossPay).toBe(1115);
+      expect(warnings).toEqual([]);
+    });
+
+    it('should warn about staff without an hourly rate', () => {
+      const { lines, warnings } = calculatePayroll([entry(9, 9, 13)], [{ id: staffId, name: 'Sam Test' }], rules);
+
+      expect(lines[0].grossPay).toBe(0);
+      expect(warnings).toEqual(['Sam Test has no hourly rate, so their hours are unpaid']);
+    });
+
+    it('should count a day in the venue time zone', () => {
+      // Monday 9 March 2026 in New York: 10:00-16:00 and 21:00-01:00, the second on 10 March in UTC
+      const { lines } = calculatePayroll(
+        [
+          { staffId, clockInTime: '2026-03-09T14:00:00.000Z', clockOutTime: '2026-03-09T20:00:00.000Z', breakDuration: 0, isEventShift: false },
+          { staffId, clockInTime: '2026-03-10T01:00:00.000Z', clockOutTime: '2026-03-10T05:00:00.000Z', breakDuration: 0, isEventShift: false }
+        ],
+        [{ id: staffId, name: 'Sam Test', hourlyRate: 20 }],
+        { ...rules, eventShiftBonus: 0 },
+        'America/New_York'
+      );
+
+      expect(lines[0]).toMatchObject({ regularHours: 8, overtimeHours: 2 });
+    });
+
+    it('should fill the first week with hours worked before the period without paying them', () => {
+      // Monday to Thursday, 9-12 March 2026, make 40 hours; the period starts on Friday in New York
+      const worked = ['09', '10', '11', '12', '13'].map(day => ({
+        staffId,
+        clockInTime: `2026-03-${day}T13:00:00.000Z`,
+        clockOutTime: `2026-03-${day}T${day === '13' ? 21 : 23}:00:00.000Z`,
+        breakDuration: 0,
+        isEventShift: false
+      }));
+
+      const { lines } = calculatePayroll(
+        worked,
+        [{ id: staffId, name: 'Sam Test', hourlyRate: 20 }],
+        { ...rules, dailyOvertimeAfter: null, eventShiftBonus: 0 },
+        'America/New_York',
+        '2026-03-13T04:00:00.000Z'
+      );
+
+      expect(lines[0]).toMatchObject({ entries: 1, regularHours: 0, overtimeHours: 8, grossPay: 240 });
+    });
+  });
+
+  describe('postPayroll', () => {
+    const period = {
+      periodStart: at(2026, 3, 1, 0),
+      periodEnd: at(2026, 3, 15, 0),
+      accountId: '9c1d3e5f-7a8b-4c0d-9e2f-4a5b6c7d8e9f',
+      categoryId: '0d2e4f6a-8b9c-4d1e-8f3a-5b6c7d8e9f0a'
+    };
+
+    // failedWrite refuses the nth write to a table, the first unless given
+    const stubQueries = (postedRuns: Record<string, unknown>[] = [], failedWrite?: { tableName: string; code: string; nth?: number }) => {
+      const writes: string[] = [];
+      vi.spyOn(adapter, 'getCurrentUser').mockResolvedValue(null as never);
+
+      vi.spyOn(adapter, 'executeQuery').mockImplementation((async (config: SupabaseAdapterConfig, _operation: unknown, operationType: string) => {
+        if (operationType === 'write') {
+          writes.push(config.tableName);
+          if (config.tableName === failedWrite?.tableName && writes.filter(table => table === failedWrite.tableName).length === (failedWrite.nth ?? 1)) {
+            return { success: false, error: { status: 400, errors: [{ field: 'constraint', code: failedWrite.code, message: 'Refused' }] } };
+          }
+          if (config.tableName === 'financial_transactions') {
+            return { success: true, data: [{ id: 'txn-1' }] };
+          }
+          return { success: true, data: [{ id: 'run-1', period_start: period.periodStart, period_end: period.periodEnd, gross_pay: 180, transaction_id: 'txn-1' }] };
+        }
+        switch (config.tableName) {
+          case 'payroll_runs':
+            return { success: true, data: postedRuns };
+          case 'tip_payouts':
+            return { success: true, data: [] };
+          case 'staff_time_entries':
+            return {
+              success: true,
+              data: [{ staff_id: staffId, clock_in_time: at(2026, 3, 6, 18), clock_out_time: at(2026, 3, 7, 0), break_duration: 0, staff_schedules: null }]
+            };
+          default:
+            return { success: true, data: [{ id: staffId, first_name: 'Sam', last_name: 'Test', hourly_rate: 30 }] };
+        }
+      }) as never);
+      return writes;
+    };
+
+    it('should claim the period, then book the gross pay as a wage expense and link it to the run', async () => {
+      const writes = stubQueries();
+
+      const result = await staffService.postPayroll(period);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.transactionId).toBe('txn-1');
+      expect(writes).toEqual(['payroll_runs', 'financial_transactions', 'payroll_runs']);
+    });
+
+    it('should book nothing when a concurrent post claimed an overlapping period first', async () => {
+      const writes = stubQueries([], { tableName: 'payroll_runs', code: 'CONFLICTING_ENTRY' });
+
+      const result = await staffService.postPayroll(period);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.status).toBe(409);
+      expect(writes).toEqual(['payroll_runs']);
+    });
+
+    it('should give up the claim when the wages cannot be booked', async () => {
+      const writes = stubQueries([], { tableName: 'financial_transactions', code: 'INVALID_REFERENCE' });
+
+      const result = await staffService.postPayroll(period);
+
+      expect(result.success).toBe(false);
+      expect(writes).toEqual(['payroll_runs', 'financial_transactions', 'payroll_runs']);
+    });
+
+    it('should delete the expense and give up the claim when the run cannot be linked to it', async () => {
+      const writes = stubQueries([], { tableName: 'payroll_runs', code: 'CONNECTION_FAILURE', nth: 2 });
+
+      const result = await staffService.postPayroll(period);
+
+      expect(result.success).toBe(false);
+      expect(writes).toEqual(['payroll_runs', 'financial_transactions', 'payroll_runs', 'financial_transactions', 'payroll_runs']);
+    });
+
+    it('should refuse a period that overlaps one already posted', async () => {
+      const writes = stubQueries([{ id: 'run-0', period_start: at(2026, 2, 15, 0), period_end: at(2026, 3, 2, 0) }]);
+
+      const result = await staffService.postPayroll(period);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.status).toBe(409);
+      expect(writes).toEqual([]);
+    });
+  });
+
+  describe('createTipPool', () => {
+    const shift = { shiftStart: '2026-03-14T22:00:00.000Z', shiftEnd: '2026-03-15T06:00:00.000Z', cashTips: 90 };
+
+    // Sam works the whole shift; Alex clocked in four hours before it and left four hours into it
+    const stubQueries = (options: { existingPools?: Record<string, unknown>[]; failedWrite?: string } = {}) => {
+      const writes: string[] = [];
+      vi.spyOn(adapter, 'getCurrentUser').mockResolvedValue(null as never);
+
+      vi.spyOn(adapter, 'executeQuery').mockImplementation((async (config: SupabaseAdapterConfig, _operation: unknown, operationType: string) => {
+        if (operationType === 'write') {
+          writes.push(config.tableName);
+          if (config.tableName === options.failedWrite) {
+            return { success: false, error: { status: 500, detail: 'Database operation failed' } };
+          }
+          return { success: true, data: [{ id: 'pool-1', ...shift }] };
+        }
+        switch (config.tableName) {
+          case 'tip_pools':
+            return { success: true, data: options.existingPools ?? [] };
+          case 'staff_time_entries':
+            return {
+              success: true,
+              data: [
+                {
+                  staff_id: staffId, clock_in_time: shift.shiftStart, clock_out_time: shift.shiftEnd, break_duration: 0,
+                  staff: { first_name: 'Sam', last_name: 'Test', position: 'bar' }, staff_schedules: null
+                },
+                {
+                  staff_id: 'alex', clock_in_time: '2026-03-14T18:00:00.000Z', clock_out_time: '2026-03-15T02:00:00.000Z', break_duration: 0,
+                  staff: { first_name: 'Alex', last_name: 'Test', position: 'bar' }, staff_schedules: null
+                }
+              ]
+            };
+          default:
+            return { success: true, data: [] };
+        }
+      }) as never);
+      return writes;
+    };
+
+    it('should share by the hours worked inside the shift', async () => {
+      stubQueries();
+
+      const result = await staffService.previewTipPool(shift);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.payouts.map(payout => [payout.name, payout.hours, payout.amount])).toEqual([
+        ['Sam Test', 8, 60],
+        ['Alex Test', 4, 30]
+      ]);
+    });
+
+    it('should refuse to share a shift\'s tips twice', async () => {
+      const writes = stubQueries({ existingPools: [{ id: 'pool-0', created_at: '2026-03-15T07:00:00.000Z' }] });
+
+      const result = await staffService.createTipPool(shift);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.status).toBe(409);
+      expect(writes).toEqual([]);
+    });
+
+    it('should remove the pool when its payouts cannot be recorded', async () => {
+      const writes = stubQueries({ failedWrite: 'tip_payouts' });
+
+      const result = await staffService.createTipPool(shift);
+
+      expect(result.success).toBe(false);
+      expect(writes).toEqual(['tip_pools', 'tip_payouts', 'tip_pools']);
+    });
+  });
+
+  describe('calculateStaffMetrics', () => {
+    it('should report a failed payout lookup instead of no tips', async () => {
+      vi.spyOn(adapter, 'executeQuery').mockResolvedValue({ success: false, error: { status: 500, detail: 'Database operation failed' } } as never);
+
+      const result = await staffService.calculateStaffMetrics(staffId);
+
+      expect(result.success).toBe(false);
+      expect(result.data).toBeUndefined();
+    });
+  });
+
+  describe('distributeTips', () => {
+    const otherId = '6f8a0b2c-4d5e-4f7a-9b0c-1d2e3f4a5b6c';
+    const worked = [
+      { staffId, name: 'Sam Test', role: 'bar', hours: 6 },
+      { staffId: otherId, name: 'Alex Test', role: 'barback', hours: 3 },
+      { staffId: otherId, name: 'Alex Test', role: 'barback', hours: 1 }
+    ];
+
+    it('should share by hours and hand leftover cents to the largest remainders', () => {
+      const { payouts, warnings } = distributeTips(worked, 100, { method: 'hours', roleWeights: {}, points: [] });
+
+      expect(payouts.map(payout => [payout.name, payout.hours, payout.amount])).toEqual([
+        ['Sam Test', 6, 60],
+        ['Alex Test', 4, 40]
+      ]);
+      expect(warnings).toEqual([]);
+
+      const split = distributeTips(worked.slice(0, 2), 100, { method: 'hours', roleWeights: {}, points: [] }).payouts;
+      expect(split.map(payout => payout.amount)).toEqual([66.67, 33.33]);
+    });
+
+    it('should weight hours by role and share fixed points between those who worked', () => {
+      const byRole = distributeTips(worked, 80, { method: 'role_weight', roleWeights: { barback: 0.5 }, points: [] }).payouts;
+      expect(byRole.map(payout => [payout.name, payout.weight, payout.amount])).toEqual([
+        ['Sam Test', 6, 60],
+        ['Alex Test', 2, 20]
+      ]);
+
+      const { payouts, warnings } = distributeTips(worked, 90, {
+        method: 'points',
+        roleWeights: {},
+        points: [{ staffId, points: 2 }, { staffId: '7a9b1c3d-5e6f-4a8b-8c1d-2e3f4a5b6c7d', points: 1 }]
+      });
+      expect(payouts.map(payout => [payout.name, payout.amount])).toEqual([['Sam Test', 90], ['Alex Test', 0]]);
+      expect(warnings).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { StockCountService } from '../stockCountService';
+import { inventoryService } from '../inventoryService';
+import {
+  validateStockCountBusinessRules,
+  type StockCount,
+  type StockCountLine
+} from '../../schemas/stockCountSchemas';
+
+// Mock Supabase
+vi.mock('../../../supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    auth: {
+      getUser: vi.fn()
+    }
+  }
+}));
+
+describe('StockCountService', () => {
+  let stockCountService: StockCountService;
+  // Private steps of a commit, stubbed so the test needs no database
+  type CommitSteps = Record<'updateStockCount' | 'getCurrentStock', () => Promise<unknown>>;
+
+  const countId = '1a2b3c4d-5e6f-4a7b-8c9d-0e1f2a3b4c5d';
+  const aleId = '5e7f9a1b-3c4d-4e6f-8a0b-1c2d3e4f5a6b';
+  const ginId = '6f8a0b2c-4d5e-4f7a-9b1c-2d3e4f5a6b7c';
+  const cokeId = '7a9b1c3d-5e6f-4a8b-8c2d-3e4f5a6b7c8d';
+
+  const line = (
+    itemId: string,
+    expectedQuantity: number,
+    counted: number[],
+    expectedLocations?: StockCountLine['expectedLocations']
+  ): StockCountLine =>
+    validateStockCountBusinessRules.calculateVariance({
+      itemId,
+      name: itemId,
+      expectedQuantity,
+      expectedLocations,
+      unitCost: 2,
+      counts: counted.map((quantity, index) => ({ location: `Shelf ${index + 1}`, quantity, countedAt: '2026-01-10T23:00:00.000Z' }))
+    });
+
+  const stockCount = (lines: StockCountLine[]): StockCount => ({
+    id: countId,
+    countNumber: 'SC-20260110-AB12',
+    name: 'Sunday close',
+    status: 'in_progress',
+    lines,
+    startedAt: '2026-01-10T22:00:00.000Z',
+    createdAt: '2026-01-10T22:00:00.000Z',
+    updatedAt: '2026-01-10T23:00:00.000Z',
+    countedItems: lines.filter(l => l.countedQuantity !== undefined).length,
+    uncountedItems: lines.filter(l => l.countedQuantity === undefined).length,
+    totalVarianceValue: lines.reduce((sum, l) => sum + (l.varianceValue || 0), 0)
+  });
+
+  beforeEach(() => {
+    stockCountService = new StockCountService();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('commitStockCount', () => {
+    it('should adjust counted items by their variance from current stock at each location', async () => {
+      // Ale is 1 short on each shelf, gin matches, coke was never counted
+      const count = stockCount([
+        line(aleId, 10, [5, 3], [{ location: 'Shelf 1', quantity: 6 }, { location: 'Shelf 2', quantity: 4 }]),
+        line(ginId, 4, [4], [{ location: 'Shelf 1', quantity: 4 }]),
+        line(cokeId, 6, [])
+      ]);
+      vi.spyOn(stockCountService, 'getStockCountById').mockResolvedValue({ success: true, data: count } as never);
+      const updateCount = vi.spyOn(stockCountService as unknown as CommitSteps, 'updateStockCount').mockResolvedValue({
+        success: true,
+        data: { ...count, status: 'committed' }
+      });
+      // Three ales were sold while the count was open
+      vi.spyOn(stockCountService as unknown as CommitSteps, 'getCurrentStock').mockResolvedValue({
+        success: true,
+        data: new Map([[aleId, [{ location: 'Shelf 1', quantity: 4 }, { location: 'Shelf 2', quantity: 3 }]]])
+      });
+      const bulkAdjust = vi.spyOn(inventoryService, 'bulkAdjustStock').mockResolvedValue({
+        success: true,
+        data: { transactions: [], failures: [] }
+      } as never);
+
+      const result = await stockCountService.commitStockCount(countId, { staffMember: 'Sam' });
+
+      expect(result.success).toBe(true);
+      expect(updateCount).toHaveBeenCalledTimes(1);
+      expect(bulkAdjust).toHaveBeenCalledTimes(1);
+      expect(bulkAdjust).toHaveBeenCalledWith({
+        adjustments: [
+          expect.objectContaining({ inventoryId: aleId, location: 'Shelf 1', newQuantity: 3 }),
+          expect.objectContaining({ inventoryId: aleId, location: 'Shelf 2', newQuantity: 2 })
+        ],
+        reference: 'SC-20260110-AB12',
+        staffMember: 'Sam'
+      });
+    });
+
+    it('should not clamp a correction that takes stock below zero', async () => {
+      // Counted 2 of an expected 5 without a location, and 4 were sold since
+      const count = stockCount([validateStockCountBusinessRules.calculateVariance({
+        itemId: aleId,
+        name: 'Ale',
+        expectedQuantity: 5,
+        unitCost: 2,
+        counts: [{ quantity: 2, countedAt: '2026-01-10T23:00:00.000Z' }]
+      })]);
+      vi.spyOn(stockCountService, 'getStockCountById').mockResolvedValue({ success: true, data: count } as never);
+      vi.spyOn(stockCountService as unknown as CommitSteps, 'updateStockCount').mockResolvedValue({
+        success: true,
+        data: { ...count, status: 'committed' }
+      });
+      vi.spyOn(stockCountService as unknown as CommitSteps, 'getCurrentStock').mockResolvedValue({
+        success: true,
+        data: new Map([[aleId, [{ location: 'Bar', quantity: 1 }]]])
+      });
+      const bulkAdjust = vi.spyOn(inventoryService, 'bulkAdjustStock').mockResolvedValue({
+        success: true,
+        data: { transactions: [], failures: [] }
+      } as never);
+
+      await stockCountService.commitStockCount(countId, { staffMember: 'Sam' });
+
+      expect(bulkAdjust).toHaveBeenCalledWith(expect.objectContaining({
+        adjustments: [expect.objectContaining({ inventoryId: aleId, location: undefined, newQuantity: -2 })]
+      }));
+    });
+
+    it('should reverse posted batches and reopen the count when a batch fails', async () => {
+      // 51 items, one short each, so the adjustments take two batches
+      const count = stockCount(Array.from({ length: 51 }, (_, index) =>
+        line(`item-${index}`, 2, [1], [{ location: 'Shelf 1', quantity: 2 }])
+      ));
+      const committed = { ...count, status: 'committed' as const };
+      vi.spyOn(stockCountService, 'getStockCountById').mockResolvedValue({ success: true, data: count } as never);
+      const updateCount = vi.spyOn(stockCountService as unknown as CommitSteps, 'updateStockCount').mockResolvedValue({
+        success: true,
+        data: committed
+      });
+      vi.spyOn(stockCountService as unknown as CommitSteps, 'getCurrentStock').mockResolvedValue({
+        success: true,
+        data: new Map()
+      });
+      vi.spyOn(inventoryService, 'bulkAdjustStock')
+        .mockResolvedValueOnce({
+          success: true,
+          data: {
+            transactions: [{ id: 'tx-1', itemId: 'item-0', type: 'adjustment_negative', quantity: 1, location: 'Shelf 1' }],
+            failures: []
+          }
+        } as never)
+        .mockResolvedValueOnce({ success: false, error: { status: 500, detail: 'Database unavailable' } } as never);
+      const createTransaction = vi.spyOn(inventoryService, 'createTransaction').mockResolvedValue({ success: true } as never);
+
+      const result = await stockCountService.commitStockCount(countId, { staffMember: 'Sam' });
+
+      expect(result.success).toBe(false);
+      expect(createTransaction).toHaveBeenCalledTimes(1);
+      expect(createTransaction).toHaveBeenCalledWith(expect.objectContaining({
+        inventoryId: 'item-0',
+        type: 'adjustment_positive',
+        quantity: 1,
+        location: 'Shelf 1'
+      }));
+      expect(updateCount).toHaveBeenLastCalledWith(
+        committed,
+        { status: 'in_progress', committedBy: null, committedAt: null },
+        expect.anything()
+      );
+    });
+
+    it('should reject a count with nothing counted', async () => {
+      const count = stockCount([line(aleId, 10, [])]);
+      vi.spyOn(stockCountService, 'getStockCountById').mockResolvedValue({ success: true, data: count } as never);
+      const bulkAdjust = vi.spyOn(inventoryService, 'bulkAdjustStock');
+
+      const result = await stockCountService.commitStockCount(countId);
+
+      expect(result.success).toBe(false);
+      expect(bulkAdjust).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('locationVariances', () => {
+    it('should count a location that held stock but was not counted as empty', () => {
+      const variances = validateStockCountBusinessRules.locationVariances(
+        line(aleId, 10, [6], [{ location: 'Shelf 1', quantity: 6 }, { location: 'Cellar', quantity: 4 }])
+      );
+
+      expect(variances).toEqual([{ location: 'Cellar', variance: -4 }]);
+    });
+  });
+
+  describe('applyCounts', () => {
+    it('should replace an earlier count at the same location', () => {
+      const recounted = validateStockCountBusinessRules.calculateVariance(
+        validateStockCountBusinessRules.applyCounts(line(aleId, 10, [5, 3]), [
+          { location: 'Shelf 2', quantity: 4, countedAt: '2026-01-10T23:30:00.000Z' }
+        ])
+      );
+
+      expect(recounted.countedQuantity).toBe(9);
+      expect(recounted.variance).toBe(-1);
+      expect(recounted.varianceValue).toBe(-2);
+    });
+  });
+});
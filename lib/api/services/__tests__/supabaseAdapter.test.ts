@@ -0,0 +1,329 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { SupabaseAdapter } from '../../adapters/supabaseAdapter';
+import { supabase } from '../../../supabase';
+import { diffRecords } from '../../schemas/auditSchemas';
+
+// Mock Supabase
+vi.mock('../../../supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    auth: {
+      getSession: vi.fn()
+    }
+  }
+}));
+
+describe('SupabaseAdapter', () => {
+  let adapter: SupabaseAdapter;
+  const version = '2026-01-01T12:00:00.000Z';
+
+  beforeEach(() => {
+    adapter = new SupabaseAdapter();
+    vi.mocked(supabase.auth.getSession).mockResolvedValue({ data: { session: { user: { id: 'user-1' } } } } as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('executeQuery with an expected version', () => {
+    it('should report a conflict when the row changed since it was read', async () => {
+      const result = await adapter.executeQuery(
+        { tableName: 'customers', expectedVersion: version },
+        async () => ({ data: [], error: null }),
+        'write'
+      );
+
+      expect(result.error).toMatchObject({ status: 409, title: 'Record Changed' });
+      expect(result.error?.detail).toContain('customer was changed by someone else');
+    });
+
+    it('should succeed when the row was still at that version', async () => {
+      const result = await adapter.executeQuery(
+        { tableName: 'customers', expectedVersion: version },
+        async () => ({ data: [{ id: 'customer-1' }], error: null }),
+        'write'
+      );
+
+      expect(result.error).toBeUndefined();
+      expect(result.data).toEqual([{ id: 'customer-1' }]);
+    });
+  });
+
+  describe('executeQuery with audit', () => {
+    const before = { id: 'event-1', title: 'Jazz Night', ticket_price: 15, updated_at: version };
+    let insertedEntries: unknown[];
+    let writeResult: { data: unknown; error: unknown };
+
+    beforeEach(() => {
+      insertedEntries = [];
+      vi.mocked(supabase.auth.getSession).mockResolvedValue({
+        data: { session: { user: { id: 'user-1', email: 'manager@example.com' } } }
+      } as never);
+    });
+
+    // Reads before the write see `before`, reads after it see `after`
+    const stubTables = (after: Record<string, unknown>[] | null) => {
+      let written = false;
+      vi.mocked(supabase.from).mockImplementation(((table: string) => {
+        if (table === 'audit_entries') {
+          return {
+            insert: vi.fn(async (rows: unknown[]) => {
+              insertedEntries.push(...rows);
+              return { error: null };
+            })
+          };
+        }
+        const builder: Record<string, unknown> = {};
+        let writing = false;
+        ['select', 'eq', 'in'].forEach(method => {
+          builder[method] = vi.fn(() => builder);
+        });
+        ['insert', 'update', 'delete'].forEach(method => {
+          builder[method] = vi.fn(() => {
+            writing = true;
+            return builder;
+          });
+        });
+        builder.then = (resolve: (value: unknown) => unknown) => {
+          if (writing) {
+            written = true;
+            return resolve(writeResult);
+          }
+          return resolve({ data: written ? after || [] : [before], error: null });
+        };
+        return builder;
+      }) as never);
+    };
+
+    it('should record the changed fields of an update without being asked to', async () => {
+      const after = [{ ...before, ticket_price: 18, updated_at: '2026-01-02T00:00:00.000Z' }];
+      stubTables(after);
+      writeResult = { data: [{ id: 'event-1' }], error: null };
+
+      await adapter.executeQuery(
+        { tableName: 'events' },
+        async () => adapter.buildQuery('events').update({ ticket_price: 18 }).eq('id', 'event-1').select('id') as never,
+        'write'
+      );
+
+      expect(insertedEntries).toEqual([expect.objectContaining({
+        entity_type: 'events',
+        entity_id: 'event-1',
+        operation: 'update',
+        actor_id: 'user-1',
+        actor_email: 'manager@example.com',
+        changes: [{ field: 'ticket_price', before: 15, after: 18 }]
+      })]);
+    });
+
+    it('should record every field of a deleted row', async () => {
+      stubTables(null);
+      writeResult = { data: null, error: null };
+
+      await adapter.executeQuery(
+        { tableName: 'events' },
+        async () => adapter.buildQuery('events').delete().eq('id', 'event-1') as never,
+        'write'
+      );
+
+      expect(insertedEntries).toEqual([expect.objectContaining({
+        operation: 'delete',
+        changes: [
+          { field: 'id', before: 'event-1', after: undefined },
+          { field: 'ticket_price', before: 15, after: undefined },
+          { field: 'title', before: 'Jazz Night', after: undefined }
+        ]
+      })]);
+    });
+
+    it('should record a created row as it was stored', async () => {
+      stubTables([{ id: 'event-2', title: 'Open Mic' }]);
+      writeResult = { data: [{ id: 'event-2' }], error: null };
+
+      await adapter.executeQuery(
+        { tableName: 'events' },
+        async () => adapter.buildQuery('events').insert([{ title: 'Open Mic' }]).select('id') as never,
+        'write'
+      );
+
+      expect(insertedEntries).toEqual([expect.objectContaining({
+        entity_id: 'event-2',
+        operation: 'create',
+        changes: [
+          { field: 'id', before: undefined, after: 'event-2' },
+          { field: 'title', before: undefined, after: 'Open Mic' }
+        ]
+      })]);
+    });
+
+    it('should not audit writes to tables outside the audit trail', async () => {
+      stubTables([]);
+      writeResult = { data: [{ id: 'alert-1' }], error: null };
+
+      await adapter.executeQuery(
+        { tableName: 'stock_alerts' },
+        async () => adapter.buildQuery('stock_alerts').update({ status: 'resolved' }).eq('id', 'alert-1').select('*') as never,
+        'write'
+      );
+
+      expect(insertedEntries).toEqual([]);
+    });
+
+    it('should not record anything when the update was refused as a conflict', async () => {
+      stubTables([]);
+      writeResult = { data: [], error: null };
+
+      await adapter.executeQuery(
+        { tableName: 'events', expectedVersion: version },
+        async () => adapter.buildQuery('events').update({ ticket_price: 18 }).eq('id', 'event-1').eq('updated_at', version).select('*') as never,
+        'write'
+      );
+
+      expect(insertedEntries).toEqual([]);
+    });
+
+    it('should still succeed when the audit entry cannot be written', async () => {
+      stubTables([{ id: 'event-2', title: 'Open Mic' }]);
+      writeResult = { data: [{ id: 'event-2' }], error: null };
+      const from = vi.mocked(supabase.from).getMockImplementation()!;
+      vi.mocked(supabase.from).mockImplementation(((table: string) => table === 'audit_entries'
+        ? { insert: async () => ({ error: { message: 'audit_entries is unavailable' } }) }
+        : from(table)) as never);
+      vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      const result = await adapter.executeQuery(
+        { tableName: 'events' },
+        async () => adapter.buildQuery('events').insert([{ title: 'Open Mic' }]).select('id') as never,
+        'write'
+      );
+
+      expect(result.error).toBeUndefined();
+      expect(console.warn).toHaveBeenCalled();
+    });
+  });
+
+  describe('diffRecords', () => {
+    it('should list only changed fields and ignore timestamps', () => {
+      expect(diffRecords(
+        { id: '1', name: 'Stout', tags: ['dark'], updated_at: 'a' },
+        { id: '1', name: 'Porter', tags: ['dark'], updated_at: 'b' }
+      )).toEqual([{ field: 'name', before: 'Stout', after: 'Porter' }]);
+    });
+
+    it('should list every set field of a new record', () => {
+      expect(diffRecords(null, { id: '1', name: 'Stout', notes: null })).toEqual([
+        { field: 'id', before: undefined, after: '1' },
+        { field: 'name', before: undefined, after: 'Stout' }
+      ]);
+    });
+  });
+
+  describe('matchVersion', () => {
+    it('should only filter on updated_at when a version is given', () => {
+      const query = { eq: vi.fn() };
+      query.eq.mockReturnValue(query);
+
+      adapter.matchVersion(query, undefined);
+      expect(query.eq).not.toHaveBeenCalled();
+
+      adapter.matchVersion(query, version);
+      expect(query.eq).toHaveBeenCalledWith('updated_at', version);
+    });
+  });
+
+  describe('cursor pagination', () => {
+    const orderBy = { column: 'created_at', ascending: false };
+    const rows = [
+      { id: 'c', created_at: '2026-01-03T00:00:00.000Z' },
+      { id: 'b', created_at: '2026-01-02T00:00:00.000Z' },
+      { id: 'a', created_at: '2026-01-01T00:00:00.000Z' }
+    ];
+
+    const mockBuilder = () => {
+      const builder: Record<string, ReturnType<typeof vi.fn>> = {};
+      ['select', 'eq', 'or', 'order', 'limit', 'range'].forEach(method => {
+        builder[method] = vi.fn(() => builder);
+      });
+      vi.mocked(supabase.from).mockReturnValue(builder as never);
+      return builder;
+    };
+
+    it('should continue after the cursor row and read one extra row', () => {
+      const builder = mockBuilder();
+      const cursor = adapter.encodeCursor(rows[1], 'created_at');
+
+      adapter.buildQuery('customers', { orderBy, limit: 2, cursor, count: 'estimated' });
+
+      expect(builder.select).toHaveBeenCalledWith('*', { count: 'estimated' });
+      expect(builder.or).toHaveBeenCalledWith(
+        'created_at.lt."2026-01-02T00:00:00.000Z",and(created_at.eq."2026-01-02T00:00:00.000Z",id.lt."b")'
+      );
+      expect(builder.order).toHaveBeenLastCalledWith('id', { ascending: false });
+      expect(builder.limit).toHaveBeenCalledWith(3);
+    });
+
+    it('should keep rows without a value after the last valued row in ascending order', () => {
+      const builder = mockBuilder();
+      const ascending = { column: 'due_date', ascending: true };
+
+      adapter.buildQuery('customers', { orderBy: ascending, limit: 2, cursor: adapter.encodeCursor({ id: 'b', due_date: '2026-01-02' }, 'due_date') });
+      expect(builder.or).toHaveBeenLastCalledWith(
+        'due_date.gt."2026-01-02",and(due_date.eq."2026-01-02",id.gt."b"),due_date.is.null'
+      );
+
+      adapter.buildQuery('customers', { orderBy: ascending, limit: 2, cursor: adapter.encodeCursor({ id: 'b', due_date: null }, 'due_date') });
+      expect(builder.or).toHaveBeenLastCalledWith('and(due_date.is.null,id.gt."b")');
+    });
+
+    it('should continue from a row without a value onto the valued rows in descending order', () => {
+      const builder = mockBuilder();
+
+      adapter.buildQuery('customers', { orderBy, limit: 2, cursor: adapter.encodeCursor({ id: 'b', created_at: null }, 'created_at') });
+
+      expect(builder.or).toHaveBeenCalledWith('and(created_at.is.null,id.lt."b"),created_at.not.is.null');
+    });
+
+    it('should reject a malformed cursor', async () => {
+      mockBuilder();
+
+      const result = await adapter.executeQuery(
+        { tableName: 'customers' },
+        async () => adapter.buildQuery('customers', { orderBy, limit: 2, cursor: 'not-a-cursor' }) as never,
+        'read'
+      );
+
+      expect(result.error).toMatchObject({ status: 422 });
+    });
+
+    it('should trim the extra row and describe the page in meta', async () => {
+      const options = { orderBy, limit: 2, cursor: null, count: 'estimated' as const };
+
+      const result = await adapter.executeQuery(
+        { tableName: 'customers', pagination: options },
+        async () => ({ data: rows, error: null, count: 1200 }),
+        'read'
+      );
+
+      expect(result.data).toEqual(rows.slice(0, 2));
+      expect(result.meta.page_info).toEqual({
+        next_cursor: adapter.encodeCursor(rows[1], 'created_at'),
+        has_more: true,
+        limit: 2,
+        total_count: 1200,
+        total_is_estimate: true
+      });
+    });
+
+    it('should end on a page without the extra row', async () => {
+      const result = await adapter.executeQuery(
+        { tableName: 'customers', pagination: { orderBy, limit: 5, cursor: null, count: 'exact' } },
+        async () => ({ data: rows, error: null, count: 3 }),
+        'read'
+      );
+
+      expect(result.data).toHaveLength(3);
+      expect(result.meta.page_info).toMatchObject({ next_cursor: null, has_more: false, total_count: 3, total_is_estimate: false });
+    });
+  });
+});
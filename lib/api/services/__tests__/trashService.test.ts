@@ -0,0 +1,260 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { TrashService } from '../trashService';
+import type { SupabaseAdapter, SupabaseAdapterConfig } from '../../adapters/supabaseAdapter';
+import { calculatePurgeDate } from '../../schemas/trashSchemas';
+
+// Mock Supabase
+vi.mock('../../../supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    auth: {
+      getSession: vi.fn()
+    }
+  }
+}));
+
+describe('TrashService', () => {
+  let trashService: TrashService;
+  let adapter: SupabaseAdapter;
+  // Every query the service ran, as table and read or write
+  let calls: string[];
+
+  const entryId = '2b4c6d8e-0f1a-4b3c-8d5e-6f7a8b9c0d1e';
+  const customerId = '3c5d7e9f-1a2b-4c4d-9e6f-7a8b9c0d1e2f';
+  const staffId = '4d6e8f0a-2b3c-4d5e-8f7a-8b9c0d1e2f3a';
+
+  const entryRow = (overrides: Record<string, unknown> = {}) => ({
+    id: entryId,
+    entity_type: 'customers',
+    entity_id: customerId,
+    label: 'Ada Lovelace',
+    restore_values: { status: 'active' },
+    deleted_values: { status: 'inactive' },
+    related: [{ table: 'customer_interactions', ids: ['interaction-1', 'interaction-2'] }],
+    deleted_by_email: 'manager@example.com',
+    deleted_at: '2026-01-01T10:00:00.000Z',
+    ...overrides
+  });
+
+  // Answer queries by table; reads of an entity table report whether it is still deleted
+  const stubQueries = (entries: Record<string, unknown>[], stillDeleted: Record<string, boolean>) => {
+    vi.spyOn(adapter, 'executeQuery').mockImplementation((async (config: SupabaseAdapterConfig, _operation: unknown, operationType: string) => {
+      calls.push(`${config.tableName} ${operationType}`);
+      if (config.tableName === 'trash_entries' && operationType === 'read') {
+        return { success: true, data: entries.length === 1 ? entries[0] : entries };
+      }
+      if (operationType === 'read') {
+        return { success: true, data: stillDeleted[config.tableName] ? [{ id: 'row' }] : [] };
+      }
+      return { success: true, data: [config.tableName === 'trash_entries' ? entryRow() : { id: 'row' }] };
+    }) as never);
+  };
+
+  beforeEach(() => {
+    trashService = new TrashService();
+    adapter = (trashService as unknown as { adapter: SupabaseAdapter }).adapter;
+    calls = [];
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('moveToTrash', () => {
+    it('should record the entry before hiding the related rows', async () => {
+      stubQueries([], {});
+      vi.spyOn(adapter, 'getCurrentUser').mockResolvedValue(null as never);
+
+      const result = await trashService.moveToTrash({
+        entityType: 'customers',
+        entityId: customerId,
+        label: 'Ada Lovelace',
+        restoreValues: { status: 'active' },
+        deletedValues: { status: 'inactive' }
+      });
+
+      expect(result.success).toBe(true);
+      expect(calls).toEqual([
+        'trash_entries write',
+        'customer_interactions write',
+        // The hidden rows are remembered on the entry
+        'trash_entries write'
+      ]);
+    });
+  });
+
+  describe('restoreFromTrash', () => {
+    // Record what each query writes, and fail the nth query the service runs
+    const failQuery = (n: number) => {
+      const writes: unknown[][] = [];
+      const builder = (table: string) => {
+        const query: Record<string, unknown> = {};
+        ['update', 'delete'].forEach(method => {
+          query[method] = (values?: Record<string, unknown>) => {
+            writes.push([table, method, values]);
+            return query;
+          };
+        });
+        ['eq', 'in', 'select', 'match', 'single'].forEach(method => {
+          query[method] = () => query;
+        });
+        return query;
+      };
+      vi.spyOn(adapter, 'buildQuery').mockImplementation(builder as never);
+      const stubbed = vi.mocked(adapter.executeQuery).getMockImplementation()!;
+      let count = 0;
+      vi.mocked(adapter.executeQuery).mockImplementation((async (config: SupabaseAdapterConfig, operation: () => Promise<unknown>, operationType: string) => {
+        await operation();
+        if (++count === n) {
+          calls.push(`${config.tableName} ${operationType}`);
+          return { success: false, error: { status: 503, title: 'Service Unavailable' } };
+        }
+        return stubbed(config, operation as never, operationType as never);
+      }) as never);
+      return writes;
+    };
+
+    it('should restore the record, then its related rows, then remove the entry', async () => {
+      stubQueries([entryRow()], { customers: true });
+
+      const result = await trashService.restoreFromTrash(entryId);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.label).toBe('Ada Lovelace');
+      expect(calls).toEqual([
+        'trash_entries read',
+        'customers read',
+        'customers write',
+        'customer_interactions write',
+        'trash_entries write'
+      ]);
+    });
+
+    it('should hide the record and its rows again when the related rows cannot come back', async () => {
+      stubQueries([entryRow()], { customers: true });
+      const writes = failQuery(4);
+
+      const result = await trashService.restoreFromTrash(entryId);
+
+      expect(result.success).toBe(false);
+      expect(writes.map(([table, , values]) => [table, values])).toEqual([
+        ['customers', expect.objectContaining({ status: 'active' })],
+        ['customer_interactions', { deleted_at: null }],
+        ['customer_interactions', { deleted_at: '2026-01-01T10:00:00.000Z' }],
+        ['customers', expect.objectContaining({ status: 'inactive' })]
+      ]);
+      // The entry stays in the trash bin
+      expect(writes.some(([table]) => table === 'trash_entries')).toBe(false);
+    });
+
+    it('should report a restore whose entry could not be removed as done, and finish it when retried', async () => {
+      stubQueries([entryRow()], { customers: true });
+      failQuery(5);
+
+      const result = await trashService.restoreFromTrash(entryId);
+
+      expect(result.success).toBe(true);
+      expect(calls[calls.length - 1]).toBe('trash_entries write');
+
+      // The record is active now, so the retry leaves it alone and only removes the entry
+      vi.restoreAllMocks();
+      calls = [];
+      stubQueries([entryRow()], { customers: false });
+
+      const retry = await trashService.restoreFromTrash(entryId);
+
+      expect(retry.success).toBe(true);
+      expect(calls).toEqual([
+        'trash_entries read',
+        'customers read',
+        'customer_interactions write',
+        'trash_entries write'
+      ]);
+    });
+  });
+
+  describe('purgeExpired', () => {
+    beforeEach(() => {
+      vi.spyOn(trashService, 'getRetentionPolicy').mockResolvedValue({ success: true, data: { retentionDays: 30 } } as never);
+    });
+
+    it('should delete related rows before the record and keep records that were reactivated', async () => {
+      stubQueries([
+        entryRow(),
+        entryRow({
+          id: 'entry-2',
+          entity_type: 'staff',
+          entity_id: staffId,
+          label: 'Grace Hopper',
+          restore_values: { is_active: true },
+          deleted_values: { is_active: false },
+          related: [{ table: 'staff_schedules', ids: ['shift-1'] }]
+        })
+      ], { customers: true, staff: false });
+
+      const result = await trashService.purgeExpired();
+
+      expect(result.data).toEqual({ purged: 1, skipped: 1, failures: [] });
+      expect(calls).toEqual([
+        'trash_entries read',
+        // The customer is still deleted, so it goes for good
+        'customers read',
+        'customer_interactions write',
+        'customers write',
+        'trash_entries write',
+        // The staff member is active again: their shifts come back and nothing is deleted
+        'staff read',
+        'staff_schedules write',
+        'trash_entries write'
+      ]);
+    });
+  });
+
+  describe('purgeExpired of an inventory item', () => {
+    it('should archive its stock transactions instead of deleting them', async () => {
+      vi.spyOn(trashService, 'getRetentionPolicy').mockResolvedValue({ success: true, data: { retentionDays: 30 } } as never);
+      const writes: string[] = [];
+      const builder = (table: string) => {
+        const query: Record<string, unknown> = {};
+        ['update', 'delete'].forEach(method => {
+          query[method] = (values?: Record<string, unknown>) => {
+            writes.push([table, method, ...Object.keys(values || {})].join(' '));
+            return query;
+          };
+        });
+        ['eq', 'in', 'select', 'match', 'lte'].forEach(method => {
+          query[method] = () => query;
+        });
+        return query;
+      };
+      vi.spyOn(adapter, 'buildQuery').mockImplementation(builder as never);
+      stubQueries([entryRow({
+        entity_type: 'inventory_items',
+        label: 'Pilsner keg',
+        restore_values: { status: 'active' },
+        deleted_values: { status: 'discontinued' },
+        related: [{ table: 'inventory_transactions', ids: ['movement-1'] }]
+      })], { inventory_items: true });
+      const stubbed = vi.mocked(adapter.executeQuery).getMockImplementation()!;
+      vi.mocked(adapter.executeQuery).mockImplementation((async (config: SupabaseAdapterConfig, operation: () => Promise<unknown>, operationType: string) => {
+        await operation();
+        return stubbed(config, operation as never, operationType as never);
+      }) as never);
+
+      const result = await trashService.purgeExpired();
+
+      expect(result.data).toEqual({ purged: 1, skipped: 0, failures: [] });
+      expect(writes).toEqual([
+        'inventory_transactions update archived_item_name',
+        'inventory_items delete',
+        'trash_entries delete'
+      ]);
+    });
+  });
+
+  describe('calculatePurgeDate', () => {
+    it('should add the retention period to the deletion date', () => {
+      expect(calculatePurgeDate('2026-01-01T10:00:00.000Z', 30)).toBe('2026-01-31T10:00:00.000Z');
+    });
+  });
+});
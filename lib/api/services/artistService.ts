@@ -400,10 +400,13 @@ export class ArtistService {
   }
 
   /**
-   * Update an existing artist with business rule validation
+   * Update an existing artist with business rule validation. expectedUpdatedAt is
+   * the artist's updatedAt as it was read; the update is refused (409) if the
+   * artist changed since.
    */
   static async updateArtist(
     artistData: UpdateArtistRequest,
+    expectedUpdatedAt: string,
     requestId: string = crypto.randomUUID(),
     userId: string = 'system'
   ): Promise<ApiResponse<Artist> | ApiResponse<ApiError>> {
@@ -461,9 +464,21 @@ export class ArtistService {
         .from(this.TABLE_NAME)
         .update(dbData)
         .eq('id', validatedData.id)
+        .eq('updated_at', expectedUpdatedAt)
         .select()
         .single();
 
+      // The artist was found above, so no row at the version read means it changed since
+      if (error?.code === 'PGRST116') {
+        return createErrorResponse(
+          'RECORD_CHANGED',
+          'Record Changed',
+          409,
+          'The artist was changed by someone else. Reload it and try again',
+          requestId
+        );
+      }
+
       if (error) {
         logger.error('Failed to update artist', { 
           requestId, 
@@ -0,0 +1,152 @@
+import { SupabaseAdapter } from '../adapters/supabaseAdapter';
+import { validateQuery, validateParams } from '../validation';
+import { UserRole } from '../auth';
+import type { ApiResponse } from '../types';
+import {
+  AuditQuerySchema,
+  RecordHistorySchema,
+  type AuditQuery,
+  type AuditEntityType,
+  type AuditEntry,
+  type AuditFieldChange,
+  type AuditOperation,
+} from '../schemas/auditSchemas';
+
+export class AuditService {
+  private adapter: SupabaseAdapter;
+
+  constructor() {
+    this.adapter = new SupabaseAdapter();
+  }
+
+  /**
+   * Search audit entries across all audited records, newest first
+   */
+  async getAuditTrail(query: AuditQuery = {}): Promise<ApiResponse<AuditEntry[]>> {
+    // 1. Validate query parameters
+    const validationResult = validateQuery(AuditQuerySchema, query);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { entityType, entityId, actorId, operation, field, search, dateFrom, dateTo, limit } = validationResult.data;
+
+    // 2. Execute query
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'audit_entries',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'audit:read',
+        enableLogging: true,
+      },
+      async () => {
+        let query = this.adapter.buildQuery('audit_entries', {
+          select: '*',
+          filters: {
+            entity_type: entityType,
+            entity_id: entityId,
+            actor_id: actorId,
+            operation
+          },
+          orderBy: { column: 'created_at', ascending: false },
+          limit
+        });
+
+        if (dateFrom) {
+          query = query.gte('created_at', dateFrom);
+        }
+        if (dateTo) {
+          query = query.lte('created_at', dateTo);
+        }
+
+        return query;
+      },
+      'read'
+    );
+
+    if (response.success) {
+      // 3. Field and free-text filters look inside the changes list
+      const entries = (Array.isArray(response.data) ? response.data : [response.data])
+        .map(entry => this.transformAuditEntryFromDb(entry as Record<string, unknown>))
+        .filter(entry => !field || entry.changes.some(change => change.field === field))
+        .filter(entry => !search || this.matchesSearch(entry, search.toLowerCase()));
+
+      return {
+        ...response,
+        data: entries
+      };
+    }
+    return response as ApiResponse<AuditEntry[]>;
+  }
+
+  /**
+   * Get every recorded change to a single record, newest first
+   */
+  async getRecordHistory(entityType: AuditEntityType, entityId: string): Promise<ApiResponse<AuditEntry[]>> {
+    // 1. Validate parameters
+    const validationResult = validateParams(RecordHistorySchema, { entityType, entityId });
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    // 2. Execute query
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'audit_entries',
+        requiredRole: UserRole.STAFF,
+        rateLimitKey: 'audit:read',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('audit_entries', {
+          select: '*',
+          filters: { entity_type: entityType, entity_id: entityId },
+          orderBy: { column: 'created_at', ascending: false }
+        });
+      },
+      'read'
+    );
+
+    if (response.success) {
+      const entries = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: entries.map(entry => this.transformAuditEntryFromDb(entry as Record<string, unknown>))
+      };
+    }
+    return response as ApiResponse<AuditEntry[]>;
+  }
+
+  /**
+   * Match the actor, the changed field names and the before/after values
+   */
+  private matchesSearch(entry: AuditEntry, search: string): boolean {
+    const haystack = [
+      entry.actorEmail,
+      ...entry.changes.flatMap(change => [change.field, JSON.stringify(change.before ?? ''), JSON.stringify(change.after ?? '')])
+    ];
+    return haystack.some(value => value?.toLowerCase().includes(search));
+  }
+
+  /**
+   * Transform database audit entry to API format
+   */
+  private transformAuditEntryFromDb(dbEntry: Record<string, unknown>): AuditEntry {
+    const camelCaseEntry = this.adapter.toCamelCase(dbEntry);
+
+    return {
+      id: camelCaseEntry.id as string,
+      entityType: camelCaseEntry.entityType as string,
+      entityId: camelCaseEntry.entityId as string,
+      operation: camelCaseEntry.operation as AuditOperation,
+      actorId: camelCaseEntry.actorId as string || undefined,
+      actorEmail: camelCaseEntry.actorEmail as string || undefined,
+      changes: (camelCaseEntry.changes as AuditFieldChange[]) || [],
+      requestId: camelCaseEntry.requestId as string || undefined,
+      createdAt: camelCaseEntry.createdAt as string,
+    };
+  }
+}
+
+// Export a singleton instance
+export const auditService = new AuditService();
@@ -36,6 +36,7 @@ import {
   createInteractionSchema 
 } from '../schemas/customerSchemas';
 import { supabaseAdapter } from '../adapters/supabaseAdapter';
+import { trashService } from './trashService';
 import { buildSuccessResponse, buildListResponse, buildPaginationMeta, buildPaginationLinks, type ListResponse } from '../types';
 import { createApiError, ErrorCode } from '../errors';
 
@@ -62,7 +63,7 @@ export class CustomerService {
       return validationResult.error;
     }
 
-    const { limit, offset, status, tier, tags, dateFrom, dateTo, search } = validationResult.data;
+    const { limit, offset, cursor, status, tier, tags, dateFrom, dateTo, search } = validationResult.data;
 
     // 2. Build query options
     const queryOptions: QueryOptions = {
@@ -74,6 +75,8 @@ export class CustomerService {
       orderBy: { column: 'created_at', ascending: false },
       limit,
       offset,
+      cursor: cursor ?? null,
+      count: 'estimated',
       filters: {}
     };
 
@@ -88,6 +91,7 @@ export class CustomerService {
         tableName: 'customers',
         rateLimitKey: 'customers:read',
         enableLogging: true,
+        pagination: queryOptions,
       },
       async () => {
         const query = this.adapter.buildQuery('customers', queryOptions);
@@ -254,9 +258,10 @@ export class CustomerService {
   }
 
   /**
-   * Update an existing customer
+   * Update an existing customer. expectedUpdatedAt is the customer's updatedAt
+   * as it was read; the update is refused (409) if the customer changed since.
    */
-  async updateCustomer(id: string, updates: Omit<UpdateCustomerRequest, 'id'>): Promise<ApiResponse<Customer>> {
+  async updateCustomer(id: string, updates: Omit<UpdateCustomerRequest, 'id'>, expectedUpdatedAt: string): Promise<ApiResponse<Customer>> {
     // 1. Validate ID and updates
     const idValidation = validateParams(CustomerIdSchema, { id });
     if (!idValidation.success) {
@@ -304,6 +309,7 @@ export class CustomerService {
         requiredRole: UserRole.STAFF,
         rateLimitKey: 'customers:update',
         enableLogging: true,
+        expectedVersion: expectedUpdatedAt,
       },
       async () => {
         // Convert updates to database format
@@ -312,10 +318,11 @@ export class CustomerService {
           updated_at: new Date().toISOString()
         });
 
-        return this.adapter.buildQuery('customers')
+        const query = this.adapter.buildQuery('customers')
           .update(dbUpdates)
-          .eq('id', id)
-          .select('*');
+          .eq('id', id);
+
+        return this.adapter.matchVersion(query, expectedUpdatedAt).select('*');
       },
       'write'
     );
@@ -391,16 +398,31 @@ export class CustomerService {
       }
       return response as ApiResponse<{ deleted: boolean }>;
     } else {
-      // 4. Soft delete (set status to inactive)
-      const updateResponse = await this.updateCustomer(id, { status: 'inactive' });
-      if (updateResponse.success) {
-        return {
-          success: true,
-          data: { deleted: true },
-          meta: updateResponse.meta
-        };
+      // 4. Record it in the trash bin first, so a hidden record always has
+      // an entry it can be restored or purged from
+      const trashResponse = await trashService.moveToTrash({
+        entityType: 'customers',
+        entityId: id,
+        label: `${existingCustomer.firstName} ${existingCustomer.lastName}`,
+        restoreValues: { status: (existingCustomer as { status?: string }).status || 'active' },
+        deletedValues: { status: 'inactive' }
+      });
+      if (!trashResponse.success) {
+        return trashResponse as unknown as ApiResponse<{ deleted: boolean }>;
       }
-      return updateResponse as ApiResponse<{ deleted: boolean }>;
+
+      // 5. Soft delete (set status to inactive)
+      const updateResponse = await this.updateCustomer(id, { status: 'inactive' }, existingCustomer.updatedAt);
+      if (!updateResponse.success) {
+        await trashService.discardTrashEntry(trashResponse.data);
+        return updateResponse as ApiResponse<{ deleted: boolean }>;
+      }
+
+      return {
+        success: true,
+        data: { deleted: true },
+        meta: updateResponse.meta
+      };
     }
   }
 
@@ -480,11 +502,12 @@ export class CustomerService {
         enableLogging: true,
       },
       async () => {
+        // Interactions of a customer in the trash bin are hidden until it is restored
         return this.adapter.buildQuery('customer_interactions', {
           select: '*',
           filters: { customer_id: customerId },
           orderBy: { column: 'created_at', ascending: false }
-        });
+        }).is('deleted_at', null);
       },
       'read'
     );
@@ -7,19 +7,54 @@ import {
   UpdateEventSchema,
   EventQuerySchema,
   EventIdSchema,
+  CreateTicketHoldSchema,
+  ConvertTicketHoldSchema,
+  TicketHoldIdSchema,
+  TicketScanSchema,
+  SyncTicketScansSchema,
+  RefundTicketsSchema,
+  ExchangeTicketSchema,
+  TicketIdSchema,
   validateEventBusinessRules,
   type CreateEventRequest,
   type UpdateEventRequest,
   type EventQueryRequest,
   type Event,
+  type TicketTier,
+  type TicketTierType,
+  type TicketHold,
+  type Ticket,
+  type CreateTicketHoldRequest,
+  type ConvertTicketHoldRequest,
+  type TicketScanRequest,
+  type TicketScanResult,
+  type GuestListEntry,
+  type TicketPosting,
+  type RefundTicketsRequest,
+  type ExchangeTicketRequest,
+  type TicketRefundResult,
+  type TicketExchangeResult,
 } from '../schemas/eventSchemas';
+import type { FinancialTransaction } from '../schemas/financeSchemas';
 import { ValidationError } from '../errors';
+import { verifyTicketCode, parseTicketCode } from '../ticketCodes';
+import { financeService } from './financeService';
+
+// Conditional writes retried before a ticket sale gives up on contention
+const MAX_TICKET_SALE_ATTEMPTS = 5;
 
 export class EventsService {
   private adapter: SupabaseAdapter;
+  private ticketSigningSecret?: string;
 
-  constructor() {
+  /**
+   * @param options.ticketSigningSecret HMAC secret for ticket codes. The database
+   * signs every ticket's code as it is inserted; only set the secret where it is
+   * safe (the API edge function) so scans are verified before any lookup.
+   */
+  constructor(options: { ticketSigningSecret?: string } = {}) {
     this.adapter = new SupabaseAdapter();
+    this.ticketSigningSecret = options.ticketSigningSecret;
   }
 
   /**
@@ -38,7 +73,7 @@ export class EventsService {
       return validationResult.error;
     }
 
-    const { limit, offset, status, genre, artistId, dateFrom, dateTo, search } = validationResult.data;
+    const { limit, offset, cursor, status, genre, artistId, dateFrom, dateTo, search } = validationResult.data;
 
     // 2. Build query options
     const queryOptions: QueryOptions = {
@@ -50,6 +85,8 @@ export class EventsService {
       orderBy: { column: 'date', ascending: true },
       limit,
       offset,
+      cursor: cursor ?? null,
+      count: 'exact',
       filters: {}
     };
 
@@ -63,6 +100,7 @@ export class EventsService {
         tableName: 'events',
         rateLimitKey: 'events:read',
         enableLogging: true,
+        pagination: queryOptions,
       },
       async () => {
         const query = this.adapter.buildQuery('events', queryOptions);
@@ -115,7 +153,7 @@ export class EventsService {
             event_expenses(*)
           `,
           filters: { id }
-        });
+        }).single();
       },
       'read'
     );
@@ -159,6 +197,7 @@ export class EventsService {
           endTime: validatedData.endTime,
           totalCapacity: validatedData.totalCapacity,
           ticketPrice: validatedData.ticketPrice,
+          ticketTiers: validatedData.ticketTiers,
           artistIds: validatedData.artistIds,
           ticketsSold: validatedData.ticketsSold || 0,
           genre: validatedData.genre,
@@ -184,19 +223,18 @@ export class EventsService {
   }
 
   /**
-   * Update an existing event
+   * Update an existing event. expectedUpdatedAt is the event's updatedAt as it
+   * was read; the update is refused (409) if the event changed since.
    */
-  async updateEvent(id: string, updates: Omit<UpdateEventRequest, 'id'>): Promise<ApiResponse<Event>> {
+  async updateEvent(id: string, updates: Omit<UpdateEventRequest, 'id'>, expectedUpdatedAt: string): Promise<ApiResponse<Event>> {
     // 1. Validate ID and updates
     const idValidation = validateParams(EventIdSchema, { id });
     if (!idValidation.success) {
       return idValidation.error;
     }
 
-    const updateValidation = validateParams(
-      UpdateEventSchema.omit({ id: true }), 
-      updates
-    );
+    // The schema is refined, so it is validated whole; id matches the row being updated
+    const updateValidation = validateParams(UpdateEventSchema, { ...updates, id });
     if (!updateValidation.success) {
       return updateValidation.error;
     }
@@ -227,31 +265,114 @@ export class EventsService {
       };
     }
 
-    // 3. Execute update
+    // 3. Tier edits keep the sold/held counts already recorded for each tier. Capacity
+    // edits are versioned like them, so the tiers they are checked against stay current.
+    const touchesCounters = updateValidation.data.ticketTiers !== undefined
+      || updateValidation.data.ticketsSold !== undefined
+      || updateValidation.data.totalCapacity !== undefined;
+    let counters: Event | undefined;
+    if (touchesCounters) {
+      const countersResponse = await this.getTicketCounters(id);
+      if (!countersResponse.success) {
+        return countersResponse;
+      }
+      counters = countersResponse.data;
+    }
+    const ticketTiers = updateValidation.data.ticketTiers?.map(tier => {
+      const currentTier = counters?.ticketTiers?.find(t => t.type === tier.type);
+      return { ...tier, sold: currentTier?.sold || 0, held: currentTier?.held || 0 };
+    });
+    const overbookedTier = ticketTiers?.find(tier => tier.sold + tier.held > tier.capacity);
+    if (overbookedTier) {
+      return {
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/business-rule-violation',
+          title: 'Business Rule Violation',
+          status: 400,
+          detail: `The ${overbookedTier.type} tier already has ${overbookedTier.sold + overbookedTier.held} tickets sold or held`,
+          instance: `/api/events/${id}`,
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
+      };
+    }
+
+    // The schema only compares tiers and capacity sent together; the stored side fills in the rest
+    const totalCapacity = updateValidation.data.totalCapacity ?? counters?.totalCapacity ?? existingEvent.totalCapacity;
+    const allocated = (ticketTiers ?? counters?.ticketTiers ?? existingEvent.ticketTiers ?? [])
+      .reduce((sum, tier) => sum + tier.capacity, 0);
+    if (allocated > totalCapacity) {
+      return {
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/business-rule-violation',
+          title: 'Business Rule Violation',
+          status: 400,
+          detail: `Ticket tiers allocate ${allocated} tickets but the event only holds ${totalCapacity}`,
+          instance: `/api/events/${id}`,
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
+      };
+    }
+
+    // 4. Execute update
     const response = await this.adapter.executeQuery(
       {
         tableName: 'events',
         requiredRole: UserRole.MANAGER,
         rateLimitKey: 'events:update',
         enableLogging: true,
+        expectedVersion: expectedUpdatedAt,
       },
       async () => {
         // Convert updates to database format
         const dbUpdates = this.adapter.toSnakeCase({
           ...updateValidation.data,
+          ...(ticketTiers && { ticketTiers }),
+          ...(counters && { ticketVersion: counters.ticketVersion + 1 }),
           updated_at: new Date().toISOString()
         });
 
-        return this.adapter.buildQuery('events')
+        let query = this.adapter.buildQuery('events')
           .update(dbUpdates)
-          .eq('id', id)
-          .select('*');
+          .eq('id', id);
+        if (counters) {
+          // Only land if no sale or hold moved the counters since they were read
+          query = query.eq('ticket_version', counters.ticketVersion);
+        }
+
+        return this.adapter.matchVersion(query, expectedUpdatedAt).select('*');
       },
       'write'
     );
 
     if (response.success) {
       const eventArray = Array.isArray(response.data) ? response.data : [response.data];
+      if (counters && !eventArray[0]) {
+        return {
+          success: false,
+          error: {
+            type: 'https://docs.trainstation-dashboard.com/errors/conflict',
+            title: 'Ticket Sale Conflict',
+            status: 409,
+            detail: 'Tickets were sold or held while the event was being edited, please reload and try again',
+            instance: `/api/events/${id}`,
+            timestamp: new Date().toISOString()
+          },
+          meta: {
+            requestId: crypto.randomUUID(),
+            source: 'validation'
+          }
+        };
+      }
       return {
         ...response,
         data: this.transformEventFromDb(eventArray[0] as Record<string, unknown>)
@@ -263,7 +384,7 @@ export class EventsService {
   /**
    * Cancel an event (soft delete)
    */
-  async cancelEvent(id: string, reason?: string): Promise<ApiResponse<Event>> {
+  async cancelEvent(id: string, reason?: string, refund?: TicketPosting): Promise<ApiResponse<Event>> {
     // 1. Validate ID
     const validationResult = validateParams(EventIdSchema, { id });
     if (!validationResult.success) {
@@ -296,11 +417,75 @@ export class EventsService {
       };
     }
 
-    // 3. Update event status to cancelled
-    return this.updateEvent(id, {
+    // 3. Sold tickets are refunded, so the money needs somewhere to come from
+    if (existingEvent.ticketsSold > 0 && !refund) {
+      return {
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/validation',
+          title: 'Refund Details Required',
+          status: 400,
+          detail: `Choose the account and category to refund the ${existingEvent.ticketsSold} sold tickets from`,
+          instance: `/api/events/${id}/cancel`,
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
+      };
+    }
+
+    // 4. Only issued tickets can be refunded. Seats sold by count alone have no
+    //    ticket or sale to reverse, so they must be settled by hand first
+    if (existingEvent.ticketsSold > 0) {
+      const ticketsResponse = await this.getEventTickets(id);
+      if (!ticketsResponse.success) {
+        return ticketsResponse as unknown as ApiResponse<Event>;
+      }
+
+      const issued = ticketsResponse.data.filter(ticket => ticket.status === 'valid' || ticket.status === 'used').length;
+      const untracked = existingEvent.ticketsSold - issued;
+      if (untracked > 0) {
+        return {
+          success: false,
+          error: {
+            type: 'https://docs.trainstation-dashboard.com/errors/business-rule-violation',
+            title: 'Cannot Cancel Event',
+            status: 409,
+            detail: `${untracked} of the ${existingEvent.ticketsSold} sold tickets were sold without a ticket and cannot be refunded automatically. Refund them by hand and lower the tickets sold before cancelling`,
+            instance: `/api/events/${id}/cancel`,
+            timestamp: new Date().toISOString()
+          },
+          meta: {
+            requestId: crypto.randomUUID(),
+            source: 'validation'
+          }
+        };
+      }
+    }
+
+    // 5. Update event status to cancelled, so no tickets are sold while the refunds run
+    const cancelResponse = await this.updateEvent(id, {
       status: 'cancelled',
       // Could add cancellation reason to a notes field
+    }, existingEvent.updatedAt);
+    if (!cancelResponse.success || !refund) {
+      return cancelResponse;
+    }
+
+    // 6. Refund every ticket that was sold. If that fails the event goes back on
+    //    sale, so it is not left cancelled with tickets still paid for
+    const refundResponse = await this.refundTickets(id, {
+      ...refund,
+      reason: reason || 'Event cancelled'
     });
+    if (!refundResponse.success) {
+      await this.updateEvent(id, { status: existingEvent.status }, cancelResponse.data.updatedAt);
+      return refundResponse as unknown as ApiResponse<Event>;
+    }
+
+    return this.getEventById(id);
   }
 
   /**
@@ -339,9 +524,15 @@ export class EventsService {
   }
 
   /**
-   * Sell tickets for an event
+   * Sell tickets for an event, optionally from a specific ticket tier.
+   * The sale is committed with a conditional update on the ticket counters, so
+   * two concurrent purchases of the last seats cannot both succeed.
    */
-  async sellTickets(eventId: string, quantity: number): Promise<ApiResponse<Event>> {
+  async sellTickets(
+    eventId: string,
+    quantity: number,
+    tierType: TicketTierType = 'general'
+  ): Promise<ApiResponse<Event>> {
     // 1. Validate inputs
     const idValidation = validateParams(EventIdSchema, { id: eventId });
     if (!idValidation.success) {
@@ -366,23 +557,180 @@ export class EventsService {
       };
     }
 
-    // 2. Check if tickets can be sold
-    const existingEventResponse = await this.getEventById(eventId);
-    if (!existingEventResponse.success) {
-      return existingEventResponse;
+    // 2. Return seats from lapsed holds before checking availability
+    await this.releaseExpiredHolds(eventId);
+
+    // 3. Reserve and commit the sale
+    return this.updateTicketCounters(eventId, `/api/events/${eventId}/tickets`, (event) => {
+      const availability = this.checkTicketAvailability(event, quantity, tierType, `/api/events/${eventId}/tickets`);
+      if (availability) {
+        return availability;
+      }
+
+      return {
+        ticketsSold: event.ticketsSold + quantity,
+        ticketsHeld: event.ticketsHeld || 0,
+        ticketTiers: event.ticketTiers?.map(tier =>
+          tier.type === tierType ? { ...tier, sold: tier.sold + quantity } : tier
+        )
+      };
+    });
+  }
+
+  /**
+   * Get the active ticket holds for an event
+   */
+  async getTicketHolds(eventId: string): Promise<ApiResponse<TicketHold[]>> {
+    // 1. Validate ID
+    const validationResult = validateParams(EventIdSchema, { id: eventId });
+    if (!validationResult.success) {
+      return validationResult.error;
     }
 
-    const existingEvent = existingEventResponse.data;
-    const businessRuleCheck = validateEventBusinessRules.canSellTickets(existingEvent, quantity);
+    // 2. Release lapsed holds so they are not reported as active
+    await this.releaseExpiredHolds(eventId);
+
+    // 3. Execute query
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'ticket_holds',
+        rateLimitKey: 'ticket-holds:read',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('ticket_holds', {
+          filters: { event_id: eventId, status: 'active' },
+          orderBy: { column: 'expires_at', ascending: true }
+        });
+      },
+      'read'
+    );
+
+    if (response.success) {
+      return {
+        ...response,
+        data: (response.data as Record<string, unknown>[]).map(hold => this.transformTicketHoldFromDb(hold))
+      };
+    }
+    return response as ApiResponse<TicketHold[]>;
+  }
+
+  /**
+   * Hold seats for a customer while they pay. The seats count against
+   * capacity until the hold is converted, released or expires.
+   */
+  async createTicketHold(holdData: CreateTicketHoldRequest): Promise<ApiResponse<TicketHold>> {
+    // 1. Validate input data
+    const validationResult = validateParams(CreateTicketHoldSchema, holdData);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { eventId, quantity, tierType = 'general', ttlMinutes = 15, customerName, customerEmail } = validationResult.data;
+    const instance = `/api/events/${eventId}/holds`;
+
+    // 2. Return seats from lapsed holds before checking availability
+    await this.releaseExpiredHolds(eventId);
+
+    // 3. Reserve the seats on the event counters
+    const reserveResponse = await this.updateTicketCounters(eventId, instance, (event) => {
+      const availability = this.checkTicketAvailability(event, quantity, tierType, instance);
+      if (availability) {
+        return availability;
+      }
+
+      return {
+        ticketsSold: event.ticketsSold,
+        ticketsHeld: (event.ticketsHeld || 0) + quantity,
+        ticketTiers: event.ticketTiers?.map(tier =>
+          tier.type === tierType ? { ...tier, held: (tier.held || 0) + quantity } : tier
+        )
+      };
+    });
+    if (!reserveResponse.success) {
+      return reserveResponse as unknown as ApiResponse<TicketHold>;
+    }
+
+    // 4. Record the hold
+    const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000).toISOString();
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'ticket_holds',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'ticket-holds:create',
+        enableLogging: true,
+      },
+      async () => {
+        const dbData = this.adapter.toSnakeCase({
+          eventId,
+          quantity,
+          tierType,
+          status: 'active',
+          expiresAt,
+          customerName,
+          customerEmail,
+        });
+
+        return this.adapter.buildQuery('ticket_holds')
+          .insert([dbData])
+          .select('*');
+      },
+      'write'
+    );
+
+    if (response.success) {
+      const holdArray = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: this.transformTicketHoldFromDb(holdArray[0] as Record<string, unknown>)
+      };
+    }
+
+    // The hold row could not be written - give the seats back
+    await this.returnHeldSeats(eventId, quantity, tierType);
+    return response as ApiResponse<TicketHold>;
+  }
+
+  /**
+   * Convert a paid hold into issued tickets
+   */
+  async convertTicketHold(
+    holdId: string,
+    purchase: ConvertTicketHoldRequest = {}
+  ): Promise<ApiResponse<{ hold: TicketHold; tickets: Ticket[] }>> {
+    // 1. Validate inputs
+    const idValidation = validateParams(TicketHoldIdSchema, { id: holdId });
+    if (!idValidation.success) {
+      return idValidation.error;
+    }
+
+    const purchaseValidation = validateParams(ConvertTicketHoldSchema, purchase);
+    if (!purchaseValidation.success) {
+      return purchaseValidation.error;
+    }
+
+    const instance = `/api/events/holds/${holdId}/convert`;
+
+    // 2. Check the hold is still live
+    const holdResponse = await this.getTicketHold(holdId);
+    if (!holdResponse.success) {
+      return holdResponse as unknown as ApiResponse<{ hold: TicketHold; tickets: Ticket[] }>;
+    }
+
+    const hold = holdResponse.data;
+    const businessRuleCheck = validateEventBusinessRules.canConvertHold(hold);
     if (!businessRuleCheck.valid) {
+      if (hold.status === 'active') {
+        await this.closeTicketHold(hold, 'expired');
+      }
       return {
         success: false,
         error: {
           type: 'https://docs.trainstation-dashboard.com/errors/business-rule-violation',
-          title: 'Cannot Sell Tickets',
+          title: 'Cannot Convert Hold',
           status: 400,
-          detail: businessRuleCheck.reason || 'Tickets cannot be sold for this event',
-          instance: `/api/events/${eventId}/tickets`,
+          detail: businessRuleCheck.reason || 'Hold cannot be converted',
+          instance,
           timestamp: new Date().toISOString()
         },
         meta: {
@@ -392,31 +740,1304 @@ export class EventsService {
       };
     }
 
-    // 3. Update tickets sold
-    const newTicketsSold = existingEvent.ticketsSold + quantity;
-    return this.updateEvent(eventId, {
-      ticketsSold: newTicketsSold
-    });
+    // 3. Claim the hold so it cannot be converted or released twice. Every later
+    // step that fails puts the counters and the hold back as they were
+    const claimResponse = await this.claimTicketHold(hold, 'converted', purchaseValidation.data.paymentReference);
+    if (!claimResponse.success) {
+      return claimResponse as unknown as ApiResponse<{ hold: TicketHold; tickets: Ticket[] }>;
+    }
+
+    // 4. Move the seats from held to sold
+    const eventResponse = await this.updateTicketCounters(hold.eventId, instance, (event) => ({
+      ticketsSold: event.ticketsSold + hold.quantity,
+      ticketsHeld: Math.max((event.ticketsHeld || 0) - hold.quantity, 0),
+      ticketTiers: event.ticketTiers?.map(tier =>
+        tier.type === hold.tierType
+          ? { ...tier, sold: tier.sold + hold.quantity, held: Math.max((tier.held || 0) - hold.quantity, 0) }
+          : tier
+      )
+    }));
+    if (!eventResponse.success) {
+      // The seats are still held - reopen the hold so it can be converted again or expire
+      await this.reopenTicketHold(hold, 'converted');
+      return eventResponse as unknown as ApiResponse<{ hold: TicketHold; tickets: Ticket[] }>;
+    }
+
+    // 5. Book the sale when an account is given, so the tickets carry the income
+    //    they were sold under and a refund can reverse it with its tax
+    const event = eventResponse.data;
+    const tier = event.ticketTiers?.find(t => t.type === hold.tierType);
+    const price = tier ? tier.price : event.ticketPrice;
+    const { accountId, categoryId } = purchaseValidation.data;
+    let sale: FinancialTransaction | undefined;
+    if (accountId && categoryId) {
+      const saleResponse = await this.postTicketTransaction(
+        'income',
+        this.roundCurrency(price * hold.quantity),
+        { accountId, categoryId },
+        {
+          eventId: hold.eventId,
+          description: `Sale of ${hold.quantity} ticket(s) for ${event.title}`,
+          reference: purchaseValidation.data.paymentReference
+        }
+      );
+      if (!saleResponse.success) {
+        await this.undoHoldConversion(hold, instance);
+        return saleResponse as unknown as ApiResponse<{ hold: TicketHold; tickets: Ticket[] }>;
+      }
+      sale = saleResponse.data;
+    }
+
+    // 6. Issue the tickets
+    const ticketsResponse = await this.issueTickets(hold.eventId, hold.quantity, {
+      holdId: hold.id,
+      purchaserName: purchaseValidation.data.purchaserName || hold.customerName || 'Box Office',
+      purchaserEmail: purchaseValidation.data.purchaserEmail || hold.customerEmail || '',
+      price,
+      type: hold.tierType,
+    }, sale);
+
+    if (ticketsResponse.success) {
+      return {
+        ...ticketsResponse,
+        data: {
+          hold: claimResponse.data,
+          tickets: ticketsResponse.data
+        }
+      };
+    }
+
+    // No tickets were issued - remove the sale, move the seats back to held and reopen the hold
+    if (sale) {
+      await this.removeTicketSale(sale.id);
+    }
+    await this.undoHoldConversion(hold, instance);
+    return ticketsResponse as unknown as ApiResponse<{ hold: TicketHold; tickets: Ticket[] }>;
   }
 
   /**
-   * Transform database event to API format
+   * Release a hold early (customer walked away) and return its seats
    */
-  private transformEventFromDb(dbEvent: Record<string, unknown>): Event {
-    // Convert snake_case to camelCase and structure data
-    const camelCaseEvent = this.adapter.toCamelCase(dbEvent);
-    
+  async releaseTicketHold(holdId: string): Promise<ApiResponse<TicketHold>> {
+    // 1. Validate ID
+    const validationResult = validateParams(TicketHoldIdSchema, { id: holdId });
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    // 2. Load the hold
+    const holdResponse = await this.getTicketHold(holdId);
+    if (!holdResponse.success) {
+      return holdResponse;
+    }
+
+    const hold = holdResponse.data;
+    if (hold.status !== 'active') {
+      return {
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/business-rule-violation',
+          title: 'Cannot Release Hold',
+          status: 400,
+          detail: `Hold has already been ${hold.status}`,
+          instance: `/api/events/holds/${holdId}/release`,
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
+      };
+    }
+
+    // 3. Close the hold and return the seats
+    return this.closeTicketHold(hold, 'released');
+  }
+
+  /**
+   * Expire every active hold past its TTL and return the seats to sale.
+   * Runs before each sale/hold and can be scheduled for all events.
+   */
+  async releaseExpiredHolds(eventId?: string): Promise<ApiResponse<{ released: number }>> {
+    // 1. Find active holds
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'ticket_holds',
+        rateLimitKey: 'ticket-holds:read',
+        enableLogging: false,
+      },
+      async () => {
+        return this.adapter.buildQuery('ticket_holds', {
+          filters: { event_id: eventId, status: 'active' }
+        });
+      },
+      'read'
+    );
+
+    if (!response.success) {
+      return response as ApiResponse<{ released: number }>;
+    }
+
+    // 2. Close the ones that have lapsed
+    const now = new Date();
+    const expiredHolds = (response.data as Record<string, unknown>[])
+      .map(hold => this.transformTicketHoldFromDb(hold))
+      .filter(hold => new Date(hold.expiresAt) <= now);
+
+    let released = 0;
+    for (const hold of expiredHolds) {
+      const closeResponse = await this.closeTicketHold(hold, 'expired');
+      if (closeResponse.success) {
+        released++;
+      }
+    }
+
     return {
-      id: camelCaseEvent.id as string,
-      title: camelCaseEvent.title as string,
-      description: camelCaseEvent.description as string || undefined,
-      date: camelCaseEvent.date as string,
-      startTime: camelCaseEvent.startTime as string,
-      endTime: camelCaseEvent.endTime as string,
-      artistIds: camelCaseEvent.artistIds as string[] || [],
-      ticketsSold: camelCaseEvent.ticketsSold as number || 0,
-      totalCapacity: camelCaseEvent.totalCapacity as number,
-      ticketPrice: camelCaseEvent.ticketPrice as number,
+      ...response,
+      data: { released }
+    };
+  }
+
+  /**
+   * Guest list for door scanners to cache. Only tickets with a signed code
+   * are listed, since unsigned tickets cannot be scanned.
+   */
+  async getGuestList(eventId: string): Promise<ApiResponse<GuestListEntry[]>> {
+    // 1. Validate ID
+    const validationResult = validateParams(EventIdSchema, { id: eventId });
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    // 2. Execute query
+    const response = await this.getEventTickets(eventId);
+    if (response.success) {
+      return {
+        ...response,
+        data: response.data
+          .filter(ticket => !!ticket.code)
+          .map(ticket => ({
+            ticketId: ticket.id,
+            code: ticket.code as string,
+            purchaserName: ticket.purchaserName,
+            type: ticket.type,
+            status: ticket.status,
+            scannedAt: ticket.scannedAt,
+          }))
+      };
+    }
+    return response as unknown as ApiResponse<GuestListEntry[]>;
+  }
+
+  /**
+   * Sign codes for any of an event's tickets that were issued before the
+   * database signed them. Rewriting event_id makes the signing trigger run.
+   */
+  async issueTicketCodes(eventId: string): Promise<ApiResponse<{ issued: number }>> {
+    // 1. Validate ID
+    const validationResult = validateParams(EventIdSchema, { id: eventId });
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    // 2. Re-sign the unsigned tickets
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'tickets',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'tickets:update',
+        enableLogging: false,
+      },
+      async () => {
+        return this.adapter.buildQuery('tickets')
+          .update({ event_id: eventId })
+          .eq('event_id', eventId)
+          .is('code', null)
+          .select('id');
+      },
+      'write'
+    );
+
+    if (response.success) {
+      return {
+        ...response,
+        data: { issued: Array.isArray(response.data) ? response.data.length : 0 }
+      };
+    }
+    return response as ApiResponse<{ issued: number }>;
+  }
+
+  /**
+   * Validate a scanned code and admit the ticket. A ticket is only admitted
+   * once; later scans of the same code are reported as duplicates.
+   */
+  async scanTicket(scan: TicketScanRequest): Promise<ApiResponse<TicketScanResult>> {
+    // 1. Validate input data
+    const validationResult = validateParams(TicketScanSchema, scan);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { code, eventId, deviceId } = validationResult.data;
+    const scannedAt = validationResult.data.scannedAt || new Date().toISOString();
+
+    // 2. Check the code is authentic and for this event before touching the database
+    const parsed = this.ticketSigningSecret
+      ? await verifyTicketCode(code, this.ticketSigningSecret)
+      : parseTicketCode(code);
+    if (!parsed) {
+      return this.recordTicketScan({ code, result: 'invalid', reason: 'Code is not a valid ticket code', scannedAt }, deviceId);
+    }
+    if (parsed.eventId !== eventId) {
+      return this.recordTicketScan({ code, result: 'invalid', reason: 'Ticket is for a different event', scannedAt }, deviceId);
+    }
+
+    // 3. Look up the ticket the code was issued for
+    const ticketResponse = await this.adapter.executeQuery(
+      {
+        tableName: 'tickets',
+        rateLimitKey: 'tickets:read',
+        enableLogging: false,
+      },
+      async () => {
+        return this.adapter.buildQuery('tickets', {
+          filters: { id: parsed.ticketId, event_id: eventId, code }
+        });
+      },
+      'read'
+    );
+
+    if (!ticketResponse.success) {
+      return ticketResponse as unknown as ApiResponse<TicketScanResult>;
+    }
+
+    const ticketRows = ticketResponse.data as Record<string, unknown>[];
+    if (ticketRows.length === 0) {
+      return this.recordTicketScan({ code, result: 'invalid', reason: 'Ticket not found', scannedAt }, deviceId);
+    }
+
+    const ticket = this.transformTicketFromDb(ticketRows[0]);
+    const details = { code, ticketId: ticket.id, purchaserName: ticket.purchaserName, type: ticket.type, scannedAt };
+
+    if (ticket.status === 'refunded' || ticket.status === 'cancelled') {
+      return this.recordTicketScan({ ...details, result: 'invalid', reason: `Ticket has been ${ticket.status}` }, deviceId);
+    }
+
+    if (ticket.status === 'used') {
+      return this.recordTicketScan({
+        ...details,
+        result: 'duplicate',
+        reason: 'Ticket has already been scanned',
+        firstScannedAt: ticket.scannedAt
+      }, deviceId);
+    }
+
+    // 4. Admit - conditional on the ticket still being valid so two doors
+    //    scanning the same code at once cannot both admit it
+    const admitResponse = await this.adapter.executeQuery(
+      {
+        tableName: 'tickets',
+        rateLimitKey: 'tickets:scan',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('tickets')
+          .update({ status: 'used', scanned_at: scannedAt })
+          .eq('id', ticket.id)
+          .eq('status', 'valid')
+          .select('id');
+      },
+      'write'
+    );
+
+    if (!admitResponse.success) {
+      return admitResponse as unknown as ApiResponse<TicketScanResult>;
+    }
+
+    const admitted = Array.isArray(admitResponse.data) && admitResponse.data.length > 0;
+    return this.recordTicketScan(
+      admitted
+        ? { ...details, result: 'admitted' }
+        : { ...details, result: 'duplicate', reason: 'Ticket has already been scanned' },
+      deviceId
+    );
+  }
+
+  /**
+   * Replay scans captured while a scanner was offline, oldest first, so the
+   * earliest scan of a ticket is the one admitted
+   */
+  async syncTicketScans(scans: TicketScanRequest[]): Promise<ApiResponse<TicketScanResult[]>> {
+    // 1. Validate input data
+    const validationResult = validateParams(SyncTicketScansSchema, { scans });
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    // 2. Replay in scan order
+    const ordered = [...validationResult.data.scans].sort((a, b) =>
+      new Date(a.scannedAt || 0).getTime() - new Date(b.scannedAt || 0).getTime()
+    );
+
+    const results: TicketScanResult[] = [];
+    let lastResponse: ApiResponse<TicketScanResult> | undefined;
+    for (const scan of ordered) {
+      lastResponse = await this.scanTicket(scan);
+      if (!lastResponse.success) {
+        return lastResponse as unknown as ApiResponse<TicketScanResult[]>;
+      }
+      results.push(lastResponse.data);
+    }
+
+    return {
+      ...lastResponse,
+      data: results
+    } as ApiResponse<TicketScanResult[]>;
+  }
+
+  /**
+   * Refund tickets for an event - the listed tickets, or every valid ticket
+   * when none are listed (e.g. the event was cancelled). Seats are returned to
+   * sale and the refund is posted to the finance ledger.
+   */
+  async refundTickets(eventId: string, request: RefundTicketsRequest): Promise<ApiResponse<TicketRefundResult>> {
+    // 1. Validate inputs
+    const idValidation = validateParams(EventIdSchema, { id: eventId });
+    if (!idValidation.success) {
+      return idValidation.error;
+    }
+
+    const validationResult = validateParams(RefundTicketsSchema, request);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { ticketIds, reason, ...posting } = validationResult.data;
+    const instance = `/api/events/${eventId}/refunds`;
+
+    // 2. Work out which tickets to refund
+    const ticketsResponse = await this.getEventTickets(eventId);
+    if (!ticketsResponse.success) {
+      return ticketsResponse as unknown as ApiResponse<TicketRefundResult>;
+    }
+
+    let toRefund = ticketsResponse.data.filter(ticket => ticket.status === 'valid');
+    if (ticketIds) {
+      for (const ticketId of ticketIds) {
+        const ticket = ticketsResponse.data.find(t => t.id === ticketId);
+        const businessRuleCheck = ticket
+          ? validateEventBusinessRules.canRefundTicket(ticket)
+          : { valid: false, reason: `Ticket ${ticketId} was not issued for this event` };
+        if (!businessRuleCheck.valid) {
+          return {
+            success: false,
+            error: {
+              type: 'https://docs.trainstation-dashboard.com/errors/business-rule-violation',
+              title: 'Cannot Refund Ticket',
+              status: ticket ? 400 : 404,
+              detail: businessRuleCheck.reason || 'Ticket cannot be refunded',
+              instance,
+              timestamp: new Date().toISOString()
+            },
+            meta: {
+              requestId: crypto.randomUUID(),
+              source: 'validation'
+            }
+          };
+        }
+      }
+      toRefund = toRefund.filter(ticket => ticketIds.includes(ticket.id));
+    }
+
+    if (toRefund.length === 0) {
+      return {
+        ...ticketsResponse,
+        data: { tickets: [], refundedAmount: 0 }
+      };
+    }
+
+    // 3. Mark the tickets refunded - only those still valid, so a ticket
+    //    refunded concurrently is not paid back twice
+    const refundedResponse = await this.closeTickets(toRefund.map(ticket => ticket.id), 'refunded');
+    if (!refundedResponse.success) {
+      return refundedResponse as unknown as ApiResponse<TicketRefundResult>;
+    }
+
+    const refunded = refundedResponse.data;
+    if (refunded.length === 0) {
+      return {
+        ...refundedResponse,
+        data: { tickets: [], refundedAmount: 0 }
+      };
+    }
+
+    // 4. Put the seats back on sale
+    const eventResponse = await this.returnSoldSeats(eventId, refunded, instance);
+    if (!eventResponse.success) {
+      return eventResponse as unknown as ApiResponse<TicketRefundResult>;
+    }
+
+    // 5. Reverse the booked sales with their tax. A ticket whose sale was never
+    //    booked was never recorded as revenue, so it has nothing to reverse
+    const refundedAmount = this.roundCurrency(refunded.reduce((sum, ticket) => sum + ticket.price, 0));
+    const booked = refunded.filter(ticket => ticket.saleTransactionId);
+    let transaction: FinancialTransaction | undefined;
+    if (booked.length > 0) {
+      const transactionResponse = await this.postTicketTransaction(
+        'refund',
+        this.roundCurrency(booked.reduce((sum, ticket) => sum + ticket.price, 0)),
+        posting,
+        {
+          eventId,
+          description: `Refund of ${booked.length} ticket(s) for ${eventResponse.data.title}`,
+          notes: reason,
+          taxAmount: this.roundCurrency(booked.reduce((sum, ticket) => sum + (ticket.taxAmount || 0), 0))
+        }
+      );
+      if (!transactionResponse.success) {
+        return transactionResponse as unknown as ApiResponse<TicketRefundResult>;
+      }
+      transaction = transactionResponse.data;
+    }
+
+    return {
+      ...refundedResponse,
+      data: {
+        tickets: refunded,
+        refundedAmount,
+        transaction
+      }
+    };
+  }
+
+  /**
+   * Exchange a ticket for one to another event. The original is cancelled,
+   * its seat returned, and the price difference charged or refunded.
+   */
+  async exchangeTicket(ticketId: string, request: ExchangeTicketRequest): Promise<ApiResponse<TicketExchangeResult>> {
+    // 1. Validate inputs
+    const idValidation = validateParams(TicketIdSchema, { id: ticketId });
+    if (!idValidation.success) {
+      return idValidation.error;
+    }
+
+    const validationResult = validateParams(ExchangeTicketSchema, request);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { toEventId, tierType = 'general', paymentReference, ...posting } = validationResult.data;
+    const instance = `/api/events/tickets/${ticketId}/exchange`;
+
+    // 2. Load the ticket and the event it is moving to
+    const ticketResponse = await this.getTicket(ticketId);
+    if (!ticketResponse.success) {
+      return ticketResponse as unknown as ApiResponse<TicketExchangeResult>;
+    }
+
+    const ticket = ticketResponse.data;
+    const toEventResponse = await this.getTicketCounters(toEventId);
+    if (!toEventResponse.success) {
+      return toEventResponse as unknown as ApiResponse<TicketExchangeResult>;
+    }
+
+    const businessRuleCheck = validateEventBusinessRules.canExchangeTicket(ticket, toEventResponse.data);
+    if (!businessRuleCheck.valid) {
+      return {
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/business-rule-violation',
+          title: 'Cannot Exchange Ticket',
+          status: 400,
+          detail: businessRuleCheck.reason || 'Ticket cannot be exchanged',
+          instance,
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
+      };
+    }
+
+    // 3. Take a seat at the new event
+    await this.releaseExpiredHolds(toEventId);
+    const toEventSale = await this.updateTicketCounters(toEventId, instance, (event) => {
+      const availability = this.checkTicketAvailability(event, 1, tierType, instance);
+      if (availability) {
+        return availability;
+      }
+
+      return {
+        ticketsSold: event.ticketsSold + 1,
+        ticketsHeld: event.ticketsHeld || 0,
+        ticketTiers: event.ticketTiers?.map(tier =>
+          tier.type === tierType ? { ...tier, sold: tier.sold + 1 } : tier
+        )
+      };
+    });
+    if (!toEventSale.success) {
+      return toEventSale as unknown as ApiResponse<TicketExchangeResult>;
+    }
+
+    // 4. Issue the new ticket under the original's sale. When the customer is refunded
+    //    part of the price, that part of the tax goes back with it.
+    const toEvent = toEventSale.data;
+    const tier = toEvent.ticketTiers?.find(t => t.type === tierType);
+    const newPrice = tier ? tier.price : toEvent.ticketPrice;
+    const priceDifference = this.roundCurrency(newPrice - ticket.price);
+    const refundedTax = ticket.taxAmount && priceDifference < 0
+      ? this.roundCurrency(ticket.taxAmount * -priceDifference / ticket.price)
+      : 0;
+
+    const issuedResponse = await this.issueTickets(toEventId, 1, {
+      purchaserName: ticket.purchaserName,
+      purchaserEmail: ticket.purchaserEmail,
+      price: newPrice,
+      type: tierType,
+    }, ticket.saleTransactionId
+      ? { id: ticket.saleTransactionId, taxAmount: this.roundCurrency((ticket.taxAmount || 0) - refundedTax) }
+      : undefined);
+    if (!issuedResponse.success) {
+      await this.returnSoldSeats(toEventId, [{ ...ticket, type: tierType }], instance);
+      return issuedResponse as unknown as ApiResponse<TicketExchangeResult>;
+    }
+
+    // 5. Cancel the original so it cannot be used, refunded or exchanged twice. If it
+    //    was closed in the meantime, the new ticket and its seat are given back.
+    const newTicket = issuedResponse.data[0];
+    const closedResponse = await this.closeTickets([ticket.id], 'cancelled');
+    if (!closedResponse.success || closedResponse.data.length === 0) {
+      await this.closeTickets([newTicket.id], 'cancelled');
+      await this.returnSoldSeats(toEventId, [newTicket], instance);
+
+      if (!closedResponse.success) {
+        return closedResponse as unknown as ApiResponse<TicketExchangeResult>;
+      }
+      return {
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/conflict',
+          title: 'Ticket Already Closed',
+          status: 409,
+          detail: 'Ticket was used, refunded or exchanged while the exchange was in progress',
+          instance,
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
+      };
+    }
+
+    // 6. Return the original seat
+    const fromEventResponse = await this.returnSoldSeats(ticket.eventId, [ticket], instance);
+    if (!fromEventResponse.success) {
+      return fromEventResponse as unknown as ApiResponse<TicketExchangeResult>;
+    }
+
+    // 7. Settle the price difference through the ledger. A refund only reverses revenue
+    //    that was booked; a top-up is new revenue and its tax stays with the new ticket.
+    let transaction: FinancialTransaction | undefined;
+    if (priceDifference > 0 || (priceDifference < 0 && ticket.saleTransactionId)) {
+      const transactionResponse = await this.postTicketTransaction(
+        priceDifference > 0 ? 'income' : 'refund',
+        Math.abs(priceDifference),
+        posting,
+        {
+          eventId: toEventId,
+          description: `Ticket exchange to ${toEvent.title}`,
+          reference: paymentReference,
+          taxAmount: priceDifference < 0 ? refundedTax : undefined
+        }
+      );
+      if (!transactionResponse.success) {
+        return transactionResponse as unknown as ApiResponse<TicketExchangeResult>;
+      }
+      transaction = transactionResponse.data;
+
+      if (priceDifference > 0 && newTicket.saleTransactionId && transaction.taxAmount) {
+        const taxedResponse = await this.setTicketTax(newTicket.id, this.roundCurrency((newTicket.taxAmount || 0) + transaction.taxAmount));
+        if (!taxedResponse.success) {
+          return taxedResponse as unknown as ApiResponse<TicketExchangeResult>;
+        }
+      }
+    }
+
+    return {
+      ...issuedResponse,
+      data: {
+        ticket: closedResponse.data[0],
+        newTicket,
+        priceDifference,
+        transaction
+      }
+    };
+  }
+
+  /**
+   * Read an event's status and ticket counters without related rows
+   */
+  private async getTicketCounters(eventId: string): Promise<ApiResponse<Event>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'events',
+        rateLimitKey: 'events:read',
+        enableLogging: false,
+      },
+      async () => {
+        return this.adapter.buildQuery('events', {
+          select: '*',
+          filters: { id: eventId }
+        }).single();
+      },
+      'read'
+    );
+
+    if (response.success) {
+      return {
+        ...response,
+        data: this.transformEventFromDb(response.data as Record<string, unknown>)
+      };
+    }
+    return response as ApiResponse<Event>;
+  }
+
+  /**
+   * Apply a change to an event's sold/held counters with a conditional update.
+   * The write only lands if ticket_version is unchanged since the counters were
+   * read, so no other sale, hold or tier edit is overwritten; otherwise the change
+   * is recomputed against the fresh counters. Counter writes bump ticket_version
+   * rather than updated_at, so selling tickets does not make an open edit stale.
+   */
+  private async updateTicketCounters(
+    eventId: string,
+    instance: string,
+    change: (event: Event) => ApiResponse<Event> | { ticketsSold: number; ticketsHeld: number; ticketTiers?: TicketTier[] }
+  ): Promise<ApiResponse<Event>> {
+    for (let attempt = 0; attempt < MAX_TICKET_SALE_ATTEMPTS; attempt++) {
+      // 1. Read the current counters
+      const currentResponse = await this.getTicketCounters(eventId);
+      if (!currentResponse.success) {
+        return currentResponse;
+      }
+
+      const existingEvent = currentResponse.data;
+      const counters = change(existingEvent);
+      if (!('ticketsSold' in counters)) {
+        return counters;
+      }
+
+      // 2. Commit only if no other sale or hold landed since the read
+      const response = await this.adapter.executeQuery(
+        {
+          tableName: 'events',
+          requiredRole: UserRole.MANAGER,
+          rateLimitKey: 'events:sell-tickets',
+          enableLogging: true,
+        },
+        async () => {
+          const dbUpdates = this.adapter.toSnakeCase({
+            ticketsSold: counters.ticketsSold,
+            ticketsHeld: counters.ticketsHeld,
+            ...(counters.ticketTiers && counters.ticketTiers.length > 0 ? { ticketTiers: counters.ticketTiers } : {}),
+            ticketVersion: existingEvent.ticketVersion + 1
+          });
+
+          return this.adapter.buildQuery('events')
+            .update(dbUpdates)
+            .eq('id', eventId)
+            .eq('ticket_version', existingEvent.ticketVersion)
+            .select('*');
+        },
+        'write'
+      );
+
+      if (!response.success) {
+        return response as ApiResponse<Event>;
+      }
+
+      const eventArray = Array.isArray(response.data) ? response.data : [response.data];
+      if (eventArray.length > 0 && eventArray[0]) {
+        return {
+          ...response,
+          data: this.transformEventFromDb(eventArray[0] as Record<string, unknown>)
+        };
+      }
+
+      // Another sale committed first - retry against the fresh counters
+    }
+
+    return {
+      success: false,
+      error: {
+        type: 'https://docs.trainstation-dashboard.com/errors/conflict',
+        title: 'Ticket Sale Conflict',
+        status: 409,
+        detail: 'Tickets are selling too quickly to complete this purchase, please try again',
+        instance,
+        timestamp: new Date().toISOString()
+      },
+      meta: {
+        requestId: crypto.randomUUID(),
+        source: 'validation'
+      }
+    };
+  }
+
+  /**
+   * Build the sold-out / unavailable error for a sale or hold, if any
+   */
+  private checkTicketAvailability(
+    event: Event,
+    quantity: number,
+    tierType: TicketTierType,
+    instance: string
+  ): ApiResponse<Event> | null {
+    const businessRuleCheck = validateEventBusinessRules.canSellTickets(event, quantity, tierType);
+    if (businessRuleCheck.valid) {
+      return null;
+    }
+
+    const soldOut = validateEventBusinessRules.getAvailableTickets(event, tierType) === 0;
+    return {
+      success: false,
+      error: {
+        type: 'https://docs.trainstation-dashboard.com/errors/business-rule-violation',
+        title: soldOut ? 'Sold Out' : 'Cannot Sell Tickets',
+        status: 400,
+        detail: businessRuleCheck.reason || 'Tickets cannot be sold for this event',
+        instance,
+        timestamp: new Date().toISOString()
+      },
+      meta: {
+        requestId: crypto.randomUUID(),
+        source: 'validation'
+      }
+    };
+  }
+
+  /**
+   * Load a single ticket hold
+   */
+  private async getTicketHold(holdId: string): Promise<ApiResponse<TicketHold>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'ticket_holds',
+        rateLimitKey: 'ticket-holds:read',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('ticket_holds', {
+          filters: { id: holdId }
+        }).single();
+      },
+      'read'
+    );
+
+    if (response.success) {
+      return {
+        ...response,
+        data: this.transformTicketHoldFromDb(response.data as Record<string, unknown>)
+      };
+    }
+    return response as ApiResponse<TicketHold>;
+  }
+
+  /**
+   * Move an active hold to a final status. The update is conditional on the
+   * hold still being active, so only one caller can claim it.
+   */
+  private async claimTicketHold(
+    hold: TicketHold,
+    status: 'converted' | 'released' | 'expired',
+    paymentReference?: string
+  ): Promise<ApiResponse<TicketHold>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'ticket_holds',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'ticket-holds:update',
+        enableLogging: true,
+      },
+      async () => {
+        const dbUpdates = this.adapter.toSnakeCase({
+          status,
+          ...(paymentReference ? { paymentReference } : {}),
+          updatedAt: new Date().toISOString()
+        });
+
+        return this.adapter.buildQuery('ticket_holds')
+          .update(dbUpdates)
+          .eq('id', hold.id)
+          .eq('status', 'active')
+          .select('*');
+      },
+      'write'
+    );
+
+    if (!response.success) {
+      return response as ApiResponse<TicketHold>;
+    }
+
+    const holdArray = Array.isArray(response.data) ? response.data : [response.data];
+    if (holdArray.length === 0 || !holdArray[0]) {
+      return {
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/conflict',
+          title: 'Hold Already Closed',
+          status: 409,
+          detail: 'This hold was converted or released by another request',
+          instance: `/api/events/holds/${hold.id}`,
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
+      };
+    }
+
+    return {
+      ...response,
+      data: this.transformTicketHoldFromDb(holdArray[0] as Record<string, unknown>)
+    };
+  }
+
+  /**
+   * Put a claimed hold back to active after the seat move that followed the
+   * claim failed, so the hold is not left closed with its seats still held
+   */
+  private async reopenTicketHold(hold: TicketHold, claimedStatus: 'converted' | 'released' | 'expired'): Promise<void> {
+    await this.adapter.executeQuery(
+      {
+        tableName: 'ticket_holds',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'ticket-holds:update',
+        enableLogging: true,
+      },
+      async () => {
+        const dbUpdates = this.adapter.toSnakeCase({
+          status: 'active',
+          paymentReference: hold.paymentReference ?? null,
+          updatedAt: new Date().toISOString()
+        });
+
+        return this.adapter.buildQuery('ticket_holds')
+          .update(dbUpdates)
+          .eq('id', hold.id)
+          .eq('status', claimedStatus)
+          .select('*');
+      },
+      'write'
+    );
+  }
+
+  /**
+   * Move a converted hold's seats back from sold to held and reopen the hold
+   */
+  private async undoHoldConversion(hold: TicketHold, instance: string): Promise<void> {
+    const restoreResponse = await this.updateTicketCounters(hold.eventId, instance, (current) => ({
+      ticketsSold: Math.max(current.ticketsSold - hold.quantity, 0),
+      ticketsHeld: (current.ticketsHeld || 0) + hold.quantity,
+      ticketTiers: current.ticketTiers?.map(tier =>
+        tier.type === hold.tierType
+          ? { ...tier, sold: Math.max(tier.sold - hold.quantity, 0), held: (tier.held || 0) + hold.quantity }
+          : tier
+      )
+    }));
+    if (restoreResponse.success) {
+      await this.reopenTicketHold(hold, 'converted');
+    }
+  }
+
+  /**
+   * Release or expire a hold and give its seats back to the event
+   */
+  private async closeTicketHold(hold: TicketHold, status: 'released' | 'expired'): Promise<ApiResponse<TicketHold>> {
+    const claimResponse = await this.claimTicketHold(hold, status);
+    if (!claimResponse.success) {
+      return claimResponse;
+    }
+
+    const eventResponse = await this.returnHeldSeats(hold.eventId, hold.quantity, hold.tierType);
+    if (!eventResponse.success) {
+      // The seats are still held - reopen the hold so a later release or expiry returns them
+      await this.reopenTicketHold(hold, status);
+      return eventResponse as unknown as ApiResponse<TicketHold>;
+    }
+    return claimResponse;
+  }
+
+  /**
+   * Decrement the held counters for seats that are no longer reserved
+   */
+  private async returnHeldSeats(eventId: string, quantity: number, tierType: TicketTierType): Promise<ApiResponse<Event>> {
+    return this.updateTicketCounters(eventId, `/api/events/${eventId}/holds`, (event) => ({
+      ticketsSold: event.ticketsSold,
+      ticketsHeld: Math.max((event.ticketsHeld || 0) - quantity, 0),
+      ticketTiers: event.ticketTiers?.map(tier =>
+        tier.type === tierType ? { ...tier, held: Math.max((tier.held || 0) - quantity, 0) } : tier
+      )
+    }));
+  }
+
+  /**
+   * Decrement the sold counters for tickets that no longer hold a seat
+   */
+  private async returnSoldSeats(eventId: string, tickets: Ticket[], instance: string): Promise<ApiResponse<Event>> {
+    const returnedByTier = new Map<TicketTierType, number>();
+    tickets.forEach(ticket => returnedByTier.set(ticket.type, (returnedByTier.get(ticket.type) || 0) + 1));
+
+    return this.updateTicketCounters(eventId, instance, (event) => ({
+      ticketsSold: Math.max(event.ticketsSold - tickets.length, 0),
+      ticketsHeld: event.ticketsHeld || 0,
+      ticketTiers: event.ticketTiers?.map(tier => ({
+        ...tier,
+        sold: Math.max(tier.sold - (returnedByTier.get(tier.type) || 0), 0)
+      }))
+    }));
+  }
+
+  /**
+   * Insert tickets for an event. The database signs each ticket's code on insert.
+   */
+  private async issueTickets(
+    eventId: string,
+    quantity: number,
+    details: Pick<Ticket, 'purchaserName' | 'purchaserEmail' | 'price' | 'type' | 'holdId'>,
+    sale?: { id: string; taxAmount?: number }
+  ): Promise<ApiResponse<Ticket[]>> {
+    const purchaseDate = new Date().toISOString();
+    const ticketIds = Array.from({ length: quantity }, () => crypto.randomUUID());
+
+    // Split the sale's tax across the tickets in whole cents, the last taking the remainder
+    const taxPerTicket = sale?.taxAmount ? Math.floor(sale.taxAmount * 100 / quantity) / 100 : 0;
+    const lastTicketTax = sale?.taxAmount ? this.roundCurrency(sale.taxAmount - taxPerTicket * (quantity - 1)) : 0;
+
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'tickets',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'tickets:create',
+        enableLogging: true,
+      },
+      async () => {
+        const dbTickets = ticketIds.map((ticketId, index) => this.adapter.toSnakeCase({
+          id: ticketId,
+          eventId,
+          holdId: details.holdId,
+          purchaseDate,
+          purchaserName: details.purchaserName,
+          purchaserEmail: details.purchaserEmail,
+          price: details.price,
+          type: details.type,
+          status: 'valid',
+          saleTransactionId: sale?.id,
+          taxAmount: sale ? (index === quantity - 1 ? lastTicketTax : taxPerTicket) : undefined,
+        }));
+
+        return this.adapter.buildQuery('tickets')
+          .insert(dbTickets)
+          .select('*');
+      },
+      'write'
+    );
+
+    if (response.success) {
+      return {
+        ...response,
+        data: (response.data as Record<string, unknown>[]).map(ticket => this.transformTicketFromDb(ticket))
+      };
+    }
+    return response as ApiResponse<Ticket[]>;
+  }
+
+  /**
+   * Load a single ticket
+   */
+  private async getTicket(ticketId: string): Promise<ApiResponse<Ticket>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'tickets',
+        rateLimitKey: 'tickets:read',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('tickets', {
+          filters: { id: ticketId }
+        }).single();
+      },
+      'read'
+    );
+
+    if (response.success) {
+      return {
+        ...response,
+        data: this.transformTicketFromDb(response.data as Record<string, unknown>)
+      };
+    }
+    return response as ApiResponse<Ticket>;
+  }
+
+  /**
+   * Close valid tickets. Returns only the tickets this call closed.
+   */
+  private async closeTickets(ticketIds: string[], status: 'refunded' | 'cancelled'): Promise<ApiResponse<Ticket[]>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'tickets',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'tickets:refund',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('tickets')
+          .update({ status })
+          .in('id', ticketIds)
+          .eq('status', 'valid')
+          .select('*');
+      },
+      'write'
+    );
+
+    if (response.success) {
+      return {
+        ...response,
+        data: (response.data as Record<string, unknown>[]).map(ticket => this.transformTicketFromDb(ticket))
+      };
+    }
+    return response as ApiResponse<Ticket[]>;
+  }
+
+  /**
+   * Record the sales tax a ticket carries after an exchange top-up
+   */
+  private async setTicketTax(ticketId: string, taxAmount: number): Promise<ApiResponse<Ticket[]>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'tickets',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'tickets:refund',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('tickets')
+          .update({ tax_amount: taxAmount })
+          .eq('id', ticketId)
+          .select('*');
+      },
+      'write'
+    );
+
+    if (response.success) {
+      return {
+        ...response,
+        data: (response.data as Record<string, unknown>[]).map(ticket => this.transformTicketFromDb(ticket))
+      };
+    }
+    return response as ApiResponse<Ticket[]>;
+  }
+
+  /**
+   * Post a ticket sale, refund or exchange top-up through the finance ledger.
+   * Ticket prices include sales tax; a sale derives it from the category's rate,
+   * a refund reverses the tax the tickets were sold with.
+   */
+  private async postTicketTransaction(
+    type: 'income' | 'refund',
+    amount: number,
+    posting: TicketPosting,
+    details: { eventId: string; description: string; reference?: string; notes?: string; taxAmount?: number }
+  ): Promise<ApiResponse<FinancialTransaction>> {
+    return financeService.createTransaction({
+      type,
+      amount,
+      currency: 'USD',
+      description: details.description,
+      categoryId: posting.categoryId,
+      accountId: posting.accountId,
+      date: new Date().toISOString(),
+      reference: details.reference,
+      notes: details.notes,
+      taxAmount: details.taxAmount,
+      taxInclusive: true,
+      isRecurring: false,
+      tags: ['tickets'],
+      relatedEntityId: details.eventId,
+      relatedEntityType: 'event',
+      isApproved: false
+    }) as Promise<ApiResponse<FinancialTransaction>>;
+  }
+
+  /**
+   * Remove a sale booked for tickets that were never issued. The sale never
+   * happened, so it is deleted outright rather than moved to the trash bin.
+   */
+  private async removeTicketSale(saleId: string): Promise<ApiResponse<unknown>> {
+    return this.adapter.executeQuery(
+      {
+        tableName: 'financial_transactions',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'tickets:create',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('financial_transactions')
+          .delete()
+          .eq('id', saleId);
+      },
+      'write'
+    );
+  }
+
+  /**
+   * Round to whole cents
+   */
+  private roundCurrency(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
+  /**
+   * Load all tickets issued for an event
+   */
+  private async getEventTickets(eventId: string): Promise<ApiResponse<Ticket[]>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'tickets',
+        rateLimitKey: 'tickets:read',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('tickets', {
+          filters: { event_id: eventId },
+          orderBy: { column: 'purchase_date', ascending: true }
+        });
+      },
+      'read'
+    );
+
+    if (response.success) {
+      return {
+        ...response,
+        data: (response.data as Record<string, unknown>[]).map(ticket => this.transformTicketFromDb(ticket))
+      };
+    }
+    return response as ApiResponse<Ticket[]>;
+  }
+
+  /**
+   * Log a scan attempt and return its outcome to the scanner
+   */
+  private async recordTicketScan(scanResult: TicketScanResult, deviceId?: string): Promise<ApiResponse<TicketScanResult>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'ticket_scans',
+        rateLimitKey: 'tickets:scan',
+        enableLogging: false,
+      },
+      async () => {
+        const dbData = this.adapter.toSnakeCase({
+          ticketId: scanResult.ticketId,
+          code: scanResult.code,
+          result: scanResult.result,
+          reason: scanResult.reason,
+          scannedAt: scanResult.scannedAt,
+          deviceId,
+        });
+
+        return this.adapter.buildQuery('ticket_scans')
+          .insert([dbData])
+          .select('id');
+      },
+      'write'
+    );
+
+    if (response.success) {
+      return {
+        ...response,
+        data: scanResult
+      };
+    }
+    return response as unknown as ApiResponse<TicketScanResult>;
+  }
+
+  /**
+   * Transform database ticket hold to API format
+   */
+  private transformTicketHoldFromDb(dbHold: Record<string, unknown>): TicketHold {
+    const camelCaseHold = this.adapter.toCamelCase(dbHold);
+
+    return {
+      id: camelCaseHold.id as string,
+      eventId: camelCaseHold.eventId as string,
+      quantity: camelCaseHold.quantity as number || 0,
+      tierType: camelCaseHold.tierType as TicketTierType || 'general',
+      status: camelCaseHold.status as TicketHold['status'],
+      expiresAt: camelCaseHold.expiresAt as string,
+      customerName: camelCaseHold.customerName as string || undefined,
+      customerEmail: camelCaseHold.customerEmail as string || undefined,
+      paymentReference: camelCaseHold.paymentReference as string || undefined,
+      createdAt: camelCaseHold.createdAt as string,
+      updatedAt: camelCaseHold.updatedAt as string,
+    };
+  }
+
+  /**
+   * Transform database ticket to API format
+   */
+  private transformTicketFromDb(dbTicket: Record<string, unknown>): Ticket {
+    const camelCaseTicket = this.adapter.toCamelCase(dbTicket);
+
+    return {
+      id: camelCaseTicket.id as string,
+      eventId: camelCaseTicket.eventId as string,
+      holdId: camelCaseTicket.holdId as string || undefined,
+      purchaseDate: camelCaseTicket.purchaseDate as string,
+      purchaserName: camelCaseTicket.purchaserName as string,
+      purchaserEmail: camelCaseTicket.purchaserEmail as string,
+      price: camelCaseTicket.price as number || 0,
+      type: camelCaseTicket.type as TicketTierType || 'general',
+      status: camelCaseTicket.status as Ticket['status'],
+      code: camelCaseTicket.code as string || undefined,
+      scannedAt: camelCaseTicket.scannedAt as string || undefined,
+      saleTransactionId: camelCaseTicket.saleTransactionId as string || undefined,
+      taxAmount: camelCaseTicket.taxAmount as number || undefined,
+    };
+  }
+
+  /**
+   * Transform database event to API format
+   */
+  private transformEventFromDb(dbEvent: Record<string, unknown>): Event {
+    // Convert snake_case to camelCase and structure data
+    const camelCaseEvent = this.adapter.toCamelCase(dbEvent);
+    
+    return {
+      id: camelCaseEvent.id as string,
+      title: camelCaseEvent.title as string,
+      description: camelCaseEvent.description as string || undefined,
+      date: camelCaseEvent.date as string,
+      startTime: camelCaseEvent.startTime as string,
+      endTime: camelCaseEvent.endTime as string,
+      artistIds: camelCaseEvent.artistIds as string[] || [],
+      ticketsSold: camelCaseEvent.ticketsSold as number || 0,
+      ticketsHeld: camelCaseEvent.ticketsHeld as number || 0,
+      ticketVersion: camelCaseEvent.ticketVersion as number || 0,
+      totalCapacity: camelCaseEvent.totalCapacity as number,
+      ticketPrice: camelCaseEvent.ticketPrice as number,
+      ticketTiers: camelCaseEvent.ticketTiers ?
+        (camelCaseEvent.ticketTiers as Array<Record<string, unknown>>).map(tier => ({
+          type: tier.type as TicketTierType,
+          capacity: tier.capacity as number || 0,
+          price: tier.price as number || 0,
+          salesStart: tier.salesStart as string || undefined,
+          salesEnd: tier.salesEnd as string || undefined,
+          sold: tier.sold as number || 0,
+          held: tier.held as number || 0,
+        })) : undefined,
       status: camelCaseEvent.status as 'upcoming' | 'completed' | 'cancelled',
       image: camelCaseEvent.image as string || undefined,
       genre: camelCaseEvent.genre as string || undefined,
@@ -9,6 +9,15 @@ import {
   TransactionIdSchema,
   CreateAccountSchema,
   CreateBudgetSchema,
+  BudgetVarianceReportSchema,
+  CreateTaxRateSchema,
+  UpdateTaxRateSchema,
+  TaxLiabilityReportSchema,
+  FinancialReportSchema,
+  RecurringOccurrenceSchema,
+  StatementImportSchema,
+  RecurringPreviewSchema,
+  UpdateRecurringTransactionSchema,
   validateFinanceBusinessRules,
   type CreateTransactionRequest,
   type UpdateTransactionRequest,
@@ -18,9 +27,31 @@ import {
   type CreateAccountRequest,
   type Budget,
   type CreateBudgetRequest,
+  type BudgetVarianceLine,
+  type BudgetVarianceReport,
+  type TaxRate,
+  type CreateTaxRateRequest,
+  type UpdateTaxRateRequest,
+  type TaxLiabilityReport,
+  type TaxLiabilityReportRequest,
+  type TaxLiabilitySummary,
   type FinancialReport,
+  type FinancialReportRequest,
+  type FinancialReportGroup,
+  type BalanceSheetSummary,
+  type CashFlowSummary,
+  type CostOfGoodsSummary,
+  type LedgerEntry,
+  type RecurringOccurrence,
+  type UpdateRecurringTransactionRequest,
+  type StatementImportRequest,
+  type StatementLine,
+  type StatementImportLineResult,
+  type StatementImportResult,
 } from '../schemas/financeSchemas';
 import { ValidationError } from '../errors';
+import { inventoryService } from './inventoryService';
+import { trashService } from './trashService';
 
 // Enhanced Transaction type
 type EnhancedTransaction = FinancialTransaction & {
@@ -31,6 +62,68 @@ type EnhancedTransaction = FinancialTransaction & {
   };
 };
 
+// Upper bound on occurrences expanded per series, guards against runaway daily patterns
+const MAX_RECURRING_OCCURRENCES = 3660;
+
+// Conditional writes retried before an expense gives up waiting for a busy budget
+const MAX_BUDGET_CLAIM_ATTEMPTS = 5;
+
+// A budget claim older than this was left behind by a failed request and may be taken over
+const BUDGET_CLAIM_TTL_MS = 30 * 1000;
+
+// Ledger account that collects sales tax owed on income until it is remitted
+const SALES_TAX_LEDGER_ACCOUNT = 'liability:sales-tax';
+
+// Display names for ledger accounts that have no row in the accounts table
+const LEDGER_ACCOUNT_NAMES: Record<string, string> = {
+  'equity:adjustments': 'Owner Adjustments',
+  [SALES_TAX_LEDGER_ACCOUNT]: 'Sales Tax Payable',
+};
+
+type ParsedStatement = {
+  lines: Array<StatementLine | { line: StatementLine; reason: string }>;
+  currency?: string;
+  error?: string;
+};
+
+type ResolvedOccurrence = {
+  series: FinancialTransaction;
+  index: number;
+  normalizedDate: string;
+  occurrence?: FinancialTransaction;
+};
+
+type BudgetComplianceResult = {
+  valid: boolean;
+  reason?: string;
+  warning?: string;
+  requiresApproval?: boolean;
+  budgetId?: string;
+};
+
+// Budgets an expense counts against, with the hard-limit ones held for this request
+type BudgetClaim = {
+  budgets: Budget[];
+  token: string;
+  claimedIds: string[];
+};
+
+type IncomeTotals = {
+  totalIncome: number;
+  totalExpenses: number;
+  netIncome: number;
+};
+
+// Profit & loss totals with the stock used expensed in place of the stock bought
+type ProfitAndLossSummary = {
+  totals: IncomeTotals;
+  costOfGoodsSold: CostOfGoodsSummary;
+};
+
+// Join the warnings that apply to one response into a single message
+const joinWarnings = (...warnings: Array<string | undefined>): string | undefined =>
+  warnings.filter(Boolean).join('. ') || undefined;
+
 export class FinanceService {
   private adapter: SupabaseAdapter;
 
@@ -54,7 +147,7 @@ export class FinanceService {
       return validationResult.error;
     }
 
-    const { limit, offset, type, categoryId, accountId, search, dateRange } = validationResult.data;
+    const { limit, offset, cursor, type, categoryId, accountId, search, dateRange, reconciliationStatus } = validationResult.data;
 
     // 2. Build query options
     const queryOptions: QueryOptions = {
@@ -67,6 +160,8 @@ export class FinanceService {
       orderBy: { column: 'date', ascending: false },
       limit,
       offset,
+      cursor: cursor ?? null,
+      count: 'estimated',
       filters: {}
     };
 
@@ -76,6 +171,7 @@ export class FinanceService {
     if (accountId) queryOptions.filters!.account_id = accountId;
     if (dateRange?.start) queryOptions.filters!['date'] = { operator: 'gte', value: dateRange.start };
     if (dateRange?.end) queryOptions.filters!['date'] = { operator: 'lte', value: dateRange.end };
+    if (reconciliationStatus === 'reconciled') queryOptions.filters!.is_reconciled = true;
 
     // 3. Execute query with adapter
     const response = await this.adapter.executeQuery(
@@ -83,6 +179,7 @@ export class FinanceService {
         tableName: 'financial_transactions',
         rateLimitKey: 'finance:transactions:read',
         enableLogging: true,
+        pagination: queryOptions,
       },
       async () => {
         let query = this.adapter.buildQuery('financial_transactions', queryOptions);
@@ -91,6 +188,11 @@ export class FinanceService {
         if (search) {
           query = query.or(`description.ilike.%${search}%, reference.ilike.%${search}%, notes.ilike.%${search}%`);
         }
+
+        // Rows created before reconciliation existed have no flag, so match NULL as well
+        if (reconciliationStatus === 'unreconciled') {
+          query = query.not('is_reconciled', 'is', true);
+        }
         
         return query;
       },
@@ -207,17 +309,53 @@ export class FinanceService {
       };
     }
 
-    // 3. Check budget compliance if applicable
+    // 3. Derive sales tax on income. An explicit rate and a category rate follow the same
+    // convention: the amount includes the tax unless taxInclusive (or the rate) says otherwise.
+    if (validatedData.type === 'income' && validatedData.taxAmount === undefined) {
+      if (validatedData.taxRate === undefined) {
+        const taxRateResponse = await this.findTaxRate(validatedData.categoryId, validatedData.date || new Date().toISOString());
+        if (!taxRateResponse.success) {
+          return taxRateResponse as ApiResponse<Transaction>;
+        }
+
+        const categoryTaxRate = taxRateResponse.data;
+        if (categoryTaxRate) {
+          validatedData.taxRate = categoryTaxRate.rate;
+          validatedData.taxInclusive = validatedData.taxInclusive ?? categoryTaxRate.isInclusive;
+        }
+      }
+
+      if (validatedData.taxRate !== undefined) {
+        validatedData.taxAmount = validatedData.taxInclusive !== false
+          ? validateFinanceBusinessRules.calculateInclusiveTaxAmount(validatedData.amount, validatedData.taxRate)
+          : validateFinanceBusinessRules.calculateTaxAmount(validatedData.amount, validatedData.taxRate);
+      }
+    }
+    if (validatedData.taxAmount !== undefined) {
+      validatedData.taxInclusive = validatedData.taxInclusive !== false;
+    }
+
+    // 4. Check budget compliance if applicable. Hard-limit budgets stay claimed until
+    // the transaction is written, so a concurrent expense cannot pass the same check.
+    let budgetCheck: BudgetComplianceResult = { valid: true };
+    let budgetClaim: BudgetClaim | undefined;
     if (validatedData.type === 'expense') {
-      const budgetCheck = await this.checkBudgetCompliance(validatedData);
+      const claimResponse = await this.claimBudgets(validatedData, '/api/finance/transactions');
+      if (!claimResponse.success) {
+        return claimResponse as ApiResponse<Transaction>;
+      }
+      budgetClaim = claimResponse.data;
+
+      budgetCheck = await this.checkBudgetCompliance(validatedData, budgetClaim.budgets);
       if (!budgetCheck.valid) {
+        const releaseWarning = await this.releaseBudgets(budgetClaim);
         return {
           success: false,
           error: {
             type: 'https://docs.trainstation-dashboard.com/errors/budget-violation',
             title: 'Budget Compliance Violation',
             status: 400,
-            detail: budgetCheck.reason || 'Transaction exceeds budget limits',
+            detail: joinWarnings(budgetCheck.reason || 'Transaction exceeds budget limits', releaseWarning),
             instance: '/api/finance/transactions',
             timestamp: new Date().toISOString()
           },
@@ -229,7 +367,7 @@ export class FinanceService {
       }
     }
 
-    // 4. Execute with appropriate permissions
+    // 5. Execute with appropriate permissions
     const response = await this.adapter.executeQuery(
       {
         tableName: 'financial_transactions',
@@ -241,21 +379,27 @@ export class FinanceService {
         // Convert to database format
         const dbData = this.adapter.toSnakeCase({
           type: validatedData.type,
-          category: validatedData.category,
+          category: validatedData.categoryId,
           amount: validatedData.amount,
           description: validatedData.description,
           date: validatedData.date,
           accountId: validatedData.accountId,
-          transferToAccountId: validatedData.transferToAccountId,
+          transferToAccountId: validatedData.toAccountId,
           reference: validatedData.reference,
           taxAmount: validatedData.taxAmount,
           taxRate: validatedData.taxRate,
-          status: validatedData.status || 'pending',
+          taxInclusive: validatedData.taxInclusive,
+          // Over a hard budget limit: hold the transaction out of the books until approved
+          status: budgetCheck.requiresApproval ? 'awaiting_approval' : validatedData.status || 'pending',
+          budgetId: budgetCheck.budgetId,
+          requiresApproval: budgetCheck.requiresApproval || false,
           approvedBy: validatedData.approvedBy,
           approvedAt: validatedData.approvedAt,
           receiptUrl: validatedData.receiptUrl,
           notes: validatedData.notes,
           tags: validatedData.tags || [],
+          isRecurring: validatedData.isRecurring,
+          recurringPattern: validatedData.recurringPattern,
           metadata: validatedData.metadata,
           createdBy: validatedData.createdBy,
         });
@@ -267,30 +411,41 @@ export class FinanceService {
       'write'
     );
 
+    const releaseWarning = budgetClaim ? await this.releaseBudgets(budgetClaim) : undefined;
+
     if (response.success) {
       const transactionArray = Array.isArray(response.data) ? response.data : [response.data];
+      const transaction = this.transformTransactionFromDb(transactionArray[0] as Record<string, unknown>);
+
+      // 6. Post the occurrences of a new recurring series that are already due
+      if (transaction.isRecurring) {
+        await this.generateRecurringTransactions(new Date().toISOString(), transaction.id);
+      }
+
       return {
         ...response,
-        data: this.transformTransactionFromDb(transactionArray[0] as Record<string, unknown>)
+        data: {
+          ...transaction,
+          budgetWarning: joinWarnings(budgetCheck.requiresApproval ? budgetCheck.reason : budgetCheck.warning, releaseWarning)
+        }
       };
     }
     return response as ApiResponse<Transaction>;
   }
 
   /**
-   * Update an existing transaction
+   * Update an existing transaction. expectedUpdatedAt is the transaction's updatedAt
+   * as it was read; the update is refused (409) if the transaction changed since.
    */
-  async updateTransaction(id: string, updates: Omit<UpdateTransactionRequest, 'id'>): Promise<ApiResponse<Transaction>> {
+  async updateTransaction(id: string, updates: Omit<UpdateTransactionRequest, 'id'>, expectedUpdatedAt: string): Promise<ApiResponse<Transaction>> {
     // 1. Validate ID and updates
     const idValidation = validateParams(TransactionIdSchema, { id });
     if (!idValidation.success) {
       return idValidation.error;
     }
 
-    const updateValidation = validateParams(
-      UpdateTransactionSchema.omit({ id: true }), 
-      updates
-    );
+    // The schema is refined, so it is validated whole; id matches the row being updated
+    const updateValidation = validateParams(UpdateTransactionSchema, { ...updates, id });
     if (!updateValidation.success) {
       return updateValidation.error;
     }
@@ -302,7 +457,7 @@ export class FinanceService {
     }
 
     const existingTransaction = existingTransactionResponse.data;
-    const businessRuleCheck = validateFinanceBusinessRules.canEdit(existingTransaction);
+    const businessRuleCheck = validateFinanceBusinessRules.canEditTransaction(existingTransaction);
     if (!businessRuleCheck.valid) {
       return {
         success: false,
@@ -321,34 +476,75 @@ export class FinanceService {
       };
     }
 
-    // 3. Execute update
+    // 3. An expense that grows or moves is checked against its budgets like a new one;
+    // over a hard limit it is held out of the books until approved
+    const updated = { ...existingTransaction, ...updateValidation.data };
+    const budgetFields = ['type', 'amount', 'categoryId', 'accountId', 'date'] as const;
+    let budgetCheck: BudgetComplianceResult = { valid: true };
+    let budgetClaim: BudgetClaim | undefined;
+    if (updated.type === 'expense' && budgetFields.some(field => updated[field] !== existingTransaction[field])) {
+      const claimResponse = await this.claimBudgets(updated, `/api/finance/transactions/${id}`);
+      if (!claimResponse.success) {
+        return claimResponse as ApiResponse<Transaction>;
+      }
+      budgetClaim = claimResponse.data;
+      budgetCheck = await this.checkBudgetCompliance(updated, budgetClaim.budgets, id);
+      if (!budgetCheck.valid) {
+        const releaseWarning = await this.releaseBudgets(budgetClaim);
+        return {
+          success: false,
+          error: {
+            type: 'https://docs.trainstation-dashboard.com/errors/budget-violation',
+            title: 'Budget Compliance Violation',
+            status: 400,
+            detail: joinWarnings(budgetCheck.reason || 'Transaction exceeds budget limits', releaseWarning),
+            instance: `/api/finance/transactions/${id}`,
+            timestamp: new Date().toISOString()
+          },
+          meta: {
+            requestId: crypto.randomUUID(),
+            source: 'budget-validation'
+          }
+        };
+      }
+    }
+
+    // 4. Execute update
     const response = await this.adapter.executeQuery(
       {
         tableName: 'financial_transactions',
         requiredRole: UserRole.STAFF,
         rateLimitKey: 'finance:transactions:update',
         enableLogging: true,
+        expectedVersion: expectedUpdatedAt,
       },
       async () => {
         // Convert updates to database format
         const dbUpdates = this.adapter.toSnakeCase({
           ...updateValidation.data,
+          ...(budgetCheck.requiresApproval && { status: 'awaiting_approval', requiresApproval: true, budgetId: budgetCheck.budgetId }),
           updated_at: new Date().toISOString()
         });
 
-        return this.adapter.buildQuery('financial_transactions')
+        const query = this.adapter.buildQuery('financial_transactions')
           .update(dbUpdates)
-          .eq('id', id)
-          .select('*');
+          .eq('id', id);
+
+        return this.adapter.matchVersion(query, expectedUpdatedAt).select('*');
       },
       'write'
     );
 
+    const releaseWarning = budgetClaim ? await this.releaseBudgets(budgetClaim) : undefined;
+
     if (response.success) {
       const transactionArray = Array.isArray(response.data) ? response.data : [response.data];
       return {
         ...response,
-        data: this.transformTransactionFromDb(transactionArray[0] as Record<string, unknown>)
+        data: {
+          ...this.transformTransactionFromDb(transactionArray[0] as Record<string, unknown>),
+          budgetWarning: joinWarnings(budgetCheck.requiresApproval ? budgetCheck.reason : budgetCheck.warning, releaseWarning)
+        }
       };
     }
     return response as ApiResponse<Transaction>;
@@ -371,7 +567,7 @@ export class FinanceService {
     }
 
     const existingTransaction = existingTransactionResponse.data;
-    const businessRuleCheck = validateFinanceBusinessRules.canApprove(existingTransaction, approverId);
+    const businessRuleCheck = validateFinanceBusinessRules.canApproveTransaction(existingTransaction, approverId);
     if (!businessRuleCheck.valid) {
       return {
         success: false,
@@ -390,13 +586,41 @@ export class FinanceService {
       };
     }
 
-    // 3. Update transaction status to approved
-    return this.updateTransaction(id, {
-      status: 'approved',
-      approvedBy: approverId,
-      approvedAt: new Date().toISOString(),
-      notes: notes ? `${existingTransaction.notes || ''}\nApproval: ${notes}`.trim() : existingTransaction.notes,
-    });
+    // 3. Update transaction status to approved. Transactions held for exceeding
+    // a hard budget limit need a manager to sign off.
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'financial_transactions',
+        requiredRole: existingTransaction.requiresApproval ? UserRole.MANAGER : UserRole.STAFF,
+        rateLimitKey: 'finance:transactions:approve',
+        enableLogging: true,
+      },
+      async () => {
+        const dbUpdates = this.adapter.toSnakeCase({
+          status: 'approved',
+          isApproved: true,
+          approvedBy: approverId,
+          approvedAt: new Date().toISOString(),
+          notes: notes ? `${existingTransaction.notes || ''}\nApproval: ${notes}`.trim() : existingTransaction.notes,
+          updatedAt: new Date().toISOString(),
+        });
+
+        return this.adapter.buildQuery('financial_transactions')
+          .update(dbUpdates)
+          .eq('id', id)
+          .select('*');
+      },
+      'write'
+    );
+
+    if (response.success) {
+      const transactionArray = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: this.transformTransactionFromDb(transactionArray[0] as Record<string, unknown>)
+      };
+    }
+    return response as ApiResponse<Transaction>;
   }
 
   /**
@@ -460,208 +684,2005 @@ export class FinanceService {
       }
       return response as ApiResponse<{ deleted: boolean }>;
     } else {
-      // 4. Soft delete (set status to cancelled)
-      const updateResponse = await this.updateTransaction(id, { status: 'cancelled' });
-      if (updateResponse.success) {
-        return {
-          success: true,
-          data: { deleted: true },
-          meta: updateResponse.meta
-        };
+      // 4. Record it in the trash bin first, so a hidden record always has
+      // an entry it can be restored or purged from
+      const trashResponse = await trashService.moveToTrash({
+        entityType: 'financial_transactions',
+        entityId: id,
+        label: existingTransaction.description,
+        restoreValues: { status: existingTransaction.status || 'pending' },
+        deletedValues: { status: 'cancelled' }
+      });
+      if (!trashResponse.success) {
+        return trashResponse as unknown as ApiResponse<{ deleted: boolean }>;
+      }
+
+      // 5. Soft delete (set status to cancelled)
+      const updateResponse = await this.updateTransaction(id, { status: 'cancelled' }, existingTransaction.updatedAt);
+      if (!updateResponse.success) {
+        await trashService.discardTrashEntry(trashResponse.data);
+        return updateResponse as ApiResponse<{ deleted: boolean }>;
       }
-      return updateResponse as ApiResponse<{ deleted: boolean }>;
+
+      return {
+        success: true,
+        data: { deleted: true },
+        meta: updateResponse.meta
+      };
     }
   }
 
   /**
-   * Get all accounts
+   * Get recurring transaction series (the templates occurrences are generated from)
    */
-  async getAccounts(): Promise<ApiResponse<Account[]>> {
+  async getRecurringTransactions(): Promise<ApiResponse<FinancialTransaction[]>> {
     const response = await this.adapter.executeQuery(
       {
-        tableName: 'accounts',
-        rateLimitKey: 'finance:accounts:read',
+        tableName: 'financial_transactions',
+        rateLimitKey: 'finance:recurring:read',
         enableLogging: true,
       },
       async () => {
-        return this.adapter.buildQuery('accounts', {
+        return this.adapter.buildQuery('financial_transactions', {
           select: '*',
-          orderBy: { column: 'name', ascending: true }
-        });
+          filters: { is_recurring: true },
+          orderBy: { column: 'date', ascending: true }
+        })
+          .neq('status', 'cancelled');
       },
       'read'
     );
 
     if (response.success) {
-      const accounts = Array.isArray(response.data) ? response.data : [response.data];
-      const transformedAccounts = accounts.map(account => 
-        this.transformAccountFromDb(account as Record<string, unknown>)
-      );
-      
+      const transactions = Array.isArray(response.data) ? response.data : [response.data];
       return {
         ...response,
-        data: transformedAccounts
+        data: transactions.map(transaction => this.transformTransactionFromDb(transaction as Record<string, unknown>))
       };
     }
-    return response as ApiResponse<Account[]>;
+    return response as ApiResponse<FinancialTransaction[]>;
   }
 
   /**
-   * Create account
+   * Preview the next occurrences of a recurring transaction
    */
-  async createAccount(accountData: CreateAccountRequest): Promise<ApiResponse<Account>> {
-    // 1. Validate input data
-    const validationResult = validateParams(CreateAccountSchema, accountData);
+  async previewRecurringTransaction(seriesId: string, count = 5, from?: string): Promise<ApiResponse<RecurringOccurrence[]>> {
+    // 1. Validate input
+    const validationResult = validateParams(RecurringPreviewSchema, { seriesId, count, from });
     if (!validationResult.success) {
       return validationResult.error;
     }
 
-    const validatedData = validationResult.data;
+    // 2. Load the series and the occurrences already materialised
+    const seriesResponse = await this.getRecurringSeries(seriesId);
+    if (!seriesResponse.success) {
+      return seriesResponse as ApiResponse<RecurringOccurrence[]>;
+    }
 
-    // 2. Execute creation
-    const response = await this.adapter.executeQuery(
-      {
-        tableName: 'accounts',
-        requiredRole: UserRole.MANAGER, // Manager role required for accounts
-        rateLimitKey: 'finance:accounts:create',
-        enableLogging: true,
-      },
-      async () => {
-        const dbData = this.adapter.toSnakeCase({
-          name: validatedData.name,
-          type: validatedData.type,
-          number: validatedData.number,
-          description: validatedData.description,
-          parentId: validatedData.parentId,
-          isActive: validatedData.isActive !== false, // Default to true
-          balance: validatedData.balance || 0,
-          currency: validatedData.currency || 'USD',
-        });
+    const occurrencesResponse = await this.getSeriesOccurrences(seriesId);
+    if (!occurrencesResponse.success) {
+      return occurrencesResponse as ApiResponse<RecurringOccurrence[]>;
+    }
 
-        return this.adapter.buildQuery('accounts')
-          .insert([dbData])
-          .select('*');
-      },
-      'write'
+    // 3. Expand the pattern and overlay generated, edited and skipped occurrences
+    const series = seriesResponse.data;
+    const existing = occurrencesResponse.data;
+    const scheduled = this.expandRecurringOccurrences(
+      series,
+      new Date(validationResult.data.from || new Date().toISOString()),
+      undefined,
+      count
     );
 
-    if (response.success) {
-      const accountArray = Array.isArray(response.data) ? response.data : [response.data];
+    const preview = scheduled.map(({ index, occurrenceDate }) => {
+      const occurrence = existing.get(index);
+      let status: RecurringOccurrence['status'] = 'scheduled';
+      if (occurrence?.status === 'skipped') status = 'skipped';
+      else if (occurrence?.isModified) status = 'modified';
+      else if (occurrence) status = 'posted';
+
       return {
-        ...response,
-        data: this.transformAccountFromDb(accountArray[0] as Record<string, unknown>)
+        seriesId,
+        occurrenceIndex: index,
+        occurrenceDate: occurrence?.occurrenceDate ?? occurrenceDate,
+        amount: occurrence?.amount ?? series.amount,
+        description: occurrence?.description ?? series.description,
+        status,
+        transactionId: occurrence?.id,
       };
-    }
-    return response as ApiResponse<Account>;
+    });
+
+    return {
+      success: true,
+      data: preview,
+      meta: {
+        requestId: crypto.randomUUID(),
+        source: 'recurring'
+      }
+    };
   }
 
   /**
-   * Get budgets
+   * Materialise every recurring occurrence due on or before the given date.
+   * Occurrences that already exist (generated, edited or skipped) are left alone,
+   * so this is safe to run repeatedly from a scheduler.
    */
-  async getBudgets(): Promise<ApiResponse<Budget[]>> {
+  async generateRecurringTransactions(asOf: string = new Date().toISOString(), seriesId?: string): Promise<ApiResponse<FinancialTransaction[]>> {
+    // 1. Load the series to expand
+    let seriesList: FinancialTransaction[];
+    if (seriesId) {
+      const seriesResponse = await this.getRecurringSeries(seriesId);
+      if (!seriesResponse.success) {
+        return seriesResponse as ApiResponse<FinancialTransaction[]>;
+      }
+      seriesList = [seriesResponse.data];
+    } else {
+      const seriesResponse = await this.getRecurringTransactions();
+      if (!seriesResponse.success) {
+        return seriesResponse;
+      }
+      seriesList = seriesResponse.data;
+    }
+
+    // 2. Work out which due occurrences have not been materialised yet
+    const rows: Record<string, unknown>[] = [];
+    for (const series of seriesList) {
+      const occurrencesResponse = await this.getSeriesOccurrences(series.id);
+      if (!occurrencesResponse.success) {
+        return occurrencesResponse as ApiResponse<FinancialTransaction[]>;
+      }
+
+      const due = this.expandRecurringOccurrences(series, new Date(series.date), new Date(asOf), MAX_RECURRING_OCCURRENCES);
+      due
+        .filter(({ index }) => !occurrencesResponse.data.has(index))
+        .forEach(({ index, occurrenceDate }) => rows.push(this.buildOccurrenceRow(series, index, occurrenceDate)));
+    }
+
+    if (rows.length === 0) {
+      return {
+        success: true,
+        data: [],
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'recurring'
+        }
+      };
+    }
+
+    // 3. Insert the new occurrences in one batch
     const response = await this.adapter.executeQuery(
       {
-        tableName: 'budgets',
-        rateLimitKey: 'finance:budgets:read',
+        tableName: 'financial_transactions',
+        requiredRole: UserRole.STAFF,
+        rateLimitKey: 'finance:recurring:generate',
         enableLogging: true,
       },
       async () => {
-        return this.adapter.buildQuery('budgets', {
-          select: '*',
-          orderBy: { column: 'period_start', ascending: false }
-        });
+        return this.adapter.buildQuery('financial_transactions')
+          .insert(rows)
+          .select('*');
       },
-      'read'
+      'write'
     );
 
     if (response.success) {
-      const budgets = Array.isArray(response.data) ? response.data : [response.data];
-      const transformedBudgets = budgets.map(budget => 
-        this.transformBudgetFromDb(budget as Record<string, unknown>)
-      );
-      
+      const transactions = Array.isArray(response.data) ? response.data : [response.data];
       return {
         ...response,
-        data: transformedBudgets
+        data: transactions.map(transaction => this.transformTransactionFromDb(transaction as Record<string, unknown>))
       };
     }
-    return response as ApiResponse<Budget[]>;
+    return response as ApiResponse<FinancialTransaction[]>;
   }
 
   /**
-   * Create budget
+   * Skip a single occurrence of a recurring transaction
    */
-  async createBudget(budgetData: CreateBudgetRequest): Promise<ApiResponse<Budget>> {
-    // 1. Validate input data
-    const validationResult = validateParams(CreateBudgetSchema, budgetData);
+  async skipRecurringOccurrence(seriesId: string, occurrenceDate: string): Promise<ApiResponse<FinancialTransaction>> {
+    // 1. Validate input
+    const validationResult = validateParams(RecurringOccurrenceSchema, { seriesId, occurrenceDate });
     if (!validationResult.success) {
       return validationResult.error;
     }
 
-    const validatedData = validationResult.data;
-
-    // 2. Execute creation
-    const response = await this.adapter.executeQuery(
-      {
-        tableName: 'budgets',
-        requiredRole: UserRole.MANAGER, // Manager role required for budgets
-        rateLimitKey: 'finance:budgets:create',
-        enableLogging: true,
-      },
-      async () => {
-        const dbData = this.adapter.toSnakeCase({
-          name: validatedData.name,
-          category: validatedData.category,
-          amount: validatedData.amount,
-          spent: validatedData.spent || 0,
-          periodStart: validatedData.periodStart,
-          periodEnd: validatedData.periodEnd,
-          alertThreshold: validatedData.alertThreshold || 80,
-          isActive: validatedData.isActive !== false, // Default to true
-          notes: validatedData.notes,
-        });
+    // 2. Resolve the occurrence
+    const occurrenceResponse = await this.resolveOccurrence(seriesId, occurrenceDate);
+    if (!occurrenceResponse.success) {
+      return occurrenceResponse as ApiResponse<FinancialTransaction>;
+    }
 
-        return this.adapter.buildQuery('budgets')
-          .insert([dbData])
-          .select('*');
-      },
-      'write'
-    );
+    const { series, index, normalizedDate, occurrence } = occurrenceResponse.data;
 
-    if (response.success) {
-      const budgetArray = Array.isArray(response.data) ? response.data : [response.data];
+    if (occurrence?.isApproved || occurrence?.status === 'approved') {
       return {
-        ...response,
-        data: this.transformBudgetFromDb(budgetArray[0] as Record<string, unknown>)
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/business-rule-violation',
+          title: 'Cannot Skip Occurrence',
+          status: 400,
+          detail: 'Approved occurrences cannot be skipped',
+          instance: `/api/finances/transactions/${seriesId}/occurrences/skip`,
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
       };
     }
-    return response as ApiResponse<Budget>;
+
+    // 3. Mark the generated occurrence as skipped, or record the skip ahead of generation
+    return this.saveOccurrence(series, index, normalizedDate, occurrence, { status: 'skipped' }, 'finance:recurring:skip');
   }
 
   /**
-   * Generate financial reports
+   * Edit a recurring transaction, either a single occurrence or the whole series.
+   * Series edits apply to occurrences generated from now on; occurrences that were
+   * already posted or edited individually keep their values. expectedUpdatedAt is
+   * the updatedAt, as it was read, of the series or of the occurrence once it has
+   * been generated; the edit is refused (409) if that changed since.
    */
-  async generateReport(type: 'profit_loss' | 'balance_sheet' | 'cash_flow' | 'expenses' | 'revenue', dateFrom?: string, dateTo?: string): Promise<ApiResponse<FinancialReport>> {
-    // This would implement complex financial reporting logic
-    // For now, return a placeholder structure
-    const reportData: FinancialReport = {
-      type,
-      periodStart: dateFrom || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
-      periodEnd: dateTo || new Date().toISOString(),
-      generatedAt: new Date().toISOString(),
-      data: {},
-      summary: {
-        totalRevenue: 0,
-        totalExpenses: 0,
-        netIncome: 0,
-        grossMargin: 0,
+  async updateRecurringTransaction(request: UpdateRecurringTransactionRequest, expectedUpdatedAt: string): Promise<ApiResponse<FinancialTransaction>> {
+    // 1. Validate input
+    const validationResult = validateParams(UpdateRecurringTransactionSchema, request);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { seriesId, scope, occurrenceDate, updates } = validationResult.data;
+
+    // 2. Single occurrence: store the edit on that occurrence only
+    if (scope === 'occurrence') {
+      const occurrenceResponse = await this.resolveOccurrence(seriesId, occurrenceDate!);
+      if (!occurrenceResponse.success) {
+        return occurrenceResponse as ApiResponse<FinancialTransaction>;
       }
-    };
 
-    return {
-      success: true,
-      data: reportData,
-      meta: {
+      const { series, index, normalizedDate, occurrence } = occurrenceResponse.data;
+      if (occurrence) {
+        const editCheck = validateFinanceBusinessRules.canEditTransaction(occurrence);
+        if (!editCheck.valid) {
+          return {
+            success: false,
+            error: {
+              type: 'https://docs.trainstation-dashboard.com/errors/business-rule-violation',
+              title: 'Business Rule Violation',
+              status: 400,
+              detail: editCheck.reason || 'Cannot edit this occurrence',
+              instance: `/api/finances/transactions/${seriesId}/occurrences`,
+              timestamp: new Date().toISOString()
+            },
+            meta: {
+              requestId: crypto.randomUUID(),
+              source: 'validation'
+            }
+          };
+        }
+      }
+
+      return this.saveOccurrence(series, index, normalizedDate, occurrence, { ...updates, isModified: true }, 'finance:recurring:update', expectedUpdatedAt);
+    }
+
+    // 3. Whole series: update the template
+    const seriesResponse = await this.getRecurringSeries(seriesId);
+    if (!seriesResponse.success) {
+      return seriesResponse;
+    }
+
+    if (updates.recurringPattern) {
+      const patternCheck = validateFinanceBusinessRules.validateRecurringPattern(updates.recurringPattern);
+      if (!patternCheck.valid) {
+        return {
+          success: false,
+          error: {
+            type: 'https://docs.trainstation-dashboard.com/errors/validation',
+            title: 'Invalid Recurring Pattern',
+            status: 400,
+            detail: patternCheck.errors.join('; '),
+            instance: `/api/finances/transactions/${seriesId}/occurrences`,
+            timestamp: new Date().toISOString()
+          },
+          meta: {
+            requestId: crypto.randomUUID(),
+            source: 'validation'
+          }
+        };
+      }
+    }
+
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'financial_transactions',
+        requiredRole: UserRole.STAFF,
+        rateLimitKey: 'finance:recurring:update',
+        enableLogging: true,
+        expectedVersion: expectedUpdatedAt,
+      },
+      async () => {
+        const { categoryId, toAccountId, ...rest } = updates;
+        const dbUpdates = this.adapter.toSnakeCase({
+          ...rest,
+          category: categoryId,
+          transferToAccountId: toAccountId,
+          updatedAt: new Date().toISOString()
+        });
+
+        const query = this.adapter.buildQuery('financial_transactions')
+          .update(dbUpdates)
+          .eq('id', seriesId);
+
+        return this.adapter.matchVersion(query, expectedUpdatedAt).select('*');
+      },
+      'write'
+    );
+
+    if (!response.success) {
+      return response as ApiResponse<FinancialTransaction>;
+    }
+
+    // 4. A shortened series cancels pending occurrences past the new end date
+    const newEndDate = updates.recurringPattern?.endDate;
+    if (newEndDate) {
+      const cancelResponse = await this.adapter.executeQuery(
+        {
+          tableName: 'financial_transactions',
+          requiredRole: UserRole.STAFF,
+          rateLimitKey: 'finance:recurring:update',
+          enableLogging: true,
+        },
+        async () => {
+          return this.adapter.buildQuery('financial_transactions')
+            .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+            .eq('recurring_series_id', seriesId)
+            .gt('occurrence_date', newEndDate)
+            .neq('status', 'approved');
+        },
+        'write'
+      );
+
+      if (!cancelResponse.success) {
+        return cancelResponse as ApiResponse<FinancialTransaction>;
+      }
+    }
+
+    const transactionArray = Array.isArray(response.data) ? response.data : [response.data];
+    return {
+      ...response,
+      data: this.transformTransactionFromDb(transactionArray[0] as Record<string, unknown>)
+    };
+  }
+
+  /**
+   * Load a transaction and make sure it is a recurring series
+   */
+  private async getRecurringSeries(seriesId: string): Promise<ApiResponse<FinancialTransaction>> {
+    const seriesResponse = await this.getTransactionById(seriesId);
+    if (!seriesResponse.success) {
+      return seriesResponse;
+    }
+
+    const series = seriesResponse.data;
+    if (!series.isRecurring || !series.recurringPattern || series.recurringSeriesId) {
+      return {
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/business-rule-violation',
+          title: 'Not a Recurring Transaction',
+          status: 400,
+          detail: 'Transaction does not have a recurring pattern',
+          instance: `/api/finances/transactions/${seriesId}/occurrences`,
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
+      };
+    }
+
+    return seriesResponse;
+  }
+
+  /**
+   * Get the occurrences already materialised for a series, keyed by their position
+   * in the series. The position survives edits to the series start date or pattern,
+   * where the date of an occurrence would not.
+   */
+  private async getSeriesOccurrences(seriesId: string): Promise<ApiResponse<Map<number, FinancialTransaction>>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'financial_transactions',
+        rateLimitKey: 'finance:recurring:read',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('financial_transactions', {
+          select: '*',
+          filters: { recurring_series_id: seriesId }
+        });
+      },
+      'read'
+    );
+
+    if (response.success) {
+      const transactions = Array.isArray(response.data) ? response.data : [response.data];
+      const occurrences = new Map<number, FinancialTransaction>();
+      transactions
+        .map(transaction => this.transformTransactionFromDb(transaction as Record<string, unknown>))
+        .filter(transaction => transaction.occurrenceIndex !== undefined && transaction.status !== 'cancelled')
+        .forEach(transaction => occurrences.set(transaction.occurrenceIndex!, transaction));
+
+      return {
+        ...response,
+        data: occurrences
+      };
+    }
+    return response as ApiResponse<Map<number, FinancialTransaction>>;
+  }
+
+  /**
+   * Resolve a series occurrence, rejecting dates that are not part of the pattern
+   */
+  private async resolveOccurrence(
+    seriesId: string,
+    occurrenceDate: string
+  ): Promise<ApiResponse<ResolvedOccurrence>> {
+    const seriesResponse = await this.getRecurringSeries(seriesId);
+    if (!seriesResponse.success) {
+      return seriesResponse as ApiResponse<ResolvedOccurrence>;
+    }
+
+    const occurrencesResponse = await this.getSeriesOccurrences(seriesId);
+    if (!occurrencesResponse.success) {
+      return occurrencesResponse as ApiResponse<ResolvedOccurrence>;
+    }
+
+    // An occurrence generated before the series was rescheduled keeps its own date
+    const series = seriesResponse.data;
+    const requestedDate = new Date(occurrenceDate);
+    const generated = [...occurrencesResponse.data.values()]
+      .find(occurrence => new Date(occurrence.occurrenceDate!).getTime() === requestedDate.getTime());
+    const [scheduled] = generated
+      ? [{ index: generated.occurrenceIndex!, occurrenceDate: generated.occurrenceDate! }]
+      : this.expandRecurringOccurrences(series, requestedDate, requestedDate, 1);
+
+    if (!scheduled) {
+      return {
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/business-rule-violation',
+          title: 'Invalid Occurrence',
+          status: 400,
+          detail: `${occurrenceDate} is not an occurrence of this recurring transaction`,
+          instance: `/api/finances/transactions/${seriesId}/occurrences`,
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: {
+        series,
+        index: scheduled.index,
+        normalizedDate: scheduled.occurrenceDate,
+        occurrence: occurrencesResponse.data.get(scheduled.index)
+      },
+      meta: {
+        requestId: crypto.randomUUID(),
+        source: 'recurring'
+      }
+    };
+  }
+
+  /**
+   * Update a materialised occurrence, or insert it ahead of generation with the given changes
+   */
+  private async saveOccurrence(
+    series: FinancialTransaction,
+    index: number,
+    occurrenceDate: string,
+    occurrence: FinancialTransaction | undefined,
+    changes: Record<string, unknown>,
+    rateLimitKey: string,
+    expectedUpdatedAt?: string
+  ): Promise<ApiResponse<FinancialTransaction>> {
+    // Only an occurrence already generated has a version to compare with
+    const expectedVersion = occurrence ? expectedUpdatedAt : undefined;
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'financial_transactions',
+        requiredRole: UserRole.STAFF,
+        rateLimitKey,
+        enableLogging: true,
+        expectedVersion,
+      },
+      async () => {
+        const { categoryId, toAccountId, ...rest } = changes;
+        const dbChanges = this.adapter.toSnakeCase({
+          ...rest,
+          ...(categoryId !== undefined && { category: categoryId }),
+          ...(toAccountId !== undefined && { transferToAccountId: toAccountId }),
+        });
+
+        if (occurrence) {
+          const query = this.adapter.buildQuery('financial_transactions')
+            .update({ ...dbChanges, updated_at: new Date().toISOString() })
+            .eq('id', occurrence.id);
+
+          return this.adapter.matchVersion(query, expectedVersion).select('*');
+        }
+
+        return this.adapter.buildQuery('financial_transactions')
+          .insert([{ ...this.buildOccurrenceRow(series, index, occurrenceDate), ...dbChanges }])
+          .select('*');
+      },
+      'write'
+    );
+
+    if (response.success) {
+      const transactionArray = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: this.transformTransactionFromDb(transactionArray[0] as Record<string, unknown>)
+      };
+    }
+    return response as ApiResponse<FinancialTransaction>;
+  }
+
+  /**
+   * Expand a series into its occurrences within [from, to], stopping at the pattern's endDate
+   */
+  private expandRecurringOccurrences(
+    series: FinancialTransaction,
+    from: Date,
+    to: Date | undefined,
+    limit: number
+  ): Array<{ index: number; occurrenceDate: string }> {
+    const pattern = series.recurringPattern;
+    if (!pattern) {
+      return [];
+    }
+
+    const endDate = pattern.endDate ? new Date(pattern.endDate) : undefined;
+    const occurrences: Array<{ index: number; occurrenceDate: string }> = [];
+
+    for (let index = 0; index < MAX_RECURRING_OCCURRENCES && occurrences.length < limit; index++) {
+      const occurrenceDate = validateFinanceBusinessRules.getOccurrenceDate(series.date, pattern, index);
+      const date = new Date(occurrenceDate);
+
+      if ((endDate && date > endDate) || (to && date > to)) {
+        break;
+      }
+      if (date >= from) {
+        occurrences.push({ index, occurrenceDate });
+      }
+    }
+
+    return occurrences;
+  }
+
+  /**
+   * Build the database row for an occurrence copied from its series
+   */
+  private buildOccurrenceRow(series: FinancialTransaction, index: number, occurrenceDate: string): Record<string, unknown> {
+    return this.adapter.toSnakeCase({
+      type: series.type,
+      category: series.categoryId,
+      amount: series.amount,
+      currency: series.currency,
+      description: series.description,
+      date: occurrenceDate,
+      accountId: series.accountId,
+      transferToAccountId: series.toAccountId,
+      reference: series.reference,
+      taxAmount: series.taxAmount,
+      taxRate: series.taxRate,
+      taxInclusive: series.taxInclusive,
+      status: 'pending',
+      notes: series.notes,
+      tags: series.tags || [],
+      isRecurring: false,
+      recurringSeriesId: series.id,
+      occurrenceIndex: index,
+      occurrenceDate,
+      isModified: false,
+    });
+  }
+
+  /**
+   * Import a CSV or OFX/QFX bank statement into an account.
+   * Each line is either a duplicate of something already imported, matched to an
+   * existing unreconciled transaction, or created as a new reconciled transaction.
+   */
+  async importBankStatement(request: StatementImportRequest): Promise<ApiResponse<StatementImportResult>> {
+    // 1. Validate input
+    const validationResult = validateParams(StatementImportSchema, request);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const importRequest = validationResult.data;
+    const { dateFormat = 'YYYY-MM-DD', matchWindowDays = 3, dryRun = false } = importRequest;
+
+    // 2. Parse the statement
+    const parsed = importRequest.format === 'csv'
+      ? this.parseCsvStatement(importRequest.content, dateFormat, importRequest.columns)
+      : this.parseOfxStatement(importRequest.content);
+
+    if (parsed.error || parsed.lines.length === 0) {
+      return {
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/validation',
+          title: 'Invalid Statement',
+          status: 400,
+          detail: parsed.error || 'No transactions found in statement',
+          instance: '/api/finances/statements/import',
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
+      };
+    }
+
+    // 3. Lines are booked in the statement's currency, else the account's
+    const accountsResponse = await this.getAccounts();
+    if (!accountsResponse.success) {
+      return accountsResponse as ApiResponse<StatementImportResult>;
+    }
+    const account = accountsResponse.data.find(candidate => candidate.id === importRequest.accountId);
+    if (!account) {
+      return {
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/not-found',
+          title: 'Account Not Found',
+          status: 404,
+          detail: 'The account to import into does not exist',
+          instance: '/api/finances/statements/import',
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
+      };
+    }
+    const currency = parsed.currency || account.currency || 'USD';
+
+    // 4. Load existing account transactions around the statement dates
+    const validLines = parsed.lines.filter((line): line is StatementLine => 'date' in line);
+    const windowMs = matchWindowDays * 24 * 60 * 60 * 1000;
+    const lineTimes = validLines.map(line => new Date(line.date).getTime());
+    const existingResponse = validLines.length > 0
+      ? await this.getAccountTransactionsBetween(
+        importRequest.accountId,
+        new Date(Math.min(...lineTimes) - windowMs).toISOString(),
+        new Date(Math.max(...lineTimes) + windowMs + 24 * 60 * 60 * 1000 - 1).toISOString()
+      )
+      : { success: true, data: [] as FinancialTransaction[] };
+
+    if (!existingResponse.success) {
+      return existingResponse as ApiResponse<StatementImportResult>;
+    }
+
+    // 5. Classify each line
+    const existing = existingResponse.data;
+    const claimedIds = new Set<string>();
+    const seenReferences = new Set<string>();
+    const results: StatementImportLineResult[] = [];
+
+    for (const line of parsed.lines) {
+      if (!('date' in line)) {
+        results.push({ line: line.line, status: 'invalid', reason: line.reason });
+        continue;
+      }
+
+      if (line.statementReference && seenReferences.has(line.statementReference)) {
+        results.push({ line, status: 'duplicate', reason: 'Repeated in this statement' });
+        continue;
+      }
+
+      const duplicate = this.findDuplicateTransaction(line, existing, importRequest.accountId);
+      if (duplicate) {
+        results.push({ line, status: 'duplicate', transactionId: duplicate.id, reason: 'Already imported' });
+        continue;
+      }
+      if (line.statementReference) {
+        seenReferences.add(line.statementReference);
+      }
+
+      const match = this.findReconciliationMatch(line, existing, importRequest.accountId, claimedIds, windowMs);
+      if (match) {
+        claimedIds.add(match.id);
+        results.push({ line, status: 'matched', transactionId: match.id });
+        continue;
+      }
+
+      results.push({
+        line,
+        status: 'imported',
+        transaction: {
+          type: line.amount < 0 ? 'expense' : 'income',
+          amount: Math.abs(line.amount),
+          currency,
+          description: line.description,
+          categoryId: line.amount < 0 ? importRequest.expenseCategoryId : importRequest.incomeCategoryId,
+          accountId: importRequest.accountId,
+          date: line.date,
+          reference: line.reference,
+          isRecurring: false,
+          tags: ['bank-import'],
+          isApproved: false,
+        },
+      });
+    }
+
+    // 6. Write the results unless this is a preview. New lines already cleared the
+    // bank, so they go straight into the ledger as reconciled, without budget holds
+    // or derived tax.
+    if (!dryRun) {
+      const imported = results.filter(result => result.status === 'imported' && result.transaction);
+      if (imported.length > 0) {
+        const insertResponse = await this.insertStatementTransactions(imported);
+        if (!insertResponse.success) {
+          return insertResponse as ApiResponse<StatementImportResult>;
+        }
+        imported.forEach((result, index) => { result.transactionId = insertResponse.data[index]?.id; });
+      }
+
+      for (const result of results) {
+        if (result.status === 'matched' && result.transactionId) {
+          const reconcileResponse = await this.reconcileTransaction(
+            result.transactionId,
+            true,
+            result.line.statementReference,
+            importRequest.accountId
+          );
+          if (!reconcileResponse.success) {
+            return reconcileResponse as ApiResponse<StatementImportResult>;
+          }
+        }
+      }
+    }
+
+    const count = (status: StatementImportLineResult['status']) => results.filter(result => result.status === status).length;
+
+    return {
+      success: true,
+      data: {
+        accountId: importRequest.accountId,
+        format: importRequest.format,
+        dryRun,
+        summary: {
+          totalLines: results.length,
+          imported: count('imported'),
+          matched: count('matched'),
+          duplicates: count('duplicate'),
+          invalid: count('invalid'),
+        },
+        lines: results,
+      },
+      meta: {
+        requestId: crypto.randomUUID(),
+        source: 'statement-import'
+      }
+    };
+  }
+
+  /**
+   * Mark a transaction as reconciled (or undo it) against a bank statement line.
+   * A transfer appears on two statements; pass the statement's account to reconcile
+   * the receiving side of a transfer, which is tracked separately.
+   */
+  async reconcileTransaction(
+    id: string,
+    reconciled = true,
+    statementReference?: string,
+    accountId?: string
+  ): Promise<ApiResponse<FinancialTransaction>> {
+    // 1. Validate ID
+    const validationResult = validateParams(TransactionIdSchema, { id });
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    let receivingSide = false;
+    if (accountId) {
+      const transactionResponse = await this.getTransactionById(id);
+      if (!transactionResponse.success) {
+        return transactionResponse;
+      }
+      const transaction = transactionResponse.data;
+      receivingSide = transaction.type === 'transfer' && transaction.toAccountId === accountId && transaction.accountId !== accountId;
+    }
+
+    // 2. Execute update
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'financial_transactions',
+        requiredRole: UserRole.STAFF,
+        rateLimitKey: 'finance:transactions:reconcile',
+        enableLogging: true,
+      },
+      async () => {
+        const dbUpdates = this.adapter.toSnakeCase(receivingSide
+          ? {
+            toAccountReconciled: reconciled,
+            toAccountReconciledAt: reconciled ? new Date().toISOString() : null,
+            toAccountStatementReference: reconciled ? statementReference ?? null : null,
+            updatedAt: new Date().toISOString(),
+          }
+          : {
+            isReconciled: reconciled,
+            reconciledAt: reconciled ? new Date().toISOString() : null,
+            statementReference: reconciled ? statementReference ?? null : null,
+            updatedAt: new Date().toISOString(),
+          });
+
+        return this.adapter.buildQuery('financial_transactions')
+          .update(dbUpdates)
+          .eq('id', id)
+          .select('*');
+      },
+      'write'
+    );
+
+    if (response.success) {
+      const transactionArray = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: this.transformTransactionFromDb(transactionArray[0] as Record<string, unknown>)
+      };
+    }
+    return response as ApiResponse<FinancialTransaction>;
+  }
+
+  /**
+   * Get non-cancelled transactions on an account within a date range, including
+   * transfers into it from other accounts
+   */
+  private async getAccountTransactionsBetween(accountId: string, dateFrom: string, dateTo: string): Promise<ApiResponse<FinancialTransaction[]>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'financial_transactions',
+        rateLimitKey: 'finance:transactions:read',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('financial_transactions', {
+          select: '*'
+        })
+          .or(`account_id.eq.${accountId},transfer_to_account_id.eq.${accountId}`)
+          .gte('date', dateFrom)
+          .lte('date', dateTo)
+          .not('status', 'in', '(cancelled,skipped)')
+          .not('is_recurring', 'is', true);
+      },
+      'read'
+    );
+
+    if (response.success) {
+      const transactions = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: transactions.map(transaction => this.transformTransactionFromDb(transaction as Record<string, unknown>))
+      };
+    }
+    return response as ApiResponse<FinancialTransaction[]>;
+  }
+
+  /**
+   * A line is a duplicate when its bank reference was imported before, or when a
+   * reconciled transaction already has the same day, amount and reference
+   */
+  private findDuplicateTransaction(line: StatementLine, existing: FinancialTransaction[], accountId: string): FinancialTransaction | undefined {
+    return existing.find(transaction => {
+      const reconciliation = this.reconciliationOn(transaction, accountId);
+      if (line.statementReference && reconciliation.statementReference) {
+        return reconciliation.statementReference === line.statementReference;
+      }
+
+      return reconciliation.isReconciled &&
+        transaction.date.slice(0, 10) === line.date.slice(0, 10) &&
+        this.signedAmount(transaction, accountId) === line.amount &&
+        (transaction.reference || undefined) === line.reference;
+    });
+  }
+
+  /**
+   * Find the closest unreconciled transaction with the same signed amount inside the match window.
+   * A matching reference wins over date proximity.
+   */
+  private findReconciliationMatch(
+    line: StatementLine,
+    existing: FinancialTransaction[],
+    accountId: string,
+    claimedIds: Set<string>,
+    windowMs: number
+  ): FinancialTransaction | undefined {
+    const lineTime = new Date(line.date).getTime();
+
+    const candidates = existing
+      .filter(transaction =>
+        !this.reconciliationOn(transaction, accountId).isReconciled &&
+        !claimedIds.has(transaction.id) &&
+        this.signedAmount(transaction, accountId) === line.amount &&
+        Math.abs(new Date(transaction.date).getTime() - lineTime) <= windowMs + 24 * 60 * 60 * 1000
+      )
+      .sort((a, b) => {
+        const referenceA = line.reference && a.reference === line.reference ? 0 : 1;
+        const referenceB = line.reference && b.reference === line.reference ? 0 : 1;
+        if (referenceA !== referenceB) return referenceA - referenceB;
+        return Math.abs(new Date(a.date).getTime() - lineTime) - Math.abs(new Date(b.date).getTime() - lineTime);
+      });
+
+    return candidates[0];
+  }
+
+  /**
+   * Transaction amount as it appears on the given account's bank statement.
+   * A transfer leaves the account it is booked on and arrives in toAccountId.
+   */
+  private signedAmount(transaction: FinancialTransaction, accountId: string): number {
+    const outflow = transaction.type === 'expense' ||
+      transaction.type === 'refund' ||
+      (transaction.type === 'transfer' && transaction.accountId === accountId);
+    const amount = this.grossAmount(transaction);
+    return this.roundCurrency(outflow ? -amount : amount);
+  }
+
+  /**
+   * Cash that moved for a transaction: tax-exclusive sales and refunds carry their tax on top
+   */
+  private grossAmount(transaction: FinancialTransaction): number {
+    const taxOnTop = (transaction.type === 'income' || transaction.type === 'refund') && transaction.taxInclusive === false;
+    return taxOnTop ? transaction.amount + (transaction.taxAmount || 0) : transaction.amount;
+  }
+
+  /**
+   * Reconciliation state of the side of a transaction that shows on an account's statement
+   */
+  private reconciliationOn(transaction: FinancialTransaction, accountId: string): { isReconciled: boolean; statementReference?: string } {
+    if (transaction.type === 'transfer' && transaction.accountId !== accountId && transaction.toAccountId === accountId) {
+      return { isReconciled: !!transaction.toAccountReconciled, statementReference: transaction.toAccountStatementReference };
+    }
+    return { isReconciled: !!transaction.isReconciled, statementReference: transaction.statementReference };
+  }
+
+  /**
+   * Book new statement lines directly as reconciled ledger transactions
+   */
+  private async insertStatementTransactions(results: StatementImportLineResult[]): Promise<ApiResponse<FinancialTransaction[]>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'financial_transactions',
+        requiredRole: UserRole.STAFF,
+        rateLimitKey: 'finance:statements:import',
+        enableLogging: true,
+      },
+      async () => {
+        const reconciledAt = new Date().toISOString();
+        const rows = results.map(result => {
+          const transaction = result.transaction!;
+          return this.adapter.toSnakeCase({
+            type: transaction.type,
+            category: transaction.categoryId,
+            amount: transaction.amount,
+            currency: transaction.currency,
+            description: transaction.description,
+            date: transaction.date,
+            accountId: transaction.accountId,
+            reference: transaction.reference,
+            status: 'completed',
+            tags: transaction.tags,
+            isRecurring: false,
+            isReconciled: true,
+            reconciledAt,
+            statementReference: result.line.statementReference ?? null,
+          });
+        });
+
+        return this.adapter.buildQuery('financial_transactions')
+          .insert(rows)
+          .select('*');
+      },
+      'write'
+    );
+
+    if (response.success) {
+      const transactions = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: transactions.map(transaction => this.transformTransactionFromDb(transaction as Record<string, unknown>))
+      };
+    }
+    return response as ApiResponse<FinancialTransaction[]>;
+  }
+
+  /**
+   * Parse a CSV statement. Columns are found by header name; amounts come either from a
+   * signed amount column or from separate debit/credit columns.
+   */
+  private parseCsvStatement(
+    content: string,
+    dateFormat: StatementImportRequest['dateFormat'],
+    columns: StatementImportRequest['columns'] = {}
+  ): ParsedStatement {
+    const rows = this.parseCsvRows(content).filter(row => row.some(cell => cell.trim() !== ''));
+    if (rows.length < 2) {
+      return { lines: [], error: 'CSV statement needs a header row and at least one transaction' };
+    }
+
+    const headers = rows[0].map(header => header.trim().toLowerCase());
+    const findColumn = (configured: string | undefined, candidates: string[]) => {
+      const names = configured ? [configured.toLowerCase()] : candidates;
+      return headers.findIndex(header => names.includes(header));
+    };
+
+    const dateColumn = findColumn(columns.date, ['date', 'transaction date', 'posted date', 'posting date', 'value date']);
+    const amountColumn = findColumn(columns.amount, ['amount', 'transaction amount']);
+    const debitColumn = findColumn(columns.debit, ['debit', 'withdrawal', 'withdrawals', 'money out', 'paid out']);
+    const creditColumn = findColumn(columns.credit, ['credit', 'deposit', 'deposits', 'money in', 'paid in']);
+    const descriptionColumn = findColumn(columns.description, ['description', 'memo', 'payee', 'details', 'narrative', 'name']);
+    const referenceColumn = findColumn(columns.reference, ['reference', 'ref', 'check number', 'cheque number', 'transaction id', 'fitid']);
+
+    if (dateColumn < 0) {
+      return { lines: [], error: 'Could not find a date column in the CSV header' };
+    }
+    if (amountColumn < 0 && debitColumn < 0 && creditColumn < 0) {
+      return { lines: [], error: 'Could not find an amount, debit or credit column in the CSV header' };
+    }
+
+    const lines = rows.slice(1).map((row, index): ParsedStatement['lines'][number] => {
+      const lineNumber = index + 2;
+      const cell = (column: number) => (column >= 0 ? (row[column] || '').trim() : '');
+      const date = this.parseStatementDate(cell(dateColumn), dateFormat);
+
+      let amount: number | null;
+      if (amountColumn >= 0) {
+        amount = this.parseStatementAmount(cell(amountColumn));
+      } else {
+        const debit = this.parseStatementAmount(cell(debitColumn)) || 0;
+        const credit = this.parseStatementAmount(cell(creditColumn)) || 0;
+        amount = debit || credit ? this.roundCurrency(credit - Math.abs(debit)) : null;
+      }
+
+      const description = cell(descriptionColumn) || 'Bank statement line';
+      const reference = cell(referenceColumn) || undefined;
+
+      if (!date || amount === null || amount === 0) {
+        return {
+          line: { lineNumber, date: '', amount: amount || 0, description, reference },
+          reason: !date ? `Unrecognised date "${cell(dateColumn)}"` : 'Missing or zero amount',
+        };
+      }
+
+      return { lineNumber, date, amount, description: description.slice(0, 500), reference, statementReference: reference };
+    });
+
+    return { lines };
+  }
+
+  /**
+   * Split CSV text into rows, honouring quoted fields with embedded commas, quotes and newlines
+   */
+  private parseCsvRows(content: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
+      if (inQuotes) {
+        if (char === '"' && content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (field !== '' || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    return rows;
+  }
+
+  /**
+   * Parse an OFX/QFX statement. Handles both SGML (OFX 1.x, unclosed tags) and XML (OFX 2.x).
+   */
+  private parseOfxStatement(content: string): ParsedStatement {
+    const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>|$)/gi);
+    if (!blocks) {
+      return { lines: [], error: 'No <STMTTRN> entries found in OFX statement' };
+    }
+
+    const tag = (block: string, name: string) => {
+      const match = block.match(new RegExp(`<${name}>([^<\\r\\n]*)`, 'i'));
+      return match ? match[1].trim() : undefined;
+    };
+
+    const lines = blocks.map((block, index): ParsedStatement['lines'][number] => {
+      const lineNumber = index + 1;
+      const postedDate = tag(block, 'DTPOSTED') || '';
+      const amount = this.parseStatementAmount(tag(block, 'TRNAMT') || '');
+      const description = [tag(block, 'NAME'), tag(block, 'MEMO')].filter(Boolean).join(' - ') || 'Bank statement line';
+      const fitId = tag(block, 'FITID');
+      const reference = tag(block, 'CHECKNUM') || tag(block, 'REFNUM') || fitId;
+
+      const dateMatch = postedDate.match(/^(\d{4})(\d{2})(\d{2})/);
+      const date = dateMatch ? this.parseStatementDate(`${dateMatch[1]}-${dateMatch[2]}-${dateMatch[3]}`, 'YYYY-MM-DD') : null;
+
+      if (!date || amount === null || amount === 0) {
+        return {
+          line: { lineNumber, date: '', amount: amount || 0, description, reference },
+          reason: !date ? `Unrecognised DTPOSTED "${postedDate}"` : 'Missing or zero TRNAMT',
+        };
+      }
+
+      return { lineNumber, date, amount, description: description.slice(0, 500), reference, statementReference: fitId };
+    });
+
+    const currency = content.match(/<CURDEF>\s*([A-Z]{3})/i)?.[1].toUpperCase();
+    return { lines, currency };
+  }
+
+  /**
+   * Parse a statement date to an ISO string at midnight UTC
+   */
+  private parseStatementDate(value: string, dateFormat: StatementImportRequest['dateFormat']): string | null {
+    const parts = value.match(/^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})/);
+    if (!parts) return null;
+
+    const [first, second, third] = [Number(parts[1]), Number(parts[2]), Number(parts[3])];
+    const [year, month, day] =
+      dateFormat === 'MM/DD/YYYY' ? [third, first, second] :
+      dateFormat === 'DD/MM/YYYY' ? [third, second, first] :
+      [first, second, third];
+
+    const date = new Date(Date.UTC(year < 100 ? 2000 + year : year, month - 1, day));
+    if (isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+      return null;
+    }
+    return date.toISOString();
+  }
+
+  /**
+   * Parse a statement amount like "-1,234.50", "$99.00" or "(45.00)"
+   */
+  private parseStatementAmount(value: string): number | null {
+    const trimmed = value.trim();
+    if (!trimmed) return null;
+
+    const negative = /^\(.*\)$/.test(trimmed) || trimmed.includes('-');
+    const amount = Number(trimmed.replace(/[^0-9.]/g, ''));
+    if (isNaN(amount)) return null;
+
+    return this.roundCurrency(negative ? -amount : amount);
+  }
+
+  /**
+   * Get all accounts
+   */
+  async getAccounts(): Promise<ApiResponse<Account[]>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'accounts',
+        rateLimitKey: 'finance:accounts:read',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('accounts', {
+          select: '*',
+          orderBy: { column: 'name', ascending: true }
+        });
+      },
+      'read'
+    );
+
+    if (response.success) {
+      const accounts = Array.isArray(response.data) ? response.data : [response.data];
+      const transformedAccounts = accounts.map(account => 
+        this.transformAccountFromDb(account as Record<string, unknown>)
+      );
+      
+      return {
+        ...response,
+        data: transformedAccounts
+      };
+    }
+    return response as ApiResponse<Account[]>;
+  }
+
+  /**
+   * Create account
+   */
+  async createAccount(accountData: CreateAccountRequest): Promise<ApiResponse<Account>> {
+    // 1. Validate input data
+    const validationResult = validateParams(CreateAccountSchema, accountData);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const validatedData = validationResult.data;
+
+    // 2. Execute creation
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'accounts',
+        requiredRole: UserRole.MANAGER, // Manager role required for accounts
+        rateLimitKey: 'finance:accounts:create',
+        enableLogging: true,
+      },
+      async () => {
+        const dbData = this.adapter.toSnakeCase({
+          name: validatedData.name,
+          type: validatedData.type,
+          number: validatedData.number,
+          description: validatedData.description,
+          parentId: validatedData.parentId,
+          isActive: validatedData.isActive !== false, // Default to true
+          balance: validatedData.balance || 0,
+          currency: validatedData.currency || 'USD',
+        });
+
+        return this.adapter.buildQuery('accounts')
+          .insert([dbData])
+          .select('*');
+      },
+      'write'
+    );
+
+    if (response.success) {
+      const accountArray = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: this.transformAccountFromDb(accountArray[0] as Record<string, unknown>)
+      };
+    }
+    return response as ApiResponse<Account>;
+  }
+
+  /**
+   * Get budgets
+   */
+  async getBudgets(): Promise<ApiResponse<Budget[]>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'budgets',
+        rateLimitKey: 'finance:budgets:read',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('budgets', {
+          select: '*',
+          orderBy: { column: 'period_start', ascending: false }
+        });
+      },
+      'read'
+    );
+
+    if (response.success) {
+      const budgets = Array.isArray(response.data) ? response.data : [response.data];
+      const transformedBudgets = budgets.map(budget => 
+        this.transformBudgetFromDb(budget as Record<string, unknown>)
+      );
+      
+      return {
+        ...response,
+        data: transformedBudgets
+      };
+    }
+    return response as ApiResponse<Budget[]>;
+  }
+
+  /**
+   * Create budget
+   */
+  async createBudget(budgetData: CreateBudgetRequest): Promise<ApiResponse<Budget>> {
+    // 1. Validate input data
+    const validationResult = validateParams(CreateBudgetSchema, budgetData);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const validatedData = validationResult.data;
+
+    // 2. Execute creation
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'budgets',
+        requiredRole: UserRole.MANAGER, // Manager role required for budgets
+        rateLimitKey: 'finance:budgets:create',
+        enableLogging: true,
+      },
+      async () => {
+        const dbData = this.adapter.toSnakeCase({
+          name: validatedData.name,
+          category: validatedData.categoryId,
+          accountId: validatedData.accountId,
+          amount: validatedData.amount,
+          period: validatedData.period,
+          periodStart: validatedData.startDate,
+          periodEnd: validatedData.endDate,
+          alertThreshold: validatedData.alertThreshold ?? 0.8,
+          limitType: validatedData.limitType || 'soft',
+          isActive: validatedData.isActive !== false, // Default to true
+        });
+
+        return this.adapter.buildQuery('budgets')
+          .insert([dbData])
+          .select('*');
+      },
+      'write'
+    );
+
+    if (response.success) {
+      const budgetArray = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: this.transformBudgetFromDb(budgetArray[0] as Record<string, unknown>)
+      };
+    }
+    return response as ApiResponse<Budget>;
+  }
+
+  /**
+   * Budget vs. actual variance for every budget period overlapping the date range
+   */
+  async getBudgetVarianceReport(dateFrom?: string, dateTo?: string, budgetId?: string): Promise<ApiResponse<BudgetVarianceReport>> {
+    // 1. Validate input, defaulting to the year to date
+    const now = new Date();
+    const validationResult = validateParams(BudgetVarianceReportSchema, {
+      dateRange: {
+        start: dateFrom || new Date(Date.UTC(now.getUTCFullYear(), 0, 1)).toISOString(),
+        end: dateTo || now.toISOString(),
+      },
+      budgetId,
+    });
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { dateRange } = validationResult.data;
+    const rangeStart = new Date(dateRange.start);
+    const rangeEnd = new Date(dateRange.end);
+
+    // 2. Load budgets and the posted transactions they are measured against
+    const budgetsResponse = await this.getBudgets();
+    if (!budgetsResponse.success) {
+      return budgetsResponse as ApiResponse<BudgetVarianceReport>;
+    }
+
+    const budgets = budgetsResponse.data.filter(budget => budget.isActive && (!budgetId || budget.id === budgetId));
+    const earliestStart = budgets.reduce(
+      (earliest, budget) => Math.min(earliest, new Date(budget.startDate).getTime()),
+      rangeStart.getTime()
+    );
+
+    const transactionsResponse = await this.getLedgerTransactions(dateRange.end, new Date(earliestStart).toISOString());
+    if (!transactionsResponse.success) {
+      return transactionsResponse as ApiResponse<BudgetVarianceReport>;
+    }
+
+    // 3. One line per budget period
+    const lines: BudgetVarianceLine[] = budgets.flatMap(budget =>
+      this.getBudgetPeriods(budget, rangeStart, rangeEnd).map(period => {
+        const actual = this.sumBudgetSpend(budget, transactionsResponse.data, period.start, period.end);
+        const percentageUsed = budget.amount > 0 ? actual / budget.amount : 0;
+
+        return {
+          budgetId: budget.id,
+          budgetName: budget.name,
+          categoryId: budget.categoryId,
+          accountId: budget.accountId,
+          limitType: budget.limitType,
+          periodStart: period.start.toISOString(),
+          periodEnd: period.end.toISOString(),
+          budgeted: budget.amount,
+          actual,
+          variance: this.roundCurrency(budget.amount - actual),
+          percentageUsed: Math.round(percentageUsed * 10000) / 100,
+          status: percentageUsed > 1 ? 'over_budget' : percentageUsed >= budget.alertThreshold ? 'near_limit' : 'under_budget',
+        };
+      })
+    );
+
+    const totals = lines.reduce(
+      (sum, line) => ({
+        budgeted: this.roundCurrency(sum.budgeted + line.budgeted),
+        actual: this.roundCurrency(sum.actual + line.actual),
+        variance: this.roundCurrency(sum.variance + line.variance),
+      }),
+      { budgeted: 0, actual: 0, variance: 0 }
+    );
+
+    return {
+      success: true,
+      data: {
+        dateRange: {
+          start: rangeStart.toISOString(),
+          end: rangeEnd.toISOString(),
+        },
+        lines,
+        totals,
+        generatedAt: new Date().toISOString(),
+      },
+      meta: {
+        requestId: crypto.randomUUID(),
+        source: 'reporting'
+      }
+    };
+  }
+
+  /**
+   * Get sales tax / VAT rates
+   */
+  async getTaxRates(): Promise<ApiResponse<TaxRate[]>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'tax_rates',
+        rateLimitKey: 'finance:tax:read',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('tax_rates', {
+          select: '*',
+          orderBy: { column: 'effective_from', ascending: false }
+        });
+      },
+      'read'
+    );
+
+    if (response.success) {
+      const taxRates = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: taxRates.map(taxRate => this.transformTaxRateFromDb(taxRate as Record<string, unknown>))
+      };
+    }
+    return response as ApiResponse<TaxRate[]>;
+  }
+
+  /**
+   * Create a tax rate for a category
+   */
+  async createTaxRate(taxRateData: CreateTaxRateRequest): Promise<ApiResponse<TaxRate>> {
+    // 1. Validate input data
+    const validationResult = validateParams(CreateTaxRateSchema, taxRateData);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const validatedData = validationResult.data;
+
+    // 2. Execute creation
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'tax_rates',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'finance:tax:create',
+        enableLogging: true,
+      },
+      async () => {
+        const dbData = this.adapter.toSnakeCase({
+          name: validatedData.name,
+          categoryId: validatedData.categoryId,
+          rate: validatedData.rate,
+          isInclusive: validatedData.isInclusive !== false,
+          effectiveFrom: validatedData.effectiveFrom || new Date().toISOString(),
+          effectiveTo: validatedData.effectiveTo,
+          isActive: validatedData.isActive !== false,
+        });
+
+        return this.adapter.buildQuery('tax_rates')
+          .insert([dbData])
+          .select('*');
+      },
+      'write'
+    );
+
+    if (response.success) {
+      const taxRateArray = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: this.transformTaxRateFromDb(taxRateArray[0] as Record<string, unknown>)
+      };
+    }
+    return response as ApiResponse<TaxRate>;
+  }
+
+  /**
+   * Update a tax rate. Setting isActive to false retires it, so new income in its
+   * category is no longer taxed at that rate while past transactions keep theirs.
+   * expectedUpdatedAt is the rate's updatedAt as it was read; the update is refused
+   * (409) if the rate changed since.
+   */
+  async updateTaxRate(request: UpdateTaxRateRequest, expectedUpdatedAt: string): Promise<ApiResponse<TaxRate>> {
+    // 1. Validate input data
+    const validationResult = validateParams(UpdateTaxRateSchema, request);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { id, ...updates } = validationResult.data;
+    if (updates.effectiveFrom && updates.effectiveTo && new Date(updates.effectiveTo) <= new Date(updates.effectiveFrom)) {
+      return {
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/validation',
+          title: 'Validation Error',
+          status: 400,
+          detail: 'Effective end date must be after start date',
+          instance: `/api/finances/tax-rates/${id}`,
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
+      };
+    }
+
+    // 2. Execute update
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'tax_rates',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'finance:tax:update',
+        enableLogging: true,
+        expectedVersion: expectedUpdatedAt,
+      },
+      async () => {
+        const dbUpdates = this.adapter.toSnakeCase({
+          ...updates,
+          updatedAt: new Date().toISOString(),
+        });
+
+        const query = this.adapter.buildQuery('tax_rates')
+          .update(dbUpdates)
+          .eq('id', id);
+
+        return this.adapter.matchVersion(query, expectedUpdatedAt).select('*');
+      },
+      'write'
+    );
+
+    if (response.success) {
+      const taxRateArray = Array.isArray(response.data) ? response.data : [response.data];
+      if (!taxRateArray[0]) {
+        return {
+          success: false,
+          error: {
+            type: 'https://docs.trainstation-dashboard.com/errors/not-found',
+            title: 'Tax Rate Not Found',
+            status: 404,
+            detail: `Tax rate ${id} not found`,
+            instance: `/api/finances/tax-rates/${id}`,
+            timestamp: new Date().toISOString()
+          },
+          meta: {
+            requestId: crypto.randomUUID(),
+            source: 'validation'
+          }
+        };
+      }
+      return {
+        ...response,
+        data: this.transformTaxRateFromDb(taxRateArray[0] as Record<string, unknown>)
+      };
+    }
+    return response as ApiResponse<TaxRate>;
+  }
+
+  /**
+   * Tax liability for a filing period: output tax collected on sales vs. input tax paid on purchases.
+   * Expenses tagged `tax-remittance` are payments to the tax authority and reduce what is outstanding.
+   */
+  async getTaxLiabilityReport(
+    dateFrom?: string,
+    dateTo?: string,
+    period: TaxLiabilityReportRequest['period'] = 'quarterly'
+  ): Promise<ApiResponse<TaxLiabilityReport>> {
+    // 1. Validate input, defaulting to the current quarter
+    const now = new Date();
+    const validationResult = validateParams(TaxLiabilityReportSchema, {
+      dateRange: {
+        start: dateFrom || new Date(Date.UTC(now.getUTCFullYear(), Math.floor(now.getUTCMonth() / 3) * 3, 1)).toISOString(),
+        end: dateTo || now.toISOString(),
+      },
+      period,
+    });
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { dateRange } = validationResult.data;
+
+    // 2. Load posted transactions for the period
+    const transactionsResponse = await this.getLedgerTransactions(dateRange.end, dateRange.start);
+    if (!transactionsResponse.success) {
+      return transactionsResponse as ApiResponse<TaxLiabilityReport>;
+    }
+
+    const transactions = transactionsResponse.data;
+
+    // 3. Roll up by filing period and by category
+    const periodKey = (date: string) => {
+      const value = new Date(date);
+      const year = value.getUTCFullYear();
+      if (period === 'monthly') return `${year}-${String(value.getUTCMonth() + 1).padStart(2, '0')}`;
+      if (period === 'quarterly') return `${year}-Q${Math.floor(value.getUTCMonth() / 3) + 1}`;
+      return String(year);
+    };
+
+    const groupBy = (keyOf: (transaction: FinancialTransaction) => string) => {
+      const groups = new Map<string, FinancialTransaction[]>();
+      transactions.forEach(transaction => {
+        const key = keyOf(transaction);
+        groups.set(key, [...(groups.get(key) || []), transaction]);
+      });
+      return Array.from(groups.entries()).sort(([a], [b]) => a.localeCompare(b));
+    };
+
+    const periods = groupBy(transaction => periodKey(transaction.date))
+      .map(([key, group]) => ({ key, ...this.summarizeTax(group) }));
+
+    const categories = groupBy(transaction => transaction.categoryId)
+      .map(([categoryId, group]) => ({
+        categoryId,
+        rate: group.find(transaction => transaction.type === 'income' && transaction.taxRate !== undefined)?.taxRate,
+        ...this.summarizeTax(group),
+      }))
+      .filter(category => category.collected !== 0 || category.paid !== 0 || category.remitted !== 0);
+
+    return {
+      success: true,
+      data: {
+        dateRange: {
+          start: new Date(dateRange.start).toISOString(),
+          end: new Date(dateRange.end).toISOString(),
+        },
+        period,
+        periods,
+        categories,
+        totals: this.summarizeTax(transactions),
+        generatedAt: new Date().toISOString(),
+      },
+      meta: {
+        requestId: crypto.randomUUID(),
+        source: 'reporting'
+      }
+    };
+  }
+
+  /**
+   * Export the tax liability report as CSV for filing
+   */
+  async exportTaxLiabilityReport(
+    dateFrom?: string,
+    dateTo?: string,
+    period: TaxLiabilityReportRequest['period'] = 'quarterly'
+  ): Promise<ApiResponse<{ filename: string; contentType: string; content: string }>> {
+    const reportResponse = await this.getTaxLiabilityReport(dateFrom, dateTo, period);
+    if (!reportResponse.success) {
+      return reportResponse as ApiResponse<{ filename: string; contentType: string; content: string }>;
+    }
+
+    const report = reportResponse.data;
+    const header = ['Section', 'Key', 'Rate', 'Gross Sales', 'Tax Collected', 'Gross Purchases', 'Tax Paid', 'Remitted', 'Net Liability', 'Outstanding'];
+    const row = (section: string, key: string, summary: TaxLiabilitySummary, rate?: number) => [
+      section,
+      key,
+      rate !== undefined ? `${this.roundCurrency(rate * 100)}%` : '',
+      summary.grossSales.toFixed(2),
+      summary.collected.toFixed(2),
+      summary.grossPurchases.toFixed(2),
+      summary.paid.toFixed(2),
+      summary.remitted.toFixed(2),
+      summary.netLiability.toFixed(2),
+      summary.outstanding.toFixed(2),
+    ];
+
+    const rows = [
+      header,
+      ...report.periods.map(summary => row('Period', summary.key, summary)),
+      ...report.categories.map(summary => row('Category', summary.categoryId, summary, summary.rate)),
+      row('Total', `${report.dateRange.start.slice(0, 10)} to ${report.dateRange.end.slice(0, 10)}`, report.totals),
+    ];
+
+    const content = rows
+      .map(cells => cells.map(cell => (/[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell)).join(','))
+      .join('\n');
+
+    return {
+      success: true,
+      data: {
+        filename: `tax-liability-${report.dateRange.start.slice(0, 10)}-${report.dateRange.end.slice(0, 10)}.csv`,
+        contentType: 'text/csv',
+        content,
+      },
+      meta: reportResponse.meta
+    };
+  }
+
+  /**
+   * Find the active tax rate for a category on a given date
+   */
+  private async findTaxRate(categoryId: string, date: string): Promise<ApiResponse<TaxRate | undefined>> {
+    const taxRatesResponse = await this.getTaxRates();
+    if (!taxRatesResponse.success) {
+      return taxRatesResponse as ApiResponse<TaxRate | undefined>;
+    }
+
+    const transactionDate = new Date(date);
+    const taxRate = taxRatesResponse.data.find(rate =>
+      rate.isActive &&
+      rate.categoryId === categoryId &&
+      new Date(rate.effectiveFrom) <= transactionDate &&
+      (!rate.effectiveTo || new Date(rate.effectiveTo) >= transactionDate)
+    );
+
+    return {
+      ...taxRatesResponse,
+      data: taxRate
+    };
+  }
+
+  /**
+   * Roll up output tax, input tax and remittances for a set of transactions
+   */
+  private summarizeTax(transactions: FinancialTransaction[]): TaxLiabilitySummary {
+    let grossSales = 0;
+    let collected = 0;
+    let grossPurchases = 0;
+    let paid = 0;
+    let remitted = 0;
+
+    transactions.forEach(transaction => {
+      const taxAmount = transaction.taxAmount || 0;
+
+      if (transaction.type === 'expense' && transaction.tags.includes('tax-remittance')) {
+        remitted += transaction.amount;
+      } else if (transaction.type === 'income' && taxAmount > 0) {
+        grossSales += transaction.amount;
+        collected += taxAmount;
+      } else if (transaction.type === 'refund' && taxAmount > 0) {
+        grossSales -= transaction.amount;
+        collected -= taxAmount;
+      } else if (transaction.type === 'expense' && taxAmount > 0) {
+        grossPurchases += transaction.amount;
+        paid += taxAmount;
+      }
+    });
+
+    const netLiability = this.roundCurrency(collected - paid);
+
+    return {
+      grossSales: this.roundCurrency(grossSales),
+      collected: this.roundCurrency(collected),
+      grossPurchases: this.roundCurrency(grossPurchases),
+      paid: this.roundCurrency(paid),
+      remitted: this.roundCurrency(remitted),
+      netLiability,
+      outstanding: this.roundCurrency(netLiability - remitted),
+    };
+  }
+
+  /**
+   * Generate financial reports from the double-entry ledger
+   */
+  async generateReport(request: Partial<FinancialReportRequest> & { reportType: FinancialReportRequest['reportType'] }): Promise<ApiResponse<FinancialReport>> {
+    // 1. Validate report request with defaults
+    const requestWithDefaults = {
+      ...request,
+      dateRange: {
+        start: request.dateRange?.start || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
+        end: request.dateRange?.end || new Date().toISOString(),
+      }
+    };
+
+    const validationResult = validateParams(FinancialReportSchema, requestWithDefaults);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { reportType, dateRange, currency, compareToLastPeriod, groupBy, costingMethod } = validationResult.data;
+    const periodStart = new Date(dateRange.start);
+    const periodEnd = new Date(this.periodEndExclusive(dateRange.end).getTime() - 1);
+
+    if (periodEnd < periodStart) {
+      return {
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/validation',
+          title: 'Invalid Report Period',
+          status: 400,
+          detail: 'Report end date must be after start date',
+          instance: `/api/finances/reports/${reportType}`,
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
+      };
+    }
+
+    // 2. Load accounts and every posted transaction up to the end of the period.
+    // Balance sheet figures are cumulative, so history before the period is required.
+    const accountsResponse = await this.getAccounts();
+    if (!accountsResponse.success) {
+      return accountsResponse as ApiResponse<FinancialReport>;
+    }
+
+    const transactionsResponse = await this.getLedgerTransactions(dateRange.end);
+    if (!transactionsResponse.success) {
+      return transactionsResponse as ApiResponse<FinancialReport>;
+    }
+
+    const accounts = accountsResponse.data;
+    const entries = this.buildLedgerEntries(transactionsResponse.data, accounts);
+
+    // 3. Income statement figures for the period
+    const periodEntries = entries.filter(entry => this.isWithinPeriod(entry.date, periodStart, periodEnd));
+    let totals = this.summarizeIncome(periodEntries);
+
+    const categories = this.groupLedgerEntries(periodEntries, 'category', transactionsResponse.data)
+      .filter(group => {
+        if (reportType === 'expense_report') return group.expenses > 0;
+        if (reportType === 'revenue_report') return group.income > 0;
+        return true;
+      })
+      .map(group => {
+        const amount = reportType === 'expense_report' || (reportType !== 'revenue_report' && group.expenses > group.income)
+          ? group.expenses
+          : group.income;
+        const base = group.expenses > group.income ? totals.totalExpenses : totals.totalIncome;
+        return {
+          categoryId: group.key,
+          categoryName: group.label,
+          amount,
+          percentage: base > 0 ? Math.round((amount / base) * 10000) / 100 : 0,
+          transactionCount: group.transactionCount,
+        };
+      });
+
+    const accountSummaries = accounts.map(account => {
+      const accountEntries = entries.filter(entry => entry.accountId === account.id);
+      return {
+        accountId: account.id,
+        accountName: account.name,
+        balance: this.calculateAccountBalance(accountEntries, account.type),
+        transactions: new Set(
+          accountEntries
+            .filter(entry => this.isWithinPeriod(entry.date, periodStart, periodEnd))
+            .map(entry => entry.transactionId)
+        ).size,
+      };
+    });
+
+    const reportData: FinancialReport = {
+      reportType,
+      dateRange: {
+        start: periodStart.toISOString(),
+        end: periodEnd.toISOString(),
+      },
+      currency: currency ?? 'USD',
+      data: {
+        totalIncome: totals.totalIncome,
+        totalExpenses: totals.totalExpenses,
+        netIncome: totals.netIncome,
+        categories,
+        accounts: accountSummaries,
+        trends: {
+          monthlyTotals: this.groupLedgerEntries(periodEntries, 'month', transactionsResponse.data).map(group => ({
+            month: group.key,
+            income: group.income,
+            expenses: group.expenses,
+            net: group.net,
+          })),
+        },
+        groups: groupBy ? this.groupLedgerEntries(periodEntries, groupBy, transactionsResponse.data, accounts) : undefined,
+      },
+      generatedAt: new Date().toISOString(),
+    };
+
+    // 4. Statement-specific sections
+    if (reportType === 'balance_sheet') {
+      reportData.data.balanceSheet = this.buildBalanceSheet(entries, accounts, periodEnd);
+    }
+
+    if (reportType === 'cash_flow') {
+      reportData.data.cashFlow = this.buildCashFlow(entries, accounts, transactionsResponse.data, periodStart, periodEnd);
+    }
+
+    if (reportType === 'profit_loss') {
+      const profitAndLossResponse = await this.summarizeProfitAndLoss(
+        periodEntries, transactionsResponse.data, periodStart, periodEnd, costingMethod
+      );
+      if (!profitAndLossResponse.success) {
+        return profitAndLossResponse as unknown as ApiResponse<FinancialReport>;
+      }
+
+      const { costOfGoodsSold } = profitAndLossResponse.data;
+      totals = profitAndLossResponse.data.totals;
+      reportData.data.costOfGoodsSold = costOfGoodsSold;
+      reportData.data.grossProfit = this.roundCurrency(totals.totalIncome - costOfGoodsSold.total);
+      reportData.data.totalExpenses = totals.totalExpenses;
+      reportData.data.netIncome = totals.netIncome;
+    }
+
+    // 5. Period-over-period comparison against the preceding period of equal length
+    if (compareToLastPeriod) {
+      const periodLength = periodEnd.getTime() - periodStart.getTime();
+      const previousEnd = new Date(periodStart.getTime() - 1);
+      const previousStart = new Date(periodStart.getTime() - periodLength - 1);
+      const previousEntries = entries.filter(entry => this.isWithinPeriod(entry.date, previousStart, previousEnd));
+      let previousTotals = this.summarizeIncome(previousEntries);
+
+      // The profit & loss compares like with like: both periods expense the stock used
+      if (reportType === 'profit_loss') {
+        const previousResponse = await this.summarizeProfitAndLoss(
+          previousEntries, transactionsResponse.data, previousStart, previousEnd, costingMethod
+        );
+        if (!previousResponse.success) {
+          return previousResponse as unknown as ApiResponse<FinancialReport>;
+        }
+        previousTotals = previousResponse.data.totals;
+      }
+
+      reportData.comparison = {
+        dateRange: {
+          start: previousStart.toISOString(),
+          end: previousEnd.toISOString(),
+        },
+        ...previousTotals,
+        change: {
+          totalIncome: this.roundCurrency(totals.totalIncome - previousTotals.totalIncome),
+          totalExpenses: this.roundCurrency(totals.totalExpenses - previousTotals.totalExpenses),
+          netIncome: this.roundCurrency(totals.netIncome - previousTotals.netIncome),
+        },
+        percentChange: {
+          totalIncome: this.percentChange(totals.totalIncome, previousTotals.totalIncome),
+          totalExpenses: this.percentChange(totals.totalExpenses, previousTotals.totalExpenses),
+          netIncome: this.percentChange(totals.netIncome, previousTotals.netIncome),
+        },
+      };
+    }
+
+    return {
+      success: true,
+      data: reportData,
+      meta: {
         requestId: crypto.randomUUID(),
         source: 'reporting'
       }
@@ -671,31 +2692,652 @@ export class FinanceService {
   /**
    * Get Profit and Loss Report
    */
-  async getProfitAndLossReport(dateFrom?: string, dateTo?: string): Promise<ApiResponse<FinancialReport>> {
-    return this.generateReport('profit_loss', dateFrom, dateTo);
+  async getProfitAndLossReport(
+    dateFrom?: string,
+    dateTo?: string,
+    groupBy?: FinancialReportRequest['groupBy'],
+    costingMethod?: FinancialReportRequest['costingMethod']
+  ): Promise<ApiResponse<FinancialReport>> {
+    return this.generateReport({
+      reportType: 'profit_loss',
+      dateRange: { start: dateFrom!, end: dateTo! },
+      groupBy,
+      costingMethod,
+    });
   }
 
   /**
    * Get Balance Sheet Report
    */
   async getBalanceSheetReport(dateFrom?: string, dateTo?: string): Promise<ApiResponse<FinancialReport>> {
-    return this.generateReport('balance_sheet', dateFrom, dateTo);
+    return this.generateReport({
+      reportType: 'balance_sheet',
+      dateRange: { start: dateFrom!, end: dateTo! },
+    });
   }
 
   /**
    * Get Cash Flow Report
    */
   async getCashFlowReport(dateFrom?: string, dateTo?: string): Promise<ApiResponse<FinancialReport>> {
-    return this.generateReport('cash_flow', dateFrom, dateTo);
+    return this.generateReport({
+      reportType: 'cash_flow',
+      dateRange: { start: dateFrom!, end: dateTo! },
+    });
+  }
+
+  /**
+   * Get all posted transactions dated on or before the given date.
+   * Recurring series are templates, and skipped occurrences and transactions awaiting
+   * budget approval were never posted, so all three are excluded.
+   */
+  private async getLedgerTransactions(dateTo: string, dateFrom?: string): Promise<ApiResponse<FinancialTransaction[]>> {
+    const response = await this.adapter.readAll(
+      {
+        tableName: 'financial_transactions',
+        rateLimitKey: 'finance:reports:read',
+        enableLogging: true,
+      },
+      () => {
+        let query = this.adapter.buildQuery('financial_transactions', {
+          select: '*',
+          orderBy: { column: 'date', ascending: true }
+        })
+          .order('id', { ascending: true })
+          .lt('date', this.periodEndExclusive(dateTo).toISOString())
+          .not('status', 'in', '(cancelled,skipped,awaiting_approval)')
+          .not('is_recurring', 'is', true);
+
+        if (dateFrom) {
+          query = query.gte('date', dateFrom);
+        }
+
+        return query;
+      }
+    );
+
+    if (response.success) {
+      return {
+        ...response,
+        data: response.data.map(transaction => this.transformTransactionFromDb(transaction as Record<string, unknown>))
+      };
+    }
+    return response as ApiResponse<FinancialTransaction[]>;
+  }
+
+  /**
+   * First instant after a period end. A date-only end covers that whole day.
+   */
+  private periodEndExclusive(end: string): Date {
+    const date = new Date(end);
+    if (/^\d{4}-\d{2}-\d{2}$/.test(end.trim())) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      return date;
+    }
+    return new Date(date.getTime() + 1);
+  }
+
+  /**
+   * Post each transaction as balanced debit/credit entries.
+   * Income and expense categories act as the revenue/expense side of the posting,
+   * the transaction account is the balance sheet side.
+   */
+  private buildLedgerEntries(transactions: FinancialTransaction[], accounts: Account[]): LedgerEntry[] {
+    const accountTypes = new Map(accounts.map(account => [account.id, account.type]));
+    const entries: LedgerEntry[] = [];
+
+    transactions.forEach(transaction => {
+      const amount = Math.abs(transaction.amount || 0);
+      if (amount === 0) return;
+
+      type Leg = { accountId: string; accountType: LedgerEntry['accountType']; amount: number };
+      const categoryKey = `category:${transaction.categoryId || 'uncategorized'}`;
+      const post = (normalDebits: Leg[], normalCredits: Leg[]) => {
+        // A negative amount reverses the usual posting rather than being dropped
+        const [debits, credits] = transaction.amount < 0 ? [normalCredits, normalDebits] : [normalDebits, normalCredits];
+        const line = (leg: Leg, side: 'debit' | 'credit') => {
+          if (leg.amount === 0) return;
+          entries.push({
+            transactionId: transaction.id,
+            date: transaction.date,
+            accountId: leg.accountId,
+            accountType: leg.accountType,
+            categoryId: transaction.categoryId,
+            debit: side === 'debit' ? leg.amount : 0,
+            credit: side === 'credit' ? leg.amount : 0,
+          });
+        };
+        debits.forEach(leg => line(leg, 'debit'));
+        credits.forEach(leg => line(leg, 'credit'));
+      };
+
+      const account = {
+        accountId: transaction.accountId,
+        accountType: accountTypes.get(transaction.accountId) || 'asset' as const,
+      };
+
+      // Sales tax on income and refunds is owed to the tax authority, so only the net is revenue
+      const tax = transaction.type === 'income' || transaction.type === 'refund'
+        ? Math.abs(transaction.taxAmount || 0)
+        : 0;
+      const gross = this.roundCurrency(Math.abs(this.grossAmount(transaction)));
+      const net = this.roundCurrency(gross - tax);
+      const salesTax = { accountId: SALES_TAX_LEDGER_ACCOUNT, accountType: 'liability' as const, amount: tax };
+
+      switch (transaction.type) {
+        case 'income':
+          post([{ ...account, amount: gross }], [{ accountId: categoryKey, accountType: 'revenue', amount: net }, salesTax]);
+          break;
+        case 'expense':
+          post([{ accountId: categoryKey, accountType: 'expense', amount }], [{ ...account, amount }]);
+          break;
+        case 'refund':
+          // Refunds are contra-revenue: they reduce the income category they were paid from
+          post([{ accountId: categoryKey, accountType: 'revenue', amount: net }, salesTax], [{ ...account, amount: gross }]);
+          break;
+        case 'transfer':
+          if (!transaction.toAccountId) return;
+          post(
+            [{
+              accountId: transaction.toAccountId,
+              accountType: accountTypes.get(transaction.toAccountId) || 'asset',
+              amount,
+            }],
+            [{ ...account, amount }]
+          );
+          break;
+        case 'adjustment':
+          post([{ ...account, amount }], [{ accountId: 'equity:adjustments', accountType: 'equity', amount }]);
+          break;
+      }
+    });
+
+    return entries;
+  }
+
+  /**
+   * Balance of an account in its normal-balance direction
+   */
+  private calculateAccountBalance(entries: LedgerEntry[], accountType: LedgerEntry['accountType']): number {
+    const debits = entries.reduce((sum, entry) => sum + entry.debit, 0);
+    const credits = entries.reduce((sum, entry) => sum + entry.credit, 0);
+    const isDebitNormal = accountType === 'asset' || accountType === 'expense';
+    return this.roundCurrency(isDebitNormal ? debits - credits : credits - debits);
+  }
+
+  /**
+   * Sum revenue and expense postings into income statement totals
+   */
+  private summarizeIncome(entries: LedgerEntry[]): IncomeTotals {
+    const totalIncome = this.calculateAccountBalance(entries.filter(entry => entry.accountType === 'revenue'), 'revenue');
+    const totalExpenses = this.calculateAccountBalance(entries.filter(entry => entry.accountType === 'expense'), 'expense');
+    return {
+      totalIncome,
+      totalExpenses,
+      netIncome: this.roundCurrency(totalIncome - totalExpenses),
+    };
+  }
+
+  /**
+   * Income statement totals for the profit & loss. Deliveries are expensed when
+   * received; here the stock used is expensed instead, as cost of goods sold and
+   * shrinkage, so the purchases are taken out of expenses.
+   */
+  private async summarizeProfitAndLoss(
+    entries: LedgerEntry[],
+    transactions: FinancialTransaction[],
+    periodStart: Date,
+    periodEnd: Date,
+    costingMethod?: FinancialReportRequest['costingMethod']
+  ): Promise<ApiResponse<ProfitAndLossSummary>> {
+    const cogsResponse = await inventoryService.getCostOfGoodsSold({
+      dateFrom: periodStart.toISOString(),
+      dateTo: periodEnd.toISOString(),
+      method: costingMethod,
+    });
+    if (!cogsResponse.success) {
+      return cogsResponse as unknown as ApiResponse<ProfitAndLossSummary>;
+    }
+
+    const transactionsById = new Map(transactions.map(transaction => [transaction.id, transaction]));
+    const stockPurchases = this.calculateAccountBalance(
+      entries.filter(entry =>
+        entry.accountType === 'expense' && transactionsById.get(entry.transactionId)?.tags?.includes('purchasing')
+      ),
+      'expense'
+    );
+
+    const costOfGoodsSold: CostOfGoodsSummary = {
+      method: cogsResponse.data.method,
+      total: cogsResponse.data.total,
+      shrinkage: cogsResponse.data.shrinkage,
+      stockPurchases,
+      openingInventory: cogsResponse.data.openingValue,
+      closingInventory: cogsResponse.data.closingValue,
+      inventoryChange: this.roundCurrency(cogsResponse.data.closingValue - cogsResponse.data.openingValue),
+    };
+
+    const income = this.summarizeIncome(entries);
+    const totalExpenses = this.roundCurrency(
+      income.totalExpenses - stockPurchases + costOfGoodsSold.total + costOfGoodsSold.shrinkage
+    );
+    return {
+      success: true,
+      data: {
+        totals: {
+          totalIncome: income.totalIncome,
+          totalExpenses,
+          netIncome: this.roundCurrency(income.totalIncome - totalExpenses),
+        },
+        costOfGoodsSold,
+      },
+      meta: {
+        requestId: crypto.randomUUID(),
+        source: 'reporting'
+      }
+    };
+  }
+
+  /**
+   * Group income statement postings by category, account, month or quarter
+   */
+  private groupLedgerEntries(
+    entries: LedgerEntry[],
+    groupBy: NonNullable<FinancialReportRequest['groupBy']>,
+    transactions: FinancialTransaction[],
+    accounts: Account[] = []
+  ): FinancialReportGroup[] {
+    const transactionsById = new Map(transactions.map(transaction => [transaction.id, transaction]));
+    const accountNames = new Map(accounts.map(account => [account.id, account.name]));
+    const groups = new Map<string, FinancialReportGroup & { transactionIds: Set<string> }>();
+
+    entries
+      .filter(entry => entry.accountType === 'revenue' || entry.accountType === 'expense')
+      .forEach(entry => {
+        const transaction = transactionsById.get(entry.transactionId);
+        const date = new Date(entry.date);
+        let key: string;
+        let label: string;
+
+        switch (groupBy) {
+          case 'category':
+            key = entry.categoryId || 'uncategorized';
+            label = transaction?.category?.name || key;
+            break;
+          case 'account':
+            key = transaction?.accountId || 'unassigned';
+            label = accountNames.get(key) || key;
+            break;
+          case 'month':
+            key = `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+            label = key;
+            break;
+          case 'quarter':
+            key = `${date.getUTCFullYear()}-Q${Math.floor(date.getUTCMonth() / 3) + 1}`;
+            label = key;
+            break;
+        }
+
+        const group = groups.get(key) || {
+          key,
+          label,
+          income: 0,
+          expenses: 0,
+          net: 0,
+          transactionCount: 0,
+          transactionIds: new Set<string>(),
+        };
+
+        if (entry.accountType === 'revenue') {
+          group.income += entry.credit - entry.debit;
+        } else {
+          group.expenses += entry.debit - entry.credit;
+        }
+        group.transactionIds.add(entry.transactionId);
+        groups.set(key, group);
+      });
+
+    return Array.from(groups.values())
+      .map(({ transactionIds, ...group }) => ({
+        ...group,
+        income: this.roundCurrency(group.income),
+        expenses: this.roundCurrency(group.expenses),
+        net: this.roundCurrency(group.income - group.expenses),
+        transactionCount: transactionIds.size,
+      }))
+      .sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  /**
+   * Build the balance sheet as of a date. Undistributed net income is carried
+   * in equity as retained earnings so that assets = liabilities + equity.
+   */
+  private buildBalanceSheet(entries: LedgerEntry[], accounts: Account[], asOf: Date): BalanceSheetSummary {
+    const cumulativeEntries = entries.filter(entry => new Date(entry.date) <= asOf);
+    const accountNames = new Map(accounts.map(account => [account.id, account.name]));
+
+    const balancesFor = (accountType: 'asset' | 'liability' | 'equity') => {
+      const accountIds = new Set(
+        cumulativeEntries.filter(entry => entry.accountType === accountType).map(entry => entry.accountId)
+      );
+      return Array.from(accountIds).map(accountId => ({
+        accountId,
+        accountName: accountNames.get(accountId) || LEDGER_ACCOUNT_NAMES[accountId] || accountId,
+        balance: this.calculateAccountBalance(
+          cumulativeEntries.filter(entry => entry.accountId === accountId),
+          accountType
+        ),
+      }));
+    };
+
+    const assets = balancesFor('asset');
+    const liabilities = balancesFor('liability');
+    const equity = balancesFor('equity');
+    const retainedEarnings = this.summarizeIncome(cumulativeEntries).netIncome;
+
+    const totalAssets = this.roundCurrency(assets.reduce((sum, account) => sum + account.balance, 0));
+    const totalLiabilities = this.roundCurrency(liabilities.reduce((sum, account) => sum + account.balance, 0));
+    const totalEquity = this.roundCurrency(equity.reduce((sum, account) => sum + account.balance, 0) + retainedEarnings);
+    const difference = this.roundCurrency(totalAssets - (totalLiabilities + totalEquity));
+
+    return {
+      asOf: asOf.toISOString(),
+      assets,
+      liabilities,
+      equity,
+      retainedEarnings,
+      totalAssets,
+      totalLiabilities,
+      totalEquity,
+      isBalanced: Math.abs(difference) < 0.01,
+      difference,
+    };
+  }
+
+  /**
+   * Build the cash flow statement from movements in cash-type asset accounts
+   */
+  private buildCashFlow(
+    entries: LedgerEntry[],
+    accounts: Account[],
+    transactions: FinancialTransaction[],
+    periodStart: Date,
+    periodEnd: Date
+  ): CashFlowSummary {
+    const accountsById = new Map(accounts.map(account => [account.id, account]));
+    const transactionsById = new Map(transactions.map(transaction => [transaction.id, transaction]));
+    const isCashAccount = (accountId: string) => {
+      const account = accountsById.get(accountId);
+      if (!account) return !accountId.includes(':');
+      return account.type === 'asset' && ['checking', 'savings', 'cash'].includes(account.subtype);
+    };
+
+    const cashEntries = entries.filter(entry => entry.accountType === 'asset' && isCashAccount(entry.accountId));
+    const openingCash = this.calculateAccountBalance(
+      cashEntries.filter(entry => new Date(entry.date) < periodStart),
+      'asset'
+    );
+
+    let operating = 0;
+    let investing = 0;
+    let financing = 0;
+
+    cashEntries
+      .filter(entry => this.isWithinPeriod(entry.date, periodStart, periodEnd))
+      .forEach(entry => {
+        const cashChange = entry.debit - entry.credit;
+        const transaction = transactionsById.get(entry.transactionId);
+
+        if (transaction?.type === 'transfer') {
+          const counterpartyId = transaction.accountId === entry.accountId ? transaction.toAccountId : transaction.accountId;
+          if (!counterpartyId || isCashAccount(counterpartyId)) return; // Moves between cash accounts net to zero
+
+          const counterparty = accountsById.get(counterpartyId);
+          if (counterparty?.type === 'liability' || counterparty?.type === 'equity') {
+            financing += cashChange;
+          } else {
+            investing += cashChange;
+          }
+        } else if (transaction?.type === 'adjustment') {
+          financing += cashChange;
+        } else {
+          operating += cashChange;
+        }
+      });
+
+    const netChange = this.roundCurrency(operating + investing + financing);
+
+    return {
+      openingCash,
+      closingCash: this.roundCurrency(openingCash + netChange),
+      operating: this.roundCurrency(operating),
+      investing: this.roundCurrency(investing),
+      financing: this.roundCurrency(financing),
+      netChange,
+    };
+  }
+
+  private isWithinPeriod(date: string, periodStart: Date, periodEnd: Date): boolean {
+    const value = new Date(date);
+    return value >= periodStart && value <= periodEnd;
+  }
+
+  private percentChange(current: number, previous: number): number | null {
+    if (previous === 0) return null;
+    return Math.round(((current - previous) / Math.abs(previous)) * 10000) / 100;
+  }
+
+  private roundCurrency(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
+  /**
+   * Load the active budgets an expense counts against and claim the hard-limit ones
+   * with a conditional write. A claim held by another request is retried briefly,
+   * then the expense is refused with a 409 rather than checked against stale spending.
+   */
+  private async claimBudgets(
+    transaction: Pick<FinancialTransaction, 'categoryId' | 'accountId'>,
+    instance: string
+  ): Promise<ApiResponse<BudgetClaim>> {
+    const budgetsResponse = await this.getBudgets();
+    if (!budgetsResponse.success) {
+      return budgetsResponse as ApiResponse<BudgetClaim>;
+    }
+
+    const claim: BudgetClaim = {
+      budgets: budgetsResponse.data.filter(budget =>
+        budget.isActive &&
+        budget.categoryId === transaction.categoryId &&
+        (!budget.accountId || budget.accountId === transaction.accountId)
+      ),
+      token: crypto.randomUUID(),
+      claimedIds: [],
+    };
+
+    for (const budget of claim.budgets.filter(budget => budget.limitType === 'hard')) {
+      let claimed = false;
+      for (let attempt = 0; attempt < MAX_BUDGET_CLAIM_ATTEMPTS && !claimed; attempt++) {
+        if (attempt > 0) {
+          await new Promise(resolve => setTimeout(resolve, attempt * 100));
+        }
+
+        const now = new Date();
+        const response = await this.adapter.executeQuery(
+          {
+            tableName: 'budgets',
+            requiredRole: UserRole.STAFF,
+            rateLimitKey: 'finance:budgets:claim',
+            enableLogging: false,
+          },
+          async () => {
+            return this.adapter.buildQuery('budgets')
+              .update({ spend_claim: claim.token, spend_claimed_at: now.toISOString() })
+              .eq('id', budget.id)
+              .or(`spend_claim.is.null,spend_claimed_at.lt.${new Date(now.getTime() - BUDGET_CLAIM_TTL_MS).toISOString()}`)
+              .select('id');
+          },
+          'write'
+        );
+
+        if (!response.success) {
+          const releaseWarning = await this.releaseBudgets(claim);
+          return {
+            ...response,
+            error: { ...response.error, detail: joinWarnings(response.error.detail, releaseWarning) }
+          } as ApiResponse<BudgetClaim>;
+        }
+        claimed = Array.isArray(response.data) && response.data.length > 0;
+      }
+
+      if (!claimed) {
+        const releaseWarning = await this.releaseBudgets(claim);
+        return {
+          success: false,
+          error: {
+            type: 'https://docs.trainstation-dashboard.com/errors/conflict',
+            title: 'Budget Busy',
+            status: 409,
+            detail: joinWarnings(`Another expense against budget "${budget.name}" is being recorded, please try again`, releaseWarning),
+            instance,
+            timestamp: new Date().toISOString()
+          },
+          meta: {
+            requestId: crypto.randomUUID(),
+            source: 'budget-validation'
+          }
+        };
+      }
+      claim.claimedIds.push(budget.id);
+    }
+
+    return {
+      success: true,
+      data: claim,
+      meta: {
+        requestId: crypto.randomUUID(),
+        source: 'budget-validation'
+      }
+    };
+  }
+
+  /**
+   * Give up the budgets claimed for an expense. Only this request's claim is cleared.
+   * Returns a warning for the caller when the claim could not be cleared.
+   */
+  private async releaseBudgets(claim: BudgetClaim): Promise<string | undefined> {
+    if (claim.claimedIds.length === 0) return undefined;
+
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'budgets',
+        requiredRole: UserRole.STAFF,
+        rateLimitKey: 'finance:budgets:claim',
+        enableLogging: false,
+      },
+      async () => {
+        return this.adapter.buildQuery('budgets')
+          .update({ spend_claim: null, spend_claimed_at: null })
+          .in('id', claim.claimedIds)
+          .eq('spend_claim', claim.token)
+          .select('id');
+      },
+      'write'
+    );
+
+    claim.claimedIds = [];
+
+    // A claim that could not be cleared lapses after BUDGET_CLAIM_TTL_MS
+    if (!response.success) {
+      return `Budgets stay reserved for ${BUDGET_CLAIM_TTL_MS / 1000} seconds: ${response.error.detail || response.error.title}`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Check an expense against the budgets it counts against. When an existing
+   * transaction is being edited its current amount is left out of the spending.
+   */
+  private async checkBudgetCompliance(
+    transaction: Pick<FinancialTransaction, 'type' | 'amount' | 'date'>,
+    budgets: Budget[],
+    excludeTransactionId?: string
+  ): Promise<BudgetComplianceResult> {
+    const transactionDate = new Date(transaction.date || new Date().toISOString());
+
+    const warnings: string[] = [];
+    let checkedBudgetId: string | undefined;
+
+    for (const budget of budgets) {
+      const [period] = this.getBudgetPeriods(budget, transactionDate, transactionDate);
+      if (!period) continue;
+
+      const transactionsResponse = await this.getLedgerTransactions(period.end.toISOString(), period.start.toISOString());
+      if (!transactionsResponse.success) {
+        return { valid: false, reason: 'Unable to load budget spending to check compliance' };
+      }
+
+      const spent = this.sumBudgetSpend(
+        budget,
+        transactionsResponse.data.filter(existing => existing.id !== excludeTransactionId),
+        period.start,
+        period.end
+      );
+      const check = validateFinanceBusinessRules.checkBudgetCompliance(transaction, { ...budget, spent });
+      checkedBudgetId = checkedBudgetId || budget.id;
+
+      // A single breached hard limit is enough to hold the transaction
+      if (check.requiresApproval) {
+        return { valid: true, requiresApproval: true, reason: check.reason, budgetId: budget.id };
+      }
+      if (check.warning) {
+        warnings.push(check.warning);
+      }
+    }
+
+    return {
+      valid: true,
+      warning: warnings.length > 0 ? warnings.join('; ') : undefined,
+      budgetId: checkedBudgetId,
+    };
+  }
+
+  /**
+   * Split a budget into its monthly/quarterly/yearly periods that overlap [from, to]
+   */
+  private getBudgetPeriods(budget: Budget, from: Date, to: Date): Array<{ start: Date; end: Date }> {
+    const budgetEnd = new Date(budget.endDate);
+    const pattern = { frequency: budget.period, interval: 1 };
+    const periods: Array<{ start: Date; end: Date }> = [];
+
+    for (let index = 0; index < MAX_RECURRING_OCCURRENCES; index++) {
+      const start = new Date(validateFinanceBusinessRules.getOccurrenceDate(budget.startDate, pattern, index));
+      if (start > budgetEnd || start > to) break;
+
+      const nextStart = new Date(validateFinanceBusinessRules.getOccurrenceDate(budget.startDate, pattern, index + 1));
+      const end = new Date(Math.min(nextStart.getTime() - 1, budgetEnd.getTime()));
+      if (end >= from) {
+        periods.push({ start, end });
+      }
+    }
+
+    return periods;
   }
 
   /**
-   * Check budget compliance for a transaction
+   * Expense spending counted against a budget within a period
    */
-  private async checkBudgetCompliance(transaction: CreateTransactionRequest): Promise<{ valid: boolean; reason?: string }> {
-    // This would implement budget checking logic
-    // For now, return a simple validation
-    return { valid: true };
+  private sumBudgetSpend(budget: Budget, transactions: FinancialTransaction[], periodStart: Date, periodEnd: Date): number {
+    const spent = transactions
+      .filter(transaction =>
+        transaction.type === 'expense' &&
+        transaction.categoryId === budget.categoryId &&
+        (!budget.accountId || transaction.accountId === budget.accountId) &&
+        this.isWithinPeriod(transaction.date, periodStart, periodEnd)
+      )
+      .reduce((sum, transaction) => sum + transaction.amount, 0);
+
+    return this.roundCurrency(spent);
   }
 
   /**
@@ -729,20 +3371,37 @@ export class FinanceService {
       id: camelCaseTransaction.id as string,
       type: camelCaseTransaction.type as 'income' | 'expense' | 'transfer' | 'adjustment' | 'refund',
       category: camelCaseTransaction.category as string,
+      categoryId: (camelCaseTransaction.categoryId || camelCaseTransaction.category) as string,
       amount: camelCaseTransaction.amount as number,
       description: camelCaseTransaction.description as string,
       date: camelCaseTransaction.date as string,
       accountId: camelCaseTransaction.accountId as string,
       transferToAccountId: camelCaseTransaction.transferToAccountId as string || undefined,
+      toAccountId: (camelCaseTransaction.toAccountId || camelCaseTransaction.transferToAccountId) as string || undefined,
       reference: camelCaseTransaction.reference as string || undefined,
       taxAmount: camelCaseTransaction.taxAmount as number || undefined,
       taxRate: camelCaseTransaction.taxRate as number || undefined,
-      status: camelCaseTransaction.status as 'pending' | 'approved' | 'cancelled' | 'processing' | 'completed',
+      taxInclusive: camelCaseTransaction.taxInclusive !== false,
+      status: camelCaseTransaction.status as 'pending' | 'awaiting_approval' | 'approved' | 'cancelled' | 'processing' | 'completed',
+      isApproved: camelCaseTransaction.isApproved as boolean || camelCaseTransaction.status === 'approved',
+      budgetId: camelCaseTransaction.budgetId as string || undefined,
+      requiresApproval: camelCaseTransaction.requiresApproval as boolean || false,
+      isReconciled: camelCaseTransaction.isReconciled as boolean || false,
+      reconciledAt: camelCaseTransaction.reconciledAt as string || undefined,
+      statementReference: camelCaseTransaction.statementReference as string || undefined,
+      toAccountReconciled: camelCaseTransaction.toAccountReconciled as boolean || false,
+      toAccountStatementReference: camelCaseTransaction.toAccountStatementReference as string || undefined,
       approvedBy: camelCaseTransaction.approvedBy as string || undefined,
       approvedAt: camelCaseTransaction.approvedAt as string || undefined,
       receiptUrl: camelCaseTransaction.receiptUrl as string || undefined,
       notes: camelCaseTransaction.notes as string || undefined,
       tags: camelCaseTransaction.tags as string[] || [],
+      isRecurring: camelCaseTransaction.isRecurring as boolean || false,
+      recurringPattern: camelCaseTransaction.recurringPattern as FinancialTransaction['recurringPattern'] || undefined,
+      recurringSeriesId: camelCaseTransaction.recurringSeriesId as string || undefined,
+      occurrenceIndex: camelCaseTransaction.occurrenceIndex as number ?? undefined,
+      occurrenceDate: camelCaseTransaction.occurrenceDate as string || undefined,
+      isModified: camelCaseTransaction.isModified as boolean || false,
       metadata: camelCaseTransaction.metadata as Record<string, unknown> || undefined,
       createdBy: camelCaseTransaction.createdBy as string,
       createdAt: camelCaseTransaction.createdAt as string,
@@ -760,6 +3419,7 @@ export class FinanceService {
       id: camelCaseAccount.id as string,
       name: camelCaseAccount.name as string,
       type: camelCaseAccount.type as 'asset' | 'liability' | 'equity' | 'revenue' | 'expense',
+      subtype: camelCaseAccount.subtype as string,
       number: camelCaseAccount.number as string || undefined,
       description: camelCaseAccount.description as string || undefined,
       parentId: camelCaseAccount.parentId as string || undefined,
@@ -771,6 +3431,26 @@ export class FinanceService {
     };
   }
 
+  /**
+   * Transform database tax rate to API format
+   */
+  private transformTaxRateFromDb(dbTaxRate: Record<string, unknown>): TaxRate {
+    const camelCaseTaxRate = this.adapter.toCamelCase(dbTaxRate);
+
+    return {
+      id: camelCaseTaxRate.id as string,
+      name: camelCaseTaxRate.name as string,
+      categoryId: camelCaseTaxRate.categoryId as string,
+      rate: Number(camelCaseTaxRate.rate),
+      isInclusive: camelCaseTaxRate.isInclusive !== false,
+      effectiveFrom: camelCaseTaxRate.effectiveFrom as string,
+      effectiveTo: camelCaseTaxRate.effectiveTo as string || undefined,
+      isActive: camelCaseTaxRate.isActive as boolean,
+      createdAt: camelCaseTaxRate.createdAt as string,
+      updatedAt: camelCaseTaxRate.updatedAt as string,
+    };
+  }
+
   /**
    * Transform database budget to API format
    */
@@ -780,14 +3460,16 @@ export class FinanceService {
     return {
       id: camelCaseBudget.id as string,
       name: camelCaseBudget.name as string,
-      category: camelCaseBudget.category as string,
+      categoryId: (camelCaseBudget.categoryId || camelCaseBudget.category) as string,
+      accountId: camelCaseBudget.accountId as string || undefined,
       amount: camelCaseBudget.amount as number,
-      spent: camelCaseBudget.spent as number,
-      periodStart: camelCaseBudget.periodStart as string,
-      periodEnd: camelCaseBudget.periodEnd as string,
-      alertThreshold: camelCaseBudget.alertThreshold as number,
+      period: camelCaseBudget.period as 'monthly' | 'quarterly' | 'yearly' || 'monthly',
+      startDate: (camelCaseBudget.startDate || camelCaseBudget.periodStart) as string,
+      endDate: (camelCaseBudget.endDate || camelCaseBudget.periodEnd) as string,
+      alertThreshold: camelCaseBudget.alertThreshold as number ?? 0.8,
+      limitType: camelCaseBudget.limitType as 'soft' | 'hard' || 'soft',
       isActive: camelCaseBudget.isActive as boolean,
-      notes: camelCaseBudget.notes as string || undefined,
+      spent: camelCaseBudget.spent as number || undefined,
       createdAt: camelCaseBudget.createdAt as string,
       updatedAt: camelCaseBudget.updatedAt as string,
     };
@@ -10,7 +10,23 @@ import {
   CreateTransactionSchema,
   CreateCategorySchema,
   AlertConfigSchema,
+  InventoryValuationQuerySchema,
+  CostOfGoodsSoldQuerySchema,
+  BulkStockAdjustmentSchema,
+  TransferStockSchema,
+  UpdateLocationLevelsSchema,
+  StockAlertQuerySchema,
+  StockAlertIdSchema,
+  AcknowledgeAlertSchema,
+  SnoozeAlertSchema,
+  AssignAlertSchema,
   validateInventoryBusinessRules,
+  calculateCostFlow,
+  SHRINKAGE_TRANSACTION_TYPES,
+  DEFAULT_STOCK_LOCATION,
+  getLocationStock,
+  moveLocationStock,
+  getStockAlertKey,
   type CreateInventoryRequest,
   type UpdateInventoryRequest,
   type InventoryQueryRequest,
@@ -21,10 +37,44 @@ import {
   type CreateCategoryRequest,
   type StockAlert,
   type BulkStockAdjustmentRequest,
+  type BulkStockAdjustmentResult,
+  type TransferStockRequest,
+  type UpdateLocationLevelsRequest,
+  type StockAlertQuery,
+  type StockAlertEvent,
+  type AcknowledgeAlertRequest,
+  type SnoozeAlertRequest,
+  type AssignAlertRequest,
+  type LocationStockLevel,
   type StockAlertRequest,
   type EnhancedInventoryItem,
+  type InventoryUnit,
+  type CostingMethod,
+  type CostFlow,
+  type StockMovement,
+  type InventoryValuationQuery,
+  type InventoryValuation,
+  type InventoryValuationLine,
+  type CostOfGoodsSoldQuery,
+  type CostOfGoodsSold,
+  type InventoryItemMetrics,
 } from '../schemas/inventorySchemas';
-import { ValidationError } from '../errors';
+import type { ValidationError } from '../errors';
+import { trashService } from './trashService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const STOCK_UPDATE_ATTEMPTS = 3; // Conditional stock updates retried when a concurrent movement wins
+const ALERT_RESOLVE_ATTEMPTS = 3; // Resolving an alert retried when someone changed it meanwhile
+
+// An inventory item as far as costing is concerned
+interface CostedItem {
+  id: string;
+  name: string;
+  sku?: string;
+  costPrice: number;
+  sellPrice?: number;
+  createdAt: string;
+}
 
 export class InventoryService {
   private adapter: SupabaseAdapter;
@@ -49,7 +99,7 @@ export class InventoryService {
       return validationResult.error;
     }
 
-    const { limit, offset, category, status, supplier, lowStock, search } = validationResult.data;
+    const { limit, offset, cursor, category, status, supplier, lowStock, search } = validationResult.data;
 
     // 2. Build query options
     const queryOptions: QueryOptions = {
@@ -61,6 +111,8 @@ export class InventoryService {
       orderBy: { column: 'name', ascending: true },
       limit,
       offset,
+      cursor: cursor ?? null,
+      count: 'exact',
       filters: {}
     };
 
@@ -75,6 +127,7 @@ export class InventoryService {
         tableName: 'inventory_items',
         rateLimitKey: 'inventory:read',
         enableLogging: true,
+        pagination: queryOptions,
       },
       async () => {
         let query = this.adapter.buildQuery('inventory_items', queryOptions);
@@ -223,10 +276,13 @@ export class InventoryService {
           maxStock: validatedData.maxStock,
           reorderPoint: validatedData.reorderPoint,
           reorderQuantity: validatedData.reorderQuantity,
-          unitOfMeasurement: validatedData.unitOfMeasurement,
+          unitOfMeasurement: validatedData.unit,
+          packSize: validatedData.packSize,
+          packUnit: validatedData.packUnit,
           costPrice: validatedData.costPrice,
           sellPrice: validatedData.sellPrice,
           supplier: validatedData.supplier,
+          supplierId: validatedData.supplierId,
           supplierSku: validatedData.supplierSku,
           location: validatedData.location,
           status: validatedData.status || 'active',
@@ -252,9 +308,11 @@ export class InventoryService {
   }
 
   /**
-   * Update an existing inventory item
+   * Update an existing inventory item. expectedUpdatedAt is the item's updatedAt
+   * as it was read; the update is refused (409) if the item changed since. Stock only changes
+   * through transactions, so an edit leaves it alone.
    */
-  async updateInventoryItem(id: string, updates: Omit<UpdateInventoryRequest, 'id'>): Promise<ApiResponse<InventoryItem>> {
+  async updateInventoryItem(id: string, updates: Omit<UpdateInventoryRequest, 'id'>, expectedUpdatedAt: string): Promise<ApiResponse<InventoryItem>> {
     // 1. Validate ID and updates
     const idValidation = validateParams(InventoryIdSchema, { id });
     if (!idValidation.success) {
@@ -302,18 +360,22 @@ export class InventoryService {
         requiredRole: UserRole.STAFF,
         rateLimitKey: 'inventory:update',
         enableLogging: true,
+        expectedVersion: expectedUpdatedAt,
       },
       async () => {
         // Convert updates to database format
+        const changes: Record<string, unknown> = { ...updateValidation.data };
+        delete changes.currentStock;
         const dbUpdates = this.adapter.toSnakeCase({
-          ...updateValidation.data,
+          ...changes,
           updated_at: new Date().toISOString()
         });
 
-        return this.adapter.buildQuery('inventory_items')
+        const query = this.adapter.buildQuery('inventory_items')
           .update(dbUpdates)
-          .eq('id', id)
-          .select('*');
+          .eq('id', id);
+
+        return this.adapter.matchVersion(query, expectedUpdatedAt).select('*');
       },
       'write'
     );
@@ -389,16 +451,31 @@ export class InventoryService {
       }
       return response as ApiResponse<{ deleted: boolean }>;
     } else {
-      // 4. Soft delete (set status to discontinued)
-      const updateResponse = await this.updateInventoryItem(id, { status: 'discontinued' });
-      if (updateResponse.success) {
-        return {
-          success: true,
-          data: { deleted: true },
-          meta: updateResponse.meta
-        };
+      // 4. Record it in the trash bin first, so a hidden record always has
+      // an entry it can be restored or purged from
+      const trashResponse = await trashService.moveToTrash({
+        entityType: 'inventory_items',
+        entityId: id,
+        label: existingItem.name,
+        restoreValues: { status: (existingItem as { status?: string }).status || 'active' },
+        deletedValues: { status: 'discontinued' }
+      });
+      if (!trashResponse.success) {
+        return trashResponse as unknown as ApiResponse<{ deleted: boolean }>;
+      }
+
+      // 5. Soft delete (set status to discontinued)
+      const updateResponse = await this.updateInventoryItem(id, { status: 'discontinued' }, existingItem.updatedAt as string);
+      if (!updateResponse.success) {
+        await trashService.discardTrashEntry(trashResponse.data);
+        return updateResponse as ApiResponse<{ deleted: boolean }>;
       }
-      return updateResponse as ApiResponse<{ deleted: boolean }>;
+
+      return {
+        success: true,
+        data: { deleted: true },
+        meta: updateResponse.meta
+      };
     }
   }
 
@@ -415,7 +492,7 @@ export class InventoryService {
     const validatedData = validationResult.data;
 
     // 2. Verify inventory item exists
-    const itemResponse = await this.getInventoryItemById(validatedData.itemId);
+    const itemResponse = await this.getInventoryItemById(validatedData.inventoryId);
     if (!itemResponse.success) {
       return itemResponse as ApiResponse<StockTransaction>;
     }
@@ -423,7 +500,7 @@ export class InventoryService {
     const item = itemResponse.data;
 
     // 3. Apply business rules
-    const businessRuleCheck = validateInventoryBusinessRules.validateTransaction(item, validatedData);
+    const businessRuleCheck = validateInventoryBusinessRules.canProcessTransaction(item, validatedData);
     if (!businessRuleCheck.valid) {
       return {
         success: false,
@@ -442,7 +519,33 @@ export class InventoryService {
       };
     }
 
-    // 4. Execute transaction in a database transaction
+    // 4. Check there is stock to move before anything is recorded
+    const insufficientStock = (reason?: string): ApiResponse<StockTransaction> => ({
+      success: false,
+      error: {
+        type: 'https://docs.trainstation-dashboard.com/errors/business-rule-violation',
+        title: 'Insufficient Stock',
+        status: 400,
+        detail: reason || 'Not enough stock at this location',
+        instance: '/api/inventory/transactions',
+        timestamp: new Date().toISOString()
+      },
+      meta: {
+        requestId: crypto.randomUUID(),
+        source: 'validation'
+      }
+    });
+    const plannedMovement = moveLocationStock(
+      getLocationStock(item),
+      item.location || DEFAULT_STOCK_LOCATION,
+      validatedData,
+      item.allowNegativeStock ?? false
+    );
+    if (!plannedMovement.valid) {
+      return insufficientStock(plannedMovement.reason);
+    }
+
+    // 5. Record the transaction first, so stock never moves without a movement on record
     const response = await this.adapter.executeQuery(
       {
         tableName: 'inventory_transactions',
@@ -453,34 +556,21 @@ export class InventoryService {
       async () => {
         // Create transaction record
         const dbData = this.adapter.toSnakeCase({
-          itemId: validatedData.itemId,
+          itemId: validatedData.inventoryId,
           type: validatedData.type,
           quantity: validatedData.quantity,
           reason: validatedData.reason,
           reference: validatedData.reference,
-          unitCost: validatedData.unitCost,
-          totalCost: validatedData.totalCost,
-          staffId: validatedData.staffId,
+          unitCost: validatedData.cost,
+          totalCost: validatedData.cost !== undefined ? validatedData.cost * validatedData.quantity : undefined,
+          staffMember: validatedData.staffMember,
+          relatedEntityId: validatedData.relatedEntityId,
+          relatedEntityType: validatedData.relatedEntityType,
           notes: validatedData.notes,
-          metadata: validatedData.metadata,
+          location: validatedData.location,
+          toLocation: validatedData.toLocation,
         });
 
-        // Calculate new stock level
-        let newStock = item.currentStock;
-        if (['in', 'adjustment_positive'].includes(validatedData.type)) {
-          newStock += validatedData.quantity;
-        } else if (['out', 'adjustment_negative', 'damaged', 'expired'].includes(validatedData.type)) {
-          newStock -= validatedData.quantity;
-        } else if (validatedData.type === 'transfer') {
-          // For transfers, this would need additional logic for destination tracking
-          newStock -= validatedData.quantity;
-        }
-
-        // Update inventory item stock level
-        await this.adapter.buildQuery('inventory_items')
-          .update({ current_stock: newStock, updated_at: new Date().toISOString() })
-          .eq('id', validatedData.itemId);
-
         return this.adapter.buildQuery('inventory_transactions')
           .insert([dbData])
           .select('*');
@@ -488,14 +578,66 @@ export class InventoryService {
       'write'
     );
 
-    if (response.success) {
-      const transactionArray = Array.isArray(response.data) ? response.data : [response.data];
-      return {
-        ...response,
-        data: this.transformTransactionFromDb(transactionArray[0] as Record<string, unknown>)
-      };
+    if (!response.success) {
+      return response as ApiResponse<StockTransaction>;
+    }
+
+    const transactionArray = Array.isArray(response.data) ? response.data : [response.data];
+    const transaction = this.transformTransactionFromDb(transactionArray[0] as Record<string, unknown>);
+
+    // 6. Move the stock. The item row holds both the venue total and the stock per
+    //    location, so one conditional update moves stock between locations
+    //    atomically; if the item changed since it was read, re-read it and retry.
+    //    If the stock cannot be moved, the transaction is taken back out
+    let stockItem = item;
+    for (let attempt = 1; ; attempt++) {
+      const movement = attempt === 1
+        ? plannedMovement
+        : moveLocationStock(
+          getLocationStock(stockItem),
+          stockItem.location || DEFAULT_STOCK_LOCATION,
+          validatedData,
+          stockItem.allowNegativeStock ?? false
+        );
+      if (!movement.valid) {
+        await this.removeTransaction(transaction.id);
+        return insufficientStock(movement.reason);
+      }
+
+      // Calculate new stock level; transfers move stock within the venue
+      let newStock = stockItem.currentStock ?? 0;
+      if (['in', 'adjustment_positive'].includes(validatedData.type)) {
+        newStock += validatedData.quantity;
+      } else if (['out', 'adjustment_negative', 'damaged', 'expired'].includes(validatedData.type)) {
+        newStock -= validatedData.quantity;
+      }
+
+      const stockResponse = await this.updateStockLevels(stockItem, newStock, movement.levels);
+      if (stockResponse.success) {
+        stockItem = stockResponse.data;
+        break;
+      }
+      if (stockResponse.error?.status !== 409 || attempt >= STOCK_UPDATE_ATTEMPTS) {
+        await this.removeTransaction(transaction.id);
+        return stockResponse as unknown as ApiResponse<StockTransaction>;
+      }
+
+      const reloadResponse = await this.getInventoryItemById(validatedData.inventoryId);
+      if (!reloadResponse.success) {
+        await this.removeTransaction(transaction.id);
+        return reloadResponse as ApiResponse<StockTransaction>;
+      }
+      stockItem = reloadResponse.data;
     }
-    return response as ApiResponse<StockTransaction>;
+
+    // 7. Raise or resolve alerts for the new stock level. A failure here is
+    //    picked up by the next movement or refresh, so it does not fail the transaction
+    await this.syncItemAlerts(stockItem);
+
+    return {
+      ...response,
+      data: transaction
+    };
   }
 
   /**
@@ -516,11 +658,12 @@ export class InventoryService {
         enableLogging: true,
       },
       async () => {
+        // Transactions of an item in the trash bin are hidden until it is restored
         return this.adapter.buildQuery('inventory_transactions', {
           select: '*',
           filters: { item_id: itemId },
           orderBy: { column: 'created_at', ascending: false }
-        });
+        }).is('deleted_at', null);
       },
       'read'
     );
@@ -539,6 +682,155 @@ export class InventoryService {
     return response as ApiResponse<StockTransaction[]>;
   }
 
+  /**
+   * Set the stock of several items at once, e.g. after a stock count. Each item
+   * whose stock differs gets one adjustment transaction for the difference; an
+   * adjustment with a location sets the stock at that location only. An item
+   * that cannot be adjusted is reported without stopping the rest.
+   */
+  async bulkAdjustStock(request: BulkStockAdjustmentRequest): Promise<ApiResponse<BulkStockAdjustmentResult>> {
+    // 1. Validate input data
+    const validationResult = validateParams(BulkStockAdjustmentSchema, request);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { adjustments, reference, staffMember } = validationResult.data;
+
+    // 2. Load current stock levels
+    const itemsResponse = await this.adapter.executeQuery(
+      {
+        tableName: 'inventory_items',
+        rateLimitKey: 'inventory:read',
+        enableLogging: false,
+      },
+      async () => {
+        return this.adapter.buildQuery('inventory_items', { select: 'id, current_stock, location, location_stock' })
+          .in('id', adjustments.map(adjustment => adjustment.inventoryId));
+      },
+      'read'
+    );
+
+    if (!itemsResponse.success) {
+      return itemsResponse as unknown as ApiResponse<BulkStockAdjustmentResult>;
+    }
+
+    const itemRows = Array.isArray(itemsResponse.data) ? itemsResponse.data : [itemsResponse.data];
+    const stockLevels = new Map(
+      itemRows.filter(Boolean).map(row => {
+        const camelRow = this.adapter.toCamelCase(row as Record<string, unknown>);
+        return [camelRow.id as string, getLocationStock({
+          currentStock: Number(camelRow.currentStock) || 0,
+          location: camelRow.location as string || undefined,
+          locationStock: camelRow.locationStock as LocationStockLevel[] || []
+        })];
+      })
+    );
+
+    // 3. Post the differences
+    const result: BulkStockAdjustmentResult = { transactions: [], failures: [] };
+    for (const adjustment of adjustments) {
+      const levels = stockLevels.get(adjustment.inventoryId);
+      if (levels === undefined) {
+        result.failures.push({ itemId: adjustment.inventoryId, reason: 'Inventory item no longer exists' });
+        continue;
+      }
+
+      const stock = adjustment.location
+        ? levels.find(level => level.location === adjustment.location)?.quantity ?? 0
+        : levels.reduce((sum, level) => sum + level.quantity, 0);
+
+      const difference = Math.round((adjustment.newQuantity - stock) * 10000) / 10000;
+      if (difference === 0) {
+        continue;
+      }
+
+      const transactionResponse = await this.createTransaction({
+        inventoryId: adjustment.inventoryId,
+        type: difference > 0 ? 'adjustment_positive' : 'adjustment_negative',
+        quantity: Math.abs(difference),
+        reason: adjustment.reason,
+        reference,
+        staffMember,
+        location: adjustment.location
+      });
+      if (transactionResponse.success) {
+        result.transactions.push(transactionResponse.data);
+      } else {
+        result.failures.push({
+          itemId: adjustment.inventoryId,
+          reason: transactionResponse.error?.detail || 'Stock adjustment failed'
+        });
+      }
+    }
+
+    return {
+      ...itemsResponse,
+      data: result
+    };
+  }
+
+  /**
+   * Move stock from one location to another. The venue-wide total is unchanged.
+   */
+  async transferStock(transferData: TransferStockRequest): Promise<ApiResponse<StockTransaction>> {
+    // 1. Validate input data
+    const validationResult = validateParams(TransferStockSchema, transferData);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { inventoryId, fromLocation, toLocation, quantity, reason, staffMember, notes } = validationResult.data;
+
+    // 2. Post the transfer
+    return this.createTransaction({
+      inventoryId,
+      type: 'transfer',
+      quantity,
+      reason: reason || `Transfer from ${fromLocation} to ${toLocation}`,
+      staffMember,
+      notes,
+      location: fromLocation,
+      toLocation
+    });
+  }
+
+  /**
+   * Set reorder points per location and add locations an item is kept at.
+   * Locations that are not listed keep their settings.
+   */
+  async updateLocationLevels(id: string, levelsData: UpdateLocationLevelsRequest): Promise<ApiResponse<InventoryItem>> {
+    // 1. Validate input data
+    const validationResult = validateParams(UpdateLocationLevelsSchema, levelsData);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    // 2. Merge into the item's current levels
+    const itemResponse = await this.getInventoryItemById(id);
+    if (!itemResponse.success) {
+      return itemResponse;
+    }
+
+    const item = itemResponse.data;
+    const levels = getLocationStock(item);
+    validationResult.data.locations.forEach(({ location, reorderPoint }) => {
+      const level = levels.find(candidate => candidate.location === location);
+      if (level) {
+        level.reorderPoint = reorderPoint;
+      } else {
+        levels.push({ location, quantity: 0, reorderPoint });
+      }
+    });
+
+    // 3. Save without touching stock, then re-check the item against its new reorder points
+    const updateResponse = await this.updateStockLevels(item, item.currentStock ?? 0, levels, UserRole.MANAGER);
+    if (updateResponse.success) {
+      await this.syncItemAlerts(updateResponse.data);
+    }
+    return updateResponse;
+  }
+
   /**
    * Get inventory categories
    */
@@ -618,60 +910,51 @@ export class InventoryService {
   }
 
   /**
-   * Get inventory alerts
+   * Get stock alerts. Alerts are raised and resolved as stock moves (see
+   * syncItemAlerts), so each condition keeps the same alert, with its
+   * acknowledgement, snooze and assignee, until it clears. Items kept at several
+   * locations have alerts per location as well as venue-wide ones; pass a
+   * location to see only the alerts for that location.
    */
-  async getAlerts(): Promise<ApiResponse<StockAlert[]>> {
+  async getAlerts(query: Partial<StockAlertQuery> = {}): Promise<ApiResponse<StockAlert[]>> {
+    // 1. Validate query parameters with defaults
+    const validationResult = validateQuery(StockAlertQuerySchema, query);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { location, inventoryId, status, includeSnoozed } = validationResult.data;
+
+    // 2. Execute query
     const response = await this.adapter.executeQuery(
       {
-        tableName: 'inventory_items',
+        tableName: 'stock_alerts',
         rateLimitKey: 'inventory:alerts:read',
         enableLogging: true,
       },
       async () => {
-        // Get items that trigger alerts
-        return this.adapter.buildQuery('inventory_items', {
+        const query = this.adapter.buildQuery('stock_alerts', {
           select: '*',
-          orderBy: { column: 'name', ascending: true }
-        }).or('current_stock.lte.reorder_point,current_stock.eq.0,current_stock.gte.max_stock');
+          filters: {
+            inventory_id: inventoryId,
+            location,
+            status: status === 'all' ? undefined : status || 'active'
+          },
+          orderBy: { column: 'created_at', ascending: false }
+        });
+        return includeSnoozed === false
+          ? query.or(`snoozed_until.is.null,snoozed_until.lte.${new Date().toISOString()}`)
+          : query;
       },
       'read'
     );
 
     if (response.success) {
-      const items = Array.isArray(response.data) ? response.data : [response.data];
-      const alerts: StockAlert[] = items.map(item => {
-        const camelItem = this.adapter.toCamelCase(item as Record<string, unknown>);
-        
-        let type: 'low_stock' | 'out_of_stock' | 'reorder_point' | 'overstock' = 'low_stock';
-        let message = '';
-        let severity: 'low' | 'medium' | 'high' | 'critical' = 'medium';
-
-        if (camelItem.currentStock === 0) {
-          type = 'out_of_stock';
-          message = `${camelItem.name} is out of stock`;
-          severity = 'critical';
-        } else if (camelItem.currentStock <= camelItem.reorderPoint) {
-          type = 'reorder_point';
-          message = `${camelItem.name} has reached reorder point (${camelItem.currentStock} remaining)`;
-          severity = 'high';
-        } else if (camelItem.currentStock >= camelItem.maxStock) {
-          type = 'overstock';
-          message = `${camelItem.name} is overstocked (${camelItem.currentStock}/${camelItem.maxStock})`;
-          severity = 'low';
-        }
+      const rows = Array.isArray(response.data) ? response.data : [response.data];
+      const alerts = rows
+        .filter(Boolean)
+        .map(row => this.transformAlertFromDb(row as Record<string, unknown>));
 
-        return {
-          id: crypto.randomUUID(),
-          itemId: camelItem.id as string,
-          type,
-          message,
-          severity,
-          threshold: camelItem.reorderPoint as number,
-          currentValue: camelItem.currentStock as number,
-          createdAt: new Date().toISOString(),
-        };
-      });
-      
       return {
         ...response,
         data: alerts
@@ -681,20 +964,153 @@ export class InventoryService {
   }
 
   /**
-   * Calculate item metrics
+   * Check every item against its thresholds, raising and resolving alerts for
+   * stock that changed without a transaction (e.g. an edited stock level), and
+   * return the active alerts
+   */
+  async refreshAlerts(): Promise<ApiResponse<StockAlert[]>> {
+    // 1. Load items and the alerts that are open now
+    const itemsResponse = await this.adapter.executeQuery(
+      {
+        tableName: 'inventory_items',
+        rateLimitKey: 'inventory:alerts:read',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('inventory_items', { select: '*' });
+      },
+      'read'
+    );
+
+    if (!itemsResponse.success) {
+      return itemsResponse as unknown as ApiResponse<StockAlert[]>;
+    }
+
+    const openResponse = await this.getAlerts();
+    if (!openResponse.success) {
+      return openResponse;
+    }
+
+    // 2. Reconcile
+    const itemRows = Array.isArray(itemsResponse.data) ? itemsResponse.data : [itemsResponse.data];
+    const items = itemRows.filter(Boolean).map(row => this.transformInventoryItemFromDb(row as Record<string, unknown>));
+    const reconcileResponse = await this.reconcileAlerts(items, openResponse.data);
+    if (!reconcileResponse.success) {
+      return reconcileResponse;
+    }
+
+    // 3. Return what is active now
+    return this.getAlerts();
+  }
+
+  /**
+   * Acknowledge an alert. It stays active until the stock recovers.
+   */
+  async acknowledgeAlert(id: string, acknowledgeData: AcknowledgeAlertRequest = {}): Promise<ApiResponse<StockAlert>> {
+    // 1. Validate input data
+    const validationResult = validateParams(AcknowledgeAlertSchema, acknowledgeData);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { staffMember, note } = validationResult.data;
+    const at = new Date().toISOString();
+
+    // 2. Record the acknowledgement
+    return this.updateAlert(id, alert => ({
+      acknowledged: true,
+      acknowledgedBy: staffMember,
+      acknowledgedAt: at,
+      history: [...(alert.history || []), { action: 'acknowledged', at, by: staffMember, note, value: alert.currentValue }]
+    }));
+  }
+
+  /**
+   * Hide an alert until a given time. A worse condition (e.g. running out
+   * after being low) raises a new alert that is not snoozed.
    */
-  async calculateItemMetrics(itemId: string): Promise<ApiResponse<any>> {
-    // This would typically involve complex calculations across transactions
-    // For now, return a placeholder structure
+  async snoozeAlert(id: string, snoozeData: SnoozeAlertRequest): Promise<ApiResponse<StockAlert>> {
+    // 1. Validate input data
+    const validationResult = validateParams(SnoozeAlertSchema, snoozeData);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { until, staffMember, note } = validationResult.data;
+    const at = new Date().toISOString();
+
+    // 2. Record the snooze
+    return this.updateAlert(id, alert => ({
+      snoozedUntil: until,
+      history: [...(alert.history || []), { action: 'snoozed', at, by: staffMember, note: note || `Until ${until}`, value: alert.currentValue }]
+    }));
+  }
+
+  /**
+   * Assign an alert to someone to deal with, or unassign it
+   */
+  async assignAlert(id: string, assignData: AssignAlertRequest): Promise<ApiResponse<StockAlert>> {
+    // 1. Validate input data
+    const validationResult = validateParams(AssignAlertSchema, assignData);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { assignedTo, staffMember, note } = validationResult.data;
+    const at = new Date().toISOString();
+
+    // 2. Record the assignment
+    return this.updateAlert(id, alert => ({
+      assignedTo,
+      history: [...(alert.history || []), { action: 'assigned', at, by: staffMember, note: note || (assignedTo ? `Assigned to ${assignedTo}` : 'Unassigned'), value: alert.currentValue }]
+    }));
+  }
+
+  /**
+   * Value stock on hand as of a date. Each item's receipts are costed by FIFO
+   * layers or a moving weighted average, replaying its transactions up to that date.
+   */
+  async getValuationReport(query: Partial<InventoryValuationQuery> = {}): Promise<ApiResponse<InventoryValuation>> {
+    // 1. Validate query parameters with defaults
+    const validationResult = validateQuery(InventoryValuationQuerySchema, query);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const method = validationResult.data.method || 'fifo';
+    const asOf = validationResult.data.asOf || new Date().toISOString();
+
+    // 2. Load items and their stock movements
+    const costingResponse = await this.getCostingData(undefined, asOf);
+    if (!costingResponse.success) {
+      return costingResponse as unknown as ApiResponse<InventoryValuation>;
+    }
+
+    // 3. Replay each item's movements up to the date through its cost layers
+    const { items, movements } = costingResponse.data;
+    const lines: InventoryValuationLine[] = items
+      .filter(item => this.isOnOrBefore(item.createdAt, asOf))
+      .map(item => {
+        const flow = this.buildCostFlow(item, movements.get(item.id) || [], method, asOf);
+        return {
+          itemId: item.id,
+          name: item.name,
+          sku: item.sku,
+          quantityOnHand: flow.quantityOnHand,
+          unitCost: flow.quantityOnHand > 0 ? Math.round((flow.valueOnHand / flow.quantityOnHand) * 10000) / 10000 : 0,
+          value: flow.valueOnHand,
+          layers: flow.layers
+        };
+      })
+      .filter(line => line.quantityOnHand > 0);
+
     return {
       success: true,
       data: {
-        turnoverRate: 0,
-        averageCost: 0,
-        profitMargin: 0,
-        daysOfSupply: 0,
-        lastRestockDate: null,
-        totalValueOnHand: 0
+        asOf,
+        method,
+        items: lines,
+        totalValue: this.roundCurrency(lines.reduce((sum, line) => sum + line.value, 0))
       },
       meta: {
         requestId: crypto.randomUUID(),
@@ -704,47 +1120,782 @@ export class InventoryService {
   }
 
   /**
-   * Transform database inventory item to API format
+   * Cost of goods sold for a period, optionally for a single event. Stock
+   * written off as damaged, expired or by a negative adjustment is reported
+   * separately as shrinkage.
    */
-  private transformInventoryItemFromDb(dbItem: Record<string, unknown>): InventoryItem {
-    const camelCaseItem = this.adapter.toCamelCase(dbItem);
-    
+  async getCostOfGoodsSold(query: Partial<CostOfGoodsSoldQuery>): Promise<ApiResponse<CostOfGoodsSold>> {
+    // 1. Validate query parameters
+    const validationResult = validateQuery(CostOfGoodsSoldQuerySchema, query);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { dateFrom, dateTo, eventId } = validationResult.data;
+    const method = validationResult.data.method || 'fifo';
+
+    // 2. Load items, their stock movements and the event each sale was made at
+    const costingResponse = await this.getCostingData(undefined, dateTo);
+    if (!costingResponse.success) {
+      return costingResponse as unknown as ApiResponse<CostOfGoodsSold>;
+    }
+
+    const saleEventsResponse = await this.getSaleEvents();
+    if (!saleEventsResponse.success) {
+      return saleEventsResponse as unknown as ApiResponse<CostOfGoodsSold>;
+    }
+
+    // 3. Cost every outbound movement in the period
+    const periodStart = new Date(dateFrom).getTime();
+    const beforePeriod = new Date(periodStart - 1).toISOString();
+    const eventCosts = new Map<string, number>();
+    let openingValue = 0;
+    let closingValue = 0;
+
+    const { items, movements } = costingResponse.data;
+    const lines: CostOfGoodsSold['items'] = [];
+
+    for (const item of items) {
+      const itemMovements = movements.get(item.id) || [];
+      const flow = this.buildCostFlow(item, itemMovements, method, dateTo);
+      closingValue += flow.valueOnHand;
+      openingValue += this.buildCostFlow(item, itemMovements, method, beforePeriod).valueOnHand;
+
+      const line = { itemId: item.id, name: item.name, quantity: 0, cost: 0, shrinkageQuantity: 0, shrinkageCost: 0 };
+      for (const consumption of flow.consumptions) {
+        if (new Date(consumption.date).getTime() < periodStart) {
+          continue;
+        }
+
+        const consumptionEventId = this.getConsumptionEventId(consumption, saleEventsResponse.data);
+        if (eventId && consumptionEventId !== eventId) {
+          continue;
+        }
+
+        if (consumption.type === 'out') {
+          line.quantity += consumption.quantity;
+          line.cost += consumption.cost;
+          if (consumptionEventId) {
+            eventCosts.set(consumptionEventId, (eventCosts.get(consumptionEventId) || 0) + consumption.cost);
+          }
+        } else if (SHRINKAGE_TRANSACTION_TYPES.includes(consumption.type)) {
+          line.shrinkageQuantity += consumption.quantity;
+          line.shrinkageCost += consumption.cost;
+        }
+      }
+
+      if (line.quantity > 0 || line.shrinkageQuantity > 0) {
+        lines.push({
+          ...line,
+          quantity: Math.round(line.quantity * 10000) / 10000,
+          cost: this.roundCurrency(line.cost),
+          shrinkageQuantity: Math.round(line.shrinkageQuantity * 10000) / 10000,
+          shrinkageCost: this.roundCurrency(line.shrinkageCost)
+        });
+      }
+    }
+
     return {
-      id: camelCaseItem.id as string,
-      name: camelCaseItem.name as string,
-      description: camelCaseItem.description as string || undefined,
-      sku: camelCaseItem.sku as string,
-      category: camelCaseItem.category as string,
-      currentStock: camelCaseItem.currentStock as number,
-      minStock: camelCaseItem.minStock as number,
-      maxStock: camelCaseItem.maxStock as number,
-      reorderPoint: camelCaseItem.reorderPoint as number,
-      reorderQuantity: camelCaseItem.reorderQuantity as number,
-      unitOfMeasurement: camelCaseItem.unitOfMeasurement as string,
-      costPrice: camelCaseItem.costPrice as number,
-      sellPrice: camelCaseItem.sellPrice as number || undefined,
-      supplier: camelCaseItem.supplier as string || undefined,
-      supplierSku: camelCaseItem.supplierSku as string || undefined,
-      location: camelCaseItem.location as string || undefined,
-      status: camelCaseItem.status as 'active' | 'inactive' | 'discontinued',
-      notes: camelCaseItem.notes as string || undefined,
-      tags: camelCaseItem.tags as string[] || [],
-      createdAt: camelCaseItem.createdAt as string,
-      updatedAt: camelCaseItem.updatedAt as string,
-      lastStockUpdate: camelCaseItem.lastStockUpdate as string || undefined,
+      success: true,
+      data: {
+        dateRange: { start: dateFrom, end: dateTo },
+        method,
+        eventId,
+        total: this.roundCurrency(lines.reduce((sum, line) => sum + line.cost, 0)),
+        shrinkage: this.roundCurrency(lines.reduce((sum, line) => sum + line.shrinkageCost, 0)),
+        openingValue: this.roundCurrency(openingValue),
+        closingValue: this.roundCurrency(closingValue),
+        items: lines,
+        events: Array.from(eventCosts.entries()).map(([id, cost]) => ({ eventId: id, cost: this.roundCurrency(cost) }))
+      },
+      meta: {
+        requestId: crypto.randomUUID(),
+        source: 'calculation'
+      }
     };
   }
 
   /**
-   * Transform database transaction to API format
+   * Calculate item metrics from the item's costed stock movements
    */
-  private transformTransactionFromDb(dbTransaction: Record<string, unknown>): StockTransaction {
-    const camelCaseTransaction = this.adapter.toCamelCase(dbTransaction);
-    
-    return {
-      id: camelCaseTransaction.id as string,
-      itemId: camelCaseTransaction.itemId as string,
-      type: camelCaseTransaction.type as 'in' | 'out' | 'adjustment_positive' | 'adjustment_negative' | 'transfer' | 'damaged' | 'expired',
+  async calculateItemMetrics(itemId: string, method: CostingMethod = 'fifo'): Promise<ApiResponse<InventoryItemMetrics>> {
+    // 1. Validate item ID
+    const validationResult = validateParams(InventoryIdSchema, { id: itemId });
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    // 2. Load the item and its stock movements
+    const costingResponse = await this.getCostingData(itemId);
+    if (!costingResponse.success) {
+      return costingResponse as unknown as ApiResponse<InventoryItemMetrics>;
+    }
+
+    const [item] = costingResponse.data.items;
+    if (!item) {
+      return {
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/not-found',
+          title: 'Item Not Found',
+          status: 404,
+          detail: `Inventory item ${itemId} does not exist`,
+          instance: `/api/inventory/${itemId}/metrics`,
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
+      };
+    }
+
+    // 3. Cost the item's history and measure usage against what is on hand
+    const now = Date.now();
+    const movements = costingResponse.data.movements.get(item.id) || [];
+    const flow = this.buildCostFlow(item, movements, method, new Date(now).toISOString());
+    const sales = flow.consumptions.filter(consumption => consumption.type === 'out');
+    const yearOfSales = sales.filter(consumption => now - new Date(consumption.date).getTime() <= 365 * DAY_MS);
+    const monthOfUsage = sales
+      .filter(consumption => now - new Date(consumption.date).getTime() <= 30 * DAY_MS)
+      .reduce((sum, consumption) => sum + consumption.quantity, 0);
+    const lastLayer = flow.layers[flow.layers.length - 1];
+    const averageCost = flow.quantityOnHand > 0
+      ? Math.round((flow.valueOnHand / flow.quantityOnHand) * 10000) / 10000
+      : lastLayer?.unitCost ?? item.costPrice;
+    const restocks = movements.filter(movement => movement.type === 'in');
+
+    return {
+      success: true,
+      data: {
+        method,
+        turnoverRate: flow.valueOnHand > 0
+          ? Math.round((yearOfSales.reduce((sum, consumption) => sum + consumption.cost, 0) / flow.valueOnHand) * 100) / 100
+          : 0,
+        averageCost,
+        profitMargin: item.sellPrice ? Math.round(((item.sellPrice - averageCost) / item.sellPrice) * 10000) / 100 : null,
+        daysOfSupply: monthOfUsage > 0 ? Math.round(flow.quantityOnHand / (monthOfUsage / 30) * 10) / 10 : null,
+        lastRestockDate: restocks.length > 0 ? restocks[restocks.length - 1].date : null,
+        totalValueOnHand: flow.valueOnHand
+      },
+      meta: {
+        requestId: crypto.randomUUID(),
+        source: 'calculation'
+      }
+    };
+  }
+
+  /**
+   * Load items with the fields costing needs and their stock movements up to a
+   * date, oldest first. Both are read page by page, however many there are.
+   */
+  private async getCostingData(itemId?: string, until?: string): Promise<ApiResponse<{ items: CostedItem[]; movements: Map<string, StockMovement[]> }>> {
+    const itemsResponse = await this.adapter.readAll(
+      {
+        tableName: 'inventory_items',
+        rateLimitKey: 'inventory:read',
+        enableLogging: true,
+      },
+      () => {
+        return this.adapter.buildQuery('inventory_items', {
+          select: 'id, name, sku, cost_price, sell_price, created_at',
+          filters: { id: itemId },
+          orderBy: { column: 'name', ascending: true }
+        }).order('id', { ascending: true });
+      }
+    );
+
+    if (!itemsResponse.success) {
+      return itemsResponse as unknown as ApiResponse<{ items: CostedItem[]; movements: Map<string, StockMovement[]> }>;
+    }
+
+    const transactionsResponse = await this.adapter.readAll(
+      {
+        tableName: 'inventory_transactions',
+        rateLimitKey: 'inventory:transactions:read',
+        enableLogging: true,
+      },
+      () => {
+        const query = this.adapter.buildQuery('inventory_transactions', {
+          select: 'item_id, type, quantity, unit_cost, related_entity_id, related_entity_type, to_location, created_at',
+          filters: { item_id: itemId },
+          orderBy: { column: 'created_at', ascending: true }
+        }).order('id', { ascending: true });
+        return until ? query.lte('created_at', until) : query;
+      }
+    );
+
+    if (!transactionsResponse.success) {
+      return transactionsResponse as unknown as ApiResponse<{ items: CostedItem[]; movements: Map<string, StockMovement[]> }>;
+    }
+
+    const itemRows = Array.isArray(itemsResponse.data) ? itemsResponse.data : [itemsResponse.data];
+    const items = itemRows.filter(Boolean).map(row => {
+      const camelItem = this.adapter.toCamelCase(row as Record<string, unknown>);
+      return {
+        id: camelItem.id as string,
+        name: camelItem.name as string,
+        sku: camelItem.sku as string || undefined,
+        costPrice: Number(camelItem.costPrice) || 0,
+        sellPrice: camelItem.sellPrice ? Number(camelItem.sellPrice) : undefined,
+        createdAt: camelItem.createdAt as string,
+      };
+    });
+
+    const movements = new Map<string, StockMovement[]>();
+    const transactionRows = Array.isArray(transactionsResponse.data) ? transactionsResponse.data : [transactionsResponse.data];
+    transactionRows.filter(Boolean).forEach(row => {
+      const camelTransaction = this.adapter.toCamelCase(row as Record<string, unknown>);
+      // Transfers between locations leave the venue's stock and its cost unchanged
+      if (camelTransaction.type === 'transfer' && camelTransaction.toLocation) {
+        return;
+      }
+      const itemMovements = movements.get(camelTransaction.itemId as string) || [];
+      itemMovements.push({
+        type: camelTransaction.type as string,
+        quantity: Number(camelTransaction.quantity),
+        unitCost: camelTransaction.unitCost !== null && camelTransaction.unitCost !== undefined
+          ? Number(camelTransaction.unitCost)
+          : undefined,
+        date: camelTransaction.createdAt as string,
+        relatedEntityId: camelTransaction.relatedEntityId as string || undefined,
+        relatedEntityType: camelTransaction.relatedEntityType as string || undefined,
+      });
+      movements.set(camelTransaction.itemId as string, itemMovements);
+    });
+
+    return {
+      ...itemsResponse,
+      data: { items, movements }
+    };
+  }
+
+  /**
+   * Map each product sale to the event it was made at
+   */
+  private async getSaleEvents(): Promise<ApiResponse<Map<string, string>>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'product_sales',
+        rateLimitKey: 'inventory:sales:read',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('product_sales', {
+          select: 'id, event_id'
+        });
+      },
+      'read'
+    );
+
+    if (response.success) {
+      const rows = Array.isArray(response.data) ? response.data : [response.data];
+      const saleEvents = new Map<string, string>();
+      rows.filter(Boolean).forEach(row => {
+        const sale = row as { id: string; event_id?: string | null };
+        if (sale.event_id) {
+          saleEvents.set(sale.id, sale.event_id);
+        }
+      });
+      return {
+        ...response,
+        data: saleEvents
+      };
+    }
+    return response as ApiResponse<Map<string, string>>;
+  }
+
+  /**
+   * Replay an item's movements up to a date. Whatever was on hand before the
+   * first recorded movement opens the flow at the item's cost price.
+   */
+  private buildCostFlow(item: CostedItem, movements: StockMovement[], method: CostingMethod, until: string): CostFlow {
+    // Opening stock is recorded as a movement when the item is created, so the
+    // flow starts empty; the cost price only costs receipts without a cost
+    return calculateCostFlow(
+      movements.filter(movement => this.isOnOrBefore(movement.date, until)),
+      method,
+      {
+        quantity: 0,
+        unitCost: item.costPrice,
+        date: item.createdAt
+      }
+    );
+  }
+
+  /**
+   * The event a movement was for, directly or through the sale that caused it
+   */
+  private getConsumptionEventId(consumption: StockMovement, saleEvents: Map<string, string>): string | undefined {
+    if (consumption.relatedEntityType === 'event') {
+      return consumption.relatedEntityId;
+    }
+    if (consumption.relatedEntityType === 'sale' && consumption.relatedEntityId) {
+      return saleEvents.get(consumption.relatedEntityId);
+    }
+    return undefined;
+  }
+
+  private isOnOrBefore(date: string | undefined, until: string): boolean {
+    return !date || new Date(date).getTime() <= new Date(until).getTime();
+  }
+
+  private roundCurrency(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
+  /**
+   * Alerts for one item. An item kept at one location is checked as before; an
+   * item kept at several is checked at each location with a reorder point of
+   * its own, and across the venue against the item's reorder point.
+   */
+  private buildStockAlerts(item: InventoryItem): StockAlert[] {
+    const levels = getLocationStock(item);
+    const singleLocation = levels.length === 1;
+    const currentStock = item.currentStock ?? 0;
+    const alerts: StockAlert[] = [];
+    const addAlert = (
+      alertType: StockAlert['alertType'],
+      severity: StockAlert['severity'],
+      message: string,
+      currentValue: number,
+      threshold?: number,
+      location?: string
+    ) => {
+      alerts.push({
+        id: crypto.randomUUID(),
+        inventoryId: item.id,
+        alertType,
+        location,
+        message,
+        severity,
+        threshold,
+        currentValue,
+        enabled: true,
+        acknowledged: false,
+        createdAt: new Date().toISOString(),
+      });
+    };
+
+    if (singleLocation) {
+      const [level] = levels;
+      const reorderPoint = level.reorderPoint ?? item.reorderPoint;
+      if (level.quantity <= 0) {
+        addAlert('out_of_stock', 'critical', `${item.name} is out of stock`, level.quantity, reorderPoint, level.location);
+      } else if (reorderPoint !== undefined && level.quantity <= reorderPoint) {
+        addAlert('reorder_point', 'warning', `${item.name} has reached reorder point (${level.quantity} remaining)`, level.quantity, reorderPoint, level.location);
+      }
+    } else {
+      levels
+        .filter(level => level.reorderPoint !== undefined)
+        .forEach(level => {
+          if (level.quantity <= 0) {
+            addAlert('out_of_stock', 'critical', `${item.name} is out of stock at ${level.location}`, level.quantity, level.reorderPoint, level.location);
+          } else if (level.quantity <= level.reorderPoint!) {
+            addAlert('reorder_point', 'warning', `${item.name} is low at ${level.location} (${level.quantity} remaining)`, level.quantity, level.reorderPoint, level.location);
+          }
+        });
+
+      if (currentStock <= 0) {
+        addAlert('out_of_stock', 'critical', `${item.name} is out of stock at every location`, currentStock, item.reorderPoint);
+      } else if (item.reorderPoint !== undefined && currentStock <= item.reorderPoint) {
+        addAlert('reorder_point', 'warning', `${item.name} has reached reorder point (${currentStock} remaining across all locations)`, currentStock, item.reorderPoint);
+      }
+    }
+
+    if (item.maxStock && currentStock >= item.maxStock) {
+      addAlert('overstock', 'info', `${item.name} is overstocked (${currentStock}/${item.maxStock})`, currentStock, item.maxStock, singleLocation ? levels[0].location : undefined);
+    }
+
+    return alerts;
+  }
+
+  /**
+   * Take back a transaction whose stock could not be moved
+   */
+  private async removeTransaction(id: string): Promise<void> {
+    await this.adapter.executeQuery(
+      {
+        tableName: 'inventory_transactions',
+        requiredRole: UserRole.STAFF,
+        rateLimitKey: 'inventory:transactions:create',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('inventory_transactions')
+          .delete()
+          .eq('id', id);
+      },
+      'write'
+    );
+  }
+
+  /**
+   * Save an item's stock total and stock per location, if nobody moved its
+   * stock since it was read. Stock has its own version, so moving it does not
+   * make an open edit of the item stale.
+   */
+  private async updateStockLevels(
+    item: InventoryItem,
+    currentStock: number,
+    levels: LocationStockLevel[],
+    requiredRole: UserRole = UserRole.STAFF
+  ): Promise<ApiResponse<InventoryItem>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'inventory_items',
+        requiredRole,
+        rateLimitKey: 'inventory:stock:update',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('inventory_items')
+          .update({ current_stock: currentStock, location_stock: levels, stock_version: (item.stockVersion ?? 0) + 1 })
+          .eq('id', item.id)
+          .eq('stock_version', item.stockVersion ?? 0)
+          .select('*');
+      },
+      'write'
+    );
+
+    if (!response.success) {
+      return response as ApiResponse<InventoryItem>;
+    }
+
+    const itemArray = Array.isArray(response.data) ? response.data : [response.data];
+    if (itemArray.length === 0 || !itemArray[0]) {
+      return {
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/conflict',
+          title: 'Stock Changed',
+          status: 409,
+          detail: 'Stock for this item was updated by someone else, reload it and try again',
+          instance: `/api/inventory/${item.id}`,
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
+      };
+    }
+
+    return {
+      ...response,
+      data: this.transformInventoryItemFromDb(itemArray[0] as Record<string, unknown>)
+    };
+  }
+
+  /**
+   * Reconcile one item's stored alerts with its stock level
+   */
+  private async syncItemAlerts(item: InventoryItem): Promise<ApiResponse<{ raised: number; resolved: number }>> {
+    const openResponse = await this.getAlerts({ inventoryId: item.id });
+    if (!openResponse.success) {
+      return openResponse as unknown as ApiResponse<{ raised: number; resolved: number }>;
+    }
+    return this.reconcileAlerts([item], openResponse.data);
+  }
+
+  /**
+   * Bring stored alerts in line with the items' stock: raise alerts for new
+   * conditions, refresh the stock level on those still open and resolve the
+   * ones that cleared. Only alerts for the given items are touched.
+   */
+  private async reconcileAlerts(
+    items: InventoryItem[],
+    openAlerts: StockAlert[]
+  ): Promise<ApiResponse<{ raised: number; resolved: number }>> {
+    const now = new Date().toISOString();
+    const itemIds = new Set(items.map(item => item.id));
+    const current = new Map(
+      items.flatMap(item => this.buildStockAlerts(item)).map(alert => [getStockAlertKey(alert), alert])
+    );
+    const open = new Map(
+      openAlerts.filter(alert => itemIds.has(alert.inventoryId)).map(alert => [getStockAlertKey(alert), alert])
+    );
+
+    // 1. Raise alerts for new conditions. Only one alert per condition can be
+    //    open, so an alert a concurrent movement raised first is not raised again
+    let raised = 0;
+    for (const [key, alert] of current) {
+      if (open.has(key)) {
+        continue;
+      }
+
+      const insertResponse = await this.adapter.executeQuery(
+        {
+          tableName: 'stock_alerts',
+          rateLimitKey: 'inventory:alerts:update',
+          enableLogging: true,
+        },
+        async () => {
+          return this.adapter.buildQuery('stock_alerts')
+            .insert([this.adapter.toSnakeCase({
+              inventoryId: alert.inventoryId,
+              alertKey: key,
+              alertType: alert.alertType,
+              location: alert.location,
+              message: alert.message,
+              severity: alert.severity,
+              threshold: alert.threshold,
+              currentValue: alert.currentValue,
+              status: 'active',
+              acknowledged: false,
+              history: [{ action: 'raised', at: now, value: alert.currentValue }],
+              createdAt: now,
+              updatedAt: now,
+            })])
+            .select('id');
+        },
+        'write'
+      );
+
+      if (insertResponse.success) {
+        raised++;
+      } else if (!insertResponse.error?.errors?.some((error: ValidationError) => error.code === 'DUPLICATE_ENTRY')) {
+        return insertResponse as ApiResponse<{ raised: number; resolved: number }>;
+      }
+    }
+
+    // 2. Refresh the stock level on alerts still open. updated_at is left alone
+    //    so a refresh does not clash with someone acknowledging the alert
+    for (const [key, alert] of open) {
+      const latest = current.get(key);
+      if (!latest || (latest.currentValue === alert.currentValue && latest.threshold === alert.threshold)) {
+        continue;
+      }
+
+      await this.adapter.executeQuery(
+        {
+          tableName: 'stock_alerts',
+          rateLimitKey: 'inventory:alerts:update',
+          enableLogging: false,
+        },
+        async () => {
+          return this.adapter.buildQuery('stock_alerts')
+            .update({ current_value: latest.currentValue, threshold: latest.threshold, message: latest.message })
+            .eq('id', alert.id);
+        },
+        'write'
+      );
+    }
+
+    // 3. Resolve alerts whose condition has cleared. If someone acknowledged or
+    //    snoozed the alert meanwhile, resolve the latest version of it
+    let resolved = 0;
+    for (const [key, alert] of open) {
+      if (current.has(key)) {
+        continue;
+      }
+
+      const item = items.find(candidate => candidate.id === alert.inventoryId);
+      const level = alert.location && item
+        ? getLocationStock(item).find(candidate => candidate.location === alert.location)
+        : undefined;
+      const value = level?.quantity ?? item?.currentStock;
+
+      let latest = alert;
+      for (let attempt = 1; ; attempt++) {
+        const resolveResponse = await this.updateAlert(latest.id, openAlert => ({
+          status: 'resolved',
+          resolvedAt: now,
+          history: [...(openAlert.history || []), { action: 'resolved', at: now, value }]
+        }), latest);
+        if (resolveResponse.success) {
+          resolved++;
+          break;
+        }
+        if (resolveResponse.error?.status !== 409 || attempt >= ALERT_RESOLVE_ATTEMPTS) {
+          return resolveResponse as unknown as ApiResponse<{ raised: number; resolved: number }>;
+        }
+
+        const reloadResponse = await this.getAlertById(latest.id);
+        if (!reloadResponse.success) {
+          return reloadResponse as unknown as ApiResponse<{ raised: number; resolved: number }>;
+        }
+        latest = reloadResponse.data;
+        if (latest.status !== 'active') {
+          break;
+        }
+      }
+    }
+
+    return {
+      success: true,
+      data: { raised, resolved },
+      meta: {
+        requestId: crypto.randomUUID(),
+        source: 'calculation'
+      }
+    };
+  }
+
+  /**
+   * Get a single stored alert
+   */
+  private async getAlertById(id: string): Promise<ApiResponse<StockAlert>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'stock_alerts',
+        rateLimitKey: 'inventory:alerts:read',
+        enableLogging: false,
+      },
+      async () => {
+        return this.adapter.buildQuery('stock_alerts', { select: '*', filters: { id } }).single();
+      },
+      'read'
+    );
+
+    if (!response.success) {
+      return {
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/not-found',
+          title: 'Alert Not Found',
+          status: 404,
+          detail: `Stock alert ${id} does not exist`,
+          instance: `/api/inventory/alerts/${id}`,
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
+      };
+    }
+
+    return {
+      ...response,
+      data: this.transformAlertFromDb(response.data as Record<string, unknown>)
+    };
+  }
+
+  /**
+   * Apply changes to an alert if nobody else changed it since it was read
+   */
+  private async updateAlert(
+    id: string,
+    buildChanges: (alert: StockAlert) => Record<string, unknown>,
+    knownAlert?: StockAlert
+  ): Promise<ApiResponse<StockAlert>> {
+    // 1. Validate alert ID
+    const validationResult = validateParams(StockAlertIdSchema, { id });
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    // 2. Load the alert unless the caller already has it
+    let alert = knownAlert;
+    if (!alert) {
+      const alertResponse = await this.getAlertById(id);
+      if (!alertResponse.success) {
+        return alertResponse;
+      }
+      alert = alertResponse.data;
+    }
+
+    // 3. Conditional update
+    const currentAlert = alert;
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'stock_alerts',
+        requiredRole: UserRole.STAFF,
+        rateLimitKey: 'inventory:alerts:update',
+        enableLogging: true,
+      },
+      async () => {
+        const dbUpdates = this.adapter.toSnakeCase({
+          ...buildChanges(currentAlert),
+          updatedAt: new Date().toISOString()
+        });
+
+        return this.adapter.buildQuery('stock_alerts')
+          .update(dbUpdates)
+          .eq('id', id)
+          .eq('updated_at', currentAlert.updatedAt)
+          .select('*');
+      },
+      'write'
+    );
+
+    if (!response.success) {
+      return response as ApiResponse<StockAlert>;
+    }
+
+    const alertArray = Array.isArray(response.data) ? response.data : [response.data];
+    if (alertArray.length === 0 || !alertArray[0]) {
+      return {
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/conflict',
+          title: 'Alert Changed',
+          status: 409,
+          detail: 'The alert was updated by someone else, reload it and try again',
+          instance: `/api/inventory/alerts/${id}`,
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
+      };
+    }
+
+    return {
+      ...response,
+      data: this.transformAlertFromDb(alertArray[0] as Record<string, unknown>)
+    };
+  }
+
+  /**
+   * Transform database inventory item to API format
+   */
+  private transformInventoryItemFromDb(dbItem: Record<string, unknown>): InventoryItem {
+    const camelCaseItem = this.adapter.toCamelCase(dbItem);
+    
+    return {
+      id: camelCaseItem.id as string,
+      name: camelCaseItem.name as string,
+      description: camelCaseItem.description as string || undefined,
+      sku: camelCaseItem.sku as string,
+      category: camelCaseItem.category as string,
+      currentStock: camelCaseItem.currentStock as number,
+      minStock: camelCaseItem.minStock as number,
+      maxStock: camelCaseItem.maxStock as number,
+      reorderPoint: camelCaseItem.reorderPoint as number,
+      reorderQuantity: camelCaseItem.reorderQuantity as number,
+      unitOfMeasurement: camelCaseItem.unitOfMeasurement as string,
+      packSize: camelCaseItem.packSize as number || undefined,
+      packUnit: camelCaseItem.packUnit as InventoryUnit || undefined,
+      costPrice: camelCaseItem.costPrice as number,
+      sellPrice: camelCaseItem.sellPrice as number || undefined,
+      supplier: camelCaseItem.supplier as string || undefined,
+      supplierId: camelCaseItem.supplierId as string || undefined,
+      supplierSku: camelCaseItem.supplierSku as string || undefined,
+      location: camelCaseItem.location as string || undefined,
+      locationStock: camelCaseItem.locationStock as LocationStockLevel[] || [],
+      stockVersion: camelCaseItem.stockVersion as number || 0,
+      status: camelCaseItem.status as 'active' | 'inactive' | 'discontinued',
+      notes: camelCaseItem.notes as string || undefined,
+      tags: camelCaseItem.tags as string[] || [],
+      createdAt: camelCaseItem.createdAt as string,
+      updatedAt: camelCaseItem.updatedAt as string,
+      lastStockUpdate: camelCaseItem.lastStockUpdate as string || undefined,
+    };
+  }
+
+  /**
+   * Transform database transaction to API format
+   */
+  private transformTransactionFromDb(dbTransaction: Record<string, unknown>): StockTransaction {
+    const camelCaseTransaction = this.adapter.toCamelCase(dbTransaction);
+    
+    return {
+      id: camelCaseTransaction.id as string,
+      itemId: camelCaseTransaction.itemId as string,
+      type: camelCaseTransaction.type as 'in' | 'out' | 'adjustment_positive' | 'adjustment_negative' | 'transfer' | 'damaged' | 'expired',
       quantity: camelCaseTransaction.quantity as number,
       reason: camelCaseTransaction.reason as string || undefined,
       reference: camelCaseTransaction.reference as string || undefined,
@@ -752,11 +1903,44 @@ export class InventoryService {
       totalCost: camelCaseTransaction.totalCost as number || undefined,
       staffId: camelCaseTransaction.staffId as string,
       notes: camelCaseTransaction.notes as string || undefined,
+      location: camelCaseTransaction.location as string || undefined,
+      toLocation: camelCaseTransaction.toLocation as string || undefined,
       metadata: camelCaseTransaction.metadata as Record<string, unknown> || undefined,
       createdAt: camelCaseTransaction.createdAt as string,
     };
   }
 
+  /**
+   * Transform database stock alert to API format
+   */
+  private transformAlertFromDb(dbAlert: Record<string, unknown>): StockAlert {
+    const camelCaseAlert = this.adapter.toCamelCase(dbAlert);
+
+    return {
+      id: camelCaseAlert.id as string,
+      inventoryId: camelCaseAlert.inventoryId as string,
+      alertType: camelCaseAlert.alertType as StockAlert['alertType'],
+      location: camelCaseAlert.location as string || undefined,
+      threshold: camelCaseAlert.threshold !== null && camelCaseAlert.threshold !== undefined
+        ? Number(camelCaseAlert.threshold)
+        : undefined,
+      currentValue: Number(camelCaseAlert.currentValue) || 0,
+      message: camelCaseAlert.message as string,
+      severity: camelCaseAlert.severity as StockAlert['severity'],
+      enabled: true,
+      acknowledged: Boolean(camelCaseAlert.acknowledged),
+      acknowledgedBy: camelCaseAlert.acknowledgedBy as string || undefined,
+      acknowledgedAt: camelCaseAlert.acknowledgedAt as string || undefined,
+      status: camelCaseAlert.status as StockAlert['status'],
+      snoozedUntil: camelCaseAlert.snoozedUntil as string || undefined,
+      assignedTo: camelCaseAlert.assignedTo as string || undefined,
+      resolvedAt: camelCaseAlert.resolvedAt as string || undefined,
+      history: camelCaseAlert.history as StockAlertEvent[] || [],
+      createdAt: camelCaseAlert.createdAt as string,
+      updatedAt: camelCaseAlert.updatedAt as string,
+    };
+  }
+
   /**
    * Transform database category to API format
    */
@@ -0,0 +1,892 @@
+import { SupabaseAdapter } from '../adapters/supabaseAdapter';
+import { validateQuery, validateParams } from '../validation';
+import { UserRole } from '../auth';
+import type { ApiResponse } from '../types';
+import {
+  CreateSupplierSchema,
+  UpdateSupplierSchema,
+
+  CreatePurchaseOrderSchema,
+  ReceivePurchaseOrderSchema,
+  PurchaseOrderQuerySchema,
+  PurchaseOrderIdSchema,
+  validatePurchasingBusinessRules,
+  type CreateSupplierRequest,
+  type UpdateSupplierRequest,
+  type CreatePurchaseOrderRequest,
+  type ReceivePurchaseOrderRequest,
+  type PurchaseOrderQueryRequest,
+  type Supplier,
+  type PurchaseOrder,
+  type PurchaseOrderLine,
+  type PurchaseOrderStatus,
+  type PurchaseOrderReceipt,
+  type PurchaseOrderDrafts,
+  type StockPosition,
+} from '../schemas/purchasingSchemas';
+import type { StockTransaction } from '../schemas/inventorySchemas';
+import type { FinancialTransaction } from '../schemas/financeSchemas';
+import { inventoryService } from './inventoryService';
+import { financeService } from './financeService';
+
+// Orders whose stock is still on its way
+const OPEN_ORDER_STATUSES: PurchaseOrderStatus[] = ['ordered', 'partially_received'];
+
+export class PurchasingService {
+  private adapter: SupabaseAdapter;
+
+  constructor() {
+    this.adapter = new SupabaseAdapter();
+  }
+
+  /**
+   * Get all suppliers
+   */
+  async getSuppliers(): Promise<ApiResponse<Supplier[]>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'suppliers',
+        rateLimitKey: 'purchasing:suppliers:read',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('suppliers', {
+          select: '*',
+          orderBy: { column: 'name', ascending: true }
+        });
+      },
+      'read'
+    );
+
+    if (response.success) {
+      const suppliers = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: suppliers.map(supplier => this.transformSupplierFromDb(supplier as Record<string, unknown>))
+      };
+    }
+    return response as ApiResponse<Supplier[]>;
+  }
+
+  /**
+   * Create a supplier
+   */
+  async createSupplier(supplierData: CreateSupplierRequest): Promise<ApiResponse<Supplier>> {
+    // 1. Validate input data
+    const validationResult = validateParams(CreateSupplierSchema, supplierData);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const validatedData = validationResult.data;
+
+    // 2. Execute creation
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'suppliers',
+        requiredRole: UserRole.MANAGER, // Manager role required for suppliers
+        rateLimitKey: 'purchasing:suppliers:create',
+        enableLogging: true,
+      },
+      async () => {
+        const dbData = this.adapter.toSnakeCase({
+          ...validatedData,
+        });
+
+        return this.adapter.buildQuery('suppliers')
+          .insert([dbData])
+          .select('*');
+      },
+      'write'
+    );
+
+    if (response.success) {
+      const supplierArray = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: this.transformSupplierFromDb(supplierArray[0] as Record<string, unknown>)
+      };
+    }
+    return response as ApiResponse<Supplier>;
+  }
+
+  /**
+   * Update a supplier's contact details, lead time or finance defaults.
+   * expectedUpdatedAt is the supplier's updatedAt as it was read; the update is
+   * refused (409) if the supplier changed since.
+   */
+  async updateSupplier(id: string, updates: Omit<UpdateSupplierRequest, 'id'>, expectedUpdatedAt: string): Promise<ApiResponse<Supplier>> {
+    // 1. Validate ID and updates
+    const validationResult = validateParams(UpdateSupplierSchema, { ...updates, id });
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { id: supplierId, ...changes } = validationResult.data;
+
+    // 2. Execute update
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'suppliers',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'purchasing:suppliers:update',
+        enableLogging: true,
+        expectedVersion: expectedUpdatedAt,
+      },
+      async () => {
+        const dbUpdates = this.adapter.toSnakeCase({
+          ...changes,
+          updatedAt: new Date().toISOString()
+        });
+
+        const query = this.adapter.buildQuery('suppliers')
+          .update(dbUpdates)
+          .eq('id', supplierId);
+
+        return this.adapter.matchVersion(query, expectedUpdatedAt).select('*');
+      },
+      'write'
+    );
+
+    if (response.success) {
+      const supplierArray = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: this.transformSupplierFromDb(supplierArray[0] as Record<string, unknown>)
+      };
+    }
+    return response as ApiResponse<Supplier>;
+  }
+
+  /**
+   * Get purchase orders, optionally for one supplier or status
+   */
+  async getPurchaseOrders(query: Partial<PurchaseOrderQueryRequest> = {}): Promise<ApiResponse<PurchaseOrder[]>> {
+    // 1. Validate query parameters
+    const validationResult = validateQuery(PurchaseOrderQuerySchema, query);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { supplierId, status } = validationResult.data;
+
+    // 2. Execute query
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'purchase_orders',
+        rateLimitKey: 'purchasing:orders:read',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('purchase_orders', {
+          select: '*, suppliers(*)',
+          filters: { supplier_id: supplierId, status },
+          orderBy: { column: 'created_at', ascending: false }
+        });
+      },
+      'read'
+    );
+
+    if (response.success) {
+      const orders = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: orders.map(order => this.transformPurchaseOrderFromDb(order as Record<string, unknown>))
+      };
+    }
+    return response as ApiResponse<PurchaseOrder[]>;
+  }
+
+  /**
+   * Get a single purchase order with its supplier
+   */
+  async getPurchaseOrderById(id: string): Promise<ApiResponse<PurchaseOrder>> {
+    // 1. Validate ID
+    const validationResult = validateParams(PurchaseOrderIdSchema, { id });
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    // 2. Execute query
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'purchase_orders',
+        rateLimitKey: 'purchasing:orders:read',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('purchase_orders', {
+          select: '*, suppliers(*)',
+          filters: { id }
+        }).single();
+      },
+      'read'
+    );
+
+    if (response.success) {
+      return {
+        ...response,
+        data: this.transformPurchaseOrderFromDb(response.data as Record<string, unknown>)
+      };
+    }
+    return response as ApiResponse<PurchaseOrder>;
+  }
+
+  /**
+   * Create a draft purchase order
+   */
+  async createPurchaseOrder(orderData: CreatePurchaseOrderRequest): Promise<ApiResponse<PurchaseOrder>> {
+    // 1. Validate input data
+    const validationResult = validateParams(CreatePurchaseOrderSchema, orderData);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const validatedData = validationResult.data;
+
+    // 2. Look up item names so the order reads well on its own
+    const itemsResponse = await this.getItemRows(validatedData.lines.map(line => line.itemId));
+    if (!itemsResponse.success) {
+      return itemsResponse as unknown as ApiResponse<PurchaseOrder>;
+    }
+
+    const itemNames = new Map(itemsResponse.data.map(item => [item.id as string, item.name as string]));
+    const missingItem = validatedData.lines.find(line => !itemNames.has(line.itemId));
+    if (missingItem) {
+      return {
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/not-found',
+          title: 'Inventory Item Not Found',
+          status: 404,
+          detail: `Inventory item ${missingItem.itemId} does not exist`,
+          instance: '/api/inventory/purchase-orders',
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
+      };
+    }
+
+    const lines: PurchaseOrderLine[] = validatedData.lines.map(line => ({
+      id: crypto.randomUUID(),
+      itemId: line.itemId,
+      itemName: itemNames.get(line.itemId),
+      quantityOrdered: line.quantity,
+      quantityReceived: 0,
+      unitCost: line.unitCost
+    }));
+
+    // 3. Execute creation
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'purchase_orders',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'purchasing:orders:create',
+        enableLogging: true,
+      },
+      async () => {
+        const dbData = this.adapter.toSnakeCase({
+          orderNumber: this.generateOrderNumber(),
+          supplierId: validatedData.supplierId,
+          status: 'draft',
+          lines,
+          total: validatePurchasingBusinessRules.calculateOrderTotal(lines),
+          expectedDate: validatedData.expectedDate,
+          notes: validatedData.notes,
+        });
+
+        return this.adapter.buildQuery('purchase_orders')
+          .insert([dbData])
+          .select('*, suppliers(*)');
+      },
+      'write'
+    );
+
+    if (response.success) {
+      const orderArray = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: this.transformPurchaseOrderFromDb(orderArray[0] as Record<string, unknown>)
+      };
+    }
+    return response as ApiResponse<PurchaseOrder>;
+  }
+
+  /**
+   * Draft one purchase order per supplier for every item at or below its
+   * reorder point, net of stock already on order
+   */
+  async draftPurchaseOrdersFromAlerts(): Promise<ApiResponse<PurchaseOrderDrafts>> {
+    // 1. Find the items that need restocking, re-checking stock that changed without a transaction
+    const alertsResponse = await inventoryService.refreshAlerts();
+    if (!alertsResponse.success) {
+      return alertsResponse as unknown as ApiResponse<PurchaseOrderDrafts>;
+    }
+
+    const alertedItemIds = [...new Set(
+      alertsResponse.data
+        .filter(alert => alert.alertType !== 'overstock')
+        .map(alert => alert.inventoryId)
+    )];
+
+    if (alertedItemIds.length === 0) {
+      return {
+        ...alertsResponse,
+        data: { orders: [], unassignedItemIds: [] }
+      };
+    }
+
+    // 2. Load the items, what is already on order and the suppliers
+    const itemsResponse = await this.getItemRows(alertedItemIds);
+    if (!itemsResponse.success) {
+      return itemsResponse as unknown as ApiResponse<PurchaseOrderDrafts>;
+    }
+
+    const onOrderResponse = await this.getOnOrderQuantities();
+    if (!onOrderResponse.success) {
+      return onOrderResponse as unknown as ApiResponse<PurchaseOrderDrafts>;
+    }
+
+    const suppliersResponse = await this.getSuppliers();
+    if (!suppliersResponse.success) {
+      return suppliersResponse as unknown as ApiResponse<PurchaseOrderDrafts>;
+    }
+
+    // 3. Work out what to order and group it by supplier
+    const linesBySupplier = new Map<string, CreatePurchaseOrderRequest['lines']>();
+    const unassignedItemIds: string[] = [];
+
+    itemsResponse.data.forEach(item => {
+      const itemId = item.id as string;
+      const onHand = Number(item.currentStock) || 0;
+      const onOrder = onOrderResponse.data.get(itemId) || 0;
+      const reorderPoint = Number(item.reorderPoint) || 0;
+
+      // Stock already on its way covers the shortfall
+      if (onHand + onOrder > reorderPoint) {
+        return;
+      }
+
+      const supplierId = item.supplierId as string | undefined;
+      if (!supplierId) {
+        unassignedItemIds.push(itemId);
+        return;
+      }
+
+      const reorderQuantity = Number(item.reorderQuantity) || 0;
+      const quantity = reorderQuantity > 0
+        ? reorderQuantity
+        : Math.max((Number(item.maxStock) || 0) - onHand - onOrder, 1);
+
+      linesBySupplier.set(supplierId, [
+        ...(linesBySupplier.get(supplierId) || []),
+        { itemId, quantity, unitCost: Number(item.costPrice) || 0 }
+      ]);
+    });
+
+    // 4. Create the drafts, due after each supplier's lead time
+    const orders: PurchaseOrder[] = [];
+    for (const [supplierId, lines] of linesBySupplier) {
+      const supplier = suppliersResponse.data.find(s => s.id === supplierId);
+      const expectedDate = new Date(Date.now() + (supplier?.leadTimeDays ?? 0) * 24 * 60 * 60 * 1000).toISOString();
+
+      const orderResponse = await this.createPurchaseOrder({
+        supplierId,
+        lines,
+        expectedDate,
+        notes: 'Drafted from reorder alerts'
+      });
+      if (!orderResponse.success) {
+        return orderResponse as unknown as ApiResponse<PurchaseOrderDrafts>;
+      }
+      orders.push(orderResponse.data);
+    }
+
+    return {
+      ...suppliersResponse,
+      data: { orders, unassignedItemIds }
+    };
+  }
+
+  /**
+   * Send a draft purchase order to the supplier
+   */
+  async submitPurchaseOrder(id: string): Promise<ApiResponse<PurchaseOrder>> {
+    const orderResponse = await this.getPurchaseOrderById(id);
+    if (!orderResponse.success) {
+      return orderResponse;
+    }
+
+    const order = orderResponse.data;
+    const businessRuleCheck = validatePurchasingBusinessRules.canSubmit(order);
+    if (!businessRuleCheck.valid) {
+      return {
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/business-rule-violation',
+          title: 'Cannot Submit Purchase Order',
+          status: 400,
+          detail: businessRuleCheck.reason || 'Purchase order cannot be submitted',
+          instance: `/api/inventory/purchase-orders/${id}/submit`,
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
+      };
+    }
+
+    const orderedAt = new Date();
+    const leadTimeDays = order.supplier?.leadTimeDays ?? 0;
+    return this.updatePurchaseOrder(order, {
+      status: 'ordered',
+      orderedAt: orderedAt.toISOString(),
+      expectedDate: order.expectedDate || new Date(orderedAt.getTime() + leadTimeDays * 24 * 60 * 60 * 1000).toISOString()
+    });
+  }
+
+  /**
+   * Cancel a purchase order that has not had anything delivered
+   */
+  async cancelPurchaseOrder(id: string): Promise<ApiResponse<PurchaseOrder>> {
+    const orderResponse = await this.getPurchaseOrderById(id);
+    if (!orderResponse.success) {
+      return orderResponse;
+    }
+
+    const order = orderResponse.data;
+    const businessRuleCheck = validatePurchasingBusinessRules.canCancel(order);
+    if (!businessRuleCheck.valid) {
+      return {
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/business-rule-violation',
+          title: 'Cannot Cancel Purchase Order',
+          status: 400,
+          detail: businessRuleCheck.reason || 'Purchase order cannot be cancelled',
+          instance: `/api/inventory/purchase-orders/${id}/cancel`,
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
+      };
+    }
+
+    return this.updatePurchaseOrder(order, { status: 'cancelled' });
+  }
+
+  /**
+   * Receive a delivery against a purchase order. Each line may be partially
+   * received; the received stock is posted as `in` transactions and the
+   * delivery's cost as an expense in the finance ledger.
+   */
+  async receivePurchaseOrder(id: string, receipt: ReceivePurchaseOrderRequest): Promise<ApiResponse<PurchaseOrderReceipt>> {
+    // 1. Validate input data
+    const validationResult = validateParams(ReceivePurchaseOrderSchema, receipt);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const validatedData = validationResult.data;
+    const instance = `/api/inventory/purchase-orders/${id}/receive`;
+
+    // 2. Check the delivery fits what is still outstanding
+    const orderResponse = await this.getPurchaseOrderById(id);
+    if (!orderResponse.success) {
+      return orderResponse as unknown as ApiResponse<PurchaseOrderReceipt>;
+    }
+
+    const order = orderResponse.data;
+    const businessRuleCheck = validatePurchasingBusinessRules.canReceive(order, validatedData.lines);
+    if (!businessRuleCheck.valid) {
+      return {
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/business-rule-violation',
+          title: 'Cannot Receive Delivery',
+          status: 400,
+          detail: businessRuleCheck.reason || 'Delivery cannot be received against this purchase order',
+          instance,
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
+      };
+    }
+
+    // 3. The expense needs somewhere to be booked
+    const accountId = validatedData.accountId || order.supplier?.expenseAccountId;
+    const categoryId = validatedData.categoryId || order.supplier?.expenseCategoryId;
+    if (!accountId || !categoryId) {
+      return {
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/validation',
+          title: 'Expense Account Required',
+          status: 400,
+          detail: 'Choose the account and category for this delivery, or set defaults on the supplier',
+          instance,
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
+      };
+    }
+
+    // 4. Put the stock on the shelf
+    const received = validatedData.lines.map(receivedLine => {
+      const line = order.lines.find(l => l.id === receivedLine.lineId)!;
+      return { line, quantity: receivedLine.quantity, unitCost: receivedLine.unitCost ?? line.unitCost };
+    });
+    const receivedAt = validatedData.receivedAt || new Date().toISOString();
+    const reference = validatedData.reference || order.orderNumber;
+    const stockTransactions: StockTransaction[] = [];
+    for (const { line, quantity, unitCost } of received) {
+      const transactionResponse = await inventoryService.createTransaction({
+        inventoryId: line.itemId,
+        type: 'in',
+        quantity,
+        reason: `Received against ${order.orderNumber}`,
+        reference,
+        cost: unitCost,
+        staffMember: validatedData.staffMember,
+        relatedEntityId: order.id,
+        relatedEntityType: 'purchase'
+      });
+      if (!transactionResponse.success) {
+        await this.reverseReceipt(order, received.slice(0, stockTransactions.length), undefined, reference, validatedData.staffMember);
+        return transactionResponse as unknown as ApiResponse<PurchaseOrderReceipt>;
+      }
+      stockTransactions.push(transactionResponse.data);
+    }
+
+    // 5. Book the cost of the delivery
+    const amount = Math.round(received.reduce((sum, r) => sum + r.quantity * r.unitCost, 0) * 100) / 100;
+    let expense: FinancialTransaction | undefined;
+    if (amount > 0) {
+      const expenseResponse = await financeService.createTransaction({
+        type: 'expense',
+        amount,
+        currency: 'USD',
+        description: `${order.supplier?.name || 'Supplier'} delivery for ${order.orderNumber}`,
+        categoryId,
+        accountId,
+        date: receivedAt,
+        reference,
+        isRecurring: false,
+        tags: ['purchasing'],
+        relatedEntityId: order.supplierId,
+        relatedEntityType: 'vendor',
+        staffMember: validatedData.staffMember,
+        isApproved: false
+      });
+      if (!expenseResponse.success) {
+        await this.reverseReceipt(order, received.slice(0, stockTransactions.length), undefined, reference, validatedData.staffMember);
+        return expenseResponse as unknown as ApiResponse<PurchaseOrderReceipt>;
+      }
+      expense = expenseResponse.data as FinancialTransaction;
+    }
+
+    // 6. Only now record the received quantities - conditional on the order being
+    //    unchanged, so if someone else booked in a delivery meanwhile this one is
+    //    taken back out of stock and the books rather than counted twice
+    const lines = order.lines.map(line => {
+      const receivedLine = received.find(r => r.line.id === line.id);
+      return receivedLine ? { ...line, quantityReceived: line.quantityReceived + receivedLine.quantity } : line;
+    });
+    const status = validatePurchasingBusinessRules.getStatusAfterReceipt(lines);
+
+    const updateResponse = await this.updatePurchaseOrder(order, {
+      lines,
+      status,
+      ...(status === 'received' ? { receivedAt } : {})
+    }, UserRole.STAFF);
+    if (!updateResponse.success) {
+      await this.reverseReceipt(order, received, expense, reference, validatedData.staffMember);
+      return updateResponse as unknown as ApiResponse<PurchaseOrderReceipt>;
+    }
+
+    return {
+      ...updateResponse,
+      data: {
+        purchaseOrder: updateResponse.data,
+        stockTransactions,
+        expense
+      }
+    };
+  }
+
+  /**
+   * On-hand vs. on-order stock for every active item
+   */
+  async getStockPositions(): Promise<ApiResponse<StockPosition[]>> {
+    // 1. Load the items
+    const itemsResponse = await this.adapter.executeQuery(
+      {
+        tableName: 'inventory_items',
+        rateLimitKey: 'inventory:read',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('inventory_items', {
+          select: '*',
+          orderBy: { column: 'name', ascending: true }
+        });
+      },
+      'read'
+    );
+
+    if (!itemsResponse.success) {
+      return itemsResponse as ApiResponse<StockPosition[]>;
+    }
+
+    // 2. Add up what is on its way
+    const onOrderResponse = await this.getOnOrderQuantities();
+    if (!onOrderResponse.success) {
+      return onOrderResponse as unknown as ApiResponse<StockPosition[]>;
+    }
+
+    const items = (Array.isArray(itemsResponse.data) ? itemsResponse.data : [itemsResponse.data])
+      .map(item => this.adapter.toCamelCase(item as Record<string, unknown>))
+      .filter(item => item.status !== 'discontinued');
+
+    return {
+      ...itemsResponse,
+      data: items.map(item => {
+        const onHand = Number(item.currentStock) || 0;
+        const onOrder = onOrderResponse.data.get(item.id as string) || 0;
+        const reorderPoint = Number(item.reorderPoint) || 0;
+        return {
+          itemId: item.id as string,
+          name: item.name as string,
+          sku: item.sku as string || undefined,
+          unit: item.unitOfMeasurement as string || undefined,
+          supplierId: item.supplierId as string || undefined,
+          onHand,
+          onOrder,
+          reorderPoint,
+          needsReorder: onHand + onOrder <= reorderPoint
+        };
+      })
+    };
+  }
+
+  /**
+   * Load raw inventory rows (camelCased) for a set of items
+   */
+  private async getItemRows(itemIds: string[]): Promise<ApiResponse<Record<string, unknown>[]>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'inventory_items',
+        rateLimitKey: 'inventory:read',
+        enableLogging: false,
+      },
+      async () => {
+        return this.adapter.buildQuery('inventory_items', { select: '*' })
+          .in('id', itemIds);
+      },
+      'read'
+    );
+
+    if (response.success) {
+      const items = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: items.map(item => this.adapter.toCamelCase(item as Record<string, unknown>))
+      };
+    }
+    return response as ApiResponse<Record<string, unknown>[]>;
+  }
+
+  /**
+   * Outstanding quantity per item across submitted, not yet received orders
+   */
+  private async getOnOrderQuantities(): Promise<ApiResponse<Map<string, number>>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'purchase_orders',
+        rateLimitKey: 'purchasing:orders:read',
+        enableLogging: false,
+      },
+      async () => {
+        return this.adapter.buildQuery('purchase_orders', { select: '*' })
+          .in('status', OPEN_ORDER_STATUSES);
+      },
+      'read'
+    );
+
+    if (response.success) {
+      const onOrder = new Map<string, number>();
+      const orders = Array.isArray(response.data) ? response.data : [response.data];
+      orders.forEach(order => {
+        this.transformPurchaseOrderFromDb(order as Record<string, unknown>).lines.forEach(line => {
+          const outstanding = Math.max(line.quantityOrdered - line.quantityReceived, 0);
+          onOrder.set(line.itemId, (onOrder.get(line.itemId) || 0) + outstanding);
+        });
+      });
+      return {
+        ...response,
+        data: onOrder
+      };
+    }
+    return response as unknown as ApiResponse<Map<string, number>>;
+  }
+
+  /**
+   * Take a delivery that could not be recorded back out of stock and cancel its expense
+   */
+  private async reverseReceipt(
+    order: PurchaseOrder,
+    stocked: Array<{ line: PurchaseOrderLine; quantity: number; unitCost: number }>,
+    expense: FinancialTransaction | undefined,
+    reference: string,
+    staffMember?: string
+  ): Promise<void> {
+    for (const { line, quantity, unitCost } of stocked) {
+      await inventoryService.createTransaction({
+        inventoryId: line.itemId,
+        type: 'out',
+        quantity,
+        reason: `Receipt against ${order.orderNumber} reversed`,
+        reference,
+        cost: unitCost,
+        staffMember,
+        relatedEntityId: order.id,
+        relatedEntityType: 'purchase'
+      });
+    }
+
+    if (expense) {
+      await financeService.deleteTransaction(expense.id);
+    }
+  }
+
+  /**
+   * Apply changes to a purchase order if nobody else changed it since it was read
+   */
+  private async updatePurchaseOrder(
+    order: PurchaseOrder,
+    changes: Partial<Pick<PurchaseOrder, 'status' | 'lines' | 'orderedAt' | 'expectedDate' | 'receivedAt'>>,
+    requiredRole: UserRole = UserRole.MANAGER
+  ): Promise<ApiResponse<PurchaseOrder>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'purchase_orders',
+        requiredRole,
+        rateLimitKey: 'purchasing:orders:update',
+        enableLogging: true,
+      },
+      async () => {
+        const dbUpdates = this.adapter.toSnakeCase({
+          ...changes,
+          updatedAt: new Date().toISOString()
+        });
+
+        return this.adapter.buildQuery('purchase_orders')
+          .update(dbUpdates)
+          .eq('id', order.id)
+          .eq('updated_at', order.updatedAt)
+          .select('*, suppliers(*)');
+      },
+      'write'
+    );
+
+    if (!response.success) {
+      return response as ApiResponse<PurchaseOrder>;
+    }
+
+    const orderArray = Array.isArray(response.data) ? response.data : [response.data];
+    if (orderArray.length === 0 || !orderArray[0]) {
+      return {
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/conflict',
+          title: 'Purchase Order Changed',
+          status: 409,
+          detail: 'The purchase order was updated by someone else, reload it and try again',
+          instance: `/api/inventory/purchase-orders/${order.id}`,
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
+      };
+    }
+
+    return {
+      ...response,
+      data: this.transformPurchaseOrderFromDb(orderArray[0] as Record<string, unknown>)
+    };
+  }
+
+  /**
+   * Human-friendly order number, e.g. PO-20240601-4F2A
+   */
+  private generateOrderNumber(): string {
+    const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+    return `PO-${date}-${crypto.randomUUID().slice(0, 4).toUpperCase()}`;
+  }
+
+  /**
+   * Transform database supplier to API format
+   */
+  private transformSupplierFromDb(dbSupplier: Record<string, unknown>): Supplier {
+    const camelCaseSupplier = this.adapter.toCamelCase(dbSupplier);
+
+    return {
+      id: camelCaseSupplier.id as string,
+      name: camelCaseSupplier.name as string,
+      contactName: camelCaseSupplier.contactName as string || undefined,
+      email: camelCaseSupplier.email as string || undefined,
+      phone: camelCaseSupplier.phone as string || undefined,
+      address: camelCaseSupplier.address as string || undefined,
+      leadTimeDays: camelCaseSupplier.leadTimeDays as number ?? 0,
+      expenseAccountId: camelCaseSupplier.expenseAccountId as string || undefined,
+      expenseCategoryId: camelCaseSupplier.expenseCategoryId as string || undefined,
+      notes: camelCaseSupplier.notes as string || undefined,
+      isActive: camelCaseSupplier.isActive !== false,
+      createdAt: camelCaseSupplier.createdAt as string,
+      updatedAt: camelCaseSupplier.updatedAt as string,
+    };
+  }
+
+  /**
+   * Transform database purchase order to API format
+   */
+  private transformPurchaseOrderFromDb(dbOrder: Record<string, unknown>): PurchaseOrder {
+    const camelCaseOrder = this.adapter.toCamelCase(dbOrder);
+    const lines = (camelCaseOrder.lines as PurchaseOrderLine[]) || [];
+
+    return {
+      id: camelCaseOrder.id as string,
+      orderNumber: camelCaseOrder.orderNumber as string,
+      supplierId: camelCaseOrder.supplierId as string,
+      supplier: camelCaseOrder.suppliers
+        ? this.transformSupplierFromDb(camelCaseOrder.suppliers as Record<string, unknown>)
+        : undefined,
+      status: camelCaseOrder.status as PurchaseOrderStatus,
+      lines,
+      total: camelCaseOrder.total as number ?? validatePurchasingBusinessRules.calculateOrderTotal(lines),
+      expectedDate: camelCaseOrder.expectedDate as string || undefined,
+      orderedAt: camelCaseOrder.orderedAt as string || undefined,
+      receivedAt: camelCaseOrder.receivedAt as string || undefined,
+      notes: camelCaseOrder.notes as string || undefined,
+      createdAt: camelCaseOrder.createdAt as string,
+      updatedAt: camelCaseOrder.updatedAt as string,
+    };
+  }
+}
+
+// Export a singleton instance
+export const purchasingService = new PurchasingService();
@@ -0,0 +1,623 @@
+import { SupabaseAdapter } from '../adapters/supabaseAdapter';
+import { validateParams } from '../validation';
+import { UserRole } from '../auth';
+import type { ApiResponse } from '../types';
+import type { ValidationError } from '../errors';
+import {
+  CreateRecipeSchema,
+  UpdateRecipeSchema,
+  RecipeIdSchema,
+  RecordSaleSchema,
+  ImportSquareSalesSchema,
+  convertToItemUnit,
+  validateRecipeBusinessRules,
+  type CreateRecipeRequest,
+  type UpdateRecipeRequest,
+  type RecordSaleRequest,
+  type ImportSquareSalesRequest,
+  type Recipe,
+  type RecipeComponent,
+  type ProductSale,
+  type SaleDepletion,
+  type SquareSalesImport,
+  type UnitConvertible,
+} from '../schemas/recipeSchemas';
+import type { InventoryUnit, StockTransaction } from '../schemas/inventorySchemas';
+import { inventoryService } from './inventoryService';
+
+type StockedItem = UnitConvertible & { id: string; name: string };
+
+export class RecipeService {
+  private adapter: SupabaseAdapter;
+
+  constructor() {
+    this.adapter = new SupabaseAdapter();
+  }
+
+  /**
+   * Get all recipes
+   */
+  async getRecipes(): Promise<ApiResponse<Recipe[]>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'recipes',
+        rateLimitKey: 'inventory:recipes:read',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('recipes', {
+          select: '*',
+          orderBy: { column: 'name', ascending: true }
+        });
+      },
+      'read'
+    );
+
+    if (response.success) {
+      const recipes = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: recipes.map(recipe => this.transformRecipeFromDb(recipe as Record<string, unknown>))
+      };
+    }
+    return response as ApiResponse<Recipe[]>;
+  }
+
+  /**
+   * Get a single recipe
+   */
+  async getRecipeById(id: string): Promise<ApiResponse<Recipe>> {
+    // 1. Validate ID
+    const validationResult = validateParams(RecipeIdSchema, { id });
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    // 2. Execute query
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'recipes',
+        rateLimitKey: 'inventory:recipes:read',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('recipes', {
+          select: '*',
+          filters: { id }
+        }).single();
+      },
+      'read'
+    );
+
+    if (response.success) {
+      return {
+        ...response,
+        data: this.transformRecipeFromDb(response.data as Record<string, unknown>)
+      };
+    }
+    return response as ApiResponse<Recipe>;
+  }
+
+  /**
+   * Create a recipe. Every component must be measurable in its item's stock unit.
+   */
+  async createRecipe(recipeData: CreateRecipeRequest): Promise<ApiResponse<Recipe>> {
+    // 1. Validate input data
+    const validationResult = validateParams(CreateRecipeSchema, recipeData);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const validatedData = validationResult.data;
+
+    // 2. Check the units convert
+    const componentCheck = await this.checkComponents(validatedData.components, '/api/inventory/recipes');
+    if (!componentCheck.success) {
+      return componentCheck as unknown as ApiResponse<Recipe>;
+    }
+
+    // 3. Execute creation
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'recipes',
+        requiredRole: UserRole.MANAGER, // Manager role required for recipes
+        rateLimitKey: 'inventory:recipes:create',
+        enableLogging: true,
+      },
+      async () => {
+        const dbData = this.adapter.toSnakeCase({
+          ...validatedData,
+        });
+
+        return this.adapter.buildQuery('recipes')
+          .insert([dbData])
+          .select('*');
+      },
+      'write'
+    );
+
+    if (response.success) {
+      const recipeArray = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: this.transformRecipeFromDb(recipeArray[0] as Record<string, unknown>)
+      };
+    }
+    return response as ApiResponse<Recipe>;
+  }
+
+  /**
+   * Update a recipe. expectedUpdatedAt is the recipe's updatedAt as it was
+   * read; the update is refused (409) if the recipe changed since.
+   */
+  async updateRecipe(id: string, updates: Omit<UpdateRecipeRequest, 'id'>, expectedUpdatedAt: string): Promise<ApiResponse<Recipe>> {
+    // 1. Validate ID and updates
+    const validationResult = validateParams(UpdateRecipeSchema, { ...updates, id });
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { id: recipeId, ...changes } = validationResult.data;
+
+    // 2. Check the units convert
+    if (changes.components) {
+      const componentCheck = await this.checkComponents(changes.components, `/api/inventory/recipes/${id}`);
+      if (!componentCheck.success) {
+        return componentCheck as unknown as ApiResponse<Recipe>;
+      }
+    }
+
+    // 3. Execute update
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'recipes',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'inventory:recipes:update',
+        enableLogging: true,
+        expectedVersion: expectedUpdatedAt,
+      },
+      async () => {
+        const dbUpdates = this.adapter.toSnakeCase({
+          ...changes,
+          updatedAt: new Date().toISOString()
+        });
+
+        const query = this.adapter.buildQuery('recipes')
+          .update(dbUpdates)
+          .eq('id', recipeId);
+
+        return this.adapter.matchVersion(query, expectedUpdatedAt).select('*');
+      },
+      'write'
+    );
+
+    if (response.success) {
+      const recipeArray = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: this.transformRecipeFromDb(recipeArray[0] as Record<string, unknown>)
+      };
+    }
+    return response as ApiResponse<Recipe>;
+  }
+
+  /**
+   * Record a sale and deplete the recipe's components from stock
+   */
+  async recordSale(saleData: RecordSaleRequest): Promise<ApiResponse<SaleDepletion>> {
+    // 1. Validate input data
+    const validationResult = validateParams(RecordSaleSchema, saleData);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const validatedData = validationResult.data;
+
+    // 2. Check the recipe is on sale
+    const recipeResponse = await this.getRecipeById(validatedData.recipeId);
+    if (!recipeResponse.success) {
+      return recipeResponse as unknown as ApiResponse<SaleDepletion>;
+    }
+
+    const recipe = recipeResponse.data;
+    const businessRuleCheck = validateRecipeBusinessRules.canRecordSale(recipe);
+    if (!businessRuleCheck.valid) {
+      return {
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/business-rule-violation',
+          title: 'Cannot Record Sale',
+          status: 400,
+          detail: businessRuleCheck.reason || 'Sale cannot be recorded',
+          instance: '/api/inventory/sales',
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
+      };
+    }
+
+    // 3. Record the sale, then take the components out of stock
+    const saleResponse = await this.insertSale({
+      recipeId: recipe.id,
+      quantity: validatedData.quantity,
+      source: 'manual',
+      eventId: validatedData.eventId,
+      reference: validatedData.reference,
+      soldAt: validatedData.soldAt || new Date().toISOString()
+    });
+    if (!saleResponse.success) {
+      return saleResponse as unknown as ApiResponse<SaleDepletion>;
+    }
+
+    return this.depleteSale(recipe, saleResponse.data, validatedData.staffMember);
+  }
+
+  /**
+   * Import sales from Square orders. Line items are matched to recipes by
+   * Square catalog ID, falling back to the recipe name; line items imported
+   * before are skipped so the same orders can be sent again safely. A sale
+   * recorded by an earlier import that failed before its stock was depleted
+   * is depleted now instead.
+   */
+  async importSquareSales(importData: ImportSquareSalesRequest): Promise<ApiResponse<SquareSalesImport>> {
+    // 1. Validate input data
+    const validationResult = validateParams(ImportSquareSalesSchema, importData);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { orders, eventId, staffMember } = validationResult.data;
+
+    // 2. Load recipes and what was already imported
+    const recipesResponse = await this.getRecipes();
+    if (!recipesResponse.success) {
+      return recipesResponse as unknown as ApiResponse<SquareSalesImport>;
+    }
+
+    const lines = orders
+      .filter(order => order.state !== 'CANCELED')
+      .flatMap(order => (order.line_items || []).map((lineItem, index) => ({
+        externalId: `${order.id}:${lineItem.uid || index}`,
+        soldAt: order.created_at || new Date().toISOString(),
+        reference: order.id,
+        lineItem
+      })));
+
+    const importedResponse = await this.getImportedSales(lines.map(line => line.externalId));
+    if (!importedResponse.success) {
+      return importedResponse as unknown as ApiResponse<SquareSalesImport>;
+    }
+
+    // 3. Record each new line item and deplete its components
+    const result: SquareSalesImport = { sales: [], duplicates: [], unmatched: [] };
+    for (const line of lines) {
+      const imported = importedResponse.data.get(line.externalId);
+      if (imported?.depletedAt) {
+        result.duplicates.push(line.externalId);
+        continue;
+      }
+
+      const recipe = imported
+        ? recipesResponse.data.find(r => r.id === imported.recipeId)
+        : this.matchSquareLineItem(recipesResponse.data, line.lineItem);
+      if (!recipe) {
+        result.unmatched.push(line.lineItem.name || line.lineItem.catalog_object_id || line.externalId);
+        continue;
+      }
+
+      let sale = imported;
+      if (!sale) {
+        const saleResponse = await this.insertSale({
+          recipeId: recipe.id,
+          quantity: Number(line.lineItem.quantity),
+          source: 'square',
+          externalId: line.externalId,
+          eventId,
+          reference: line.reference,
+          soldAt: line.soldAt
+        });
+        if (!saleResponse.success) {
+          // A concurrent import recorded it first (unique on source + external ID)
+          if (saleResponse.error?.errors?.some((error: ValidationError) => error.code === 'DUPLICATE_ENTRY')) {
+            result.duplicates.push(line.externalId);
+            continue;
+          }
+          return saleResponse as unknown as ApiResponse<SquareSalesImport>;
+        }
+        sale = saleResponse.data;
+      }
+
+      // A sale left undepleted here is depleted by the next import of the same orders
+      const depletionResponse = await this.depleteSale(recipe, sale, staffMember);
+      if (!depletionResponse.success) {
+        return depletionResponse as unknown as ApiResponse<SquareSalesImport>;
+      }
+      result.sales.push(depletionResponse.data);
+    }
+
+    return {
+      ...recipesResponse,
+      data: result
+    };
+  }
+
+  /**
+   * Deplete a sale's components, then mark the sale depleted so it is never
+   * depleted again
+   */
+  private async depleteSale(recipe: Recipe, sale: ProductSale, staffMember?: string): Promise<ApiResponse<SaleDepletion>> {
+    const depletionResponse = await this.depleteComponents(recipe, sale, staffMember);
+    if (!depletionResponse.success) {
+      return depletionResponse;
+    }
+
+    const depletedAt = new Date().toISOString();
+    const markResponse = await this.adapter.executeQuery(
+      {
+        tableName: 'product_sales',
+        requiredRole: UserRole.STAFF,
+        rateLimitKey: 'inventory:sales:create',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('product_sales')
+          .update({ depleted_at: depletedAt })
+          .eq('id', sale.id)
+          .select('*');
+      },
+      'write'
+    );
+    if (!markResponse.success) {
+      return markResponse as unknown as ApiResponse<SaleDepletion>;
+    }
+
+    return {
+      ...depletionResponse,
+      data: { ...depletionResponse.data, sale: { ...sale, depletedAt } }
+    };
+  }
+
+  /**
+   * Post one `out` transaction per component, converted into the unit the
+   * item is stocked in. A component that cannot be depleted does not undo
+   * the sale; it is reported so stock can be corrected by hand.
+   */
+  private async depleteComponents(recipe: Recipe, sale: ProductSale, staffMember?: string): Promise<ApiResponse<SaleDepletion>> {
+    const itemsResponse = await this.getStockedItems(recipe.components.map(component => component.itemId));
+    if (!itemsResponse.success) {
+      return itemsResponse as unknown as ApiResponse<SaleDepletion>;
+    }
+
+    const transactions: StockTransaction[] = [];
+    const failures: SaleDepletion['failures'] = [];
+
+    for (const component of recipe.components) {
+      const item = itemsResponse.data.find(i => i.id === component.itemId);
+      const quantity = item ? convertToItemUnit(component.quantity * sale.quantity, component.unit, item) : null;
+      if (!item || quantity === null) {
+        failures.push({
+          itemId: component.itemId,
+          reason: item ? `Cannot convert ${component.unit} to ${item.unit}` : 'Inventory item no longer exists'
+        });
+        continue;
+      }
+
+      const transactionResponse = await inventoryService.createTransaction({
+        inventoryId: item.id,
+        type: 'out',
+        quantity: Math.round(quantity * 10000) / 10000,
+        reason: `Sold ${sale.quantity} × ${recipe.name}`,
+        reference: sale.reference,
+        staffMember,
+        relatedEntityId: sale.id,
+        relatedEntityType: 'sale'
+      });
+      if (transactionResponse.success) {
+        transactions.push(transactionResponse.data);
+      } else {
+        failures.push({ itemId: item.id, reason: transactionResponse.error?.detail || 'Stock transaction failed' });
+      }
+    }
+
+    return {
+      success: true,
+      data: { sale, transactions, failures },
+      meta: {
+        requestId: crypto.randomUUID(),
+        source: 'calculation'
+      }
+    };
+  }
+
+  /**
+   * Check every component's unit converts to its item's stock unit
+   */
+  private async checkComponents(components: RecipeComponent[], instance: string): Promise<ApiResponse<StockedItem[]>> {
+    const itemsResponse = await this.getStockedItems(components.map(component => component.itemId));
+    if (!itemsResponse.success) {
+      return itemsResponse;
+    }
+
+    for (const component of components) {
+      const item = itemsResponse.data.find(i => i.id === component.itemId);
+      const componentCheck = item
+        ? validateRecipeBusinessRules.canUseComponent(component, item)
+        : { valid: false, reason: `Inventory item ${component.itemId} does not exist` };
+
+      if (!componentCheck.valid) {
+        return {
+          success: false,
+          error: {
+            type: 'https://docs.trainstation-dashboard.com/errors/business-rule-violation',
+            title: 'Invalid Recipe Component',
+            status: 400,
+            detail: componentCheck.reason || 'Component cannot be used in this recipe',
+            instance,
+            timestamp: new Date().toISOString()
+          },
+          meta: {
+            requestId: crypto.randomUUID(),
+            source: 'validation'
+          }
+        };
+      }
+    }
+
+    return itemsResponse;
+  }
+
+  /**
+   * Load the unit details of a set of inventory items
+   */
+  private async getStockedItems(itemIds: string[]): Promise<ApiResponse<StockedItem[]>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'inventory_items',
+        rateLimitKey: 'inventory:read',
+        enableLogging: false,
+      },
+      async () => {
+        return this.adapter.buildQuery('inventory_items', { select: '*' })
+          .in('id', itemIds);
+      },
+      'read'
+    );
+
+    if (response.success) {
+      const items = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: items.map(row => {
+          const item = this.adapter.toCamelCase(row as Record<string, unknown>);
+          return {
+            id: item.id as string,
+            name: item.name as string,
+            unit: (item.unitOfMeasurement || item.unit) as InventoryUnit,
+            packSize: item.packSize as number || undefined,
+            packUnit: item.packUnit as InventoryUnit || undefined
+          };
+        })
+      };
+    }
+    return response as ApiResponse<StockedItem[]>;
+  }
+
+  /**
+   * Square line items that have already been imported, by external ID
+   */
+  private async getImportedSales(externalIds: string[]): Promise<ApiResponse<Map<string, ProductSale>>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'product_sales',
+        rateLimitKey: 'inventory:sales:read',
+        enableLogging: false,
+      },
+      async () => {
+        return this.adapter.buildQuery('product_sales', {
+          select: '*',
+          filters: { source: 'square' }
+        }).in('external_id', externalIds);
+      },
+      'read'
+    );
+
+    if (response.success) {
+      const rows = Array.isArray(response.data) ? response.data : [response.data];
+      const sales = rows.map(row => this.transformSaleFromDb(row as Record<string, unknown>));
+      return {
+        ...response,
+        data: new Map(sales.map(sale => [sale.externalId as string, sale]))
+      };
+    }
+    return response as unknown as ApiResponse<Map<string, ProductSale>>;
+  }
+
+  /**
+   * Record a sale row
+   */
+  private async insertSale(sale: Omit<ProductSale, 'id' | 'createdAt'>): Promise<ApiResponse<ProductSale>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'product_sales',
+        requiredRole: UserRole.STAFF,
+        rateLimitKey: 'inventory:sales:create',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('product_sales')
+          .insert([this.adapter.toSnakeCase({ ...sale })])
+          .select('*');
+      },
+      'write'
+    );
+
+    if (response.success) {
+      const saleArray = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: this.transformSaleFromDb(saleArray[0] as Record<string, unknown>)
+      };
+    }
+    return response as ApiResponse<ProductSale>;
+  }
+
+  /**
+   * Find the recipe sold as a Square line item
+   */
+  private matchSquareLineItem(recipes: Recipe[], lineItem: { catalog_object_id?: string; name?: string }): Recipe | undefined {
+    const activeRecipes = recipes.filter(recipe => recipe.isActive);
+    if (lineItem.catalog_object_id) {
+      const byCatalogId = activeRecipes.find(recipe => recipe.squareCatalogObjectId === lineItem.catalog_object_id);
+      if (byCatalogId) {
+        return byCatalogId;
+      }
+    }
+    const name = lineItem.name?.trim().toLowerCase();
+    return name ? activeRecipes.find(recipe => recipe.name.toLowerCase() === name) : undefined;
+  }
+
+  /**
+   * Transform database sale to API format
+   */
+  private transformSaleFromDb(dbSale: Record<string, unknown>): ProductSale {
+    const camelCaseSale = this.adapter.toCamelCase(dbSale);
+
+    return {
+      id: camelCaseSale.id as string,
+      recipeId: camelCaseSale.recipeId as string,
+      quantity: camelCaseSale.quantity as number,
+      source: camelCaseSale.source as ProductSale['source'],
+      externalId: camelCaseSale.externalId as string || undefined,
+      eventId: camelCaseSale.eventId as string || undefined,
+      reference: camelCaseSale.reference as string || undefined,
+      soldAt: camelCaseSale.soldAt as string,
+      depletedAt: camelCaseSale.depletedAt as string || undefined,
+      createdAt: camelCaseSale.createdAt as string,
+    };
+  }
+
+  /**
+   * Transform database recipe to API format
+   */
+  private transformRecipeFromDb(dbRecipe: Record<string, unknown>): Recipe {
+    const camelCaseRecipe = this.adapter.toCamelCase(dbRecipe);
+
+    return {
+      id: camelCaseRecipe.id as string,
+      name: camelCaseRecipe.name as string,
+      squareCatalogObjectId: camelCaseRecipe.squareCatalogObjectId as string || undefined,
+      sellPrice: camelCaseRecipe.sellPrice as number ?? undefined,
+      components: (camelCaseRecipe.components as RecipeComponent[]) || [],
+      notes: camelCaseRecipe.notes as string || undefined,
+      isActive: camelCaseRecipe.isActive !== false,
+      createdAt: camelCaseRecipe.createdAt as string,
+      updatedAt: camelCaseRecipe.updatedAt as string,
+    };
+  }
+}
+
+// Export a singleton instance
+export const recipeService = new RecipeService();
@@ -8,16 +8,83 @@ import {
   StaffQuerySchema,
   StaffIdSchema,
   CreateScheduleSchema,
+  CreateShiftTemplateSchema,
+  UpdateShiftTemplateSchema,
+  ApplyShiftTemplateSchema,
+  ShiftTemplateIdSchema,
+  ScheduleIdSchema,
+  TimeOffIdSchema,
+  ShiftClaimIdSchema,
+  StaffingSettingsSchema,
+  EventStaffingPlanSchema,
+  CreateEventShiftsSchema,
+  SetAvailabilitySchema,
+  CreateTimeOffSchema,
+  TimeOffQuerySchema,
+  ReviewRequestSchema,
+  CreateOpenShiftSchema,
+  ShiftOfferSchema,
+  ShiftClaimSchema,
+  ShiftClaimQuerySchema,
+  PayrollPeriodSchema,
+  PostPayrollSchema,
+  TipPoolSchema,
+  TipPoolQuerySchema,
   CreateTimeEntrySchema,
   CreateCertificationSchema,
   RolePermissionSchema,
   validateStaffBusinessRules,
+  expandRecurringSchedule,
+  resolveTemplateSlot,
+  venueWeekOf,
+  DEFAULT_VENUE_TIME_ZONE,
+  calculateStaffingRequirements,
+  eventShiftTime,
+  DEFAULT_STAFFING_SETTINGS,
+  calculatePayroll,
+  distributeTips,
   type CreateStaffRequest,
   type UpdateStaffRequest,
   type StaffQueryRequest,
   type Staff,
   type Schedule,
   type CreateScheduleRequest,
+  type ShiftTemplate,
+  type ShiftTime,
+  type SkippedShift,
+  type ScheduleSeriesResult,
+  type AppliedTemplateResult,
+  type CreateShiftTemplateRequest,
+  type UpdateShiftTemplateRequest,
+  type ApplyShiftTemplateRequest,
+  type StaffingSettings,
+  type StaffingSettingsRequest,
+  type StaffingCandidate,
+  type EventStaffingPlan,
+  type CreateEventShiftsRequest,
+  type EventShiftsResult,
+  type StaffAvailability,
+  type SetAvailabilityRequest,
+  type TimeOffRequest,
+  type CreateTimeOffRequest,
+  type TimeOffQueryRequest,
+  type ReviewRequest,
+  type CreateOpenShiftRequest,
+  type ShiftOfferRequest,
+  type ShiftClaim,
+  type ShiftClaimRequest,
+  type ShiftClaimQueryRequest,
+  type PayrollPeriod,
+  type PayrollPeriodRequest,
+  type PostPayrollRequest,
+  type PayrollRun,
+  type PostedPayroll,
+  type TipPoolRules,
+  type TipPoolRequest,
+  type TipPoolQueryRequest,
+  type TipDistribution,
+  type TipPool,
+  type TipPayout,
   type TimeEntry,
   type CreateTimeEntryRequest,
   type Certification,
@@ -27,6 +94,14 @@ import {
   type EnhancedStaff,
 } from '../schemas/staffSchemas';
 import { ValidationError } from '../errors';
+import { trashService } from './trashService';
+import { eventsService } from './eventsService';
+
+// Staffing ratios are kept in a single settings row
+const STAFFING_SETTINGS_ID = 'default';
+const HOUR_MS = 60 * 60 * 1000;
+// Shifts staff can put in a claim for
+const CLAIMABLE_STATUSES: Schedule['status'][] = ['open', 'swap_requested'];
 
 export class StaffService {
   private adapter: SupabaseAdapter;
@@ -51,7 +126,7 @@ export class StaffService {
       return validationResult.error;
     }
 
-    const { limit, offset, department, position, isActive, role, search } = validationResult.data;
+    const { limit, offset, cursor, department, position, isActive, role, search } = validationResult.data;
 
     // 2. Build query options
     const queryOptions: QueryOptions = {
@@ -64,6 +139,8 @@ export class StaffService {
       orderBy: { column: 'first_name', ascending: true },
       limit,
       offset,
+      cursor: cursor ?? null,
+      count: 'exact',
       filters: {}
     };
 
@@ -79,6 +156,7 @@ export class StaffService {
         tableName: 'staff',
         rateLimitKey: 'staff:read',
         enableLogging: true,
+        pagination: queryOptions,
       },
       async () => {
         let query = this.adapter.buildQuery('staff', queryOptions);
@@ -251,9 +329,10 @@ export class StaffService {
   }
 
   /**
-   * Update an existing staff member
+   * Update an existing staff member. expectedUpdatedAt is the staff member's updatedAt
+   * as it was read; the update is refused (409) if the staff member changed since.
    */
-  async updateStaff(id: string, updates: Omit<UpdateStaffRequest, 'id'>): Promise<ApiResponse<Staff>> {
+  async updateStaff(id: string, updates: Omit<UpdateStaffRequest, 'id'>, expectedUpdatedAt: string): Promise<ApiResponse<Staff>> {
     // 1. Validate ID and updates
     const idValidation = validateParams(StaffIdSchema, { id });
     if (!idValidation.success) {
@@ -301,6 +380,7 @@ export class StaffService {
         requiredRole: UserRole.MANAGER,
         rateLimitKey: 'staff:update',
         enableLogging: true,
+        expectedVersion: expectedUpdatedAt,
       },
       async () => {
         // Convert updates to database format
@@ -309,10 +389,11 @@ export class StaffService {
           updated_at: new Date().toISOString()
         });
 
-        return this.adapter.buildQuery('staff')
+        const query = this.adapter.buildQuery('staff')
           .update(dbUpdates)
-          .eq('id', id)
-          .select('*');
+          .eq('id', id);
+
+        return this.adapter.matchVersion(query, expectedUpdatedAt).select('*');
       },
       'write'
     );
@@ -388,21 +469,37 @@ export class StaffService {
       }
       return response as ApiResponse<{ deleted: boolean }>;
     } else {
-      // 4. Soft delete (set isActive to false)
-      const updateResponse = await this.updateStaff(id, { isActive: false });
-      if (updateResponse.success) {
-        return {
-          success: true,
-          data: { deleted: true },
-          meta: updateResponse.meta
-        };
+      // 4. Record it in the trash bin first, so a hidden record always has
+      // an entry it can be restored or purged from
+      const trashResponse = await trashService.moveToTrash({
+        entityType: 'staff',
+        entityId: id,
+        label: `${existingStaff.firstName} ${existingStaff.lastName}`,
+        restoreValues: { is_active: true },
+        deletedValues: { is_active: false }
+      });
+      if (!trashResponse.success) {
+        return trashResponse as unknown as ApiResponse<{ deleted: boolean }>;
+      }
+
+      // 5. Soft delete (set isActive to false)
+      const updateResponse = await this.updateStaff(id, { isActive: false }, existingStaff.updatedAt);
+      if (!updateResponse.success) {
+        await trashService.discardTrashEntry(trashResponse.data);
+        return updateResponse as ApiResponse<{ deleted: boolean }>;
       }
-      return updateResponse as ApiResponse<{ deleted: boolean }>;
+
+      return {
+        success: true,
+        data: { deleted: true },
+        meta: updateResponse.meta
+      };
     }
   }
 
   /**
-   * Create a schedule for a staff member
+   * Create a schedule for a staff member. A recurring schedule is expanded
+   * into its shifts (see createScheduleSeries) and the first one is returned.
    */
   async createSchedule(scheduleData: CreateScheduleRequest): Promise<ApiResponse<Schedule>> {
     // 1. Validate input data
@@ -413,6 +510,17 @@ export class StaffService {
 
     const validatedData = validationResult.data;
 
+    if (validatedData.isRecurring) {
+      const seriesResponse = await this.createScheduleSeries(scheduleData);
+      if (!seriesResponse.success) {
+        return seriesResponse as unknown as ApiResponse<Schedule>;
+      }
+      return {
+        ...seriesResponse,
+        data: seriesResponse.data.created[0]
+      };
+    }
+
     // 2. Verify staff member exists
     const staffResponse = await this.getStaffById(validatedData.staffId);
     if (!staffResponse.success) {
@@ -422,21 +530,7 @@ export class StaffService {
     // 3. Check for scheduling conflicts
     const conflictCheck = await this.checkScheduleConflicts(validatedData);
     if (!conflictCheck.valid) {
-      return {
-        success: false,
-        error: {
-          type: 'https://docs.trainstation-dashboard.com/errors/schedule-conflict',
-          title: 'Schedule Conflict',
-          status: 400,
-          detail: conflictCheck.reason || 'Schedule conflicts with existing schedules',
-          instance: '/api/staff/schedules',
-          timestamp: new Date().toISOString()
-        },
-        meta: {
-          requestId: crypto.randomUUID(),
-          source: 'validation'
-        }
-      };
+      return this.scheduleConflictError(conflictCheck.reason || 'Schedule conflicts with existing schedules');
     }
 
     // 4. Execute schedule creation
@@ -448,20 +542,8 @@ export class StaffService {
         enableLogging: true,
       },
       async () => {
-        const dbData = this.adapter.toSnakeCase({
-          staffId: validatedData.staffId,
-          startTime: validatedData.startTime,
-          endTime: validatedData.endTime,
-          shiftType: validatedData.shiftType,
-          isRecurring: validatedData.isRecurring || false,
-          recurringPattern: validatedData.recurringPattern,
-          eventId: validatedData.eventId,
-          status: validatedData.status || 'scheduled',
-          notes: validatedData.notes,
-        });
-
         return this.adapter.buildQuery('staff_schedules')
-          .insert([dbData])
+          .insert([this.scheduleToDb(validatedData)])
           .select('*');
       },
       'write'
@@ -478,207 +560,2814 @@ export class StaffService {
   }
 
   /**
-   * Get schedules for a staff member
+   * Create every shift of a recurring schedule. Each generated shift is checked
+   * against the staff member's other shifts; with skipConflicts the clashing
+   * ones are left out and reported, otherwise the whole series is refused.
    */
-  async getStaffSchedules(staffId: string, dateFrom?: string, dateTo?: string): Promise<ApiResponse<Schedule[]>> {
-    // 1. Validate staff ID
-    const validationResult = validateParams(StaffIdSchema, { id: staffId });
+  async createScheduleSeries(scheduleData: CreateScheduleRequest): Promise<ApiResponse<ScheduleSeriesResult>> {
+    // 1. Validate input data
+    const validationResult = validateParams(CreateScheduleSchema, scheduleData);
     if (!validationResult.success) {
       return validationResult.error;
     }
 
-    // 2. Execute query
+    const validatedData = validationResult.data;
+
+    // 2. Verify staff member exists
+    const staffResponse = await this.getStaffById(validatedData.staffId);
+    if (!staffResponse.success) {
+      return staffResponse as unknown as ApiResponse<ScheduleSeriesResult>;
+    }
+
+    // 3. Generate the shifts in the venue's time zone and check each one
+    // against existing shifts
+    const timeZoneResponse = await this.getVenueTimeZone();
+    if (!timeZoneResponse.success) {
+      return timeZoneResponse as unknown as ApiResponse<ScheduleSeriesResult>;
+    }
+    const shifts = expandRecurringSchedule(validatedData, timeZoneResponse.data);
+    if (shifts.length === 0) {
+      return {
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/business-rule-violation',
+          title: 'Business Rule Violation',
+          status: 400,
+          detail: 'The recurring pattern has no shifts before its end date',
+          instance: '/api/staff/schedules',
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
+      };
+    }
+
+    const existingResponse = await this.getSchedulesOverlapping([validatedData.staffId], shifts);
+    if (!existingResponse.success) {
+      return existingResponse as unknown as ApiResponse<ScheduleSeriesResult>;
+    }
+    const availabilityResponse = await this.getAvailabilityFor([validatedData.staffId], shifts);
+    if (!availabilityResponse.success) {
+      return availabilityResponse as unknown as ApiResponse<ScheduleSeriesResult>;
+    }
+
+    const skipped: SkippedShift[] = [];
+    const accepted = shifts.filter(shift => {
+      const clash = this.findClash(validatedData.staffId, shift, existingResponse.data, availabilityResponse.data);
+      if (clash) {
+        skipped.push(clash);
+      }
+      return !clash;
+    });
+
+    if (skipped.length > 0 && (accepted.length === 0 || !validatedData.skipConflicts)) {
+      return this.scheduleConflictError(
+        `${skipped.length} of ${shifts.length} shifts clash with existing shifts or time off, the first on ${this.formatShiftDate(skipped[0].startTime)}`
+      );
+    }
+
+    // 4. Create the shifts as one series
+    const seriesId = crypto.randomUUID();
+    const response = await this.insertSchedules(
+      accepted.map(shift => this.scheduleToDb({ ...validatedData, ...shift, seriesId })),
+      'staff:schedules:create'
+    );
+
+    if (response.success) {
+      return {
+        ...response,
+        data: { seriesId, created: response.data, skipped }
+      };
+    }
+    return response as unknown as ApiResponse<ScheduleSeriesResult>;
+  }
+
+  /**
+   * Get all weekly rota templates
+   */
+  async getShiftTemplates(): Promise<ApiResponse<ShiftTemplate[]>> {
     const response = await this.adapter.executeQuery(
       {
-        tableName: 'staff_schedules',
-        rateLimitKey: 'staff:schedules:read',
+        tableName: 'shift_templates',
+        rateLimitKey: 'staff:templates:read',
         enableLogging: true,
       },
       async () => {
-        let query = this.adapter.buildQuery('staff_schedules', {
+        return this.adapter.buildQuery('shift_templates', {
           select: '*',
-          filters: { staff_id: staffId },
-          orderBy: { column: 'start_time', ascending: true }
+          orderBy: { column: 'name', ascending: true }
         });
-
-        // Add date range filters if provided
-        if (dateFrom) {
-          query = query.gte('start_time', dateFrom);
-        }
-        if (dateTo) {
-          query = query.lte('end_time', dateTo);
-        }
-
-        return query;
       },
       'read'
     );
 
     if (response.success) {
-      const schedules = Array.isArray(response.data) ? response.data : [response.data];
-      const transformedSchedules = schedules.map(schedule => 
-        this.transformScheduleFromDb(schedule as Record<string, unknown>)
-      );
-      
+      const templates = Array.isArray(response.data) ? response.data : [response.data];
       return {
         ...response,
-        data: transformedSchedules
+        data: templates.map(template => this.transformShiftTemplateFromDb(template as Record<string, unknown>))
       };
     }
-    return response as ApiResponse<Schedule[]>;
+    return response as ApiResponse<ShiftTemplate[]>;
   }
 
   /**
-   * Create a time entry
+   * Create a weekly rota template, e.g. "Friday show night: 2 bar, 1 door, 1 sound"
    */
-  async createTimeEntry(timeEntryData: CreateTimeEntryRequest): Promise<ApiResponse<TimeEntry>> {
+  async createShiftTemplate(templateData: CreateShiftTemplateRequest): Promise<ApiResponse<ShiftTemplate>> {
     // 1. Validate input data
-    const validationResult = validateParams(CreateTimeEntrySchema, timeEntryData);
+    const validationResult = validateParams(CreateShiftTemplateSchema, templateData);
     if (!validationResult.success) {
       return validationResult.error;
     }
 
     const validatedData = validationResult.data;
+    const actor = await this.adapter.getCurrentUser();
 
-    // 2. Execute time entry creation
+    // 2. Execute template creation
     const response = await this.adapter.executeQuery(
       {
-        tableName: 'staff_time_entries',
-        requiredRole: UserRole.STAFF,
-        rateLimitKey: 'staff:time:create',
+        tableName: 'shift_templates',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'staff:templates:create',
         enableLogging: true,
       },
       async () => {
-        const dbData = this.adapter.toSnakeCase({
-          staffId: validatedData.staffId,
-          clockIn: validatedData.clockIn,
-          clockOut: validatedData.clockOut,
-          breakDuration: validatedData.breakDuration || 0,
-          hoursWorked: validatedData.hoursWorked,
-          overtimeHours: validatedData.overtimeHours || 0,
-          scheduleId: validatedData.scheduleId,
-          notes: validatedData.notes,
-        });
-
-        return this.adapter.buildQuery('staff_time_entries')
-          .insert([dbData])
+        return this.adapter.buildQuery('shift_templates')
+          .insert([{
+            name: validatedData.name,
+            description: validatedData.description,
+            slots: validatedData.slots,
+            created_by: actor?.id,
+          }])
           .select('*');
       },
       'write'
     );
 
     if (response.success) {
-      const timeEntryArray = Array.isArray(response.data) ? response.data : [response.data];
+      const templateArray = Array.isArray(response.data) ? response.data : [response.data];
       return {
         ...response,
-        data: this.transformTimeEntryFromDb(timeEntryArray[0] as Record<string, unknown>)
+        data: this.transformShiftTemplateFromDb(templateArray[0] as Record<string, unknown>)
       };
     }
-    return response as ApiResponse<TimeEntry>;
+    return response as ApiResponse<ShiftTemplate>;
   }
 
   /**
-   * Create a certification for a staff member
+   * Update a rota template. Shifts already stamped from it are not changed.
+   * expectedUpdatedAt is the template's updatedAt as it was read; the update is
+   * refused (409) if the template changed since.
    */
-  async createCertification(certificationData: CreateCertificationRequest): Promise<ApiResponse<Certification>> {
+  async updateShiftTemplate(id: string, updates: Omit<UpdateShiftTemplateRequest, 'id'>, expectedUpdatedAt: string): Promise<ApiResponse<ShiftTemplate>> {
     // 1. Validate input data
-    const validationResult = validateParams(CreateCertificationSchema, certificationData);
+    const validationResult = validateParams(UpdateShiftTemplateSchema, { id, ...updates });
     if (!validationResult.success) {
       return validationResult.error;
     }
 
-    const validatedData = validationResult.data;
+    const { id: templateId, ...changes } = validationResult.data;
 
-    // 2. Execute certification creation
+    // 2. Execute template update
     const response = await this.adapter.executeQuery(
       {
-        tableName: 'staff_certifications',
+        tableName: 'shift_templates',
         requiredRole: UserRole.MANAGER,
-        rateLimitKey: 'staff:certifications:create',
+        rateLimitKey: 'staff:templates:update',
         enableLogging: true,
+        expectedVersion: expectedUpdatedAt,
       },
       async () => {
-        const dbData = this.adapter.toSnakeCase({
-          staffId: validatedData.staffId,
-          name: validatedData.name,
-          issuingAuthority: validatedData.issuingAuthority,
-          issueDate: validatedData.issueDate,
-          expiryDate: validatedData.expiryDate,
-          certificateNumber: validatedData.certificateNumber,
-          isActive: validatedData.isActive !== false, // Default to true
-          notes: validatedData.notes,
-        });
+        const query = this.adapter.buildQuery('shift_templates')
+          .update({ ...changes, updated_at: new Date().toISOString() })
+          .eq('id', templateId);
 
-        return this.adapter.buildQuery('staff_certifications')
-          .insert([dbData])
-          .select('*');
+        return this.adapter.matchVersion(query, expectedUpdatedAt).select('*');
       },
       'write'
     );
 
     if (response.success) {
-      const certificationArray = Array.isArray(response.data) ? response.data : [response.data];
+      const templateArray = Array.isArray(response.data) ? response.data : [response.data];
       return {
         ...response,
-        data: this.transformCertificationFromDb(certificationArray[0] as Record<string, unknown>)
+        data: this.transformShiftTemplateFromDb(templateArray[0] as Record<string, unknown>)
       };
     }
-    return response as ApiResponse<Certification>;
+    return response as ApiResponse<ShiftTemplate>;
   }
 
   /**
-   * Check user permissions for a specific resource and action
+   * Delete a rota template. Shifts already stamped from it are kept.
    */
-  async checkPermission(userId: string, resource: string, action: string): Promise<ApiResponse<{ hasPermission: boolean }>> {
-    // This would implement complex permission checking logic
-    // For now, return a simple validation
-    return {
-      success: true,
-      data: { hasPermission: true },
-      meta: {
-        requestId: crypto.randomUUID(),
-        source: 'permission-check'
-      }
-    };
+  async deleteShiftTemplate(id: string): Promise<ApiResponse<{ deleted: boolean }>> {
+    // 1. Validate template ID
+    const validationResult = validateParams(ShiftTemplateIdSchema, { id });
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    // 2. Execute deletion
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'shift_templates',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'staff:templates:delete',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('shift_templates')
+          .delete()
+          .eq('id', id)
+          .select('id');
+      },
+      'write'
+    );
+
+    if (response.success) {
+      return {
+        ...response,
+        data: { deleted: true }
+      };
+    }
+    return response as unknown as ApiResponse<{ deleted: boolean }>;
   }
 
   /**
-   * Check for schedule conflicts
+   * Stamp a rota template onto a week. Each slot is staffed with the assigned
+   * people (or its regulars); slots short of their headcount are reported as
+   * unfilled and every shift is checked against the person's other shifts.
    */
-  private async checkScheduleConflicts(schedule: CreateScheduleRequest): Promise<{ valid: boolean; reason?: string }> {
-    // This would implement schedule conflict checking logic
-    // For now, return a simple validation
-    return { valid: true };
+  async applyShiftTemplate(request: ApplyShiftTemplateRequest): Promise<ApiResponse<AppliedTemplateResult>> {
+    // 1. Validate input data
+    const validationResult = validateParams(ApplyShiftTemplateSchema, request);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { templateId, weekStart, assignments, skipConflicts } = validationResult.data;
+
+    // 2. Load the template
+    const templateResponse = await this.getShiftTemplate(templateId);
+    if (!templateResponse.success) {
+      return templateResponse as unknown as ApiResponse<AppliedTemplateResult>;
+    }
+    const template = templateResponse.data;
+
+    // 3. Work out who works which slot this week, in the venue's time zone
+    const timeZoneResponse = await this.getVenueTimeZone();
+    if (!timeZoneResponse.success) {
+      return timeZoneResponse as unknown as ApiResponse<AppliedTemplateResult>;
+    }
+    const unfilled: AppliedTemplateResult['unfilled'] = [];
+    const planned = template.slots.flatMap((slot, slotIndex) => {
+      const shift = resolveTemplateSlot(slot, weekStart, timeZoneResponse.data);
+      const assigned = assignments?.find(assignment => assignment.slotIndex === slotIndex)?.staffIds ?? slot.staffIds ?? [];
+      const staffIds = [...new Set(assigned)].slice(0, slot.headcount);
+
+      if (staffIds.length < slot.headcount) {
+        unfilled.push({ ...shift, slotIndex, role: slot.role, missing: slot.headcount - staffIds.length });
+      }
+      return staffIds.map(staffId => ({ slot, shift, staffId }));
+    });
+
+    // 4. Check each shift against the person's existing shifts and the
+    // other shifts planned for them this week
+    const plannedStaffIds = [...new Set(planned.map(plan => plan.staffId))];
+    const existingResponse = await this.getSchedulesOverlapping(plannedStaffIds, planned.map(plan => plan.shift));
+    if (!existingResponse.success) {
+      return existingResponse as unknown as ApiResponse<AppliedTemplateResult>;
+    }
+    const availabilityResponse = await this.getAvailabilityFor(plannedStaffIds, planned.map(plan => plan.shift));
+    if (!availabilityResponse.success) {
+      return availabilityResponse as unknown as ApiResponse<AppliedTemplateResult>;
+    }
+
+    const taken = [...existingResponse.data];
+    const skipped: SkippedShift[] = [];
+    const accepted = planned.filter(({ shift, staffId }) => {
+      const clash = this.findClash(staffId, shift, taken, availabilityResponse.data);
+      if (clash) {
+        skipped.push(clash);
+        return false;
+      }
+      taken.push({ ...shift, staffId, status: 'scheduled' } as Schedule);
+      return true;
+    });
+
+    if (skipped.length > 0 && !skipConflicts) {
+      return this.scheduleConflictError(
+        `${skipped.length} shifts clash with existing shifts or time off, the first on ${this.formatShiftDate(skipped[0].startTime)}`
+      );
+    }
+
+    const result: AppliedTemplateResult = { templateId, weekStart, created: [], skipped, unfilled };
+    if (accepted.length === 0) {
+      return {
+        success: true,
+        data: result,
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'calculation'
+        }
+      };
+    }
+
+    // 5. Create the shifts
+    const response = await this.insertSchedules(
+      accepted.map(({ slot, shift, staffId }) => this.scheduleToDb({
+        staffId,
+        shiftType: slot.shiftType,
+        title: slot.title || `${template.name}: ${slot.role}`,
+        location: slot.location,
+        role: slot.role,
+        templateId,
+        ...shift,
+      })),
+      'staff:schedules:create'
+    );
+
+    if (response.success) {
+      return {
+        ...response,
+        data: { ...result, created: response.data }
+      };
+    }
+    return response as unknown as ApiResponse<AppliedTemplateResult>;
   }
 
   /**
-   * Calculate staff metrics
+   * Get the ratios used to plan event staffing
    */
-  async calculateStaffMetrics(staffId: string): Promise<ApiResponse<any>> {
-    // This would typically involve complex calculations across schedules and time entries
-    // For now, return a placeholder structure
-    return {
-      success: true,
-      data: {
-        totalHoursWorked: 0,
-        overtimeHours: 0,
-        attendanceRate: 100,
-        averageHoursPerWeek: 40,
-        certificationCount: 0,
-        upcomingCertificationExpirations: 0,
+  async getStaffingSettings(): Promise<ApiResponse<StaffingSettings>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'staffing_settings',
+        rateLimitKey: 'staff:staffing:read',
+        enableLogging: false,
       },
-      meta: {
-        requestId: crypto.randomUUID(),
-        source: 'calculation'
-      }
-    };
+      async () => {
+        return this.adapter.buildQuery('staffing_settings', {
+          select: '*',
+          filters: { id: STAFFING_SETTINGS_ID },
+          limit: 1
+        });
+      },
+      'read'
+    );
+
+    if (response.success) {
+      const settings = (Array.isArray(response.data) ? response.data : [response.data]) as Record<string, unknown>[];
+      return {
+        ...response,
+        data: this.transformStaffingSettingsFromDb(settings[0])
+      };
+    }
+    return response as ApiResponse<StaffingSettings>;
   }
 
   /**
-   * Transform database staff to API format
+   * Change the ratios used to plan event staffing
    */
-  private transformStaffFromDb(dbStaff: Record<string, unknown>): Staff {
-    const camelCaseStaff = this.adapter.toCamelCase(dbStaff);
+  async updateStaffingSettings(settings: StaffingSettingsRequest): Promise<ApiResponse<StaffingSettings>> {
+    // 1. Validate input data
+    const validationResult = validateParams(StaffingSettingsSchema, settings);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const validatedData = validationResult.data;
+    const actor = await this.adapter.getCurrentUser();
+
+    // 2. Execute query
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'staffing_settings',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'staff:staffing:settings',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('staffing_settings')
+          .upsert([{
+            id: STAFFING_SETTINGS_ID,
+            expected_fill: validatedData.expectedFill,
+            weekly_hour_limit: validatedData.weeklyHourLimit,
+            call_minutes: validatedData.callMinutes,
+            wrap_minutes: validatedData.wrapMinutes,
+            ratios: validatedData.ratios,
+            updated_by: actor?.email || actor?.id || null,
+            updated_at: new Date().toISOString()
+          }])
+          .select('*');
+      },
+      'write'
+    );
+
+    if (response.success) {
+      const rows = (Array.isArray(response.data) ? response.data : [response.data]) as Record<string, unknown>[];
+      return {
+        ...response,
+        data: this.transformStaffingSettingsFromDb(rows[0])
+      };
+    }
+    return response as ApiResponse<StaffingSettings>;
+  }
+
+  /**
+   * Propose staff for an event. The headcount per role comes from the event's
+   * capacity and ticket sales; it is filled with active staff in the role's
+   * department who are free, hold the role's certification and stay within
+   * their weekly hours, least busy first.
+   */
+  async planEventStaffing(eventId: string): Promise<ApiResponse<EventStaffingPlan>> {
+    // 1. Validate ID
+    const validationResult = validateParams(EventStaffingPlanSchema, { eventId });
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    // 2. Load the event and the staffing ratios
+    const eventResponse = await eventsService.getEventById(eventId);
+    if (!eventResponse.success) {
+      return eventResponse as unknown as ApiResponse<EventStaffingPlan>;
+    }
+    const event = eventResponse.data;
+
+    const settingsResponse = await this.getStaffingSettings();
+    if (!settingsResponse.success) {
+      return settingsResponse as unknown as ApiResponse<EventStaffingPlan>;
+    }
+    const settings = settingsResponse.data;
+
+    const shift = eventShiftTime(event, settings);
+    const shiftHours = (new Date(shift.endTime).getTime() - new Date(shift.startTime).getTime()) / HOUR_MS;
+    const { expectedAttendance, requirements } = calculateStaffingRequirements(event, settings);
+
+    // 3. Load the staff of the departments needed and their shifts that week
+    const staffResponse = await this.getActiveStaff({ departments: [...new Set(requirements.map(requirement => requirement.department))] });
+    if (!staffResponse.success) {
+      return staffResponse as unknown as ApiResponse<EventStaffingPlan>;
+    }
+
+    const timeZoneResponse = await this.getVenueTimeZone();
+    if (!timeZoneResponse.success) {
+      return timeZoneResponse as unknown as ApiResponse<EventStaffingPlan>;
+    }
+
+    const staffIds = staffResponse.data.map(member => member.id);
+    const week = venueWeekOf(shift.startTime, timeZoneResponse.data);
+    const schedulesResponse = await this.getSchedulesOverlapping(staffIds, [week, shift]);
+    if (!schedulesResponse.success) {
+      return schedulesResponse as unknown as ApiResponse<EventStaffingPlan>;
+    }
+    const availabilityResponse = await this.getAvailabilityFor(staffIds, [shift]);
+    if (!availabilityResponse.success) {
+      return availabilityResponse as unknown as ApiResponse<EventStaffingPlan>;
+    }
+
+    // 4. Drop anyone already working then, unavailable or who would go into overtime
+    const unavailable: EventStaffingPlan['unavailable'] = [];
+    const candidates = staffResponse.data.flatMap(member => {
+      const name = `${member.firstName} ${member.lastName}`;
+      const shifts = schedulesResponse.data.filter(schedule => schedule.staffId === member.id && schedule.status !== 'cancelled');
+
+      const clash = this.findClash(member.id, shift, shifts, availabilityResponse.data);
+      if (clash) {
+        unavailable.push({
+          staffId: member.id,
+          name,
+          department: member.department,
+          reason: clash.reason || `Already on "${clash.conflicts[0].title}"`
+        });
+        return [];
+      }
+
+      const { weeklyHours, reason: overtime } = this.checkWeeklyHours(shifts, week, shiftHours, settings.weeklyHourLimit);
+      if (overtime) {
+        unavailable.push({ staffId: member.id, name, department: member.department, reason: overtime });
+        return [];
+      }
+
+      const { preferred } = this.checkAvailability(member.id, shift, availabilityResponse.data);
+      return [{ member, preferred, weeklyHours: Math.round(weeklyHours * 10) / 10 }];
+    }).sort((a, b) => Number(b.preferred) - Number(a.preferred) || a.weeklyHours - b.weeklyHours);
+
+    // 5. Fill each role, proposing each person once
+    const proposedIds = new Set<string>();
+    const uncertified = new Map<string, EventStaffingPlan['unavailable'][number]>();
+    const plannedRequirements = requirements.map(requirement => {
+      const proposed: StaffingCandidate[] = [];
+
+      for (const { member, weeklyHours } of candidates) {
+        if (proposed.length === requirement.headcount) break;
+        if (member.department !== requirement.department || proposedIds.has(member.id)) continue;
+
+        let expiringCertifications: string[] = [];
+        if (requirement.requiredCertification) {
+          const { valid, reason, expiringSoon } = this.checkCertification(member, requirement.requiredCertification, shift);
+          if (!valid) {
+            uncertified.set(member.id, { staffId: member.id, name: `${member.firstName} ${member.lastName}`, department: member.department, reason: reason as string });
+            continue;
+          }
+          expiringCertifications = expiringSoon;
+        }
+
+        proposedIds.add(member.id);
+        proposed.push({
+          staffId: member.id,
+          name: `${member.firstName} ${member.lastName}`,
+          position: member.position,
+          weeklyHours,
+          expiringCertifications
+        });
+      }
+
+      return {
+        department: requirement.department,
+        role: requirement.role,
+        headcount: requirement.headcount,
+        proposed,
+        shortfall: requirement.headcount - proposed.length
+      };
+    });
+
+    uncertified.forEach((entry, staffId) => {
+      if (!proposedIds.has(staffId)) unavailable.push(entry);
+    });
+
+    return {
+      success: true,
+      data: {
+        eventId,
+        ...shift,
+        expectedAttendance,
+        requirements: plannedRequirements,
+        unavailable
+      },
+      meta: {
+        requestId: crypto.randomUUID(),
+        source: 'calculation'
+      }
+    } as unknown as ApiResponse<EventStaffingPlan>;
+  }
+
+  /**
+   * Create the event shifts for the chosen staff, linked to the event. Each
+   * person gets the checks the planner makes: free, available, holding the
+   * role's certification and within their weekly hours.
+   */
+  async createEventShifts(request: CreateEventShiftsRequest): Promise<ApiResponse<EventShiftsResult>> {
+    // 1. Validate input data
+    const validationResult = validateParams(CreateEventShiftsSchema, request);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { eventId, assignments, skipConflicts } = validationResult.data;
+
+    // 2. Load the event and work out the shift
+    const eventResponse = await eventsService.getEventById(eventId);
+    if (!eventResponse.success) {
+      return eventResponse as unknown as ApiResponse<EventShiftsResult>;
+    }
+    const event = eventResponse.data;
+
+    const settingsResponse = await this.getStaffingSettings();
+    if (!settingsResponse.success) {
+      return settingsResponse as unknown as ApiResponse<EventShiftsResult>;
+    }
+    const settings = settingsResponse.data;
+    const shift = eventShiftTime(event, settings);
+    const shiftHours = (new Date(shift.endTime).getTime() - new Date(shift.startTime).getTime()) / HOUR_MS;
+
+    // 3. Load the chosen staff with their certifications and their shifts that week
+    const staffAssignments = assignments.filter(
+      (assignment, index) => assignments.findIndex(other => other.staffId === assignment.staffId) === index
+    );
+    const assignedStaffIds = staffAssignments.map(assignment => assignment.staffId);
+    const staffResponse = await this.getActiveStaff({ ids: assignedStaffIds });
+    if (!staffResponse.success) {
+      return staffResponse as unknown as ApiResponse<EventShiftsResult>;
+    }
+    const timeZoneResponse = await this.getVenueTimeZone();
+    if (!timeZoneResponse.success) {
+      return timeZoneResponse as unknown as ApiResponse<EventShiftsResult>;
+    }
+    const week = venueWeekOf(shift.startTime, timeZoneResponse.data);
+    const existingResponse = await this.getSchedulesOverlapping(assignedStaffIds, [week, shift]);
+    if (!existingResponse.success) {
+      return existingResponse as unknown as ApiResponse<EventShiftsResult>;
+    }
+    const availabilityResponse = await this.getAvailabilityFor(assignedStaffIds, [shift]);
+    if (!availabilityResponse.success) {
+      return availabilityResponse as unknown as ApiResponse<EventShiftsResult>;
+    }
+
+    // 4. Leave out anyone already working then, unavailable, without the
+    // role's certification or who would go into overtime
+    const skipped: SkippedShift[] = [];
+    const accepted = staffAssignments.filter(({ staffId, role }) => {
+      const clash = this.findClash(staffId, shift, existingResponse.data, availabilityResponse.data);
+      if (clash) {
+        skipped.push(clash);
+        return false;
+      }
+
+      const member = staffResponse.data.find(staff => staff.id === staffId);
+      const requiredCertification = settings.ratios.find(ratio => ratio.role === role)?.requiredCertification;
+      const shifts = existingResponse.data.filter(schedule => schedule.staffId === staffId && schedule.status !== 'cancelled');
+      const reason = !member
+        ? 'Not an active member of staff'
+        : (requiredCertification && this.checkCertification(member, requiredCertification, shift).reason)
+          || this.checkWeeklyHours(shifts, week, shiftHours, settings.weeklyHourLimit).reason;
+      if (reason) {
+        skipped.push({ ...shift, staffId, conflicts: [], reason });
+        return false;
+      }
+      return true;
+    });
+
+    if (skipped.length > 0 && (accepted.length === 0 || !skipConflicts)) {
+      return this.scheduleConflictError(
+        `${skipped.length} of ${staffAssignments.length} staff cannot work ${event.title}: already working, unavailable, uncertified or over their weekly hours`
+      );
+    }
+
+    // 5. Create the shifts
+    const response = await this.insertSchedules(
+      accepted.map(({ staffId, role }) => this.scheduleToDb({
+        staffId,
+        eventId,
+        shiftType: 'event',
+        title: `${event.title}: ${role}`,
+        role,
+        ...shift,
+      })),
+      'staff:schedules:create'
+    );
+
+    if (response.success) {
+      return {
+        ...response,
+        data: { eventId, created: response.data, skipped }
+      } as unknown as ApiResponse<EventShiftsResult>;
+    }
+    return response as unknown as ApiResponse<EventShiftsResult>;
+  }
+
+  /**
+   * Get a staff member's weekly availability
+   */
+  async getAvailability(staffId: string): Promise<ApiResponse<StaffAvailability[]>> {
+    // 1. Validate staff ID
+    const validationResult = validateParams(StaffIdSchema, { id: staffId });
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    // 2. Execute query
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'staff_availability',
+        rateLimitKey: 'staff:availability:read',
+        enableLogging: false,
+      },
+      async () => {
+        return this.adapter.buildQuery('staff_availability', {
+          select: '*',
+          filters: { staff_id: staffId },
+          orderBy: { column: 'day_of_week', ascending: true }
+        });
+      },
+      'read'
+    );
+
+    if (response.success) {
+      const entries = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: entries.filter(Boolean).map(entry => this.transformAvailabilityFromDb(entry as Record<string, unknown>))
+      };
+    }
+    return response as ApiResponse<StaffAvailability[]>;
+  }
+
+  /**
+   * Replace a staff member's weekly availability
+   */
+  async setAvailability(request: SetAvailabilityRequest): Promise<ApiResponse<StaffAvailability[]>> {
+    // 1. Validate input data
+    const validationResult = validateParams(SetAvailabilitySchema, request);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { staffId, entries } = validationResult.data;
+
+    // 2. Clear the current pattern
+    const clearResponse = await this.adapter.executeQuery(
+      {
+        tableName: 'staff_availability',
+        requiredRole: UserRole.STAFF,
+        rateLimitKey: 'staff:availability:update',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('staff_availability')
+          .delete()
+          .eq('staff_id', staffId)
+          .select('id');
+      },
+      'write'
+    );
+    if (!clearResponse.success || entries.length === 0) {
+      return {
+        ...clearResponse,
+        data: []
+      } as unknown as ApiResponse<StaffAvailability[]>;
+    }
+
+    // 3. Save the new one
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'staff_availability',
+        requiredRole: UserRole.STAFF,
+        rateLimitKey: 'staff:availability:update',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('staff_availability')
+          .insert(entries.map(entry => this.adapter.toSnakeCase({ staffId, ...entry })))
+          .select('*');
+      },
+      'write'
+    );
+
+    if (response.success) {
+      const saved = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: saved.map(entry => this.transformAvailabilityFromDb(entry as Record<string, unknown>))
+      };
+    }
+    return response as ApiResponse<StaffAvailability[]>;
+  }
+
+  /**
+   * Ask for time off. Once approved the scheduler will not put the person on
+   * shifts during it.
+   */
+  async requestTimeOff(request: CreateTimeOffRequest): Promise<ApiResponse<TimeOffRequest>> {
+    // 1. Validate input data
+    const validationResult = validateParams(CreateTimeOffSchema, request);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const validatedData = validationResult.data;
+
+    // 2. Execute insert
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'time_off_requests',
+        requiredRole: UserRole.STAFF,
+        rateLimitKey: 'staff:time-off:create',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('time_off_requests')
+          .insert([this.adapter.toSnakeCase({ ...validatedData, status: 'pending' })])
+          .select('*');
+      },
+      'write'
+    );
+
+    if (response.success) {
+      const requests = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: this.transformTimeOffFromDb(requests[0] as Record<string, unknown>)
+      };
+    }
+    return response as ApiResponse<TimeOffRequest>;
+  }
+
+  /**
+   * Get time off requests, oldest first
+   */
+  async getTimeOffRequests(query: TimeOffQueryRequest = {}): Promise<ApiResponse<TimeOffRequest[]>> {
+    // 1. Validate query parameters
+    const validationResult = validateQuery(TimeOffQuerySchema, query);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { staffId, status } = validationResult.data;
+
+    // 2. Execute query
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'time_off_requests',
+        rateLimitKey: 'staff:time-off:read',
+        enableLogging: false,
+      },
+      async () => {
+        return this.adapter.buildQuery('time_off_requests', {
+          select: '*, staff(first_name, last_name)',
+          filters: {
+            ...(staffId ? { staff_id: staffId } : {}),
+            ...(status ? { status } : {})
+          },
+          orderBy: { column: 'start_date', ascending: true }
+        });
+      },
+      'read'
+    );
+
+    if (response.success) {
+      const requests = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: requests.filter(Boolean).map(request => this.transformTimeOffFromDb(request as Record<string, unknown>))
+      };
+    }
+    return response as ApiResponse<TimeOffRequest[]>;
+  }
+
+  /**
+   * Approve or decline a pending time off request
+   */
+  async reviewTimeOff(id: string, review: ReviewRequest): Promise<ApiResponse<TimeOffRequest>> {
+    // 1. Validate input data
+    const idValidation = validateParams(TimeOffIdSchema, { id });
+    if (!idValidation.success) {
+      return idValidation.error;
+    }
+    const validationResult = validateParams(ReviewRequestSchema, review);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { decision, note } = validationResult.data;
+    const actor = await this.adapter.getCurrentUser();
+
+    // 2. Only a pending request can be decided, so two managers cannot both review it
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'time_off_requests',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'staff:time-off:review',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('time_off_requests')
+          .update({
+            status: decision,
+            review_note: note,
+            reviewed_by: actor?.email || actor?.id || null,
+            reviewed_at: new Date().toISOString()
+          })
+          .eq('id', id)
+          .eq('status', 'pending')
+          .select('*');
+      },
+      'write'
+    );
+
+    if (!response.success) {
+      return response as ApiResponse<TimeOffRequest>;
+    }
+
+    const requests = (Array.isArray(response.data) ? response.data : [response.data]).filter(Boolean);
+    if (requests.length === 0) {
+      return this.shiftRequestError(409, 'Request Already Reviewed', 'This time off request is no longer pending', `/api/staff/time-off/${id}/review`);
+    }
+    return {
+      ...response,
+      data: this.transformTimeOffFromDb(requests[0] as Record<string, unknown>)
+    };
+  }
+
+  /**
+   * Post a shift nobody holds yet for staff to claim
+   */
+  async createOpenShift(shiftData: CreateOpenShiftRequest): Promise<ApiResponse<Schedule>> {
+    // 1. Validate input data
+    const validationResult = validateParams(CreateOpenShiftSchema, shiftData);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    // 2. Execute insert
+    const response = await this.insertSchedules(
+      [this.scheduleToDb({ ...validationResult.data, staffId: null, status: 'open' })],
+      'staff:schedules:create'
+    );
+
+    if (response.success) {
+      return {
+        ...response,
+        data: response.data[0]
+      };
+    }
+    return response as unknown as ApiResponse<Schedule>;
+  }
+
+  /**
+   * Upcoming shifts that can be claimed: open shifts and ones offered for swap
+   */
+  async getOpenShifts(): Promise<ApiResponse<Schedule[]>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'staff_schedules',
+        rateLimitKey: 'staff:schedules:read',
+        enableLogging: false,
+      },
+      async () => {
+        return this.adapter.buildQuery('staff_schedules', {
+          select: '*',
+          orderBy: { column: 'start_time', ascending: true }
+        })
+          .in('status', CLAIMABLE_STATUSES)
+          .is('deleted_at', null)
+          .gt('start_time', new Date().toISOString());
+      },
+      'read'
+    );
+
+    if (response.success) {
+      const schedules = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: schedules.filter(Boolean).map(schedule => this.transformScheduleFromDb(schedule as Record<string, unknown>))
+      };
+    }
+    return response as ApiResponse<Schedule[]>;
+  }
+
+  /**
+   * Offer one of your upcoming shifts to colleagues. It stays yours until a
+   * manager approves someone's claim on it.
+   */
+  async postShiftForSwap(request: ShiftOfferRequest): Promise<ApiResponse<Schedule>> {
+    return this.setSwapStatus(request, ['scheduled', 'confirmed'], 'swap_requested');
+  }
+
+  /**
+   * Take back a shift offered for swap, withdrawing the claims made on it
+   */
+  async withdrawShiftSwap(request: ShiftOfferRequest): Promise<ApiResponse<Schedule>> {
+    const response = await this.setSwapStatus(request, ['swap_requested'], 'scheduled');
+    if (!response.success) {
+      return response;
+    }
+
+    const claimsResponse = await this.closePendingClaims(request.scheduleId, 'withdrawn', 'The shift is no longer offered');
+    return claimsResponse.success ? response : claimsResponse as unknown as ApiResponse<Schedule>;
+  }
+
+  /**
+   * Ask to take an open shift or one offered for swap. The claimant must be
+   * free, available and hold any certification the role needs.
+   */
+  async claimShift(request: ShiftClaimRequest): Promise<ApiResponse<ShiftClaim>> {
+    // 1. Validate input data
+    const validationResult = validateParams(ShiftClaimSchema, request);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { scheduleId, note } = validationResult.data;
+    const instance = `/api/staff/schedules/${scheduleId}/claims`;
+
+    // 2. The claimant is whoever is signed in
+    const actingResponse = await this.getActingStaff(instance);
+    if (!actingResponse.success) {
+      return actingResponse as unknown as ApiResponse<ShiftClaim>;
+    }
+    const staffId = actingResponse.data.id;
+
+    // 3. The shift must still be up for grabs
+    const scheduleResponse = await this.getSchedule(scheduleId);
+    if (!scheduleResponse.success) {
+      return scheduleResponse as unknown as ApiResponse<ShiftClaim>;
+    }
+    const schedule = scheduleResponse.data;
+
+    if (!CLAIMABLE_STATUSES.includes(schedule.status) || new Date(schedule.startTime) <= new Date()) {
+      return this.shiftRequestError(409, 'Shift Not Available', 'This shift is no longer open to claims', instance);
+    }
+    if (schedule.staffId === staffId) {
+      return this.shiftRequestError(400, 'Business Rule Violation', 'You cannot claim your own shift', instance);
+    }
+
+    // 4. Check the claimant could work it
+    const eligibility = await this.checkClaimant(staffId, schedule);
+    if (!eligibility.valid) {
+      return this.shiftRequestError(400, 'Business Rule Violation', eligibility.reason as string, instance);
+    }
+
+    const claimsResponse = await this.getShiftClaims({ staffId, status: 'pending' });
+    if (!claimsResponse.success) {
+      return claimsResponse as unknown as ApiResponse<ShiftClaim>;
+    }
+    if (claimsResponse.data.some(claim => claim.scheduleId === scheduleId)) {
+      return this.shiftRequestError(409, 'Already Claimed', 'You already have a pending claim on this shift', instance);
+    }
+
+    // 5. Execute insert
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'shift_claims',
+        requiredRole: UserRole.STAFF,
+        rateLimitKey: 'staff:claims:create',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('shift_claims')
+          .insert([this.adapter.toSnakeCase({ scheduleId, staffId, note, status: 'pending' })])
+          .select('*');
+      },
+      'write'
+    );
+
+    if (response.success) {
+      const claims = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: { ...this.transformShiftClaimFromDb(claims[0] as Record<string, unknown>), schedule }
+      };
+    }
+    return response as ApiResponse<ShiftClaim>;
+  }
+
+  /**
+   * Get shift claims with the shift they are for, oldest first
+   */
+  async getShiftClaims(query: Partial<ShiftClaimQueryRequest> = {}): Promise<ApiResponse<ShiftClaim[]>> {
+    // 1. Validate query parameters
+    const validationResult = validateQuery(ShiftClaimQuerySchema, query);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { staffId, status } = validationResult.data;
+
+    // 2. Execute query
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'shift_claims',
+        rateLimitKey: 'staff:claims:read',
+        enableLogging: false,
+      },
+      async () => {
+        return this.adapter.buildQuery('shift_claims', {
+          select: '*, staff_schedules(*), staff(first_name, last_name)',
+          filters: {
+            status,
+            ...(staffId ? { staff_id: staffId } : {})
+          },
+          orderBy: { column: 'created_at', ascending: true }
+        });
+      },
+      'read'
+    );
+
+    if (response.success) {
+      const claims = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: claims.filter(Boolean).map(claim => this.transformShiftClaimFromDb(claim as Record<string, unknown>))
+      };
+    }
+    return response as ApiResponse<ShiftClaim[]>;
+  }
+
+  /**
+   * Approve or decline a claim. Approving re-runs the conflict, availability
+   * and certification checks, hands the shift to the claimant and declines
+   * the other claims on it. The decision is recorded first, only while the
+   * claim is still pending, so two reviewers cannot both act on it.
+   */
+  async reviewShiftClaim(id: string, review: ReviewRequest): Promise<ApiResponse<ShiftClaim>> {
+    // 1. Validate input data
+    const idValidation = validateParams(ShiftClaimIdSchema, { id });
+    if (!idValidation.success) {
+      return idValidation.error;
+    }
+    const validationResult = validateParams(ReviewRequestSchema, review);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { decision, note } = validationResult.data;
+    const instance = `/api/staff/claims/${id}/review`;
+
+    // 2. Load the claim and its shift
+    const claimResponse = await this.adapter.executeQuery(
+      {
+        tableName: 'shift_claims',
+        rateLimitKey: 'staff:claims:read',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('shift_claims', { select: '*, staff_schedules(*)', filters: { id } }).single();
+      },
+      'read'
+    );
+    if (!claimResponse.success) {
+      return claimResponse as ApiResponse<ShiftClaim>;
+    }
+
+    const claim = this.transformShiftClaimFromDb(claimResponse.data as Record<string, unknown>);
+    const schedule = claim.schedule;
+    if (claim.status !== 'pending' || !schedule) {
+      return this.shiftRequestError(409, 'Claim Already Reviewed', 'This claim is no longer pending', instance);
+    }
+
+    if (decision === 'approved') {
+      if (!CLAIMABLE_STATUSES.includes(schedule.status)) {
+        return this.shiftRequestError(409, 'Shift Already Filled', 'This shift has already been given to someone else', instance);
+      }
+
+      // 3. Things may have changed since the claim was made
+      const eligibility = await this.checkClaimant(claim.staffId, schedule);
+      if (!eligibility.valid) {
+        return this.shiftRequestError(400, 'Business Rule Violation', eligibility.reason as string, instance);
+      }
+    }
+
+    // 4. Record the decision, unless another review got there first
+    const actor = await this.adapter.getCurrentUser();
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'shift_claims',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'staff:claims:review',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('shift_claims')
+          .update({
+            status: decision,
+            review_note: note,
+            reviewed_by: actor?.email || actor?.id || null,
+            reviewed_at: new Date().toISOString()
+          })
+          .eq('id', id)
+          .eq('status', 'pending')
+          .select('*');
+      },
+      'write'
+    );
+    if (!response.success) {
+      return response as ApiResponse<ShiftClaim>;
+    }
+    if ((Array.isArray(response.data) ? response.data : [response.data]).filter(Boolean).length === 0) {
+      return this.shiftRequestError(409, 'Claim Already Reviewed', 'This claim is no longer pending', instance);
+    }
+
+    if (decision === 'approved') {
+      // 5. Hand the shift over, unless another approval got there first. A
+      // claim that loses that race is declined; on an error it is reopened.
+      const assignResponse = await this.adapter.executeQuery(
+        {
+          tableName: 'staff_schedules',
+          requiredRole: UserRole.MANAGER,
+          rateLimitKey: 'staff:schedules:update',
+          enableLogging: true,
+        },
+        async () => {
+          return this.adapter.buildQuery('staff_schedules')
+            .update({ staff_id: claim.staffId, status: 'scheduled', updated_at: new Date().toISOString() })
+            .eq('id', schedule.id)
+            .in('status', CLAIMABLE_STATUSES)
+            .select('id');
+        },
+        'write'
+      );
+      if (!assignResponse.success) {
+        await this.revertShiftClaim(id, 'pending');
+        return assignResponse as unknown as ApiResponse<ShiftClaim>;
+      }
+      if ((Array.isArray(assignResponse.data) ? assignResponse.data : [assignResponse.data]).filter(Boolean).length === 0) {
+        await this.revertShiftClaim(id, 'declined', 'The shift went to another claim');
+        return this.shiftRequestError(409, 'Shift Already Filled', 'This shift has already been given to someone else', instance);
+      }
+
+      // 6. Decline the other claims on it
+      const othersResponse = await this.closePendingClaims(schedule.id, 'declined', 'The shift went to another claim');
+      if (!othersResponse.success) {
+        return othersResponse as unknown as ApiResponse<ShiftClaim>;
+      }
+    }
+
+    const claims = Array.isArray(response.data) ? response.data : [response.data];
+    return {
+      ...response,
+      data: { ...this.transformShiftClaimFromDb(claims[0] as Record<string, unknown>), schedule }
+    };
+  }
+
+  /**
+   * Get schedules for a staff member
+   */
+  async getStaffSchedules(staffId: string, dateFrom?: string, dateTo?: string): Promise<ApiResponse<Schedule[]>> {
+    // 1. Validate staff ID
+    const validationResult = validateParams(StaffIdSchema, { id: staffId });
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    // 2. Execute query
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'staff_schedules',
+        rateLimitKey: 'staff:schedules:read',
+        enableLogging: true,
+      },
+      async () => {
+        // Shifts hidden when the staff member was moved to the trash bin are left out
+        let query = this.adapter.buildQuery('staff_schedules', {
+          select: '*',
+          filters: { staff_id: staffId },
+          orderBy: { column: 'start_time', ascending: true }
+        }).is('deleted_at', null);
+
+        // Add date range filters if provided
+        if (dateFrom) {
+          query = query.gte('start_time', dateFrom);
+        }
+        if (dateTo) {
+          query = query.lte('end_time', dateTo);
+        }
+
+        return query;
+      },
+      'read'
+    );
+
+    if (response.success) {
+      const schedules = Array.isArray(response.data) ? response.data : [response.data];
+      const transformedSchedules = schedules.map(schedule => 
+        this.transformScheduleFromDb(schedule as Record<string, unknown>)
+      );
+      
+      return {
+        ...response,
+        data: transformedSchedules
+      };
+    }
+    return response as ApiResponse<Schedule[]>;
+  }
+
+  /**
+   * Create a time entry
+   */
+  async createTimeEntry(timeEntryData: CreateTimeEntryRequest): Promise<ApiResponse<TimeEntry>> {
+    // 1. Validate input data
+    const validationResult = validateParams(CreateTimeEntrySchema, timeEntryData);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const validatedData = validationResult.data;
+
+    // 2. Execute time entry creation
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'staff_time_entries',
+        requiredRole: UserRole.STAFF,
+        rateLimitKey: 'staff:time:create',
+        enableLogging: true,
+      },
+      async () => {
+        const dbData = this.adapter.toSnakeCase({
+          staffId: validatedData.staffId,
+          clockIn: validatedData.clockIn,
+          clockOut: validatedData.clockOut,
+          breakDuration: validatedData.breakDuration || 0,
+          hoursWorked: validatedData.hoursWorked,
+          overtimeHours: validatedData.overtimeHours || 0,
+          scheduleId: validatedData.scheduleId,
+          notes: validatedData.notes,
+        });
+
+        return this.adapter.buildQuery('staff_time_entries')
+          .insert([dbData])
+          .select('*');
+      },
+      'write'
+    );
+
+    if (response.success) {
+      const timeEntryArray = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: this.transformTimeEntryFromDb(timeEntryArray[0] as Record<string, unknown>)
+      };
+    }
+    return response as ApiResponse<TimeEntry>;
+  }
+
+  /**
+   * Work out pay for a period from approved time entries
+   */
+  async getPayroll(request: PayrollPeriodRequest): Promise<ApiResponse<PayrollRun>> {
+    // 1. Validate input data
+    const validationResult = validateParams(PayrollPeriodSchema, request);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { periodStart, periodEnd, ...rules } = validationResult.data as PayrollPeriod;
+
+    // 2. Load the approved, clocked-out entries that started in the period, and
+    // those earlier in its first week, which count towards weekly overtime
+    const timeZoneResponse = await this.getVenueTimeZone();
+    if (!timeZoneResponse.success) {
+      return timeZoneResponse as unknown as ApiResponse<PayrollRun>;
+    }
+    const timeZone = timeZoneResponse.data;
+    const firstWeek = venueWeekOf(periodStart, timeZone);
+
+    const entriesResponse = await this.adapter.executeQuery(
+      {
+        tableName: 'staff_time_entries',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'staff:payroll:read',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('staff_time_entries', { select: '*, staff_schedules(shift_type)' })
+          .eq('status', 'approved')
+          .gte('clock_in_time', firstWeek.startTime)
+          .lt('clock_in_time', periodEnd)
+          .not('clock_out_time', 'is', null);
+      },
+      'read'
+    );
+    if (!entriesResponse.success) {
+      return entriesResponse as unknown as ApiResponse<PayrollRun>;
+    }
+
+    const entries = (Array.isArray(entriesResponse.data) ? entriesResponse.data : [entriesResponse.data])
+      .filter(Boolean)
+      .map(row => {
+        const entry = row as Record<string, unknown>;
+        const schedule = entry.staff_schedules as { shift_type?: string } | null;
+        return {
+          staffId: entry.staff_id as string,
+          clockInTime: entry.clock_in_time as string,
+          clockOutTime: entry.clock_out_time as string,
+          breakDuration: (entry.break_duration as number) || 0,
+          isEventShift: schedule?.shift_type === 'event'
+        };
+      });
+
+    // 3. Add the tips shared out by tip pools during the period
+    const tipsResponse = await this.adapter.executeQuery(
+      {
+        tableName: 'tip_payouts',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'staff:payroll:read',
+        enableLogging: false,
+      },
+      async () => {
+        return this.adapter.buildQuery('tip_payouts', { select: 'staff_id, amount, tip_pools!inner(shift_start)' })
+          .gte('tip_pools.shift_start', periodStart)
+          .lt('tip_pools.shift_start', periodEnd);
+      },
+      'read'
+    );
+    if (!tipsResponse.success) {
+      return tipsResponse as unknown as ApiResponse<PayrollRun>;
+    }
+
+    const adjustments = [
+      ...rules.adjustments,
+      ...(Array.isArray(tipsResponse.data) ? tipsResponse.data : [tipsResponse.data])
+        .filter(Boolean)
+        .map(row => {
+          const payout = row as Record<string, unknown>;
+          return { staffId: payout.staff_id as string, type: 'tips' as const, amount: Number(payout.amount), description: 'Tip pool' };
+        })
+    ];
+
+    // 4. Load everyone being paid
+    const paidEntries = entries.filter(entry => new Date(entry.clockInTime) >= new Date(periodStart));
+    const staffIds = [...new Set([...paidEntries.map(entry => entry.staffId), ...adjustments.map(adjustment => adjustment.staffId)])];
+    const staffResponse = staffIds.length === 0 ? { success: true, data: [] } : await this.adapter.executeQuery(
+      {
+        tableName: 'staff',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'staff:payroll:read',
+        enableLogging: false,
+      },
+      async () => {
+        return this.adapter.buildQuery('staff', { select: 'id, first_name, last_name, employee_id, department, hourly_rate' })
+          .in('id', staffIds);
+      },
+      'read'
+    );
+    if (!staffResponse.success) {
+      return staffResponse as unknown as ApiResponse<PayrollRun>;
+    }
+
+    const staff = (Array.isArray(staffResponse.data) ? staffResponse.data : [staffResponse.data])
+      .filter(Boolean)
+      .map(row => {
+        const member = this.adapter.toCamelCase(row as Record<string, unknown>);
+        return {
+          id: member.id as string,
+          name: `${member.firstName} ${member.lastName}`,
+          employeeId: member.employeeId as string || undefined,
+          department: member.department as string || undefined,
+          hourlyRate: member.hourlyRate as number || undefined
+        };
+      })
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    // 5. Split the hours and price them
+    return {
+      success: true,
+      data: {
+        periodStart,
+        periodEnd,
+        ...calculatePayroll(entries, staff, { ...rules, adjustments }, timeZone, periodStart)
+      },
+      meta: {
+        requestId: crypto.randomUUID(),
+        source: 'calculation'
+      }
+    } as unknown as ApiResponse<PayrollRun>;
+  }
+
+  /**
+   * Export a period's payroll as CSV for the payroll provider
+   */
+  async exportPayroll(request: PayrollPeriodRequest): Promise<ApiResponse<{ filename: string; contentType: string; content: string }>> {
+    const payrollResponse = await this.getPayroll(request);
+    if (!payrollResponse.success) {
+      return payrollResponse as unknown as ApiResponse<{ filename: string; contentType: string; content: string }>;
+    }
+
+    const run = payrollResponse.data;
+    const header = ['Employee ID', 'Name', 'Department', 'Hourly Rate', 'Regular Hours', 'Overtime Hours', 'Regular Pay', 'Overtime Pay', 'Tips', 'Bonuses', 'Gross Pay'];
+    const amounts = (line: PayrollRun['totals']) => [
+      line.regularHours.toFixed(2),
+      line.overtimeHours.toFixed(2),
+      line.regularPay.toFixed(2),
+      line.overtimePay.toFixed(2),
+      line.tips.toFixed(2),
+      line.bonuses.toFixed(2),
+      line.grossPay.toFixed(2),
+    ];
+
+    const rows = [
+      header,
+      ...run.lines.map(line => [line.employeeId || '', line.name, line.department || '', line.hourlyRate.toFixed(2), ...amounts(line)]),
+      ['', 'Total', '', '', ...amounts(run.totals)],
+    ];
+
+    const content = rows
+      .map(cells => cells.map(cell => (/[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell)).join(','))
+      .join('\n');
+
+    return {
+      success: true,
+      data: {
+        filename: `payroll-${run.periodStart.slice(0, 10)}-${run.periodEnd.slice(0, 10)}.csv`,
+        contentType: 'text/csv',
+        content,
+      },
+      meta: payrollResponse.meta
+    } as unknown as ApiResponse<{ filename: string; contentType: string; content: string }>;
+  }
+
+  /**
+   * Close a pay period: book its gross pay as a wage expense in the finance
+   * ledger and keep the run. Each stretch of time can only be paid once.
+   */
+  async postPayroll(request: PostPayrollRequest): Promise<ApiResponse<PostedPayroll>> {
+    // 1. Validate input data
+    const validationResult = validateParams(PostPayrollSchema, request);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { accountId, categoryId, ...period } = validationResult.data;
+
+    // 2. Refuse periods that overlap one already paid
+    const postedResponse = await this.adapter.executeQuery(
+      {
+        tableName: 'payroll_runs',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'staff:payroll:read',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('payroll_runs', { select: 'id, period_start, period_end' })
+          .lt('period_start', period.periodEnd)
+          .gt('period_end', period.periodStart);
+      },
+      'read'
+    );
+    if (!postedResponse.success) {
+      return postedResponse as unknown as ApiResponse<PostedPayroll>;
+    }
+    const [posted] = (Array.isArray(postedResponse.data) ? postedResponse.data : [postedResponse.data]).filter(Boolean) as Record<string, unknown>[];
+    if (posted) {
+      return {
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/conflict',
+          title: 'Payroll Already Posted',
+          status: 409,
+          detail: `Payroll from ${(posted.period_start as string).slice(0, 10)} to ${(posted.period_end as string).slice(0, 10)} overlaps this period`,
+          instance: '/api/staff/payroll/post',
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
+      } as unknown as ApiResponse<PostedPayroll>;
+    }
+
+    // 3. Work out the pay
+    const payrollResponse = await this.getPayroll(period);
+    if (!payrollResponse.success) {
+      return payrollResponse as unknown as ApiResponse<PostedPayroll>;
+    }
+    const run = payrollResponse.data;
+
+    if (run.totals.grossPay <= 0) {
+      return {
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/business-rule-violation',
+          title: 'Nothing To Pay',
+          status: 400,
+          detail: 'There are no approved time entries, tips or bonuses in this period',
+          instance: '/api/staff/payroll/post',
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
+      } as unknown as ApiResponse<PostedPayroll>;
+    }
+
+    // 4. Claim the period. Overlapping runs are refused by the database, so of
+    // two concurrent posts only one gets to book wages.
+    const actor = await this.adapter.getCurrentUser();
+    const claimResponse = await this.adapter.executeQuery(
+      {
+        tableName: 'payroll_runs',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'staff:payroll:post',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('payroll_runs')
+          .insert([{
+            period_start: run.periodStart,
+            period_end: run.periodEnd,
+            gross_pay: run.totals.grossPay,
+            run,
+            posted_by: actor?.email || actor?.id || null
+          }])
+          .select('*');
+      },
+      'write'
+    );
+    if (!claimResponse.success) {
+      if (claimResponse.error?.errors?.some((error: ValidationError) => error.code === 'DUPLICATE_ENTRY' || error.code === 'CONFLICTING_ENTRY')) {
+        return {
+          success: false,
+          error: {
+            type: 'https://docs.trainstation-dashboard.com/errors/conflict',
+            title: 'Payroll Already Posted',
+            status: 409,
+            detail: 'Another payroll run overlapping this period was posted first',
+            instance: '/api/staff/payroll/post',
+            timestamp: new Date().toISOString()
+          },
+          meta: {
+            requestId: crypto.randomUUID(),
+            source: 'validation'
+          }
+        };
+      }
+      return claimResponse as unknown as ApiResponse<PostedPayroll>;
+    }
+    const runId = ((Array.isArray(claimResponse.data) ? claimResponse.data : [claimResponse.data])[0] as { id: string }).id;
+
+    // 5. Book the wages straight into the ledger. They are owed whatever the
+    // budgets say, so they skip the budget checks and approval.
+    const from = run.periodStart.slice(0, 10);
+    const to = run.periodEnd.slice(0, 10);
+    const expenseResponse = await this.adapter.executeQuery(
+      {
+        tableName: 'financial_transactions',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'staff:payroll:post',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('financial_transactions')
+          .insert([this.adapter.toSnakeCase({
+            type: 'expense',
+            category: categoryId,
+            amount: run.totals.grossPay,
+            currency: 'USD',
+            description: `Payroll ${from} to ${to}`,
+            date: run.periodEnd,
+            accountId,
+            reference: `payroll-${from}`,
+            notes: `${run.lines.length} staff, ${run.totals.regularHours} regular and ${run.totals.overtimeHours} overtime hours`,
+            status: 'completed',
+            tags: ['payroll'],
+            isRecurring: false,
+            createdBy: actor?.email || actor?.id || null
+          })])
+          .select('id');
+      },
+      'write'
+    );
+    if (!expenseResponse.success) {
+      await this.removePayrollRun(runId);
+      return expenseResponse as unknown as ApiResponse<PostedPayroll>;
+    }
+    const transactionId = ((Array.isArray(expenseResponse.data) ? expenseResponse.data : [expenseResponse.data])[0] as { id: string }).id;
+
+    // 6. Link the run to its expense. An unlinked run would leave the period
+    // paid with nothing to show for it, so both are taken back
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'payroll_runs',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'staff:payroll:post',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('payroll_runs')
+          .update({ transaction_id: transactionId })
+          .eq('id', runId)
+          .select('*');
+      },
+      'write'
+    );
+
+    if (!response.success) {
+      await this.removePayrollExpense(transactionId);
+      await this.removePayrollRun(runId);
+      return response as unknown as ApiResponse<PostedPayroll>;
+    }
+
+    const runs = Array.isArray(response.data) ? response.data : [response.data];
+    return {
+      ...response,
+      data: this.transformPayrollRunFromDb(runs[0] as Record<string, unknown>)
+    };
+  }
+
+  /**
+   * Delete the wage expense of a run that could not be linked to it. It was
+   * never part of a posted payroll, so it is removed outright, not trashed.
+   */
+  private async removePayrollExpense(transactionId: string): Promise<ApiResponse<unknown>> {
+    return this.adapter.executeQuery(
+      {
+        tableName: 'financial_transactions',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'staff:payroll:post',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('financial_transactions')
+          .delete()
+          .eq('id', transactionId);
+      },
+      'write'
+    );
+  }
+
+  /**
+   * Give up the claim on a period whose wages could not be booked
+   */
+  private async removePayrollRun(id: string): Promise<ApiResponse<unknown>> {
+    return this.adapter.executeQuery(
+      {
+        tableName: 'payroll_runs',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'staff:payroll:post',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('payroll_runs')
+          .delete()
+          .eq('id', id)
+          .is('transaction_id', null);
+      },
+      'write'
+    );
+  }
+
+  /**
+   * Payroll runs posted so far, latest first
+   */
+  async getPostedPayrolls(): Promise<ApiResponse<PostedPayroll[]>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'payroll_runs',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'staff:payroll:read',
+        enableLogging: false,
+      },
+      async () => {
+        return this.adapter.buildQuery('payroll_runs', {
+          select: '*',
+          orderBy: { column: 'period_start', ascending: false }
+        });
+      },
+      'read'
+    );
+
+    if (response.success) {
+      const runs = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: runs.filter(Boolean).map(run => this.transformPayrollRunFromDb(run as Record<string, unknown>))
+      };
+    }
+    return response as ApiResponse<PostedPayroll[]>;
+  }
+
+  /**
+   * Work out how a shift's tips would be shared, without recording anything
+   */
+  async previewTipPool(request: TipPoolRequest): Promise<ApiResponse<TipDistribution>> {
+    // 1. Validate input data
+    const validationResult = validateParams(TipPoolSchema, request);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    // 2. Share the tips
+    return this.distributeTipPool(validationResult.data as TipPoolRules);
+  }
+
+  /**
+   * Share a shift's cash and card tips between the staff clocked in on it
+   * and record each person's payout. Payouts are paid out with payroll.
+   */
+  async createTipPool(request: TipPoolRequest): Promise<ApiResponse<TipPool>> {
+    // 1. Validate input data
+    const validationResult = validateParams(TipPoolSchema, request);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const rules = validationResult.data as TipPoolRules;
+
+    // 2. A shift's tips, for the same event or none, can only be shared once
+    const existingResponse = await this.adapter.executeQuery(
+      {
+        tableName: 'tip_pools',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'staff:tips:read',
+        enableLogging: false,
+      },
+      async () => {
+        const builder = this.adapter.buildQuery('tip_pools', { select: 'id, created_at' })
+          .eq('shift_start', rules.shiftStart)
+          .eq('shift_end', rules.shiftEnd);
+        return rules.eventId ? builder.eq('event_id', rules.eventId) : builder.is('event_id', null);
+      },
+      'read'
+    );
+    if (!existingResponse.success) {
+      return existingResponse as unknown as ApiResponse<TipPool>;
+    }
+    const [existing] = (Array.isArray(existingResponse.data) ? existingResponse.data : [existingResponse.data]).filter(Boolean) as Record<string, unknown>[];
+    if (existing) {
+      return {
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/conflict',
+          title: 'Tips Already Shared',
+          status: 409,
+          detail: `The tips for this shift were already shared on ${(existing.created_at as string).slice(0, 10)}`,
+          instance: '/api/staff/tip-pools',
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
+      };
+    }
+
+    // 3. Share the tips
+    const distributionResponse = await this.distributeTipPool(rules);
+    if (!distributionResponse.success) {
+      return distributionResponse as unknown as ApiResponse<TipPool>;
+    }
+    const distribution = distributionResponse.data;
+
+    const payouts = distribution.payouts.filter(payout => payout.amount > 0);
+    if (payouts.length === 0) {
+      return {
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/business-rule-violation',
+          title: 'Nothing To Share',
+          status: 400,
+          detail: distribution.totalTips <= 0
+            ? 'There are no tips to share'
+            : ['Nobody on this shift has a share of the tips', ...distribution.warnings].join('. '),
+          instance: '/api/staff/tip-pools',
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
+      } as unknown as ApiResponse<TipPool>;
+    }
+
+    // 4. Save the pool. The database refuses a second pool for the shift, so of
+    // two concurrent requests only one records payouts.
+    const actor = await this.adapter.getCurrentUser();
+    const poolResponse = await this.adapter.executeQuery(
+      {
+        tableName: 'tip_pools',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'staff:tips:create',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('tip_pools')
+          .insert([{
+            shift_start: distribution.shiftStart,
+            shift_end: distribution.shiftEnd,
+            event_id: distribution.eventId || null,
+            roles: rules.roles,
+            method: distribution.method,
+            role_weights: rules.roleWeights,
+            points: rules.points,
+            cash_tips: distribution.cashTips,
+            card_tips: distribution.cardTips,
+            total_tips: distribution.totalTips,
+            notes: rules.notes || null,
+            created_by: actor?.email || actor?.id || null
+          }])
+          .select('*');
+      },
+      'write'
+    );
+    if (!poolResponse.success) {
+      if (poolResponse.error?.errors?.some((error: ValidationError) => error.code === 'DUPLICATE_ENTRY')) {
+        return {
+          success: false,
+          error: {
+            type: 'https://docs.trainstation-dashboard.com/errors/conflict',
+            title: 'Tips Already Shared',
+            status: 409,
+            detail: 'The tips for this shift were shared by another request first',
+            instance: '/api/staff/tip-pools',
+            timestamp: new Date().toISOString()
+          },
+          meta: {
+            requestId: crypto.randomUUID(),
+            source: 'validation'
+          }
+        };
+      }
+      return poolResponse as unknown as ApiResponse<TipPool>;
+    }
+    const [pool] = (Array.isArray(poolResponse.data) ? poolResponse.data : [poolResponse.data]) as Record<string, unknown>[];
+
+    // 5. Record each person's payout, removing the pool if that fails
+    const payoutsResponse = await this.adapter.executeQuery(
+      {
+        tableName: 'tip_payouts',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'staff:tips:create',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('tip_payouts')
+          .insert(payouts.map(payout => ({
+            tip_pool_id: pool.id,
+            staff_id: payout.staffId,
+            role: payout.role || null,
+            hours: payout.hours,
+            weight: payout.weight,
+            amount: payout.amount
+          })))
+          .select('*');
+      },
+      'write'
+    );
+    if (!payoutsResponse.success) {
+      await this.removeTipPool(pool.id as string);
+      return payoutsResponse as unknown as ApiResponse<TipPool>;
+    }
+
+    return {
+      ...payoutsResponse,
+      data: this.transformTipPoolFromDb(pool, payouts)
+    } as unknown as ApiResponse<TipPool>;
+  }
+
+  /**
+   * Remove a pool whose payouts could not be recorded
+   */
+  private async removeTipPool(id: string): Promise<ApiResponse<unknown>> {
+    return this.adapter.executeQuery(
+      {
+        tableName: 'tip_pools',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'staff:tips:create',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('tip_pools')
+          .delete()
+          .eq('id', id);
+      },
+      'write'
+    );
+  }
+
+  /**
+   * Tip pools with their payouts, latest first
+   */
+  async getTipPools(query: Partial<TipPoolQueryRequest> = {}): Promise<ApiResponse<TipPool[]>> {
+    const validationResult = validateQuery(TipPoolQuerySchema, query);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { staffId, eventId, dateFrom, dateTo } = validationResult.data;
+
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'tip_pools',
+        requiredRole: UserRole.STAFF,
+        rateLimitKey: 'staff:tips:read',
+        enableLogging: false,
+      },
+      async () => {
+        let builder = this.adapter.buildQuery('tip_pools', {
+          select: staffId
+            ? '*, tip_payouts!inner(*, staff(first_name, last_name))'
+            : '*, tip_payouts(*, staff(first_name, last_name))',
+          orderBy: { column: 'shift_start', ascending: false }
+        });
+        if (staffId) {
+          builder = builder.eq('tip_payouts.staff_id', staffId);
+        }
+        if (eventId) {
+          builder = builder.eq('event_id', eventId);
+        }
+        if (dateFrom) {
+          builder = builder.gte('shift_start', dateFrom);
+        }
+        if (dateTo) {
+          builder = builder.lt('shift_start', dateTo);
+        }
+        return builder;
+      },
+      'read'
+    );
+
+    if (response.success) {
+      const pools = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: pools.filter(Boolean).map(pool => this.transformTipPoolFromDb(pool as Record<string, unknown>))
+      };
+    }
+    return response as ApiResponse<TipPool[]>;
+  }
+
+  /**
+   * Split a shift's tips between the completed and approved time entries
+   * that overlap it, by the hours worked during it
+   */
+  private async distributeTipPool(rules: TipPoolRules): Promise<ApiResponse<TipDistribution>> {
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    // 1. Card tips include those taken through Square
+    const squareTips = rules.squareOrders
+      .filter(order => order.state !== 'CANCELED')
+      .reduce((sum, order) => sum + (order.total_tip_money?.amount || 0), 0) / 100;
+    const cardTips = round(rules.cardTips + squareTips);
+
+    // 2. Load who was clocked in at any point during the shift
+    const entriesResponse = await this.adapter.executeQuery(
+      {
+        tableName: 'staff_time_entries',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'staff:tips:read',
+        enableLogging: false,
+      },
+      async () => {
+        return this.adapter.buildQuery('staff_time_entries', {
+          select: '*, staff(first_name, last_name, position), staff_schedules(role, event_id)'
+        })
+          .in('status', ['completed', 'approved'])
+          .lt('clock_in_time', rules.shiftEnd)
+          .gt('clock_out_time', rules.shiftStart);
+      },
+      'read'
+    );
+    if (!entriesResponse.success) {
+      return entriesResponse as unknown as ApiResponse<TipDistribution>;
+    }
+
+    // 3. Keep the event's shifts and the pooled roles, counting only the time
+    // inside the shift. Breaks are taken to be spread evenly over an entry.
+    const roles = rules.roles.map(role => role.toLowerCase());
+    const shiftStart = new Date(rules.shiftStart).getTime();
+    const shiftEnd = new Date(rules.shiftEnd).getTime();
+    const worked = (Array.isArray(entriesResponse.data) ? entriesResponse.data : [entriesResponse.data])
+      .filter(Boolean)
+      .map(row => {
+        const entry = row as Record<string, unknown>;
+        const staff = entry.staff as { first_name?: string; last_name?: string; position?: string } | null;
+        const schedule = entry.staff_schedules as { role?: string; event_id?: string } | null;
+        const clockIn = new Date(entry.clock_in_time as string).getTime();
+        const clockOut = new Date(entry.clock_out_time as string).getTime();
+        const worked = (clockOut - clockIn) / 3600000 - ((entry.break_duration as number) || 0) / 60;
+        const overlap = Math.min(clockOut, shiftEnd) - Math.max(clockIn, shiftStart);
+        const hours = clockOut > clockIn ? worked * overlap / (clockOut - clockIn) : 0;
+        return {
+          staffId: entry.staff_id as string,
+          name: staff ? `${staff.first_name} ${staff.last_name}` : entry.staff_id as string,
+          role: schedule?.role || staff?.position || undefined,
+          eventId: schedule?.event_id,
+          hours: Math.max(0, hours)
+        };
+      })
+      .filter(entry => !rules.eventId || entry.eventId === rules.eventId)
+      .filter(entry => roles.length === 0 || roles.includes((entry.role || '').toLowerCase()));
+
+    // 4. Share the tips
+    const totalTips = round(rules.cashTips + cardTips);
+    return {
+      success: true,
+      data: {
+        shiftStart: rules.shiftStart,
+        shiftEnd: rules.shiftEnd,
+        eventId: rules.eventId,
+        method: rules.method,
+        cashTips: rules.cashTips,
+        cardTips,
+        totalTips,
+        ...distributeTips(worked, totalTips, rules)
+      },
+      meta: {
+        requestId: crypto.randomUUID(),
+        source: 'calculation'
+      }
+    } as unknown as ApiResponse<TipDistribution>;
+  }
+
+  /**
+   * Create a certification for a staff member
+   */
+  async createCertification(certificationData: CreateCertificationRequest): Promise<ApiResponse<Certification>> {
+    // 1. Validate input data
+    const validationResult = validateParams(CreateCertificationSchema, certificationData);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const validatedData = validationResult.data;
+
+    // 2. Execute certification creation
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'staff_certifications',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'staff:certifications:create',
+        enableLogging: true,
+      },
+      async () => {
+        const dbData = this.adapter.toSnakeCase({
+          staffId: validatedData.staffId,
+          name: validatedData.name,
+          issuingAuthority: validatedData.issuingAuthority,
+          issueDate: validatedData.issueDate,
+          expiryDate: validatedData.expiryDate,
+          certificateNumber: validatedData.certificateNumber,
+          isActive: validatedData.isActive !== false, // Default to true
+          notes: validatedData.notes,
+        });
+
+        return this.adapter.buildQuery('staff_certifications')
+          .insert([dbData])
+          .select('*');
+      },
+      'write'
+    );
+
+    if (response.success) {
+      const certificationArray = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: this.transformCertificationFromDb(certificationArray[0] as Record<string, unknown>)
+      };
+    }
+    return response as ApiResponse<Certification>;
+  }
+
+  /**
+   * Check user permissions for a specific resource and action
+   */
+  async checkPermission(userId: string, resource: string, action: string): Promise<ApiResponse<{ hasPermission: boolean }>> {
+    // This would implement complex permission checking logic
+    // For now, return a simple validation
+    return {
+      success: true,
+      data: { hasPermission: true },
+      meta: {
+        requestId: crypto.randomUUID(),
+        source: 'permission-check'
+      }
+    };
+  }
+
+  /**
+   * Check a single shift against the staff member's other shifts and availability
+   */
+  private async checkScheduleConflicts(schedule: ShiftTime & { staffId: string }): Promise<{ valid: boolean; reason?: string }> {
+    const existingResponse = await this.getSchedulesOverlapping([schedule.staffId], [schedule]);
+    const availabilityResponse = await this.getAvailabilityFor([schedule.staffId], [schedule]);
+    if (!existingResponse.success || !availabilityResponse.success) {
+      return { valid: false, reason: 'Existing shifts could not be checked for conflicts' };
+    }
+
+    const clash = this.findClash(schedule.staffId, schedule, existingResponse.data, availabilityResponse.data);
+    if (!clash) {
+      return { valid: true };
+    }
+    return {
+      valid: false,
+      reason: clash.reason || `Overlaps an existing shift on ${this.formatShiftDate(clash.conflicts[0].startTime)}`
+    };
+  }
+
+  /**
+   * Why a person cannot work a shift: another of their shifts, their weekly
+   * availability or approved time off. Null when they can.
+   */
+  private findClash(
+    staffId: string,
+    shift: ShiftTime,
+    schedules: Schedule[],
+    availability: { availability: StaffAvailability[]; timeOff: TimeOffRequest[] }
+  ): SkippedShift | null {
+    const { valid, conflicts } = validateStaffBusinessRules.validateScheduleConflict(
+      shift,
+      schedules.filter(schedule => schedule.staffId === staffId)
+    );
+    if (!valid) {
+      return { ...shift, staffId, conflicts };
+    }
+
+    const { valid: available, reason } = this.checkAvailability(staffId, shift, availability);
+    return available ? null : { ...shift, staffId, conflicts: [], reason };
+  }
+
+  private checkAvailability(
+    staffId: string,
+    shift: ShiftTime,
+    { availability, timeOff }: { availability: StaffAvailability[]; timeOff: TimeOffRequest[] }
+  ): { valid: boolean; reason?: string; preferred: boolean } {
+    return validateStaffBusinessRules.validateAvailability(
+      shift,
+      availability.filter(entry => entry.staffId === staffId),
+      timeOff.filter(request => request.staffId === staffId)
+    );
+  }
+
+  /**
+   * Whether a member of staff holds a certification that is valid for the whole shift
+   */
+  private checkCertification(
+    member: Staff,
+    certificationName: string,
+    shift: ShiftTime
+  ): { valid: boolean; reason?: string; expiringSoon: string[] } {
+    const held = (member.certifications || []).filter(certification => certification.name.toLowerCase() === certificationName.toLowerCase());
+    const { valid, expiringSoon } = validateStaffBusinessRules.validateCertificationStatus(held);
+    const lapses = held.some(certification => certification.expiryDate && new Date(certification.expiryDate) < new Date(shift.endTime));
+
+    if (held.length === 0) {
+      return { valid: false, reason: `No ${certificationName}`, expiringSoon };
+    }
+    if (!valid || lapses) {
+      return { valid: false, reason: `${certificationName} ${valid ? 'expires before the shift' : 'has expired'}`, expiringSoon };
+    }
+    return { valid: true, expiringSoon };
+  }
+
+  /**
+   * Hours a person already works in the week, and why one more shift would
+   * take them over the weekly limit
+   */
+  private checkWeeklyHours(
+    shifts: Schedule[],
+    week: ShiftTime,
+    shiftHours: number,
+    weeklyHourLimit: number
+  ): { weeklyHours: number; reason?: string } {
+    const weeklyHours = shifts
+      .filter(schedule => schedule.startTime < week.endTime && schedule.endTime > week.startTime)
+      .reduce((sum, schedule) => sum + (new Date(schedule.endTime).getTime() - new Date(schedule.startTime).getTime()) / HOUR_MS, 0);
+    const { isOvertime, overtimeHours } = validateStaffBusinessRules.calculateOvertimeEligibility(weeklyHours + shiftHours, weeklyHourLimit);
+
+    return {
+      weeklyHours,
+      reason: isOvertime ? `Would work ${Math.round(overtimeHours * 10) / 10}h over the ${weeklyHourLimit}h weekly limit` : undefined
+    };
+  }
+
+  /**
+   * Start and end of the time covered by a set of shifts
+   */
+  private spanOf(shifts: ShiftTime[]): ShiftTime {
+    return {
+      startTime: shifts.reduce((earliest, shift) => shift.startTime < earliest ? shift.startTime : earliest, shifts[0].startTime),
+      endTime: shifts.reduce((latest, shift) => shift.endTime > latest ? shift.endTime : latest, shifts[0].endTime)
+    };
+  }
+
+  /**
+   * Weekly availability and approved time off of the given staff around a set of shifts
+   */
+  private async getAvailabilityFor(
+    staffIds: string[],
+    shifts: ShiftTime[]
+  ): Promise<ApiResponse<{ availability: StaffAvailability[]; timeOff: TimeOffRequest[] }>> {
+    if (staffIds.length === 0 || shifts.length === 0) {
+      return {
+        success: true,
+        data: { availability: [], timeOff: [] },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'calculation'
+        }
+      } as unknown as ApiResponse<{ availability: StaffAvailability[]; timeOff: TimeOffRequest[] }>;
+    }
+
+    const { startTime, endTime } = this.spanOf(shifts);
+
+    const availabilityResponse = await this.adapter.executeQuery(
+      {
+        tableName: 'staff_availability',
+        rateLimitKey: 'staff:availability:read',
+        enableLogging: false,
+      },
+      async () => {
+        return this.adapter.buildQuery('staff_availability', { select: '*' })
+          .in('staff_id', staffIds);
+      },
+      'read'
+    );
+    if (!availabilityResponse.success) {
+      return availabilityResponse as unknown as ApiResponse<{ availability: StaffAvailability[]; timeOff: TimeOffRequest[] }>;
+    }
+
+    const timeOffResponse = await this.adapter.executeQuery(
+      {
+        tableName: 'time_off_requests',
+        rateLimitKey: 'staff:time-off:read',
+        enableLogging: false,
+      },
+      async () => {
+        return this.adapter.buildQuery('time_off_requests', { select: '*' })
+          .in('staff_id', staffIds)
+          .eq('status', 'approved')
+          .lt('start_date', endTime)
+          .gt('end_date', startTime);
+      },
+      'read'
+    );
+    if (!timeOffResponse.success) {
+      return timeOffResponse as unknown as ApiResponse<{ availability: StaffAvailability[]; timeOff: TimeOffRequest[] }>;
+    }
+
+    const availability = Array.isArray(availabilityResponse.data) ? availabilityResponse.data : [availabilityResponse.data];
+    const timeOff = Array.isArray(timeOffResponse.data) ? timeOffResponse.data : [timeOffResponse.data];
+    return {
+      ...timeOffResponse,
+      data: {
+        availability: availability.filter(Boolean).map(entry => this.transformAvailabilityFromDb(entry as Record<string, unknown>)),
+        timeOff: timeOff.filter(Boolean).map(request => this.transformTimeOffFromDb(request as Record<string, unknown>))
+      }
+    };
+  }
+
+  /**
+   * Whether someone could take over a shift: active, free, available and
+   * holding the certification the shift's role needs
+   */
+  private async checkClaimant(staffId: string, schedule: Schedule): Promise<{ valid: boolean; reason?: string }> {
+    const staffResponse = await this.getStaffById(staffId);
+    if (!staffResponse.success || !staffResponse.data.isActive) {
+      return { valid: false, reason: 'Only active staff can take shifts' };
+    }
+
+    const conflictCheck = await this.checkScheduleConflicts({ staffId, startTime: schedule.startTime, endTime: schedule.endTime });
+    if (!conflictCheck.valid) {
+      return conflictCheck;
+    }
+
+    if (schedule.role) {
+      const settingsResponse = await this.getStaffingSettings();
+      if (!settingsResponse.success) {
+        return { valid: false, reason: 'Certification requirements could not be checked' };
+      }
+
+      const role = schedule.role.toLowerCase();
+      const ratio = settingsResponse.data.ratios.find(candidate => candidate.role.toLowerCase() === role && candidate.requiredCertification);
+      if (ratio?.requiredCertification) {
+        const { valid, reason } = this.checkCertification(staffResponse.data, ratio.requiredCertification, schedule);
+        if (!valid) {
+          return { valid, reason };
+        }
+      }
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Get a single shift
+   */
+  private async getSchedule(id: string): Promise<ApiResponse<Schedule>> {
+    const validationResult = validateParams(ScheduleIdSchema, { id });
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'staff_schedules',
+        rateLimitKey: 'staff:schedules:read',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('staff_schedules', { select: '*', filters: { id } }).is('deleted_at', null).single();
+      },
+      'read'
+    );
+
+    if (response.success) {
+      return {
+        ...response,
+        data: this.transformScheduleFromDb(response.data as Record<string, unknown>)
+      };
+    }
+    return response as ApiResponse<Schedule>;
+  }
+
+  /**
+   * Move a shift its holder owns between being worked and being offered for swap
+   */
+  private async setSwapStatus(
+    request: ShiftOfferRequest,
+    fromStatuses: Schedule['status'][],
+    status: Schedule['status']
+  ): Promise<ApiResponse<Schedule>> {
+    // 1. Validate input data
+    const validationResult = validateParams(ShiftOfferSchema, request);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { scheduleId } = validationResult.data;
+    const instance = `/api/staff/schedules/${scheduleId}/swap`;
+
+    // 2. Only the holder, who is whoever is signed in, can change an upcoming
+    // shift in the expected state
+    const actingResponse = await this.getActingStaff(instance);
+    if (!actingResponse.success) {
+      return actingResponse as unknown as ApiResponse<Schedule>;
+    }
+    const staffId = actingResponse.data.id;
+
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'staff_schedules',
+        requiredRole: UserRole.STAFF,
+        rateLimitKey: 'staff:schedules:update',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('staff_schedules')
+          .update({ status, updated_at: new Date().toISOString() })
+          .eq('id', scheduleId)
+          .eq('staff_id', staffId)
+          .in('status', fromStatuses)
+          .gt('start_time', new Date().toISOString())
+          .is('deleted_at', null)
+          .select('*');
+      },
+      'write'
+    );
+
+    if (!response.success) {
+      return response as ApiResponse<Schedule>;
+    }
+
+    const schedules = (Array.isArray(response.data) ? response.data : [response.data]).filter(Boolean);
+    if (schedules.length === 0) {
+      return this.shiftRequestError(
+        409,
+        'Shift Cannot Be Changed',
+        status === 'swap_requested' ? 'Only your own upcoming shifts can be offered for swap' : 'This shift is not offered for swap',
+        instance
+      );
+    }
+    return {
+      ...response,
+      data: this.transformScheduleFromDb(schedules[0] as Record<string, unknown>)
+    };
+  }
+
+  /**
+   * Undo an approval whose shift could not be handed over
+   */
+  private async revertShiftClaim(id: string, status: 'pending' | 'declined', note?: string): Promise<ApiResponse<unknown>> {
+    return this.adapter.executeQuery(
+      {
+        tableName: 'shift_claims',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'staff:claims:review',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('shift_claims')
+          .update(status === 'pending'
+            ? { status, review_note: null, reviewed_by: null, reviewed_at: null }
+            : { status, review_note: note, reviewed_at: new Date().toISOString() })
+          .eq('id', id)
+          .eq('status', 'approved')
+          .select('id');
+      },
+      'write'
+    );
+  }
+
+  /**
+   * The member of staff the signed-in user is, matched on their email
+   */
+  private async getActingStaff(instance: string): Promise<ApiResponse<Staff>> {
+    const actor = await this.adapter.getCurrentUser();
+    if (!actor?.email) {
+      return this.shiftRequestError(404, 'Staff Member Not Found', 'Your account is not linked to a member of staff', instance);
+    }
+
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'staff',
+        rateLimitKey: 'staff:read',
+        enableLogging: false,
+      },
+      async () => {
+        return this.adapter.buildQuery('staff', { select: '*', filters: { email: actor.email, is_active: true }, limit: 1 });
+      },
+      'read'
+    );
+    if (!response.success) {
+      return response as ApiResponse<Staff>;
+    }
+
+    const staff = (Array.isArray(response.data) ? response.data : [response.data]).filter(Boolean);
+    if (staff.length === 0) {
+      return this.shiftRequestError(404, 'Staff Member Not Found', 'Your account is not linked to a member of staff', instance);
+    }
+    return {
+      ...response,
+      data: this.transformStaffFromDb(staff[0] as Record<string, unknown>)
+    };
+  }
+
+  /**
+   * Close every pending claim on a shift
+   */
+  private async closePendingClaims(scheduleId: string, status: 'declined' | 'withdrawn', note: string): Promise<ApiResponse<unknown>> {
+    return this.adapter.executeQuery(
+      {
+        tableName: 'shift_claims',
+        requiredRole: UserRole.STAFF,
+        rateLimitKey: 'staff:claims:review',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('shift_claims')
+          .update({ status, review_note: note, reviewed_at: new Date().toISOString() })
+          .eq('schedule_id', scheduleId)
+          .eq('status', 'pending')
+          .select('id');
+      },
+      'write'
+    );
+  }
+
+  private shiftRequestError<T>(status: 400 | 404 | 409, title: string, detail: string, instance: string): ApiResponse<T> {
+    const type = status === 409 ? 'conflict' : status === 404 ? 'not-found' : 'business-rule-violation';
+    return {
+      success: false,
+      error: {
+        type: `https://docs.trainstation-dashboard.com/errors/${type}`,
+        title,
+        status,
+        detail,
+        instance,
+        timestamp: new Date().toISOString()
+      },
+      meta: {
+        requestId: crypto.randomUUID(),
+        source: 'validation'
+      }
+    } as unknown as ApiResponse<T>;
+  }
+
+  /**
+   * Shifts of the given staff that overlap the span of the given shifts
+   */
+  private async getSchedulesOverlapping(staffIds: string[], shifts: ShiftTime[]): Promise<ApiResponse<Schedule[]>> {
+    if (staffIds.length === 0 || shifts.length === 0) {
+      return {
+        success: true,
+        data: [],
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'calculation'
+        }
+      };
+    }
+
+    const { startTime: from, endTime: to } = this.spanOf(shifts);
+
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'staff_schedules',
+        rateLimitKey: 'staff:schedules:read',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('staff_schedules', { select: '*' })
+          .in('staff_id', staffIds)
+          .is('deleted_at', null)
+          .lt('start_time', to)
+          .gt('end_time', from);
+      },
+      'read'
+    );
+
+    if (response.success) {
+      const schedules = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: schedules.filter(Boolean).map(schedule => this.transformScheduleFromDb(schedule as Record<string, unknown>))
+      };
+    }
+    return response as ApiResponse<Schedule[]>;
+  }
+
+  /**
+   * Insert several shifts at once
+   */
+  private async insertSchedules(rows: Record<string, unknown>[], rateLimitKey: string): Promise<ApiResponse<Schedule[]>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'staff_schedules',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey,
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('staff_schedules')
+          .insert(rows)
+          .select('*');
+      },
+      'write'
+    );
+
+    if (response.success) {
+      const schedules = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: schedules.map(schedule => this.transformScheduleFromDb(schedule as Record<string, unknown>))
+      };
+    }
+    return response as ApiResponse<Schedule[]>;
+  }
+
+  /**
+   * Get a single rota template
+   */
+  private async getShiftTemplate(id: string): Promise<ApiResponse<ShiftTemplate>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'shift_templates',
+        rateLimitKey: 'staff:templates:read',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('shift_templates', { select: '*', filters: { id } }).single();
+      },
+      'read'
+    );
+
+    if (response.success) {
+      return {
+        ...response,
+        data: this.transformShiftTemplateFromDb(response.data as Record<string, unknown>)
+      };
+    }
+    return response as ApiResponse<ShiftTemplate>;
+  }
+
+  /**
+   * Database row for a new shift
+   */
+  private scheduleToDb(schedule: Omit<Partial<CreateScheduleRequest>, 'staffId' | 'status'> & ShiftTime & {
+    staffId: string | null;
+    status?: Schedule['status'];
+    seriesId?: string;
+    templateId?: string;
+  }): Record<string, unknown> {
+    return this.adapter.toSnakeCase({
+      staffId: schedule.staffId,
+      startTime: schedule.startTime,
+      endTime: schedule.endTime,
+      shiftType: schedule.shiftType || 'regular',
+      title: schedule.title,
+      description: schedule.description,
+      location: schedule.location,
+      role: schedule.role,
+      isRecurring: schedule.isRecurring || false,
+      recurringPattern: schedule.recurringPattern,
+      seriesId: schedule.seriesId,
+      templateId: schedule.templateId,
+      eventId: schedule.eventId,
+      status: schedule.status || 'scheduled',
+      notes: schedule.notes,
+    });
+  }
+
+  private scheduleConflictError<T>(detail: string): ApiResponse<T> {
+    return {
+      success: false,
+      error: {
+        type: 'https://docs.trainstation-dashboard.com/errors/schedule-conflict',
+        title: 'Schedule Conflict',
+        status: 400,
+        detail,
+        instance: '/api/staff/schedules',
+        timestamp: new Date().toISOString()
+      },
+      meta: {
+        requestId: crypto.randomUUID(),
+        source: 'validation'
+      }
+    };
+  }
+
+  private formatShiftDate(dateTime: string): string {
+    return new Date(dateTime).toLocaleString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit'
+    });
+  }
+
+  /**
+   * The venue's time zone, which shifts and weeks are counted in
+   */
+  private async getVenueTimeZone(): Promise<ApiResponse<string>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'venues',
+        rateLimitKey: 'staff:read',
+        enableLogging: false,
+      },
+      async () => {
+        return this.adapter.buildQuery('venues', {
+          select: 'timezone',
+          filters: { is_active: true },
+          orderBy: { column: 'created_at', ascending: true },
+          limit: 1
+        });
+      },
+      'read'
+    );
+
+    if (response.success) {
+      const venues = (Array.isArray(response.data) ? response.data : [response.data]) as { timezone?: string }[];
+      return {
+        ...response,
+        data: venues[0]?.timezone || DEFAULT_VENUE_TIME_ZONE
+      };
+    }
+    return response as unknown as ApiResponse<string>;
+  }
+
+  /**
+   * Active staff of the given departments, or with the given IDs, with their certifications
+   */
+  private async getActiveStaff(filter: { departments: string[] } | { ids: string[] }): Promise<ApiResponse<Staff[]>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'staff',
+        rateLimitKey: 'staff:read',
+        enableLogging: true,
+      },
+      async () => {
+        const query = this.adapter.buildQuery('staff', { select: '*, staff_certifications(*)' });
+        return ('ids' in filter ? query.in('id', filter.ids) : query.in('department', filter.departments))
+          .eq('is_active', true);
+      },
+      'read'
+    );
+
+    if (response.success) {
+      const staff = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: staff.map(member => this.transformStaffFromDb(member as Record<string, unknown>))
+      };
+    }
+    return response as ApiResponse<Staff[]>;
+  }
+
+  /**
+   * Calculate staff metrics
+   */
+  async calculateStaffMetrics(staffId: string): Promise<ApiResponse<any>> {
+    // Tips shared out to them by tip pools
+    const tipsResponse = await this.adapter.executeQuery(
+      {
+        tableName: 'tip_payouts',
+        requiredRole: UserRole.STAFF,
+        rateLimitKey: 'staff:tips:read',
+        enableLogging: false,
+      },
+      async () => {
+        return this.adapter.buildQuery('tip_payouts', { select: 'amount' })
+          .eq('staff_id', staffId);
+      },
+      'read'
+    );
+    if (!tipsResponse.success) {
+      return tipsResponse;
+    }
+    const tipPayouts = (Array.isArray(tipsResponse.data) ? tipsResponse.data : [tipsResponse.data]).filter(Boolean) as Record<string, unknown>[];
+
+    // The rest would typically involve complex calculations across schedules and time entries
+    // For now, return a placeholder structure
+    return {
+      success: true,
+      data: {
+        totalHoursWorked: 0,
+        overtimeHours: 0,
+        attendanceRate: 100,
+        averageHoursPerWeek: 40,
+        certificationCount: 0,
+        upcomingCertificationExpirations: 0,
+        tipsEarned: Math.round(tipPayouts.reduce((sum, payout) => sum + Number(payout.amount), 0) * 100) / 100,
+        tipPayouts: tipPayouts.length,
+      },
+      meta: {
+        requestId: crypto.randomUUID(),
+        source: 'calculation'
+      }
+    };
+  }
+
+  /**
+   * Transform database staff to API format
+   */
+  private transformStaffFromDb(dbStaff: Record<string, unknown>): Staff {
+    const camelCaseStaff = this.adapter.toCamelCase(dbStaff);
     
     return {
       id: camelCaseStaff.id as string,
@@ -712,6 +3401,14 @@ export class StaffService {
       createdAt: camelCaseStaff.createdAt as string,
       updatedAt: camelCaseStaff.updatedAt as string,
       lastLoginAt: camelCaseStaff.lastLoginAt as string || undefined,
+      certifications: ((camelCaseStaff.staffCertifications as Record<string, unknown>[]) || [])
+        .filter(certification => certification.is_active !== false)
+        .map(certification => ({
+          name: certification.name as string,
+          issuedBy: certification.issuing_authority as string,
+          issuedDate: certification.issue_date as string,
+          expiryDate: certification.expiry_date as string || undefined,
+        })),
     };
   }
 
@@ -723,20 +3420,122 @@ export class StaffService {
     
     return {
       id: camelCaseSchedule.id as string,
-      staffId: camelCaseSchedule.staffId as string,
+      staffId: camelCaseSchedule.staffId as string || null,
       startTime: camelCaseSchedule.startTime as string,
       endTime: camelCaseSchedule.endTime as string,
       shiftType: camelCaseSchedule.shiftType as 'regular' | 'overtime' | 'holiday' | 'event',
+      title: camelCaseSchedule.title as string,
+      location: camelCaseSchedule.location as string || undefined,
+      role: camelCaseSchedule.role as string || undefined,
       isRecurring: camelCaseSchedule.isRecurring as boolean,
       recurringPattern: camelCaseSchedule.recurringPattern as string || undefined,
+      seriesId: camelCaseSchedule.seriesId as string || undefined,
+      templateId: camelCaseSchedule.templateId as string || undefined,
       eventId: camelCaseSchedule.eventId as string || undefined,
-      status: camelCaseSchedule.status as 'scheduled' | 'completed' | 'cancelled' | 'no_show',
+      status: camelCaseSchedule.status as Schedule['status'],
       notes: camelCaseSchedule.notes as string || undefined,
       createdAt: camelCaseSchedule.createdAt as string,
       updatedAt: camelCaseSchedule.updatedAt as string,
     };
   }
 
+  /**
+   * Transform database availability entry to API format
+   */
+  private transformAvailabilityFromDb(dbEntry: Record<string, unknown>): StaffAvailability {
+    const camelCaseEntry = this.adapter.toCamelCase(dbEntry);
+
+    return {
+      id: camelCaseEntry.id as string,
+      staffId: camelCaseEntry.staffId as string,
+      dayOfWeek: camelCaseEntry.dayOfWeek as number,
+      startTime: (camelCaseEntry.startTime as string).slice(0, 5),
+      endTime: (camelCaseEntry.endTime as string).slice(0, 5),
+      preference: camelCaseEntry.preference as 'unavailable' | 'preferred',
+    };
+  }
+
+  /**
+   * Transform database time off request to API format
+   */
+  private transformTimeOffFromDb(dbRequest: Record<string, unknown>): TimeOffRequest {
+    const camelCaseRequest = this.adapter.toCamelCase(dbRequest);
+    const staff = dbRequest.staff as { first_name: string; last_name: string } | undefined;
+
+    return {
+      id: camelCaseRequest.id as string,
+      staffId: camelCaseRequest.staffId as string,
+      staffName: staff ? `${staff.first_name} ${staff.last_name}` : undefined,
+      startDate: camelCaseRequest.startDate as string,
+      endDate: camelCaseRequest.endDate as string,
+      reason: camelCaseRequest.reason as string || undefined,
+      status: camelCaseRequest.status as TimeOffRequest['status'],
+      reviewedBy: camelCaseRequest.reviewedBy as string || undefined,
+      reviewNote: camelCaseRequest.reviewNote as string || undefined,
+      reviewedAt: camelCaseRequest.reviewedAt as string || undefined,
+      createdAt: camelCaseRequest.createdAt as string,
+    };
+  }
+
+  /**
+   * Transform database shift claim to API format
+   */
+  private transformShiftClaimFromDb(dbClaim: Record<string, unknown>): ShiftClaim {
+    const camelCaseClaim = this.adapter.toCamelCase(dbClaim);
+    const staff = dbClaim.staff as { first_name: string; last_name: string } | undefined;
+
+    return {
+      id: camelCaseClaim.id as string,
+      scheduleId: camelCaseClaim.scheduleId as string,
+      schedule: dbClaim.staff_schedules ? this.transformScheduleFromDb(dbClaim.staff_schedules as Record<string, unknown>) : undefined,
+      staffId: camelCaseClaim.staffId as string,
+      staffName: staff ? `${staff.first_name} ${staff.last_name}` : undefined,
+      note: camelCaseClaim.note as string || undefined,
+      status: camelCaseClaim.status as ShiftClaim['status'],
+      reviewedBy: camelCaseClaim.reviewedBy as string || undefined,
+      reviewNote: camelCaseClaim.reviewNote as string || undefined,
+      reviewedAt: camelCaseClaim.reviewedAt as string || undefined,
+      createdAt: camelCaseClaim.createdAt as string,
+    };
+  }
+
+  /**
+   * Transform database staffing settings to API format, falling back to the defaults
+   */
+  private transformStaffingSettingsFromDb(dbSettings?: Record<string, unknown>): StaffingSettings {
+    if (!dbSettings) {
+      return DEFAULT_STAFFING_SETTINGS;
+    }
+
+    const camelCaseSettings = this.adapter.toCamelCase(dbSettings);
+    return {
+      expectedFill: camelCaseSettings.expectedFill as number ?? DEFAULT_STAFFING_SETTINGS.expectedFill,
+      weeklyHourLimit: camelCaseSettings.weeklyHourLimit as number ?? DEFAULT_STAFFING_SETTINGS.weeklyHourLimit,
+      callMinutes: camelCaseSettings.callMinutes as number ?? DEFAULT_STAFFING_SETTINGS.callMinutes,
+      wrapMinutes: camelCaseSettings.wrapMinutes as number ?? DEFAULT_STAFFING_SETTINGS.wrapMinutes,
+      ratios: (camelCaseSettings.ratios as StaffingSettings['ratios']) || DEFAULT_STAFFING_SETTINGS.ratios,
+      updatedBy: camelCaseSettings.updatedBy as string || undefined,
+      updatedAt: camelCaseSettings.updatedAt as string || undefined,
+    };
+  }
+
+  /**
+   * Transform database rota template to API format
+   */
+  private transformShiftTemplateFromDb(dbTemplate: Record<string, unknown>): ShiftTemplate {
+    const camelCaseTemplate = this.adapter.toCamelCase(dbTemplate);
+
+    return {
+      id: camelCaseTemplate.id as string,
+      name: camelCaseTemplate.name as string,
+      description: camelCaseTemplate.description as string || undefined,
+      slots: (camelCaseTemplate.slots as ShiftTemplate['slots']) || [],
+      createdBy: camelCaseTemplate.createdBy as string || undefined,
+      createdAt: camelCaseTemplate.createdAt as string,
+      updatedAt: camelCaseTemplate.updatedAt as string,
+    };
+  }
+
   /**
    * Transform database time entry to API format
    */
@@ -758,6 +3557,57 @@ export class StaffService {
     };
   }
 
+  /**
+   * Transform database payroll run to API format
+   */
+  private transformPayrollRunFromDb(dbRun: Record<string, unknown>): PostedPayroll {
+    const camelCaseRun = this.adapter.toCamelCase(dbRun);
+
+    return {
+      id: camelCaseRun.id as string,
+      periodStart: camelCaseRun.periodStart as string,
+      periodEnd: camelCaseRun.periodEnd as string,
+      grossPay: Number(camelCaseRun.grossPay),
+      transactionId: camelCaseRun.transactionId as string,
+      postedBy: camelCaseRun.postedBy as string || undefined,
+      postedAt: camelCaseRun.createdAt as string,
+      run: camelCaseRun.run as PayrollRun,
+    };
+  }
+
+  /**
+   * Transform database tip pool to API format
+   */
+  private transformTipPoolFromDb(dbPool: Record<string, unknown>, payouts?: TipPayout[]): TipPool {
+    const camelCasePool = this.adapter.toCamelCase(dbPool);
+
+    return {
+      id: camelCasePool.id as string,
+      shiftStart: camelCasePool.shiftStart as string,
+      shiftEnd: camelCasePool.shiftEnd as string,
+      eventId: camelCasePool.eventId as string || undefined,
+      roles: camelCasePool.roles as string[] || [],
+      method: camelCasePool.method as TipPool['method'],
+      cashTips: Number(camelCasePool.cashTips),
+      cardTips: Number(camelCasePool.cardTips),
+      totalTips: Number(camelCasePool.totalTips),
+      notes: camelCasePool.notes as string || undefined,
+      createdBy: camelCasePool.createdBy as string || undefined,
+      createdAt: camelCasePool.createdAt as string,
+      payouts: payouts || ((camelCasePool.tipPayouts as Record<string, unknown>[]) || []).map(payout => {
+        const staff = payout.staff as { first_name?: string; last_name?: string } | null;
+        return {
+          staffId: payout.staff_id as string,
+          name: staff ? `${staff.first_name} ${staff.last_name}` : payout.staff_id as string,
+          role: payout.role as string || undefined,
+          hours: Number(payout.hours),
+          weight: Number(payout.weight),
+          amount: Number(payout.amount)
+        };
+      }),
+    };
+  }
+
   /**
    * Transform database certification to API format
    */
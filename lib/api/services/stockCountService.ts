@@ -0,0 +1,766 @@
+import { SupabaseAdapter } from '../adapters/supabaseAdapter';
+import { validateQuery, validateParams } from '../validation';
+import { UserRole } from '../auth';
+import type { ApiResponse } from '../types';
+import {
+  StartStockCountSchema,
+  RecordCountsSchema,
+  CommitStockCountSchema,
+  StockCountQuerySchema,
+  ShrinkageQuerySchema,
+  StockCountIdSchema,
+  validateStockCountBusinessRules,
+  type StartStockCountRequest,
+  type RecordCountsRequest,
+  type CommitStockCountRequest,
+  type StockCountQueryRequest,
+  type ShrinkageQuery,
+  type StockCount,
+  type StockCountLine,
+  type StockCountEntry,
+  type StockCountStatus,
+  type StockCountCommit,
+  type ShrinkageBreakdown,
+  type ShrinkageReport,
+} from '../schemas/stockCountSchemas';
+import {
+  SHRINKAGE_TRANSACTION_TYPES,
+  getLocationStock,
+  type BulkStockAdjustmentRequest,
+  type LocationStockLevel,
+  type StockTransaction,
+} from '../schemas/inventorySchemas';
+import { inventoryService } from './inventoryService';
+
+// Bulk adjustments are limited to 50 items per batch
+const ADJUSTMENT_BATCH_SIZE = 50;
+
+export class StockCountService {
+  private adapter: SupabaseAdapter;
+
+  constructor() {
+    this.adapter = new SupabaseAdapter();
+  }
+
+  /**
+   * Get stock counts, optionally by status
+   */
+  async getStockCounts(query: Partial<StockCountQueryRequest> = {}): Promise<ApiResponse<StockCount[]>> {
+    // 1. Validate query parameters
+    const validationResult = validateQuery(StockCountQuerySchema, query);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    // 2. Execute query
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'stock_counts',
+        rateLimitKey: 'inventory:counts:read',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('stock_counts', {
+          select: '*',
+          filters: { status: validationResult.data.status },
+          orderBy: { column: 'started_at', ascending: false }
+        });
+      },
+      'read'
+    );
+
+    if (response.success) {
+      const counts = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: counts.map(count => this.transformStockCountFromDb(count as Record<string, unknown>))
+      };
+    }
+    return response as ApiResponse<StockCount[]>;
+  }
+
+  /**
+   * Get a single stock count with its lines and variances
+   */
+  async getStockCountById(id: string): Promise<ApiResponse<StockCount>> {
+    // 1. Validate ID
+    const validationResult = validateParams(StockCountIdSchema, { id });
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    // 2. Execute query
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'stock_counts',
+        rateLimitKey: 'inventory:counts:read',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('stock_counts', {
+          select: '*',
+          filters: { id }
+        }).single();
+      },
+      'read'
+    );
+
+    if (response.success) {
+      return {
+        ...response,
+        data: this.transformStockCountFromDb(response.data as Record<string, unknown>)
+      };
+    }
+    return response as ApiResponse<StockCount>;
+  }
+
+  /**
+   * Start a stock count. The stock on hand of every item in scope is frozen as
+   * the expected quantity, so the count can be taken over several hours. A count
+   * of one location expects only the stock held there.
+   */
+  async startStockCount(countData: StartStockCountRequest): Promise<ApiResponse<StockCount>> {
+    // 1. Validate input data
+    const validationResult = validateParams(StartStockCountSchema, countData);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const validatedData = validationResult.data;
+
+    // 2. Freeze the expected quantity of every tracked item in scope
+    const itemsResponse = await this.getItemsInScope(validatedData);
+    if (!itemsResponse.success) {
+      return itemsResponse as unknown as ApiResponse<StockCount>;
+    }
+
+    const lines: StockCountLine[] = itemsResponse.data.map(item => {
+      const expectedLocations = this.toStockLevels(item)
+        .filter(level => !validatedData.location || level.location === validatedData.location)
+        .map(level => ({ location: level.location, quantity: level.quantity }));
+      return {
+        itemId: item.id as string,
+        name: item.name as string,
+        sku: item.sku as string || undefined,
+        categoryId: (item.categoryId || item.category) as string || undefined,
+        location: item.location as string || undefined,
+        expectedQuantity: Math.round(expectedLocations.reduce((sum, level) => sum + level.quantity, 0) * 10000) / 10000,
+        expectedLocations,
+        unitCost: Number(item.costPrice) || 0,
+        counts: []
+      };
+    });
+
+    if (lines.length === 0) {
+      return {
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/validation',
+          title: 'Nothing To Count',
+          status: 400,
+          detail: 'No stocked items match this location and category',
+          instance: '/api/inventory/stock-counts',
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
+      };
+    }
+
+    // 3. Two open counts of the same item would both correct its stock
+    const openCountsResponse = await this.getStockCounts({ status: 'in_progress' });
+    if (!openCountsResponse.success) {
+      return openCountsResponse as unknown as ApiResponse<StockCount>;
+    }
+
+    const overlapping = openCountsResponse.data.find(count =>
+      count.lines.some(line => lines.some(l => l.itemId === line.itemId))
+    );
+    if (overlapping) {
+      return {
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/conflict',
+          title: 'Count In Progress',
+          status: 409,
+          detail: `${overlapping.name} (${overlapping.countNumber}) is still counting some of these items; commit or cancel it first`,
+          instance: '/api/inventory/stock-counts',
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
+      };
+    }
+
+    // 4. Execute creation
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'stock_counts',
+        requiredRole: UserRole.STAFF,
+        rateLimitKey: 'inventory:counts:create',
+        enableLogging: true,
+      },
+      async () => {
+        const dbData = this.adapter.toSnakeCase({
+          countNumber: this.generateCountNumber(),
+          name: validatedData.name,
+          status: 'in_progress',
+          location: validatedData.location,
+          categoryId: validatedData.categoryId,
+          lines,
+          startedBy: validatedData.staffMember,
+          startedAt: new Date().toISOString(),
+        });
+
+        return this.adapter.buildQuery('stock_counts')
+          .insert([dbData])
+          .select('*');
+      },
+      'write'
+    );
+
+    if (response.success) {
+      const countArray = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: this.transformStockCountFromDb(countArray[0] as Record<string, unknown>)
+      };
+    }
+    return response as ApiResponse<StockCount>;
+  }
+
+  /**
+   * Enter counted quantities. An item kept in several places is counted per
+   * location; its counted quantity is the sum of its locations. Counts on a
+   * count of one location are taken there.
+   */
+  async recordCounts(id: string, countsData: RecordCountsRequest): Promise<ApiResponse<StockCount>> {
+    // 1. Validate input data
+    const validationResult = validateParams(RecordCountsSchema, countsData);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { counts, staffMember } = validationResult.data;
+
+    // 2. Check the count is open and covers the items
+    const countResponse = await this.getStockCountById(id);
+    if (!countResponse.success) {
+      return countResponse;
+    }
+
+    const stockCount = countResponse.data;
+    const businessRuleCheck = validateStockCountBusinessRules.canRecordCounts(stockCount, counts.map(count => count.itemId));
+    if (!businessRuleCheck.valid) {
+      return {
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/business-rule-violation',
+          title: 'Cannot Record Counts',
+          status: 400,
+          detail: businessRuleCheck.reason || 'Counts cannot be recorded on this stock count',
+          instance: `/api/inventory/stock-counts/${id}/counts`,
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
+      };
+    }
+
+    // 3. Merge the counts into the lines
+    const countedAt = new Date().toISOString();
+    const lines = stockCount.lines.map(line => {
+      const entries: StockCountEntry[] = counts
+        .filter(count => count.itemId === line.itemId)
+        .map(count => ({ location: count.location || stockCount.location, quantity: count.quantity, countedBy: staffMember, countedAt }));
+      return entries.length > 0 ? validateStockCountBusinessRules.applyCounts(line, entries) : line;
+    });
+
+    return this.updateStockCount(stockCount, { lines }, UserRole.STAFF);
+  }
+
+  /**
+   * Commit a reviewed count: every counted item whose count differs from the
+   * frozen expected quantity is adjusted by its variance in one batch, at the
+   * locations it was counted at. Stock that moved while the count was open
+   * (e.g. sales) is left in place.
+   */
+  async commitStockCount(id: string, commitData: CommitStockCountRequest = {}): Promise<ApiResponse<StockCountCommit>> {
+    // 1. Validate input data
+    const validationResult = validateParams(CommitStockCountSchema, commitData);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { reason, staffMember } = validationResult.data;
+
+    // 2. Check the count can be committed
+    const countResponse = await this.getStockCountById(id);
+    if (!countResponse.success) {
+      return countResponse as unknown as ApiResponse<StockCountCommit>;
+    }
+
+    const stockCount = countResponse.data;
+    const businessRuleCheck = validateStockCountBusinessRules.canCommit(stockCount);
+    if (!businessRuleCheck.valid) {
+      return {
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/business-rule-violation',
+          title: 'Cannot Commit Count',
+          status: 400,
+          detail: businessRuleCheck.reason || 'Stock count cannot be committed',
+          instance: `/api/inventory/stock-counts/${id}/commit`,
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
+      };
+    }
+
+    // 3. Claim the count - conditional on it being unchanged, so two managers
+    //    committing at once cannot both adjust the stock
+    const claimResponse = await this.updateStockCount(stockCount, {
+      status: 'committed',
+      committedBy: staffMember,
+      committedAt: new Date().toISOString()
+    }, UserRole.MANAGER);
+    if (!claimResponse.success) {
+      return claimResponse as unknown as ApiResponse<StockCountCommit>;
+    }
+
+    // 4. Adjust each item by its variance from where its stock stands now
+    const variances = stockCount.lines.flatMap(line =>
+      validateStockCountBusinessRules.locationVariances(line).map(variance => ({ line, ...variance }))
+    );
+    const result: StockCountCommit = { stockCount: claimResponse.data, transactions: [], failures: [] };
+    if (variances.length === 0) {
+      return {
+        ...claimResponse,
+        data: result
+      };
+    }
+
+    const stockResponse = await this.getCurrentStock(Array.from(new Set(variances.map(({ line }) => line.itemId))));
+    if (!stockResponse.success) {
+      await this.reopenStockCount(claimResponse.data);
+      return stockResponse as unknown as ApiResponse<StockCountCommit>;
+    }
+
+    const adjustments: BulkStockAdjustmentRequest['adjustments'] = variances.map(({ line, location, variance }) => {
+      const levels = stockResponse.data.get(line.itemId) || [];
+      const stock = location
+        ? levels.find(level => level.location === location)?.quantity ?? 0
+        : levels.reduce((sum, level) => sum + level.quantity, 0);
+      return {
+        inventoryId: line.itemId,
+        newQuantity: Math.round((stock + variance) * 10000) / 10000,
+        location,
+        reason: reason || `${stockCount.name}: counted ${line.countedQuantity}, expected ${line.expectedQuantity}`
+      };
+    });
+
+    for (let start = 0; start < adjustments.length; start += ADJUSTMENT_BATCH_SIZE) {
+      const batchResponse = await inventoryService.bulkAdjustStock({
+        adjustments: adjustments.slice(start, start + ADJUSTMENT_BATCH_SIZE),
+        reference: stockCount.countNumber,
+        staffMember
+      });
+      if (!batchResponse.success) {
+        // Undo the batches already posted and reopen the count so it can be committed again
+        await this.reverseAdjustments(stockCount, result.transactions, staffMember);
+        await this.reopenStockCount(claimResponse.data);
+        return batchResponse as unknown as ApiResponse<StockCountCommit>;
+      }
+      result.transactions.push(...batchResponse.data.transactions);
+      result.failures.push(...batchResponse.data.failures);
+    }
+
+    return {
+      ...claimResponse,
+      data: result
+    };
+  }
+
+  /**
+   * Abandon a stock count without touching stock
+   */
+  async cancelStockCount(id: string): Promise<ApiResponse<StockCount>> {
+    const countResponse = await this.getStockCountById(id);
+    if (!countResponse.success) {
+      return countResponse;
+    }
+
+    const stockCount = countResponse.data;
+    const businessRuleCheck = validateStockCountBusinessRules.canCancel(stockCount);
+    if (!businessRuleCheck.valid) {
+      return {
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/business-rule-violation',
+          title: 'Cannot Cancel Count',
+          status: 400,
+          detail: businessRuleCheck.reason || 'Stock count cannot be cancelled',
+          instance: `/api/inventory/stock-counts/${id}/cancel`,
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
+      };
+    }
+
+    return this.updateStockCount(stockCount, { status: 'cancelled' }, UserRole.STAFF);
+  }
+
+  /**
+   * Shrinkage and waste for a period - stock written off as damaged or expired
+   * and stock found missing by counts - by type, category and staff member.
+   * Quantities are valued at each item's costed shrinkage for the period.
+   */
+  async getShrinkageReport(query: Partial<ShrinkageQuery>): Promise<ApiResponse<ShrinkageReport>> {
+    // 1. Validate query parameters
+    const validationResult = validateQuery(ShrinkageQuerySchema, query);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { dateFrom, dateTo } = validationResult.data;
+    const method = validationResult.data.method || 'fifo';
+
+    // 2. Cost of the stock lost, per item
+    const cogsResponse = await inventoryService.getCostOfGoodsSold({ dateFrom, dateTo, method });
+    if (!cogsResponse.success) {
+      return cogsResponse as unknown as ApiResponse<ShrinkageReport>;
+    }
+
+    const unitCosts = new Map(
+      cogsResponse.data.items
+        .filter(item => item.shrinkageQuantity > 0)
+        .map(item => [item.itemId, item.shrinkageCost / item.shrinkageQuantity])
+    );
+
+    // 3. Who lost what, and from which category
+    const transactionsResponse = await this.adapter.executeQuery(
+      {
+        tableName: 'inventory_transactions',
+        rateLimitKey: 'inventory:transactions:read',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('inventory_transactions', {
+          select: 'item_id, type, quantity, staff_member, created_at'
+        })
+          .in('type', SHRINKAGE_TRANSACTION_TYPES)
+          .gte('created_at', dateFrom)
+          .lte('created_at', dateTo);
+      },
+      'read'
+    );
+
+    if (!transactionsResponse.success) {
+      return transactionsResponse as unknown as ApiResponse<ShrinkageReport>;
+    }
+
+    const transactions = (Array.isArray(transactionsResponse.data) ? transactionsResponse.data : [transactionsResponse.data])
+      .filter(Boolean)
+      .map(row => this.adapter.toCamelCase(row as Record<string, unknown>));
+
+    const itemsResponse = await this.getItemRows(Array.from(new Set(transactions.map(t => t.itemId as string))));
+    if (!itemsResponse.success) {
+      return itemsResponse as unknown as ApiResponse<ShrinkageReport>;
+    }
+
+    const categoriesResponse = await inventoryService.getCategories();
+    const categoryNames = new Map(
+      categoriesResponse.success ? categoriesResponse.data.map(category => [category.id, category.name]) : []
+    );
+    const itemCategories = new Map(
+      itemsResponse.data.map(item => [item.id as string, (item.categoryId || item.category) as string | undefined])
+    );
+
+    // 4. Aggregate
+    const byType = new Map<string, ShrinkageBreakdown>();
+    const byCategory = new Map<string, ShrinkageBreakdown>();
+    const byStaffMember = new Map<string, ShrinkageBreakdown>();
+    const addTo = (groups: Map<string, ShrinkageBreakdown>, key: string, quantity: number, cost: number) => {
+      const group = groups.get(key) || { quantity: 0, cost: 0 };
+      groups.set(key, { quantity: group.quantity + quantity, cost: group.cost + cost });
+    };
+
+    transactions.forEach(transaction => {
+      const quantity = Number(transaction.quantity) || 0;
+      const cost = quantity * (unitCosts.get(transaction.itemId as string) || 0);
+      addTo(byType, transaction.type as string, quantity, cost);
+      addTo(byCategory, itemCategories.get(transaction.itemId as string) || '', quantity, cost);
+      addTo(byStaffMember, transaction.staffMember as string || 'Unrecorded', quantity, cost);
+    });
+
+    const round = (breakdown: ShrinkageBreakdown): ShrinkageBreakdown => ({
+      quantity: Math.round(breakdown.quantity * 10000) / 10000,
+      cost: Math.round(breakdown.cost * 100) / 100
+    });
+    const byCost = (a: ShrinkageBreakdown, b: ShrinkageBreakdown) => b.cost - a.cost;
+
+    return {
+      ...transactionsResponse,
+      data: {
+        dateRange: { start: dateFrom, end: dateTo },
+        method,
+        total: cogsResponse.data.shrinkage,
+        byType: Array.from(byType.entries()).map(([type, breakdown]) => ({ type, ...round(breakdown) })).sort(byCost),
+        byCategory: Array.from(byCategory.entries())
+          .map(([categoryId, breakdown]) => ({
+            categoryId: categoryId || undefined,
+            categoryName: categoryNames.get(categoryId) || 'Uncategorized',
+            ...round(breakdown)
+          }))
+          .sort(byCost),
+        byStaffMember: Array.from(byStaffMember.entries())
+          .map(([staffMember, breakdown]) => ({ staffMember, ...round(breakdown) }))
+          .sort(byCost)
+      }
+    };
+  }
+
+  /**
+   * Load the tracked, active items a count covers (camelCased rows)
+   */
+  private async getItemsInScope(scope: StartStockCountRequest): Promise<ApiResponse<Record<string, unknown>[]>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'inventory_items',
+        rateLimitKey: 'inventory:read',
+        enableLogging: false,
+      },
+      async () => {
+        const query = this.adapter.buildQuery('inventory_items', {
+          select: '*',
+          filters: { location: scope.location },
+          orderBy: { column: 'name', ascending: true }
+        });
+        return scope.itemIds ? query.in('id', scope.itemIds) : query;
+      },
+      'read'
+    );
+
+    if (response.success) {
+      const items = (Array.isArray(response.data) ? response.data : [response.data])
+        .filter(Boolean)
+        .map(item => this.adapter.toCamelCase(item as Record<string, unknown>))
+        .filter(item =>
+          item.isActive !== false &&
+          item.trackStock !== false &&
+          (!item.status || item.status === 'active') &&
+          (!scope.categoryId || (item.categoryId || item.category) === scope.categoryId)
+        );
+      return {
+        ...response,
+        data: items
+      };
+    }
+    return response as ApiResponse<Record<string, unknown>[]>;
+  }
+
+  /**
+   * Load raw inventory rows (camelCased) for a set of items
+   */
+  private async getItemRows(itemIds: string[]): Promise<ApiResponse<Record<string, unknown>[]>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'inventory_items',
+        rateLimitKey: 'inventory:read',
+        enableLogging: false,
+      },
+      async () => {
+        return this.adapter.buildQuery('inventory_items', { select: '*' })
+          .in('id', itemIds);
+      },
+      'read'
+    );
+
+    if (response.success) {
+      const items = Array.isArray(response.data) ? response.data : [response.data];
+      return {
+        ...response,
+        data: items.filter(Boolean).map(item => this.adapter.toCamelCase(item as Record<string, unknown>))
+      };
+    }
+    return response as ApiResponse<Record<string, unknown>[]>;
+  }
+
+  /**
+   * Stock on hand now, per item and location
+   */
+  private async getCurrentStock(itemIds: string[]): Promise<ApiResponse<Map<string, LocationStockLevel[]>>> {
+    const rowsResponse = await this.getItemRows(itemIds);
+    if (rowsResponse.success) {
+      return {
+        ...rowsResponse,
+        data: new Map(rowsResponse.data.map(item => [item.id as string, this.toStockLevels(item)]))
+      };
+    }
+    return rowsResponse as unknown as ApiResponse<Map<string, LocationStockLevel[]>>;
+  }
+
+  /**
+   * Stock per location of a raw inventory row (camelCased)
+   */
+  private toStockLevels(item: Record<string, unknown>): LocationStockLevel[] {
+    return getLocationStock({
+      currentStock: Number(item.currentStock) || 0,
+      location: item.location as string || undefined,
+      locationStock: item.locationStock as LocationStockLevel[] || []
+    });
+  }
+
+  /**
+   * Take back the adjustments of a commit that could not be completed
+   */
+  private async reverseAdjustments(stockCount: StockCount, transactions: StockTransaction[], staffMember?: string): Promise<void> {
+    for (const transaction of transactions) {
+      // The inventory service returns its transactions camelCased
+      const { itemId, type, quantity, location } = transaction as StockTransaction & { itemId: string; type: string };
+      await inventoryService.createTransaction({
+        inventoryId: itemId,
+        type: type === 'adjustment_positive' ? 'adjustment_negative' : 'adjustment_positive',
+        quantity,
+        reason: `${stockCount.name}: commit reversed`,
+        reference: stockCount.countNumber,
+        staffMember,
+        location
+      });
+    }
+  }
+
+  /**
+   * Put a claimed count back in progress
+   */
+  private async reopenStockCount(stockCount: StockCount): Promise<void> {
+    await this.updateStockCount(stockCount, {
+      status: 'in_progress',
+      committedBy: null,
+      committedAt: null
+    }, UserRole.MANAGER);
+  }
+
+  /**
+   * Apply changes to a stock count if nobody else changed it since it was read
+   */
+  private async updateStockCount(
+    stockCount: StockCount,
+    changes: Partial<Pick<StockCount, 'status' | 'lines'>> & { committedBy?: string | null; committedAt?: string | null },
+    requiredRole: UserRole
+  ): Promise<ApiResponse<StockCount>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'stock_counts',
+        requiredRole,
+        rateLimitKey: 'inventory:counts:update',
+        enableLogging: true,
+      },
+      async () => {
+        const dbUpdates = this.adapter.toSnakeCase({
+          ...changes,
+          // Derived figures are recalculated on read
+          lines: changes.lines?.map(line => ({
+            itemId: line.itemId,
+            name: line.name,
+            sku: line.sku,
+            categoryId: line.categoryId,
+            location: line.location,
+            expectedQuantity: line.expectedQuantity,
+            expectedLocations: line.expectedLocations,
+            unitCost: line.unitCost,
+            counts: line.counts
+          })),
+          updatedAt: new Date().toISOString()
+        });
+
+        return this.adapter.buildQuery('stock_counts')
+          .update(dbUpdates)
+          .eq('id', stockCount.id)
+          .eq('updated_at', stockCount.updatedAt)
+          .select('*');
+      },
+      'write'
+    );
+
+    if (!response.success) {
+      return response as ApiResponse<StockCount>;
+    }
+
+    const countArray = Array.isArray(response.data) ? response.data : [response.data];
+    if (countArray.length === 0 || !countArray[0]) {
+      return {
+        success: false,
+        error: {
+          type: 'https://docs.trainstation-dashboard.com/errors/conflict',
+          title: 'Stock Count Changed',
+          status: 409,
+          detail: 'The stock count was updated by someone else, reload it and try again',
+          instance: `/api/inventory/stock-counts/${stockCount.id}`,
+          timestamp: new Date().toISOString()
+        },
+        meta: {
+          requestId: crypto.randomUUID(),
+          source: 'validation'
+        }
+      };
+    }
+
+    return {
+      ...response,
+      data: this.transformStockCountFromDb(countArray[0] as Record<string, unknown>)
+    };
+  }
+
+  /**
+   * Human-friendly count number, e.g. SC-20240601-4F2A
+   */
+  private generateCountNumber(): string {
+    const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+    return `SC-${date}-${crypto.randomUUID().slice(0, 4).toUpperCase()}`;
+  }
+
+  /**
+   * Transform database stock count to API format, with variances worked out
+   */
+  private transformStockCountFromDb(dbCount: Record<string, unknown>): StockCount {
+    const camelCaseCount = this.adapter.toCamelCase(dbCount);
+    const lines = ((camelCaseCount.lines as StockCountLine[]) || [])
+      .map(line => validateStockCountBusinessRules.calculateVariance({ ...line, counts: line.counts || [] }));
+    const countedLines = lines.filter(line => line.countedQuantity !== undefined);
+
+    return {
+      id: camelCaseCount.id as string,
+      countNumber: camelCaseCount.countNumber as string,
+      name: camelCaseCount.name as string,
+      status: camelCaseCount.status as StockCountStatus,
+      location: camelCaseCount.location as string || undefined,
+      categoryId: camelCaseCount.categoryId as string || undefined,
+      lines,
+      startedBy: camelCaseCount.startedBy as string || undefined,
+      startedAt: camelCaseCount.startedAt as string,
+      committedBy: camelCaseCount.committedBy as string || undefined,
+      committedAt: camelCaseCount.committedAt as string || undefined,
+      createdAt: camelCaseCount.createdAt as string,
+      updatedAt: camelCaseCount.updatedAt as string,
+      countedItems: countedLines.length,
+      uncountedItems: lines.length - countedLines.length,
+      totalVarianceValue: Math.round(countedLines.reduce((sum, line) => sum + (line.varianceValue || 0), 0) * 100) / 100,
+    };
+  }
+}
+
+// Export a singleton instance
+export const stockCountService = new StockCountService();
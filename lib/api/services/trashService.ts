@@ -0,0 +1,640 @@
+import { SupabaseAdapter } from '../adapters/supabaseAdapter';
+import { validateQuery, validateParams } from '../validation';
+import { UserRole } from '../auth';
+import type { ApiResponse } from '../types';
+import {
+  TrashEntryIdSchema,
+  TrashQuerySchema,
+  RetentionPolicySchema,
+  TRASH_RELATIONS,
+  DEFAULT_RETENTION_DAYS,
+  calculatePurgeDate,
+  type TrashQueryRequest,
+  type TrashEntityType,
+  type TrashEntry,
+  type TrashedRelatedRows,
+  type MoveToTrashRequest,
+  type RetentionPolicy,
+  type RetentionPolicyRequest,
+  type PurgeResult,
+} from '../schemas/trashSchemas';
+
+// The trash bin keeps a single settings row
+const SETTINGS_ID = 'default';
+
+export class TrashService {
+  private adapter: SupabaseAdapter;
+
+  constructor() {
+    this.adapter = new SupabaseAdapter();
+  }
+
+  /**
+   * Get soft-deleted records of every type, most recently deleted first
+   */
+  async getTrash(query: Partial<TrashQueryRequest> = {}): Promise<ApiResponse<TrashEntry[]>> {
+    // 1. Validate query parameters
+    const validationResult = validateQuery(TrashQuerySchema, query);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const { entityType, search } = validationResult.data;
+
+    // 2. Purge dates depend on the retention policy
+    const policyResponse = await this.getRetentionPolicy();
+    if (!policyResponse.success) {
+      return policyResponse as unknown as ApiResponse<TrashEntry[]>;
+    }
+
+    // 3. Execute query
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'trash_entries',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'trash:read',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('trash_entries', {
+          select: '*',
+          filters: { entity_type: entityType },
+          orderBy: { column: 'deleted_at', ascending: false }
+        });
+      },
+      'read'
+    );
+
+    if (response.success) {
+      const term = search?.toLowerCase();
+      const entries = (Array.isArray(response.data) ? response.data : [response.data])
+        .map(entry => this.transformTrashEntryFromDb(entry as Record<string, unknown>, policyResponse.data.retentionDays))
+        .filter(entry => !term || entry.label.toLowerCase().includes(term) || !!entry.deletedByEmail?.toLowerCase().includes(term));
+
+      return {
+        ...response,
+        data: entries
+      };
+    }
+    return response as ApiResponse<TrashEntry[]>;
+  }
+
+  /**
+   * Put a record in the trash bin and hide its related rows. Called by the
+   * entity services before they soft delete the record, so a hidden record
+   * always has an entry; if the soft delete fails, discardTrashEntry undoes this.
+   */
+  async moveToTrash(request: MoveToTrashRequest): Promise<ApiResponse<TrashEntry>> {
+    const deletedAt = new Date().toISOString();
+    const actor = await this.adapter.getCurrentUser();
+
+    // 1. Record the trash entry
+    const entryResponse = await this.adapter.executeQuery(
+      {
+        tableName: 'trash_entries',
+        rateLimitKey: 'trash:write',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('trash_entries')
+          .insert([{
+            entity_type: request.entityType,
+            entity_id: request.entityId,
+            label: request.label,
+            restore_values: request.restoreValues,
+            deleted_values: request.deletedValues,
+            related: [],
+            deleted_by: actor?.id || null,
+            deleted_by_email: actor?.email || null,
+            deleted_at: deletedAt
+          }])
+          .select('*');
+      },
+      'write'
+    );
+
+    if (!entryResponse.success) {
+      return entryResponse as ApiResponse<TrashEntry>;
+    }
+    const entryArray = Array.isArray(entryResponse.data) ? entryResponse.data : [entryResponse.data];
+    const entry = this.transformTrashEntryFromDb(entryArray[0] as Record<string, unknown>, DEFAULT_RETENTION_DAYS);
+
+    // 2. Hide related rows, keeping their IDs so exactly these come back on restore
+    const related: TrashedRelatedRows[] = [];
+    for (const relation of TRASH_RELATIONS[request.entityType]) {
+      const response = await this.adapter.executeQuery(
+        {
+          tableName: relation.table,
+          rateLimitKey: 'trash:write',
+          enableLogging: true,
+        },
+        async () => {
+          let query = this.adapter.buildQuery(relation.table)
+            .update({ deleted_at: deletedAt })
+            .eq(relation.foreignKey, request.entityId)
+            .is('deleted_at', null);
+
+          if (relation.fromColumn) {
+            query = query.gte(relation.fromColumn, deletedAt);
+          }
+
+          return query.select('id');
+        },
+        'write'
+      );
+
+      // Nothing to hide comes back as not found
+      if (response.success) {
+        const rows = (Array.isArray(response.data) ? response.data : [response.data]) as { id: string }[];
+        related.push({ table: relation.table, ids: rows.map(row => row.id) });
+      }
+    }
+
+    // 3. Remember the hidden rows on the entry
+    const hidden = related.filter(rows => rows.ids.length > 0);
+    if (hidden.length === 0) {
+      return { ...entryResponse, data: entry };
+    }
+
+    const relatedResponse = await this.adapter.executeQuery(
+      {
+        tableName: 'trash_entries',
+        rateLimitKey: 'trash:write',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('trash_entries')
+          .update({ related: hidden })
+          .eq('id', entry.id)
+          .select('id');
+      },
+      'write'
+    );
+
+    if (!relatedResponse.success) {
+      await this.updateRelatedRows(entry, hidden, 'restore');
+      await this.removeTrashEntry(entry.id);
+      return relatedResponse as unknown as ApiResponse<TrashEntry>;
+    }
+
+    return {
+      ...entryResponse,
+      data: { ...entry, related: hidden }
+    };
+  }
+
+  /**
+   * Take back a trash entry whose record could not be soft deleted: its
+   * related rows come back and the entry is removed
+   */
+  async discardTrashEntry(entry: TrashEntry): Promise<ApiResponse<{ removed: boolean }>> {
+    const relatedResponse = await this.updateRelatedRows(entry, entry.related, 'restore');
+    if (!relatedResponse.success) {
+      return relatedResponse as unknown as ApiResponse<{ removed: boolean }>;
+    }
+
+    return this.removeTrashEntry(entry.id);
+  }
+
+  /**
+   * Restore a record from the trash bin together with the related rows that
+   * were hidden when it was deleted. Restoring an entry whose record is
+   * already back only brings back its rows and removes the entry.
+   */
+  async restoreFromTrash(id: string): Promise<ApiResponse<TrashEntry>> {
+    // 1. Validate ID
+    const validationResult = validateParams(TrashEntryIdSchema, { id });
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    // 2. Load the trash entry
+    const entryResponse = await this.getTrashEntry(id);
+    if (!entryResponse.success) {
+      return entryResponse;
+    }
+    const entry = entryResponse.data;
+
+    // 3. Put the record back the way it was, unless an earlier restore already did
+    const deletedResponse = await this.isStillDeleted(entry, 'trash:restore');
+    if (!deletedResponse.success) {
+      return deletedResponse as unknown as ApiResponse<TrashEntry>;
+    }
+
+    const restoreRecord = deletedResponse.data;
+    if (restoreRecord) {
+      const restoreResponse = await this.setRecordValues(entry, entry.restoreValues);
+      if (!restoreResponse.success) {
+        return restoreResponse as unknown as ApiResponse<TrashEntry>;
+      }
+    }
+
+    // 4. Bring back the related rows. If some cannot come back, the record and
+    // its rows are hidden again so the entry can be restored later as a whole
+    const relatedResponse = await this.updateRelatedRows(entry, entry.related, 'restore');
+    if (!relatedResponse.success) {
+      await this.updateRelatedRows(entry, entry.related, 'hide');
+      if (restoreRecord) {
+        await this.setRecordValues(entry, entry.deletedValues);
+      }
+      return relatedResponse as unknown as ApiResponse<TrashEntry>;
+    }
+
+    // 5. Remove the entry from the trash bin. The record is back either way, so a
+    // failure here is not reported: an entry left behind is removed by restoring
+    // it again or by the next purge, which both leave the restored record alone
+    await this.removeTrashEntry(entry.id);
+
+    return {
+      ...relatedResponse,
+      data: entry
+    } as unknown as ApiResponse<TrashEntry>;
+  }
+
+  /**
+   * Permanently delete records that have been in the trash bin longer than
+   * the retention period. Records that were reactivated outside the trash bin
+   * are kept and only their entry is removed.
+   */
+  async purgeExpired(): Promise<ApiResponse<PurgeResult>> {
+    // 1. Work out the cut-off from the retention policy
+    const policyResponse = await this.getRetentionPolicy();
+    if (!policyResponse.success) {
+      return policyResponse as unknown as ApiResponse<PurgeResult>;
+    }
+    const cutoff = calculatePurgeDate(new Date().toISOString(), -policyResponse.data.retentionDays);
+
+    // 2. Find expired entries
+    const expiredResponse = await this.adapter.executeQuery(
+      {
+        tableName: 'trash_entries',
+        requiredRole: UserRole.ADMIN,
+        rateLimitKey: 'trash:purge',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('trash_entries', {
+          select: '*',
+          orderBy: { column: 'deleted_at', ascending: true }
+        }).lte('deleted_at', cutoff);
+      },
+      'read'
+    );
+
+    if (!expiredResponse.success) {
+      return expiredResponse as unknown as ApiResponse<PurgeResult>;
+    }
+
+    const expired = (Array.isArray(expiredResponse.data) ? expiredResponse.data : [expiredResponse.data])
+      .map(entry => this.transformTrashEntryFromDb(entry as Record<string, unknown>, policyResponse.data.retentionDays));
+
+    // 3. Purge one entry at a time so a failure leaves the others unaffected
+    const result: PurgeResult = { purged: 0, skipped: 0, failures: [] };
+    for (const entry of expired) {
+      const purgeResponse = await this.purgeEntry(entry);
+      if (!purgeResponse.success) {
+        result.failures.push({ entryId: entry.id, reason: purgeResponse.error.detail });
+      } else if (purgeResponse.data.purged) {
+        result.purged++;
+      } else {
+        result.skipped++;
+      }
+    }
+
+    return {
+      success: true,
+      data: result,
+      meta: {
+        requestId: crypto.randomUUID(),
+        source: 'calculation'
+      }
+    } as unknown as ApiResponse<PurgeResult>;
+  }
+
+  /**
+   * Get how long deleted records are kept before they are purged
+   */
+  async getRetentionPolicy(): Promise<ApiResponse<RetentionPolicy>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'trash_settings',
+        rateLimitKey: 'trash:read',
+        enableLogging: false,
+      },
+      async () => {
+        return this.adapter.buildQuery('trash_settings', {
+          select: '*',
+          filters: { id: SETTINGS_ID },
+          limit: 1
+        });
+      },
+      'read'
+    );
+
+    if (response.success) {
+      const settings = (Array.isArray(response.data) ? response.data : [response.data]) as Record<string, unknown>[];
+      return {
+        ...response,
+        data: this.transformRetentionPolicyFromDb(settings[0])
+      };
+    }
+    return response as ApiResponse<RetentionPolicy>;
+  }
+
+  /**
+   * Change how long deleted records are kept (admin only)
+   */
+  async updateRetentionPolicy(policy: RetentionPolicyRequest): Promise<ApiResponse<RetentionPolicy>> {
+    // 1. Validate input data
+    const validationResult = validateParams(RetentionPolicySchema, policy);
+    if (!validationResult.success) {
+      return validationResult.error;
+    }
+
+    const actor = await this.adapter.getCurrentUser();
+
+    // 2. Execute query
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'trash_settings',
+        requiredRole: UserRole.ADMIN,
+        rateLimitKey: 'trash:settings',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('trash_settings')
+          .upsert([{
+            id: SETTINGS_ID,
+            retention_days: validationResult.data.retentionDays,
+            updated_by: actor?.email || actor?.id || null,
+            updated_at: new Date().toISOString()
+          }])
+          .select('*');
+      },
+      'write'
+    );
+
+    if (response.success) {
+      const settings = (Array.isArray(response.data) ? response.data : [response.data]) as Record<string, unknown>[];
+      return {
+        ...response,
+        data: this.transformRetentionPolicyFromDb(settings[0])
+      };
+    }
+    return response as ApiResponse<RetentionPolicy>;
+  }
+
+  /**
+   * Get a single trash entry
+   */
+  private async getTrashEntry(id: string): Promise<ApiResponse<TrashEntry>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'trash_entries',
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'trash:read',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('trash_entries', {
+          select: '*',
+          filters: { id }
+        }).single();
+      },
+      'read'
+    );
+
+    if (response.success) {
+      return {
+        ...response,
+        data: this.transformTrashEntryFromDb(response.data as Record<string, unknown>, DEFAULT_RETENTION_DAYS)
+      };
+    }
+    return response as ApiResponse<TrashEntry>;
+  }
+
+  /**
+   * Permanently delete one record and its hidden related rows, as long as
+   * the record is still in its deleted state
+   */
+  private async purgeEntry(entry: TrashEntry): Promise<ApiResponse<{ purged: boolean }>> {
+    // 1. Check the record was not reactivated since it was deleted
+    const stillDeleted = await this.isStillDeleted(entry, 'trash:purge');
+    if (!stillDeleted.success) {
+      return stillDeleted as unknown as ApiResponse<{ purged: boolean }>;
+    }
+
+    const purge = stillDeleted.data;
+    if (purge) {
+      // 2. Delete or archive the related rows first so foreign keys do not block the record
+      const relatedResponse = await this.updateRelatedRows(entry, entry.related, 'purge');
+      if (!relatedResponse.success) {
+        return relatedResponse as unknown as ApiResponse<{ purged: boolean }>;
+      }
+
+      const deleteResponse = await this.adapter.executeQuery(
+        {
+          tableName: entry.entityType,
+          requiredRole: UserRole.ADMIN,
+          rateLimitKey: 'trash:purge',
+          enableLogging: true,
+        },
+        async () => {
+          return this.adapter.buildQuery(entry.entityType)
+            .delete()
+            .eq('id', entry.entityId)
+            .select('id');
+        },
+        'write'
+      );
+
+      if (!deleteResponse.success) {
+        return deleteResponse as unknown as ApiResponse<{ purged: boolean }>;
+      }
+    } else {
+      // 2. The record is in use again, so its related rows are too
+      const relatedResponse = await this.updateRelatedRows(entry, entry.related, 'restore');
+      if (!relatedResponse.success) {
+        return relatedResponse as unknown as ApiResponse<{ purged: boolean }>;
+      }
+    }
+
+    // 3. Remove the trash entry
+    const removeResponse = await this.removeTrashEntry(entry.id);
+    if (!removeResponse.success) {
+      return removeResponse as unknown as ApiResponse<{ purged: boolean }>;
+    }
+
+    return {
+      ...removeResponse,
+      data: { purged: purge }
+    };
+  }
+
+  /**
+   * Whether a trashed record is still in its deleted state
+   */
+  private async isStillDeleted(entry: TrashEntry, rateLimitKey: string): Promise<ApiResponse<boolean>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: entry.entityType,
+        rateLimitKey,
+        enableLogging: false,
+      },
+      async () => {
+        return this.adapter.buildQuery(entry.entityType, { select: 'id' })
+          .eq('id', entry.entityId)
+          .match(entry.deletedValues);
+      },
+      'read'
+    );
+
+    if (response.success) {
+      return {
+        ...response,
+        data: Array.isArray(response.data) && response.data.length > 0
+      };
+    }
+    return response as ApiResponse<boolean>;
+  }
+
+  /**
+   * Write the restore or deleted values of a trash entry to its record
+   */
+  private async setRecordValues(entry: TrashEntry, values: Record<string, unknown>): Promise<ApiResponse<unknown>> {
+    return this.adapter.executeQuery(
+      {
+        tableName: entry.entityType,
+        requiredRole: UserRole.MANAGER,
+        rateLimitKey: 'trash:restore',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery(entry.entityType)
+          .update({ ...values, updated_at: new Date().toISOString() })
+          .eq('id', entry.entityId)
+          .select('id');
+      },
+      'write'
+    );
+  }
+
+  /**
+   * Un-hide, hide again or permanently delete the related rows of a trash entry.
+   * Rows of a relation kept as history are archived under the record's label
+   * instead of being deleted.
+   */
+  private async updateRelatedRows(
+    entry: TrashEntry,
+    related: TrashedRelatedRows[],
+    action: 'restore' | 'hide' | 'purge'
+  ): Promise<ApiResponse<{ updated: number }>> {
+    let updated = 0;
+    for (const rows of related.filter(rows => rows.ids.length > 0)) {
+      const archiveColumn = TRASH_RELATIONS[entry.entityType].find(relation => relation.table === rows.table)?.archiveColumn;
+      const response = await this.adapter.executeQuery(
+        {
+          tableName: rows.table,
+          rateLimitKey: `trash:${action}`,
+          enableLogging: true,
+        },
+        async () => {
+          const query = this.adapter.buildQuery(rows.table);
+          if (action === 'restore') {
+            return query.update({ deleted_at: null }).in('id', rows.ids).select('id');
+          }
+          if (action === 'hide') {
+            return query.update({ deleted_at: entry.deletedAt }).in('id', rows.ids).select('id');
+          }
+          return archiveColumn
+            ? query.update({ [archiveColumn]: entry.label }).in('id', rows.ids).select('id')
+            : query.delete().in('id', rows.ids).select('id');
+        },
+        'write'
+      );
+
+      if (!response.success) {
+        return response as unknown as ApiResponse<{ updated: number }>;
+      }
+      updated += Array.isArray(response.data) ? response.data.length : 1;
+    }
+
+    return {
+      success: true,
+      data: { updated },
+      meta: {
+        requestId: crypto.randomUUID(),
+        source: 'calculation'
+      }
+    } as unknown as ApiResponse<{ updated: number }>;
+  }
+
+  /**
+   * Remove an entry from the trash bin
+   */
+  private async removeTrashEntry(id: string): Promise<ApiResponse<{ removed: boolean }>> {
+    const response = await this.adapter.executeQuery(
+      {
+        tableName: 'trash_entries',
+        rateLimitKey: 'trash:write',
+        enableLogging: true,
+      },
+      async () => {
+        return this.adapter.buildQuery('trash_entries')
+          .delete()
+          .eq('id', id)
+          .select('id');
+      },
+      'write'
+    );
+
+    if (response.success) {
+      return {
+        ...response,
+        data: { removed: true }
+      };
+    }
+    return response as ApiResponse<{ removed: boolean }>;
+  }
+
+  /**
+   * Transform database trash entry to API format
+   */
+  private transformTrashEntryFromDb(dbEntry: Record<string, unknown>, retentionDays: number): TrashEntry {
+    const camelCaseEntry = this.adapter.toCamelCase(dbEntry);
+
+    return {
+      id: camelCaseEntry.id as string,
+      entityType: camelCaseEntry.entityType as TrashEntityType,
+      entityId: camelCaseEntry.entityId as string,
+      label: camelCaseEntry.label as string,
+      restoreValues: (camelCaseEntry.restoreValues as Record<string, unknown>) || {},
+      deletedValues: (camelCaseEntry.deletedValues as Record<string, unknown>) || {},
+      related: (camelCaseEntry.related as TrashedRelatedRows[]) || [],
+      deletedBy: camelCaseEntry.deletedBy as string || undefined,
+      deletedByEmail: camelCaseEntry.deletedByEmail as string || undefined,
+      deletedAt: camelCaseEntry.deletedAt as string,
+      purgeAt: calculatePurgeDate(camelCaseEntry.deletedAt as string, retentionDays),
+    };
+  }
+
+  /**
+   * Transform database trash settings to API format, with the default
+   * retention when none has been set
+   */
+  private transformRetentionPolicyFromDb(dbSettings?: Record<string, unknown>): RetentionPolicy {
+    if (!dbSettings) {
+      return { retentionDays: DEFAULT_RETENTION_DAYS };
+    }
+
+    const camelCaseSettings = this.adapter.toCamelCase(dbSettings);
+    return {
+      retentionDays: camelCaseSettings.retentionDays as number || DEFAULT_RETENTION_DAYS,
+      updatedBy: camelCaseSettings.updatedBy as string || undefined,
+      updatedAt: camelCaseSettings.updatedAt as string || undefined,
+    };
+  }
+}
+
+// Export a singleton instance
+export const trashService = new TrashService();
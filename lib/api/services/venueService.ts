@@ -5,7 +5,7 @@
 
 import { supabase } from '../../supabase';
 import { VenueSchema, ValidationMiddleware } from '../validation';
-import { ApiErrorBase, NotFoundError, ValidationErrorClass } from '../errors';
+import { ApiErrorBase, ConflictError, NotFoundError, ValidationErrorClass } from '../errors';
 import { ApiResponse, buildSuccessResponse, buildPaginationMeta } from '../types';
 import { generateRequestId } from '../types';
 
@@ -181,9 +181,10 @@ export class VenueService {
   }
 
   /**
-   * Update an existing venue
+   * Update an existing venue. expectedUpdatedAt is the venue's updated_at as it
+   * was read; the update is refused (409) if the venue changed since.
    */
-  async updateVenue(id: string, venueData: unknown): Promise<ApiResponse<Venue>> {
+  async updateVenue(id: string, venueData: unknown, expectedUpdatedAt: string): Promise<ApiResponse<Venue>> {
     const requestId = generateRequestId();
 
     try {
@@ -234,9 +235,15 @@ export class VenueService {
         .from('venues')
         .update(updateData)
         .eq('id', id)
+        .eq('updated_at', expectedUpdatedAt)
         .select()
         .single();
 
+      // The venue was found above, so no row at the version read means it changed since
+      if (error?.code === 'PGRST116') {
+        throw new ConflictError('venue');
+      }
+
       if (error) {
         throw new ApiErrorBase('EXTERNAL_SERVICE_ERROR', `Database error: ${error.message}`);
       }
@@ -313,7 +320,7 @@ export class VenueService {
   /**
    * Bulk operations
    */
-  async bulkUpdateVenues(updates: Array<{ id: string; data: unknown }>): Promise<ApiResponse<Venue[]>> {
+  async bulkUpdateVenues(updates: Array<{ id: string; data: unknown; expectedUpdatedAt: string }>): Promise<ApiResponse<Venue[]>> {
     const requestId = generateRequestId();
 
     try {
@@ -340,7 +347,7 @@ export class VenueService {
       // Process updates sequentially to maintain consistency
       for (const update of updates) {
         try {
-          const result = await this.updateVenue(update.id, update.data);
+          const result = await this.updateVenue(update.id, update.data, update.expectedUpdatedAt);
           results.push(result.data);
         } catch (error) {
           // Continue with other updates but log the error
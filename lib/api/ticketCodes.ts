@@ -0,0 +1,86 @@
+/**
+ * Ticket Codes
+ * Signs and verifies the codes printed as QR on tickets for Train Station Dashboard
+ *
+ * A code has the form `TS1.<ticketId>.<eventId>.<signature>` where the signature
+ * is an HMAC-SHA256 over the first three parts. The database signs the code as
+ * each ticket is inserted, keyed by the same secret the API edge function
+ * verifies with; scanners match codes against the issued guest list and never
+ * need the secret.
+ */
+
+export const TICKET_CODE_VERSION = 'TS1';
+
+export interface ParsedTicketCode {
+  ticketId: string;
+  eventId: string;
+  signature: string;
+}
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const sign = async (payload: string, secret: string): Promise<string> => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+  return toBase64Url(new Uint8Array(signature));
+};
+
+// Compare without short-circuiting so timing does not leak the signature
+const constantTimeEquals = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+/**
+ * Split a scanned code into its parts, or null if it is not a ticket code
+ */
+export const parseTicketCode = (code: string): ParsedTicketCode | null => {
+  const parts = code.trim().split('.');
+  if (parts.length !== 4 || parts[0] !== TICKET_CODE_VERSION) {
+    return null;
+  }
+
+  const [, ticketId, eventId, signature] = parts;
+  if (!ticketId || !eventId || !signature) {
+    return null;
+  }
+
+  return { ticketId, eventId, signature };
+};
+
+/**
+ * Produce the signed code for a ticket
+ */
+export const signTicketCode = async (ticketId: string, eventId: string, secret: string): Promise<string> => {
+  const payload = `${TICKET_CODE_VERSION}.${ticketId}.${eventId}`;
+  return `${payload}.${await sign(payload, secret)}`;
+};
+
+/**
+ * Check a code's signature. Returns the parsed code when it is authentic.
+ */
+export const verifyTicketCode = async (code: string, secret: string): Promise<ParsedTicketCode | null> => {
+  const parsed = parseTicketCode(code);
+  if (!parsed) {
+    return null;
+  }
+
+  const expected = await sign(`${TICKET_CODE_VERSION}.${parsed.ticketId}.${parsed.eventId}`, secret);
+  return constantTimeEquals(expected, parsed.signature) ? parsed : null;
+};
@@ -16,6 +16,7 @@ export interface ResponseMeta {
   status: 'success' | 'error';
   message?: string;
   pagination?: PaginationMeta;
+  page_info?: CursorPaginationMeta;
   cache?: CacheMeta;
 }
 
@@ -28,6 +29,17 @@ export interface PaginationMeta {
   has_prev: boolean;
 }
 
+// Cursor pagination for list endpoints. Pass next_cursor back as `cursor` to
+// get the following page; rows inserted meanwhile never shift the pages
+export interface CursorPaginationMeta {
+  next_cursor: string | null;
+  has_more: boolean;
+  limit: number;
+  total_count: number | null;
+  // Large tables report the planner's row estimate instead of an exact count
+  total_is_estimate: boolean;
+}
+
 export interface CacheMeta {
   cache_hit: boolean;
   cache_ttl?: number;
@@ -104,6 +116,7 @@ export const buildSuccessResponse = <T>(
   options?: {
     message?: string;
     pagination?: PaginationMeta;
+    pageInfo?: CursorPaginationMeta;
     links?: ResponseLinks;
     cache?: CacheMeta;
   }
@@ -117,6 +130,7 @@ export const buildSuccessResponse = <T>(
       status: 'success',
       message: options?.message,
       pagination: options?.pagination,
+      page_info: options?.pageInfo,
       cache: options?.cache,
     },
     links: options?.links,
@@ -165,6 +179,21 @@ export const buildPaginationMeta = (
   };
 };
 
+export const buildCursorPaginationMeta = (
+  limit: number,
+  nextCursor: string | null,
+  totalCount: number | null,
+  totalIsEstimate = false
+): CursorPaginationMeta => {
+  return {
+    next_cursor: nextCursor,
+    has_more: nextCursor !== null,
+    limit,
+    total_count: totalCount,
+    total_is_estimate: totalIsEstimate,
+  };
+};
+
 export const buildPaginationLinks = (
   baseUrl: string,
   page: number,
@@ -117,7 +117,7 @@ const ArtistDetail: React.FC = () => {
     
     setIsSubmitting(true);
     try {
-      await updateArtist(id, formData);
+      await updateArtist(id, formData, artist.updatedAt);
       setIsEditing(false);
       toast.success('Artist updated successfully');
     } catch (error: any) {
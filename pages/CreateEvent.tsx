@@ -5,6 +5,8 @@ import { Save, ArrowLeft, Calendar, Clock, Users, DollarSign, MapPin, Image, Spa
 import { useAuth } from '../contexts/AuthContext';
 import { useAI } from '../contexts/AIContext';
 import Breadcrumbs, { useBreadcrumbs } from '../components/navigation/Breadcrumbs';
+import EventStaffingPlanner from '../components/staff/EventStaffingPlanner';
+import { useEvents } from '../hooks/useEvents';
 
 interface EventFormData {
   title: string;
@@ -23,6 +25,7 @@ const CreateEvent: React.FC = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
   const { generateContent, isProcessing } = useAI();
+  const { createEvent } = useEvents();
   const breadcrumbs = useBreadcrumbs();
 
   const [formData, setFormData] = useState<EventFormData>({
@@ -45,6 +48,8 @@ const CreateEvent: React.FC = () => {
     marketingCopy?: string;
   }>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Once saved, the event is staffed before leaving the page
+  const [createdEvent, setCreatedEvent] = useState<{ id: string; title: string } | null>(null);
 
   // Auth check
   useEffect(() => {
@@ -113,19 +118,29 @@ const CreateEvent: React.FC = () => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!formData.title || !formData.date || !formData.startTime) {
+    if (!formData.title || !formData.date || !formData.startTime || !formData.endTime) {
       toast.error('Please fill in all required fields');
       return;
     }
 
     setIsSubmitting(true);
     try {
-      // Here you would typically call an API to create the event
-      // For now, we'll simulate the process
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
+      const result = await createEvent({
+        ...formData,
+        description: formData.description || undefined,
+        genre: formData.genre || undefined,
+        image: formData.image || undefined,
+        status: 'upcoming',
+        ticketsSold: 0
+      });
+
+      if (!result.success || !result.event) {
+        toast.error(result.error?.message || 'Failed to create event');
+        return;
+      }
+
       toast.success('Event created successfully!');
-      navigate('/calendar');
+      setCreatedEvent({ id: result.event.id, title: result.event.title });
     } catch (error) {
       toast.error('Failed to create event');
     } finally {
@@ -155,6 +170,13 @@ const CreateEvent: React.FC = () => {
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Main Form */}
         <div className="lg:col-span-2">
+          {createdEvent ? (
+            <EventStaffingPlanner
+              eventId={createdEvent.id}
+              eventTitle={createdEvent.title}
+              onDone={() => navigate('/calendar')}
+            />
+          ) : (
           <form onSubmit={handleSubmit} className="space-y-6">
             <div className="bg-zinc-800/50 rounded-xl p-6 border border-zinc-700/50">
               <h2 className="text-xl font-semibold text-white mb-6 flex items-center">
@@ -315,6 +337,7 @@ const CreateEvent: React.FC = () => {
               </button>
             </div>
           </form>
+          )}
         </div>
 
         {/* AI Assistant Panel */}
@@ -22,11 +22,32 @@ import Breadcrumbs, { useBreadcrumbs } from '../components/navigation/Breadcrumb
 import { useCustomer, useCustomers, useCustomerInteractions } from '../hooks/useCRM';
 import CustomerFormModal from '../components/crm/CustomerFormModal';
 import InteractionFormModal from '../components/crm/InteractionFormModal';
+import ConflictPrompt, { type ConflictField } from '../components/ui/ConflictPrompt';
+import HistoryPanel from '../components/audit/HistoryPanel';
+import type { Customer } from '../types';
+import type { UpdateCustomerRequest } from '../lib/api/schemas/customerSchemas';
+
+type CustomerUpdates = Omit<UpdateCustomerRequest, 'id'>;
+
+const customerFields: ConflictField<CustomerUpdates>[] = [
+  { key: 'firstName', label: 'First name' },
+  { key: 'lastName', label: 'Last name' },
+  { key: 'email', label: 'Email' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'address', label: 'Address' },
+  { key: 'city', label: 'City' },
+  { key: 'state', label: 'State' },
+  { key: 'zip', label: 'ZIP' },
+  { key: 'birthday', label: 'Birthday' },
+  { key: 'notes', label: 'Notes' },
+  { key: 'tags', label: 'Tags' },
+  { key: 'marketingPreferences', label: 'Marketing preferences' }
+];
 
 const CustomerDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { data: customer, isLoading, isError } = useCustomer(id || '');
+  const { data: customer, isLoading, isError, refetch } = useCustomer(id || '');
   const { updateCustomer, deleteCustomer } = useCustomers();
   const { 
     interactions, 
@@ -41,24 +62,48 @@ const CustomerDetail: React.FC = () => {
   const [isInteractionModalOpen, setIsInteractionModalOpen] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // The customer as it was when editing started, and edits that were refused
+  // because someone else saved the customer in the meantime
+  const [editBase, setEditBase] = useState<Customer | null>(null);
+  const [conflict, setConflict] = useState<{ base: Customer; mine: CustomerUpdates } | null>(null);
 
-  // Handle updating a customer
-  const handleUpdateCustomer = async (updatedData: any) => {
+  const saveCustomer = (updates: CustomerUpdates, base: Customer) => {
     if (!id) return;
-    
+
     setIsSubmitting(true);
-    try {
-      await updateCustomer({
-        id,
-        updates: updatedData
-      });
-      setIsEditModalOpen(false);
-      toast.success('Customer updated successfully');
-    } catch (error: any) {
-      toast.error(`Error updating customer: ${error.message}`);
-    } finally {
-      setIsSubmitting(false);
-    }
+    updateCustomer({ id, updates, expectedUpdatedAt: base.updatedAt }, {
+      onSuccess: () => {
+        setIsEditModalOpen(false);
+        setConflict(null);
+      },
+      onError: (error) => {
+        if (error.type === 'conflict') {
+          setIsEditModalOpen(false);
+          setConflict({ base, mine: updates });
+          refetch();
+        }
+      },
+      onSettled: () => setIsSubmitting(false)
+    });
+  };
+
+  // Handle updating a customer
+  // The form leaves empty fields null; the service takes them as left out
+  const handleUpdateCustomer = (formData: Omit<Customer, 'id' | 'createdAt' | 'updatedAt'>) => {
+    saveCustomer({
+      firstName: formData.firstName,
+      lastName: formData.lastName,
+      email: formData.email ?? undefined,
+      phone: formData.phone ?? undefined,
+      address: formData.address ?? undefined,
+      city: formData.city ?? undefined,
+      state: formData.state ?? undefined,
+      zip: formData.zip ?? undefined,
+      birthday: formData.birthday ?? undefined,
+      notes: formData.notes ?? undefined,
+      tags: formData.tags,
+      marketingPreferences: formData.marketingPreferences
+    }, editBase || customer);
   };
 
   // Handle deleting a customer
@@ -149,7 +194,10 @@ const CustomerDetail: React.FC = () => {
         
         <div className="flex space-x-2">
           <button 
-            onClick={() => setIsEditModalOpen(true)}
+            onClick={() => {
+              setEditBase(customer);
+              setIsEditModalOpen(true);
+            }}
             className="inline-flex items-center rounded-lg bg-zinc-800 px-3 py-2 text-sm font-medium text-white hover:bg-zinc-700 focus:outline-none"
           >
             <Edit size={16} className="mr-2" />
@@ -443,6 +491,8 @@ const CustomerDetail: React.FC = () => {
               </button>
             </div>
           </div>
+
+          <HistoryPanel entityType="customers" entityId={customer.id} version={customer.updatedAt} />
         </div>
       </div>
 
@@ -457,6 +507,25 @@ const CustomerDetail: React.FC = () => {
         />
       )}
 
+      {/* Edit Conflict */}
+      {conflict && (
+        <ConflictPrompt
+          isOpen={!!conflict}
+          entityName="customer"
+          fields={customerFields}
+          base={conflict.base}
+          mine={conflict.mine}
+          latest={customer.updatedAt !== conflict.base.updatedAt ? customer : null}
+          isSubmitting={isSubmitting}
+          onMerge={(merged) => saveCustomer(merged, customer)}
+          onReload={() => {
+            setConflict(null);
+            refetch();
+          }}
+          onCancel={() => setConflict(null)}
+        />
+      )}
+
       {/* Add Interaction Modal */}
       {isInteractionModalOpen && (
         <InteractionFormModal
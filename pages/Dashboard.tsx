@@ -25,7 +25,6 @@ import {
 import { useAI } from '../contexts/AIContext';
 import { useEvents } from '../hooks/useEvents';
 import { useFinances } from '../hooks/useFinances';
-import { useLowStockItems } from '../hooks/useInventory';
 import { useLoyaltyProgram } from '../hooks/useLoyaltyProgram';
 import { 
   useDashboardMetrics, 
@@ -35,6 +34,7 @@ import {
 } from '../hooks/useAnalytics';
 import { format, isToday, isTomorrow, differenceInDays } from 'date-fns';
 import { useNavigate } from 'react-router-dom';
+import StockAlertsPanel from '../components/dashboard/StockAlertsPanel';
 import { 
   LineChart, 
   Line, 
@@ -328,7 +328,6 @@ const Dashboard: React.FC = () => {
   const { events, loading: eventsLoading } = useEvents();
   const { transactions } = useFinances();
   const { customerLoyalty, isLoadingLoyalty } = useLoyaltyProgram();
-  const { data: lowStockItems } = useLowStockItems();
   const navigate = useNavigate();
   
   // Real analytics data hooks
@@ -1025,28 +1024,8 @@ const Dashboard: React.FC = () => {
               </div>
             </div>
 
-            {/* Low Stock Alert */}
-            {Array.isArray(lowStockItems) && lowStockItems.length > 0 && (
-              <div className="rounded-xl bg-red-900/20 border border-red-500/30 p-6 shadow-xl">
-                <div className="flex items-center mb-4">
-                  <div className="rounded-full bg-red-500/20 p-2 mr-3">
-                    <AlertTriangle className="h-5 w-5 text-red-400" />
-                  </div>
-                  <h2 className="text-lg font-semibold text-white">Low Stock Alert</h2>
-                </div>
-                
-                <p className="text-sm text-red-300 mb-3">
-                  {lowStockItems.length} item{lowStockItems.length > 1 ? 's' : ''} need restocking
-                </p>
-                
-                <button 
-                  onClick={() => navigate('/inventory')}
-                  className="w-full bg-red-600/20 hover:bg-red-600/30 border border-red-500/50 text-red-300 hover:text-red-200 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
-                >
-                  View Inventory
-                </button>
-              </div>
-            )}
+            {/* Stock Alerts */}
+            <StockAlertsPanel />
           </div>
         </div>
       </div>
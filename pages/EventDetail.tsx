@@ -3,11 +3,16 @@ import { useParams, useNavigate } from 'react-router-dom';
 import { useEvent, useEvents } from '../hooks/useEvents';
 import { useEventFinances } from '../hooks/useFinances';
 import { useTickets } from '../hooks/useTicketing';
-import { Edit, Trash, DollarSign, Ticket, Calendar, Clock, ChevronLeft, Music, Users, Save, X, PlusCircle, MessageSquare, Star, ExternalLink } from 'lucide-react';
+import { Edit, Trash, DollarSign, Ticket, Calendar, Clock, ChevronLeft, Music, Users, Save, X, PlusCircle, MessageSquare, Star, ExternalLink, QrCode } from 'lucide-react';
 import { format } from 'date-fns';
 import { toast } from 'react-hot-toast';
 import AddTicketModal from '../components/tickets/AddTicketModal';
+import TicketHoldsPanel from '../components/tickets/TicketHoldsPanel';
+import HistoryPanel from '../components/audit/HistoryPanel';
+import PrintableTicket, { type PrintableTicketData } from '../components/tickets/PrintableTicket';
 import Breadcrumbs, { useBreadcrumbs } from '../components/navigation/Breadcrumbs';
+import ConflictPrompt, { type ConflictField } from '../components/ui/ConflictPrompt';
+import type { UpdateEventRequest } from '../lib/api/schemas/eventSchemas';
 
 interface Artist {
   id: string;
@@ -35,10 +40,39 @@ interface EventDetail {
   updatedAt: string;
 }
 
+// Edit form state; number inputs keep the text as typed until the event is saved
+interface EventFormData {
+  title: string;
+  description: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  genre: string;
+  image: string;
+  ticketPrice: string;
+  totalCapacity: string;
+  status: EventDetail['status'];
+}
+
+type EventUpdates = Omit<UpdateEventRequest, 'id'>;
+
+const eventFields: ConflictField<EventUpdates>[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'description', label: 'Description' },
+  { key: 'date', label: 'Date' },
+  { key: 'startTime', label: 'Start time' },
+  { key: 'endTime', label: 'End time' },
+  { key: 'genre', label: 'Genre' },
+  { key: 'image', label: 'Image' },
+  { key: 'ticketPrice', label: 'Ticket price' },
+  { key: 'totalCapacity', label: 'Capacity' },
+  { key: 'status', label: 'Status' }
+];
+
 const EventDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { data: event, isLoading, isError } = useEvent(id || '');
+  const { data: event, isLoading, isError, refetch: refetchEvent } = useEvent(id || '');
   const { updateEvent, deleteEvent } = useEvents();
   const { tickets, isLoading: isLoadingTickets, createTicket } = useTickets(id);
   const { 
@@ -56,10 +90,15 @@ const EventDetail: React.FC = () => {
   const [isEditing, setIsEditing] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [showAddTicketModal, setShowAddTicketModal] = useState(false);
-  const [formData, setFormData] = useState<any>(null);
+  const [formData, setFormData] = useState<EventFormData | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [showShareModal, setShowShareModal] = useState(false);
+  const [selectedTicket, setSelectedTicket] = useState<PrintableTicketData | null>(null);
+  // The event as it was when editing started, and edits that were refused
+  // because someone else saved the event in the meantime
+  const [editBase, setEditBase] = useState<EventDetail | null>(null);
+  const [conflict, setConflict] = useState<{ base: EventDetail; mine: EventUpdates } | null>(null);
 
   // Financial data state (moved here to follow Rules of Hooks)
   const [revenueData, setRevenueData] = useState({
@@ -86,8 +125,8 @@ const EventDetail: React.FC = () => {
         endTime: event.end_time,
         genre: event.genre || '',
         image: event.image || '',
-        ticketPrice: event.ticket_price,
-        totalCapacity: event.total_capacity,
+        ticketPrice: String(event.ticket_price ?? ''),
+        totalCapacity: String(event.total_capacity ?? ''),
         status: event.status
       });
     }
@@ -141,38 +180,46 @@ const EventDetail: React.FC = () => {
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
   ) => {
     const { name, value } = e.target;
-    setFormData((prev: any) => ({ ...prev, [name]: value }));
+    setFormData(prev => prev && { ...prev, [name]: value });
   };
 
-  const handleSave = async () => {
+  const saveEvent = async (updates: EventUpdates, base: EventDetail) => {
     if (!id) return;
     
     setIsSubmitting(true);
     try {
-      await updateEvent({
-        id,
-        updates: {
-          title: formData.title,
-          description: formData.description,
-          date: formData.date,
-          startTime: formData.startTime,
-          endTime: formData.endTime,
-          genre: formData.genre,
-          image: formData.image,
-          ticketPrice: parseFloat(formData.ticketPrice),
-          totalCapacity: parseInt(formData.totalCapacity),
-          status: formData.status
-        }
-      });
-      setIsEditing(false);
-      toast.success('Event updated successfully');
-    } catch (error: any) {
-      toast.error(`Error updating event: ${error.message}`);
+      const result = await updateEvent(id, updates, base.updatedAt);
+      if (result.success) {
+        setIsEditing(false);
+        setConflict(null);
+        toast.success('Event updated successfully');
+      } else if (result.error?.type === 'conflict') {
+        setConflict({ base, mine: updates });
+        refetchEvent();
+      } else {
+        toast.error(`Error updating event: ${result.error?.message}`);
+      }
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  const handleSave = () => {
+    if (!formData) return;
+    saveEvent({
+      title: formData.title,
+      description: formData.description,
+      date: formData.date,
+      startTime: formData.startTime,
+      endTime: formData.endTime,
+      genre: formData.genre,
+      image: formData.image,
+      ticketPrice: parseFloat(formData.ticketPrice),
+      totalCapacity: parseInt(formData.totalCapacity),
+      status: formData.status
+    }, editBase || event);
+  };
+
   const handleDelete = async () => {
     if (!id) return;
     
@@ -358,7 +405,10 @@ const EventDetail: React.FC = () => {
                 Reviews
               </button>
               <button 
-                onClick={() => setIsEditing(true)}
+                onClick={() => {
+                  setEditBase(event);
+                  setIsEditing(true);
+                }}
                 className="inline-flex items-center rounded-lg bg-zinc-800 px-3 py-2 text-sm font-medium text-white hover:bg-zinc-700 focus:outline-none"
               >
                 <Edit size={16} className="mr-2" />
@@ -441,6 +491,11 @@ const EventDetail: React.FC = () => {
                     <span className="text-sm font-medium text-white">
                       {event.tickets_sold || 0}/{event.total_capacity} tickets sold
                     </span>
+                    {(event.tickets_held || 0) > 0 && (
+                      <span className="ml-2 text-sm text-amber-400">
+                        · {event.tickets_held} held
+                      </span>
+                    )}
                   </div>
                 </div>
               </div>
@@ -723,14 +778,23 @@ const EventDetail: React.FC = () => {
                         {Math.round(((event.tickets_sold || 0) / event.total_capacity) * 100)}% sold
                       </span>
                     </div>
-                    <div className="mt-2 h-2 w-full rounded-full bg-zinc-800">
+                    <div className="mt-2 flex h-2 w-full overflow-hidden rounded-full bg-zinc-800">
                       <div 
-                        className="h-2 rounded-full bg-amber-500" 
+                        className="h-2 bg-amber-500" 
                         style={{ width: `${((event.tickets_sold || 0) / event.total_capacity) * 100}%` }}
                       ></div>
+                      <div 
+                        className="h-2 bg-amber-500/40" 
+                        style={{ width: `${((event.tickets_held || 0) / event.total_capacity) * 100}%` }}
+                      ></div>
                     </div>
                   </div>
                   
+                  <div>
+                    <p className="text-sm text-gray-400">Held (awaiting payment)</p>
+                    <p className="text-2xl font-bold text-amber-400">{event.tickets_held || 0}</p>
+                  </div>
+                  
                   <div>
                     <p className="text-sm text-gray-400">Ticket Revenue</p>
                     <p className="text-2xl font-bold text-white">
@@ -788,6 +852,8 @@ const EventDetail: React.FC = () => {
                   </button>
                 </div>
               </div>
+
+              {id && <HistoryPanel entityType="events" entityId={id} version={event.updatedAt} />}
             </div>
           </div>
         )}
@@ -797,15 +863,26 @@ const EventDetail: React.FC = () => {
           <div className="rounded-xl bg-zinc-900 p-6 shadow-lg">
             <div className="mb-4 flex items-center justify-between">
               <h2 className="text-xl font-semibold text-white">Tickets</h2>
-              <button 
-                onClick={() => setShowAddTicketModal(true)}
-                className="rounded-lg bg-amber-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-amber-700"
-              >
-                <PlusCircle size={16} className="mr-2 inline-block" />
-                Add Tickets
-              </button>
+              <div className="flex space-x-2">
+                <button 
+                  onClick={() => navigate(`/ticketing/${id}/scanner`)}
+                  className="rounded-lg bg-zinc-800 px-3 py-1.5 text-sm font-medium text-white hover:bg-zinc-700"
+                >
+                  <QrCode size={16} className="mr-2 inline-block" />
+                  Door Scanner
+                </button>
+                <button 
+                  onClick={() => setShowAddTicketModal(true)}
+                  className="rounded-lg bg-amber-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-amber-700"
+                >
+                  <PlusCircle size={16} className="mr-2 inline-block" />
+                  Add Tickets
+                </button>
+              </div>
             </div>
             
+            {id && <TicketHoldsPanel eventId={id} />}
+            
             {isLoadingTickets ? (
               <div className="flex items-center justify-center py-10">
                 <div className="mr-3 h-5 w-5 animate-spin rounded-full border-2 border-amber-500 border-t-transparent"></div>
@@ -867,7 +944,10 @@ const EventDetail: React.FC = () => {
                           {ticket.purchase_date ? format(new Date(ticket.purchase_date), 'MMM d, yyyy') : 'N/A'}
                         </td>
                         <td className="whitespace-nowrap px-6 py-4 text-right text-sm font-medium">
-                          <button className="text-amber-500 hover:text-amber-400">
+                          <button 
+                            onClick={() => setSelectedTicket(ticket)}
+                            className="text-amber-500 hover:text-amber-400"
+                          >
                             View
                           </button>
                         </td>
@@ -1127,6 +1207,27 @@ const EventDetail: React.FC = () => {
         </div>
       )}
 
+      {/* Edit Conflict */}
+      {conflict && (
+        <ConflictPrompt
+          isOpen={!!conflict}
+          entityName="event"
+          fields={eventFields}
+          base={conflict.base}
+          mine={conflict.mine}
+          latest={event.updatedAt !== conflict.base.updatedAt ? event : null}
+          isSubmitting={isSubmitting}
+          onMerge={(merged) => saveEvent(merged, event)}
+          onReload={() => {
+            setConflict(null);
+            setIsEditing(false);
+            setFormData(null);
+            refetchEvent();
+          }}
+          onCancel={() => setConflict(null)}
+        />
+      )}
+
       {/* Add Ticket Modal */}
       {showAddTicketModal && (
         <AddTicketModal
@@ -1138,6 +1239,16 @@ const EventDetail: React.FC = () => {
         />
       )}
 
+      {/* Printable Ticket */}
+      {selectedTicket && (
+        <PrintableTicket
+          isOpen={!!selectedTicket}
+          onClose={() => setSelectedTicket(null)}
+          ticket={selectedTicket}
+          event={event}
+        />
+      )}
+
       {/* Share Modal */}
       {showShareModal && (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { 
   BarChart3, 
   DollarSign, 
@@ -23,7 +23,9 @@ import {
   RefreshCw
 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
-import { useFinances } from '../hooks/useFinances';
+import { useFinances, useTransactionFeed } from '../hooks/useFinances';
+import { VirtualizedList } from '../components/ui/VirtualizedList';
+import type { FinancialTransaction } from '../lib/api/schemas/financeSchemas';
 import { format, subDays, isWithinInterval } from 'date-fns';
 import AddTransactionModal from '../components/finances/AddTransactionModal';
 import Breadcrumbs, { useBreadcrumbs } from '../components/navigation/Breadcrumbs';
@@ -181,6 +183,12 @@ const EnhancedTransaction: React.FC<EnhancedTransactionProps> = ({
   );
 };
 
+// Fixed row height so the transaction list can be virtualized
+const TRANSACTION_ROW_HEIGHT = 112;
+
+const categoryLabel = (transaction: FinancialTransaction): string =>
+  transaction.category?.name || transaction.categoryId || 'Other';
+
 const FinancialOverviewChart: React.FC<{ transactions: any[] }> = ({ transactions }) => {
   const chartData = useMemo(() => {
     // Generate chart data for the last 30 days
@@ -317,12 +325,25 @@ const CategoryBreakdownChart: React.FC<{ transactions: any[] }> = ({ transaction
 
 const Finances: React.FC = () => {
   const navigate = useNavigate();
-  const { transactions, loading, createTransaction } = useFinances();
+  const { transactions, isLoading: isSummaryLoading, createTransaction } = useFinances();
   const [searchTerm, setSearchTerm] = useState('');
   const [categoryFilter, setCategoryFilter] = useState('all');
   const [typeFilter, setTypeFilter] = useState<'all' | 'income' | 'expense'>('all');
   const [showAddTransactionModal, setShowAddTransactionModal] = useState(false);
+  const [feedSearch, setFeedSearch] = useState('');
   const breadcrumbs = useBreadcrumbs();
+
+  // Search the server once typing pauses
+  useEffect(() => {
+    const timeout = setTimeout(() => setFeedSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  // The list pages through every transaction; the summary above uses the loaded set
+  const feed = useTransactionFeed({
+    type: typeFilter === 'all' ? undefined : typeFilter,
+    search: feedSearch || undefined
+  });
   
   // Calculate enhanced summary data
   const calculateSummary = () => {
@@ -357,23 +378,20 @@ const Finances: React.FC = () => {
   
   // Get unique categories for filter
   const categories = useMemo(() => {
-    const unique = [...new Set(transactions.map(tx => tx.category))];
+    const unique = [...new Set(transactions.map(categoryLabel))];
     return unique.sort();
   }, [transactions]);
   
-  // Filter transactions
+  // Type and search are applied by the server; category within the loaded pages
   const filteredTransactions = useMemo(() => {
-    return transactions.filter((tx) => {
-      const matchesSearch = tx.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                           tx.category.toLowerCase().includes(searchTerm.toLowerCase());
-      const matchesCategory = categoryFilter === 'all' || tx.category === categoryFilter;
-      const matchesType = typeFilter === 'all' || tx.type === typeFilter;
-      
-      return matchesSearch && matchesCategory && matchesType;
-    });
-  }, [transactions, searchTerm, categoryFilter, typeFilter]);
+    return feed.items.filter((tx) => categoryFilter === 'all' || categoryLabel(tx) === categoryFilter);
+  }, [feed.items, categoryFilter]);
+
+  const transactionCount = feed.totalCount !== null && categoryFilter === 'all'
+    ? `${feed.totalIsEstimate ? '~' : ''}${feed.totalCount.toLocaleString()}`
+    : filteredTransactions.length.toLocaleString();
   
-  const isLoading = loading.isLoading;
+  const isLoading = feed.isLoading;
 
   const handleAddTransaction = async (transactionData: any) => {
     try {
@@ -389,6 +407,7 @@ const Finances: React.FC = () => {
       });
       
       setShowAddTransactionModal(false);
+      feed.refresh();
     } catch (error: any) {
       console.error('Error adding transaction:', error);
     }
@@ -459,7 +478,7 @@ const Finances: React.FC = () => {
           period="last month"
           icon={<TrendingUp className="h-6 w-6" />}
           iconColor="bg-green-500/20 text-green-400"
-          loading={isLoading}
+          loading={isSummaryLoading}
         />
         <EnhancedFinancialCard
           title="Total Expenses"
@@ -469,7 +488,7 @@ const Finances: React.FC = () => {
           period="last month"
           icon={<TrendingDown className="h-6 w-6" />}
           iconColor="bg-red-500/20 text-red-400"
-          loading={isLoading}
+          loading={isSummaryLoading}
         />
         <EnhancedFinancialCard
             title="Net Profit"
@@ -479,7 +498,7 @@ const Finances: React.FC = () => {
           period="last month"
           icon={<BarChart3 className="h-6 w-6" />}
           iconColor="bg-blue-500/20 text-blue-400"
-          loading={isLoading}
+          loading={isSummaryLoading}
         />
         <EnhancedFinancialCard
           title="Avg Transaction"
@@ -489,7 +508,7 @@ const Finances: React.FC = () => {
           period="last month"
           icon={<CreditCard className="h-6 w-6" />}
           iconColor="bg-purple-500/20 text-purple-400"
-          loading={isLoading}
+          loading={isSummaryLoading}
         />
       </div>
 
@@ -562,7 +581,7 @@ const Finances: React.FC = () => {
             </div>
             <h2 className="text-xl font-semibold text-white">
               Transactions
-              <span className="ml-2 text-sm text-gray-400">({filteredTransactions.length})</span>
+              <span className="ml-2 text-sm text-gray-400">({transactionCount})</span>
             </h2>
         </div>
 
@@ -601,27 +620,35 @@ const Finances: React.FC = () => {
             </div>
           </div>
 
-        <div className="space-y-0 max-h-96 overflow-y-auto">
+        <div className="space-y-0">
             {isLoading ? (
             <div className="flex items-center justify-center py-12">
               <div className="h-6 w-6 animate-spin rounded-full border-2 border-green-500 border-t-transparent mr-3"></div>
                 <p className="text-white">Loading transactions...</p>
               </div>
           ) : filteredTransactions.length > 0 ? (
-            filteredTransactions.map((transaction) => (
-              <EnhancedTransaction
-                  key={transaction.id}
+            <VirtualizedList
+              items={filteredTransactions}
+              itemHeight={TRANSACTION_ROW_HEIGHT}
+              containerHeight={384}
+              getItemKey={(transaction) => transaction.id}
+              onEndReached={feed.loadMore}
+              hasMore={feed.hasMore}
+              loadingMore={feed.isLoadingMore}
+              renderItem={(transaction) => (
+                <EnhancedTransaction
                   id={transaction.id}
                   date={format(new Date(transaction.date), 'MMM d, yyyy')}
                   description={transaction.description}
                   amount={transaction.amount}
-                  category={transaction.category}
+                  category={categoryLabel(transaction)}
                   type={transaction.type as 'income' | 'expense'}
-                eventId={transaction.eventId}
-                onEdit={() => console.log('Edit', transaction.id)}
-                onView={() => console.log('View', transaction.id)}
+                  eventId={transaction.relatedEntityType === 'event' ? transaction.relatedEntityId : undefined}
+                  onEdit={() => console.log('Edit', transaction.id)}
+                  onView={() => console.log('View', transaction.id)}
                 />
-              ))
+              )}
+            />
             ) : (
             <div className="text-center py-12 bg-zinc-800/50 rounded-lg border-2 border-dashed border-zinc-700">
               <Wallet className="h-12 w-12 text-gray-500 mx-auto mb-4" />
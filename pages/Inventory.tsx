@@ -1,5 +1,6 @@
 import React, { useState, useMemo } from 'react';
 import { toast } from 'react-hot-toast';
+import { useNavigate } from 'react-router-dom';
 import { 
   Search, 
   Plus, 
@@ -20,7 +21,10 @@ import {
   Edit3,
   RefreshCw,
   Filter,
-  Tag
+  Tag,
+  Wine,
+  Layers,
+  ClipboardCheck
 } from 'lucide-react';
 
 import { 
@@ -349,6 +353,8 @@ const InventoryTable: React.FC<{
 
 // Main Inventory component
 const Inventory: React.FC = () => {
+  const navigate = useNavigate();
+
   // State management
   const [searchTerm, setSearchTerm] = useState<string>('');
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
@@ -571,6 +577,34 @@ const Inventory: React.FC = () => {
           </p>
         </div>
         <div className="mt-4 sm:mt-0 flex space-x-3">
+            <button
+              onClick={() => navigate('/inventory/stock-counts')}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+            <ClipboardCheck className="w-4 h-4 mr-2" />
+              Stock Take
+            </button>
+            <button
+              onClick={() => navigate('/inventory/valuation')}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+            <Layers className="w-4 h-4 mr-2" />
+              Valuation
+            </button>
+            <button
+              onClick={() => navigate('/inventory/recipes')}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+            <Wine className="w-4 h-4 mr-2" />
+              Recipes
+            </button>
+            <button
+              onClick={() => navigate('/inventory/purchasing')}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+            <ShoppingCart className="w-4 h-4 mr-2" />
+              Purchasing
+            </button>
             <button
               onClick={() => setIsCategoryModalOpen(true)}
             className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
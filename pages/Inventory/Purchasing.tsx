@@ -0,0 +1,350 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import {
+  ChevronLeft,
+  ClipboardList,
+  Plus,
+  Send,
+  Truck,
+  X,
+  AlertTriangle,
+  Package
+} from 'lucide-react';
+import Breadcrumbs, { useBreadcrumbs } from '../../components/navigation/Breadcrumbs';
+import { useSuppliers, usePurchaseOrders, useStockPositions } from '../../hooks/usePurchasing';
+import type {
+  CreateSupplierRequest,
+  PurchaseOrder,
+  PurchaseOrderStatus
+} from '../../lib/api/schemas/purchasingSchemas';
+
+const STATUS_STYLES: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  ordered: 'bg-blue-100 text-blue-700',
+  partially_received: 'bg-yellow-100 text-yellow-700',
+  received: 'bg-green-100 text-green-700',
+  cancelled: 'bg-red-100 text-red-700'
+};
+
+const inputClassName = 'block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+// Supplier form
+const SupplierForm: React.FC<{
+  onSubmit: (supplier: CreateSupplierRequest) => void;
+  onCancel: () => void;
+  isSubmitting: boolean;
+}> = ({ onSubmit, onCancel, isSubmitting }) => {
+  const [supplier, setSupplier] = useState<CreateSupplierRequest>({ name: '', leadTimeDays: 7 });
+
+  const update = (field: keyof CreateSupplierRequest, value: string | number) => {
+    // Optional fields are left out rather than sent as empty strings
+    setSupplier(prev => ({ ...prev, [field]: value === '' ? undefined : value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(supplier);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+      <h3 className="text-lg font-medium text-gray-900 mb-4">New Supplier</h3>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <input required placeholder="Supplier name" value={supplier.name} onChange={(e) => update('name', e.target.value)} className={inputClassName} />
+        <input placeholder="Contact name" value={supplier.contactName || ''} onChange={(e) => update('contactName', e.target.value)} className={inputClassName} />
+        <input type="email" placeholder="Email" value={supplier.email || ''} onChange={(e) => update('email', e.target.value)} className={inputClassName} />
+        <input placeholder="Phone" value={supplier.phone || ''} onChange={(e) => update('phone', e.target.value)} className={inputClassName} />
+        <input
+          type="number"
+          min={0}
+          max={365}
+          placeholder="Lead time (days)"
+          value={supplier.leadTimeDays ?? ''}
+          onChange={(e) => update('leadTimeDays', e.target.value === '' ? '' : Number(e.target.value))}
+          className={inputClassName}
+        />
+        <input placeholder="Address" value={supplier.address || ''} onChange={(e) => update('address', e.target.value)} className={inputClassName} />
+        <input placeholder="Expense account ID" value={supplier.expenseAccountId || ''} onChange={(e) => update('expenseAccountId', e.target.value)} className={inputClassName} />
+        <input placeholder="Expense category ID" value={supplier.expenseCategoryId || ''} onChange={(e) => update('expenseCategoryId', e.target.value)} className={inputClassName} />
+      </div>
+      <div className="mt-4 flex justify-end space-x-3">
+        <button type="button" onClick={onCancel} className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50">
+          Cancel
+        </button>
+        <button type="submit" disabled={isSubmitting} className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50">
+          {isSubmitting ? 'Saving...' : 'Save Supplier'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+// Receiving panel - quantities default to what is still outstanding
+const ReceiveDelivery: React.FC<{
+  order: PurchaseOrder;
+  onReceive: (receipt: { lines: Array<{ lineId: string; quantity: number }>; reference?: string; accountId?: string; categoryId?: string }) => void;
+  onCancel: () => void;
+  isReceiving: boolean;
+}> = ({ order, onReceive, onCancel, isReceiving }) => {
+  const [quantities, setQuantities] = useState<Record<string, number>>(() =>
+    Object.fromEntries(order.lines.map(line => [line.id, line.quantityOrdered - line.quantityReceived]))
+  );
+  const [reference, setReference] = useState('');
+  const [accountId, setAccountId] = useState('');
+  const [categoryId, setCategoryId] = useState('');
+  const needsFinanceDetails = !order.supplier?.expenseAccountId || !order.supplier?.expenseCategoryId;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onReceive({
+      lines: Object.entries(quantities)
+        .filter(([, quantity]) => quantity > 0)
+        .map(([lineId, quantity]) => ({ lineId, quantity })),
+      reference: reference || undefined,
+      accountId: accountId || undefined,
+      categoryId: categoryId || undefined
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 rounded-md border border-gray-200 bg-gray-50 p-4">
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="py-1">Item</th>
+            <th className="py-1">Outstanding</th>
+            <th className="py-1">Receiving now</th>
+          </tr>
+        </thead>
+        <tbody>
+          {order.lines.map(line => {
+            const outstanding = line.quantityOrdered - line.quantityReceived;
+            return (
+              <tr key={line.id}>
+                <td className="py-1 text-gray-900">{line.itemName || line.itemId}</td>
+                <td className="py-1 text-gray-500">{outstanding}</td>
+                <td className="py-1">
+                  <input
+                    type="number"
+                    min={0}
+                    max={outstanding}
+                    step="any"
+                    value={quantities[line.id] ?? 0}
+                    disabled={outstanding === 0}
+                    onChange={(e) => setQuantities(prev => ({ ...prev, [line.id]: Number(e.target.value) }))}
+                    className="w-24 rounded-md border border-gray-300 px-2 py-1"
+                  />
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <div className="mt-3 grid grid-cols-1 md:grid-cols-3 gap-3">
+        <input placeholder="Delivery note / invoice #" value={reference} onChange={(e) => setReference(e.target.value)} className={inputClassName} />
+        {needsFinanceDetails && (
+          <>
+            <input required placeholder="Expense account ID" value={accountId} onChange={(e) => setAccountId(e.target.value)} className={inputClassName} />
+            <input required placeholder="Expense category ID" value={categoryId} onChange={(e) => setCategoryId(e.target.value)} className={inputClassName} />
+          </>
+        )}
+      </div>
+      <div className="mt-3 flex justify-end space-x-3">
+        <button type="button" onClick={onCancel} className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50">
+          Cancel
+        </button>
+        <button type="submit" disabled={isReceiving} className="px-3 py-1.5 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50">
+          {isReceiving ? 'Receiving...' : 'Receive Delivery'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const Purchasing: React.FC = () => {
+  const navigate = useNavigate();
+  const breadcrumbs = useBreadcrumbs();
+  const { suppliers, createSupplier, isCreating } = useSuppliers();
+  const {
+    orders,
+    isLoading: isLoadingOrders,
+    draftFromAlerts,
+    submitOrder,
+    cancelOrder,
+    receiveOrder,
+    isDrafting,
+    isReceiving
+  } = usePurchaseOrders();
+  const { positions, isLoading: isLoadingPositions } = useStockPositions();
+
+  const [showSupplierForm, setShowSupplierForm] = useState(false);
+  const [receivingOrderId, setReceivingOrderId] = useState<string | null>(null);
+
+  const supplierName = (supplierId?: string) =>
+    suppliers.find(supplier => supplier.id === supplierId)?.name || 'No supplier';
+
+  return (
+    <div className="space-y-6">
+      <Breadcrumbs items={breadcrumbs} />
+
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center">
+          <button onClick={() => navigate('/inventory')} className="mr-3 rounded-full bg-gray-100 p-2 text-gray-700 hover:bg-gray-200">
+            <ChevronLeft size={20} />
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Purchasing</h1>
+            <p className="mt-1 text-sm text-gray-500">Suppliers, purchase orders and stock on its way</p>
+          </div>
+        </div>
+        <div className="mt-4 sm:mt-0 flex space-x-3">
+          <button
+            onClick={() => setShowSupplierForm(true)}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Supplier
+          </button>
+          <button
+            onClick={() => draftFromAlerts()}
+            disabled={isDrafting}
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            <ClipboardList className="w-4 h-4 mr-2" />
+            {isDrafting ? 'Drafting...' : 'Draft from Reorder Alerts'}
+          </button>
+        </div>
+      </div>
+
+      {showSupplierForm && (
+        <SupplierForm
+          isSubmitting={isCreating}
+          onCancel={() => setShowSupplierForm(false)}
+          onSubmit={(supplier) => createSupplier(supplier, { onSuccess: () => setShowSupplierForm(false) })}
+        />
+      )}
+
+      {/* On hand vs. on order */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="p-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">On Hand vs. On Order</h3>
+        </div>
+        {isLoadingPositions ? (
+          <p className="p-4 text-sm text-gray-500">Loading stock...</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  <th className="px-4 py-3">Item</th>
+                  <th className="px-4 py-3">Supplier</th>
+                  <th className="px-4 py-3 text-right">On Hand</th>
+                  <th className="px-4 py-3 text-right">On Order</th>
+                  <th className="px-4 py-3 text-right">Reorder Point</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {positions.map(position => (
+                  <tr key={position.itemId}>
+                    <td className="px-4 py-2 text-gray-900">
+                      {position.name}
+                      {position.sku && <span className="ml-2 text-xs text-gray-400">{position.sku}</span>}
+                    </td>
+                    <td className="px-4 py-2 text-gray-500">{supplierName(position.supplierId)}</td>
+                    <td className="px-4 py-2 text-right text-gray-900">{position.onHand} {position.unit}</td>
+                    <td className="px-4 py-2 text-right text-blue-600">{position.onOrder > 0 ? position.onOrder : '-'}</td>
+                    <td className="px-4 py-2 text-right text-gray-500">{position.reorderPoint}</td>
+                    <td className="px-4 py-2">
+                      {position.needsReorder && (
+                        <span className="inline-flex items-center text-xs font-medium text-yellow-700">
+                          <AlertTriangle className="w-3 h-3 mr-1" />
+                          Reorder
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Purchase orders */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="p-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Purchase Orders</h3>
+        </div>
+        {isLoadingOrders ? (
+          <p className="p-4 text-sm text-gray-500">Loading purchase orders...</p>
+        ) : orders.length === 0 ? (
+          <div className="p-8 text-center text-sm text-gray-500">
+            <Package className="mx-auto mb-2 h-8 w-8 text-gray-300" />
+            No purchase orders yet
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {orders.map(order => (
+              <li key={order.id} className="p-4">
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-gray-900">{order.orderNumber}</span>
+                      <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_STYLES[order.status]}`}>
+                        {order.status.replace('_', ' ')}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-500">
+                      {order.supplier?.name || supplierName(order.supplierId)} · ${order.total.toFixed(2)}
+                      {order.expectedDate && ` · due ${format(new Date(order.expectedDate), 'MMM d')}`}
+                    </p>
+                    <p className="text-xs text-gray-400">
+                      {order.lines.map(line => `${line.itemName || 'Item'} ${line.quantityReceived}/${line.quantityOrdered}`).join(', ')}
+                    </p>
+                  </div>
+                  <div className="mt-3 sm:mt-0 flex space-x-2">
+                    {order.status === 'draft' && (
+                      <button onClick={() => submitOrder(order.id)} className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700">
+                        <Send className="w-4 h-4 mr-1" />
+                        Send
+                      </button>
+                    )}
+                    {(order.status === 'ordered' || order.status === 'partially_received') && (
+                      <button onClick={() => setReceivingOrderId(order.id)} className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700">
+                        <Truck className="w-4 h-4 mr-1" />
+                        Receive
+                      </button>
+                    )}
+                    {(order.status === 'draft' || order.status === 'ordered') && (
+                      <button onClick={() => cancelOrder(order.id)} className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50">
+                        <X className="w-4 h-4 mr-1" />
+                        Cancel
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {receivingOrderId === order.id && (
+                  <ReceiveDelivery
+                    order={order}
+                    isReceiving={isReceiving}
+                    onCancel={() => setReceivingOrderId(null)}
+                    onReceive={(receipt) => receiveOrder(
+                      { id: order.id, receipt },
+                      { onSuccess: () => setReceivingOrderId(null) }
+                    )}
+                  />
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Purchasing;
@@ -0,0 +1,230 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ChevronLeft, Plus, Trash2, Wine, ShoppingCart } from 'lucide-react';
+import Breadcrumbs, { useBreadcrumbs } from '../../components/navigation/Breadcrumbs';
+import { useRecipes } from '../../hooks/useRecipes';
+import { useInventoryItems } from '../../hooks/useInventory';
+import { InventoryUnitSchema, type InventoryUnit } from '../../lib/api/schemas/inventorySchemas';
+import type { CreateRecipeRequest, Recipe, RecipeComponent } from '../../lib/api/schemas/recipeSchemas';
+
+const inputClassName = 'block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+// Recipe form
+const RecipeForm: React.FC<{
+  items: Array<{ id: string; name: string }>;
+  onSubmit: (recipe: CreateRecipeRequest) => void;
+  onCancel: () => void;
+  isSubmitting: boolean;
+}> = ({ items, onSubmit, onCancel, isSubmitting }) => {
+  const [name, setName] = useState('');
+  const [squareCatalogObjectId, setSquareCatalogObjectId] = useState('');
+  const [components, setComponents] = useState<RecipeComponent[]>([{ itemId: '', quantity: 0.05, unit: 'liter' }]);
+
+  const updateComponent = (index: number, changes: Partial<RecipeComponent>) => {
+    setComponents(prev => prev.map((component, i) => (i === index ? { ...component, ...changes } : component)));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({
+      name,
+      squareCatalogObjectId: squareCatalogObjectId || undefined,
+      components: components.filter(component => component.itemId)
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+      <h3 className="text-lg font-medium text-gray-900 mb-4">New Recipe</h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <input required placeholder="Product name, e.g. Negroni" value={name} onChange={(e) => setName(e.target.value)} className={inputClassName} />
+        <input placeholder="Square catalog ID (optional)" value={squareCatalogObjectId} onChange={(e) => setSquareCatalogObjectId(e.target.value)} className={inputClassName} />
+      </div>
+
+      <h4 className="mt-4 mb-2 text-sm font-medium text-gray-700">Components per product sold</h4>
+      <div className="space-y-2">
+        {components.map((component, index) => (
+          <div key={index} className="flex items-center space-x-2">
+            <select
+              required
+              value={component.itemId}
+              onChange={(e) => updateComponent(index, { itemId: e.target.value })}
+              className={inputClassName}
+            >
+              <option value="">Select item</option>
+              {items.map(item => (
+                <option key={item.id} value={item.id}>{item.name}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              required
+              value={component.quantity}
+              onChange={(e) => updateComponent(index, { quantity: Number(e.target.value) })}
+              className="w-28 rounded-md border border-gray-300 px-3 py-2 text-sm"
+            />
+            <select
+              value={component.unit}
+              onChange={(e) => updateComponent(index, { unit: e.target.value as InventoryUnit })}
+              className="w-32 rounded-md border border-gray-300 px-3 py-2 text-sm"
+            >
+              {InventoryUnitSchema.options.map(unit => (
+                <option key={unit} value={unit}>{unit}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => setComponents(prev => prev.filter((_, i) => i !== index))}
+              disabled={components.length === 1}
+              className="p-2 text-gray-400 hover:text-red-600 disabled:opacity-50"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={() => setComponents(prev => [...prev, { itemId: '', quantity: 1, unit: 'piece' }])}
+        className="mt-2 inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-700"
+      >
+        <Plus className="w-4 h-4 mr-1" />
+        Add component
+      </button>
+
+      <div className="mt-4 flex justify-end space-x-3">
+        <button type="button" onClick={onCancel} className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50">
+          Cancel
+        </button>
+        <button type="submit" disabled={isSubmitting} className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50">
+          {isSubmitting ? 'Saving...' : 'Save Recipe'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+// Recipe row with a quick sale entry
+const RecipeRow: React.FC<{
+  recipe: Recipe;
+  itemName: (itemId: string) => string;
+  onRecordSale: (quantity: number) => void;
+  onToggleActive: () => void;
+  isRecordingSale: boolean;
+}> = ({ recipe, itemName, onRecordSale, onToggleActive, isRecordingSale }) => {
+  const [quantity, setQuantity] = useState(1);
+
+  return (
+    <li className="p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between">
+      <div>
+        <div className="flex items-center space-x-2">
+          <span className="font-medium text-gray-900">{recipe.name}</span>
+          {!recipe.isActive && (
+            <span className="rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-600">Off menu</span>
+          )}
+        </div>
+        <p className="text-xs text-gray-500">
+          {recipe.components.map(component => `${component.quantity} ${component.unit} ${itemName(component.itemId)}`).join(' · ')}
+        </p>
+      </div>
+      <div className="mt-3 sm:mt-0 flex items-center space-x-2">
+        <input
+          type="number"
+          min={1}
+          value={quantity}
+          onChange={(e) => setQuantity(Math.max(1, Math.floor(Number(e.target.value))))}
+          className="w-20 rounded-md border border-gray-300 px-2 py-1.5 text-sm"
+        />
+        <button
+          onClick={() => onRecordSale(quantity)}
+          disabled={!recipe.isActive || isRecordingSale}
+          className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50"
+        >
+          <ShoppingCart className="w-4 h-4 mr-1" />
+          Record Sale
+        </button>
+        <button
+          onClick={onToggleActive}
+          className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          {recipe.isActive ? 'Take off menu' : 'Put on menu'}
+        </button>
+      </div>
+    </li>
+  );
+};
+
+const Recipes: React.FC = () => {
+  const navigate = useNavigate();
+  const breadcrumbs = useBreadcrumbs();
+  const { recipes, isLoading, createRecipe, updateRecipe, recordSale, isCreating, isRecordingSale } = useRecipes();
+  const { items } = useInventoryItems();
+  const [showForm, setShowForm] = useState(false);
+
+  const itemName = (itemId: string) => items.find(item => item.id === itemId)?.name || 'Unknown item';
+
+  return (
+    <div className="space-y-6">
+      <Breadcrumbs items={breadcrumbs} />
+
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center">
+          <button onClick={() => navigate('/inventory')} className="mr-3 rounded-full bg-gray-100 p-2 text-gray-700 hover:bg-gray-200">
+            <ChevronLeft size={20} />
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Recipes</h1>
+            <p className="mt-1 text-sm text-gray-500">
+              What goes into each product, so sales take the right amount out of stock
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={() => setShowForm(true)}
+          className="mt-4 sm:mt-0 inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Recipe
+        </button>
+      </div>
+
+      {showForm && (
+        <RecipeForm
+          items={items}
+          isSubmitting={isCreating}
+          onCancel={() => setShowForm(false)}
+          onSubmit={(recipe) => createRecipe(recipe, { onSuccess: () => setShowForm(false) })}
+        />
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        {isLoading ? (
+          <p className="p-4 text-sm text-gray-500">Loading recipes...</p>
+        ) : recipes.length === 0 ? (
+          <div className="p-8 text-center text-sm text-gray-500">
+            <Wine className="mx-auto mb-2 h-8 w-8 text-gray-300" />
+            No recipes yet
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {recipes.map(recipe => (
+              <RecipeRow
+                key={recipe.id}
+                recipe={recipe}
+                itemName={itemName}
+                isRecordingSale={isRecordingSale}
+                onRecordSale={(quantity) => recordSale({ recipeId: recipe.id, quantity })}
+                onToggleActive={() => updateRecipe({ id: recipe.id, updates: { isActive: !recipe.isActive }, expectedUpdatedAt: recipe.updatedAt })}
+              />
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Recipes;
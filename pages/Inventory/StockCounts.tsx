@@ -0,0 +1,381 @@
+import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ChevronLeft, ClipboardCheck, Plus } from 'lucide-react';
+import Breadcrumbs, { useBreadcrumbs } from '../../components/navigation/Breadcrumbs';
+import { useStockCounts, useShrinkageReport } from '../../hooks/useStockCounts';
+import { useInventoryCategories, useInventoryItems } from '../../hooks/useInventory';
+import type { StartStockCountRequest, StockCount } from '../../lib/api/schemas/stockCountSchemas';
+
+const inputClassName = 'block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+const varianceClassName = (variance?: number) => {
+  if (variance === undefined || variance === 0) return 'text-gray-500';
+  return variance < 0 ? 'text-red-600' : 'text-green-600';
+};
+
+// New count form
+const StartCountForm: React.FC<{
+  locations: string[];
+  categories: Array<{ id: string; name: string }>;
+  onSubmit: (count: StartStockCountRequest) => void;
+  onCancel: () => void;
+  isSubmitting: boolean;
+}> = ({ locations, categories, onSubmit, onCancel, isSubmitting }) => {
+  const [name, setName] = useState('');
+  const [location, setLocation] = useState('');
+  const [categoryId, setCategoryId] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({ name, location: location || undefined, categoryId: categoryId || undefined });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+      <h3 className="text-lg font-medium text-gray-900 mb-1">Start Stock Count</h3>
+      <p className="text-sm text-gray-500 mb-4">Stock on hand is frozen as the expected quantity when the count starts.</p>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <input required placeholder="Name, e.g. Sunday close" value={name} onChange={(e) => setName(e.target.value)} className={inputClassName} />
+        <select value={location} onChange={(e) => setLocation(e.target.value)} className={inputClassName}>
+          <option value="">All locations</option>
+          {locations.map(loc => (
+            <option key={loc} value={loc}>{loc}</option>
+          ))}
+        </select>
+        <select value={categoryId} onChange={(e) => setCategoryId(e.target.value)} className={inputClassName}>
+          <option value="">All categories</option>
+          {categories.map(category => (
+            <option key={category.id} value={category.id}>{category.name}</option>
+          ))}
+        </select>
+      </div>
+      <div className="mt-4 flex justify-end space-x-3">
+        <button type="button" onClick={onCancel} className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50">
+          Cancel
+        </button>
+        <button type="submit" disabled={isSubmitting} className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50">
+          {isSubmitting ? 'Starting...' : 'Start Count'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+// Count sheet: enter counts, review variances, commit
+const CountSheet: React.FC<{
+  stockCount: StockCount;
+  onSaveCounts: (counts: Array<{ itemId: string; location?: string; quantity: number }>, onSaved: () => void) => void;
+  onCommit: () => void;
+  onCancelCount: () => void;
+  isSaving: boolean;
+  isCommitting: boolean;
+}> = ({ stockCount, onSaveCounts, onCommit, onCancelCount, isSaving, isCommitting }) => {
+  const [drafts, setDrafts] = useState<Record<string, { location: string; quantity: string }>>({});
+
+  const updateDraft = (itemId: string, defaultLocation: string, changes: Partial<{ location: string; quantity: string }>) => {
+    setDrafts(prev => ({
+      ...prev,
+      [itemId]: { ...(prev[itemId] || { location: defaultLocation, quantity: '' }), ...changes }
+    }));
+  };
+
+  const pendingCounts = Object.entries(drafts)
+    .filter(([, draft]) => draft.quantity !== '' && Number(draft.quantity) >= 0)
+    .map(([itemId, draft]) => ({ itemId, location: draft.location || undefined, quantity: Number(draft.quantity) }));
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+      <div className="p-4 border-b border-gray-200 flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">{stockCount.name}</h3>
+          <p className="text-sm text-gray-500">
+            {stockCount.countNumber} · {stockCount.countedItems} counted · {stockCount.uncountedItems} to go
+          </p>
+        </div>
+        <div className="mt-3 sm:mt-0 flex space-x-2">
+          <button
+            onClick={() => onSaveCounts(pendingCounts, () => setDrafts({}))}
+            disabled={pendingCounts.length === 0 || isSaving}
+            className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : `Save ${pendingCounts.length || ''} Count(s)`}
+          </button>
+          <button
+            onClick={onCancelCount}
+            className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Cancel Count
+          </button>
+          <button
+            onClick={onCommit}
+            disabled={stockCount.countedItems === 0 || pendingCounts.length > 0 || isCommitting}
+            className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isCommitting ? 'Committing...' : 'Commit Variances'}
+          </button>
+        </div>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr className="text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+              <th className="px-4 py-3">Item</th>
+              <th className="px-4 py-3 text-right">Expected</th>
+              <th className="px-4 py-3">Counts</th>
+              <th className="px-4 py-3">Count at</th>
+              <th className="px-4 py-3 text-right">Counted</th>
+              <th className="px-4 py-3 text-right">Variance</th>
+              <th className="px-4 py-3 text-right">Value</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {stockCount.lines.map(line => {
+              const draft = drafts[line.itemId];
+              return (
+                <tr key={line.itemId}>
+                  <td className="px-4 py-2 text-gray-900">
+                    {line.name}
+                    {line.sku && <span className="ml-2 text-xs text-gray-400">{line.sku}</span>}
+                  </td>
+                  <td className="px-4 py-2 text-right text-gray-500">{line.expectedQuantity}</td>
+                  <td className="px-4 py-2 text-xs text-gray-500">
+                    {line.counts.map(count => `${count.location || 'Unspecified'}: ${count.quantity}`).join(' · ') || '-'}
+                  </td>
+                  <td className="px-4 py-2">
+                    <div className="flex space-x-2">
+                      <input
+                        placeholder="Location"
+                        value={draft?.location ?? line.location ?? ''}
+                        onChange={(e) => updateDraft(line.itemId, line.location || '', { location: e.target.value })}
+                        className="w-32 rounded-md border border-gray-300 px-2 py-1 text-sm"
+                      />
+                      <input
+                        type="number"
+                        min={0}
+                        step="any"
+                        placeholder="Qty"
+                        value={draft?.quantity ?? ''}
+                        onChange={(e) => updateDraft(line.itemId, line.location || '', { quantity: e.target.value })}
+                        className="w-24 rounded-md border border-gray-300 px-2 py-1 text-sm"
+                      />
+                    </div>
+                  </td>
+                  <td className="px-4 py-2 text-right text-gray-900">{line.countedQuantity ?? '-'}</td>
+                  <td className={`px-4 py-2 text-right font-medium ${varianceClassName(line.variance)}`}>
+                    {line.variance === undefined ? '-' : line.variance > 0 ? `+${line.variance}` : line.variance}
+                  </td>
+                  <td className={`px-4 py-2 text-right ${varianceClassName(line.variance)}`}>
+                    {line.varianceValue === undefined ? '-' : `$${line.varianceValue.toFixed(2)}`}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+          <tfoot className="bg-gray-50">
+            <tr>
+              <td colSpan={6} className="px-4 py-2 text-right text-sm font-medium text-gray-700">Net variance</td>
+              <td className={`px-4 py-2 text-right font-semibold ${varianceClassName(stockCount.totalVarianceValue)}`}>
+                ${stockCount.totalVarianceValue.toFixed(2)}
+              </td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+// Shrinkage breakdown table
+const BreakdownTable: React.FC<{ title: string; rows: Array<{ label: string; quantity: number; cost: number }> }> = ({ title, rows }) => (
+  <div>
+    <h4 className="mb-2 text-sm font-medium text-gray-700">{title}</h4>
+    {rows.length === 0 ? (
+      <p className="text-sm text-gray-500">No shrinkage recorded</p>
+    ) : (
+      <ul className="divide-y divide-gray-100 text-sm">
+        {rows.map(row => (
+          <li key={row.label} className="flex justify-between py-1.5">
+            <span className="text-gray-900">{row.label}</span>
+            <span>
+              <span className="mr-3 text-gray-500">{row.quantity} units</span>
+              <span className="text-red-600">${row.cost.toFixed(2)}</span>
+            </span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+const StockCounts: React.FC = () => {
+  const navigate = useNavigate();
+  const breadcrumbs = useBreadcrumbs();
+  const {
+    stockCounts,
+    isLoading,
+    startCount,
+    recordCounts,
+    commitCount,
+    cancelCount,
+    isStarting,
+    isRecording,
+    isCommitting
+  } = useStockCounts();
+  const { categories } = useInventoryCategories();
+  const { items } = useInventoryItems();
+  const [showForm, setShowForm] = useState(false);
+  const [selectedCountId, setSelectedCountId] = useState<string | null>(null);
+  const [shrinkagePeriod] = useState(() => ({
+    dateFrom: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
+    dateTo: new Date().toISOString()
+  }));
+  const { report } = useShrinkageReport(shrinkagePeriod);
+
+  const locations = useMemo(
+    () => Array.from(new Set(items.map(item => item.location).filter((location): location is string => !!location))).sort(),
+    [items]
+  );
+  const openCounts = stockCounts.filter(count => count.status === 'in_progress');
+  const pastCounts = stockCounts.filter(count => count.status !== 'in_progress').slice(0, 10);
+  const selectedCount = openCounts.find(count => count.id === selectedCountId) || openCounts[0];
+
+  return (
+    <div className="space-y-6">
+      <Breadcrumbs items={breadcrumbs} />
+
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center">
+          <button onClick={() => navigate('/inventory')} className="mr-3 rounded-full bg-gray-100 p-2 text-gray-700 hover:bg-gray-200">
+            <ChevronLeft size={20} />
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Stock Take</h1>
+            <p className="mt-1 text-sm text-gray-500">Count what is on the shelves and correct stock in one go</p>
+          </div>
+        </div>
+        <button
+          onClick={() => setShowForm(true)}
+          className="mt-4 sm:mt-0 inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Start Count
+        </button>
+      </div>
+
+      {showForm && (
+        <StartCountForm
+          locations={locations}
+          categories={categories}
+          isSubmitting={isStarting}
+          onCancel={() => setShowForm(false)}
+          onSubmit={(count) => startCount(count, {
+            onSuccess: (stockCount) => {
+              setShowForm(false);
+              setSelectedCountId(stockCount.id);
+            }
+          })}
+        />
+      )}
+
+      {/* Open counts */}
+      {openCounts.length > 1 && (
+        <div className="flex flex-wrap gap-2">
+          {openCounts.map(count => (
+            <button
+              key={count.id}
+              onClick={() => setSelectedCountId(count.id)}
+              className={`rounded-full px-3 py-1 text-sm font-medium ${count.id === selectedCount?.id ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+            >
+              {count.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading stock counts...</p>
+      ) : selectedCount ? (
+        <CountSheet
+          key={selectedCount.id}
+          stockCount={selectedCount}
+          isSaving={isRecording}
+          isCommitting={isCommitting}
+          onSaveCounts={(counts, onSaved) => recordCounts({ id: selectedCount.id, counts: { counts } }, { onSuccess: onSaved })}
+          onCancelCount={() => {
+            if (window.confirm(`Cancel ${selectedCount.name}? Counts entered so far are discarded.`)) {
+              cancelCount(selectedCount.id);
+            }
+          }}
+          onCommit={() => {
+            if (window.confirm(`Adjust stock for ${selectedCount.countedItems} counted item(s)? Uncounted items are left as they are.`)) {
+              commitCount({ id: selectedCount.id });
+            }
+          }}
+        />
+      ) : (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center text-sm text-gray-500">
+          <ClipboardCheck className="mx-auto mb-2 h-8 w-8 text-gray-300" />
+          No count in progress
+        </div>
+      )}
+
+      {/* Shrinkage */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">Shrinkage, Last 30 Days</h3>
+          <span className="text-lg font-semibold text-red-600">${(report?.total ?? 0).toFixed(2)}</span>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <BreakdownTable
+            title="By type"
+            rows={(report?.byType || []).map(row => ({
+              label: row.type === 'adjustment_negative' ? 'Missing at count' : row.type.charAt(0).toUpperCase() + row.type.slice(1),
+              quantity: row.quantity,
+              cost: row.cost
+            }))}
+          />
+          <BreakdownTable
+            title="By category"
+            rows={(report?.byCategory || []).map(row => ({ label: row.categoryName, quantity: row.quantity, cost: row.cost }))}
+          />
+          <BreakdownTable
+            title="By staff member"
+            rows={(report?.byStaffMember || []).map(row => ({ label: row.staffMember, quantity: row.quantity, cost: row.cost }))}
+          />
+        </div>
+      </div>
+
+      {/* History */}
+      {pastCounts.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="p-4 border-b border-gray-200">
+            <h3 className="text-lg font-medium text-gray-900">Recent Counts</h3>
+          </div>
+          <ul className="divide-y divide-gray-200">
+            {pastCounts.map(count => (
+              <li key={count.id} className="p-4 flex items-center justify-between text-sm">
+                <div>
+                  <span className="font-medium text-gray-900">{count.name}</span>
+                  <span className="ml-2 text-gray-500">{count.countNumber}</span>
+                  <p className="text-xs text-gray-500">
+                    {count.status === 'committed'
+                      ? `Committed ${new Date(count.committedAt || count.updatedAt).toLocaleString()}${count.committedBy ? ` by ${count.committedBy}` : ''}`
+                      : 'Cancelled'}
+                  </p>
+                </div>
+                {count.status === 'committed' && (
+                  <span className={`font-medium ${varianceClassName(count.totalVarianceValue)}`}>
+                    ${count.totalVarianceValue.toFixed(2)}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StockCounts;
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ChevronLeft, Layers } from 'lucide-react';
+import Breadcrumbs, { useBreadcrumbs } from '../../components/navigation/Breadcrumbs';
+import { useInventoryValuation, useCostOfGoodsSold } from '../../hooks/useInventory';
+import type { CostingMethod } from '../../lib/api/schemas/inventorySchemas';
+
+const inputClassName = 'rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+// Date inputs are whole days; reports run from the start of the first to the end of the last
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).toISOString();
+const endOfDay = (date: string) => new Date(`${date}T23:59:59.999`).toISOString();
+
+const SummaryCard: React.FC<{ label: string; value: number; hint?: string }> = ({ label, value, hint }) => (
+  <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+    <p className="text-sm text-gray-500">{label}</p>
+    <p className="mt-1 text-2xl font-semibold text-gray-900">${value.toFixed(2)}</p>
+    {hint && <p className="mt-1 text-xs text-gray-400">{hint}</p>}
+  </div>
+);
+
+const Valuation: React.FC = () => {
+  const navigate = useNavigate();
+  const breadcrumbs = useBreadcrumbs();
+  const today = toDateInput(new Date());
+  const [method, setMethod] = useState<CostingMethod>('fifo');
+  const [asOf, setAsOf] = useState(today);
+  const [dateFrom, setDateFrom] = useState(toDateInput(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)));
+  const [dateTo, setDateTo] = useState(today);
+
+  const { valuation, isLoading: isLoadingValuation } = useInventoryValuation({ asOf: endOfDay(asOf), method });
+  const { costOfGoodsSold, isLoading: isLoadingCogs } = useCostOfGoodsSold({
+    dateFrom: startOfDay(dateFrom),
+    dateTo: endOfDay(dateTo),
+    method
+  });
+
+  return (
+    <div className="space-y-6">
+      <Breadcrumbs items={breadcrumbs} />
+
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center">
+          <button onClick={() => navigate('/inventory')} className="mr-3 rounded-full bg-gray-100 p-2 text-gray-700 hover:bg-gray-200">
+            <ChevronLeft size={20} />
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Stock Valuation</h1>
+            <p className="mt-1 text-sm text-gray-500">What stock on hand is worth, and what the stock sold cost</p>
+          </div>
+        </div>
+        <select
+          value={method}
+          onChange={(e) => setMethod(e.target.value as CostingMethod)}
+          className={`mt-4 sm:mt-0 ${inputClassName}`}
+        >
+          <option value="fifo">FIFO</option>
+          <option value="weighted_average">Weighted average</option>
+        </select>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <SummaryCard label="Stock value" value={valuation?.totalValue ?? 0} hint={`As of ${asOf}`} />
+        <SummaryCard label="Cost of goods sold" value={costOfGoodsSold?.total ?? 0} hint={`${dateFrom} to ${dateTo}`} />
+        <SummaryCard label="Shrinkage" value={costOfGoodsSold?.shrinkage ?? 0} hint="Damaged, expired and written off" />
+      </div>
+
+      {/* Valuation */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900">Stock on Hand</h3>
+          <label className="flex items-center space-x-2 text-sm text-gray-500">
+            <span>As of</span>
+            <input type="date" max={today} value={asOf} onChange={(e) => setAsOf(e.target.value || today)} className={inputClassName} />
+          </label>
+        </div>
+        {isLoadingValuation ? (
+          <p className="p-4 text-sm text-gray-500">Valuing stock...</p>
+        ) : !valuation || valuation.items.length === 0 ? (
+          <div className="p-8 text-center text-sm text-gray-500">
+            <Layers className="mx-auto mb-2 h-8 w-8 text-gray-300" />
+            No stock on hand
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  <th className="px-4 py-3">Item</th>
+                  <th className="px-4 py-3 text-right">On Hand</th>
+                  <th className="px-4 py-3 text-right">Unit Cost</th>
+                  <th className="px-4 py-3 text-right">Value</th>
+                  <th className="px-4 py-3">Cost Layers</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {valuation.items.map(line => (
+                  <tr key={line.itemId}>
+                    <td className="px-4 py-2 text-gray-900">
+                      {line.name}
+                      {line.sku && <span className="ml-2 text-xs text-gray-400">{line.sku}</span>}
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-900">{line.quantityOnHand}</td>
+                    <td className="px-4 py-2 text-right text-gray-500">${line.unitCost.toFixed(2)}</td>
+                    <td className="px-4 py-2 text-right font-medium text-gray-900">${line.value.toFixed(2)}</td>
+                    <td className="px-4 py-2 text-xs text-gray-500">
+                      {line.layers.map(layer => `${layer.quantity} @ $${layer.unitCost.toFixed(2)}`).join(' · ')}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Cost of goods sold */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="p-4 border-b border-gray-200 flex flex-col sm:flex-row sm:items-center sm:justify-between">
+          <h3 className="text-lg font-medium text-gray-900">Cost of Goods Sold</h3>
+          <div className="mt-2 sm:mt-0 flex items-center space-x-2 text-sm text-gray-500">
+            <input type="date" max={dateTo} value={dateFrom} onChange={(e) => setDateFrom(e.target.value || dateFrom)} className={inputClassName} />
+            <span>to</span>
+            <input type="date" min={dateFrom} max={today} value={dateTo} onChange={(e) => setDateTo(e.target.value || dateTo)} className={inputClassName} />
+          </div>
+        </div>
+        {isLoadingCogs ? (
+          <p className="p-4 text-sm text-gray-500">Costing sales...</p>
+        ) : !costOfGoodsSold || costOfGoodsSold.items.length === 0 ? (
+          <p className="p-8 text-center text-sm text-gray-500">Nothing sold or written off in this period</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  <th className="px-4 py-3">Item</th>
+                  <th className="px-4 py-3 text-right">Sold</th>
+                  <th className="px-4 py-3 text-right">Cost</th>
+                  <th className="px-4 py-3 text-right">Shrinkage</th>
+                  <th className="px-4 py-3 text-right">Shrinkage Cost</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {costOfGoodsSold.items.map(line => (
+                  <tr key={line.itemId}>
+                    <td className="px-4 py-2 text-gray-900">{line.name}</td>
+                    <td className="px-4 py-2 text-right text-gray-900">{line.quantity}</td>
+                    <td className="px-4 py-2 text-right font-medium text-gray-900">${line.cost.toFixed(2)}</td>
+                    <td className="px-4 py-2 text-right text-gray-500">{line.shrinkageQuantity || '-'}</td>
+                    <td className="px-4 py-2 text-right text-red-600">{line.shrinkageCost > 0 ? `$${line.shrinkageCost.toFixed(2)}` : '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Valuation;
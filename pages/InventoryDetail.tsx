@@ -23,13 +23,31 @@ import { useInventoryItem, useInventoryItems, useInventoryTransactions } from '.
 import Breadcrumbs, { useBreadcrumbs } from '../components/navigation/Breadcrumbs';
 import InventoryFormModal from '../components/inventory/InventoryFormModal';
 import TransactionFormModal from '../components/inventory/TransactionFormModal';
+import LocationStockPanel from '../components/inventory/LocationStockPanel';
+import HistoryPanel from '../components/audit/HistoryPanel';
+import ConflictPrompt, { type ConflictField } from '../components/ui/ConflictPrompt';
+import type { InventoryItem, UpdateInventoryItemRequest } from '../lib/api/schemas/inventorySchemas';
+import type { InventoryItem as ItemFormData } from '../types';
 import { useInventoryCategories } from '../hooks/useInventory';
 import { BarChart as RechartsBarChart, XAxis, YAxis, Tooltip, Legend, Bar, ResponsiveContainer } from 'recharts';
 
+type ItemUpdates = Omit<UpdateInventoryItemRequest, 'id'>;
+
+const itemFields: ConflictField<ItemUpdates>[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'description', label: 'Description' },
+  { key: 'categoryId', label: 'Category' },
+  { key: 'sellPrice', label: 'Sell price' },
+  { key: 'costPrice', label: 'Cost price' },
+  { key: 'reorderPoint', label: 'Reorder point' },
+  { key: 'supplier', label: 'Supplier' },
+  { key: 'isActive', label: 'Active' }
+];
+
 const InventoryDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { data: item, isLoading, isError } = useInventoryItem(id || '');
+  const { data: item, isLoading, isError, refetch } = useInventoryItem(id || '');
   const { items, updateItem, deleteItem } = useInventoryItems();
   const { categories } = useInventoryCategories();
   const { 
@@ -45,6 +63,10 @@ const InventoryDetail: React.FC = () => {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [activeTab, setActiveTab] = useState<'details' | 'transactions' | 'analytics'>('details');
+  // The item as it was when editing started, and edits that were refused
+  // because the item changed in the meantime (a sale moves its stock too)
+  const [editBase, setEditBase] = useState<InventoryItem | null>(null);
+  const [conflict, setConflict] = useState<{ base: InventoryItem; mine: ItemUpdates } | null>(null);
   
   // Generate mock analytics data
   const generateAnalyticsData = () => {
@@ -67,25 +89,40 @@ const InventoryDetail: React.FC = () => {
   
   const analyticsData = generateAnalyticsData();
 
-  // Handle updating an item
-  const handleUpdateItem = async (updatedData: any) => {
-    if (!id) return;
+  const saveItem = async (updates: ItemUpdates, base: InventoryItem) => {
+    if (!id || !base.updatedAt) return;
     
     setIsSubmitting(true);
     try {
-      await updateItem({
-        id,
-        updates: updatedData
-      });
-      setIsEditModalOpen(false);
-      toast.success('Item updated successfully');
-    } catch (error: any) {
-      toast.error(`Error updating item: ${error.message}`);
+      const result = await updateItem(id, updates, base.updatedAt);
+      if (result.success) {
+        setIsEditModalOpen(false);
+        setConflict(null);
+      } else if (result.error?.type === 'conflict') {
+        setIsEditModalOpen(false);
+        setConflict({ base, mine: updates });
+        refetch();
+      }
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  // Handle updating an item
+  // The form edits the item in its display shape; send the fields the service updates
+  const handleUpdateItem = (formData: Omit<ItemFormData, 'id' | 'createdAt' | 'updatedAt'>) => {
+    saveItem({
+      name: formData.name,
+      description: formData.description ?? undefined,
+      categoryId: formData.categoryId ?? undefined,
+      sellPrice: formData.unitPrice ?? undefined,
+      costPrice: formData.costPrice ?? undefined,
+      reorderPoint: formData.reorderLevel,
+      supplier: formData.vendor ?? undefined,
+      isActive: formData.isActive
+    }, editBase || item);
+  };
+
   // Handle deleting an item
   const handleDeleteItem = async () => {
     if (!id) return;
@@ -172,7 +209,10 @@ const InventoryDetail: React.FC = () => {
         
         <div className="flex space-x-2">
           <button 
-            onClick={() => setIsEditModalOpen(true)}
+            onClick={() => {
+              setEditBase(item);
+              setIsEditModalOpen(true);
+            }}
             className="inline-flex items-center rounded-lg bg-zinc-800 px-3 py-2 text-sm font-medium text-white hover:bg-zinc-700 focus:outline-none"
           >
             <Edit size={16} className="mr-2" />
@@ -327,6 +367,8 @@ const InventoryDetail: React.FC = () => {
                   </button>
                 </div>
               </div>
+
+              <LocationStockPanel item={item} />
               
               {/* Quick Stats */}
               <div className="rounded-xl bg-zinc-900 p-6 shadow-lg">
@@ -364,6 +406,8 @@ const InventoryDetail: React.FC = () => {
                   </div>
                 </div>
               </div>
+
+              <HistoryPanel entityType="inventory_items" entityId={item.id} version={item.updatedAt} />
             </div>
           </div>
         )}
@@ -582,6 +626,25 @@ const InventoryDetail: React.FC = () => {
           isSubmitting={isSubmitting}
         />
       )}
+
+      {/* Edit Conflict */}
+      {conflict && (
+        <ConflictPrompt
+          isOpen={!!conflict}
+          entityName="item"
+          fields={itemFields}
+          base={conflict.base}
+          mine={conflict.mine}
+          latest={item.updatedAt !== conflict.base.updatedAt ? item : null}
+          isSubmitting={isSubmitting}
+          onMerge={(merged) => saveItem(merged, item)}
+          onReload={() => {
+            setConflict(null);
+            refetch();
+          }}
+          onCancel={() => setConflict(null)}
+        />
+      )}
       
       {/* Add Transaction Modal */}
       {isTransactionModalOpen && (
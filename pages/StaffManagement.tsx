@@ -7,7 +7,6 @@ import {
   UserPlus, 
   Calendar, 
   Clock, 
-  CreditCard, 
   Star, 
   Upload, 
   Download,
@@ -35,6 +34,11 @@ import { format, addDays, startOfWeek, endOfWeek } from 'date-fns';
 import Breadcrumbs, { useBreadcrumbs } from '../components/navigation/Breadcrumbs';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs';
 import { useStaffManagement } from '../hooks/useStaffManagement';
+import ShiftTemplatesPanel from '../components/staff/ShiftTemplatesPanel';
+import ShiftRequestsPanel from '../components/staff/ShiftRequestsPanel';
+import StaffAvailabilityPanel from '../components/staff/StaffAvailabilityPanel';
+import PayrollPanel from '../components/staff/PayrollPanel';
+import TipPoolPanel from '../components/staff/TipPoolPanel';
 import { toast } from 'react-hot-toast';
 import { StaffMember, Shift } from '../types';
 import { LineChart, Line, AreaChart, Area, BarChart, Bar, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
@@ -576,16 +580,6 @@ interface PerformanceMetrics {
   tasksCompleted: number;
 }
 
-interface PayrollSummary {
-  department: string;
-  totalHours: number;
-  regularPay: number;
-  overtimePay: number;
-  bonuses: number;
-  totalPay: number;
-  staffCount: number;
-}
-
 interface DepartmentMetrics {
   name: string;
   staffCount: number;
@@ -877,47 +871,6 @@ const EnhancedStaffCard: React.FC<{
   );
 };
 
-// Enhanced Payroll Component
-const PayrollSummaryPanel: React.FC<{ payrollData: PayrollSummary[] }> = ({ payrollData }) => {
-  const totalPayroll = payrollData.reduce((sum, dept) => sum + dept.totalPay, 0);
-  
-  return (
-    <div className="relative overflow-hidden rounded-2xl bg-gradient-to-br from-zinc-900 via-zinc-800 to-zinc-900 p-6 backdrop-blur-sm border border-zinc-700/50">
-      <div className="absolute inset-0 bg-gradient-to-br from-green-500/5 to-transparent"></div>
-      <div className="relative">
-        <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
-          <CreditCard className="mr-2 h-5 w-5 text-green-400" />
-          Payroll Summary
-        </h3>
-        
-        <div className="mb-4 p-4 rounded-xl bg-zinc-800/50 border border-zinc-700/50">
-          <div className="flex justify-between items-center">
-            <span className="text-gray-300">Total Monthly Payroll</span>
-            <span className="text-2xl font-bold text-green-400">${totalPayroll.toLocaleString()}</span>
-          </div>
-        </div>
-
-        <div className="space-y-3">
-          {payrollData.map((dept, index) => (
-            <div key={index} className="flex justify-between items-center p-3 rounded-lg bg-zinc-800/30">
-              <div>
-                <p className="text-white font-medium">{dept.department}</p>
-                <p className="text-xs text-gray-400">{dept.staffCount} employees • {dept.totalHours}h total</p>
-              </div>
-              <div className="text-right">
-                <p className="text-white font-semibold">${dept.totalPay.toLocaleString()}</p>
-                <p className="text-xs text-gray-400">
-                  Reg: ${dept.regularPay.toLocaleString()} | OT: ${dept.overtimePay.toLocaleString()}
-                </p>
-              </div>
-            </div>
-          ))}
-        </div>
-      </div>
-    </div>
-  );
-};
-
 // Calendar View Component
 const CalendarView: React.FC<{ shifts: any[]; onShiftClick: (shift: any) => void }> = ({ shifts, onShiftClick }) => {
   const [currentWeek, setCurrentWeek] = useState(new Date());
@@ -1051,15 +1004,6 @@ const StaffManagement: React.FC = () => {
       tasksCompleted: Math.floor(Math.random() * 30) + 15
     })), [staff]);
 
-  const mockPayrollData = useMemo((): PayrollSummary[] => [
-    { department: 'Operations', totalHours: 2400, regularPay: 24000, overtimePay: 4500, bonuses: 1200, totalPay: 29700, staffCount: 15 },
-    { department: 'Customer Service', totalHours: 1920, regularPay: 19200, overtimePay: 2400, bonuses: 800, totalPay: 22400, staffCount: 12 },
-    { department: 'Security', totalHours: 1280, regularPay: 12800, overtimePay: 2400, bonuses: 600, totalPay: 15800, staffCount: 8 },
-    { department: 'Maintenance', totalHours: 960, regularPay: 9600, overtimePay: 1440, bonuses: 400, totalPay: 11440, staffCount: 6 },
-    { department: 'Administration', totalHours: 480, regularPay: 7200, overtimePay: 0, bonuses: 300, totalPay: 7500, staffCount: 3 },
-    { department: 'Food & Beverage', totalHours: 160, regularPay: 1600, overtimePay: 200, bonuses: 100, totalPay: 1900, staffCount: 1 }
-  ], []);
-
   // Enhanced staff with performance metrics
   const enhancedStaff = useMemo(() => 
     staff.map(member => {
@@ -1105,6 +1049,9 @@ const StaffManagement: React.FC = () => {
   }, [staff]);
 
   const allShifts = [...shifts, ...mockShifts];
+
+  const staffOptions = useMemo(() =>
+    staff.map(member => ({ id: member.id, name: `${member.firstName} ${member.lastName}` })), [staff]);
   
   // Filter and search functionality
   const departments = useMemo(() => 
@@ -1434,7 +1381,11 @@ const StaffManagement: React.FC = () => {
                   <CalendarView shifts={allShifts} onShiftClick={handleShiftClick} />
                 </div>
                 <div className="space-y-6">
-                  <PayrollSummaryPanel payrollData={mockPayrollData} />
+                  <ShiftRequestsPanel />
+                  <StaffAvailabilityPanel staff={staffOptions} />
+                  <ShiftTemplatesPanel staff={staffOptions} />
+                  <TipPoolPanel staff={staffOptions} />
+                  <PayrollPanel staff={staffOptions} />
               </div>
             </div>
           </div>
@@ -25,7 +25,9 @@ import { Link, Routes, Route, useNavigate } from 'react-router-dom';
 import CreateEvent from './CreateEvent';
 import EventDetail from './EventDetail';
 import CalendarView from './CalendarView';
+import TicketScanner from './Ticketing/TicketScanner';
 import { useEvents } from '../hooks/useEvents';
+import type { Event as ApiEvent, TicketTierType } from '../lib/api/schemas/eventSchemas';
 import Breadcrumbs, { useBreadcrumbs } from '../components/navigation/Breadcrumbs';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area, BarChart, Bar } from 'recharts';
 import { format, isToday, isTomorrow, differenceInDays } from 'date-fns';
@@ -295,6 +297,80 @@ const TicketSalesChart: React.FC<{ events: any[] }> = ({ events }) => {
   );
 };
 
+const TIER_LABELS: Record<TicketTierType, string> = {
+  general: 'General Admission',
+  vip: 'VIP',
+  earlyBird: 'Early Bird',
+};
+
+const TicketTierBreakdown: React.FC<{ events: ApiEvent[] }> = ({ events }) => {
+  const tiers = useMemo(() => {
+    const totals: Record<TicketTierType, { sold: number; capacity: number; revenue: number }> = {
+      general: { sold: 0, capacity: 0, revenue: 0 },
+      vip: { sold: 0, capacity: 0, revenue: 0 },
+      earlyBird: { sold: 0, capacity: 0, revenue: 0 },
+    };
+
+    events.forEach(event => {
+      if (event.ticketTiers && event.ticketTiers.length > 0) {
+        event.ticketTiers.forEach(tier => {
+          totals[tier.type].sold += tier.sold;
+          totals[tier.type].capacity += tier.capacity;
+          totals[tier.type].revenue += tier.sold * tier.price;
+        });
+      } else {
+        // Events without tier allocations sell general admission only
+        totals.general.sold += event.ticketsSold || 0;
+        totals.general.capacity += event.totalCapacity;
+        totals.general.revenue += (event.ticketsSold || 0) * event.ticketPrice;
+      }
+    });
+
+    return (Object.keys(totals) as TicketTierType[])
+      .map(type => ({ type, ...totals[type] }))
+      .filter(tier => tier.capacity > 0);
+  }, [events]);
+
+  return (
+    <div className="rounded-xl bg-zinc-900/50 backdrop-blur-sm border border-zinc-700/50 p-6 shadow-xl">
+      <div className="flex items-center mb-6">
+        <div className="rounded-full bg-amber-500/20 p-2 mr-3">
+          <Star className="h-5 w-5 text-amber-400" />
+        </div>
+        <h2 className="text-xl font-semibold text-white">Sales by Ticket Tier</h2>
+      </div>
+
+      {tiers.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {tiers.map(tier => {
+            const soldPercentage = tier.capacity > 0 ? (tier.sold / tier.capacity) * 100 : 0;
+            return (
+              <div key={tier.type} className="rounded-lg bg-zinc-800/50 p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm font-medium text-white">{TIER_LABELS[tier.type]}</span>
+                  <span className="text-xs text-gray-400">{tier.sold}/{tier.capacity}</span>
+                </div>
+                <div className="h-2 w-full rounded-full bg-zinc-700 overflow-hidden mb-2">
+                  <div
+                    className="h-full rounded-full bg-gradient-to-r from-amber-500 to-orange-500 transition-all duration-500"
+                    style={{ width: `${Math.min(soldPercentage, 100)}%` }}
+                  ></div>
+                </div>
+                <div className="flex items-center justify-between text-xs">
+                  <span className="text-gray-400">{tier.capacity - tier.sold} remaining</span>
+                  <span className="text-amber-400">${tier.revenue.toLocaleString()}</span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-400">No ticket sales yet</p>
+      )}
+    </div>
+  );
+};
+
 const TicketingDashboard: React.FC = () => {
   const navigate = useNavigate();
   const { events, loading, error } = useEvents();
@@ -311,6 +387,9 @@ const TicketingDashboard: React.FC = () => {
     ticketsSold: event.ticketsSold || 0,
     totalCapacity: event.totalCapacity,
     averagePrice: typeof event.ticketPrice === 'number' ? event.ticketPrice : 0,
+    revenue: event.ticketTiers && event.ticketTiers.length > 0
+      ? event.ticketTiers.reduce((sum, tier) => sum + tier.sold * tier.price, 0)
+      : (event.ticketsSold || 0) * (typeof event.ticketPrice === 'number' ? event.ticketPrice : 0),
     status: event.status as 'upcoming' | 'ongoing' | 'completed',
     venue: 'Main Stage', // Default venue since not in Event type
     genre: event.genre
@@ -330,7 +409,7 @@ const TicketingDashboard: React.FC = () => {
 
   // Calculate totals
   const totalTicketsSold = allEvents.reduce((sum, event) => sum + event.ticketsSold, 0);
-  const totalRevenue = allEvents.reduce((sum, event) => sum + (event.ticketsSold * event.averagePrice), 0);
+  const totalRevenue = allEvents.reduce((sum, event) => sum + event.revenue, 0);
   const upcomingEventsCount = allEvents.filter(event => event.status === 'upcoming').length;
   
   const isLoading = loading.isLoading;
@@ -448,6 +527,9 @@ const TicketingDashboard: React.FC = () => {
         <EnhancedQRSection />
       </div>
 
+      {/* Ticket Tier Breakdown */}
+      <TicketTierBreakdown events={events} />
+
       {/* Search and Filter */}
       <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between space-y-4 sm:space-y-0 space-x-0 sm:space-x-4">
         <div className="relative flex-1 max-w-md">
@@ -548,6 +630,7 @@ const Ticketing: React.FC = () => {
       <Route path="/" element={<TicketingDashboard />} />
       <Route path="/create" element={<CreateEvent />} />
       <Route path="/:id" element={<EventDetail />} />
+      <Route path="/:id/scanner" element={<TicketScanner />} />
       <Route path="/calendar" element={<CalendarView />} />
     </Routes>
   );
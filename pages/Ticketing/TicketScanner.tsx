@@ -0,0 +1,175 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import {
+  ChevronLeft,
+  QrCode,
+  Download,
+  RefreshCw,
+  Wifi,
+  WifiOff,
+  CheckCircle,
+  XCircle,
+  AlertTriangle
+} from 'lucide-react';
+import { format } from 'date-fns';
+import Breadcrumbs, { useBreadcrumbs } from '../../components/navigation/Breadcrumbs';
+import { useTicketScanner } from '../../hooks/useTicketScanner';
+import type { TicketScanResult } from '../../lib/api/schemas/eventSchemas';
+
+const RESULT_STYLES: Record<TicketScanResult['result'], { label: string; className: string; icon: React.ReactNode }> = {
+  admitted: {
+    label: 'Admitted',
+    className: 'bg-green-500/10 border-green-500/30 text-green-400',
+    icon: <CheckCircle className="h-5 w-5 text-green-400" />
+  },
+  duplicate: {
+    label: 'Already Scanned',
+    className: 'bg-amber-500/10 border-amber-500/30 text-amber-400',
+    icon: <AlertTriangle className="h-5 w-5 text-amber-400" />
+  },
+  invalid: {
+    label: 'Invalid',
+    className: 'bg-red-500/10 border-red-500/30 text-red-400',
+    icon: <XCircle className="h-5 w-5 text-red-400" />
+  }
+};
+
+const TicketScanner: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const breadcrumbs = useBreadcrumbs();
+  const {
+    guestList,
+    recentScans,
+    pendingCount,
+    admittedCount,
+    isOnline,
+    isDownloading,
+    isSyncing,
+    downloadGuestList,
+    syncScans,
+    scan
+  } = useTicketScanner(id || '');
+
+  const [code, setCode] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Handheld scanners type the code and press Enter, so keep the input focused
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, [recentScans.length]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    scan(code);
+    setCode('');
+  };
+
+  const lastScan = recentScans[0];
+
+  return (
+    <div className="space-y-6">
+      <Breadcrumbs items={breadcrumbs} />
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center">
+          <button
+            onClick={() => navigate(`/ticketing/${id}`)}
+            className="mr-3 rounded-full bg-zinc-800 p-2 text-white hover:bg-zinc-700"
+          >
+            <ChevronLeft size={20} />
+          </button>
+          <div>
+            <h1 className="font-playfair text-3xl font-bold text-white">Door Scanner</h1>
+            <p className="text-sm text-gray-400">
+              {admittedCount}/{guestList.length} admitted
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center space-x-3">
+          <span className={`flex items-center rounded-full px-3 py-1 text-xs font-medium ${
+            isOnline ? 'bg-green-500/20 text-green-400' : 'bg-red-500/20 text-red-400'
+          }`}>
+            {isOnline ? <Wifi size={14} className="mr-1" /> : <WifiOff size={14} className="mr-1" />}
+            {isOnline ? 'Online' : 'Offline'}
+          </span>
+          <button
+            onClick={downloadGuestList}
+            disabled={!isOnline || isDownloading}
+            className="flex items-center rounded-lg bg-zinc-800 px-3 py-2 text-sm font-medium text-white hover:bg-zinc-700 disabled:opacity-50"
+          >
+            <Download size={16} className="mr-2" />
+            {isDownloading ? 'Downloading...' : 'Cache Guest List'}
+          </button>
+          <button
+            onClick={syncScans}
+            disabled={!isOnline || isSyncing || pendingCount === 0}
+            className="flex items-center rounded-lg bg-amber-600 px-3 py-2 text-sm font-medium text-white hover:bg-amber-700 disabled:opacity-50"
+          >
+            <RefreshCw size={16} className={`mr-2 ${isSyncing ? 'animate-spin' : ''}`} />
+            Sync ({pendingCount})
+          </button>
+        </div>
+      </div>
+
+      {guestList.length === 0 && (
+        <div className="rounded-lg border border-amber-500/30 bg-amber-500/10 p-4 text-sm text-amber-300">
+          No guest list cached on this device. Cache it while online so scanning keeps working if the connection drops.
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="rounded-xl bg-zinc-900 p-6 shadow-lg">
+        <label htmlFor="ticketCode" className="mb-2 flex items-center text-sm font-medium text-gray-300">
+          <QrCode size={16} className="mr-2 text-amber-500" />
+          Scan or enter ticket code
+        </label>
+        <input
+          ref={inputRef}
+          id="ticketCode"
+          type="text"
+          autoComplete="off"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          className="block w-full rounded-md border border-zinc-700 bg-zinc-800 px-3 py-3 font-mono text-white placeholder-gray-500 focus:border-amber-500 focus:outline-none"
+          placeholder="TS1...."
+        />
+      </form>
+
+      {lastScan && (
+        <div className={`flex items-center rounded-xl border p-6 ${RESULT_STYLES[lastScan.result].className}`}>
+          {RESULT_STYLES[lastScan.result].icon}
+          <div className="ml-3">
+            <p className="text-lg font-semibold">{RESULT_STYLES[lastScan.result].label}</p>
+            <p className="text-sm text-gray-300">
+              {lastScan.purchaserName || lastScan.reason}
+              {lastScan.firstScannedAt && ` · first scanned ${format(new Date(lastScan.firstScannedAt), 'h:mm a')}`}
+            </p>
+          </div>
+        </div>
+      )}
+
+      <div className="rounded-xl bg-zinc-900 p-6 shadow-lg">
+        <h2 className="mb-4 text-lg font-semibold text-white">Recent Scans</h2>
+        {recentScans.length > 0 ? (
+          <ul className="divide-y divide-zinc-800">
+            {recentScans.map((result) => (
+              <li key={`${result.code}-${result.scannedAt}`} className="flex items-center justify-between py-2">
+                <div className="flex items-center">
+                  {RESULT_STYLES[result.result].icon}
+                  <span className="ml-2 text-sm text-white">{result.purchaserName || result.reason}</span>
+                </div>
+                <span className="text-xs text-gray-400">{format(new Date(result.scannedAt), 'h:mm:ss a')}</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-400">No scans yet</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TicketScanner;
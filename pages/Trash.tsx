@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from 'react';
+import { Clock, RotateCcw, Search, Trash2, User } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { useTrash } from '../hooks/useTrash';
+import {
+  TRASH_ENTITY_LABELS,
+  type TrashEntityType,
+  type TrashEntry
+} from '../lib/api/schemas/trashSchemas';
+
+const inputClassName = 'px-3 py-2 bg-gray-700/50 border border-gray-600 rounded-lg text-white text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// Restoring brings these back along with the record
+const relatedLabels: Record<string, string> = {
+  customer_interactions: 'interaction',
+  inventory_transactions: 'stock transaction',
+  staff_schedules: 'upcoming shift'
+};
+
+const describeRelated = (entry: TrashEntry) => entry.related
+  .map(rows => `${rows.ids.length} ${relatedLabels[rows.table] || rows.table}${rows.ids.length === 1 ? '' : 's'}`)
+  .join(', ');
+
+const Trash: React.FC = () => {
+  const [entityType, setEntityType] = useState<TrashEntityType | ''>('');
+  const [search, setSearch] = useState('');
+  const [retentionDays, setRetentionDays] = useState('');
+
+  const {
+    entries,
+    retentionPolicy,
+    isLoading,
+    isError,
+    restoreEntry,
+    purgeExpired,
+    updateRetentionPolicy,
+    restoringId,
+    isPurging,
+    isSavingPolicy
+  } = useTrash({ entityType: entityType || undefined, search: search.trim() || undefined });
+
+  useEffect(() => {
+    if (retentionPolicy) setRetentionDays(String(retentionPolicy.retentionDays));
+  }, [retentionPolicy]);
+
+  const expiredCount = entries.filter(entry => new Date(entry.purgeAt) <= new Date()).length;
+
+  const handleSavePolicy = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateRetentionPolicy({ retentionDays: Number(retentionDays) });
+  };
+
+  const handlePurge = () => {
+    if (window.confirm(`Permanently delete ${expiredCount} record(s) past the retention period? This cannot be undone.`)) {
+      purgeExpired();
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Trash</h1>
+          <p className="text-gray-400">Deleted customers, inventory items, staff and transactions</p>
+        </div>
+        <button
+          onClick={handlePurge}
+          disabled={expiredCount === 0 || isPurging}
+          className="mt-3 sm:mt-0 px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg font-medium transition-colors flex items-center disabled:opacity-50"
+        >
+          <Trash2 className="h-4 w-4 mr-2" />
+          {isPurging ? 'Emptying...' : `Empty Expired (${expiredCount})`}
+        </button>
+      </div>
+
+      {/* Retention Policy */}
+      <form onSubmit={handleSavePolicy} className="bg-gray-800/50 rounded-xl p-6 border border-gray-700/50 flex flex-col sm:flex-row sm:items-end gap-4">
+        <div className="flex-1">
+          <h3 className="text-lg font-semibold text-white">Retention</h3>
+          <p className="text-gray-400 text-sm">
+            Deleted records can be restored until they are purged.
+            {retentionPolicy?.updatedBy && ` Last changed by ${retentionPolicy.updatedBy}.`}
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          Keep for
+          <input
+            type="number"
+            min={1}
+            max={3650}
+            required
+            value={retentionDays}
+            onChange={(e) => setRetentionDays(e.target.value)}
+            className={`${inputClassName} w-24`}
+          />
+          days
+        </label>
+        <button
+          type="submit"
+          disabled={isSavingPolicy || !retentionDays || Number(retentionDays) === retentionPolicy?.retentionDays}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+        >
+          {isSavingPolicy ? 'Saving...' : 'Save'}
+        </button>
+      </form>
+
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+          <input
+            type="text"
+            placeholder="Search by name or who deleted it"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className={`${inputClassName} w-full pl-9`}
+          />
+        </div>
+        <select
+          value={entityType}
+          onChange={(e) => setEntityType(e.target.value as TrashEntityType | '')}
+          className={inputClassName}
+        >
+          <option value="">All types</option>
+          {Object.entries(TRASH_ENTITY_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Deleted Records */}
+      <div className="space-y-3">
+        {isLoading ? (
+          <div className="flex justify-center py-10">
+            <div className="h-6 w-6 animate-spin rounded-full border-2 border-blue-500 border-t-transparent"></div>
+          </div>
+        ) : isError ? (
+          <p className="text-center py-10 text-gray-400">The trash could not be loaded.</p>
+        ) : entries.length === 0 ? (
+          <div className="text-center py-10 text-gray-400">
+            <Trash2 className="h-12 w-12 mx-auto mb-3 opacity-50" />
+            <p>The trash is empty</p>
+          </div>
+        ) : entries.map(entry => {
+          const isExpired = new Date(entry.purgeAt) <= new Date();
+          return (
+            <div key={entry.id} className="bg-gray-800/50 rounded-lg border border-gray-700/50 p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="px-2 py-0.5 rounded text-xs bg-gray-700 text-gray-300">{TRASH_ENTITY_LABELS[entry.entityType]}</span>
+                  <span className="text-white font-medium">{entry.label}</span>
+                </div>
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-2 text-xs text-gray-400">
+                  <span className="flex items-center gap-1">
+                    <User className="h-3 w-3" />
+                    {entry.deletedByEmail || 'Unknown user'}
+                  </span>
+                  <span className="flex items-center gap-1" title={format(new Date(entry.deletedAt), 'MMM d, yyyy HH:mm')}>
+                    <Clock className="h-3 w-3" />
+                    Deleted {formatDistanceToNow(new Date(entry.deletedAt), { addSuffix: true })}
+                  </span>
+                  <span className={isExpired ? 'text-red-400' : ''}>
+                    {isExpired ? 'Due to be purged' : `Purged ${format(new Date(entry.purgeAt), 'MMM d, yyyy')}`}
+                  </span>
+                  {entry.related.length > 0 && <span>Includes {describeRelated(entry)}</span>}
+                </div>
+              </div>
+              <button
+                onClick={() => restoreEntry(entry.id)}
+                disabled={!!restoringId}
+                className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg text-sm font-medium transition-colors flex items-center justify-center disabled:opacity-50"
+              >
+                <RotateCcw className={`h-4 w-4 mr-2 ${restoringId === entry.id ? 'animate-spin' : ''}`} />
+                {restoringId === entry.id ? 'Restoring...' : 'Restore'}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default Trash;
@@ -8,6 +8,11 @@ import { FinanceService } from '../../../src/lib/api/services/financeService.ts'
 import { StaffService } from '../../../src/lib/api/services/staffService.ts';
 import { EventsService } from '../../../src/lib/api/services/eventsService.ts';
 import { ArtistService } from '../../../src/lib/api/services/artistService.ts';
+import { PurchasingService } from '../../../src/lib/api/services/purchasingService.ts';
+import { RecipeService } from '../../../src/lib/api/services/recipeService.ts';
+import { StockCountService } from '../../../src/lib/api/services/stockCountService.ts';
+import { AuditService } from '../../../src/lib/api/services/auditService.ts';
+import { TrashService } from '../../../src/lib/api/services/trashService.ts';
 
 // Route handlers
 interface RouteHandler {
@@ -19,8 +24,16 @@ const customerService = new CustomerService();
 const inventoryService = new InventoryService();
 const financeService = new FinanceService();
 const staffService = new StaffService();
-const eventsService = new EventsService();
+// Scanned ticket codes are verified here so the secret never reaches the browser
+const eventsService = new EventsService({
+  ticketSigningSecret: Deno.env.get('TICKET_SIGNING_SECRET') ?? undefined,
+});
 const artistService = new ArtistService();
+const purchasingService = new PurchasingService();
+const recipeService = new RecipeService();
+const stockCountService = new StockCountService();
+const auditService = new AuditService();
+const trashService = new TrashService();
 
 // Helper to create standardized responses
 const createResponse = (data: unknown, status = 200) => {
@@ -113,9 +126,12 @@ const routes: RouteHandler[] = [
       
       if (req.method === 'PUT') {
         try {
-          const body = await req.json();
-          const result = await customerService.updateCustomer(id, body);
-          return createResponse(result, result.success ? 200 : 400);
+          const { expectedUpdatedAt, ...updates } = await req.json();
+          if (!expectedUpdatedAt) {
+            return createErrorResponse('expectedUpdatedAt is required: send the updatedAt of the record as it was read', 428);
+          }
+          const result = await customerService.updateCustomer(id, updates, expectedUpdatedAt);
+          return createResponse(result, result.success ? 200 : result.error?.status === 409 ? 409 : 400);
         } catch (error) {
           return createErrorResponse('Invalid JSON body', 400);
         }
@@ -138,15 +154,1385 @@ const routes: RouteHandler[] = [
       const { id } = params;
       
       if (req.method === 'GET') {
-        const result = await customerService.getCustomerInteractions(id);
+        const result = await customerService.getCustomerInteractions(id);
+        return createResponse(result, result.success ? 200 : 404);
+      }
+      
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json();
+          const interactionData = { ...body, customerId: id };
+          const result = await customerService.createInteraction(interactionData);
+          return createResponse(result, result.success ? 201 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+      
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  // Inventory endpoints
+  {
+    pattern: new URLPattern({ pathname: '/api/inventory' }),
+    handler: async (req) => {
+      if (req.method === 'GET') {
+        const url = new URL(req.url);
+        const query = Object.fromEntries(url.searchParams);
+        const result = await inventoryService.getInventoryItems(query);
+        return createResponse(result, result.success ? 200 : 400);
+      }
+      
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json();
+          const result = await inventoryService.createInventoryItem(body);
+          return createResponse(result, result.success ? 201 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+      
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  // Purchasing endpoints - ahead of /api/inventory/:id so they are not taken for item IDs
+  {
+    pattern: new URLPattern({ pathname: '/api/inventory/suppliers' }),
+    handler: async (req) => {
+      if (req.method === 'GET') {
+        const result = await purchasingService.getSuppliers();
+        return createResponse(result, result.success ? 200 : 400);
+      }
+
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json();
+          const result = await purchasingService.createSupplier(body);
+          return createResponse(result, result.success ? 201 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/inventory/suppliers/:id' }),
+    handler: async (req, params) => {
+      const { id } = params;
+
+      if (req.method === 'PUT') {
+        try {
+          const { expectedUpdatedAt, ...updates } = await req.json();
+          if (!expectedUpdatedAt) {
+            return createErrorResponse('expectedUpdatedAt is required: send the updatedAt of the record as it was read', 428);
+          }
+          const result = await purchasingService.updateSupplier(id, updates, expectedUpdatedAt);
+          return createResponse(result, result.success ? 200 : result.error?.status === 409 ? 409 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/inventory/purchase-orders' }),
+    handler: async (req) => {
+      if (req.method === 'GET') {
+        const url = new URL(req.url);
+        const query = Object.fromEntries(url.searchParams);
+        const result = await purchasingService.getPurchaseOrders(query);
+        return createResponse(result, result.success ? 200 : 400);
+      }
+
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json();
+          const result = await purchasingService.createPurchaseOrder(body);
+          return createResponse(result, result.success ? 201 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/inventory/purchase-orders/draft' }),
+    handler: async (req) => {
+      if (req.method === 'POST') {
+        const result = await purchasingService.draftPurchaseOrdersFromAlerts();
+        return createResponse(result, result.success ? 201 : 400);
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/inventory/purchase-orders/:id' }),
+    handler: async (req, params) => {
+      const { id } = params;
+
+      if (req.method === 'GET') {
+        const result = await purchasingService.getPurchaseOrderById(id);
+        return createResponse(result, result.success ? 200 : 404);
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/inventory/purchase-orders/:id/:action(submit|cancel)' }),
+    handler: async (req, params) => {
+      const { id, action } = params;
+
+      if (req.method === 'POST') {
+        const result = action === 'submit'
+          ? await purchasingService.submitPurchaseOrder(id)
+          : await purchasingService.cancelPurchaseOrder(id);
+        return createResponse(result, result.success ? 200 : 400);
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/inventory/purchase-orders/:id/receive' }),
+    handler: async (req, params) => {
+      const { id } = params;
+
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json();
+          const result = await purchasingService.receivePurchaseOrder(id, body);
+          return createResponse(result, result.success ? 200 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/inventory/stock-positions' }),
+    handler: async (req) => {
+      if (req.method === 'GET') {
+        const result = await purchasingService.getStockPositions();
+        return createResponse(result, result.success ? 200 : 400);
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  // Recipe and sales endpoints
+  {
+    pattern: new URLPattern({ pathname: '/api/inventory/recipes' }),
+    handler: async (req) => {
+      if (req.method === 'GET') {
+        const result = await recipeService.getRecipes();
+        return createResponse(result, result.success ? 200 : 400);
+      }
+
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json();
+          const result = await recipeService.createRecipe(body);
+          return createResponse(result, result.success ? 201 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/inventory/recipes/:id' }),
+    handler: async (req, params) => {
+      const { id } = params;
+
+      if (req.method === 'GET') {
+        const result = await recipeService.getRecipeById(id);
+        return createResponse(result, result.success ? 200 : 404);
+      }
+
+      if (req.method === 'PUT') {
+        try {
+          const { expectedUpdatedAt, ...updates } = await req.json();
+          if (!expectedUpdatedAt) {
+            return createErrorResponse('expectedUpdatedAt is required: send the updatedAt of the record as it was read', 428);
+          }
+          const result = await recipeService.updateRecipe(id, updates, expectedUpdatedAt);
+          return createResponse(result, result.success ? 200 : result.error?.status === 409 ? 409 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/inventory/sales' }),
+    handler: async (req) => {
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json();
+          const result = await recipeService.recordSale(body);
+          return createResponse(result, result.success ? 201 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/inventory/sales/square' }),
+    handler: async (req) => {
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json();
+          const result = await recipeService.importSquareSales(body);
+          return createResponse(result, result.success ? 200 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  // Valuation and cost of goods sold endpoints
+  {
+    pattern: new URLPattern({ pathname: '/api/inventory/valuation' }),
+    handler: async (req) => {
+      if (req.method === 'GET') {
+        const url = new URL(req.url);
+        const query = Object.fromEntries(url.searchParams);
+        const result = await inventoryService.getValuationReport(query);
+        return createResponse(result, result.success ? 200 : 400);
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/inventory/cogs' }),
+    handler: async (req) => {
+      if (req.method === 'GET') {
+        const url = new URL(req.url);
+        const query = Object.fromEntries(url.searchParams);
+        const result = await inventoryService.getCostOfGoodsSold(query);
+        return createResponse(result, result.success ? 200 : 400);
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  // Stock count (stock-take) endpoints
+  {
+    pattern: new URLPattern({ pathname: '/api/inventory/stock-counts' }),
+    handler: async (req) => {
+      if (req.method === 'GET') {
+        const url = new URL(req.url);
+        const status = (url.searchParams.get('status') || undefined) as 'in_progress' | 'committed' | 'cancelled' | undefined;
+        const result = await stockCountService.getStockCounts({ status });
+        return createResponse(result, result.success ? 200 : 400);
+      }
+
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json();
+          const result = await stockCountService.startStockCount(body);
+          return createResponse(result, result.success ? 201 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/inventory/stock-counts/:id' }),
+    handler: async (req, params) => {
+      const { id } = params;
+
+      if (req.method === 'GET') {
+        const result = await stockCountService.getStockCountById(id);
+        return createResponse(result, result.success ? 200 : 404);
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/inventory/stock-counts/:id/counts' }),
+    handler: async (req, params) => {
+      const { id } = params;
+
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json();
+          const result = await stockCountService.recordCounts(id, body);
+          return createResponse(result, result.success ? 200 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/inventory/stock-counts/:id/:action(commit|cancel)' }),
+    handler: async (req, params) => {
+      const { id, action } = params;
+
+      if (req.method === 'POST') {
+        if (action === 'cancel') {
+          const result = await stockCountService.cancelStockCount(id);
+          return createResponse(result, result.success ? 200 : 400);
+        }
+
+        // The commit body (reason, staff member) is optional
+        const body = await req.json().catch(() => ({}));
+        const result = await stockCountService.commitStockCount(id, body);
+        return createResponse(result, result.success ? 200 : 400);
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/inventory/shrinkage' }),
+    handler: async (req) => {
+      if (req.method === 'GET') {
+        const url = new URL(req.url);
+        const query = Object.fromEntries(url.searchParams);
+        const result = await stockCountService.getShrinkageReport(query);
+        return createResponse(result, result.success ? 200 : 400);
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/inventory/adjustments/bulk' }),
+    handler: async (req) => {
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json();
+          const result = await inventoryService.bulkAdjustStock(body);
+          return createResponse(result, result.success ? 200 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  // Multi-location endpoints
+  {
+    pattern: new URLPattern({ pathname: '/api/inventory/transfers' }),
+    handler: async (req) => {
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json();
+          const result = await inventoryService.transferStock(body);
+          return createResponse(result, result.success ? 201 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/inventory/alerts' }),
+    handler: async (req) => {
+      if (req.method === 'GET') {
+        const url = new URL(req.url);
+        const location = url.searchParams.get('location') || undefined;
+        const inventoryId = url.searchParams.get('inventoryId') || undefined;
+        const status = (url.searchParams.get('status') || undefined) as 'active' | 'resolved' | 'all' | undefined;
+        const includeSnoozed = url.searchParams.get('includeSnoozed') !== 'false';
+        const result = await inventoryService.getAlerts({ location, inventoryId, status, includeSnoozed });
+        return createResponse(result, result.success ? 200 : 400);
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/inventory/alerts/refresh' }),
+    handler: async (req) => {
+      if (req.method === 'POST') {
+        const result = await inventoryService.refreshAlerts();
+        return createResponse(result, result.success ? 200 : 400);
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/inventory/alerts/:id/:action(acknowledge|snooze|assign)' }),
+    handler: async (req, params) => {
+      const { id, action } = params;
+
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json();
+          const result = action === 'acknowledge'
+            ? await inventoryService.acknowledgeAlert(id, body)
+            : action === 'snooze'
+              ? await inventoryService.snoozeAlert(id, body)
+              : await inventoryService.assignAlert(id, body);
+          return createResponse(result, result.success ? 200 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/inventory/:id/locations' }),
+    handler: async (req, params) => {
+      const { id } = params;
+
+      if (req.method === 'PUT') {
+        try {
+          const body = await req.json();
+          const result = await inventoryService.updateLocationLevels(id, body);
+          return createResponse(result, result.success ? 200 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/inventory/:id/metrics' }),
+    handler: async (req, params) => {
+      const { id } = params;
+
+      if (req.method === 'GET') {
+        const url = new URL(req.url);
+        const method = url.searchParams.get('method') === 'weighted_average' ? 'weighted_average' : 'fifo';
+        const result = await inventoryService.calculateItemMetrics(id, method);
+        return createResponse(result, result.success ? 200 : 404);
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/inventory/:id' }),
+    handler: async (req, params) => {
+      const { id } = params;
+      
+      if (req.method === 'GET') {
+        const result = await inventoryService.getInventoryItemById(id);
+        return createResponse(result, result.success ? 200 : 404);
+      }
+      
+      if (req.method === 'PUT') {
+        try {
+          const { expectedUpdatedAt, ...updates } = await req.json();
+          if (!expectedUpdatedAt) {
+            return createErrorResponse('expectedUpdatedAt is required: send the updatedAt of the record as it was read', 428);
+          }
+          const result = await inventoryService.updateInventoryItem(id, updates, expectedUpdatedAt);
+          return createResponse(result, result.success ? 200 : result.error?.status === 409 ? 409 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+      
+      if (req.method === 'DELETE') {
+        const result = await inventoryService.deleteInventoryItem(id);
+        return createResponse(result, result.success ? 200 : 400);
+      }
+      
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/inventory/transactions' }),
+    handler: async (req) => {
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json();
+          const result = await inventoryService.recordTransaction(body);
+          return createResponse(result, result.success ? 201 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+      
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/inventory/categories' }),
+    handler: async (req) => {
+      if (req.method === 'GET') {
+        const result = await inventoryService.getCategories();
+        return createResponse(result, result.success ? 200 : 400);
+      }
+      
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json();
+          const result = await inventoryService.createCategory(body);
+          return createResponse(result, result.success ? 201 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+      
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  // Finance endpoints
+  {
+    pattern: new URLPattern({ pathname: '/api/finances/transactions' }),
+    handler: async (req) => {
+      if (req.method === 'GET') {
+        const url = new URL(req.url);
+        const query = Object.fromEntries(url.searchParams);
+        const result = await financeService.getTransactions(query);
+        return createResponse(result, result.success ? 200 : 400);
+      }
+      
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json();
+          const result = await financeService.createTransaction(body);
+          return createResponse(result, result.success ? 201 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+      
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/finances/transactions/:id/approve' }),
+    handler: async (req, params) => {
+      const { id } = params;
+      
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json();
+          const result = await financeService.approveTransaction(id, body.approverId, body.notes);
+          return createResponse(result, result.success ? 200 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+      
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/finances/transactions/:id/reconcile' }),
+    handler: async (req, params) => {
+      const { id } = params;
+      
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json().catch(() => ({}));
+          const result = await financeService.reconcileTransaction(id, body.reconciled !== false, body.statementReference, body.accountId);
+          return createResponse(result, result.success ? 200 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+      
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/finances/statements/import' }),
+    handler: async (req) => {
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json();
+          const result = await financeService.importBankStatement(body);
+          return createResponse(result, result.success ? 200 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+      
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/finances/transactions/:id/occurrences' }),
+    handler: async (req, params) => {
+      const { id } = params;
+      
+      if (req.method === 'GET') {
+        const url = new URL(req.url);
+        const count = url.searchParams.get('count');
+        const from = url.searchParams.get('from') || undefined;
+        const result = await financeService.previewRecurringTransaction(id, count ? Number(count) : undefined, from);
+        return createResponse(result, result.success ? 200 : 400);
+      }
+      
+      if (req.method === 'PUT') {
+        try {
+          const { expectedUpdatedAt, ...body } = await req.json();
+          if (!expectedUpdatedAt) {
+            return createErrorResponse('expectedUpdatedAt is required: send the updatedAt of the record as it was read', 428);
+          }
+          const result = await financeService.updateRecurringTransaction({ ...body, seriesId: id }, expectedUpdatedAt);
+          return createResponse(result, result.success ? 200 : result.error?.status === 409 ? 409 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+      
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/finances/transactions/:id/occurrences/skip' }),
+    handler: async (req, params) => {
+      const { id } = params;
+      
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json();
+          const result = await financeService.skipRecurringOccurrence(id, body.occurrenceDate);
+          return createResponse(result, result.success ? 200 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+      
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/finances/recurring/generate' }),
+    handler: async (req) => {
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json().catch(() => ({}));
+          const result = await financeService.generateRecurringTransactions(body.asOf, body.seriesId);
+          return createResponse(result, result.success ? 201 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+      
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/finances/accounts' }),
+    handler: async (req) => {
+      if (req.method === 'GET') {
+        const result = await financeService.getAccounts();
+        return createResponse(result, result.success ? 200 : 400);
+      }
+      
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json();
+          const result = await financeService.createAccount(body);
+          return createResponse(result, result.success ? 201 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+      
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/finances/budgets' }),
+    handler: async (req) => {
+      if (req.method === 'GET') {
+        const result = await financeService.getBudgets();
+        return createResponse(result, result.success ? 200 : 400);
+      }
+      
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json();
+          const result = await financeService.createBudget(body);
+          return createResponse(result, result.success ? 201 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+      
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/finances/budgets/variance' }),
+    handler: async (req) => {
+      if (req.method === 'GET') {
+        const url = new URL(req.url);
+        const dateFrom = url.searchParams.get('dateFrom') || undefined;
+        const dateTo = url.searchParams.get('dateTo') || undefined;
+        const budgetId = url.searchParams.get('budgetId') || undefined;
+        const result = await financeService.getBudgetVarianceReport(dateFrom, dateTo, budgetId);
+        return createResponse(result, result.success ? 200 : 400);
+      }
+      
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/finances/tax-rates' }),
+    handler: async (req) => {
+      if (req.method === 'GET') {
+        const result = await financeService.getTaxRates();
+        return createResponse(result, result.success ? 200 : 400);
+      }
+      
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json();
+          const result = await financeService.createTaxRate(body);
+          return createResponse(result, result.success ? 201 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+      
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/finances/tax-rates/:id' }),
+    handler: async (req, params) => {
+      const { id } = params;
+      
+      if (req.method === 'PUT') {
+        try {
+          const { expectedUpdatedAt, ...body } = await req.json();
+          if (!expectedUpdatedAt) {
+            return createErrorResponse('expectedUpdatedAt is required: send the updatedAt of the record as it was read', 428);
+          }
+          const result = await financeService.updateTaxRate({ ...body, id }, expectedUpdatedAt);
+          return createResponse(result, result.success ? 200 : result.error?.status === 404 || result.error?.status === 409 ? result.error.status : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+      
+      if (req.method === 'DELETE') {
+        const expectedUpdatedAt = new URL(req.url).searchParams.get('expectedUpdatedAt');
+        if (!expectedUpdatedAt) {
+          return createErrorResponse('expectedUpdatedAt is required: send the updatedAt of the record as it was read', 428);
+        }
+        const result = await financeService.updateTaxRate({ id, isActive: false }, expectedUpdatedAt);
+        return createResponse(result, result.success ? 200 : result.error?.status === 404 || result.error?.status === 409 ? result.error.status : 400);
+      }
+      
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/finances/tax/liability' }),
+    handler: async (req) => {
+      if (req.method === 'GET') {
+        const url = new URL(req.url);
+        const dateFrom = url.searchParams.get('dateFrom') || undefined;
+        const dateTo = url.searchParams.get('dateTo') || undefined;
+        const period = (url.searchParams.get('period') || undefined) as 'monthly' | 'quarterly' | 'yearly' | undefined;
+        
+        if (url.searchParams.get('format') === 'csv') {
+          const exportResult = await financeService.exportTaxLiabilityReport(dateFrom, dateTo, period);
+          if (!exportResult.success) {
+            return createResponse(exportResult, 400);
+          }
+          return new Response(exportResult.data.content, {
+            status: 200,
+            headers: {
+              'Content-Type': exportResult.data.contentType,
+              'Content-Disposition': `attachment; filename="${exportResult.data.filename}"`,
+              ...corsHeaders,
+            },
+          });
+        }
+        
+        const result = await financeService.getTaxLiabilityReport(dateFrom, dateTo, period);
+        return createResponse(result, result.success ? 200 : 400);
+      }
+      
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/finances/reports/:reportType' }),
+    handler: async (req, params) => {
+      const { reportType } = params;
+      
+      if (req.method === 'GET') {
+        const url = new URL(req.url);
+        const dateFrom = url.searchParams.get('dateFrom') || undefined;
+        const dateTo = url.searchParams.get('dateTo') || undefined;
+        const groupBy = url.searchParams.get('groupBy') || undefined;
+        const compareToLastPeriod = url.searchParams.get('compare') === 'true';
+        const costingMethod = url.searchParams.get('costingMethod') || undefined;
+        const reportTypes: Record<string, string> = {
+          'profit-loss': 'profit_loss',
+          'balance-sheet': 'balance_sheet',
+          'cash-flow': 'cash_flow',
+          'expenses': 'expense_report',
+          'revenue': 'revenue_report',
+        };
+        
+        switch (reportType) {
+          case 'profit-loss':
+          case 'balance-sheet':
+          case 'cash-flow':
+          case 'expenses':
+          case 'revenue':
+            const reportResult = await financeService.generateReport({
+              reportType: reportTypes[reportType],
+              dateRange: { start: dateFrom, end: dateTo },
+              groupBy,
+              compareToLastPeriod,
+              costingMethod,
+            });
+            return createResponse(reportResult, reportResult.success ? 200 : 400);
+          default:
+            return createErrorResponse('Invalid report type', 400);
+        }
+      }
+      
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  // Staff endpoints
+  {
+    pattern: new URLPattern({ pathname: '/api/staff' }),
+    handler: async (req) => {
+      if (req.method === 'GET') {
+        const url = new URL(req.url);
+        const query = Object.fromEntries(url.searchParams);
+        const result = await staffService.getStaffMembers(query);
+        return createResponse(result, result.success ? 200 : 400);
+      }
+      
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json();
+          const result = await staffService.createStaffMember(body);
+          return createResponse(result, result.success ? 201 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+      
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/staff/schedules' }),
+    handler: async (req) => {
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json();
+          const result = await staffService.createSchedule(body);
+          return createResponse(result, result.success ? 201 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/staff/schedules/series' }),
+    handler: async (req) => {
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json();
+          const result = await staffService.createScheduleSeries({ ...body, isRecurring: true });
+          return createResponse(result, result.success ? 201 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/staff/templates' }),
+    handler: async (req) => {
+      if (req.method === 'GET') {
+        const result = await staffService.getShiftTemplates();
+        return createResponse(result, result.success ? 200 : 400);
+      }
+
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json();
+          const result = await staffService.createShiftTemplate(body);
+          return createResponse(result, result.success ? 201 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/staff/templates/:id' }),
+    handler: async (req, params) => {
+      const { id } = params;
+
+      if (req.method === 'PUT') {
+        try {
+          const { expectedUpdatedAt, ...updates } = await req.json();
+          if (!expectedUpdatedAt) {
+            return createErrorResponse('expectedUpdatedAt is required: send the updatedAt of the record as it was read', 428);
+          }
+          const result = await staffService.updateShiftTemplate(id, updates, expectedUpdatedAt);
+          return createResponse(result, result.success ? 200 : result.error?.status === 409 ? 409 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+
+      if (req.method === 'DELETE') {
+        const result = await staffService.deleteShiftTemplate(id);
+        return createResponse(result, result.success ? 200 : 400);
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/staff/templates/:id/apply' }),
+    handler: async (req, params) => {
+      const { id } = params;
+
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json();
+          const result = await staffService.applyShiftTemplate({ ...body, templateId: id });
+          return createResponse(result, result.success ? 201 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/staff/staffing-settings' }),
+    handler: async (req) => {
+      if (req.method === 'GET') {
+        const result = await staffService.getStaffingSettings();
+        return createResponse(result, result.success ? 200 : 400);
+      }
+
+      if (req.method === 'PUT') {
+        try {
+          const body = await req.json();
+          const result = await staffService.updateStaffingSettings(body);
+          return createResponse(result, result.success ? 200 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/staff/:id/availability' }),
+    handler: async (req, params) => {
+      const { id } = params;
+
+      if (req.method === 'GET') {
+        const result = await staffService.getAvailability(id);
+        return createResponse(result, result.success ? 200 : 400);
+      }
+
+      if (req.method === 'PUT') {
+        try {
+          const body = await req.json();
+          const result = await staffService.setAvailability({ ...body, staffId: id });
+          return createResponse(result, result.success ? 200 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/staff/time-off' }),
+    handler: async (req) => {
+      if (req.method === 'GET') {
+        const url = new URL(req.url);
+        const query = Object.fromEntries(url.searchParams);
+        const result = await staffService.getTimeOffRequests(query);
+        return createResponse(result, result.success ? 200 : 400);
+      }
+
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json();
+          const result = await staffService.requestTimeOff(body);
+          return createResponse(result, result.success ? 201 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/staff/time-off/:id/review' }),
+    handler: async (req, params) => {
+      const { id } = params;
+
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json();
+          const result = await staffService.reviewTimeOff(id, body);
+          return createResponse(result, result.success ? 200 : result.error?.status === 409 ? 409 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/staff/schedules/open' }),
+    handler: async (req) => {
+      if (req.method === 'GET') {
+        const result = await staffService.getOpenShifts();
+        return createResponse(result, result.success ? 200 : 400);
+      }
+
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json();
+          const result = await staffService.createOpenShift(body);
+          return createResponse(result, result.success ? 201 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/staff/schedules/:id/swap' }),
+    handler: async (req, params) => {
+      const { id } = params;
+
+      if (req.method === 'POST') {
+        const result = await staffService.postShiftForSwap({ scheduleId: id });
+        return createResponse(result, result.success ? 200 : result.error?.status === 409 || result.error?.status === 404 ? result.error.status : 400);
+      }
+
+      if (req.method === 'DELETE') {
+        const result = await staffService.withdrawShiftSwap({ scheduleId: id });
+        return createResponse(result, result.success ? 200 : result.error?.status === 409 || result.error?.status === 404 ? result.error.status : 400);
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/staff/schedules/:id/claims' }),
+    handler: async (req, params) => {
+      const { id } = params;
+
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json();
+          const result = await staffService.claimShift({ ...body, scheduleId: id });
+          return createResponse(result, result.success ? 201 : result.error?.status === 409 || result.error?.status === 404 ? result.error.status : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/staff/claims' }),
+    handler: async (req) => {
+      if (req.method === 'GET') {
+        const url = new URL(req.url);
+        const query = Object.fromEntries(url.searchParams);
+        const result = await staffService.getShiftClaims(query);
+        return createResponse(result, result.success ? 200 : 400);
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/staff/claims/:id/review' }),
+    handler: async (req, params) => {
+      const { id } = params;
+
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json();
+          const result = await staffService.reviewShiftClaim(id, body);
+          return createResponse(result, result.success ? 200 : result.error?.status === 409 ? 409 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/staff/payroll' }),
+    handler: async (req) => {
+      if (req.method === 'POST') {
+        let body;
+        try {
+          body = await req.json();
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+
+        const url = new URL(req.url);
+        if (url.searchParams.get('format') === 'csv') {
+          const exportResult = await staffService.exportPayroll(body);
+          if (!exportResult.success) {
+            return createResponse(exportResult, 400);
+          }
+          return new Response(exportResult.data.content, {
+            status: 200,
+            headers: {
+              'Content-Type': exportResult.data.contentType,
+              'Content-Disposition': `attachment; filename="${exportResult.data.filename}"`,
+              ...corsHeaders,
+            },
+          });
+        }
+
+        const result = await staffService.getPayroll(body);
+        return createResponse(result, result.success ? 200 : 400);
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/staff/payroll/post' }),
+    handler: async (req) => {
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json();
+          const result = await staffService.postPayroll(body);
+          return createResponse(result, result.success ? 201 : result.error?.status === 409 ? 409 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/staff/payroll/runs' }),
+    handler: async (req) => {
+      if (req.method === 'GET') {
+        const result = await staffService.getPostedPayrolls();
+        return createResponse(result, result.success ? 200 : 400);
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/staff/tip-pools' }),
+    handler: async (req) => {
+      if (req.method === 'GET') {
+        const url = new URL(req.url);
+        const query = Object.fromEntries(url.searchParams);
+        const result = await staffService.getTipPools(query);
+        return createResponse(result, result.success ? 200 : 400);
+      }
+
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json();
+          const result = await staffService.createTipPool(body);
+          return createResponse(result, result.success ? 201 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/staff/tip-pools/preview' }),
+    handler: async (req) => {
+      if (req.method === 'POST') {
+        try {
+          const body = await req.json();
+          const result = await staffService.previewTipPool(body);
+          return createResponse(result, result.success ? 200 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/staff/:id' }),
+    handler: async (req, params) => {
+      const { id } = params;
+      
+      if (req.method === 'GET') {
+        const result = await staffService.getStaffMemberById(id);
+        return createResponse(result, result.success ? 200 : 404);
+      }
+      
+      if (req.method === 'PUT') {
+        try {
+          const body = await req.json();
+          const result = await staffService.updateStaffMember(id, body);
+          return createResponse(result, result.success ? 200 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+      
+      if (req.method === 'DELETE') {
+        const result = await staffService.deleteStaffMember(id);
+        return createResponse(result, result.success ? 200 : 400);
+      }
+      
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/staff/:id/schedule' }),
+    handler: async (req, params) => {
+      const { id } = params;
+      
+      if (req.method === 'GET') {
+        const url = new URL(req.url);
+        const dateFrom = url.searchParams.get('dateFrom');
+        const dateTo = url.searchParams.get('dateTo');
+        const result = await staffService.getStaffSchedules(id, dateFrom || undefined, dateTo || undefined);
         return createResponse(result, result.success ? 200 : 404);
       }
       
       if (req.method === 'POST') {
         try {
           const body = await req.json();
-          const interactionData = { ...body, customerId: id };
-          const result = await customerService.createInteraction(interactionData);
+          const result = await staffService.createSchedule({ ...body, staffId: id });
           return createResponse(result, result.success ? 201 : 400);
         } catch (error) {
           return createErrorResponse('Invalid JSON body', 400);
@@ -157,21 +1543,21 @@ const routes: RouteHandler[] = [
     },
   },
 
-  // Inventory endpoints
+  // Events endpoints (existing service)
   {
-    pattern: new URLPattern({ pathname: '/api/inventory' }),
+    pattern: new URLPattern({ pathname: '/api/events' }),
     handler: async (req) => {
       if (req.method === 'GET') {
         const url = new URL(req.url);
         const query = Object.fromEntries(url.searchParams);
-        const result = await inventoryService.getInventoryItems(query);
+        const result = await eventsService.getEvents(query);
         return createResponse(result, result.success ? 200 : 400);
       }
       
       if (req.method === 'POST') {
         try {
           const body = await req.json();
-          const result = await inventoryService.createInventoryItem(body);
+          const result = await eventsService.createEvent(body);
           return createResponse(result, result.success ? 201 : 400);
         } catch (error) {
           return createErrorResponse('Invalid JSON body', 400);
@@ -183,27 +1569,30 @@ const routes: RouteHandler[] = [
   },
 
   {
-    pattern: new URLPattern({ pathname: '/api/inventory/:id' }),
+    pattern: new URLPattern({ pathname: '/api/events/:id' }),
     handler: async (req, params) => {
       const { id } = params;
       
       if (req.method === 'GET') {
-        const result = await inventoryService.getInventoryItemById(id);
+        const result = await eventsService.getEventById(id);
         return createResponse(result, result.success ? 200 : 404);
       }
       
       if (req.method === 'PUT') {
         try {
-          const body = await req.json();
-          const result = await inventoryService.updateInventoryItem(id, body);
-          return createResponse(result, result.success ? 200 : 400);
+          const { expectedUpdatedAt, ...updates } = await req.json();
+          if (!expectedUpdatedAt) {
+            return createErrorResponse('expectedUpdatedAt is required: send the updatedAt of the record as it was read', 428);
+          }
+          const result = await eventsService.updateEvent(id, updates, expectedUpdatedAt);
+          return createResponse(result, result.success ? 200 : result.error?.status === 409 ? 409 : 400);
         } catch (error) {
           return createErrorResponse('Invalid JSON body', 400);
         }
       }
       
       if (req.method === 'DELETE') {
-        const result = await inventoryService.deleteInventoryItem(id);
+        const result = await eventsService.deleteEvent(id);
         return createResponse(result, result.success ? 200 : 400);
       }
       
@@ -212,16 +1601,11 @@ const routes: RouteHandler[] = [
   },
 
   {
-    pattern: new URLPattern({ pathname: '/api/inventory/transactions' }),
+    pattern: new URLPattern({ pathname: '/api/events/holds/release-expired' }),
     handler: async (req) => {
       if (req.method === 'POST') {
-        try {
-          const body = await req.json();
-          const result = await inventoryService.recordTransaction(body);
-          return createResponse(result, result.success ? 201 : 400);
-        } catch (error) {
-          return createErrorResponse('Invalid JSON body', 400);
-        }
+        const result = await eventsService.releaseExpiredHolds();
+        return createResponse(result, result.success ? 200 : 400);
       }
       
       return createErrorResponse('Method not allowed', 405);
@@ -229,17 +1613,14 @@ const routes: RouteHandler[] = [
   },
 
   {
-    pattern: new URLPattern({ pathname: '/api/inventory/categories' }),
-    handler: async (req) => {
-      if (req.method === 'GET') {
-        const result = await inventoryService.getCategories();
-        return createResponse(result, result.success ? 200 : 400);
-      }
+    pattern: new URLPattern({ pathname: '/api/events/holds/:holdId/convert' }),
+    handler: async (req, params) => {
+      const { holdId } = params;
       
       if (req.method === 'POST') {
         try {
           const body = await req.json();
-          const result = await inventoryService.createCategory(body);
+          const result = await eventsService.convertTicketHold(holdId, body);
           return createResponse(result, result.success ? 201 : 400);
         } catch (error) {
           return createErrorResponse('Invalid JSON body', 400);
@@ -250,21 +1631,34 @@ const routes: RouteHandler[] = [
     },
   },
 
-  // Finance endpoints
   {
-    pattern: new URLPattern({ pathname: '/api/finances/transactions' }),
-    handler: async (req) => {
+    pattern: new URLPattern({ pathname: '/api/events/holds/:holdId/release' }),
+    handler: async (req, params) => {
+      const { holdId } = params;
+      
+      if (req.method === 'POST') {
+        const result = await eventsService.releaseTicketHold(holdId);
+        return createResponse(result, result.success ? 200 : 400);
+      }
+      
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/events/:id/holds' }),
+    handler: async (req, params) => {
+      const { id } = params;
+      
       if (req.method === 'GET') {
-        const url = new URL(req.url);
-        const query = Object.fromEntries(url.searchParams);
-        const result = await financeService.getTransactions(query);
+        const result = await eventsService.getTicketHolds(id);
         return createResponse(result, result.success ? 200 : 400);
       }
       
       if (req.method === 'POST') {
         try {
           const body = await req.json();
-          const result = await financeService.createTransaction(body);
+          const result = await eventsService.createTicketHold({ ...body, eventId: id });
           return createResponse(result, result.success ? 201 : 400);
         } catch (error) {
           return createErrorResponse('Invalid JSON body', 400);
@@ -276,18 +1670,13 @@ const routes: RouteHandler[] = [
   },
 
   {
-    pattern: new URLPattern({ pathname: '/api/finances/accounts' }),
+    pattern: new URLPattern({ pathname: '/api/events/tickets/scan' }),
     handler: async (req) => {
-      if (req.method === 'GET') {
-        const result = await financeService.getAccounts();
-        return createResponse(result, result.success ? 200 : 400);
-      }
-      
       if (req.method === 'POST') {
         try {
           const body = await req.json();
-          const result = await financeService.createAccount(body);
-          return createResponse(result, result.success ? 201 : 400);
+          const result = await eventsService.scanTicket(body);
+          return createResponse(result, result.success ? 200 : 400);
         } catch (error) {
           return createErrorResponse('Invalid JSON body', 400);
         }
@@ -298,18 +1687,13 @@ const routes: RouteHandler[] = [
   },
 
   {
-    pattern: new URLPattern({ pathname: '/api/finances/budgets' }),
+    pattern: new URLPattern({ pathname: '/api/events/tickets/scans/sync' }),
     handler: async (req) => {
-      if (req.method === 'GET') {
-        const result = await financeService.getBudgets();
-        return createResponse(result, result.success ? 200 : 400);
-      }
-      
       if (req.method === 'POST') {
         try {
           const body = await req.json();
-          const result = await financeService.createBudget(body);
-          return createResponse(result, result.success ? 201 : 400);
+          const result = await eventsService.syncTicketScans(body.scans);
+          return createResponse(result, result.success ? 200 : 400);
         } catch (error) {
           return createErrorResponse('Invalid JSON body', 400);
         }
@@ -320,50 +1704,43 @@ const routes: RouteHandler[] = [
   },
 
   {
-    pattern: new URLPattern({ pathname: '/api/finances/reports/:reportType' }),
+    pattern: new URLPattern({ pathname: '/api/events/:id/guest-list' }),
     handler: async (req, params) => {
-      const { reportType } = params;
+      const { id } = params;
       
       if (req.method === 'GET') {
-        const url = new URL(req.url);
-        const dateFrom = url.searchParams.get('dateFrom');
-        const dateTo = url.searchParams.get('dateTo');
-        
-        switch (reportType) {
-          case 'profit-loss':
-            const plResult = await financeService.generateProfitLossReport(dateFrom!, dateTo!);
-            return createResponse(plResult, plResult.success ? 200 : 400);
-          case 'balance-sheet':
-            const bsResult = await financeService.generateBalanceSheetReport(dateFrom!);
-            return createResponse(bsResult, bsResult.success ? 200 : 400);
-          case 'cash-flow':
-            const cfResult = await financeService.generateCashFlowReport(dateFrom!, dateTo!);
-            return createResponse(cfResult, cfResult.success ? 200 : 400);
-          default:
-            return createErrorResponse('Invalid report type', 400);
-        }
+        const result = await eventsService.getGuestList(id);
+        return createResponse(result, result.success ? 200 : 400);
       }
       
       return createErrorResponse('Method not allowed', 405);
     },
   },
 
-  // Staff endpoints
   {
-    pattern: new URLPattern({ pathname: '/api/staff' }),
-    handler: async (req) => {
-      if (req.method === 'GET') {
-        const url = new URL(req.url);
-        const query = Object.fromEntries(url.searchParams);
-        const result = await staffService.getStaffMembers(query);
+    pattern: new URLPattern({ pathname: '/api/events/:id/tickets/codes' }),
+    handler: async (req, params) => {
+      const { id } = params;
+      
+      if (req.method === 'POST') {
+        const result = await eventsService.issueTicketCodes(id);
         return createResponse(result, result.success ? 200 : 400);
       }
       
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/events/tickets/:ticketId/exchange' }),
+    handler: async (req, params) => {
+      const { ticketId } = params;
+      
       if (req.method === 'POST') {
         try {
           const body = await req.json();
-          const result = await staffService.createStaffMember(body);
-          return createResponse(result, result.success ? 201 : 400);
+          const result = await eventsService.exchangeTicket(ticketId, body);
+          return createResponse(result, result.success ? 200 : 400);
         } catch (error) {
           return createErrorResponse('Invalid JSON body', 400);
         }
@@ -374,52 +1751,48 @@ const routes: RouteHandler[] = [
   },
 
   {
-    pattern: new URLPattern({ pathname: '/api/staff/:id' }),
+    pattern: new URLPattern({ pathname: '/api/events/:id/staffing-plan' }),
     handler: async (req, params) => {
       const { id } = params;
-      
+
       if (req.method === 'GET') {
-        const result = await staffService.getStaffMemberById(id);
-        return createResponse(result, result.success ? 200 : 404);
+        const result = await staffService.planEventStaffing(id);
+        return createResponse(result, result.success ? 200 : 400);
       }
-      
-      if (req.method === 'PUT') {
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/events/:id/shifts' }),
+    handler: async (req, params) => {
+      const { id } = params;
+
+      if (req.method === 'POST') {
         try {
           const body = await req.json();
-          const result = await staffService.updateStaffMember(id, body);
-          return createResponse(result, result.success ? 200 : 400);
+          const result = await staffService.createEventShifts({ ...body, eventId: id });
+          return createResponse(result, result.success ? 201 : 400);
         } catch (error) {
           return createErrorResponse('Invalid JSON body', 400);
         }
       }
-      
-      if (req.method === 'DELETE') {
-        const result = await staffService.deleteStaffMember(id);
-        return createResponse(result, result.success ? 200 : 400);
-      }
-      
+
       return createErrorResponse('Method not allowed', 405);
     },
   },
 
   {
-    pattern: new URLPattern({ pathname: '/api/staff/:id/schedule' }),
+    pattern: new URLPattern({ pathname: '/api/events/:id/refunds' }),
     handler: async (req, params) => {
       const { id } = params;
       
-      if (req.method === 'GET') {
-        const url = new URL(req.url);
-        const dateFrom = url.searchParams.get('dateFrom');
-        const dateTo = url.searchParams.get('dateTo');
-        const result = await staffService.getStaffSchedule(id, dateFrom, dateTo);
-        return createResponse(result, result.success ? 200 : 404);
-      }
-      
       if (req.method === 'POST') {
         try {
           const body = await req.json();
-          const result = await staffService.createScheduleEntry(body);
-          return createResponse(result, result.success ? 201 : 400);
+          const result = await eventsService.refundTickets(id, body);
+          return createResponse(result, result.success ? 200 : 400);
         } catch (error) {
           return createErrorResponse('Invalid JSON body', 400);
         }
@@ -429,22 +1802,17 @@ const routes: RouteHandler[] = [
     },
   },
 
-  // Events endpoints (existing service)
   {
-    pattern: new URLPattern({ pathname: '/api/events' }),
-    handler: async (req) => {
-      if (req.method === 'GET') {
-        const url = new URL(req.url);
-        const query = Object.fromEntries(url.searchParams);
-        const result = await eventsService.getEvents(query);
-        return createResponse(result, result.success ? 200 : 400);
-      }
+    pattern: new URLPattern({ pathname: '/api/events/:id/cancel' }),
+    handler: async (req, params) => {
+      const { id } = params;
       
       if (req.method === 'POST') {
         try {
-          const body = await req.json();
-          const result = await eventsService.createEvent(body);
-          return createResponse(result, result.success ? 201 : 400);
+          const { reason, accountId, categoryId } = await req.json();
+          const refund = accountId || categoryId ? { accountId, categoryId } : undefined;
+          const result = await eventsService.cancelEvent(id, reason, refund);
+          return createResponse(result, result.success ? 200 : result.error?.status === 409 ? 409 : 400);
         } catch (error) {
           return createErrorResponse('Invalid JSON body', 400);
         }
@@ -455,30 +1823,20 @@ const routes: RouteHandler[] = [
   },
 
   {
-    pattern: new URLPattern({ pathname: '/api/events/:id' }),
+    pattern: new URLPattern({ pathname: '/api/events/:id/tickets' }),
     handler: async (req, params) => {
       const { id } = params;
       
-      if (req.method === 'GET') {
-        const result = await eventsService.getEventById(id);
-        return createResponse(result, result.success ? 200 : 404);
-      }
-      
-      if (req.method === 'PUT') {
+      if (req.method === 'POST') {
         try {
           const body = await req.json();
-          const result = await eventsService.updateEvent(id, body);
+          const result = await eventsService.sellTickets(id, body.quantity, body.tierType);
           return createResponse(result, result.success ? 200 : 400);
         } catch (error) {
           return createErrorResponse('Invalid JSON body', 400);
         }
       }
       
-      if (req.method === 'DELETE') {
-        const result = await eventsService.deleteEvent(id);
-        return createResponse(result, result.success ? 200 : 400);
-      }
-      
       return createErrorResponse('Method not allowed', 405);
     },
   },
@@ -520,9 +1878,12 @@ const routes: RouteHandler[] = [
       
       if (req.method === 'PUT') {
         try {
-          const body = await req.json();
-          const result = await artistService.updateArtist(id, body);
-          return createResponse(result, result.success ? 200 : 400);
+          const { expectedUpdatedAt, ...body } = await req.json();
+          if (!expectedUpdatedAt) {
+            return createErrorResponse('expectedUpdatedAt is required: send the updatedAt of the record as it was read', 428);
+          }
+          const result = await artistService.updateArtist(id, body, expectedUpdatedAt);
+          return createResponse(result, result.success ? 200 : result.error?.status === 409 ? 409 : 400);
         } catch (error) {
           return createErrorResponse('Invalid JSON body', 400);
         }
@@ -536,6 +1897,101 @@ const routes: RouteHandler[] = [
       return createErrorResponse('Method not allowed', 405);
     },
   },
+
+  // Audit trail endpoints
+  {
+    pattern: new URLPattern({ pathname: '/api/audit' }),
+    handler: async (req) => {
+      if (req.method === 'GET') {
+        const url = new URL(req.url);
+        const { limit, ...filters } = Object.fromEntries(url.searchParams);
+        const result = await auditService.getAuditTrail({
+          ...filters,
+          limit: limit ? Number(limit) : undefined
+        });
+        return createResponse(result, result.success ? 200 : 400);
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/audit/:entityType/:entityId' }),
+    handler: async (req, params) => {
+      const { entityType, entityId } = params;
+
+      if (req.method === 'GET') {
+        const result = await auditService.getRecordHistory(entityType as 'events' | 'customers' | 'inventory_items' | 'financial_transactions' | 'staff', entityId);
+        return createResponse(result, result.success ? 200 : 400);
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  // Trash bin endpoints
+  {
+    pattern: new URLPattern({ pathname: '/api/trash' }),
+    handler: async (req) => {
+      if (req.method === 'GET') {
+        const url = new URL(req.url);
+        const query = Object.fromEntries(url.searchParams);
+        const result = await trashService.getTrash(query);
+        return createResponse(result, result.success ? 200 : 400);
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/trash/settings' }),
+    handler: async (req) => {
+      if (req.method === 'GET') {
+        const result = await trashService.getRetentionPolicy();
+        return createResponse(result, result.success ? 200 : 400);
+      }
+
+      if (req.method === 'PUT') {
+        try {
+          const body = await req.json();
+          const result = await trashService.updateRetentionPolicy(body);
+          return createResponse(result, result.success ? 200 : 400);
+        } catch (error) {
+          return createErrorResponse('Invalid JSON body', 400);
+        }
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/trash/purge' }),
+    handler: async (req) => {
+      if (req.method === 'POST') {
+        const result = await trashService.purgeExpired();
+        return createResponse(result, result.success ? 200 : 400);
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
+
+  {
+    pattern: new URLPattern({ pathname: '/api/trash/:id/restore' }),
+    handler: async (req, params) => {
+      const { id } = params;
+
+      if (req.method === 'POST') {
+        const result = await trashService.restoreFromTrash(id);
+        return createResponse(result, result.success ? 200 : 400);
+      }
+
+      return createErrorResponse('Method not allowed', 405);
+    },
+  },
 ];
 
 // Main handler
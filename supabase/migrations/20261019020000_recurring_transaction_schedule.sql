@@ -0,0 +1,28 @@
+-- Recurring occurrences are keyed by their position in the series, so editing
+-- the series start date cannot generate an occurrence a second time
+alter table financial_transactions
+  add column if not exists occurrence_index integer;
+
+create unique index if not exists financial_transactions_series_occurrence_key
+  on financial_transactions (recurring_series_id, occurrence_index)
+  where recurring_series_id is not null and status <> 'cancelled';
+
+-- Materialise due occurrences every night. The project URL and service role key
+-- are read from Vault so they never live in a migration.
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+select cron.schedule(
+  'generate-recurring-transactions',
+  '0 2 * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/api/finances/recurring/generate',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,5 @@
+-- Expenses against a hard-limit budget claim it with a conditional update while
+-- they check spending and post, so two concurrent expenses cannot both pass the limit
+alter table budgets
+  add column if not exists spend_claim uuid,
+  add column if not exists spend_claimed_at timestamptz;
@@ -0,0 +1,5 @@
+-- A transfer shows on two bank statements; the receiving side is reconciled separately
+alter table financial_transactions
+  add column if not exists to_account_reconciled boolean not null default false,
+  add column if not exists to_account_reconciled_at timestamptz,
+  add column if not exists to_account_statement_reference text;
@@ -0,0 +1,4 @@
+-- Whether a transaction's amount already includes its tax_amount, so reports can
+-- split sales tax out of revenue whichever convention the sale was recorded under
+alter table financial_transactions
+  add column if not exists tax_inclusive boolean not null default true;
@@ -0,0 +1,4 @@
+-- Version of an event's ticket counters. Sales, holds and tier edits only write
+-- when it is unchanged since they read the counters, so none overwrites another
+alter table events
+  add column if not exists ticket_version integer not null default 0;
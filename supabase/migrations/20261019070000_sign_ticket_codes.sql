@@ -0,0 +1,41 @@
+-- Sign every ticket's code in the database, so tickets sold from the dashboard,
+-- converted from holds or exchanged all carry a code the door can check. The
+-- secret is read from Vault and must match TICKET_SIGNING_SECRET in the API
+-- edge function. Codes are always recomputed, so a client cannot write its own.
+create extension if not exists pgcrypto with schema extensions;
+
+create or replace function public.sign_ticket_code()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  secret text;
+  payload text;
+begin
+  select decrypted_secret into secret
+    from vault.decrypted_secrets
+   where name = 'ticket_signing_secret';
+  if secret is null then
+    raise exception 'Vault secret ticket_signing_secret is not set';
+  end if;
+
+  -- TS1.<ticketId>.<eventId>.<base64url HMAC-SHA256>, as in lib/api/ticketCodes.ts
+  payload := 'TS1.' || new.id || '.' || new.event_id;
+  new.code := payload || '.' || translate(
+    rtrim(encode(extensions.hmac(payload, secret, 'sha256'), 'base64'), '='),
+    '+/',
+    '-_'
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists tickets_sign_code on tickets;
+create trigger tickets_sign_code
+  before insert or update of id, event_id, code on tickets
+  for each row execute function public.sign_ticket_code();
+
+-- Sign the tickets that were issued without a code
+update tickets set event_id = event_id where code is null;
@@ -0,0 +1,9 @@
+-- Tickets remember the income they were sold under and the sales tax in their
+-- price, so a refund reverses exactly what the sale booked
+alter table tickets
+  add column if not exists sale_transaction_id uuid references financial_transactions(id),
+  add column if not exists tax_amount numeric(12, 2);
+
+create index if not exists tickets_sale_transaction_id_idx
+  on tickets (sale_transaction_id)
+  where sale_transaction_id is not null;
@@ -0,0 +1,8 @@
+-- Sales are marked once their components are taken out of stock, so an import
+-- that failed part way depletes the sale when the same orders are sent again
+alter table product_sales
+  add column if not exists depleted_at timestamptz;
+
+create index if not exists product_sales_undepleted_idx
+  on product_sales (source, external_id)
+  where depleted_at is null;
@@ -0,0 +1,54 @@
+-- Stock an item is created with is recorded as its first movement, so costing
+-- can replay an item's history from its movements alone
+create or replace function record_opening_stock()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(new.current_stock, 0) > 0 then
+    insert into inventory_transactions (item_id, type, quantity, reason, unit_cost, total_cost, location, created_at)
+    values (
+      new.id,
+      'in',
+      new.current_stock,
+      'Opening stock',
+      new.cost_price,
+      new.cost_price * new.current_stock,
+      new.location,
+      coalesce(new.created_at, now())
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists inventory_items_opening_stock on inventory_items;
+create trigger inventory_items_opening_stock
+  after insert on inventory_items
+  for each row execute function record_opening_stock();
+
+-- Record the stock existing items held before their first recorded movement
+insert into inventory_transactions (item_id, type, quantity, reason, unit_cost, total_cost, location, created_at)
+select
+  items.id,
+  'in',
+  items.current_stock - coalesce(moved.net, 0),
+  'Opening stock',
+  items.cost_price,
+  items.cost_price * (items.current_stock - coalesce(moved.net, 0)),
+  items.location,
+  items.created_at
+from inventory_items items
+left join (
+  select
+    item_id,
+    sum(case
+      when type in ('in', 'adjustment_positive') then quantity
+      when type in ('out', 'adjustment_negative', 'damaged', 'expired') then -quantity
+      when type = 'transfer' and to_location is null then -quantity
+      else 0
+    end) as net
+  from inventory_transactions
+  group by item_id
+) moved on moved.item_id = items.id
+where items.current_stock - coalesce(moved.net, 0) > 0;
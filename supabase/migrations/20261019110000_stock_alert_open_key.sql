@@ -0,0 +1,18 @@
+-- One open alert per condition. Two stock movements raising the same alert at
+-- once would otherwise both insert it; the second insert now fails and is
+-- treated as already raised. Older duplicates are resolved first.
+update stock_alerts
+set status = 'resolved',
+    resolved_at = now(),
+    updated_at = now()
+where status = 'active'
+  and id not in (
+    select distinct on (alert_key) id
+    from stock_alerts
+    where status = 'active'
+    order by alert_key, created_at
+  );
+
+create unique index if not exists stock_alerts_open_key_idx
+  on stock_alerts (alert_key)
+  where status = 'active';
@@ -0,0 +1,5 @@
+-- Version of an item's stock. Stock movements only write when it is unchanged
+-- since they read the stock, and leave updated_at alone, so a sale never makes
+-- an open item edit stale
+alter table inventory_items
+  add column if not exists stock_version integer not null default 0;
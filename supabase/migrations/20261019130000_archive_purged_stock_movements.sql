@@ -0,0 +1,15 @@
+-- Purging an inventory item from the trash keeps its stock movements as
+-- history: they are archived under the item's name and only lose the link to
+-- the deleted row
+alter table inventory_transactions
+  add column if not exists archived_item_name text;
+
+alter table inventory_transactions
+  alter column item_id drop not null;
+
+alter table inventory_transactions
+  drop constraint if exists inventory_transactions_item_id_fkey;
+
+alter table inventory_transactions
+  add constraint inventory_transactions_item_id_fkey
+  foreign key (item_id) references inventory_items (id) on delete set null;
@@ -0,0 +1,10 @@
+-- A payroll run claims its period before its wages are booked. Two runs may
+-- not cover the same stretch of time, so a second concurrent post of an
+-- overlapping period fails on insert instead of booking the wages twice.
+-- The expense is linked once it is booked.
+alter table payroll_runs
+  alter column transaction_id drop not null;
+
+alter table payroll_runs
+  add constraint payroll_runs_period_excl
+  exclude using gist (tstzrange(period_start, period_end) with &&);
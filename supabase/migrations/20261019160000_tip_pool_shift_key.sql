@@ -0,0 +1,6 @@
+-- One tip pool per shift and event. Two requests sharing the same shift's
+-- tips at once would otherwise both record payouts; the second insert now
+-- fails and is refused as already shared. Shifts without an event share the
+-- key of the nil event.
+create unique index if not exists tip_pools_shift_key_idx
+  on tip_pools (shift_start, shift_end, coalesce(event_id, '00000000-0000-0000-0000-000000000000'::uuid));
@@ -126,6 +126,7 @@ export interface Ticket {
   price: number;
   type: 'general' | 'vip' | 'earlyBird';
   status: 'valid' | 'used' | 'refunded' | 'cancelled';
+  code?: string;
   scannedAt?: string;
 }
 